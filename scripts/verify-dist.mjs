@@ -34,6 +34,10 @@ const requiredFiles = [
   'middleware/index.js',
   'middleware/index.mjs',
   'middleware/index.d.ts',
+  // Security
+  'security/index.js',
+  'security/index.mjs',
+  'security/index.d.ts',
   // React
   'react/index.js',
   'react/index.mjs',
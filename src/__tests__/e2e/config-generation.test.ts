@@ -197,7 +197,8 @@ describe('E2E: Config-Based Generation', () => {
 
       expect(dbCode).toContain("import { factory");
       expect(dbCode).toContain('@faker-js/faker');
-      expect(dbCode).toContain('export const db = factory({');
+      expect(dbCode).toContain('const models = factory({');
+      expect(dbCode).toContain('export const db = {');
       expect(dbCode).toContain('user:');
       expect(dbCode).toContain('post:');
     });
@@ -318,7 +319,7 @@ export * from './handlers';
     it('client.ts imports from db.ts and types.ts', () => {
       const clientCode = generateMockClient(analyzedSchemas);
 
-      expect(clientCode).toContain("import { db } from './db'");
+      expect(clientCode).toContain("import { db, subscribeToChanges } from './db'");
       expect(clientCode).toContain("import type * as Types from './types'");
     });
 
@@ -48,7 +48,7 @@ declare module '@faker-js/faker' {
   }
 
   interface DatatypeModule {
-    boolean(): boolean;
+    boolean(options?: number | { probability?: number }): boolean;
   }
 
   interface ImageModule {
@@ -42,6 +42,7 @@ declare module '@mswjs/data' {
     create(data: Partial<TEntity>): TEntity;
     update(options: UpdateOptions<TEntity>): TEntity | null;
     delete(options: FindOptions<TEntity>): TEntity | null;
+    updateMany(options: UpdateOptions<TEntity>): TEntity[] | null;
     deleteMany(options: FindOptions<TEntity>): TEntity[];
     count(): number;
   }
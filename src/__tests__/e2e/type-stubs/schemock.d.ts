@@ -44,6 +44,14 @@ declare module 'schemock/schema' {
     eager?: boolean;
   }
 
+  export interface RelationDefinition {
+    type: 'hasOne' | 'hasMany' | 'belongsTo' | 'manyToMany';
+    target: string;
+    foreignKey?: string;
+    through?: string;
+    otherKey?: string;
+  }
+
   export function hasOne(target: string, options?: RelationOptions): unknown;
   export function hasMany(target: string, options?: RelationOptions): unknown;
   export function belongsTo(target: string, options?: RelationOptions): unknown;
@@ -61,6 +69,9 @@ declare module 'schemock/schema' {
     name: string;
     fields: Record<string, unknown>;
     relations?: Record<string, unknown>;
+    timestamps?: boolean;
+    softDelete?: boolean;
+    rls?: unknown;
     options?: EntitySchemaOptions;
   }
 
@@ -132,6 +143,34 @@ declare module 'schemock/middleware' {
 }
 
 declare module 'schemock/adapters' {
+  import type { EntitySchema } from 'schemock/schema';
+
+  export interface Snapshot {
+    format: 'schemock-snapshot';
+    version: number;
+    createdAt: string;
+    schemaVersion: string;
+    schemas: Record<string, Record<string, string>>;
+    data: Record<string, Record<string, unknown>[]>;
+  }
+
+  export interface ImportSnapshotOptions {
+    renames?: Record<string, string>;
+  }
+
+  export interface SnapshotImportResult {
+    schemaVersion: string;
+    changes: string[];
+    counts: Record<string, number>;
+  }
+
+  export function createSnapshot(schemas: EntitySchema[], data: Record<string, Record<string, unknown>[]>): Snapshot;
+  export function restoreSnapshot(
+    snapshot: Snapshot | string | { data: Record<string, Record<string, unknown>[]> },
+    schemas: EntitySchema[],
+    options?: ImportSnapshotOptions
+  ): SnapshotImportResult & { data: Record<string, Record<string, unknown>[]> };
+
   export interface AdapterConfig {
     baseUrl?: string;
   }
@@ -77,6 +77,26 @@ declare module '@supabase/supabase-js' {
       signOut(): Promise<{ error: { message: string } | null }>;
     };
     rpc<T = unknown>(functionName: string, params?: Record<string, unknown>): PostgrestFilterBuilder<T>;
+    channel(name: string): RealtimeChannel;
+    removeChannel(channel: RealtimeChannel): Promise<'ok' | 'timed out' | 'error'>;
+    realtime: {
+      setAuth(token?: string | null): Promise<void>;
+    };
+  }
+
+  export interface RealtimePostgresChangesPayload<T> {
+    eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+    new: T;
+    old: Partial<T>;
+  }
+
+  export interface RealtimeChannel {
+    on<T extends Record<string, unknown>>(
+      type: 'postgres_changes',
+      filter: { event: '*' | 'INSERT' | 'UPDATE' | 'DELETE'; schema: string; table?: string; filter?: string },
+      callback: (payload: RealtimePostgresChangesPayload<T>) => void
+    ): RealtimeChannel;
+    subscribe(): RealtimeChannel;
   }
 
   export interface SupabaseClientOptions {
@@ -0,0 +1,165 @@
+/**
+ * Integration tests for the contract test generator and the generate:tests command
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdir, mkdtemp, readdir, rm } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { defineData, defineEndpoint, field, belongsTo, hasMany } from '../../../schema';
+import { analyzeEndpoints } from '../../../cli/analyze-endpoints';
+import { generateContractTestFiles } from '../../../cli/generators/contract-tests';
+import { generateContractTests } from '../../../cli/commands/generate-tests';
+import { analyzeTestSchemas, createTempDir, cleanupTempDir, writeGeneratedFile, getProjectPath } from '../utils/test-helpers';
+import { checkTypeScriptCompiles, assertCodeContains, assertCodeDoesNotContain } from '../utils/compile-checker';
+
+const Category = defineData('category', {
+  id: field.uuid(),
+  label: field.string(),
+  ownerId: field.uuid(),
+  items: hasMany('item', { foreignKey: 'categoryId' }),
+}, {
+  rls: { scope: [{ field: 'ownerId', contextKey: 'userId' }] },
+});
+
+const Item = defineData('item', {
+  id: field.uuid(),
+  title: field.string(),
+  sku: field.string().unique(),
+  status: field.enum(['draft', 'live']).default('draft'),
+  categoryId: field.ref('category'),
+  category: belongsTo('category', { foreignKey: 'categoryId' }),
+}, { versioned: true });
+
+const Event = defineData('event', {
+  id: field.uuid(),
+  name: field.string(),
+}, { api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } } });
+
+const Ship = defineEndpoint('/api/orders/:orderId/ship', {
+  method: 'POST',
+  params: { orderId: field.uuid() },
+  body: { carrier: field.enum(['ups', 'dhl']), note: field.string().nullable() },
+  response: { trackingNumber: field.string() },
+  mockResolver: () => ({ trackingNumber: '1Z' }),
+});
+
+function generate(): Record<string, string> {
+  return Object.fromEntries(generateContractTestFiles(analyzeTestSchemas([Category, Item, Event]), analyzeEndpoints([Ship])));
+}
+
+describe('Contract Test Generator Integration', () => {
+  const files = generate();
+
+  it('writes a harness, fixtures and a suite per entity and endpoint', () => {
+    expect(Object.keys(files)).toEqual([
+      'harness.ts',
+      'fixtures.ts',
+      'category.contract.test.ts',
+      'item.contract.test.ts',
+      'event.contract.test.ts',
+      'endpoints/ordersByOrderIdShip.contract.test.ts',
+    ]);
+    assertCodeContains(files['harness.ts'], [
+      "process.env.SCHEMOCK_CONTRACT_BASE_URL ?? 'http://localhost:3000'",
+      'export function configureContract(overrides: Partial<ContractConfig>): void {',
+      "claims = { sub: userId, userId, role: 'user' };",
+    ]);
+  });
+
+  it('creates required parents and scopes fixtures to the actor', () => {
+    assertCodeContains(files['fixtures.ts'], [
+      "ownerId: contextValue(actor, 'userId'),",
+      'categoryId: overrides.categoryId ?? (await createCategory({}, actor)).id,',
+      'sku: `${faker.lorem.word()}-${faker.string.alphanumeric(8)}`,',
+    ]);
+  });
+
+  it('covers CRUD, filters, pagination, relations and validation', () => {
+    const item = files['item.contract.test.ts'];
+
+    assertCodeContains(item, [
+      "describe.runIf(supports('crud'))('item CRUD', () => {",
+      "headers: { 'If-Match': `\"${created.version}\"` }",
+      "query: { where: { sku: created.sku } }",
+      "query: { limit: 1, offset: 1 }",
+      'expect(recordOf(response).category?.id).toBe(created.categoryId);',
+      "it('rejects an item without title, sku, categoryId', async () => {",
+      "body: await itemInput({ status: '__invalid__' })",
+    ]);
+    assertCodeDoesNotContain(item, ['row-level security']);
+    assertCodeContains(files['event.contract.test.ts'], ['const cursor = first.body?.meta?.nextCursor;']);
+  });
+
+  it('checks RLS denials for scoped entities', () => {
+    const category = files['category.contract.test.ts'];
+
+    assertCodeContains(category, [
+      "const read = await request('GET', `/api/categories/${created.id}`, { as: 'intruder' });",
+      'expect([403, 404]).toContain(remove.status);',
+      'const child = await createItem({ categoryId: created.id });',
+      "it('rejects a category without label', async () => {",
+    ]);
+  });
+
+  it('sends endpoint params in the path and overridable placeholders in the body', () => {
+    assertCodeContains(files['endpoints/ordersByOrderIdShip.contract.test.ts'], [
+      "return endpointInput('ordersByOrderIdShip', {",
+      "body: { carrier: 'ups', note: faker.lorem.word() },",
+      "const { path, query } = resolvePath('/api/orders/:orderId/ship', params);",
+      "it('rejects a body without carrier', async () => {",
+    ]);
+  });
+
+  it('generates a suite that compiles', async () => {
+    // Inside the project so the suite resolves vitest and faker
+    const cacheDir = getProjectPath('node_modules', '.cache');
+    await mkdir(cacheDir, { recursive: true });
+    const dir = await mkdtemp(join(cacheDir, 'contract-tests-'));
+
+    try {
+      await mkdir(join(dir, 'endpoints'));
+      const paths: string[] = [];
+      for (const [file, content] of Object.entries(files)) {
+        paths.push(await writeGeneratedFile(dir, file, content));
+      }
+
+      const result = await checkTypeScriptCompiles(paths[0], paths.slice(1));
+      expect(result.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  describe('generate:tests command', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('contract-tests-command-');
+    });
+
+    afterAll(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('writes the suite for the configured project', async () => {
+      const schemaSource = [
+        `import { defineData, defineEndpoint, field } from '${resolve('src/schema/index.ts')}';`,
+        "export const Product = defineData('product', { id: field.uuid(), name: field.string() });",
+        "export const Restock = defineEndpoint('/api/products/:id/restock', { method: 'POST', params: { id: field.uuid() }, body: { quantity: field.number().int() }, response: { stock: field.number().int() }, mockResolver: () => ({ stock: 1 }) });",
+      ].join('\n');
+      const schemaPath = await writeGeneratedFile(tempDir, 'product.ts', schemaSource);
+      const configPath = await writeGeneratedFile(tempDir, 'schemock.config.cjs', `module.exports = ${JSON.stringify({
+        schemas: schemaPath,
+        output: join(tempDir, 'generated'),
+        adapter: 'mock',
+        apiPrefix: '/v1',
+      })};`);
+      const outputDir = join(tempDir, 'contract');
+
+      await generateContractTests({ output: outputDir, config: configPath });
+
+      expect((await readdir(outputDir)).sort()).toEqual(['endpoints', 'fixtures.ts', 'harness.ts', 'product.contract.test.ts']);
+      expect(await readdir(join(outputDir, 'endpoints'))).toEqual(['productsByIdRestock.contract.test.ts']);
+    });
+  });
+});
@@ -105,8 +105,10 @@ describe('Custom Endpoint Unified Generation', () => {
       it('should generate resolver function from mockResolverSource', () => {
         const code = generateEndpointService(searchAnalyzed, { mode: 'resolver' });
 
-        expect(code).toContain('const searchResolver =');
-        // Should include the resolver context type
+        // Typed with the resolver context execute() passes
+        expect(code).toContain(
+          'const searchResolver: (ctx: SearchResolverContext) => SearchResponse | Promise<SearchResponse> = async ({ params, body, db }) =>'
+        );
         expect(code).toContain('interface SearchResolverContext');
       });
 
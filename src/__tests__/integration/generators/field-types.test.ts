@@ -0,0 +1,154 @@
+/**
+ * Integration tests for decimal, bigint, JSON, time, datetime and bytes fields
+ * across types, mock data, form schemas, OpenAPI and SQL generators
+ */
+import { describe, it, expect, afterAll } from 'vitest';
+import { PGlite, types } from '@electric-sql/pglite';
+import { generateTypes } from '../../../cli/generators/types';
+import { generateMockDb } from '../../../cli/generators/mock/db';
+import { generateMockClient } from '../../../cli/generators/mock/client';
+import { generateFormSchemas } from '../../../cli/generators/form-schemas';
+import { generateTables } from '../../../cli/generators/sql';
+import { generatePGliteDb } from '../../../cli/generators/pglite/db';
+import { generateOpenAPI, registerSchemas } from '../../../generator/openapi';
+import { DataGenerator } from '../../../adapters/mock/generator';
+import { defineData, field } from '../../../schema';
+import { analyzeTestSchemas, createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
+import { assertCodeContains, checkTypeScriptCompiles } from '../utils/compile-checker';
+
+const Ledger = defineData('ledger', {
+  id: field.uuid(),
+  amount: field.decimal({ precision: 10, scale: 2 }),
+  sequence: field.bigint(),
+  metadata: field.json<{ source: string }>().nullable(),
+  opensAt: field.time(),
+  postedAt: field.datetime(),
+  bookedOn: field.date(),
+  signature: field.bytes(),
+  thumbnail: field.bytes().nullable(),
+});
+
+describe('Extended Field Types Integration', () => {
+  const analyzed = analyzeTestSchemas([Ledger]);
+  let tempDir: string | undefined;
+
+  afterAll(async () => {
+    if (tempDir) await cleanupTempDir(tempDir);
+  });
+
+  it('maps each field type to its TypeScript type', () => {
+    const code = generateTypes(analyzed);
+
+    assertCodeContains(code, [
+      'amount: string;',
+      'sequence: string;',
+      'metadata?: unknown | null;',
+      'opensAt: string;',
+      'postedAt: Date;',
+      'signature: string;',
+      'thumbnail?: string | null;',
+    ]);
+  });
+
+  it('generates precision-aware mock data and stores JSON as strings', () => {
+    const code = generateMockDb(analyzed, { persistence: 'memory' });
+
+    assertCodeContains(code, [
+      'amount: () => faker.finance.amount({ min: 0, max: 1000, dec: 2 }),',
+      'sequence: () => faker.number.bigInt({ min: 1, max: 1000000 }).toString(),',
+      'metadata: nullable(() => JSON.stringify({})),',
+      'opensAt: () => faker.date.recent().toISOString().slice(11, 19),',
+      'signature: () => btoa(String.fromCharCode(...Array.from(',
+      'thumbnail: nullable(() => btoa(String.fromCharCode(...Array.from(',
+    ]);
+  });
+
+  it('generates a mock db and client that compile', async () => {
+    tempDir = await createTempDir('field-types-compile-');
+    const typesPath = await writeGeneratedFile(tempDir, 'types.ts', generateTypes(analyzed));
+    const dbPath = await writeGeneratedFile(tempDir, 'db.ts', generateMockDb(analyzed, { persistence: 'localStorage' }));
+    const clientPath = await writeGeneratedFile(tempDir, 'client.ts', generateMockClient(analyzed));
+
+    const result = await checkTypeScriptCompiles(clientPath, [typesPath, dbPath]);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.success).toBe(true);
+  }, 30000);
+
+  it('generates runtime values of the declared types', () => {
+    const generator = new DataGenerator();
+    const ledger = generator.generateEntity<Record<string, unknown>>(Ledger);
+
+    expect(ledger.amount).toMatch(/^\d{1,8}\.\d{2}$/);
+    expect(typeof ledger.sequence).toBe('bigint');
+    expect(ledger.opensAt).toMatch(/^\d{2}:\d{2}:\d{2}$/);
+    expect(ledger.postedAt).toBeInstanceOf(Date);
+    expect(ledger.signature).toBeInstanceOf(Uint8Array);
+  });
+
+  it('validates decimals and times in form schemas', () => {
+    const code = generateFormSchemas(analyzed);
+
+    assertCodeContains(code, [
+      'amount: z.string().regex(/^-?\\d{1,8}(\\.\\d{1,2})?$/, "Must be a valid decimal number")',
+      'sequence: z.string().regex(/^-?\\d+$/, "Must be a valid integer")',
+      'opensAt: z.string().regex(/^\\d{2}:\\d{2}(:\\d{2})?$/, "Must be a valid time")',
+      'signature: z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, "Must be base64 encoded")',
+    ]);
+  });
+
+  it('emits OpenAPI formats', () => {
+    registerSchemas([Ledger]);
+    const spec = JSON.parse(JSON.stringify(generateOpenAPI()));
+    const props = spec.components.schemas.Ledger.properties;
+
+    expect(props.amount).toMatchObject({ type: 'string', format: 'decimal', pattern: '^-?\\d{1,8}(\\.\\d{1,2})?$' });
+    expect(props.sequence).toMatchObject({ type: 'string', format: 'int64' });
+    // Free-form JSON already admits null in OpenAPI 3.1
+    expect(props.metadata).toEqual({});
+    expect(props.opensAt).toMatchObject({ type: 'string', format: 'time' });
+    expect(props.postedAt).toMatchObject({ type: 'string', format: 'date-time' });
+    expect(props.signature).toMatchObject({ type: 'string', format: 'byte' });
+  });
+
+  it('generates SQL column types', () => {
+    const sql = generateTables(analyzed);
+    const pglite = generatePGliteDb(analyzed, { type: 'pglite' });
+
+    assertCodeContains(sql, [
+      '"amount" DECIMAL(10, 2) NOT NULL',
+      '"sequence" BIGINT NOT NULL',
+      '"metadata" JSONB',
+      '"opensAt" TIME NOT NULL',
+      '"postedAt" TIMESTAMPTZ NOT NULL',
+      '"bookedOn" DATE NOT NULL',
+      '"signature" BYTEA NOT NULL',
+    ]);
+    assertCodeContains(pglite, [
+      '"amount" DECIMAL(10, 2) NOT NULL',
+      '"sequence" BIGINT NOT NULL',
+      '"opensAt" TIME NOT NULL',
+      '"signature" TEXT NOT NULL',
+    ]);
+  });
+
+  it('round-trips bigints beyond 2^53 as decimal strings through PGlite and JSON', async () => {
+    const pglite = generatePGliteDb(analyzed, { type: 'pglite', persistence: 'memory' });
+    assertCodeContains(pglite, ["import { PGlite, types } from '@electric-sql/pglite';"]);
+    const options = pglite.match(/new PGlite\((.*)\);/)![1];
+    const db = new PGlite(new Function('types', `return ${options}`)(types));
+
+    try {
+      await db.exec('CREATE TABLE "ledger" ("sequence" BIGINT NOT NULL)');
+      await db.query('INSERT INTO "ledger" ("sequence") VALUES ($1)', ['9007199254740993']);
+      const [row] = (await db.query<{ sequence: string }>('SELECT "sequence" FROM "ledger"')).rows;
+
+      expect(row.sequence).toBe('9007199254740993');
+      const received = JSON.parse(JSON.stringify(row)) as { sequence: string };
+      expect(received.sequence).toBe(row.sequence);
+      expect(BigInt(received.sequence) + 1n).toBe(9007199254740994n);
+    } finally {
+      await db.close();
+    }
+  }, 60000);
+});
@@ -0,0 +1,317 @@
+/**
+ * Integration tests for the graphql-server generator
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  generateGraphQLServerTarget,
+  generateGraphQLSchema,
+  generateLoaders,
+  generateGraphQLContext,
+  generateResolvers,
+  generateOperations,
+} from '../../../cli/generators/graphql-server';
+import { analyzeEndpoints } from '../../../cli/analyze-endpoints';
+import { schemas as blogSchemas } from '../fixtures/schemas/blog.schema';
+import { analyzeTestSchemas, createTestConfig, getProjectPath } from '../utils/test-helpers';
+import { assertCodeContains, checkTypeScriptCompiles } from '../utils/compile-checker';
+import type { AnalyzedSchema, GenerationTarget } from '../../../cli/types';
+import { defineData, field, belongsTo, hasMany, defineEndpoint } from '../../../schema';
+
+const target: GenerationTarget = {
+  name: 'graphql',
+  type: 'graphql-server',
+  output: './src/generated/graphql',
+};
+
+const Category = defineData('category', {
+  id: field.uuid(),
+  label: field.string(),
+  ownerId: field.uuid(),
+  items: hasMany('item', { foreignKey: 'categoryId' }),
+}, {
+  rls: { scope: [{ field: 'ownerId', contextKey: 'userId' }] },
+});
+
+const Item = defineData('item', {
+  id: field.uuid(),
+  title: field.string(),
+  price: field.decimal({ precision: 10, scale: 2 }),
+  categoryId: field.uuid(),
+  category: belongsTo('category', { foreignKey: 'categoryId' }),
+}, {
+  softDelete: true,
+});
+
+const Event = defineData('event', {
+  id: field.uuid(),
+  name: field.string(),
+}, {
+  api: { pagination: { style: 'cursor', defaultLimit: 10 } },
+  versioned: true,
+});
+
+const searchEndpoint = defineEndpoint('/api/search', {
+  method: 'GET',
+  params: { q: field.string() },
+  response: { total: field.number() },
+  mockResolver: async () => ({ total: 0 }),
+});
+
+const archiveEndpoint = defineEndpoint('/api/categories/:id/archive', {
+  method: 'POST',
+  params: { notify: field.boolean() },
+  body: { reason: field.string() },
+  mockResolver: async () => undefined,
+});
+
+describe('GraphQL Server Generator Integration', () => {
+  const blog = analyzeTestSchemas(blogSchemas);
+  const shop = analyzeTestSchemas([Category, Item]);
+  const events = analyzeTestSchemas([Event]);
+  const endpoints = analyzeEndpoints([searchEndpoint, archiveEndpoint]);
+
+  describe('generateGraphQLSchema', () => {
+    it('generates object, connection and input types per entity', () => {
+      const sdl = generateGraphQLSchema(blog, blog);
+
+      assertCodeContains(sdl, [
+        'scalar DateTime',
+        'type User {',
+        '  posts: [Post!]!',
+        'type UserConnection {',
+        '  items: [User!]!',
+        '  hasMore: Boolean!',
+        'input CreatePostInput {',
+        '  title: String!',
+        '  status: PostStatus',
+        'input UpdatePostInput {',
+        'input PostFilter {',
+        '  title: StringFilter',
+        '  AND: [PostFilter!]',
+        'input PostOrderBy {',
+        '  createdAt: SortOrder',
+      ]);
+      expect(sdl).not.toContain('postCount');
+    });
+
+    it('generates CRUD queries and mutations', () => {
+      const sdl = generateGraphQLSchema(shop, shop);
+
+      assertCodeContains(sdl, [
+        '  category(id: ID!): Category',
+        '  categories(where: CategoryFilter, orderBy: CategoryOrderBy, limit: Int, offset: Int): CategoryConnection!',
+        '  createItem(input: CreateItemInput!): Item!',
+        '  updateItem(id: ID!, input: UpdateItemInput!): Item!',
+        '  deleteCategory(id: ID!): Boolean!',
+        '  price: String!',
+      ]);
+    });
+
+    it('adds soft delete, cursor and version arguments to entities that opt in', () => {
+      const sdl = generateGraphQLSchema([...shop, ...events], [...shop, ...events]);
+
+      assertCodeContains(sdl, [
+        '  item(id: ID!, withDeleted: Boolean, onlyDeleted: Boolean): Item',
+        '  items(where: ItemFilter, orderBy: ItemOrderBy, limit: Int, offset: Int, withDeleted: Boolean, onlyDeleted: Boolean): ItemConnection!',
+        '  deleteItem(id: ID!, purge: Boolean): Boolean!',
+        '  restoreItem(id: ID!): Item!',
+        '  events(where: EventFilter, orderBy: EventOrderBy, limit: Int, offset: Int, first: Int, after: String, last: Int, before: String): EventConnection!',
+        '  updateEvent(id: ID!, input: UpdateEventInput!, expectedVersion: Int): Event!',
+        '  nextCursor: String',
+      ]);
+      expect(sdl).not.toContain('restoreCategory');
+    });
+
+    it('keeps filtered-out entities as types without operations', () => {
+      const sdl = generateGraphQLSchema(shop, shop.filter((s) => s.name === 'item'));
+
+      expect(sdl).toContain('type Category {');
+      expect(sdl).not.toContain('createCategory');
+      expect(sdl).not.toContain('input CategoryFilter');
+    });
+
+    it('exposes GET endpoints as queries and others as mutations', () => {
+      const sdl = generateGraphQLSchema(shop, shop, endpoints);
+
+      assertCodeContains(sdl, [
+        'type SearchResponse {',
+        'input CategoriesByIdArchiveInput {',
+        '  reason: String!',
+        '  search(q: String!): SearchResponse!',
+        '  categoriesByIdArchive(id: String!, notify: Boolean!, input: CategoriesByIdArchiveInput!): Boolean!',
+      ]);
+      expect(sdl.indexOf('search(q')).toBeLessThan(sdl.indexOf('type Mutation'));
+      expect(sdl.indexOf('categoriesByIdArchive(id')).toBeGreaterThan(sdl.indexOf('type Mutation'));
+    });
+  });
+
+  describe('generateLoaders', () => {
+    it('batches belongsTo and hasMany lookups', () => {
+      const code = generateLoaders(shop);
+
+      assertCodeContains(code, [
+        "import DataLoader from 'dataloader';",
+        'export function createLoaders(ctx: RequestContext) {',
+        'categoryItems: new DataLoader<string, Types.Item[]>(async (ids) => {',
+        'itemCategory: new DataLoader<string, Types.Category | null>(async (ids) => {',
+        'return groupBy(ids, rows, (row) => row.categoryId);',
+        'export type Loaders = ReturnType<typeof createLoaders>;',
+      ]);
+    });
+
+    it('applies the target RLS scope and soft-delete filter', () => {
+      const code = generateLoaders(shop);
+
+      assertCodeContains(code, [
+        'db.category.findMany({ where: { id: { in: [...ids] }, AND: [{ ...(ctx.userId ? { ownerId: ctx.userId } : {}) }] } })',
+        'db.item.findMany({ where: { categoryId: { in: [...ids] }, AND: [{ deletedAt: null }] } })',
+      ]);
+    });
+
+    it('types the request context from the service contexts', () => {
+      const code = generateGraphQLContext(shop);
+
+      assertCodeContains(code, [
+        "import type { CategoryContext, ItemContext } from './services';",
+        'export type RequestContext = CategoryContext & ItemContext;',
+        'return { ctx, loaders: createLoaders(ctx) };',
+      ]);
+    });
+  });
+
+  describe('generateResolvers', () => {
+    it('delegates queries and mutations to the services', () => {
+      const code = generateResolvers(shop, shop);
+
+      assertCodeContains(code, [
+        "import { categoryService, itemService } from './services';",
+        'category: (_parent: unknown, { id }: { id: string }, { ctx }: GraphQLContext) => orNull(categoryService.get(ctx, id)),',
+        'categories: (_parent: unknown, args: ListArgs<Types.CategoryFilter>, { ctx }: GraphQLContext) => connection(categoryService, ctx, args),',
+        'service.count(ctx, where, scope),',
+        'createItem: (_parent: unknown, { input }: { input: Types.ItemCreate }, { ctx }: GraphQLContext) => itemService.create(ctx, input),',
+        'await itemService.delete(ctx, id, { purge: purge ?? undefined });',
+        'restoreItem: (_parent: unknown, { id }: { id: string }, { ctx }: GraphQLContext) => itemService.restore(ctx, id),',
+      ]);
+    });
+
+    it('pages cursor entities through listPage and passes the expected version', () => {
+      const code = generateResolvers(events, events);
+
+      assertCodeContains(code, [
+        'events: (_parent: unknown, args: ListArgs<Types.EventFilter>, { ctx }: GraphQLContext) => cursorConnection(eventService, ctx, args),',
+        'limit: args.first ?? args.last ?? args.limit ?? undefined,',
+        'cursor: args.after ?? args.before ?? undefined,',
+        'eventService.update(ctx, id, input, { expectedVersion: expectedVersion ?? undefined }),',
+      ]);
+      expect(generateResolvers(shop, shop)).not.toContain('cursorConnection');
+    });
+
+    it('resolves relation fields through the loaders', () => {
+      const code = generateResolvers(shop, shop);
+
+      assertCodeContains(code, [
+        'items: (parent: Types.Category, _args: unknown, { loaders }: GraphQLContext) => loaders.categoryItems.load(parent.id),',
+        'category: (parent: Types.Item, _args: unknown, { loaders }: GraphQLContext) => (parent.categoryId == null ? null : loaders.itemCategory.load(String(parent.categoryId))),',
+      ]);
+    });
+
+    it('calls endpoint services with params and input', () => {
+      const code = generateResolvers(shop, shop, endpoints);
+
+      assertCodeContains(code, [
+        'search: (_parent: unknown, params: Types.SearchParams, { ctx }: GraphQLContext) => searchService.execute(ctx, params),',
+        'categoriesByIdArchive: async (_parent: unknown, { input, ...params }: Types.CategoriesByIdArchiveParams & { input: Types.CategoriesByIdArchiveBody }, { ctx }: GraphQLContext) => {',
+        'await categoriesByIdArchiveService.execute(ctx, params, input);',
+      ]);
+    });
+  });
+
+  describe('generateOperations', () => {
+    it('generates documents matching the SDL', () => {
+      const code = generateOperations(shop, endpoints);
+
+      assertCodeContains(code, [
+        'findOne: `query GetCategory($id: ID!) { category(id: $id) { id label ownerId createdAt updatedAt } }`,',
+        'categories(where: $where, orderBy: $orderBy, limit: $limit, offset: $offset) { items {',
+        'delete: `mutation DeleteItem($id: ID!) { deleteItem(id: $id) }`,',
+        'search: `query Search($q: String!) { search(q: $q) { total } }`,',
+        'export function createOperations<TDocument>(gql: (source: string) => TDocument) {',
+      ]);
+    });
+  });
+
+  describe('generateGraphQLServerTarget', () => {
+    it('writes schema, resolvers, loaders and services', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      try {
+        const files = await generateGraphQLServerTarget(shop, shop, '/tmp/graphql', target, createTestConfig(), { dryRun: true }, endpoints);
+
+        expect(files).toEqual(
+          expect.arrayContaining([
+            'types.ts',
+            'schema.graphql',
+            'schema.ts',
+            'scalars.ts',
+            'services/category.service.ts',
+            'services/search.service.ts',
+            'services/index.ts',
+            'loaders.ts',
+            'context.ts',
+            'resolvers.ts',
+            'operations.ts',
+            'index.ts',
+          ])
+        );
+      } finally {
+        log.mockRestore();
+      }
+    });
+  });
+
+  describe('Generated Code Compilation', () => {
+    /** Prisma-style `db` the output expects next to it, typed per entity */
+    function prismaDb(schemas: AnalyzedSchema[]): string {
+      return [
+        "import type * as Types from './types';",
+        '',
+        'interface Delegate<T> {',
+        '  findMany(args?: { where?: object; orderBy?: object; take?: number; skip?: number }): Promise<T[]>;',
+        '  findUnique(args: { where: { id: string } }): Promise<T | null>;',
+        '  count(args?: { where?: object }): Promise<number>;',
+        '  create(args: { data: object }): Promise<T>;',
+        '  update(args: { where: { id: string; [key: string]: unknown }; data: object }): Promise<T>;',
+        '  delete(args: { where: { id: string } }): Promise<T>;',
+        '}',
+        '',
+        'export declare const db: {',
+        ...schemas.map((s) => `  ${s.name}: Delegate<Types.${s.pascalName}>;`),
+        '};',
+        '',
+      ].join('\n');
+    }
+
+    it('server with services, loaders and endpoints compiles', async () => {
+      // Inside the project so the output resolves graphql
+      const cacheDir = getProjectPath('node_modules', '.cache');
+      await mkdir(cacheDir, { recursive: true });
+      const dir = await mkdtemp(join(cacheDir, 'graphql-server-'));
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      const schemas = [...shop, ...events];
+
+      try {
+        const files = await generateGraphQLServerTarget(schemas, schemas, dir, { ...target, output: dir }, createTestConfig(), {}, endpoints);
+        await writeFile(join(dir, 'db.ts'), prismaDb(schemas));
+        const paths = ['db.ts', ...files.filter((file) => file.endsWith('.ts'))].map((file) => join(dir, file));
+        const result = await checkTypeScriptCompiles(paths[0], paths.slice(1));
+
+        expect(result.errors).toBeUndefined();
+        expect(result.success).toBe(true);
+      } finally {
+        log.mockRestore();
+        await rm(dir, { recursive: true, force: true });
+      }
+    }, 60000);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Integration tests for Hono generator
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { generateHonoTarget } from '../../../cli/generators/hono';
+import { generateHonoRouteFile } from '../../../cli/generators/hono/route-template';
+import { generateHonoAppFile } from '../../../cli/generators/hono/app-template';
+import { generateHonoEndpointRouteFile, toHonoEndpointPath } from '../../../cli/generators/hono/endpoint-route-template';
+import { generateHonoMiddlewareChain } from '../../../cli/generators/hono/middleware-chain-template';
+import { generateHonoClientFile } from '../../../cli/generators/hono/lib-template';
+import {
+  generateHonoAuthMiddleware,
+  generateHonoRateLimitMiddleware,
+  generateHonoContextMiddleware,
+} from '../../../cli/generators/hono/middleware-template';
+import { analyzeEndpoints } from '../../../cli/analyze-endpoints';
+import { schemas as blogSchemas } from '../fixtures/schemas/blog.schema';
+import { analyzeTestSchemas, createTestConfig, getProjectPath } from '../utils/test-helpers';
+import { assertCodeContains, checkTypeScriptCompiles, type CompileResult } from '../utils/compile-checker';
+import type { GenerationTarget, SchemockConfig } from '../../../cli/types';
+import { defineData, field, defineEndpoint } from '../../../schema';
+
+const target: GenerationTarget = {
+  name: 'api',
+  type: 'hono',
+  output: './src/generated/hono',
+  backend: 'supabase',
+};
+
+describe('Hono Generator Integration', () => {
+  describe('generateHonoRouteFile', () => {
+    it('generates a chained Hono sub-router', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateHonoRouteFile(analyzed[0], target, createTestConfig());
+
+      assertCodeContains(code, [
+        "import { Hono } from 'hono';",
+        "import type { AppEnv } from '../env';",
+        'export const usersRoute = new Hono<AppEnv>()',
+        ".get('/', async (c) => {",
+        ".get('/:id', async (c) => {",
+        ".post('/', async (c) => {",
+        ".put('/:id', async (c) => {",
+        ".delete('/:id', async (c) => {",
+        'return c.body(null, 204);',
+      ]);
+      expect(code).not.toContain('express');
+    });
+
+    it('calls validators when validation middleware is configured', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const config = createTestConfig({ middleware: { validation: true } });
+      const code = generateHonoRouteFile(analyzed[0], target, config);
+
+      assertCodeContains(code, [
+        "import { validateUser, validateUserUpdate } from '../middleware/validate';",
+        'return c.json({ errors: validation.errors }, 400);',
+      ]);
+    });
+
+    it('restricts pglite update columns to schema fields', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateHonoRouteFile(analyzed[0], { ...target, backend: 'pglite' }, createTestConfig());
+
+      expect(code).toContain("const COLUMNS = new Set(['name', 'email', 'role']);");
+    });
+
+    it('maps invalid cursors to 400 for cursor-paginated entities', () => {
+      const eventSchema = defineData('event', {
+        id: field.uuid(),
+        title: field.string(),
+      }, { api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } } });
+      const [event] = analyzeTestSchemas([eventSchema]);
+      const code = generateHonoRouteFile(event, target, createTestConfig());
+
+      assertCodeContains(code, [
+        "from '../cursor';",
+        'const keys = getCursorSortKeys(parseOrderBy(orderBy));',
+        'if (error instanceof InvalidCursorError || error instanceof InvalidOrderByError) {',
+        'return c.json({ error: error.message }, 400);',
+      ]);
+    });
+  });
+
+  describe('generateHonoAppFile', () => {
+    it('mounts sub-routers and exports AppType', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateHonoAppFile(analyzed, target, createTestConfig());
+
+      assertCodeContains(code, [
+        "const app = new Hono<AppEnv>().basePath('/api');",
+        ".route('/users', usersRoute)",
+        'export type AppType = typeof routes;',
+        'export default app;',
+      ]);
+    });
+
+    it('applies the middleware chain when middleware is configured', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const config = createTestConfig({ middleware: { auth: { provider: 'jwt' } } });
+      const code = generateHonoAppFile(analyzed, target, config);
+
+      expect(code).toContain("import { applyMiddleware } from './middleware/chain';");
+      expect(code).toContain('applyMiddleware(app);');
+    });
+  });
+
+  describe('generateHonoEndpointRouteFile', () => {
+    const statsEndpoint = defineEndpoint('/api/stats/:entityType', {
+      method: 'GET',
+      params: { entityType: field.string(), days: field.number().default(7) },
+      response: { count: field.number() },
+      mockResolver: async () => ({ count: 0 }),
+    });
+
+    it('generates a sub-router relative to the API prefix', () => {
+      const [endpoint] = analyzeEndpoints([statsEndpoint]);
+      const code = generateHonoEndpointRouteFile(endpoint, target, createTestConfig());
+
+      assertCodeContains(code, [
+        `export const ${endpoint.name}Endpoint = new Hono<AppEnv>()`,
+        ".get('/stats/:entityType', async (c) => {",
+        'const { entityType } = c.req.param();',
+        "const days = Number(c.req.query('days') ?? '7');",
+        "return c.json({ error: 'Not implemented' }, 501);",
+      ]);
+    });
+
+    it('strips the API prefix from endpoint paths', () => {
+      expect(toHonoEndpointPath('/api/search', '/api')).toBe('/search');
+      expect(toHonoEndpointPath('/api', '/api')).toBe('/');
+      expect(toHonoEndpointPath('/health', '/api')).toBe('/health');
+    });
+  });
+
+  describe('middleware', () => {
+    it('ports auth to a Hono MiddlewareHandler using hono/jwt', () => {
+      const code = generateHonoAuthMiddleware({ provider: 'jwt', secretEnvVar: 'AUTH_SECRET' });
+
+      assertCodeContains(code, [
+        'export const authMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {',
+        "import { verify } from 'hono/jwt';",
+        'env<{ AUTH_SECRET?: string }>(c)',
+        "c.set('user', {",
+      ]);
+      expect(code).not.toContain('jsonwebtoken');
+    });
+
+    it('does not use Node-only APIs in rate limit and context middleware', () => {
+      const rateLimit = generateHonoRateLimitMiddleware({ max: 100, windowMs: 60000 });
+      const context = generateHonoContextMiddleware();
+
+      expect(rateLimit).not.toContain('setInterval');
+      expect(rateLimit).not.toContain('req.socket');
+      expect(context).not.toContain('Buffer');
+      expect(context).toContain("c.set('context', context);");
+    });
+
+    it('registers chain middleware with app.use and skips validation', () => {
+      const config = createTestConfig({
+        middleware: { auth: true, logger: true, validation: true },
+      });
+      const code = generateHonoMiddlewareChain(config);
+
+      assertCodeContains(code, [
+        "app.use('*', authMiddleware);",
+        "app.use('*', loggerMiddleware);",
+      ]);
+      expect(code).not.toContain('validationMiddleware');
+    });
+  });
+
+  describe('generateHonoClientFile', () => {
+    it('creates an hc<AppType> client factory', () => {
+      const code = generateHonoClientFile('/api');
+
+      assertCodeContains(code, [
+        "import { hc } from 'hono/client';",
+        "import type { AppType } from './app';",
+        'return hc<AppType>(baseUrl, options);',
+      ]);
+    });
+  });
+
+  describe('Generated Code Compilation', () => {
+    const Event = defineData('event', {
+      id: field.uuid(),
+      name: field.string(),
+      score: field.number().nullable(),
+    }, {
+      api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } },
+      softDelete: true,
+      versioned: true,
+    });
+
+    const analyzed = analyzeTestSchemas([...blogSchemas, Event]);
+    const endpoints = analyzeEndpoints([
+      defineEndpoint('/api/search/:kind', {
+        method: 'GET',
+        params: { q: field.string() },
+        response: { total: field.number() },
+        mockResolver: async () => ({ total: 0 }),
+      }),
+    ]);
+
+    async function compileTarget(target: GenerationTarget, config: SchemockConfig): Promise<CompileResult> {
+      // Inside the project so the app resolves @supabase/supabase-js
+      const cacheDir = getProjectPath('node_modules', '.cache');
+      await mkdir(cacheDir, { recursive: true });
+      const dir = await mkdtemp(join(cacheDir, 'hono-'));
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      try {
+        const files = await generateHonoTarget(analyzed, analyzed, dir, { ...target, output: dir }, config, {}, [], endpoints);
+        const paths = files.map((file) => join(dir, file));
+        return await checkTypeScriptCompiles(paths[0], paths.slice(1));
+      } finally {
+        log.mockRestore();
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+
+    it('supabase app with middleware compiles', async () => {
+      const config = createTestConfig({ middleware: { auth: { provider: 'jwt' }, context: true } });
+      const result = await compileTarget(target, config);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+    }, 60000);
+
+    it('pglite app compiles', async () => {
+      const result = await compileTarget({ ...target, backend: 'pglite' }, createTestConfig());
+
+      expect(result.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+    }, 60000);
+  });
+});
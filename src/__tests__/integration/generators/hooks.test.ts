@@ -10,6 +10,7 @@ import {
   analyzeTestSchemas,
 } from '../utils/test-helpers';
 import { assertCodeContains } from '../utils/compile-checker';
+import { defineData, field } from '../../../schema';
 
 describe('Hooks Generator Integration', () => {
   let tempDir: string;
@@ -96,4 +97,49 @@ describe('Hooks Generator Integration', () => {
     expect(code).toBeDefined();
     expect(typeof code).toBe('string');
   });
+
+  it('generates infinite query hooks for cursor-paginated entities', () => {
+    const analyzed = analyzeTestSchemas([
+      defineData('event', { id: field.uuid(), title: field.string() }, {
+        api: { basePath: '/api/events', pagination: { style: 'cursor' } },
+      }),
+    ]);
+    const code = generateHooks(analyzed);
+
+    assertCodeContains(code, [
+      'useInfiniteQuery',
+      'export function useInfiniteEvents(',
+      'cursor?: string;',
+      'getNextPageParam: (lastPage) => lastPage.meta.nextCursor,',
+      'getPreviousPageParam: (firstPage) => firstPage.meta.prevCursor,',
+    ]);
+  });
+
+  it('omits infinite query hooks without cursor pagination', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateHooks(analyzed);
+
+    expect(code).not.toContain('useInfiniteQuery');
+  });
+
+  it('generates subscription hooks that patch the query cache when realtime is enabled', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateHooks(analyzed, { realtime: true });
+
+    assertCodeContains(code, [
+      "import { useEffect, useMemo, useRef } from 'react';",
+      'function patchCachedData(old: unknown, event: Types.ChangeEvent<CachedRecord>): unknown {',
+      'export function useUserSubscription(options?: {',
+      'return api.user.subscribe(where ?? {}, (event) => {',
+      "applyChange(queryClient, 'users', event);",
+    ]);
+  });
+
+  it('omits subscription hooks by default', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateHooks(analyzed);
+
+    expect(code).not.toContain('Subscription(');
+    expect(code).not.toContain('useEffect');
+  });
 });
@@ -0,0 +1,225 @@
+/**
+ * Integration tests for writable many-to-many relations across the types,
+ * client, server handler and hooks generators
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateTypes } from '../../../cli/generators/types';
+import { generateMockClient } from '../../../cli/generators/mock/client';
+import { generatePGliteClient } from '../../../cli/generators/pglite/client';
+import { generatePGliteDb } from '../../../cli/generators/pglite/db';
+import { generateSupabaseClient } from '../../../cli/generators/supabase/client';
+import { generateUnifiedClient } from '../../../cli/generators/unified/client';
+import { generateFetchClient } from '../../../cli/generators/fetch/client';
+import { generateHandlerFile } from '../../../cli/generators/node-handlers/handler-template';
+import { generateRouteFile, generateDynamicRouteFile } from '../../../cli/generators/nextjs-api/route-template';
+import { generateEdgeFunctionFile } from '../../../cli/generators/supabase-edge/function-template';
+import { generateHooks } from '../../../cli/generators/hooks';
+import { defineData, field, hasMany } from '../../../schema';
+import {
+  analyzeTestSchemas,
+  createTestConfig,
+  createTempDir,
+  cleanupTempDir,
+  writeGeneratedFile,
+} from '../utils/test-helpers';
+import { assertCodeContains, assertCodeDoesNotContain, checkTypeScriptCompiles } from '../utils/compile-checker';
+import type { GenerationTarget } from '../../../cli/types';
+
+const Post = defineData('post', {
+  id: field.uuid(),
+  title: field.string(),
+  tags: hasMany('tag', { through: 'postTag' }),
+});
+
+const Tag = defineData('tag', {
+  id: field.uuid(),
+  name: field.string(),
+});
+
+const PostTag = defineData('postTag', {
+  id: field.uuid(),
+  postId: field.ref('post'),
+  tagId: field.ref('tag'),
+});
+
+const Team = defineData('team', {
+  id: field.uuid(),
+  name: field.string(),
+  members: hasMany('user', { through: 'membership' }),
+});
+
+const User = defineData('user', {
+  id: field.uuid(),
+  name: field.string(),
+});
+
+const Membership = defineData('membership', {
+  id: field.uuid(),
+  teamId: field.ref('team'),
+  userId: field.ref('user'),
+  role: field.enum(['owner', 'member']).default('member'),
+});
+
+const schemas = [Post, Tag, PostTag, Team, User, Membership];
+
+function serverTarget(type: GenerationTarget['type'], backend: GenerationTarget['backend']): GenerationTarget {
+  return { name: 'api', type, output: './src/generated/api', backend };
+}
+
+describe('Many-to-Many Integration', () => {
+  const analyzed = analyzeTestSchemas(schemas);
+  const post = analyzed.find((s) => s.name === 'post')!;
+  const tag = analyzed.find((s) => s.name === 'tag')!;
+
+  it('infers both junction keys', () => {
+    const tags = post.relations.find((r) => r.name === 'tags')!;
+
+    expect(tags.type).toBe('manyToMany');
+    expect(tags.foreignKey).toBe('postId');
+    expect(tags.otherKey).toBe('tagId');
+  });
+
+  it('adds link types and LinkWrite fields to Create and Update types', () => {
+    const types = generateTypes(analyzed);
+
+    assertCodeContains(types, [
+      'export interface LinkWrite<TLink extends { id: string }> {',
+      'export interface PostTagsLink {',
+      'tags?: LinkWrite<PostTagsLink>;',
+      'export interface TeamMembersLink {',
+      "role?: 'owner' | 'member';",
+      'members?: LinkWrite<TeamMembersLink>;',
+    ]);
+  });
+
+  it('maintains junction rows in the mock client', () => {
+    const client = generateMockClient(analyzed);
+
+    assertCodeContains(client, [
+      "const teamMembersJunction: LinkJunction = { table: 'memberships', foreignKey: 'teamId', otherKey: 'userId', columns: ['role'] };",
+      'const { tags, ...data } = input;',
+      "if (tags) assertLinkTargets(db.tag as unknown as LinkModel, 'Tag', tags);",
+      'if (tags) writeLinks(db.postTag as unknown as LinkModel, postTagsJunction, item.id, tags);',
+      'if (tags) writeLinks(db.postTag as unknown as LinkModel, postTagsJunction, id, tags);',
+      "add: (id: string, targetId: string, extra?: Omit<Types.TeamMembersLink, 'id'>) => Promise<void>;",
+      'await apiClient.post.update(id, { tags: { connect: [{ id: targetId }] } });',
+      'await apiClient.team.update(id, { members: { connect: [{ ...extra, id: targetId }] } });',
+    ]);
+  });
+
+  it('writes links through the PGlite and Supabase clients', () => {
+    const pglite = generatePGliteClient(analyzed);
+    const supabase = generateSupabaseClient(analyzed, { tableMap: { postTag: 'post_tags' } });
+
+    assertCodeContains(pglite, [
+      'async function writeLinks(db: LinkDb, junction: LinkJunction, ownerId: string, changes: LinkChanges): Promise<void> {',
+      'if (tags) await writeLinks(db, postTagsJunction, id, tags);',
+    ]);
+    assertCodeContains(supabase, [
+      "const postTagsJunction: LinkJunction = { table: 'post_tags', foreignKey: 'postId', otherKey: 'tagId', columns: [] };",
+      'if (tags) await writeLinks(client, postTagsJunction, item.id, tags);',
+    ]);
+  });
+
+  it('adds relation namespaces to the unified and fetch clients', () => {
+    const unified = generateUnifiedClient(analyzed);
+    const fetchClient = generateFetchClient(analyzed, {});
+
+    assertCodeContains(unified, [
+      'const apiClient: ApiClient = {',
+      'set: async (id: string, links: Types.PostTagsLink[]): Promise<void> => {',
+      'await apiClient.post.update(id, { tags: { set: links } });',
+    ]);
+    assertCodeContains(fetchClient, ['await api.post.update(id, { tags: { disconnect: [{ id: targetId }] } });']);
+  });
+
+  it('only adds namespaces to entities with many-to-many relations', () => {
+    const client = generateMockClient([tag]);
+
+    assertCodeDoesNotContain(client, ['writeLinks', 'LinkJunction']);
+  });
+
+  describe('server handlers', () => {
+    it('writes links after the row in node handlers', () => {
+      const code = generateHandlerFile(post, serverTarget('node-handlers', 'pglite'), createTestConfig(), analyzed);
+
+      assertCodeContains(code, [
+        "import { writeLinks, type LinkJunction } from '../links';",
+        'const { tags, ...body } = req.body as PostCreate;',
+        'if (tags) await writeLinks(db, postTagsJunction, result.rows[0].id, tags);',
+        'if (entries.length === 0 && !tags) {',
+        "const setClauses = entries.length > 0 ? entries.map(([key], i) => `${key} = $${i + 1}`).join(', ') : 'id = id';",
+        'if (tags) await writeLinks(db, postTagsJunction, id, tags);',
+      ]);
+    });
+
+    it('writes links in Next.js routes', () => {
+      const target = serverTarget('nextjs-api', 'supabase');
+      const collection = generateRouteFile(post, target, createTestConfig(), analyzed);
+      const dynamic = generateDynamicRouteFile(post, target, createTestConfig(), analyzed);
+
+      assertCodeContains(collection, [
+        "import { writeLinks, type LinkJunction } from '../_lib/links';",
+        'if (tags) await writeLinks(supabase, postTagsJunction, data.id, tags);',
+      ]);
+      assertCodeContains(dynamic, [
+        "import { writeLinks, type LinkJunction } from '../../_lib/links';",
+        'const { tags, ...body } = await request.json() as PostUpdate;',
+        ": await supabase.from('posts').select().eq('id', id).single();",
+      ]);
+    });
+
+    it('writes links in Supabase Edge functions', () => {
+      const code = generateEdgeFunctionFile(post, serverTarget('supabase-edge', 'supabase'), createTestConfig(), analyzed);
+
+      assertCodeContains(code, [
+        "import { writeLinks, type LinkJunction } from '../_shared/links.ts';",
+        'if (tags) await writeLinks(supabase, postTagsJunction, id, tags);',
+      ]);
+    });
+
+    it('leaves entities without links unchanged', () => {
+      const code = generateHandlerFile(tag, serverTarget('node-handlers', 'pglite'), createTestConfig(), analyzed);
+
+      assertCodeContains(code, ['const body = req.body as TagCreate;']);
+      assertCodeDoesNotContain(code, ['writeLinks', "'id = id'"]);
+    });
+  });
+
+  it('generates a link mutation hook per relation', () => {
+    const hooks = generateHooks(analyzed);
+
+    assertCodeContains(hooks, [
+      'export function useUpdatePostTags() {',
+      'mutationFn: ({ id, links }: { id: string; links: Types.LinkWrite<Types.PostTagsLink> }) =>',
+      'api.post.update(id, { tags: links }),',
+      "queryClient.invalidateQueries({ queryKey: ['tags'] });",
+      'export function useUpdateTeamMembers() {',
+    ]);
+  });
+
+  describe('compilation', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('many-to-many-compile-');
+    });
+
+    afterAll(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('pglite client with links compiles without errors', async () => {
+      const typesPath = await writeGeneratedFile(tempDir, 'types.ts', generateTypes(analyzed));
+      const dbPath = await writeGeneratedFile(tempDir, 'db.ts', generatePGliteDb(analyzed, { persistence: 'memory' }));
+      const clientPath = await writeGeneratedFile(tempDir, 'client.ts', generatePGliteClient(analyzed));
+
+      const result = await checkTypeScriptCompiles(clientPath, [typesPath, dbPath]);
+
+      if (!result.success) {
+        console.error('Compilation errors:', result.errors);
+      }
+      expect(result.success).toBe(true);
+    });
+  });
+});
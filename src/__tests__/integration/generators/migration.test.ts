@@ -0,0 +1,157 @@
+/**
+ * Integration tests for SQL migration diffing
+ */
+import { describe, it, expect } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import {
+  createSchemaSnapshot,
+  createEmptySnapshot,
+  parseSchemaSnapshot,
+  generateMigration,
+  parseMigrationRenames,
+} from '../../../cli/generators/sql';
+import { defineData, field, belongsTo } from '../../../schema';
+import { analyzeTestSchemas } from '../utils/test-helpers';
+
+const v1 = [
+  defineData(
+    'user',
+    {
+      id: field.uuid(),
+      fullName: field.string(),
+      legacyCode: field.string().nullable(),
+      role: field.enum(['admin', 'user']).default('user'),
+    },
+    { rls: { scope: [{ field: 'id', contextKey: 'userId' }] } }
+  ),
+  defineData(
+    'post',
+    {
+      id: field.uuid(),
+      title: field.string(),
+      authorId: field.ref('user'),
+      author: belongsTo('user', 'authorId'),
+    },
+    { indexes: [{ fields: ['title'] }] }
+  ),
+  defineData('tag', { id: field.uuid(), label: field.string() }),
+];
+
+const v2 = [
+  defineData('user', {
+    id: field.uuid(),
+    name: field.string(),
+    bio: field.string().nullable(),
+    role: field.enum(['admin', 'user', 'guest']).default('user'),
+  }),
+  defineData(
+    'article',
+    {
+      id: field.uuid(),
+      title: field.string(),
+      views: field.number().default(0),
+      authorId: field.ref('user'),
+      author: belongsTo('user', 'authorId'),
+    },
+    {
+      indexes: [{ fields: ['title', 'views'] }],
+      rpc: { popularArticles: { returns: 'article[]', sql: 'SELECT * FROM articles ORDER BY views DESC' } },
+    }
+  ),
+];
+
+const renames = parseMigrationRenames(['posts=articles', 'users.fullName=name']);
+
+describe('Migration Generator', () => {
+  it('creates every object in the initial migration', () => {
+    const { up, down } = generateMigration(createEmptySnapshot(), createSchemaSnapshot(analyzeTestSchemas(v1)));
+
+    expect(up).toContain('CREATE TABLE IF NOT EXISTS "users" (');
+    expect(up).toContain('ADD CONSTRAINT "fk_posts_author_id"');
+    expect(up).toContain('CREATE INDEX IF NOT EXISTS "idx_posts_title" ON "posts" ("title");');
+    expect(up).toContain('CREATE POLICY "users_select_policy" ON "users"');
+    expect(down).toContain('DROP TABLE IF EXISTS "posts";');
+  });
+
+  it('reports no steps when nothing changed', () => {
+    const snapshot = createSchemaSnapshot(analyzeTestSchemas(v1));
+    const result = generateMigration(snapshot, parseSchemaSnapshot(JSON.stringify(snapshot)));
+
+    expect(result.steps).toEqual([]);
+    expect(result.up).toContain('-- No changes');
+  });
+
+  it('diffs columns, indexes, foreign keys, RLS and functions', () => {
+    const { up } = generateMigration(
+      createSchemaSnapshot(analyzeTestSchemas(v1)),
+      createSchemaSnapshot(analyzeTestSchemas(v2)),
+      { renames }
+    );
+
+    expect(up).toContain('ALTER TABLE "posts" RENAME TO "articles";');
+    expect(up).toContain('ALTER TABLE "users" RENAME COLUMN "fullName" TO "name";');
+    expect(up).toContain('ALTER TABLE "users" ADD COLUMN "bio" VARCHAR(255);');
+    expect(up).toContain(`ALTER TABLE "users" ADD CONSTRAINT "users_role_check" CHECK ("role" IN ('admin', 'user', 'guest'));`);
+    expect(up).toContain('DROP INDEX IF EXISTS "idx_posts_title";');
+    expect(up).toContain('CREATE INDEX IF NOT EXISTS "idx_articles_title_views" ON "articles" ("title", "views");');
+    expect(up).toContain('ADD CONSTRAINT "fk_articles_author_id"');
+    expect(up).toContain('DROP POLICY IF EXISTS "users_select_policy" ON "users";');
+    expect(up).toContain('CREATE OR REPLACE FUNCTION popular_articles()');
+  });
+
+  it('flags destructive steps for review', () => {
+    const result = generateMigration(
+      createSchemaSnapshot(analyzeTestSchemas(v1)),
+      createSchemaSnapshot(analyzeTestSchemas(v2)),
+      { renames }
+    );
+
+    expect(result.destructive.map((s) => s.description)).toEqual(
+      expect.arrayContaining(['Drop column "users"."legacyCode"', 'Drop table "tags"', 'Disable row-level security on "users"'])
+    );
+    expect(result.up).toContain('-- REVIEW: Deletes the table and all of its rows');
+  });
+
+  it('suggests a rename when a column is dropped and one of the same type is added', () => {
+    const result = generateMigration(
+      createSchemaSnapshot(analyzeTestSchemas([defineData('user', { id: field.uuid(), fullName: field.string() })])),
+      createSchemaSnapshot(analyzeTestSchemas([defineData('user', { id: field.uuid(), name: field.string() })]))
+    );
+
+    expect(result.up).toContain('pass --rename users.fullName=name');
+  });
+
+  it('rejects renames of unknown tables and columns', () => {
+    const from = createSchemaSnapshot(analyzeTestSchemas(v1));
+    const to = createSchemaSnapshot(analyzeTestSchemas(v2));
+
+    expect(() => generateMigration(from, to, { renames: parseMigrationRenames(['comments=notes']) })).toThrow(
+      'Cannot rename table "comments": not in the previous snapshot'
+    );
+    expect(() => generateMigration(from, to, { renames: parseMigrationRenames(['users.nick=name']) })).toThrow(
+      'Cannot rename column "users.nick": not in the previous snapshot'
+    );
+    expect(() => parseMigrationRenames(['users'])).toThrow('Invalid rename "users"');
+  });
+
+  it('applies up and down migrations to PostgreSQL without losing renamed data', async () => {
+    const s1 = createSchemaSnapshot(analyzeTestSchemas(v1));
+    const s2 = createSchemaSnapshot(analyzeTestSchemas(v2));
+    const migration = generateMigration(s1, s2, { renames });
+    const db = new PGlite();
+
+    try {
+      await db.exec(generateMigration(createEmptySnapshot(), s1).up);
+      await db.exec(`INSERT INTO "users" ("fullName", "role") VALUES ('Ada', 'admin')`);
+
+      await db.exec(migration.up);
+      expect((await db.query('SELECT "name", "bio" FROM "users"')).rows).toEqual([{ name: 'Ada', bio: null }]);
+
+      await db.exec(migration.down);
+      expect((await db.query('SELECT "fullName" FROM "users"')).rows).toEqual([{ fullName: 'Ada' }]);
+      expect((await db.query(`SELECT to_regclass('posts') AS posts`)).rows).toEqual([{ posts: 'posts' }]);
+    } finally {
+      await db.close();
+    }
+  }, 60000);
+});
@@ -57,6 +57,21 @@ const rlsSchemas = [
   ),
 ];
 
+// Schema with cursor pagination
+const cursorSchemas = [
+  defineData(
+    'event',
+    {
+      id: field.uuid(),
+      title: field.string(),
+      startsAt: field.date(),
+    },
+    {
+      api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } },
+    }
+  ),
+];
+
 describe('Mock Client Generator', () => {
   describe('Generated Code Structure', () => {
     it('generates createClient factory function', () => {
@@ -191,6 +206,56 @@ describe('Mock Client Generator', () => {
     });
   });
 
+  describe('Cursor Pagination', () => {
+    it('paginates cursor entities by keyset', () => {
+      const analyzed = analyzeTestSchemas(cursorSchemas);
+      const code = generateMockClient(analyzed);
+
+      expect(code).toContain('function paginateByCursor<T extends object>(');
+      expect(code).toContain('const limit = options?.limit ?? 10;');
+      expect(code).toContain('paginateByCursor(items, getCursorSortKeys(options?.orderBy), options?.cursor, limit)');
+      expect(code).toContain('nextCursor: page.nextCursor');
+      expect(code).toContain('prevCursor: page.prevCursor');
+    });
+
+    it('keeps offset pagination for other entities', () => {
+      const analyzed = analyzeTestSchemas(simpleSchemas);
+      const code = generateMockClient(analyzed);
+
+      expect(code).not.toContain('paginateByCursor');
+    });
+  });
+
+  describe('Filtering', () => {
+    it('applies the shared where-clause semantics', () => {
+      const analyzed = analyzeTestSchemas(simpleSchemas);
+      const code = generateMockClient(analyzed);
+
+      expect(code).toContain('function matchesWhere(row: Record<string, unknown>, where: Record<string, unknown>): boolean');
+      expect(code).toContain('items.filter(item => matchesWhere(item as Record<string, unknown>, filter))');
+      expect(code).toContain("case 'hasEvery':");
+      expect(code).toContain('throw new InvalidFilterError(`Unknown filter operator: ${op}`)');
+    });
+
+    it('reports invalid filters as 400 errors', () => {
+      const analyzed = analyzeTestSchemas(simpleSchemas);
+      const code = generateMockClient(analyzed);
+
+      expect(code).toContain('err instanceof InvalidFilterError ? err.status : 500');
+    });
+  });
+
+  describe('Change Subscriptions', () => {
+    it('generates subscribe methods backed by the db change feed', () => {
+      const analyzed = analyzeTestSchemas(simpleSchemas);
+      const code = generateMockClient(analyzed);
+
+      expect(code).toContain("import { db, subscribeToChanges } from './db'");
+      expect(code).toContain('subscribe: (where: Types.UserFilter, callback: (event: Types.ChangeEvent<Types.User>) => void) => () => void;');
+      expect(code).toContain("subscribeToChanges('user', ");
+    });
+  });
+
   describe('JWT Decoding', () => {
     it('generates decodeJwtPayload function', () => {
       const analyzed = analyzeTestSchemas(simpleSchemas);
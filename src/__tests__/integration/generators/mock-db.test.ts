@@ -40,7 +40,7 @@ describe('Mock DB Generator Integration', () => {
     const code = generateMockDb(analyzed, config);
 
     assertCodeContains(code, [
-      'export const db = factory({',
+      'const models = factory({',
     ]);
   });
 
@@ -111,6 +111,43 @@ describe('Mock DB Generator Integration', () => {
     expect(code).toContain('faker.seed(12345)');
   });
 
+  it('exposes createMany and $transaction on db', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const config: MockAdapterConfig = { persistence: 'memory' };
+    const code = generateMockDb(analyzed, config);
+
+    assertCodeContains(code, [
+      "user: withChanges('user', withCreateMany(models.user)),",
+      '$transaction: transaction,',
+      'async function transaction<T>(fn: (tx: Database) => T | Promise<T>): Promise<T> {',
+      'user: models.user.getAll(),',
+      "models.user.deleteMany({ where: {} });",
+      'for (const record of snapshot.user) models.user.create(record);',
+    ]);
+  });
+
+  it('persists batch updates and deletes', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const config: MockAdapterConfig = {};
+    const code = generateMockDb(analyzed, config);
+
+    assertCodeContains(code, [
+      'db.user.updateMany = (query) => {',
+      'db.user.deleteMany = (query) => {',
+    ]);
+  });
+
+  it('emits change events held back until the transaction commits', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateMockDb(analyzed, {});
+
+    assertCodeContains(code, [
+      'export function subscribeToChanges(entity: string, listener: (event: DbChangeEvent) => void): () => void {',
+      'outerChanges.length = savepoint;',
+      'const channel = new BroadcastChannel(`${STORAGE_KEY}:changes`);',
+    ]);
+  });
+
   it('exports Database type', () => {
     const analyzed = analyzeTestSchemas(blogSchemas);
     const config: MockAdapterConfig = {};
@@ -134,7 +171,7 @@ describe('Mock DB Generator Integration', () => {
 
     // Should still generate valid factory structure
     assertCodeContains(code, [
-      'export const db = factory({',
+      'const models = factory({',
     ]);
   });
 });
@@ -0,0 +1,182 @@
+/**
+ * Integration tests for nested relation writes across the types, client and
+ * service generators
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateTypes } from '../../../cli/generators/types';
+import { generateMockClient } from '../../../cli/generators/mock/client';
+import { generatePGliteClient } from '../../../cli/generators/pglite/client';
+import { generatePGliteDb } from '../../../cli/generators/pglite/db';
+import { generateSupabaseClient } from '../../../cli/generators/supabase/client';
+import { generateFirebaseClient } from '../../../cli/generators/firebase/client';
+import { generateEntityService } from '../../../cli/generators/unified/service';
+import { defineData, field, hasMany, hasOne, belongsTo } from '../../../schema';
+import {
+  analyzeTestSchemas,
+  createTempDir,
+  cleanupTempDir,
+  writeGeneratedFile,
+} from '../utils/test-helpers';
+import { assertCodeContains, assertCodeDoesNotContain, checkTypeScriptCompiles } from '../utils/compile-checker';
+
+const Customer = defineData('customer', {
+  id: field.uuid(),
+  name: field.string(),
+  card: hasOne('card'),
+});
+
+const Card = defineData('card', {
+  id: field.uuid(),
+  points: field.number(),
+  customerId: field.ref('customer'),
+});
+
+const Order = defineData('order', {
+  id: field.uuid(),
+  total: field.number(),
+  customerId: field.ref('customer'),
+  customer: belongsTo('customer', { foreignKey: 'customerId' }),
+  items: hasMany('item'),
+});
+
+const Item = defineData('item', {
+  id: field.uuid(),
+  sku: field.string(),
+  quantity: field.number(),
+  orderId: field.ref('order'),
+});
+
+const Note = defineData('note', {
+  id: field.uuid(),
+  body: field.string(),
+});
+
+const schemas = [Customer, Card, Order, Item, Note];
+
+describe('Nested Writes Integration', () => {
+  const analyzed = analyzeTestSchemas(schemas);
+  const order = analyzed.find((s) => s.name === 'order')!;
+  const note = analyzed.find((s) => s.name === 'note')!;
+
+  it('generates nested input types for create and update', () => {
+    const types = generateTypes(analyzed);
+
+    assertCodeContains(types, [
+      'export interface NestedMany<TCreate> {',
+      'connect?: Array<{ id: string }>;',
+      'export interface NestedOne<TCreate> {',
+      'customerId?: string;',
+      "customer?: NestedOne<Omit<CustomerCreate, 'card'>>;",
+      "items?: NestedMany<Omit<ItemCreate, 'orderId'>>;",
+      "card?: NestedOne<Omit<CardCreate, 'customerId'>>;",
+    ]);
+    const update = types.slice(types.indexOf('export interface OrderUpdate {'));
+    expect(update).toContain("items?: NestedMany<Omit<ItemCreate, 'orderId'>>;");
+  });
+
+  it('leaves types of entities without relations unchanged', () => {
+    const types = generateTypes([note]);
+
+    assertCodeDoesNotContain(types, ['NestedMany', 'NestedOne']);
+  });
+
+  it('runs nested writes in a transaction in the mock client', () => {
+    const client = generateMockClient(analyzed);
+
+    assertCodeContains(client, [
+      'function writeNestedParent(model: NestedModel, entity: string, write: NestedWrite): string | undefined {',
+      "executeRequest('order.create', (ctx) => db.$transaction(() => {",
+      'const { customer, items, ...data } = input;',
+      "if (customer) data.customerId = writeNestedParent(db.customer as unknown as NestedModel, 'Customer', customer) ?? data.customerId;",
+      "if (items) writeNestedChildren(db.item as unknown as NestedModel, 'Item', 'orderId', item.id, items);",
+      "executeRequest('order.update', (ctx) => db.$transaction(() => {",
+      "if (items) writeNestedChildren(db.item as unknown as NestedModel, 'Item', 'orderId', id, items);",
+    ]);
+    expect(client).toContain("executeRequest('note.create', (ctx) => {");
+  });
+
+  it('writes nested rows inside the PGlite request transaction', () => {
+    const client = generatePGliteClient(analyzed);
+
+    assertCodeContains(client, [
+      'async function insertNestedRow(db: NestedDb, table: string, data: object): Promise<string> {',
+      "if (customer) data.customerId = await writeNestedParent(db, { table: 'customers', entity: 'Customer' }, customer) ?? data.customerId;",
+      "if (items) await writeNestedChildren(db, { table: 'items', entity: 'Item' }, 'orderId', item.id, items);",
+      "if (card) await writeNestedChildren(db, { table: 'cards', entity: 'Card' }, 'customerId', id, card);",
+    ]);
+  });
+
+  it('undoes earlier writes when a Supabase nested write fails', () => {
+    const client = generateSupabaseClient(analyzed, { tableMap: { item: 'line_items' } });
+
+    assertCodeContains(client, [
+      'function createNotFoundError(entity: string, id: string): ApiError {',
+      'async function undoNestedWrites(undo: NestedUndo): Promise<void> {',
+      "undo.push(() => client.from('orders').delete().eq('id', item.id));",
+      "if (items) await writeNestedChildren(client, { table: 'line_items', entity: 'Item' }, 'orderId', item.id, items, undo);",
+      "if (customer) changes.customerId = await writeNestedParent(client, { table: 'customers', entity: 'Customer' }, customer, undo) ?? changes.customerId;",
+      'await undoNestedWrites(undo);',
+    ]);
+  });
+
+  it('commits nested documents in one Firestore batch', () => {
+    const client = generateFirebaseClient(analyzed, {});
+
+    assertCodeContains(client, [
+      '  writeBatch,',
+      'const batch = writeBatch(firestore);',
+      "if (customer) data.customerId = writeNestedParent(batch, 'customers', customer) ?? data.customerId;",
+      "if (items) writeNestedChildren(batch, 'items', 'orderId', docRef.id, items);",
+      'await batch.commit();',
+    ]);
+  });
+
+  it('passes nested writes through the service layer with RLS scope', () => {
+    const Tenant = defineData('invoice', {
+      id: field.uuid(),
+      tenantId: field.uuid(),
+      lines: hasMany('line'),
+    }, { rls: { scope: [{ field: 'tenantId', contextKey: 'tenantId' }] } });
+    const Line = defineData('line', {
+      id: field.uuid(),
+      tenantId: field.uuid(),
+      invoiceId: field.ref('invoice'),
+    }, { rls: { scope: [{ field: 'tenantId', contextKey: 'tenantId' }] } });
+    const scoped = analyzeTestSchemas([Tenant, Line]);
+
+    const service = generateEntityService(scoped[0], scoped);
+    const unscoped = generateEntityService(order, analyzed);
+
+    assertCodeContains(service, [
+      'lines: data.lines && {',
+      'create: data.lines.create?.map((row) => ({ ...row, tenantId: ctx.tenantId ?? row.tenantId })),',
+      'return db.invoice.create({ data: createData });',
+    ]);
+    expect(unscoped).toContain('return db.order.create({ data });');
+  });
+
+  describe('compilation', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('nested-writes-compile-');
+    });
+
+    afterAll(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('pglite client with nested writes compiles without errors', async () => {
+      const typesPath = await writeGeneratedFile(tempDir, 'types.ts', generateTypes(analyzed));
+      const dbPath = await writeGeneratedFile(tempDir, 'db.ts', generatePGliteDb(analyzed, { persistence: 'memory' }));
+      const clientPath = await writeGeneratedFile(tempDir, 'client.ts', generatePGliteClient(analyzed));
+
+      const result = await checkTypeScriptCompiles(clientPath, [typesPath, dbPath]);
+
+      if (!result.success) {
+        console.error('Compilation errors:', result.errors);
+      }
+      expect(result.success).toBe(true);
+    });
+  });
+});
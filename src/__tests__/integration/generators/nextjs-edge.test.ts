@@ -0,0 +1,213 @@
+/**
+ * Integration tests for Next.js Edge generator
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { generateNextjsEdgeTarget } from '../../../cli/generators/nextjs-edge';
+import { generateEdgeRouteFile, generateEdgeDynamicRouteFile } from '../../../cli/generators/nextjs-edge/route-template';
+import { generateEdgeEndpointRouteFile } from '../../../cli/generators/nextjs-edge/endpoint-route-template';
+import { generateEdgeLibFiles } from '../../../cli/generators/nextjs-edge/lib-template';
+import {
+  generateAuthMiddlewareNextjs,
+  generateContextMiddlewareNextjs,
+} from '../../../cli/generators/nextjs-api/middleware-template';
+import { analyzeEndpoints } from '../../../cli/analyze-endpoints';
+import { schemas as blogSchemas } from '../fixtures/schemas/blog.schema';
+import { analyzeTestSchemas, createTestConfig, getProjectPath } from '../utils/test-helpers';
+import { assertCodeContains, checkTypeScriptCompiles, type CompileResult } from '../utils/compile-checker';
+import type { GenerationTarget, SchemockConfig } from '../../../cli/types';
+import { defineData, field, defineEndpoint } from '../../../schema';
+
+const supabaseTarget: GenerationTarget = {
+  name: 'edge',
+  type: 'nextjs-edge',
+  output: './app/api',
+};
+
+const neonTarget: GenerationTarget = {
+  name: 'edge',
+  type: 'nextjs-edge',
+  output: './app/api',
+  backend: 'neon',
+};
+
+describe('Next.js Edge Generator Integration', () => {
+  describe('generateEdgeRouteFile', () => {
+    it('generates Web-standard handlers on the edge runtime', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateEdgeRouteFile(analyzed[0], supabaseTarget, createTestConfig());
+
+      assertCodeContains(code, [
+        "export const runtime = 'edge'",
+        'export async function GET(request: Request)',
+        'export async function POST(request: Request)',
+        'Response.json(',
+        "import { supabase } from '../_lib/supabase'",
+      ]);
+      expect(code).not.toContain('NextResponse');
+      expect(code).not.toContain('Buffer');
+    });
+
+    it('queries Neon over HTTP when backend is neon', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateEdgeRouteFile(analyzed[0], neonTarget, createTestConfig());
+
+      assertCodeContains(code, [
+        "import { sql, mapPgError } from '../_lib/db'",
+        'await sql(',
+        'COLUMNS',
+      ]);
+      expect(code).not.toContain('supabase');
+    });
+
+    it('runs the middleware chain when middleware is configured', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const config = createTestConfig({ middleware: { auth: { provider: 'jwt' } } });
+      const code = generateEdgeRouteFile(analyzed[0], supabaseTarget, config);
+
+      assertCodeContains(code, [
+        "import { runMiddlewareChain } from '../_lib/chain'",
+        'runMiddlewareChain(new NextRequest(request)',
+      ]);
+    });
+  });
+
+  describe('generateEdgeDynamicRouteFile', () => {
+    it('generates GET/PUT/DELETE with async params', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateEdgeDynamicRouteFile(analyzed[0], supabaseTarget, createTestConfig());
+
+      assertCodeContains(code, [
+        "export const runtime = 'edge'",
+        'params: Promise<{ id: string }>',
+        'export async function GET(',
+        'export async function PUT(',
+        'export async function DELETE(',
+        'new Response(null, { status: 204 })',
+      ]);
+    });
+
+    it('maps missing Neon rows to 404', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateEdgeDynamicRouteFile(analyzed[0], neonTarget, createTestConfig());
+
+      expect(code).toContain('status: 404');
+      expect(code).toContain('mapPgError(error)');
+    });
+  });
+
+  describe('generateEdgeEndpointRouteFile', () => {
+    const searchEndpoint = defineEndpoint('/api/search', {
+      method: 'GET',
+      params: { q: field.string(), limit: field.number().default(20) },
+      response: { total: field.number() },
+      mockResolver: async () => ({ total: 0 }),
+    });
+
+    it('generates an edge route for custom endpoints', () => {
+      const [endpoint] = analyzeEndpoints([searchEndpoint]);
+      const code = generateEdgeEndpointRouteFile(endpoint, neonTarget, createTestConfig(), '../_lib');
+
+      assertCodeContains(code, [
+        "export const runtime = 'edge'",
+        'export async function GET(request: Request)',
+        "import { sql } from '../_lib/db'",
+        'new URL(request.url)',
+        "import type { SearchParams, SearchResponse } from '../_lib/endpoint-types'",
+      ]);
+    });
+  });
+
+  describe('generateEdgeLibFiles', () => {
+    it('generates a stateless Supabase client by default', () => {
+      const files = generateEdgeLibFiles(supabaseTarget);
+
+      expect(Object.keys(files)).toEqual(['supabase.ts']);
+      expect(files['supabase.ts']).toContain('persistSession: false');
+    });
+
+    it('generates a Neon HTTP client for neon backend', () => {
+      const files = generateEdgeLibFiles(neonTarget);
+
+      expect(files['db.ts']).toContain("import { neon } from '@neondatabase/serverless'");
+      expect(files['db.ts']).toContain('export const sql = neon(connectionString)');
+    });
+
+    it('rejects backends that require Node.js', () => {
+      expect(() => generateEdgeLibFiles({ ...supabaseTarget, backend: 'pglite' })).toThrow(
+        "Next.js Edge target does not support backend 'pglite'"
+      );
+    });
+  });
+
+  describe('edge middleware', () => {
+    it('verifies JWTs with jose instead of jsonwebtoken', () => {
+      const code = generateAuthMiddlewareNextjs({ provider: 'jwt' }, { edge: true });
+
+      expect(code).toContain("import { jwtVerify } from 'jose'");
+      expect(code).not.toContain('jsonwebtoken');
+    });
+
+    it('decodes context tokens without Buffer', () => {
+      const code = generateContextMiddlewareNextjs({ edge: true });
+
+      expect(code).toContain('atob(');
+      expect(code).not.toContain('Buffer');
+    });
+  });
+
+  describe('Generated Code Compilation', () => {
+    const Event = defineData('event', {
+      id: field.uuid(),
+      name: field.string(),
+      score: field.number().nullable(),
+    }, {
+      api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } },
+      softDelete: true,
+      versioned: true,
+    });
+
+    const analyzed = analyzeTestSchemas([...blogSchemas, Event]);
+    const endpoints = analyzeEndpoints([
+      defineEndpoint('/api/search/:kind', {
+        method: 'GET',
+        params: { q: field.string() },
+        response: { total: field.number() },
+        mockResolver: async () => ({ total: 0 }),
+      }),
+    ]);
+
+    async function compileTarget(target: GenerationTarget, config: SchemockConfig): Promise<CompileResult> {
+      // Inside the project so the routes resolve @supabase/supabase-js
+      const cacheDir = getProjectPath('node_modules', '.cache');
+      await mkdir(cacheDir, { recursive: true });
+      const dir = await mkdtemp(join(cacheDir, 'nextjs-edge-'));
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      try {
+        const files = await generateNextjsEdgeTarget(analyzed, analyzed, dir, { ...target, output: dir }, config, {}, [], endpoints);
+        const paths = files.map((file) => join(dir, file));
+        return await checkTypeScriptCompiles(paths[0], paths.slice(1));
+      } finally {
+        log.mockRestore();
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+
+    it('supabase routes with middleware compile', async () => {
+      const config = createTestConfig({ middleware: { auth: { provider: 'jwt' }, context: true } });
+      const result = await compileTarget(supabaseTarget, config);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+    }, 60000);
+
+    it('neon routes compile', async () => {
+      const result = await compileTarget(neonTarget, createTestConfig());
+
+      expect(result.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+    }, 60000);
+  });
+});
@@ -13,6 +13,7 @@ import {
 } from '../utils/test-helpers';
 import { assertCodeContains } from '../utils/compile-checker';
 import type { GenerationTarget } from '../../../cli/types';
+import { defineData, field } from '../../../schema';
 
 describe('Node Handlers Generator Integration', () => {
   let tempDir: string;
@@ -122,6 +123,33 @@ describe('Node Handlers Generator Integration', () => {
 
       expect(code).toContain('GENERATED BY SCHEMOCK');
     });
+
+    it('generates keyset pagination for cursor-paginated entities', () => {
+      const analyzed = analyzeTestSchemas([
+        defineData('event', { id: field.uuid(), title: field.string() }, {
+          api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } },
+        }),
+      ]);
+      const target: GenerationTarget = {
+        name: 'api',
+        type: 'node-handlers',
+        output: tempDir,
+        backend: 'pglite',
+      };
+      const config = createTestConfig();
+
+      const code = generateHandlerFile(analyzed[0], target, config);
+
+      assertCodeContains(code, [
+        "from '../cursor'",
+        "const limit = parseInt(req.query.limit as string || '10', 10);",
+        'const keys = getCursorSortKeys(parseOrderBy(req.query.orderBy as string | undefined));',
+        'const cursor = req.query.cursor ? decodeCursor(req.query.cursor as string) : undefined;',
+        'const page = toCursorPage(',
+        'nextCursor: page.nextCursor, prevCursor: page.prevCursor',
+      ]);
+      expect(code).not.toContain('OFFSET');
+    });
   });
 
   describe('generateRouterFile', () => {
@@ -159,6 +187,24 @@ describe('Node Handlers Generator Integration', () => {
       expect(code).toContain("from './handlers/");
     });
 
+    it('maps errors carrying a status to that HTTP status', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const target: GenerationTarget = {
+        name: 'api',
+        type: 'node-handlers',
+        output: tempDir,
+        backend: 'supabase',
+      };
+      const config = createTestConfig();
+
+      const code = generateRouterFile(analyzed, target, config);
+
+      assertCodeContains(code, [
+        "const status = 'status' in err && typeof err.status === 'number' ? err.status : 500;",
+        'res.status(status).json(',
+      ]);
+    });
+
     it('sets up routes for CRUD operations', () => {
       const analyzed = analyzeTestSchemas(blogSchemas);
       const target: GenerationTarget = {
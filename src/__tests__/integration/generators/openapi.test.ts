@@ -0,0 +1,223 @@
+/**
+ * Integration tests for the OpenAPI generator and the generate:openapi command
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { Validator } from '@seriousme/openapi-schema-validator';
+import { generateOpenAPI, registerEndpoints, registerSchemas, type OpenAPIOptions } from '../../../generator/openapi';
+import { generateOpenApiFile } from '../../../cli/commands/generate-openapi';
+import { defineData, defineEndpoint, field, belongsTo, hasMany } from '../../../schema';
+import { createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
+
+const User = defineData('user', {
+  id: field.uuid(),
+  email: field.email(),
+  name: field.string(),
+  role: field.enum(['admin', 'member']).nullable(),
+  posts: hasMany('post', { foreignKey: 'authorId' }),
+});
+
+const Post = defineData('post', {
+  id: field.uuid(),
+  title: field.string(),
+  views: field.number().int().default(0),
+  authorId: field.ref('user'),
+  author: belongsTo('user', { foreignKey: 'authorId' }),
+});
+
+const Search = defineEndpoint('/api/search', {
+  method: 'GET',
+  description: 'Full-text search',
+  params: { q: field.string(), limit: field.number().int().default(10) },
+  response: { results: field.array(field.string()), total: field.number().int() },
+  mockResolver: () => ({ results: [], total: 0 }),
+});
+
+const Ship = defineEndpoint('/api/orders/:orderId/ship', {
+  method: 'POST',
+  params: { orderId: field.uuid() },
+  body: { carrier: field.enum(['ups', 'dhl']), note: field.string().nullable() },
+  response: { trackingNumber: field.string() },
+  mockResolver: () => ({ trackingNumber: '1Z' }),
+});
+
+/** Generate a spec as it is written to disk */
+function generate(options?: OpenAPIOptions): Record<string, any> {
+  return JSON.parse(JSON.stringify(generateOpenAPI(options)));
+}
+
+async function validate(spec: Record<string, unknown>): Promise<void> {
+  const validator = new Validator();
+  const result = await validator.validate(spec);
+  expect(result.errors).toBeUndefined();
+  expect(result.valid).toBe(true);
+  expect(validator.version).toBe('3.1');
+}
+
+describe('OpenAPI Generator Integration', () => {
+  beforeEach(() => {
+    registerSchemas([User, Post]);
+    registerEndpoints([Search, Ship]);
+  });
+
+  afterAll(() => {
+    registerSchemas([]);
+    registerEndpoints([]);
+  });
+
+  it('produces a spec that validates against the OpenAPI 3.1 meta-schema', async () => {
+    const spec = generate({
+      examples: true,
+      auth: { provider: 'jwt', skip: ['/api/search'] },
+      rateLimit: { max: 100, windowMs: 60000, routes: { 'POST /api/orders/:orderId/ship': { max: 5 } } },
+    });
+
+    expect(spec.openapi).toBe('3.1.0');
+    await validate(spec);
+  });
+
+  it('expresses nullable fields as 3.1 type arrays', () => {
+    const { User: user } = generate().components.schemas;
+
+    expect(user.properties.role).toEqual({ type: ['string', 'null'], enum: ['admin', 'member', null] });
+    expect(user.required).not.toContain('role');
+  });
+
+  it('documents filter, orderBy and include on list operations', () => {
+    const spec = generate();
+    const parameters = spec.paths['/api/users'].get.parameters;
+    const byName = Object.fromEntries(parameters.map((p: { name: string }) => [p.name, p]));
+
+    expect(byName.where.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/UserFilter' });
+    expect(byName.orderBy.content['application/json'].schema.properties.email).toEqual({ type: 'string', enum: ['asc', 'desc'] });
+    expect(byName.include.content['application/json'].schema.items.enum).toEqual(['posts']);
+    expect(spec.components.schemas.UserFilter.properties.email.anyOf[1]).toEqual({ $ref: '#/components/schemas/FieldFilter' });
+    expect(spec.components.schemas.UserFilter.properties.OR).toEqual({ type: 'array', items: { $ref: '#/components/schemas/UserFilter' } });
+  });
+
+  it('adds custom endpoints with params, body and response', () => {
+    const spec = generate();
+    const search = spec.paths['/api/search'].get;
+    const ship = spec.paths['/api/orders/{orderId}/ship'].post;
+
+    expect(search.summary).toBe('Full-text search');
+    expect(search.operationId).toBe('getSearch');
+    expect(search.parameters).toEqual([
+      { name: 'q', in: 'query', required: true, schema: { type: 'string' } },
+      { name: 'limit', in: 'query', required: false, schema: { type: 'number', default: 10 } },
+    ]);
+    expect(search.responses['200'].content['application/json'].schema.required).toEqual(['results', 'total']);
+
+    expect(ship.operationId).toBe('postOrdersByOrderIdShip');
+    expect(ship.parameters[0]).toEqual({ name: 'orderId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } });
+    expect(ship.requestBody.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: {
+        carrier: { type: 'string', enum: ['ups', 'dhl'] },
+        note: { type: ['string', 'null'] },
+      },
+      required: ['carrier'],
+    });
+  });
+
+  it('derives the security scheme from the auth provider', () => {
+    const jwt = generate({ auth: { provider: 'supabase-auth', skip: ['/api/search', '/api/orders/*'] } });
+
+    expect(jwt.components.securitySchemes).toEqual({
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Supabase Auth access token' },
+    });
+    expect(jwt.security).toEqual([{ bearerAuth: [] }]);
+    expect(jwt.paths['/api/search'].get.security).toEqual([]);
+    expect(jwt.paths['/api/orders/{orderId}/ship'].post.security).toEqual([]);
+    expect(jwt.paths['/api/users'].get.security).toBeUndefined();
+    expect(jwt.paths['/api/users'].get.responses['401']).toBeDefined();
+
+    const session = generate({ auth: { provider: 'nextauth', required: false } });
+    expect(session.components.securitySchemes.sessionCookie).toMatchObject({ type: 'apiKey', in: 'cookie', name: 'next-auth.session-token' });
+    expect(session.security).toEqual([{ sessionCookie: [] }, {}]);
+    expect(session.paths['/api/users'].get.responses['401']).toBeUndefined();
+  });
+
+  it('notes route and role rate limits on each operation', () => {
+    const spec = generate({
+      rateLimit: {
+        max: 100,
+        windowMs: 60000,
+        algorithm: 'sliding-window',
+        routes: { 'POST /api/orders/:orderId/ship': { max: 5, windowMs: 3600000 } },
+        roles: { admin: { max: 1000 } },
+      },
+    });
+
+    expect(spec.paths['/api/orders/{orderId}/ship'].post.description).toBe(
+      'Rate limit: 5 requests per 1 hour (sliding-window).'
+    );
+    expect(spec.paths['/api/users'].get.description).toBe(
+      'Rate limit: 100 requests per 1 minute (sliding-window). Role limits: admin 1000 requests per 1 minute (sliding-window).'
+    );
+    expect(spec.paths['/api/users/{id}'].delete.responses['429'].headers['Retry-After']).toBeDefined();
+  });
+
+  it('adds reproducible faker examples', () => {
+    const spec = generate({ examples: true });
+    const [user] = spec.components.schemas.User.examples;
+    const [input] = spec.components.schemas.PostCreate.examples;
+
+    expect(user.email).toMatch(/@/);
+    expect(['admin', 'member']).toContain(user.role);
+    expect(input).not.toHaveProperty('id');
+    expect(input.views).toBe(0);
+    expect(spec.paths['/api/orders/{orderId}/ship'].post.requestBody.content['application/json'].schema.examples[0].carrier).toMatch(/ups|dhl/);
+    expect(generate({ examples: true })).toEqual(spec);
+    expect(generate().components.schemas.User.examples).toBeUndefined();
+  });
+
+  describe('generate:openapi command', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('openapi-command-');
+    });
+
+    afterAll(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('writes the schemas and endpoints of the configured project', async () => {
+      const schemaSource = [
+        `import { defineData, defineEndpoint, field } from '${resolve('src/schema/index.ts')}';`,
+        "export const Product = defineData('product', { id: field.uuid(), name: field.string(), price: field.number() });",
+        "export const Restock = defineEndpoint('/api/products/:id/restock', { method: 'POST', params: { id: field.uuid() }, body: { quantity: field.number().int() }, response: { stock: field.number().int() }, mockResolver: () => ({ stock: 1 }) });",
+      ].join('\n');
+      const schemaPath = await writeGeneratedFile(tempDir, 'product.ts', schemaSource);
+      const configPath = await writeGeneratedFile(tempDir, 'schemock.config.cjs', `module.exports = ${JSON.stringify({
+        schemas: schemaPath,
+        output: join(tempDir, 'generated'),
+        adapter: 'mock',
+        apiPrefix: '/v1',
+        middleware: { auth: { provider: 'clerk' }, rateLimit: { max: 50, windowMs: 1000 } },
+      })};`);
+      const outputPath = join(tempDir, 'openapi.json');
+
+      await generateOpenApiFile({ output: outputPath, config: configPath });
+
+      const spec = JSON.parse(await readFile(outputPath, 'utf-8'));
+      expect(Object.keys(spec.paths)).toEqual(['/v1/products', '/v1/products/{id}', '/api/products/{id}/restock']);
+      expect(spec.components.securitySchemes.bearerAuth.description).toBe('Clerk session token');
+      expect(spec.paths['/v1/products'].post.description).toBe('Rate limit: 50 requests per 1 second.');
+      expect(spec.components.schemas.Product.examples).toHaveLength(1);
+      await validate(spec);
+    });
+
+    it('writes YAML when the output ends in .yaml', async () => {
+      const outputPath = join(tempDir, 'openapi.yaml');
+      await generateOpenApiFile({ output: outputPath, config: join(tempDir, 'schemock.config.cjs') });
+
+      const yaml = await readFile(outputPath, 'utf-8');
+      expect(yaml).toContain('openapi: "3.1.0"');
+      expect(yaml).toContain('  /v1/products/{id}:');
+      expect(yaml).toContain('    "200":');
+    });
+  });
+});
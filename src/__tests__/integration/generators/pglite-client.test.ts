@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import ts from 'typescript';
 import { generatePGliteClient } from '../../../cli/generators/pglite/client';
+import {
+  generateCursorCodec,
+  generateCursorPaginator,
+  generateCursorSqlHelpers,
+  generateKeysetPageHelper,
+} from '../../../cli/generators/shared/cursor';
+import { CodeBuilder } from '../../../cli/utils/code-builder';
 import { generatePGliteDb } from '../../../cli/generators/pglite/db';
 import { generateTypes } from '../../../cli/generators/types';
 import { analyzeTestSchemas, createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
@@ -57,6 +66,21 @@ const rlsSchemas = [
   ),
 ];
 
+// Schema with cursor pagination
+const cursorSchemas = [
+  defineData(
+    'event',
+    {
+      id: field.uuid(),
+      title: field.string(),
+      startsAt: field.date(),
+    },
+    {
+      api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } },
+    }
+  ),
+];
+
 describe('PGlite Client Generator', () => {
   describe('Generated Code Structure', () => {
     it('generates createClient factory function', () => {
@@ -274,12 +298,32 @@ describe('PGlite Client Generator', () => {
       const code = generatePGliteClient(analyzed);
 
       expect(code).toContain('function buildWhere');
-      expect(code).toContain("'equals' in f");
-      expect(code).toContain("'not' in f");
-      expect(code).toContain("'in' in f");
-      expect(code).toContain("'contains' in f");
-      expect(code).toContain("'gt' in f");
-      expect(code).toContain("'lt' in f");
+      expect(code).toContain("case 'equals':");
+      expect(code).toContain("case 'not':");
+      expect(code).toContain("case 'in':");
+      expect(code).toContain("case 'contains':");
+      expect(code).toContain("case 'gt':");
+      expect(code).toContain("case 'lt':");
+    });
+
+    it('supports boolean groups, case-insensitive matching and array operators in buildWhere', () => {
+      const analyzed = analyzeTestSchemas(simpleSchemas);
+      const code = generatePGliteClient(analyzed);
+
+      expect(code).toContain("if (key === 'OR')");
+      expect(code).toContain("if (key === 'NOT')");
+      expect(code).toContain("const like = insensitive ? 'ILIKE' : 'LIKE';");
+      expect(code).toContain('@> ${bindJson([target])}');
+      expect(code).toContain('throw new InvalidFilterError(`Unknown filter operator: ${op}`)');
+      expect(code).toContain('throw new InvalidFilterError(`Invalid filter field: ${key}`)');
+    });
+
+    it('maps invalid filters to 400 errors', () => {
+      const analyzed = analyzeTestSchemas(simpleSchemas);
+      const code = generatePGliteClient(analyzed);
+
+      expect(code).toContain('class InvalidFilterError extends Error');
+      expect(code).toContain('if (error instanceof InvalidFilterError) {');
     });
 
     it('generates buildOrderBy helper', () => {
@@ -313,7 +357,7 @@ describe('PGlite Client Generator', () => {
       const analyzed = analyzeTestSchemas(simpleSchemas);
       const code = generatePGliteClient(analyzed);
 
-      expect(code).toContain("import { db, initDb, tables, setContext, withContext } from './db'");
+      expect(code).toContain("import { db, initDb, tables, setContext, withContext, subscribeToChanges } from './db'");
     });
 
     it('imports RLSContext type from db.ts', () => {
@@ -358,6 +402,110 @@ describe('PGlite DB Generator - Security', () => {
   });
 });
 
+describe('PGlite Change Subscriptions', () => {
+  it('generates notify triggers and a listener in the db module', () => {
+    const analyzed = analyzeTestSchemas(simpleSchemas);
+    const code = generatePGliteDb(analyzed, { persistence: 'memory' });
+
+    expect(code).toContain("PERFORM pg_notify('schemock_changes', payload);");
+    expect(code).toContain('CREATE TRIGGER "users_changes" AFTER INSERT OR UPDATE OR DELETE ON "users"');
+    expect(code).toContain('export function subscribeToChanges(');
+  });
+
+  it('generates subscribe methods on the client', () => {
+    const analyzed = analyzeTestSchemas(simpleSchemas);
+    const code = generatePGliteClient(analyzed);
+
+    expect(code).toContain('subscribe: (where: Types.UserFilter, callback: (event: Types.ChangeEvent<Types.User>) => void) => () => void;');
+    expect(code).toContain("return subscribeToChanges('users', (event) => {");
+    expect(code).toContain("console.error('[Schemock] user.subscribe callback failed:', error)");
+  });
+});
+
+describe('Cursor Pagination', () => {
+  it('generates keyset list query for cursor-paginated entities', () => {
+    const analyzed = analyzeTestSchemas(cursorSchemas);
+    const code = generatePGliteClient(analyzed);
+
+    expect(code).toContain('const limit = options?.limit ?? 10;');
+    expect(code).toContain('const cursor = options?.cursor ? decodeCursor(options.cursor) : undefined;');
+    expect(code).toContain('buildCursorWhere(keys, cursor, params, paramIndex)');
+    expect(code).toContain('${buildCursorOrderBy(keys, cursor)} LIMIT ${limit + 1}');
+    expect(code).toContain('const page = toCursorPage(result.rows, keys, limit, cursor);');
+    expect(code).toContain('nextCursor: page.nextCursor, prevCursor: page.prevCursor');
+  });
+
+  it.each(['asc', 'desc'] as const)('pages through NULL sort values like the in-memory paginator (%s)', async (dir) => {
+    const code = new CodeBuilder();
+    generateCursorCodec(code);
+    generateCursorPaginator(code);
+    generateKeysetPageHelper(code);
+    generateCursorSqlHelpers(code);
+    const js = ts.transpileModule(code.toString(), { compilerOptions: { target: ts.ScriptTarget.ES2020 } }).outputText;
+    type Page = { items: { id: string }[]; nextCursor?: string; prevCursor?: string };
+    const helpers = new Function(
+      `${js}\nreturn { getCursorSortKeys, decodeCursor, paginateByCursor, toCursorPage, buildCursorWhere, buildCursorOrderBy };`
+    )();
+
+    const rows = [3, null, 1, null, 2, 3, null].map((score, i) => ({ id: `e${i}`, score }));
+    const keys = helpers.getCursorSortKeys({ score: dir });
+    const db = new PGlite();
+
+    const sqlPage = async (cursorString?: string): Promise<Page> => {
+      const cursor = cursorString ? helpers.decodeCursor(cursorString) : undefined;
+      const params: unknown[] = [];
+      const where = cursor ? `WHERE ${helpers.buildCursorWhere(keys, cursor, params, 1).sql}` : '';
+      const result = await db.query(`SELECT * FROM "events" ${where} ${helpers.buildCursorOrderBy(keys, cursor)} LIMIT 3`, params);
+      return helpers.toCursorPage(result.rows, keys, 2, cursor);
+    };
+    const walk = async (page: (cursor?: string) => Promise<Page> | Page) => {
+      const ids: string[] = [];
+      let current = await page();
+      ids.push(...current.items.map((row) => row.id));
+      while (current.nextCursor) {
+        current = await page(current.nextCursor);
+        ids.push(...current.items.map((row) => row.id));
+      }
+      const previous = current.prevCursor ? await page(current.prevCursor) : undefined;
+      return { ids, previous: previous?.items.map((row) => row.id) };
+    };
+
+    try {
+      await db.exec('CREATE TABLE "events" ("id" TEXT PRIMARY KEY, "score" INTEGER)');
+      for (const row of rows) {
+        await db.query('INSERT INTO "events" ("id", "score") VALUES ($1, $2)', [row.id, row.score]);
+      }
+
+      const expected = await walk((cursor) => helpers.paginateByCursor(rows, keys, cursor, 2));
+      expect(expected.ids).toHaveLength(rows.length);
+      expect(await walk(sqlPage)).toEqual(expected);
+    } finally {
+      await db.close();
+    }
+  }, 60000);
+
+  it('rejects malformed orderBy with a 400 error', () => {
+    const code = new CodeBuilder();
+    generateCursorCodec(code);
+    const js = ts.transpileModule(code.toString(), { compilerOptions: { target: ts.ScriptTarget.ES2020 } }).outputText;
+    const { parseOrderBy } = new Function(`${js}\nreturn { parseOrderBy };`)();
+
+    expect(parseOrderBy(null)).toBeUndefined();
+    expect(parseOrderBy('{"createdAt":"desc"}')).toEqual({ createdAt: 'desc' });
+    for (const orderBy of ['{createdAt', '["createdAt"]', '{"createdAt":"down"}', 'null']) {
+      expect(() => parseOrderBy(orderBy)).toThrow(expect.objectContaining({ status: 400, code: 'INVALID_ORDER_BY' }));
+    }
+  });
+
+  it('omits cursor helpers when no entity uses cursor pagination', () => {
+    const analyzed = analyzeTestSchemas(simpleSchemas);
+    const code = generatePGliteClient(analyzed);
+
+    expect(code).not.toContain('function decodeCursor');
+    expect(code).toContain('LIMIT ${limit} OFFSET ${offset}');
+  });
+});
+
 describe('Generated Code Output Example', () => {
   it('shows complete generated client structure', () => {
     const analyzed = analyzeTestSchemas(rlsSchemas);
@@ -407,6 +555,29 @@ describe('Generated Code Compilation', () => {
     expect(result.success).toBe(true);
   });
 
+  it('pglite client with cursor pagination compiles without errors', async () => {
+    const analyzed = analyzeTestSchemas(cursorSchemas);
+
+    const typesCode = generateTypes(analyzed);
+    const dbCode = generatePGliteDb(analyzed, { persistence: 'memory' });
+    const clientCode = generatePGliteClient(analyzed);
+
+    const typesPath = await writeGeneratedFile(tempDir, 'types-cursor.ts', typesCode);
+    const dbPath = await writeGeneratedFile(tempDir, 'db-cursor.ts', dbCode);
+    const clientPath = await writeGeneratedFile(
+      tempDir,
+      'client-cursor.ts',
+      clientCode.replace("'./types'", "'./types-cursor'").replace("'./db'", "'./db-cursor'")
+    );
+
+    const result = await checkTypeScriptCompiles(clientPath, [typesPath, dbPath]);
+
+    if (!result.success) {
+      console.error('Cursor compilation errors:', result.errors);
+    }
+    expect(result.success).toBe(true);
+  });
+
   it('pglite client with RLS compiles without errors', async () => {
     const analyzed = analyzeTestSchemas(rlsSchemas);
 
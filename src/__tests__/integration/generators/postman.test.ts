@@ -0,0 +1,284 @@
+/**
+ * Integration tests for the Postman generator and the generate:postman command
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { readFile, readdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import {
+  generatePostmanCollection,
+  generatePostmanEnvironment,
+  registerEndpointsForPostman,
+  registerSchemasForPostman,
+  type PostmanCollection,
+  type PostmanOptions,
+} from '../../../generator/postman';
+import { generatePostmanFiles } from '../../../cli/commands/generate-postman';
+import { defineData, defineEndpoint, field } from '../../../schema';
+import { createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
+
+const User = defineData('user', {
+  id: field.uuid(),
+  email: field.email(),
+  nickname: field.string({ hint: 'person.nickname' }),
+  role: field.enum(['admin', 'member']),
+  bio: field.string().nullable(),
+}, { module: 'identity' });
+
+const Post = defineData('post', {
+  id: field.uuid(),
+  title: field.string(),
+  views: field.number().int().default(0),
+  authorId: field.ref('user'),
+}, { module: 'content', tags: ['public'] });
+
+const Search = defineEndpoint('/api/search', {
+  method: 'GET',
+  description: 'Full-text search',
+  params: { q: field.string(), cursor: field.string().nullable() },
+  response: { results: field.array(field.string()), total: field.number().int() },
+  mockResolver: () => ({ results: [], total: 0 }),
+});
+
+const Ship = defineEndpoint('/api/orders/:orderId/ship', {
+  method: 'POST',
+  params: { orderId: field.uuid() },
+  body: { carrier: field.enum(['ups', 'dhl']) },
+  response: { trackingNumber: field.string() },
+  mockResolver: () => ({ trackingNumber: '1Z' }),
+});
+
+type Item = PostmanCollection['item'][number];
+
+function generate(options?: PostmanOptions): PostmanCollection {
+  return JSON.parse(JSON.stringify(generatePostmanCollection(options)));
+}
+
+function find(items: Item[], name: string): Item {
+  const found = items.find((item) => item.name === name);
+  expect(found, name).toBeDefined();
+  return found!;
+}
+
+function testScript(item: Item): string {
+  return item.event!.find((event) => event.listen === 'test')!.script.exec.join('\n');
+}
+
+/** Run a test script against a response with a minimal `pm` sandbox */
+function runScript(script: string, code: number, json: unknown, variables = new Map<string, string>()) {
+  const results: Array<{ name: string; passed: boolean }> = [];
+  const expectValue = (value: unknown) => {
+    const chain = {
+      to: {} as Record<string, unknown>,
+    };
+    const assert = (ok: boolean) => {
+      if (!ok) throw new Error(`assertion failed for ${JSON.stringify(value)}`);
+    };
+    chain.to = {
+      be: {
+        a: (type: string) => assert(type === 'array' ? Array.isArray(value) : typeof value === type),
+        an: (type: string) => assert(type === 'array' ? Array.isArray(value) : typeof value === type && !Array.isArray(value)),
+        oneOf: (values: unknown[]) => assert(values.includes(value)),
+      },
+      include: (item: unknown) => assert((value as unknown[]).includes(item)),
+      eql: (other: unknown) => assert(JSON.stringify(value) === JSON.stringify(other)),
+    };
+    return chain;
+  };
+  const pm = {
+    test: (name: string, fn: () => void) => {
+      try {
+        fn();
+        results.push({ name, passed: true });
+      } catch {
+        results.push({ name, passed: false });
+      }
+    },
+    expect: expectValue,
+    response: {
+      code,
+      json: () => json,
+      to: { have: { status: (expected: number) => expectValue(code).to.eql(expected) } },
+    },
+    collectionVariables: {
+      get: (key: string) => variables.get(key),
+      set: (key: string, value: string) => variables.set(key, value),
+    },
+  };
+  new Function('pm', script)(pm);
+  return results;
+}
+
+describe('Postman Generator Integration', () => {
+  beforeEach(() => {
+    registerSchemasForPostman([User, Post]);
+    registerEndpointsForPostman([Search, Ship]);
+  });
+
+  afterAll(() => {
+    registerSchemasForPostman([]);
+    registerEndpointsForPostman([]);
+  });
+
+  it('orders CRUD requests so create feeds the id into the rest', () => {
+    const collection = generate();
+    const user = find(collection.item, 'User');
+    const names = user.item!.map((item) => item.name);
+
+    expect(names).toEqual(['Create user', 'List users', 'Get user', 'Update user', 'Delete user']);
+    expect(collection.variable).toContainEqual({ key: 'userId', value: '', description: 'Id of the last created user' });
+    expect(testScript(user.item![0])).toContain("pm.collectionVariables.set('userId', record.id);");
+    for (const item of user.item!.slice(2)) {
+      expect(item.request!.url.variable).toEqual([{ key: 'id', value: '{{userId}}', description: 'User ID' }]);
+      expect(item.request!.url.raw).toBe('{{baseUrl}}/api/users/:id');
+    }
+  });
+
+  it('asserts status and response shape in pm.test scripts', () => {
+    const user = find(generate().item, 'User');
+    const [create, list, get, , remove] = user.item!;
+    const variables = new Map<string, string>();
+    const timestamps = { createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-02T00:00:00.000Z' };
+    const record = { id: 'u1', email: 'a@b.c', nickname: 'ann', role: 'admin', bio: null, ...timestamps };
+
+    expect(runScript(testScript(create), 201, { data: record }, variables).every((r) => r.passed)).toBe(true);
+    expect(variables.get('userId')).toBe('u1');
+    expect(runScript(testScript(list), 200, { data: [record] }).every((r) => r.passed)).toBe(true);
+    expect(runScript(testScript(get), 200, record, variables).every((r) => r.passed)).toBe(true);
+    expect(runScript(testScript(remove), 204, null).every((r) => r.passed)).toBe(true);
+
+    const wrongShape = runScript(testScript(get), 200, { ...record, role: 'owner' }, variables);
+    expect(wrongShape.find((r) => r.name === 'Response has the user shape')!.passed).toBe(false);
+    expect(runScript(testScript(create), 400, { error: 'bad' }).find((r) => r.name === 'Status is 201')!.passed).toBe(false);
+  });
+
+  it('generates bodies with custom faker mappings and a fixed seed', () => {
+    const options: PostmanOptions = {
+      fakerMappings: [{ hint: 'person.nickname', call: "faker.helpers.arrayElement(['neo', 'trinity'])" }],
+    };
+    const create = find(generate(options).item, 'User').item![0];
+    const body = JSON.parse(create.request!.body!.raw!);
+
+    expect(body).not.toHaveProperty('id');
+    expect(body).not.toHaveProperty('createdAt');
+    expect(['neo', 'trinity']).toContain(body.nickname);
+    expect(body.email).toMatch(/@/);
+    expect(['admin', 'member']).toContain(body.role);
+    expect(JSON.parse(find(generate().item, 'Post').item![0].request!.body!.raw!).views).toBe(0);
+
+    const again = find(generate(options).item, 'User').item![0];
+    expect(again.request!.body!.raw).toBe(create.request!.body!.raw);
+  });
+
+  it('adds custom endpoints with path variables, query and body', () => {
+    const endpoints = find(generate().item, 'Endpoints').item!;
+    const search = find(endpoints, 'Full-text search').request!;
+    const ship = find(endpoints, 'POST /api/orders/:orderId/ship');
+
+    expect(search.url.query!.map((q) => [q.key, q.disabled])).toEqual([['q', undefined], ['cursor', true]]);
+    expect(search.url.raw).toMatch(/^\{\{baseUrl\}\}\/api\/search\?q=[^&]+$/);
+    expect(ship.request!.url.variable![0].key).toBe('orderId');
+    expect(['ups', 'dhl']).toContain(JSON.parse(ship.request!.body!.raw!).carrier);
+    expect(testScript(ship)).toContain('pm.expect(body["trackingNumber"]).to.be.a(\'string\');');
+  });
+
+  it('groups entity folders by module or tag', () => {
+    expect(generate({ groupBy: 'module' }).item.map((item) => item.name)).toEqual(['identity', 'content', 'Endpoints']);
+    expect(find(generate({ groupBy: 'module' }).item, 'content').item![0].name).toBe('Post');
+
+    const byTag = generate({ groupBy: 'tags' }).item.map((item) => item.name);
+    expect(byTag).toEqual(['User', 'public', 'Endpoints']);
+  });
+
+  it('sends skipped routes without auth', () => {
+    const collection = generate({ auth: { type: 'bearer', skip: ['/api/search', '/api/users*'] } });
+    const endpoints = find(collection.item, 'Endpoints').item!;
+
+    expect(collection.auth).toEqual({ type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] });
+    expect(find(endpoints, 'Full-text search').request!.auth).toEqual({ type: 'noauth' });
+    expect(find(collection.item, 'User').item![2].request!.auth).toEqual({ type: 'noauth' });
+    expect(find(collection.item, 'Post').item![0].request!.auth).toBeUndefined();
+  });
+
+  it('builds environments with secret tokens', () => {
+    const environment = generatePostmanEnvironment('staging', { baseUrl: 'https://staging.example.com', token: '' });
+
+    expect(environment.name).toBe('staging');
+    expect(environment._postman_variable_scope).toBe('environment');
+    expect(environment.values).toEqual([
+      { key: 'baseUrl', value: 'https://staging.example.com', type: 'default', enabled: true },
+      { key: 'token', value: '', type: 'secret', enabled: true },
+    ]);
+  });
+
+  describe('generate:postman command', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('postman-command-');
+    });
+
+    afterAll(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('writes the collection and one environment per HTTP target', async () => {
+      const schemaSource = [
+        `import { defineData, defineEndpoint, field } from '${resolve('src/schema/index.ts')}';`,
+        "export const Product = defineData('product', { id: field.uuid(), sku: field.string({ hint: 'commerce.sku' }) }, { group: 'catalog' });",
+        "export const Restock = defineEndpoint('/api/products/:id/restock', { method: 'POST', params: { id: field.uuid() }, body: { quantity: field.number().int() }, response: { stock: field.number().int() }, mockResolver: () => ({ stock: 1 }) });",
+      ].join('\n');
+      const schemaPath = await writeGeneratedFile(tempDir, 'product.ts', schemaSource);
+      const configPath = await writeGeneratedFile(tempDir, 'schemock.config.cjs', [
+        'module.exports = {',
+        `  schemas: ${JSON.stringify(schemaPath)},`,
+        `  output: ${JSON.stringify(join(tempDir, 'generated'))},`,
+        "  adapter: 'mock',",
+        "  apiPrefix: '/v1',",
+        "  fakerMappings: [{ hint: 'commerce.sku', call: \"'SKU-' + faker.string.numeric(4)\" }],",
+        "  middleware: { auth: { provider: 'nextauth', skip: ['/api/products/*'] } },",
+        '  targets: [',
+        "    { name: 'api', type: 'express', output: './api' },",
+        "    { name: 'edge', type: 'supabase-edge', output: './edge' },",
+        "    { name: 'staging', type: 'nextjs-api', output: './next', options: { baseUrl: 'https://staging.example.com' } },",
+        "    { name: 'sdk', type: 'firebase', output: './sdk' },",
+        '  ],',
+        '};',
+      ].join('\n'));
+      const outputDir = join(tempDir, 'postman');
+
+      await generatePostmanFiles({ output: join(outputDir, 'collection.json'), config: configPath, groupBy: 'group' });
+
+      expect((await readdir(outputDir)).sort()).toEqual([
+        'api.postman_environment.json',
+        'collection.json',
+        'edge.postman_environment.json',
+        'staging.postman_environment.json',
+      ]);
+
+      const collection: PostmanCollection = JSON.parse(await readFile(join(outputDir, 'collection.json'), 'utf-8'));
+      const product = find(find(collection.item, 'catalog').item!, 'Product');
+      const restock = find(collection.item, 'Endpoints').item![0];
+      expect(product.item![0].request!.url.raw).toBe('{{baseUrl}}/v1/products');
+      expect(JSON.parse(product.item![0].request!.body!.raw!).sku).toMatch(/^SKU-\d{4}$/);
+      expect(collection.auth!.apikey).toEqual([
+        { key: 'key', value: 'Cookie' },
+        { key: 'value', value: 'next-auth.session-token={{token}}' },
+      ]);
+      expect(restock.request!.auth).toEqual({ type: 'noauth' });
+
+      const edge = JSON.parse(await readFile(join(outputDir, 'edge.postman_environment.json'), 'utf-8'));
+      const staging = JSON.parse(await readFile(join(outputDir, 'staging.postman_environment.json'), 'utf-8'));
+      expect(edge.values[0]).toEqual({ key: 'baseUrl', value: 'http://localhost:54321/functions/v1', type: 'default', enabled: true });
+      expect(staging.values.map((v: { key: string; value: string }) => [v.key, v.value])).toEqual([
+        ['baseUrl', 'https://staging.example.com'],
+        ['token', ''],
+      ]);
+    });
+
+    it('rejects an unknown grouping', async () => {
+      await expect(
+        generatePostmanFiles({ output: join(tempDir, 'x.json'), config: join(tempDir, 'schemock.config.cjs'), groupBy: 'owner' })
+      ).rejects.toThrow('Unknown grouping "owner"');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Integration tests for the rate limit middleware generated for the
+ * node-handlers, Next.js and Supabase Edge targets
+ */
+import { describe, it, expect } from 'vitest';
+import { generateRateLimitMiddleware } from '../../../cli/generators/node-handlers/middleware-template';
+import { generateRateLimitMiddlewareNextjs } from '../../../cli/generators/nextjs-api/middleware-template';
+import { generateNextjsMiddlewareChain } from '../../../cli/generators/nextjs-api/middleware-chain-template';
+import { generateRateLimitMiddlewareEdge } from '../../../cli/generators/supabase-edge/middleware-template';
+import { generateEdgeMiddlewareChain } from '../../../cli/generators/supabase-edge/middleware-chain-template';
+import { generateDenoConfig } from '../../../cli/generators/supabase-edge/shared-template';
+import { createTestConfig } from '../utils/test-helpers';
+import { assertCodeContains, assertCodeDoesNotContain } from '../utils/compile-checker';
+import type { RateLimitMiddlewareConfig } from '../../../cli/types';
+
+const policy: RateLimitMiddlewareConfig = {
+  max: 100,
+  windowMs: 60000,
+  algorithm: 'sliding-window',
+  routes: { 'POST /api/login': { max: 5, windowMs: 900000 } },
+  roles: { admin: { max: 1000 } },
+};
+
+describe('Rate Limit Middleware Integration', () => {
+  describe('node-handlers', () => {
+    it('checks requests against the policy with an in-memory store', () => {
+      const code = generateRateLimitMiddleware(policy);
+
+      assertCodeContains(code, [
+        "import { createRateLimitCheck, MemoryRateLimitStore, type RateLimitPolicy } from 'schemock/security';",
+        '"algorithm": "sliding-window"',
+        '"POST /api/login": {',
+        '"admin": {',
+        'const checkRateLimit = createRateLimitCheck(rateLimitPolicy, { store: new MemoryRateLimitStore() });',
+        'export async function rateLimitMiddleware(',
+        'path: req.path,',
+        'res.setHeader(name, value);',
+        'res.status(429)',
+      ]);
+      assertCodeDoesNotContain(code, ['setInterval', 'X-RateLimit', "from './redis'"]);
+    });
+
+    it('shares counters through Redis when storage is redis', () => {
+      const code = generateRateLimitMiddleware({ ...policy, storage: 'redis' });
+
+      assertCodeContains(code, [
+        "import { createRateLimitCheck, RedisRateLimitStore, type RateLimitPolicy } from 'schemock/security';",
+        "import { redis } from './redis';",
+        'new RedisRateLimitStore({ client: redis })',
+      ]);
+    });
+  });
+
+  describe('nextjs-api', () => {
+    it('returns RateLimit-* headers for the response', () => {
+      const code = generateRateLimitMiddlewareNextjs({ max: 10, windowMs: 1000, keyBy: 'user' });
+
+      assertCodeContains(code, [
+        'const rateLimitPolicy: RateLimitPolicy = {',
+        'context: { userId?: string; role?: string } = {}',
+        'if (userId) return `user:${userId}`;',
+        'path: request.nextUrl.pathname,',
+        '{ status: 429, headers: check.headers }',
+        'return { error: false, headers: check.headers };',
+        'headers: Record<string, string>',
+      ]);
+      expect(code).not.toContain('RATE_LIMIT_MAX');
+    });
+
+    it('awaits the check in the middleware chain', () => {
+      const code = generateNextjsMiddlewareChain(createTestConfig({ middleware: { rateLimit: policy } }));
+
+      assertCodeContains(code, [
+        'const rateLimitResult = await rateLimitMiddleware(request, context);',
+        'addRateLimitHeaders(response, rateLimitResult.headers)',
+      ]);
+    });
+  });
+
+  describe('supabase-edge', () => {
+    it('imports the Redis client with a .ts extension', () => {
+      const code = generateRateLimitMiddlewareEdge({ ...policy, storage: 'redis' });
+
+      assertCodeContains(code, [
+        "import { redis } from './redis.ts';",
+        "import { corsHeaders } from '../cors.ts';",
+        'path: new URL(req.url).pathname,',
+        '...check.headers,',
+        '...corsHeaders(),',
+      ]);
+    });
+
+    it('awaits the check in the middleware chain', () => {
+      const code = generateEdgeMiddlewareChain(createTestConfig({ middleware: { rateLimit: policy } }));
+
+      assertCodeContains(code, [
+        'const rateLimitResult = await rateLimitMiddleware(req, context);',
+        "context['_rateLimit'] = rateLimitResult.headers;",
+      ]);
+    });
+
+    it('maps schemock/security in deno.json only when rate limiting is on', () => {
+      const withRateLimit = JSON.parse(generateDenoConfig(createTestConfig({ middleware: { rateLimit: policy } })));
+      const without = JSON.parse(generateDenoConfig(createTestConfig()));
+
+      expect(withRateLimit.imports['schemock/security']).toBe('npm:schemock/security');
+      expect(without.imports['schemock/security']).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Integration tests for seed scenarios in generated seed files and the seed command
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { generateMockSeed } from '../../../cli/generators/mock/seed';
+import { generatePGliteSeed } from '../../../cli/generators/pglite/seed';
+import { seedScenarioCommand } from '../../../cli/commands/seed';
+import { analyzeTestSchemas, createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
+import { assertCodeContains, assertCodeDoesNotContain } from '../utils/compile-checker';
+import { schemas as blogSchemas } from '../fixtures/schemas/blog.schema';
+
+describe('Seed Scenarios', () => {
+  const analyzed = analyzeTestSchemas(blogSchemas);
+
+  describe('generated seed files', () => {
+    it('builds scenarios with the seed generators and the configured faker seed', () => {
+      const code = generateMockSeed(analyzed, { fakerSeed: 7 });
+
+      assertCodeContains(code, [
+        "import { db, schemas } from './db';",
+        "import { buildScenario, type SeedScenario, type ScenarioDataset } from 'schemock/seed';",
+        "'user': generateUser,",
+        'export async function seedScenario(scenario: SeedScenario): Promise<ScenarioDataset> {',
+        'const data = buildScenario(scenario, schemas, { seed: 7, factories: scenarioFactories });',
+        "for (const record of data['post'] ?? []) {",
+        'db.post.create(record as any);',
+      ]);
+      assertCodeDoesNotContain(code, ['scenarioSchemas', 'EntitySchema']);
+    });
+
+    it('keeps seed() reproducible under the faker seed', () => {
+      for (const code of [generateMockSeed(analyzed), generatePGliteSeed(analyzed)]) {
+        assertCodeDoesNotContain(code, ['Math.random']);
+        assertCodeContains(code, ['return faker.helpers.arrayElement(arr);']);
+      }
+    });
+
+    it('inserts scenario records with their ids in PGlite', () => {
+      const code = generatePGliteSeed(analyzed, {});
+
+      assertCodeContains(code, [
+        "import type { EntitySchema } from 'schemock/schema';",
+        "author: { type: 'belongsTo', target: 'user', foreignKey: 'authorId' },",
+        'const data = buildScenario(scenario, scenarioSchemas, { factories: scenarioFactories });',
+        'await db.query(`INSERT INTO "posts" ("id", ',
+      ]);
+    });
+  });
+
+  describe('seed command', () => {
+    let tempDir: string;
+    let configPath: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('seed-scenario-command-');
+      const source = [
+        `import { defineData, field, hasMany } from '${resolve('src/schema/index.ts')}';`,
+        `import { defineScenario, weighted } from '${resolve('src/seed/index.ts')}';`,
+        "export const Author = defineData('author', { id: field.uuid(), name: field.string(), books: hasMany('book', { foreignKey: 'authorId' }) });",
+        "export const Book = defineData('book', { id: field.uuid(), title: field.string(), genre: field.enum(['fantasy', 'crime']).default('crime'), authorId: field.ref('author') });",
+        "export const shelf = defineScenario('shelf', (s) => { s.create('author', 2).each('books', [1, 3], { genre: weighted({ fantasy: 1, crime: 1 }) }); }, { description: 'Two authors with books' });",
+      ].join('\n');
+      const schemaPath = await writeGeneratedFile(tempDir, 'library.ts', source);
+      configPath = await writeGeneratedFile(tempDir, 'schemock.config.cjs', `module.exports = ${JSON.stringify({
+        schemas: schemaPath,
+        output: join(tempDir, 'generated'),
+        adapter: 'mock',
+        apiPrefix: '/api',
+        adapters: { mock: { fakerSeed: 5 } },
+      })};`);
+    });
+
+    afterAll(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('writes the same dataset on every run', async () => {
+      const first = join(tempDir, 'first.json');
+      const second = join(tempDir, 'second.json');
+
+      await seedScenarioCommand({ scenario: 'shelf', output: first, config: configPath });
+      await seedScenarioCommand({ scenario: 'shelf', output: second, config: configPath });
+
+      const written = JSON.parse(await readFile(first, 'utf-8'));
+      expect(written.scenario).toBe('shelf');
+      expect(written.seed).toBe(5);
+      expect(written.data.author).toHaveLength(2);
+      expect(written.data.book.every((book: { authorId: string }) =>
+        written.data.author.some((author: { id: string }) => author.id === book.authorId)
+      )).toBe(true);
+      expect(await readFile(second, 'utf-8')).toBe(await readFile(first, 'utf-8'));
+    });
+
+    it('lists scenarios and rejects unknown names', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      try {
+        await seedScenarioCommand({ config: configPath });
+        expect(log).toHaveBeenCalledWith('   shelf - Two authors with books');
+      } finally {
+        log.mockRestore();
+      }
+
+      await expect(seedScenarioCommand({ scenario: 'library', config: configPath })).rejects.toThrow(
+        'Unknown scenario "library". Available scenarios: shelf'
+      );
+    });
+
+    it('creates records through an API, remapping foreign keys to returned ids', async () => {
+      const requests: Array<{ url: string; body: Record<string, unknown> }> = [];
+      let next = 0;
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+        const body = JSON.parse(String(init?.body));
+        requests.push({ url: String(url), body });
+        return new Response(JSON.stringify({ data: { ...body, id: `server-${next++}` } }), { status: 201 });
+      });
+
+      try {
+        await seedScenarioCommand({ scenario: 'shelf', url: 'http://localhost:3000/', config: configPath });
+      } finally {
+        fetchMock.mockRestore();
+      }
+
+      expect(requests.slice(0, 2).map((request) => request.url)).toEqual([
+        'http://localhost:3000/api/authors',
+        'http://localhost:3000/api/authors',
+      ]);
+      const books = requests.slice(2);
+      expect(books.length).toBeGreaterThan(0);
+      expect(books.every((request) => request.url === 'http://localhost:3000/api/books')).toBe(true);
+      expect(books.every((request) => ['server-0', 'server-1'].includes(request.body.authorId as string))).toBe(true);
+      expect(requests.every((request) => !('id' in request.body))).toBe(true);
+    });
+  });
+});
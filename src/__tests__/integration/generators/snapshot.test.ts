@@ -0,0 +1,192 @@
+/**
+ * Integration tests for snapshots in the generated mock database and the snapshot commands
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { generateMockDb } from '../../../cli/generators/mock/db';
+import { generateMockAdapter } from '../../../cli/generators/mock/adapter';
+import { saveSnapshotCommand, restoreSnapshotCommand } from '../../../cli/commands/snapshot';
+import { analyzeTestSchemas, createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
+import { assertCodeContains, assertCodeDoesNotContain, checkTypeScriptCompiles } from '../utils/compile-checker';
+import { schemas as blogSchemas } from '../fixtures/schemas/blog.schema';
+
+describe('Snapshots', () => {
+  const analyzed = analyzeTestSchemas(blogSchemas);
+
+  describe('generated mock database', () => {
+    it('exports and imports snapshots of every model', () => {
+      const code = generateMockDb(analyzed, {});
+
+      assertCodeContains(code, [
+        "import { createSnapshot, restoreSnapshot } from 'schemock/adapters';",
+        'export function exportSnapshot(): Snapshot {',
+        "'post': models.post.getAll(),",
+        'export function importSnapshot(snapshot: Snapshot | string, options?: ImportSnapshotOptions): SnapshotImportResult {',
+        '// eslint-disable-next-line @typescript-eslint/no-explicit-any',
+        "for (const record of data['post'] ?? []) models.post.create(record as any);",
+        'pendingChanges = outerChanges;',
+        'saveToStorage();',
+      ]);
+    });
+
+    it('skips the localStorage save without persistence', () => {
+      const code = generateMockDb(analyzed, { persistence: 'memory' });
+
+      assertCodeContains(code, ['export function importSnapshot(']);
+      assertCodeDoesNotContain(code, ['saveToStorage();']);
+    });
+
+    it('generates snapshot helpers that compile against @mswjs/data records', async () => {
+      const dir = await createTempDir('snapshot-db-compile-');
+      try {
+        const dbPath = await writeGeneratedFile(dir, 'db.ts', generateMockDb(analyzed, {}));
+
+        const result = await checkTypeScriptCompiles(dbPath);
+
+        expect(result.errors).toBeUndefined();
+        expect(result.success).toBe(true);
+      } finally {
+        await cleanupTempDir(dir);
+      }
+    }, 30000);
+
+    it('delegates the storage driver snapshot methods to db.ts', () => {
+      const code = generateMockAdapter(analyzed);
+
+      assertCodeContains(code, [
+        "import { db, schemas, exportSnapshot, importSnapshot } from './db';",
+        'async exportSnapshot(): Promise<Snapshot> {',
+        'return importSnapshot(snapshot, options);',
+      ]);
+    });
+  });
+
+  describe('snapshot commands', () => {
+    let tempDir: string;
+    let configPath: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('snapshot-command-');
+      const source = [
+        `import { defineData, field, hasMany } from '${resolve('src/schema/index.ts')}';`,
+        `import { defineScenario } from '${resolve('src/seed/index.ts')}';`,
+        "export const Author = defineData('author', { id: field.uuid(), name: field.string(), books: hasMany('book', { foreignKey: 'authorId' }) });",
+        "export const Book = defineData('book', { id: field.uuid(), title: field.string(), pages: field.number().default(100), authorId: field.ref('author') });",
+        "export const shelf = defineScenario('shelf', (s) => { s.create('author', 2).each('books', 2); });",
+      ].join('\n');
+      const schemaPath = await writeGeneratedFile(tempDir, 'library.ts', source);
+      configPath = await writeGeneratedFile(tempDir, 'schemock.config.cjs', `module.exports = ${JSON.stringify({
+        schemas: schemaPath,
+        output: join(tempDir, 'generated'),
+        adapter: 'mock',
+        apiPrefix: '/api',
+      })};`);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(async () => {
+      vi.restoreAllMocks();
+      await cleanupTempDir(tempDir);
+    });
+
+    it('saves a scenario as a snapshot', async () => {
+      const file = join(tempDir, 'shelf.json');
+      await saveSnapshotCommand({ file, scenario: 'shelf', config: configPath });
+
+      const snapshot = JSON.parse(await readFile(file, 'utf-8'));
+      expect(snapshot.format).toBe('schemock-snapshot');
+      expect(snapshot.schemas.book.pages).toBe('number');
+      expect(snapshot.data.author).toHaveLength(2);
+      expect(snapshot.data.book).toHaveLength(4);
+    });
+
+    it('pages through a running API', async () => {
+      const books = Array.from({ length: 150 }, (_, i) => ({ id: `b${i}`, title: `Book ${i}`, pages: 10, authorId: 'a1' }));
+      const urls: string[] = [];
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+        const parsed = new URL(String(url));
+        urls.push(parsed.pathname + parsed.search);
+        const offset = Number(parsed.searchParams.get('offset'));
+        const rows = parsed.pathname.endsWith('/books') ? books.slice(offset, offset + 100) : [{ id: 'a1', name: 'Ada' }];
+        return new Response(JSON.stringify({ data: rows, meta: { total: rows.length } }));
+      });
+
+      const file = join(tempDir, 'api.json');
+      try {
+        await saveSnapshotCommand({ file, url: 'http://localhost:3000', config: configPath });
+      } finally {
+        fetchMock.mockRestore();
+      }
+
+      expect(urls).toEqual([
+        '/api/authors?limit=100&offset=0&withDeleted=true',
+        '/api/books?limit=100&offset=0&withDeleted=true',
+        '/api/books?limit=100&offset=100&withDeleted=true',
+      ]);
+      const snapshot = JSON.parse(await readFile(file, 'utf-8'));
+      expect(snapshot.data.book).toHaveLength(150);
+    });
+
+    it('migrates an old snapshot and writes it', async () => {
+      const file = join(tempDir, 'old.json');
+      const output = join(tempDir, 'migrated.json');
+      await writeFile(file, JSON.stringify({
+        format: 'schemock-snapshot',
+        version: 1,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        schemaVersion: 'abcd1234',
+        schemas: { writer: { id: 'uuid', fullName: 'string' }, book: { id: 'uuid', title: 'string', authorId: 'ref' } },
+        data: {
+          writer: [{ id: 'a1', fullName: 'Ada' }],
+          book: [{ id: 'b1', title: 'Notes', authorId: 'a1' }],
+        },
+      }));
+
+      await restoreSnapshotCommand({ file, output, rename: ['writer=author', 'writer.fullName=name'], config: configPath });
+
+      const migrated = JSON.parse(await readFile(output, 'utf-8'));
+      expect(migrated.data.author).toEqual([expect.objectContaining({ id: 'a1', name: 'Ada' })]);
+      expect(migrated.data.book).toEqual([expect.objectContaining({ id: 'b1', title: 'Notes', pages: 100 })]);
+      expect(console.log).toHaveBeenCalledWith('   renamed author.fullName to name');
+      expect(console.log).toHaveBeenCalledWith('   added book.pages (default 100)');
+    });
+
+    it('restores through an API, creating referenced entities first', async () => {
+      const file = join(tempDir, 'children-first.json');
+      await writeFile(file, JSON.stringify({
+        data: {
+          book: [{ id: 'b1', title: 'Notes', pages: 5, authorId: 'a1' }],
+          author: [{ id: 'a1', name: 'Ada' }],
+        },
+      }));
+      const requests: Array<{ url: string; body: Record<string, unknown> }> = [];
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+        const body = JSON.parse(String(init?.body));
+        requests.push({ url: String(url), body });
+        return new Response(JSON.stringify({ data: { ...body, id: `server-${requests.length}` } }), { status: 201 });
+      });
+
+      try {
+        await restoreSnapshotCommand({ file, url: 'http://localhost:3000', config: configPath });
+      } finally {
+        fetchMock.mockRestore();
+      }
+
+      expect(requests.map((request) => request.url)).toEqual([
+        'http://localhost:3000/api/authors',
+        'http://localhost:3000/api/books',
+      ]);
+      expect(requests[1].body).toMatchObject({ title: 'Notes', authorId: 'server-1' });
+    });
+
+    it('rejects snapshots that do not fit the schemas', async () => {
+      const file = join(tempDir, 'broken.json');
+      await writeFile(file, JSON.stringify({ data: { book: [{ id: 'b1', title: 'Notes', authorId: 'a1', pages: 'many' }] } }));
+
+      await expect(restoreSnapshotCommand({ file, config: configPath })).rejects.toThrow(
+        'book[0].pages is "many", which is not a number'
+      );
+    });
+  });
+});
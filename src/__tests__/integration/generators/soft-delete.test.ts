@@ -0,0 +1,104 @@
+/**
+ * Integration tests for soft delete across the SQL, mock, node-handlers,
+ * Hono and PGlite generators
+ */
+import { describe, it, expect } from 'vitest';
+import { generateTables } from '../../../cli/generators/sql';
+import { generateIndexes } from '../../../cli/generators/sql/indexes';
+import { generateMockDb } from '../../../cli/generators/mock/db';
+import { generateMockClient } from '../../../cli/generators/mock/client';
+import { generateHandlerFile } from '../../../cli/generators/node-handlers/handler-template';
+import { generateRouterFile } from '../../../cli/generators/node-handlers/router-template';
+import { generateHonoRouteFile } from '../../../cli/generators/hono/route-template';
+import { generatePGliteClient } from '../../../cli/generators/pglite/client';
+import { defineData, field, hasMany } from '../../../schema';
+import { analyzeTestSchemas, createTestConfig } from '../utils/test-helpers';
+import { assertCodeContains } from '../utils/compile-checker';
+import type { GenerationTarget } from '../../../cli/types';
+
+const Author = defineData('author', {
+  id: field.uuid(),
+  name: field.string(),
+  posts: hasMany('post', { foreignKey: 'authorId' }),
+});
+
+const Post = defineData(
+  'post',
+  {
+    id: field.uuid(),
+    slug: field.string().unique(),
+    authorId: field.uuid(),
+  },
+  { softDelete: true }
+);
+
+const target: GenerationTarget = {
+  name: 'api',
+  type: 'node-handlers',
+  output: './src/generated/api',
+  backend: 'pglite',
+};
+
+describe('Soft Delete Integration', () => {
+  const analyzed = analyzeTestSchemas([Author, Post]);
+  const post = analyzed.find((s) => s.name === 'post')!;
+
+  it('adds a nullable deletedAt column and scopes unique indexes to live rows', () => {
+    const tables = generateTables(analyzed);
+    const indexes = generateIndexes(analyzed);
+
+    assertCodeContains(tables, ['"deletedAt" TIMESTAMPTZ,', '"slug" VARCHAR(255) NOT NULL,']);
+    assertCodeContains(indexes, [
+      'CREATE UNIQUE INDEX IF NOT EXISTS "idx_posts_slug_unique" ON "posts" ("slug") WHERE "deletedAt" IS NULL;',
+    ]);
+  });
+
+  it('creates live mock records and hides deleted ones in the mock client', () => {
+    const db = generateMockDb(analyzed, { persistence: 'memory' });
+    const client = generateMockClient(analyzed);
+
+    assertCodeContains(db, ['deletedAt: nullable<Date>(() => null),']);
+    assertCodeContains(client, [
+      'restore: (id: string) => Promise<Types.ItemResponse<Types.Post>>;',
+      'purge: (id: string) => Promise<void>;',
+      "data: { deletedAt: new Date() } as any",
+      '.filter(row => row.deletedAt == null)',
+    ]);
+  });
+
+  it('generates restore and purge handlers and routes', () => {
+    const handlers = generateHandlerFile(post, target, createTestConfig());
+    const router = generateRouterFile(analyzed, target, createTestConfig());
+
+    assertCodeContains(handlers, [
+      "const purge = req.query.purge === 'true';",
+      'UPDATE posts SET "deletedAt" = NOW() WHERE id = $1 AND "deletedAt" IS NULL',
+      'export async function restore(',
+    ]);
+    assertCodeContains(router, ["router.post('/posts/:id/restore', postsHandlers.restore);"]);
+  });
+
+  it('adds a restore route to Hono', () => {
+    const code = generateHonoRouteFile(post, { ...target, type: 'hono' }, createTestConfig());
+
+    assertCodeContains(code, [".post('/:id/restore', async (c) => {", "c.req.query('purge') === 'true'"]);
+  });
+
+  it('soft deletes and skips deleted relations in the PGlite client', () => {
+    const code = generatePGliteClient(analyzed);
+
+    assertCodeContains(code, [
+      'UPDATE "posts" SET "deletedAt" = NOW() WHERE "id" = $1 AND "deletedAt" IS NULL RETURNING "id"',
+      'UPDATE "posts" SET "deletedAt" = NULL WHERE "id" = $1 AND "deletedAt" IS NOT NULL RETURNING *',
+      'SELECT * FROM "posts" WHERE "authorId" = $1 AND "deletedAt" IS NULL',
+    ]);
+  });
+
+  it('leaves entities without softDelete untouched', () => {
+    const author = analyzed.find((s) => s.name === 'author')!;
+    const handlers = generateHandlerFile(author, target, createTestConfig());
+
+    expect(handlers).not.toContain('deletedAt');
+    expect(handlers).not.toContain('export async function restore(');
+  });
+});
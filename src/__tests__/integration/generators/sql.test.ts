@@ -116,7 +116,7 @@ describe('SQL Generator Integration', () => {
       const sql = generateIndexes(analyzed);
 
       // Product has indexes config - should be reflected
-      expect(typeof sql).toBe('string');
+      expect(sql).toContain('"idx_products_tenantId_categoryId" ON "products" ("tenantId", "categoryId")');
     });
 
     it('handles schemas without explicit indexes', () => {
@@ -172,7 +172,7 @@ describe('SQL Generator Integration', () => {
       const sql = generateFunctions(analyzed);
 
       // Ecommerce has RPC config on Product
-      expect(typeof sql).toBe('string');
+      expect(sql).toContain('CREATE OR REPLACE FUNCTION get_top_sellers(');
     });
 
     it('handles schemas without rpc config', () => {
@@ -219,4 +219,34 @@ describe('SQL Generator Integration', () => {
       expect(result.summary.tables).toBe(0);
     });
   });
+
+  describe('generateSQL (audit)', () => {
+    it('omits the audit table unless requested', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const result = generateSQL(analyzed, { combined: false });
+
+      expect(result.files!.audit).toBe('');
+    });
+
+    it('adds the append-only audit_events table with --audit', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const result = generateSQL(analyzed, { combined: true, audit: true });
+
+      assertCodeContains(result.combined!, [
+        'CREATE TABLE IF NOT EXISTS "audit_events" (',
+        '"diff" JSONB',
+        'CREATE INDEX IF NOT EXISTS "idx_audit_events_timestamp"',
+        'BEFORE UPDATE OR DELETE ON "audit_events"',
+      ]);
+      assertCodeDoesNotContain(result.combined!, ['ALTER TABLE "audit_events" ENABLE ROW LEVEL SECURITY']);
+    });
+
+    it('locks the audit table behind RLS on Supabase', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const result = generateSQL(analyzed, { target: 'supabase', only: ['audit'] });
+
+      expect(result.files!.tables).toBe('');
+      expect(result.files!.audit).toContain('ALTER TABLE "audit_events" ENABLE ROW LEVEL SECURITY;');
+    });
+  });
 });
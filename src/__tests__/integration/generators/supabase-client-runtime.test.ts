@@ -753,8 +753,7 @@ describe('Supabase Client Runtime Tests', () => {
           await client.posts.create({
             title: 'New Post',
             content: 'Content',
-            // @ts-expect-error - author is a nested create
-            author: { name: 'New Author', email: 'author@test.com', role: 'author' },
+            author: { create: { name: 'New Author', email: 'author@test.com', role: 'author' } },
           });
         } catch {
           // May throw due to mock limitations, but we can still verify calls
@@ -11,6 +11,7 @@ import {
 } from '../utils/test-helpers';
 import { assertCodeContains } from '../utils/compile-checker';
 import type { SupabaseAdapterConfig } from '../../../cli/types';
+import { defineData, field } from '../../../schema';
 
 describe('Supabase Client Generator Integration', () => {
   let tempDir: string;
@@ -302,4 +303,60 @@ describe('Supabase Client Generator Integration', () => {
       ]);
     });
   });
+
+  describe('Filtering', () => {
+    it('translates where clauses into PostgREST logic trees', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateSupabaseClient(analyzed, {});
+
+      assertCodeContains(code, [
+        'function buildPostgrestFilters(where: Record<string, unknown>): string[]',
+        'for (const condition of buildPostgrestFilters(options.where)) {',
+        'query = query.or(condition);',
+        "const like = insensitive ? 'ilike' : 'like';",
+        'throw new InvalidFilterError(`Unknown filter operator: ${op}`)',
+        'if (error instanceof InvalidFilterError) {',
+      ]);
+    });
+  });
+
+  describe('Realtime Subscriptions', () => {
+    it('subscribes through Realtime postgres_changes channels', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateSupabaseClient(analyzed, {});
+
+      assertCodeContains(code, [
+        'function buildRealtimeFilter(where: Record<string, unknown>): string | undefined {',
+        "subscribeToTable<Types.User>('user', 'users', where, callback),",
+        "'postgres_changes', { event: '*', schema: 'public', table, filter }",
+        'supabase.removeChannel(channel)',
+      ]);
+    });
+  });
+
+  describe('Cursor Pagination', () => {
+    it('generates keyset list query for cursor-paginated entities', () => {
+      const analyzed = analyzeTestSchemas([
+        defineData('event', { id: field.uuid(), title: field.string() }, {
+          api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } },
+        }),
+      ]);
+      const code = generateSupabaseClient(analyzed, {});
+
+      assertCodeContains(code, [
+        'const limit = options?.limit ?? 10;',
+        'query = query.order(field, { ascending, nullsFirst: !ascending });',
+        'query = query.or(buildCursorFilter(keys, cursor));',
+        'query = query.limit(limit + 1);',
+        'const page = toCursorPage(',
+      ]);
+    });
+
+    it('keeps range pagination for offset-paginated entities', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateSupabaseClient(analyzed, {});
+
+      expect(code).not.toContain('buildCursorFilter');
+    });
+  });
 });
@@ -0,0 +1,106 @@
+/**
+ * Integration tests for Svelte Query stores generator
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateSvelteStores } from '../../../cli/generators/svelte-stores';
+import { generateSvelteContext } from '../../../cli/generators/svelte-context';
+import { schemas as blogSchemas } from '../fixtures/schemas/blog.schema';
+import { generatePGliteClient, generatePGliteDb } from '../../../cli/generators/pglite';
+import { generateTypes } from '../../../cli/generators/types';
+import { analyzeTestSchemas, createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
+import { assertCodeContains, checkTypeScriptCompiles } from '../utils/compile-checker';
+import { defineData, field } from '../../../schema';
+
+describe('Svelte Stores Generator Integration', () => {
+  it('generates Svelte Query imports', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateSvelteStores(analyzed);
+
+    assertCodeContains(code, [
+      "from '@tanstack/svelte-query';",
+      "import { derived, readable, type Readable } from 'svelte/store';",
+      "import { getSchemockClient } from './context';",
+    ]);
+    expect(code).not.toContain('@tanstack/react-query');
+  });
+
+  it('generates query and mutation stores for each schema', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateSvelteStores(analyzed);
+
+    assertCodeContains(code, [
+      'export function createUsersQuery(',
+      'export function createUserQuery(',
+      'export function createCreateUserMutation(',
+      'export function createUpdateUserMutation(',
+      'export function createDeleteUserMutation(',
+      'export function createPostsQuery(',
+    ]);
+  });
+
+  it('uses the same query keys and invalidation as the React hooks', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateSvelteStores(analyzed);
+
+    assertCodeContains(code, [
+      "queryKey: ['users', $options],",
+      "queryKey: ['users', $id, $options?.include],",
+      "queryClient.invalidateQueries({ queryKey: ['users'] });",
+      "queryClient.invalidateQueries({ queryKey: ['users', id] });",
+    ]);
+  });
+
+  it('generates infinite query stores for cursor-paginated entities', () => {
+    const analyzed = analyzeTestSchemas([
+      defineData('event', { id: field.uuid(), title: field.string() }, {
+        api: { basePath: '/api/events', pagination: { style: 'cursor' } },
+      }),
+    ]);
+    const code = generateSvelteStores(analyzed);
+
+    assertCodeContains(code, [
+      'export function createInfiniteEventsQuery(',
+      "queryKey: ['events', 'infinite', $options],",
+    ]);
+  });
+
+  it('generates context helpers for the API client', () => {
+    const code = generateSvelteContext();
+
+    assertCodeContains(code, [
+      'export function setSchemockClient(client: ApiClient): ApiClient {',
+      'return getContext<ApiClient | undefined>(SCHEMOCK_CLIENT_KEY) ?? defaultApi;',
+    ]);
+  });
+
+  describe('Generated Code Compilation', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('svelte-compile-');
+    });
+
+    afterAll(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('stores compile against the pglite client', async () => {
+      const analyzed = analyzeTestSchemas([
+        ...blogSchemas,
+        defineData('event', { id: field.uuid(), title: field.string() }, {
+          api: { basePath: '/api/events', pagination: { style: 'cursor' } },
+        }),
+      ]);
+      const typesPath = await writeGeneratedFile(tempDir, 'types.ts', generateTypes(analyzed));
+      const dbPath = await writeGeneratedFile(tempDir, 'db.ts', generatePGliteDb(analyzed, { persistence: 'memory' }));
+      const clientPath = await writeGeneratedFile(tempDir, 'client.ts', generatePGliteClient(analyzed));
+      const contextPath = await writeGeneratedFile(tempDir, 'context.ts', generateSvelteContext());
+      const storesPath = await writeGeneratedFile(tempDir, 'stores.ts', generateSvelteStores(analyzed));
+
+      const result = await checkTypeScriptCompiles(storesPath, [typesPath, dbPath, clientPath, contextPath]);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+    }, 60000);
+  });
+});
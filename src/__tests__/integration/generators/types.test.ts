@@ -53,6 +53,20 @@ describe('Types Generator Integration', () => {
       ]);
     });
 
+    it('generates filter types with boolean groups and rich operators', () => {
+      const analyzed = analyzeTestSchemas(blogSchemas);
+      const code = generateTypes(analyzed);
+
+      assertCodeContains(code, [
+        'AND?: UserFilter | UserFilter[];',
+        'OR?: UserFilter[];',
+        'NOT?: UserFilter | UserFilter[];',
+        "mode?: 'default' | 'insensitive';",
+        'has?: T extends (infer U)[] ? U : never;',
+        'hasEvery?: T extends (infer U)[] ? U[] : never;',
+      ]);
+    });
+
     it('generates Create and Update types', () => {
       const analyzed = analyzeTestSchemas(blogSchemas);
       const code = generateTypes(analyzed);
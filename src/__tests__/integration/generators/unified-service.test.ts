@@ -33,9 +33,29 @@ describe('Service Generator', () => {
     author: belongsTo('user', { foreignKey: 'authorId' }),
   });
 
+  const eventSchema = defineData('event', {
+    id: field.uuid(),
+    title: field.string(),
+    startsAt: field.date(),
+  }, {
+    api: { basePath: '/api/events', pagination: { style: 'cursor', defaultLimit: 10 } },
+  });
+
+  const noteSchema = defineData('note', {
+    id: field.uuid(),
+    body: field.string(),
+  }, {
+    softDelete: true,
+    versioned: true,
+  });
+
   const schemas = analyzeSchemas([userSchema, postSchema], { apiPrefix: '/api' });
   const userSchemaAnalyzed = schemas.find(s => s.name === 'user')!;
   const postSchemaAnalyzed = schemas.find(s => s.name === 'post')!;
+  const cursorSchemas = analyzeSchemas([eventSchema], { apiPrefix: '/api' });
+  const eventSchemaAnalyzed = cursorSchemas[0];
+  const noteSchemas = analyzeSchemas([noteSchema], { apiPrefix: '/api' });
+  const noteSchemaAnalyzed = noteSchemas[0];
 
   describe('generateEntityService', () => {
     describe('basic structure', () => {
@@ -144,6 +164,93 @@ describe('Service Generator', () => {
       });
     });
 
+    describe('count method', () => {
+      it('should count with the same RLS scope as list', () => {
+        const code = generateEntityService(userSchemaAnalyzed, schemas);
+
+        expect(code).toContain('async count(ctx: MiddlewareContext, filter?: UserFilter): Promise<number>');
+        expect(code).toContain('const where = { ...rlsFilter, ...filter };');
+        expect(code).toContain('return db.user.count({ where });');
+      });
+    });
+
+    describe('listPage method', () => {
+      it('should generate keyset pagination for cursor-paginated entities', () => {
+        const code = generateEntityService(eventSchemaAnalyzed, cursorSchemas);
+
+        expect(code).toContain('async listPage(ctx: MiddlewareContext, options?: QueryOptions<EventFilter>): Promise<ListResponse<Event>>');
+        expect(code).toContain('const limit = options?.limit ?? 10;');
+        expect(code).toContain('where: cursor ? { AND: [where, buildCursorWhere(keys, cursor)] } : where,');
+        expect(code).toContain('take: limit + 1,');
+        expect(code).toContain('toCursorPage(');
+      });
+
+      it('should not generate listPage for offset-paginated entities', () => {
+        const code = generateEntityService(postSchemaAnalyzed, schemas);
+
+        expect(code).not.toContain('listPage');
+        expect(code).not.toContain('decodeCursor');
+      });
+    });
+
+    describe('soft delete', () => {
+      it('should scope list and count to live rows unless withDeleted/onlyDeleted is passed', () => {
+        const code = generateEntityService(noteSchemaAnalyzed, noteSchemas);
+
+        expect(code).toContain("const deletedScope = options?.onlyDeleted ? 'deleted' : options?.withDeleted ? 'all' : 'live';");
+        expect(code).toContain('const where = { ...options?.where, ...deletedFilter };');
+        expect(code).toContain("async count(ctx: MiddlewareContext, filter?: NoteFilter, options?: Pick<QueryOptions<NoteFilter>, 'withDeleted' | 'onlyDeleted'>)");
+        expect(code).toContain('const where = { ...filter, ...deletedFilter };');
+      });
+
+      it('should treat soft-deleted rows as not found in get', () => {
+        const code = generateEntityService(noteSchemaAnalyzed, noteSchemas);
+
+        expect(code).toContain("const inScope = deletedScope === 'all' || (deletedScope === 'deleted') === (record.deletedAt != null);");
+      });
+
+      it('should set deletedAt on delete, remove on purge and clear it on restore', () => {
+        const code = generateEntityService(noteSchemaAnalyzed, noteSchemas);
+
+        expect(code).toContain('async delete(ctx: MiddlewareContext, id: string, options?: { purge?: boolean }): Promise<void>');
+        expect(code).toContain('await db.note.update({ where: { id }, data: { deletedAt: new Date() } });');
+        expect(code).toContain('await db.note.delete({ where: { id } });');
+        expect(code).toContain('async restore(ctx: MiddlewareContext, id: string): Promise<Note>');
+        expect(code).toContain('return db.note.update({ where: { id }, data: { deletedAt: null } });');
+      });
+
+      it('should not scope entities without soft delete', () => {
+        const code = generateEntityService(postSchemaAnalyzed, schemas);
+
+        expect(code).not.toContain('deletedScope');
+        expect(code).not.toContain('async restore(');
+      });
+    });
+
+    describe('versioning', () => {
+      it('should reject stale expected versions with a 409 ConflictError', () => {
+        const code = generateEntityService(noteSchemaAnalyzed, noteSchemas);
+
+        expect(code).toContain('export class ConflictError<T = unknown> extends Error {');
+        expect(code).toContain('readonly status = 409;');
+        expect(code).toContain('async update(ctx: MiddlewareContext, id: string, data: NoteUpdate, options?: { expectedVersion?: number }): Promise<Note>');
+        expect(code).toContain("throw new ConflictError('Note', existing, options.expectedVersion);");
+      });
+
+      it('should increment the version on update', () => {
+        const code = generateEntityService(noteSchemaAnalyzed, noteSchemas);
+
+        expect(code).toContain('where: { id, version: existing.version },');
+        expect(code).toContain('version: existing.version + 1,');
+      });
+
+      it('should not add a ConflictError to unversioned entities', () => {
+        const code = generateEntityService(postSchemaAnalyzed, schemas);
+
+        expect(code).not.toContain('ConflictError');
+      });
+    });
+
     describe('get method', () => {
       it('should throw NotFoundError when record not found', () => {
         const code = generateEntityService(userSchemaAnalyzed, schemas);
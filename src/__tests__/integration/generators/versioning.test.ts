@@ -0,0 +1,122 @@
+/**
+ * Integration tests for optimistic concurrency across the SQL, mock,
+ * node-handlers, Next.js, Supabase Edge and hooks generators
+ */
+import { describe, it, expect } from 'vitest';
+import { generateTables } from '../../../cli/generators/sql';
+import { generateMockClient } from '../../../cli/generators/mock/client';
+import { generateMockHandlers } from '../../../cli/generators/mock/handlers';
+import { generateHandlerFile } from '../../../cli/generators/node-handlers/handler-template';
+import { generateDynamicRouteFile } from '../../../cli/generators/nextjs-api/route-template';
+import { generateEdgeFunctionFile } from '../../../cli/generators/supabase-edge/function-template';
+import { generatePGliteClient } from '../../../cli/generators/pglite/client';
+import { generateHooks } from '../../../cli/generators/hooks';
+import { defineData, field } from '../../../schema';
+import { analyzeTestSchemas, createTestConfig } from '../utils/test-helpers';
+import { assertCodeContains } from '../utils/compile-checker';
+import type { GenerationTarget } from '../../../cli/types';
+
+const Doc = defineData(
+  'doc',
+  {
+    id: field.uuid(),
+    title: field.string(),
+  },
+  { versioned: true }
+);
+
+const Tag = defineData('tag', {
+  id: field.uuid(),
+  label: field.string(),
+});
+
+const target: GenerationTarget = {
+  name: 'api',
+  type: 'node-handlers',
+  output: './src/generated/api',
+  backend: 'pglite',
+};
+
+describe('Versioning Integration', () => {
+  const analyzed = analyzeTestSchemas([Doc, Tag]);
+  const doc = analyzed.find((s) => s.name === 'doc')!;
+  const tag = analyzed.find((s) => s.name === 'tag')!;
+
+  it('adds a version column defaulting to 1', () => {
+    const tables = generateTables(analyzed);
+
+    assertCodeContains(tables, ['"version" INTEGER NOT NULL DEFAULT 1']);
+  });
+
+  it('checks expectedVersion and throws ConflictError in the mock client', () => {
+    const client = generateMockClient(analyzed);
+
+    assertCodeContains(client, [
+      'export class ConflictError<T = unknown> extends ApiError {',
+      'update: (id: string, input: Types.DocUpdate, options?: { expectedVersion?: number }) => Promise<Types.ItemResponse<Types.Doc>>;',
+      'options?.expectedVersion !== undefined && existing.version !== options.expectedVersion',
+      'version: (existing.version as number) + 1',
+    ]);
+    assertCodeContains(client, ['update: (id: string, input: Types.TagUpdate) => Promise<Types.ItemResponse<Types.Tag>>;']);
+  });
+
+  it('requires If-Match and answers 409 in mock handlers', () => {
+    const handlers = generateMockHandlers(analyzed);
+
+    assertCodeContains(handlers, [
+      "const expectedVersion = parseIfMatch(request.headers.get('If-Match'));",
+      '{ status: 428 }',
+      "return HttpResponse.json({ error: 'Version conflict', code: 'CONFLICT', current: error.current }, { status: 409 });",
+    ]);
+  });
+
+  it('uses a compare-and-swap update in the PGlite client', () => {
+    const code = generatePGliteClient(analyzed);
+
+    assertCodeContains(code, ['"version" = "version" + 1', 'options?.expectedVersion ?? null']);
+  });
+
+  it('generates If-Match checks in node handlers', () => {
+    const handlers = generateHandlerFile(doc, target, createTestConfig());
+
+    assertCodeContains(handlers, [
+      "const expectedVersion = parseIfMatch(req.headers['if-match']);",
+      'res.status(428).json(',
+      'version = version + 1 WHERE id = $${values.length + 1} AND version = $${values.length + 2} RETURNING *',
+      "res.status(409).json({ error: 'Version conflict', code: 'CONFLICT', current: current.rows[0] });",
+    ]);
+  });
+
+  it('generates If-Match checks in Next.js and Supabase Edge routes', () => {
+    const route = generateDynamicRouteFile(doc, { ...target, type: 'nextjs-api', backend: 'supabase' }, createTestConfig());
+    const edge = generateEdgeFunctionFile(doc, { ...target, type: 'supabase-edge' }, createTestConfig());
+
+    assertCodeContains(route, [
+      "const expectedVersion = parseIfMatch(request.headers.get('If-Match'));",
+      ".eq('version', expectedVersion)",
+      "return NextResponse.json({ error: 'Version conflict', code: 'CONFLICT', current }, { status: 409 });",
+    ]);
+    assertCodeContains(edge, [
+      '.update({ ...body, version: expectedVersion + 1 })',
+      "return jsonResponse({ error: 'Version conflict', code: 'CONFLICT', current }, 409);",
+    ]);
+  });
+
+  it('exposes the conflict from the update hook', () => {
+    const hooks = generateHooks(analyzed);
+
+    assertCodeContains(hooks, [
+      'function isConflict<T>(error: unknown): error is Error & { status: 409; current: T } {',
+      'api.doc.update(id, data, { expectedVersion }),',
+      'const conflict = isConflict<Types.Doc>(mutation.error) ? mutation.error.current : undefined;',
+      'api.tag.update(id, data),',
+    ]);
+  });
+
+  it('leaves entities without versioned untouched', () => {
+    const handlers = generateHandlerFile(tag, target, createTestConfig());
+
+    expect(handlers).not.toContain('parseIfMatch');
+    expect(handlers).not.toContain('version');
+  });
+});
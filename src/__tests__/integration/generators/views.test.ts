@@ -0,0 +1,270 @@
+/**
+ * Integration tests for view generators (types, client, MSW handlers,
+ * server resolvers and hooks)
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { generateViewHandlers } from '../../../cli/generators/mock/views';
+import { generateAllHandlersExport } from '../../../cli/generators/mock/handlers';
+import { generateViewClient, generateViewTypes, filterViewsForSchemas } from '../../../cli/generators/views';
+import { generateViewResolvers } from '../../../cli/generators/shared/views';
+import { generateViewHandlerFile } from '../../../cli/generators/node-handlers/view-handler-template';
+import { generateRouterFile } from '../../../cli/generators/node-handlers/router-template';
+import { generateViewRouteFile } from '../../../cli/generators/nextjs-api/view-route-template';
+import { generateViewEdgeFunction } from '../../../cli/generators/supabase-edge/view-function-template';
+import { generateEdgeViewRouteFile } from '../../../cli/generators/nextjs-edge/view-route-template';
+import { generateHonoViewRouteFile } from '../../../cli/generators/hono/view-route-template';
+import { generateNextjsApiTarget } from '../../../cli/generators/nextjs-api';
+import { generateNextjsEdgeTarget } from '../../../cli/generators/nextjs-edge';
+import { generateHonoTarget } from '../../../cli/generators/hono';
+import { generateHooks } from '../../../cli/generators/hooks';
+import { analyzeViews } from '../../../cli/analyze-views';
+import { schemas as blogSchemas, User, Post, UserProfile } from '../fixtures/schemas/blog.schema';
+import { defineView, embed, pick, field } from '../../../schema';
+import {
+  createTempDir,
+  cleanupTempDir,
+  analyzeTestSchemas,
+  createTestConfig,
+  getProjectPath,
+} from '../utils/test-helpers';
+import { assertCodeContains, assertCodeDoesNotContain, checkTypeScriptCompiles } from '../utils/compile-checker';
+import type { AnalyzedSchema, AnalyzedEndpoint, AnalyzedView, GenerationTarget, SchemockConfig, GenerateOptions, AnalyzedMiddleware } from '../../../cli/types';
+
+const UserFullView = defineView('user-full', {
+  ...pick(User, ['id', 'name', 'email']),
+  profile: embed(UserProfile),
+  recentPosts: embed(Post, { limit: 5, orderBy: { createdAt: 'desc' }, select: ['id', 'title'] }),
+  stats: {
+    postCount: field.computed({
+      mock: () => 3,
+      resolve: (_data, db, ctx) => db.post.count({ where: { authorId: { equals: ctx.params.id } } }),
+    }),
+  },
+}, {
+  endpoint: '/api/users/:id/full',
+  params: ['id'],
+});
+
+describe('View Generators Integration', () => {
+  let tempDir: string;
+  const analyzed = analyzeTestSchemas(blogSchemas);
+  const views = analyzeViews([UserFullView], analyzed);
+
+  beforeAll(async () => {
+    tempDir = await createTempDir('views-test-');
+  });
+
+  afterAll(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  it('generates params and response types', () => {
+    const code = generateViewTypes(views);
+
+    assertCodeContains(code, [
+      'export interface UserFullViewParams {',
+      'id: string;',
+      'export interface UserFullView {',
+      "name: User['name'];",
+      'profile: Userprofile | null;',
+      "recentPosts: Array<Pick<Post, 'id' | 'title'>>;",
+      'stats: {',
+      'postCount: number;',
+    ]);
+  });
+
+  it('generates a fetch client with path params filled in', () => {
+    const code = generateViewClient(views);
+
+    assertCodeContains(code, [
+      'export const views = {',
+      'userFull: (params: Types.UserFullViewParams): Promise<Types.UserFullView> =>',
+      'fetchView(`/api/users/${encodeURIComponent(params.id)}/full`)',
+    ]);
+  });
+
+  it('generates MSW handlers honoring embed limit, orderBy and select', () => {
+    const code = generateViewHandlers(views);
+
+    assertCodeContains(code, [
+      "const root = db.user.findFirst({ where: { id: { equals: params.id } } });",
+      "view.recentPosts = db.post.findMany({ where: { authorId: { equals: root.id as string } }, orderBy: { createdAt: 'desc' }, take: 5 })",
+      ".map((record) => pickFields(record, ['id', 'title']))",
+      'view.profile = db.userProfile.findFirst({ where: { userId: { equals: root.id as string } } });',
+      'viewStats.postCount = await userFullStatsPostCount(view, db, ctx);',
+      "http.get('/api/users/:id/full'",
+      "{ error: 'User not found' }, { status: 404 }",
+      'export const viewHandlers = [',
+    ]);
+  });
+
+  it('adds view handlers to the combined handlers export', () => {
+    const code = generateAllHandlersExport(false, true);
+
+    assertCodeContains(code, [
+      "import { viewHandlers } from './view-handlers';",
+      'export const allHandlers = [...handlers, ...viewHandlers];',
+    ]);
+  });
+
+  it('generates Supabase and PGlite resolvers', () => {
+    const supabase = generateViewResolvers(views, { backend: 'supabase', dbImport: './db', typesImport: './types' });
+    const pglite = generateViewResolvers(views, { backend: 'pglite', dbImport: './db', typesImport: './types' });
+
+    assertCodeContains(supabase, [
+      "import { supabase } from './db';",
+      ".select('id, title')",
+      ".eq('authorId', root.id)",
+      ".order('createdAt', { ascending: false })",
+      '.limit(5);',
+      '.maybeSingle();',
+    ]);
+    assertCodeContains(pglite, [
+      'SELECT "id", "title" FROM posts WHERE "authorId" = $1 ORDER BY "createdAt" DESC LIMIT 5',
+      'view.profile = profileResult.rows[0] ?? null;',
+    ]);
+  });
+
+  it('registers view routes on the node router relative to the API prefix', () => {
+    const target = { name: 'api', type: 'node-handlers' as const, output: tempDir, backend: 'pglite' as const };
+    const handlers = generateViewHandlerFile(views, target);
+    const router = generateRouterFile(analyzed, target, createTestConfig(), [], false, views);
+
+    assertCodeContains(handlers, [
+      "import { resolveUserFullView } from '../views';",
+      'export async function userFull(',
+      'id: req.params.id,',
+    ]);
+    assertCodeContains(router, [
+      "import * as viewHandlers from './handlers/views';",
+      "router.get('/users/:id/full', viewHandlers.userFull);",
+    ]);
+  });
+
+  it('generates 501 stubs for backends without view resolvers', () => {
+    const target = { name: 'api', type: 'node-handlers' as const, output: tempDir, backend: 'firebase' as const };
+    const code = generateViewHandlerFile(views, target);
+
+    assertCodeContains(code, ['res.status(501)']);
+    assertCodeDoesNotContain(code, ["from '../views'"]);
+  });
+
+  it('generates Next.js routes and Supabase Edge functions', () => {
+    const nextjs = generateViewRouteFile(
+      views[0],
+      { name: 'next', type: 'nextjs-api', output: tempDir, backend: 'supabase' },
+      '../../../_lib'
+    );
+    const edge = generateViewEdgeFunction(views[0], createTestConfig());
+
+    assertCodeContains(nextjs, [
+      "import { resolveUserFullView } from '../../../_lib/views';",
+      'params: Promise<{ id: string }>;',
+      'const { id } = await params;',
+    ]);
+    assertCodeContains(edge, [
+      "import { resolveUserFullView } from '../_shared/views.ts';",
+      'id: pathMatch[1],',
+    ]);
+  });
+
+  it('generates Next.js Edge and Hono view routes', () => {
+    const edge = generateEdgeViewRouteFile(
+      views[0],
+      { name: 'edge', type: 'nextjs-edge', output: tempDir, backend: 'supabase' },
+      '../../../_lib'
+    );
+    const neon = generateEdgeViewRouteFile(
+      views[0],
+      { name: 'edge', type: 'nextjs-edge', output: tempDir, backend: 'neon' },
+      '../../../_lib'
+    );
+    const hono = generateHonoViewRouteFile(
+      views,
+      { name: 'hono', type: 'hono', output: tempDir, backend: 'pglite' },
+      createTestConfig()
+    );
+
+    assertCodeContains(edge, [
+      "import { resolveUserFullView } from '../../../_lib/views';",
+      "export const runtime = 'edge';",
+      'export async function GET(_request: Request, { params }: RouteParams) {',
+      'return Response.json(view);',
+    ]);
+    assertCodeContains(neon, ['{ status: 501 }']);
+    assertCodeDoesNotContain(neon, ["from '../../../_lib/views'"]);
+    assertCodeContains(hono, [
+      "import { resolveUserFullView } from '../views';",
+      'export const viewsRoute = new Hono<AppEnv>()',
+      ".get('/users/:id/full', async (c) => {",
+      "id: c.req.param('id'),",
+      "return c.json({ error: 'User not found' }, 404);",
+    ]);
+  });
+
+  it('generates view hooks', () => {
+    const code = generateHooks(analyzed, { views });
+
+    assertCodeContains(code, [
+      "import { views } from './views';",
+      'export function useUserFullView(params: Types.UserFullViewParams, options?: { enabled?: boolean }) {',
+      "useStableQueryKey('views', 'user-full', params)",
+      'queryFn: () => views.userFull(params),',
+    ]);
+  });
+
+  it('drops views whose entities are excluded from a target', () => {
+    const withoutPosts = analyzed.filter((s) => s.name !== 'post');
+
+    expect(filterViewsForSchemas(views, analyzed)).toHaveLength(1);
+    expect(filterViewsForSchemas(views, withoutPosts)).toHaveLength(0);
+  });
+
+  describe('Generated Code Compilation', () => {
+    type ServerTargetGenerator = (
+      allSchemas: AnalyzedSchema[],
+      targetSchemas: AnalyzedSchema[],
+      outputDir: string,
+      target: GenerationTarget,
+      config: SchemockConfig,
+      options: GenerateOptions,
+      customMiddleware: AnalyzedMiddleware[],
+      endpoints: AnalyzedEndpoint[],
+      views: AnalyzedView[]
+    ) => Promise<string[]>;
+
+    async function compileTarget(generate: ServerTargetGenerator, target: GenerationTarget): Promise<void> {
+      // Inside the project so the routes resolve @supabase/supabase-js
+      const cacheDir = getProjectPath('node_modules', '.cache');
+      await mkdir(cacheDir, { recursive: true });
+      const dir = await mkdtemp(join(cacheDir, 'views-'));
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      try {
+        const files = await generate(analyzed, analyzed, dir, { ...target, output: dir }, createTestConfig(), {}, [], [], views);
+        const paths = files.map((file) => join(dir, file));
+        const result = await checkTypeScriptCompiles(paths[0], paths.slice(1));
+
+        expect(result.errors).toBeUndefined();
+        expect(result.success).toBe(true);
+      } finally {
+        log.mockRestore();
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+
+    it('nextjs-api view routes compile', async () => {
+      await compileTarget(generateNextjsApiTarget, { name: 'next', type: 'nextjs-api', output: '', backend: 'supabase' });
+    }, 60000);
+
+    it('nextjs-edge view routes compile', async () => {
+      await compileTarget(generateNextjsEdgeTarget, { name: 'edge', type: 'nextjs-edge', output: '', backend: 'supabase' });
+    }, 60000);
+
+    it('hono view routes compile', async () => {
+      await compileTarget(generateHonoTarget, { name: 'hono', type: 'hono', output: '', backend: 'pglite' });
+    }, 60000);
+  });
+});
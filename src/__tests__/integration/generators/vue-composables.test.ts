@@ -0,0 +1,108 @@
+/**
+ * Integration tests for Vue Query composables generator
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateVueComposables } from '../../../cli/generators/vue-composables';
+import { generateVuePlugin } from '../../../cli/generators/vue-plugin';
+import { schemas as blogSchemas } from '../fixtures/schemas/blog.schema';
+import { generatePGliteClient, generatePGliteDb } from '../../../cli/generators/pglite';
+import { generateTypes } from '../../../cli/generators/types';
+import { analyzeTestSchemas, createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
+import { assertCodeContains, checkTypeScriptCompiles } from '../utils/compile-checker';
+import { defineData, field } from '../../../schema';
+
+describe('Vue Composables Generator Integration', () => {
+  it('generates Vue Query imports', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateVueComposables(analyzed);
+
+    assertCodeContains(code, [
+      "from '@tanstack/vue-query';",
+      "import { computed, toValue, type MaybeRefOrGetter } from 'vue';",
+      "import { useSchemockClient } from './plugin';",
+    ]);
+    expect(code).not.toContain('@tanstack/react-query');
+  });
+
+  it('generates query and mutation composables for each schema', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateVueComposables(analyzed);
+
+    assertCodeContains(code, [
+      'export function useUsers(',
+      'export function useUser(',
+      'export function useCreateUser(',
+      'export function useUpdateUser(',
+      'export function useDeleteUser(',
+      'export function usePosts(',
+    ]);
+  });
+
+  it('uses the same query keys and invalidation as the React hooks', () => {
+    const analyzed = analyzeTestSchemas(blogSchemas);
+    const code = generateVueComposables(analyzed);
+
+    assertCodeContains(code, [
+      "queryKey: computed(() => ['users', toValue(options)]),",
+      "queryKey: computed(() => ['users', toValue(id), toValue(options)?.include]),",
+      "queryClient.invalidateQueries({ queryKey: ['users'] });",
+      "queryClient.invalidateQueries({ queryKey: ['users', id] });",
+    ]);
+  });
+
+  it('generates infinite query composables for cursor-paginated entities', () => {
+    const analyzed = analyzeTestSchemas([
+      defineData('event', { id: field.uuid(), title: field.string() }, {
+        api: { basePath: '/api/events', pagination: { style: 'cursor' } },
+      }),
+    ]);
+    const code = generateVueComposables(analyzed);
+
+    assertCodeContains(code, [
+      'export function useInfiniteEvents(',
+      "queryKey: computed(() => ['events', 'infinite', toValue(options)]),",
+      'getNextPageParam: (lastPage) => lastPage.meta.nextCursor,',
+    ]);
+  });
+
+  it('generates a plugin that provides the API client', () => {
+    const code = generateVuePlugin();
+
+    assertCodeContains(code, [
+      "export const SchemockClientKey: InjectionKey<ApiClient> = Symbol('SchemockClient');",
+      'app.provide(SchemockClientKey, options.client ?? defaultApi);',
+      'return inject(SchemockClientKey, defaultApi);',
+    ]);
+  });
+
+  describe('Generated Code Compilation', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await createTempDir('vue-compile-');
+    });
+
+    afterAll(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('composables compile against the pglite client', async () => {
+      const analyzed = analyzeTestSchemas([
+        ...blogSchemas,
+        defineData('event', { id: field.uuid(), title: field.string() }, {
+          api: { basePath: '/api/events', pagination: { style: 'cursor' } },
+        }),
+      ]);
+      const typesPath = await writeGeneratedFile(tempDir, 'types.ts', generateTypes(analyzed));
+      const dbPath = await writeGeneratedFile(tempDir, 'db.ts', generatePGliteDb(analyzed, { persistence: 'memory' }));
+      const clientPath = await writeGeneratedFile(tempDir, 'client.ts', generatePGliteClient(analyzed));
+      const pluginPath = await writeGeneratedFile(tempDir, 'plugin.ts', generateVuePlugin());
+      const composablesPath = await writeGeneratedFile(tempDir, 'composables.ts', generateVueComposables(analyzed));
+
+      const result = await checkTypeScriptCompiles(composablesPath, [typesPath, dbPath, clientPath, pluginPath]);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+    }, 60000);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Integration tests for the OpenAPI importer
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createRequire } from 'node:module';
+import { resolve } from 'node:path';
+import { generateOpenAPI, registerSchemas } from '../../../generator/openapi';
+import { importOpenApiSpec, type OpenApiDocument } from '../../../cli/importers/openapi';
+import { endpointFileName, generateEndpointFile, generateSchemaFile, schemaFileName } from '../../../cli/importers/schema-writer';
+import type { EndpointSchema, EntitySchema } from '../../../schema/types';
+import { defineData, field, belongsTo, hasMany, hasOne } from '../../../schema';
+import { createTempDir, cleanupTempDir, writeGeneratedFile } from '../utils/test-helpers';
+
+const shopSchemas = [
+  defineData('customer', {
+    id: field.uuid(),
+    email: field.email(),
+    name: field.string().min(2).max(80),
+    tier: field.enum(['basic', 'gold']).default('basic'),
+    tags: field.array(field.string()),
+    address: field.object({ city: field.string(), zip: field.string().nullable() }),
+    orders: hasMany('order', { foreignKey: 'customerId' }),
+    wallet: hasOne('wallet', { foreignKey: 'customerId' }),
+  }),
+  defineData('order', {
+    id: field.uuid(),
+    customerId: field.ref('customer'),
+    total: field.number({ min: 0 }),
+    website: field.url().nullable(),
+    paidAt: field.date().nullable().readOnly(),
+    customer: belongsTo('customer', { foreignKey: 'customerId' }),
+  }),
+  defineData(
+    'wallet',
+    {
+      id: field.uuid(),
+      customerId: field.ref('customer'),
+      balance: field.number().default(0),
+    },
+    { timestamps: false }
+  ),
+];
+
+const spec: OpenApiDocument = {
+  openapi: '3.1.0',
+  info: { title: 'Billing', version: '2.0.0' },
+  paths: {
+    '/v1/invoices': { get: { responses: { '200': { description: 'ok' } } } },
+    '/v1/invoices/{invoiceId}': { delete: { responses: { '204': { description: 'gone' } } } },
+    '/v1/invoices/{invoiceId}/send': {
+      parameters: [{ name: 'invoiceId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+      post: {
+        operationId: 'send-invoice',
+        summary: 'Email an invoice to its account',
+        tags: ['Invoices'],
+        parameters: [
+          { name: 'cc', in: 'query', schema: { type: 'string', format: 'email' } },
+          { name: 'X-Request-Id', in: 'header', schema: { type: 'string' } },
+        ],
+        requestBody: { $ref: '#/components/requestBodies/SendOptions' },
+        responses: {
+          '202': {
+            description: 'Queued',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['jobId', 'status'],
+                  properties: {
+                    jobId: { type: 'string', format: 'uuid' },
+                    status: { $ref: '#/components/schemas/JobStatus' },
+                    attempts: { type: 'integer', minimum: 1, maximum: 5 },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/v1/reports/revenue': {
+      get: {
+        tags: ['Reports'],
+        parameters: [{ name: 'month', in: 'query', required: true, schema: { type: 'string', pattern: '^\\d{4}/\\d{2}$' } }],
+        responses: {
+          '200': {
+            description: 'Revenue per account',
+            content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Money' } } } },
+          },
+        },
+      },
+      head: { responses: { '200': { description: 'ok' } } },
+    },
+  },
+  components: {
+    schemas: {
+      Account: {
+        type: 'object',
+        required: ['id', 'email', 'plan'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          email: { type: 'string', format: 'email' },
+          homepage: { type: 'string', format: 'uri' },
+          plan: { $ref: '#/components/schemas/Plan' },
+          balance: { $ref: '#/components/schemas/Money' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+          invoices: { type: 'array', items: { $ref: '#/components/schemas/Invoice' } },
+        },
+      },
+      Invoice: {
+        type: 'object',
+        required: ['id', 'accountId', 'number', 'lines'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          accountId: { type: 'string', format: 'uuid' },
+          account: { $ref: '#/components/schemas/Account' },
+          reviewer: { anyOf: [{ $ref: '#/components/schemas/Account' }, { type: 'null' }] },
+          number: { type: 'integer', format: 'int64' },
+          issuedOn: { type: 'string', format: 'date' },
+          dueAt: { type: ['string', 'null'], format: 'date-time' },
+          iban: { type: 'string', format: 'iban', maxLength: 34 },
+          lines: { type: 'array', items: { $ref: '#/components/schemas/InvoiceLine' } },
+        },
+      },
+      InvoiceLine: {
+        type: 'object',
+        required: ['label', 'amount'],
+        properties: {
+          label: { type: 'string' },
+          amount: { $ref: '#/components/schemas/Money' },
+        },
+      },
+      Money: {
+        type: 'object',
+        required: ['cents', 'currency'],
+        properties: {
+          cents: { type: 'integer' },
+          currency: { type: 'string', default: 'EUR' },
+        },
+      },
+      Plan: { type: 'string', enum: ['free', 'team'], default: 'free' },
+      JobStatus: { type: 'string', enum: ['queued', 'sent'] },
+    },
+    requestBodies: {
+      SendOptions: {
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string', maxLength: 500 } } },
+          },
+        },
+      },
+    },
+  },
+};
+
+describe('OpenAPI Importer Integration', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await createTempDir('import-openapi-test-');
+  });
+
+  afterAll(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  /**
+   * Write a generated file and import it, with package imports pointed at the source tree
+   */
+  async function load(fileName: string, source: string): Promise<unknown[]> {
+    const rewritten = source
+      .replace("'schemock/schema'", `'${resolve('src/schema/index.ts')}'`)
+      .replace("'@faker-js/faker'", `'${createRequire(import.meta.url).resolve('@faker-js/faker')}'`);
+    const path = await writeGeneratedFile(tempDir, fileName.replace('/', '-'), rewritten);
+    return Object.values(await import(path));
+  }
+
+  describe('round trip', () => {
+    it('reproduces the spec generate:openapi writes', async () => {
+      // Compare as JSON documents, the way a spec is handed over
+      const specOf = (schemas: EntitySchema[]) => {
+        registerSchemas(schemas);
+        return JSON.parse(JSON.stringify(generateOpenAPI()));
+      };
+
+      const before = specOf(shopSchemas);
+      const { entities, endpoints, warnings } = importOpenApiSpec(before);
+      expect(warnings).toEqual([]);
+      expect(endpoints).toEqual([]);
+
+      const imported: EntitySchema[] = [];
+      for (const entity of entities) {
+        imported.push(...((await load(`rt-${schemaFileName(entity)}`, generateSchemaFile(entity, 'openapi.json'))) as EntitySchema[]));
+      }
+
+      expect(specOf(imported)).toEqual(before);
+    });
+  });
+
+  describe('generated schema files', () => {
+    it('maps formats, refs and embedded entities to fields and relations', () => {
+      const { entities } = importOpenApiSpec(spec);
+      expect(entities.map((e) => e.name)).toEqual(['account', 'invoice']);
+
+      const account = generateSchemaFile(entities[0], 'billing.json');
+      const invoice = generateSchemaFile(entities[1], 'billing.json');
+
+      expect(account).toContain("import { defineData, field, hasMany } from 'schemock/schema';");
+      expect(account).toContain('email: field.email(),');
+      expect(account).toContain('homepage: field.url().nullable(),');
+      expect(account).toContain("plan: field.enum(['free', 'team']).default('free'),");
+      expect(account).toContain('balance: field.object({ cents: field.number({ int: true }), currency: field.string().default(\'EUR\') }).nullable(),');
+      expect(account).toContain("invoices: hasMany('invoice', { foreignKey: 'accountId' }),");
+      expect(account).not.toContain('createdAt');
+      expect(account).not.toContain('timestamps: false');
+
+      expect(invoice).toContain("accountId: field.ref('account'),");
+      expect(invoice).toContain("reviewerId: field.ref('account').nullable(),");
+      expect(invoice).toContain('number: field.number({ int: true }),');
+      expect(invoice).toContain('issuedOn: field.date().nullable(), // format: date');
+      expect(invoice).toContain('dueAt: field.date().nullable(),');
+      expect(invoice).toContain('iban: field.string().max(34).nullable(), // format: iban');
+      expect(invoice).toContain("account: belongsTo('account', { foreignKey: 'accountId' }),");
+      expect(invoice).toContain("reviewer: belongsTo('account', { foreignKey: 'reviewerId' }),");
+      expect(invoice).toContain('timestamps: false,');
+      expect(invoice).toContain(
+        [
+          '  lines: field.array(field.object({',
+          '    label: field.string(),',
+          '    amount: field.object({',
+          '      cents: field.number({ int: true }),',
+          "      currency: field.string().default('EUR'),",
+          '    }),',
+          '  })),',
+        ].join('\n')
+      );
+    });
+
+    it('turns non-CRUD operations into endpoints and reports what it skipped', () => {
+      const { endpoints, warnings } = importOpenApiSpec(spec);
+
+      expect(endpoints!.map((e) => `${e.method} ${e.path}`)).toEqual(['POST /v1/invoices/:invoiceId/send', 'GET /v1/reports/revenue']);
+      expect(endpoints!.map((e) => e.name)).toEqual(['sendInvoice', 'getV1ReportsRevenue']);
+      expect(endpointFileName(endpoints![0].group)).toBe('endpoints/invoices.ts');
+
+      const invoices = generateEndpointFile('Invoices', [endpoints![0]], 'billing.json');
+      expect(invoices).toContain("import { faker } from '@faker-js/faker';");
+      expect(invoices).toContain("export const SendInvoiceEndpoint = defineEndpoint('/v1/invoices/:invoiceId/send', {");
+      expect(invoices).toContain("description: 'Email an invoice to its account',");
+      expect(invoices).toContain('invoiceId: field.uuid(),');
+      expect(invoices).toContain('cc: field.email().nullable(),');
+      expect(invoices).toContain('message: field.string().max(500).nullable(),');
+      expect(invoices).toContain("status: field.enum(['queued', 'sent']),");
+      expect(invoices).toContain('attempts: field.number({ int: true, min: 1, max: 5 }).nullable(),');
+      expect(invoices).toContain("status: faker.helpers.arrayElement(['queued', 'sent']),");
+      expect(invoices).toContain('attempts: faker.number.int({ min: 1, max: 5 }),');
+
+      const reports = generateEndpointFile('Reports', [endpoints![1]], 'billing.json');
+      expect(reports).toContain('month: field.string().pattern(/^\\d{4}\\/\\d{2}$/),');
+      expect(reports).toContain("data: field.array(field.object({ cents: field.number({ int: true }), currency: field.string().default('EUR') })),");
+
+      expect(warnings).toEqual([
+        'header parameter "X-Request-Id" of POST /v1/invoices/{invoiceId}/send is not imported',
+        'HEAD /v1/reports/revenue is not imported: defineEndpoint has no HEAD method',
+        'GET /v1/reports/revenue response is not an object; it is imported as { data }',
+      ]);
+    });
+
+    it('generates endpoints whose mockResolver returns data shaped like the response', async () => {
+      const { endpoints } = importOpenApiSpec(spec);
+      const source = generateEndpointFile('Invoices', endpoints!, 'billing.json');
+      const [send, revenue] = (await load('endpoints.ts', source)) as EndpointSchema[];
+
+      expect(send.method).toBe('POST');
+      expect(Object.keys(send.params)).toEqual(['invoiceId', 'cc']);
+      expect(send.response.status.values).toEqual(['queued', 'sent']);
+
+      const ctx = { params: {}, body: {}, db: {}, headers: {} };
+      const sent = (await send.mockResolver(ctx)) as { jobId: string; status: string; attempts: number };
+      expect(sent.jobId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(['queued', 'sent']).toContain(sent.status);
+      expect(sent.attempts).toBeGreaterThanOrEqual(1);
+
+      const report = (await revenue.mockResolver(ctx)) as { data: Array<{ cents: number; currency: string }> };
+      expect(report.data.length).toBeGreaterThan(0);
+      expect(typeof report.data[0].cents).toBe('number');
+    });
+
+    it('rejects Swagger 2.0 documents', () => {
+      expect(() => importOpenApiSpec({ swagger: '2.0' } as unknown as OpenApiDocument)).toThrow(
+        'Only OpenAPI 3.x documents are supported (got Swagger 2.0)'
+      );
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Integration tests for the SQL importer
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { resolve } from 'node:path';
+import { PGlite } from '@electric-sql/pglite';
+import { generateSQL } from '../../../cli/generators/sql';
+import { importSqlSchema, splitSqlStatements } from '../../../cli/importers/sql';
+import { generateSchemaFile, schemaFileName } from '../../../cli/importers/schema-writer';
+import type { EntitySchema } from '../../../schema/types';
+import { defineData, field, belongsTo, hasMany } from '../../../schema';
+import { schemas as blogSchemas } from '../fixtures/schemas/blog.schema';
+import { createTempDir, cleanupTempDir, writeGeneratedFile, analyzeTestSchemas } from '../utils/test-helpers';
+
+const teamSchemas = [
+  defineData('team', {
+    id: field.uuid(),
+    name: field.string().max(80).unique(),
+    plan: field.enum(['free', 'pro']).default('free'),
+    settings: field.object({}).default({ theme: 'dark' }),
+    members: hasMany('member', { foreignKey: 'teamId' }),
+  }),
+  defineData(
+    'member',
+    {
+      id: field.uuid(),
+      teamId: field.ref('team'),
+      email: field.email(),
+      score: field.number().default(0),
+      active: field.boolean().default(true),
+      joinedOn: field.date().nullable(),
+      team: belongsTo('team', { foreignKey: 'teamId' }),
+    },
+    {
+      timestamps: false,
+      indexes: [{ fields: ['teamId', 'email'], unique: true }, { fields: ['score'], where: 'active' }],
+      rls: {
+        scope: [{ field: 'teamId', contextKey: 'teamId' }],
+        bypass: [{ contextKey: 'role', values: ['admin', 'owner'] }],
+      },
+    }
+  ),
+];
+
+const dump = `
+--
+-- PostgreSQL database dump
+--
+\\restrict abc123
+SET statement_timeout = 0;
+SELECT pg_catalog.set_config('search_path', '', false);
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA public;
+CREATE TYPE public.order_status AS ENUM ('pending', 'paid', 'shipped');
+ALTER TYPE public.order_status OWNER TO postgres;
+CREATE TABLE public.customers (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    full_name text,
+    loyalty_points integer DEFAULT 0 NOT NULL,
+    tags text[] DEFAULT '{}'::text[]
+);
+CREATE TABLE public.orders (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    customer_id uuid NOT NULL,
+    referrer_id uuid,
+    status public.order_status DEFAULT 'pending'::public.order_status NOT NULL,
+    note character varying(255) DEFAULT 'it''s; fine'
+);
+COPY public.customers (id, full_name) FROM stdin;
+1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed	Ada; Lovelace
+\\.
+ALTER TABLE ONLY public.customers ADD CONSTRAINT customers_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.orders ADD CONSTRAINT orders_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.orders ADD CONSTRAINT orders_customer_id_fkey FOREIGN KEY (customer_id) REFERENCES public.customers(id) ON DELETE CASCADE;
+ALTER TABLE ONLY public.orders ADD CONSTRAINT orders_referrer_id_fkey FOREIGN KEY (referrer_id) REFERENCES public.customers(id);
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Customers see own orders" ON public.orders FOR SELECT TO authenticated USING ((customer_id = auth.uid()));
+CREATE POLICY "Admins see all" ON public.orders FOR SELECT USING (((auth.jwt() ->> 'role'::text) = 'admin'::text));
+GRANT ALL ON TABLE public.orders TO anon;
+`;
+
+describe('SQL Importer Integration', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await createTempDir('import-sql-test-');
+  });
+
+  afterAll(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  /**
+   * generate:sql -> import:sql -> generate:sql
+   */
+  async function roundTrip(schemas: EntitySchema[]): Promise<{ before: string; after: string; warnings: string[] }> {
+    const sqlOf = (entities: EntitySchema[]) =>
+      generateSQL(analyzeTestSchemas(entities), { combined: true }).combined!.replace(/-- Generated at: .*\n/, '');
+
+    const before = sqlOf(schemas);
+    const db = new PGlite();
+    const { entities, warnings } = await importSqlSchema(db, before);
+    await db.close();
+
+    const imported: EntitySchema[] = [];
+    for (const entity of entities) {
+      const source = generateSchemaFile(entity, 'schema.sql').replace("'schemock/schema'", `'${resolve('src/schema/index.ts')}'`);
+      const path = await writeGeneratedFile(tempDir, `${entities.length}-${schemaFileName(entity)}`, source);
+      imported.push(...(Object.values(await import(path)) as EntitySchema[]));
+    }
+
+    return { before, after: sqlOf(imported), warnings };
+  }
+
+  describe('round trip', () => {
+    it('reproduces the DDL of the blog fixture', async () => {
+      const { before, after, warnings } = await roundTrip(blogSchemas);
+
+      expect(warnings).toEqual([]);
+      
+      expect(after).toBe(before);
+    }, 60000);
+
+    it('reproduces refs, indexes, defaults and RLS scope/bypass', async () => {
+      const { before, after, warnings } = await roundTrip(teamSchemas);
+
+      expect(warnings).toEqual([]);
+      
+      expect(after).toBe(before);
+    }, 60000);
+  });
+
+  describe('generated schema files', () => {
+    it('maps foreign keys to refs with belongsTo/hasMany relations', async () => {
+      const db = new PGlite();
+      const { entities } = await importSqlSchema(db, generateSQL(analyzeTestSchemas(teamSchemas), { combined: true }).combined!);
+      await db.close();
+
+      const team = generateSchemaFile(entities[0], 'schema.sql');
+      const member = generateSchemaFile(entities[1], 'schema.sql');
+
+      expect(team).toContain("import { defineData, field, hasMany } from 'schemock/schema';");
+      expect(team).toContain("name: field.string().max(80).unique(),");
+      expect(team).toContain("plan: field.enum(['free', 'pro']).default('free'),");
+      expect(team).toContain("members: hasMany('member', { foreignKey: 'teamId' }),");
+      expect(member).toContain("teamId: field.ref('team'),");
+      expect(member).toContain("team: belongsTo('team', { foreignKey: 'teamId' }),");
+      expect(member).toContain('timestamps: false,');
+      expect(member).toContain("scope: [{ field: 'teamId', contextKey: 'teamId' }],");
+      expect(member).toContain("bypass: [{ contextKey: 'role', values: ['admin', 'owner'] }],");
+    });
+
+    it('imports pg_dump output and reports what it could not reproduce', async () => {
+      const db = new PGlite();
+      const { entities, warnings } = await importSqlSchema(db, dump);
+      await db.close();
+
+      const customer = generateSchemaFile(entities[0], 'dump.sql');
+      const order = generateSchemaFile(entities[1], 'dump.sql');
+
+      expect(customer).toContain('full_name: field.string().nullable(), // source type: text');
+      expect(customer).toContain('loyalty_points: field.number({ int: true }).default(0), // source type: integer');
+      expect(customer).toContain('tags: field.array(field.string()).default([]).nullable(), // source type: text[]');
+      expect(customer).toContain('timestamps: false,');
+      expect(customer).toContain("orders: hasMany('order', { foreignKey: 'customer_id' }),");
+      expect(customer).toContain("ordersByReferrer: hasMany('order', { foreignKey: 'referrer_id' }),");
+      expect(order).toContain("status: field.enum(['pending', 'paid', 'shipped']).default('pending'),");
+      expect(order).toContain(`note: field.string().default("it's; fine").nullable(),`);
+      expect(order).toContain("referrer: belongsTo('customer', { foreignKey: 'referrer_id' }),");
+      expect(order).toContain(`select: "(((auth.jwt() ->> 'role'::text) = 'admin'::text)) OR ((customer_id = auth.uid()))",`);
+      expect(order).toContain("insert: 'false',");
+
+      expect(warnings).toContain('Skipped extension: CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA public');
+      expect(warnings).toContain('Foreign key "orders_referrer_id_fkey" uses ON DELETE NO ACTION; generate:sql uses SET NULL');
+    });
+
+    it('reads an existing database', async () => {
+      const db = new PGlite();
+      await db.exec('CREATE TABLE tags (id UUID PRIMARY KEY, label VARCHAR(40) NOT NULL UNIQUE)');
+      const { entities } = await importSqlSchema(db);
+      await db.close();
+
+      expect(entities.map((e) => e.name)).toEqual(['tag']);
+      expect(generateSchemaFile(entities[0], 'database')).toContain('label: field.string().max(40).unique(),');
+    });
+  });
+
+  describe('splitSqlStatements', () => {
+    it('splits on semicolons outside strings, comments and function bodies', () => {
+      const statements = splitSqlStatements(`
+        -- comment; not a statement
+        CREATE FUNCTION f() RETURNS text AS $body$ SELECT 'a;b' $body$ LANGUAGE sql;
+        /* block; comment */ SELECT "odd;name" FROM t;
+        COPY t (a) FROM stdin;
+        x;y
+        \\.
+        SELECT E'it\\'s;';
+      `);
+
+      expect(statements).toEqual([
+        "CREATE FUNCTION f() RETURNS text AS $body$ SELECT 'a;b' $body$ LANGUAGE sql",
+        'SELECT "odd;name" FROM t',
+        'COPY t (a) FROM stdin',
+        "SELECT E'it\\'s;'",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Type stubs for DataLoader
+ *
+ * These stubs provide enough type information to validate generated code
+ * without requiring the actual dataloader package.
+ */
+
+declare module 'dataloader' {
+  type BatchLoadFn<K, V> = (keys: readonly K[]) => PromiseLike<ArrayLike<V | Error>>;
+
+  interface Options<K, V, C = K> {
+    batch?: boolean;
+    maxBatchSize?: number;
+    cache?: boolean;
+    cacheKeyFn?: (key: K) => C;
+  }
+
+  class DataLoader<K, V, C = K> {
+    constructor(batchLoadFn: BatchLoadFn<K, V>, options?: Options<K, V, C>);
+    load(key: K): Promise<V>;
+    loadMany(keys: ArrayLike<K>): Promise<Array<V | Error>>;
+    clear(key: K): this;
+    clearAll(): this;
+    prime(key: K, value: V | Error): this;
+  }
+
+  export default DataLoader;
+}
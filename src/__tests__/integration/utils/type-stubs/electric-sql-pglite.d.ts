@@ -18,6 +18,7 @@ declare module '@electric-sql/pglite' {
     static create(dataDir?: string, options?: PGliteOptions): Promise<PGlite>;
     query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<QueryResult<T>>;
     exec(sql: string): Promise<void>;
+    listen(channel: string, callback: (payload: string) => void): Promise<() => Promise<void>>;
     close(): Promise<void>;
   }
 }
@@ -43,12 +43,17 @@ declare module '@faker-js/faker' {
   }
 
   interface NumberModule {
-    int(options?: { min?: number; max?: number }): number;
+    int(options?: number | { min?: number; max?: number }): number;
     float(options?: { min?: number; max?: number; fractionDigits?: number }): number;
+    bigInt(options?: { min?: number | bigint; max?: number | bigint }): bigint;
+  }
+
+  interface FinanceModule {
+    amount(options?: { min?: number; max?: number; dec?: number }): string;
   }
 
   interface DatatypeModule {
-    boolean(): boolean;
+    boolean(options?: number | { probability?: number }): boolean;
   }
 
   interface ImageModule {
@@ -97,6 +102,7 @@ declare module '@faker-js/faker' {
     lorem: LoremModule;
     date: DateModule;
     number: NumberModule;
+    finance: FinanceModule;
     datatype: DatatypeModule;
     image: ImageModule;
     location: LocationModule;
@@ -0,0 +1,97 @@
+/**
+ * Type stubs for Hono
+ *
+ * These stubs provide enough type information to validate generated code
+ * without requiring the actual hono package. Route and RPC typing is loose:
+ * handlers and `hc<AppType>()` are not checked against the route schema.
+ */
+
+declare module 'hono' {
+  export type Env = {
+    Variables?: Record<string, unknown>;
+    Bindings?: Record<string, unknown>;
+  };
+
+  type Variables<E extends Env> = E extends { Variables: infer V } ? V : Record<string, unknown>;
+
+  export interface HonoRequest {
+    url: string;
+    method: string;
+    path: string;
+    raw: Request;
+    param(): Record<string, string>;
+    param(name: string): string;
+    query(): Record<string, string>;
+    query(name: string): string | undefined;
+    queries(name: string): string[] | undefined;
+    header(): Record<string, string>;
+    header(name: string): string | undefined;
+    json<T = unknown>(): Promise<T>;
+    text(): Promise<string>;
+  }
+
+  export interface Context<E extends Env = Env> {
+    req: HonoRequest;
+    env: unknown;
+    res: Response;
+    json(object: unknown, status?: number, headers?: Record<string, string>): Response;
+    text(text: string, status?: number, headers?: Record<string, string>): Response;
+    body(data: string | ArrayBuffer | ReadableStream | null, status?: number, headers?: Record<string, string>): Response;
+    header(name: string, value: string): void;
+    status(status: number): void;
+    get<K extends keyof Variables<E>>(key: K): Variables<E>[K];
+    set<K extends keyof Variables<E>>(key: K, value: Variables<E>[K]): void;
+  }
+
+  export type Next = () => Promise<void>;
+
+  export type MiddlewareHandler<E extends Env = Env> = (c: Context<E>, next: Next) => Promise<Response | void>;
+
+  export type Handler<E extends Env = Env> = (c: Context<E>, next: Next) => Response | Promise<Response | void>;
+
+  export class Hono<E extends Env = Env, S = object, BasePath extends string = '/'> {
+    constructor(options?: { strict?: boolean });
+    get(path: string, ...handlers: Handler<E>[]): this;
+    post(path: string, ...handlers: Handler<E>[]): this;
+    put(path: string, ...handlers: Handler<E>[]): this;
+    patch(path: string, ...handlers: Handler<E>[]): this;
+    delete(path: string, ...handlers: Handler<E>[]): this;
+    use(path: string, ...handlers: MiddlewareHandler<E>[]): this;
+    use(...handlers: MiddlewareHandler<E>[]): this;
+    route(path: string, app: Hono<E, object, string>): this;
+    basePath<P extends string>(path: P): Hono<E, S, P>;
+    onError(handler: (err: Error, c: Context<E>) => Response | Promise<Response>): this;
+    notFound(handler: (c: Context<E>) => Response | Promise<Response>): this;
+    fetch(request: Request, env?: unknown, executionCtx?: unknown): Response | Promise<Response>;
+    request(input: string | Request, init?: RequestInit): Response | Promise<Response>;
+  }
+}
+
+declare module 'hono/http-exception' {
+  export class HTTPException extends Error {
+    constructor(status?: number, options?: { message?: string; res?: Response; cause?: unknown });
+    readonly status: number;
+    getResponse(): Response;
+  }
+}
+
+declare module 'hono/client' {
+  export interface ClientRequestOptions {
+    fetch?: typeof fetch;
+    headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+  }
+
+  export function hc<T>(baseUrl: string, options?: ClientRequestOptions): Record<string, unknown>;
+}
+
+declare module 'hono/jwt' {
+  export function verify(token: string, secret: string, alg?: string): Promise<Record<string, unknown>>;
+  export function sign(payload: Record<string, unknown>, secret: string, alg?: string): Promise<string>;
+  export function decode(token: string): { header: Record<string, unknown>; payload: Record<string, unknown> };
+}
+
+declare module 'hono/adapter' {
+  import type { Context, Env } from 'hono';
+
+  export function env<T extends Record<string, unknown>>(c: Context<Env>): T;
+}
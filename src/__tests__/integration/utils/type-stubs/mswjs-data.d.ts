@@ -34,21 +34,37 @@ declare module '@mswjs/data' {
     data: Partial<TEntity>;
   }
 
+  // Internal properties @mswjs/data adds to every record. As in the real
+  // package, records have no index signature, so they are not assignable
+  // to Record<string, unknown>.
+  export interface EntityInternals {
+    __type: string;
+    __primaryKey: string;
+  }
+
+  export type Entity<TEntity> = EntityInternals & TEntity;
+
   // Entity model interface - defines the methods available on each entity
   export interface EntityModel<TEntity> {
-    getAll(): TEntity[];
-    findFirst(options: FindOptions<TEntity>): TEntity | null;
-    findMany(options: FindOptions<TEntity>): TEntity[];
-    create(data: Partial<TEntity>): TEntity;
-    update(options: UpdateOptions<TEntity>): TEntity | null;
-    delete(options: FindOptions<TEntity>): TEntity | null;
+    getAll(): Entity<TEntity>[];
+    findFirst(options: FindOptions<TEntity>): Entity<TEntity> | null;
+    findMany(options: FindOptions<TEntity>): Entity<TEntity>[];
+    create(data: Partial<TEntity>): Entity<TEntity>;
+    update(options: UpdateOptions<TEntity>): Entity<TEntity> | null;
+    delete(options: FindOptions<TEntity>): Entity<TEntity> | null;
+    updateMany(options: UpdateOptions<TEntity>): Entity<TEntity>[] | null;
+    deleteMany(options: FindOptions<TEntity>): Entity<TEntity>[] | null;
     count(): number;
   }
 
+  // Values a model property getter may return (objects and Uint8Array are not supported)
+  export type PrimitiveValueType = string | number | boolean | Date;
+  export type ModelValueType = PrimitiveValueType | PrimitiveValueType[];
+
   // Factory definition type - maps entity names to their field definitions
   export type FactoryDefinition = {
     [entityName: string]: {
-      [fieldName: string]: (() => unknown) | ReturnType<typeof primaryKey> | ReturnType<typeof nullable>;
+      [fieldName: string]: (() => ModelValueType) | ReturnType<typeof primaryKey> | ReturnType<typeof nullable>;
     };
   };
 
@@ -64,8 +80,8 @@ declare module '@mswjs/data' {
   export function factory<TDef extends FactoryDefinition>(definition: TDef): Database<TDef>;
 
   // Field decorators
-  export function primaryKey<T>(generator: () => T): () => T;
-  export function nullable<T>(generator: () => T): () => T | null;
+  export function primaryKey<T extends string | number>(generator: () => T): () => T;
+  export function nullable<T extends ModelValueType>(generator: () => T | null): () => T | null;
 
   // Additional exports that may be used
   export function oneOf<T>(...values: T[]): () => T;
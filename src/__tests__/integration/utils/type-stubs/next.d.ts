@@ -0,0 +1,21 @@
+/**
+ * Type stubs for Next.js
+ *
+ * These stubs provide enough type information to validate generated code
+ * without requiring the actual Next.js package.
+ */
+
+declare module 'next/server' {
+  export class NextRequest extends Request {
+    constructor(input: URL | RequestInfo, init?: RequestInit);
+    nextUrl: URL;
+    ip?: string;
+  }
+
+  export class NextResponse<Body = unknown> extends Response {
+    static json<JsonBody>(body: JsonBody, init?: ResponseInit): NextResponse<JsonBody>;
+    static next(init?: { headers?: HeadersInit }): NextResponse;
+    static redirect(url: string | URL, status?: number): NextResponse;
+    static rewrite(destination: string | URL): NextResponse;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Type stubs for schemock entry points imported by generated code
+ *
+ * These stubs provide enough type information to validate generated code
+ * without requiring a built schemock package in the temp directory.
+ */
+
+declare module 'schemock/schema' {
+  export interface FieldDefinition {
+    type: string;
+    nullable?: boolean;
+    unique?: boolean;
+    readOnly?: boolean;
+    target?: string;
+    values?: readonly unknown[];
+    default?: unknown;
+  }
+
+  export interface RelationDefinition {
+    type: 'hasMany' | 'belongsTo' | 'hasOne';
+    target: string;
+    foreignKey?: string;
+    through?: string;
+    otherKey?: string;
+  }
+
+  export interface EntitySchema {
+    name: string;
+    fields: Record<string, FieldDefinition>;
+    relations?: Record<string, RelationDefinition>;
+    timestamps?: boolean;
+    softDelete?: boolean;
+    rls?: unknown;
+  }
+}
+
+declare module 'schemock/seed' {
+  import type { EntitySchema } from 'schemock/schema';
+
+  export interface SeedScenario {
+    readonly name: string;
+    seed?: number;
+  }
+
+  export type ScenarioDataset = Record<string, Record<string, unknown>[]>;
+
+  export function buildScenario(
+    scenario: SeedScenario,
+    schemas: EntitySchema[],
+    options?: { seed?: number; factories?: Record<string, () => Record<string, unknown>> }
+  ): ScenarioDataset;
+}
+
+declare module 'schemock/adapters' {
+  import type { EntitySchema } from 'schemock/schema';
+
+  export interface Snapshot {
+    format: 'schemock-snapshot';
+    version: number;
+    createdAt: string;
+    schemaVersion: string;
+    schemas: Record<string, Record<string, string>>;
+    data: Record<string, Record<string, unknown>[]>;
+  }
+
+  export interface ImportSnapshotOptions {
+    renames?: Record<string, string>;
+  }
+
+  export interface SnapshotImportResult {
+    schemaVersion: string;
+    changes: string[];
+    counts: Record<string, number>;
+  }
+
+  export function createSnapshot(schemas: EntitySchema[], data: Record<string, readonly object[]>): Snapshot;
+  export function restoreSnapshot(
+    snapshot: Snapshot | string | { data: Record<string, Record<string, unknown>[]> },
+    schemas: EntitySchema[],
+    options?: ImportSnapshotOptions
+  ): SnapshotImportResult & { data: Record<string, Record<string, unknown>[]> };
+}
@@ -0,0 +1,79 @@
+/**
+ * Type stubs for Svelte and TanStack Svelte Query
+ *
+ * These stubs provide enough type information to validate generated
+ * stores without requiring the actual svelte packages.
+ */
+
+declare module 'svelte' {
+  export function getContext<T>(key: unknown): T;
+  export function setContext<T>(key: unknown, context: T): T;
+  export function hasContext(key: unknown): boolean;
+}
+
+declare module 'svelte/store' {
+  export interface Readable<T> {
+    subscribe(run: (value: T) => void): () => void;
+  }
+
+  type Stores = Readable<unknown> | [Readable<unknown>, ...Readable<unknown>[]];
+
+  type StoresValues<T> = T extends Readable<infer U>
+    ? U
+    : { [K in keyof T]: T[K] extends Readable<infer U> ? U : never };
+
+  export function readable<T>(value: T): Readable<T>;
+  export function derived<S extends Stores, T>(stores: S, fn: (values: StoresValues<S>) => T): Readable<T>;
+}
+
+declare module '@tanstack/svelte-query' {
+  import type { Readable } from 'svelte/store';
+
+  export interface QueryClient {
+    invalidateQueries(filters?: { queryKey?: readonly unknown[] }): Promise<void>;
+    setQueryData<T>(queryKey: readonly unknown[], data: T): T | undefined;
+    getQueryData<T>(queryKey: readonly unknown[]): T | undefined;
+  }
+
+  export type CreateQueryResult<TData> = Readable<{
+    data: TData | undefined;
+    error: Error | null;
+    isLoading: boolean;
+  }>;
+
+  export type CreateInfiniteQueryResult<TData, TPageParam> = Readable<{
+    data: { pages: TData[]; pageParams: TPageParam[] } | undefined;
+    error: Error | null;
+    hasNextPage: boolean;
+    fetchNextPage(): Promise<unknown>;
+  }>;
+
+  export type CreateMutationResult<TData, TVariables> = Readable<{
+    data: TData | undefined;
+    error: Error | null;
+    mutate(variables: TVariables): void;
+    mutateAsync(variables: TVariables): Promise<TData>;
+  }>;
+
+  export function createQuery<TData>(options: Readable<{
+    queryKey: readonly unknown[];
+    queryFn: () => Promise<TData>;
+    enabled?: boolean;
+  }>): CreateQueryResult<TData>;
+
+  export function createInfiniteQuery<TData, TPageParam>(options: Readable<{
+    queryKey: readonly unknown[];
+    queryFn: (context: { pageParam: TPageParam }) => Promise<TData>;
+    initialPageParam: TPageParam;
+    getNextPageParam: (lastPage: TData, allPages: TData[]) => TPageParam | undefined | null;
+    getPreviousPageParam?: (firstPage: TData, allPages: TData[]) => TPageParam | undefined | null;
+    enabled?: boolean;
+  }>): CreateInfiniteQueryResult<TData, TPageParam>;
+
+  export function createMutation<TData, TVariables>(options: {
+    mutationFn: (variables: TVariables) => Promise<TData>;
+    onSuccess?: (data: TData, variables: TVariables) => void | Promise<void>;
+  }): CreateMutationResult<TData, TVariables>;
+
+  export function useQueryClient(): QueryClient;
+}
@@ -0,0 +1,91 @@
+/**
+ * Type stubs for Vue and TanStack Vue Query
+ *
+ * These stubs provide enough type information to validate generated
+ * composables without requiring the actual vue packages.
+ */
+
+declare module 'vue' {
+  export interface Ref<T> {
+    value: T;
+  }
+
+  export interface ComputedRef<T> {
+    readonly value: T;
+  }
+
+  export type MaybeRef<T> = T | Ref<T>;
+  export type MaybeRefOrGetter<T> = MaybeRef<T> | ComputedRef<T> | (() => T);
+
+  export type InjectionKey<T> = symbol & { __type?: T };
+
+  export interface App {
+    provide<T>(key: InjectionKey<T> | string, value: T): this;
+    use(plugin: { install(app: App, ...options: unknown[]): void }, ...options: unknown[]): this;
+    mount(container: string | Element): unknown;
+  }
+
+  export function computed<T>(getter: () => T): ComputedRef<T>;
+  export function toValue<T>(source: MaybeRefOrGetter<T>): T;
+  export function inject<T>(key: InjectionKey<T> | string): T | undefined;
+  export function inject<T>(key: InjectionKey<T> | string, defaultValue: T): T;
+  export function provide<T>(key: InjectionKey<T> | string, value: T): void;
+}
+
+declare module '@tanstack/vue-query' {
+  import type { ComputedRef, MaybeRefOrGetter, Ref } from 'vue';
+
+  type QueryKey = MaybeRefOrGetter<readonly unknown[]>;
+
+  export interface QueryClient {
+    invalidateQueries(filters?: { queryKey?: readonly unknown[] }): Promise<void>;
+    setQueryData<T>(queryKey: readonly unknown[], data: T): T | undefined;
+    getQueryData<T>(queryKey: readonly unknown[]): T | undefined;
+  }
+
+  export interface UseQueryReturnType<TData> {
+    data: Ref<TData | undefined>;
+    error: Ref<Error | null>;
+    isLoading: Ref<boolean>;
+    refetch(): Promise<unknown>;
+  }
+
+  export interface UseInfiniteQueryReturnType<TData, TPageParam> {
+    data: Ref<{ pages: TData[]; pageParams: TPageParam[] } | undefined>;
+    error: Ref<Error | null>;
+    hasNextPage: Ref<boolean>;
+    hasPreviousPage: Ref<boolean>;
+    fetchNextPage(): Promise<unknown>;
+    fetchPreviousPage(): Promise<unknown>;
+  }
+
+  export interface UseMutationReturnType<TData, TVariables> {
+    data: Ref<TData | undefined>;
+    error: Ref<Error | null>;
+    isPending: Ref<boolean>;
+    mutate(variables: TVariables): void;
+    mutateAsync(variables: TVariables): Promise<TData>;
+  }
+
+  export function useQuery<TData>(options: {
+    queryKey: QueryKey;
+    queryFn: () => Promise<TData>;
+    enabled?: MaybeRefOrGetter<boolean> | ComputedRef<boolean>;
+  }): UseQueryReturnType<TData>;
+
+  export function useInfiniteQuery<TData, TPageParam>(options: {
+    queryKey: QueryKey;
+    queryFn: (context: { pageParam: TPageParam }) => Promise<TData>;
+    initialPageParam: TPageParam;
+    getNextPageParam: (lastPage: TData, allPages: TData[]) => TPageParam | undefined | null;
+    getPreviousPageParam?: (firstPage: TData, allPages: TData[]) => TPageParam | undefined | null;
+    enabled?: MaybeRefOrGetter<boolean> | ComputedRef<boolean>;
+  }): UseInfiniteQueryReturnType<TData, TPageParam>;
+
+  export function useMutation<TData, TVariables>(options: {
+    mutationFn: (variables: TVariables) => Promise<TData>;
+    onSuccess?: (data: TData, variables: TVariables) => void | Promise<void>;
+  }): UseMutationReturnType<TData, TVariables>;
+
+  export function useQueryClient(): QueryClient;
+}
@@ -14,6 +14,7 @@ import type {
   AdapterResponse,
   FetchAdapterOptions,
 } from './types';
+import { ConflictError } from '../storage/versioning';
 
 /**
  * FetchAdapter class implementing the Adapter interface.
@@ -86,14 +87,15 @@ export class FetchAdapter implements Adapter {
   }
 
   /**
-   * Update an existing entity.
+   * Update an existing entity. `expectedVersion` is sent as `If-Match`,
+   * and a 409 response becomes a ConflictError with the server's copy.
    *
    * @param ctx - The adapter context with params and data
    * @returns The updated entity
    */
   async update<T>(ctx: AdapterContext): Promise<AdapterResponse<T>> {
     const url = this.buildUrl(ctx, true);
-    return this.request<T>('PATCH', url, ctx.data);
+    return this.request<T>('PATCH', url, ctx.data, ctx.expectedVersion);
   }
 
   /**
@@ -107,6 +109,17 @@ export class FetchAdapter implements Adapter {
     return this.request<void>('DELETE', url);
   }
 
+  /**
+   * Restore a soft-deleted entity.
+   *
+   * @param ctx - The adapter context with params
+   * @returns The restored entity
+   */
+  async restore<T>(ctx: AdapterContext): Promise<AdapterResponse<T>> {
+    const [path, query] = this.buildUrl(ctx, true).split('?');
+    return this.request<T>('POST', `${path}/restore${query ? `?${query}` : ''}`);
+  }
+
   /**
    * Execute a custom operation.
    *
@@ -170,17 +183,29 @@ export class FetchAdapter implements Adapter {
       queryParams.set('include', ctx.include.join(','));
     }
 
+    // Add soft delete scope
+    if (ctx.withDeleted) {
+      queryParams.set('withDeleted', 'true');
+    }
+    if (ctx.onlyDeleted) {
+      queryParams.set('onlyDeleted', 'true');
+    }
+    if (ctx.purge) {
+      queryParams.set('purge', 'true');
+    }
+
     const queryString = queryParams.toString();
     return queryString ? `${url}?${queryString}` : url;
   }
 
   /**
-   * Execute HTTP request.
+   * Execute HTTP request. An `expectedVersion` is sent as `If-Match`.
    */
   private async request<T>(
     method: string,
     url: string,
-    data?: unknown
+    data?: unknown,
+    expectedVersion?: number
   ): Promise<AdapterResponse<T>> {
     const controller = new AbortController();
     const timeoutId = setTimeout(
@@ -194,6 +219,7 @@ export class FetchAdapter implements Adapter {
         headers: {
           'Content-Type': 'application/json',
           ...this.options.headers,
+          ...(expectedVersion !== undefined ? { 'If-Match': `"${expectedVersion}"` } : {}),
         },
         body: data ? JSON.stringify(data) : undefined,
         signal: controller.signal,
@@ -203,6 +229,13 @@ export class FetchAdapter implements Adapter {
 
       if (!response.ok) {
         const errorBody = await response.text();
+        const current = response.status === 409 ? parseConflictCurrent(errorBody) : undefined;
+        if (current && expectedVersion !== undefined) {
+          return {
+            data: null as unknown as T,
+            error: new ConflictError(url, current, expectedVersion),
+          };
+        }
         return {
           data: null as unknown as T,
           error: new Error(`HTTP ${response.status}: ${errorBody}`),
@@ -243,6 +276,19 @@ export class FetchAdapter implements Adapter {
   }
 }
 
+/**
+ * Read the server's current record from a 409 response body
+ * (`{ error, code: 'CONFLICT', current }`).
+ */
+function parseConflictCurrent(body: string): Record<string, unknown> | undefined {
+  try {
+    const json = JSON.parse(body);
+    return json?.current && typeof json.current === 'object' ? json.current : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Create a FetchAdapter for production REST APIs.
  *
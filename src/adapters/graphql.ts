@@ -178,6 +178,10 @@ export class GraphQLAdapter implements Adapter {
       if (ctx.orderBy) {
         variables.orderBy = ctx.orderBy;
       }
+      if (ctx.filter) {
+        // Generated graphql-server documents take the filter as $where
+        variables.where = ctx.filter;
+      }
 
       // Use custom operation if provided
       const query = this.operations?.findMany
@@ -190,7 +194,9 @@ export class GraphQLAdapter implements Adapter {
         fetchPolicy: 'network-only',
       });
 
-      const rawData = result.data[`${ctx.entity}s`] ?? result.data[`list${typeName}s`];
+      // Fall back to the only root field (e.g. `categories` from generated operations)
+      const rawData =
+        result.data[`${ctx.entity}s`] ?? result.data[`list${typeName}s`] ?? Object.values(result.data ?? {})[0];
 
       if (result.error) {
         return {
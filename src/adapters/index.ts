@@ -29,6 +29,12 @@ export {
   MswStorageDriver,
   MemoryStorageDriver,
   LocalStorageDriver,
+  isInScope,
+  nextVersion,
+  ConflictError,
+  createSnapshot,
+  restoreSnapshot,
+  SnapshotError,
 } from './mock';
 export type {
   MockAdapterConfig,
@@ -36,7 +42,15 @@ export type {
   StorageDriverConfig,
   QueryOptions,
   QueryMeta,
+  SoftDeleteScope,
+  UpdateOptions,
   LocalStorageDriverConfig,
+  ChangeEvent,
+  ChangeListener,
+  Unsubscribe,
+  Snapshot,
+  ImportSnapshotOptions,
+  SnapshotImportResult,
 } from './mock';
 
 // Re-export FetchAdapter
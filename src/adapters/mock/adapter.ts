@@ -18,7 +18,9 @@ import type {
   AdapterContext,
   AdapterResponse,
 } from '../types';
-import type { StorageDriver } from '../../storage/types';
+import type { StorageDriver, QueryMeta, SoftDeleteScope, ChangeListener, Unsubscribe } from '../../storage/types';
+import { InvalidCursorError } from '../../storage/cursor';
+import { ConflictError } from '../../storage/versioning';
 import type { Middleware, MiddlewareContext } from '../../middleware/types';
 import { MiddlewareChain } from '../../middleware/chain';
 import { orderMiddleware } from '../../middleware/defaults';
@@ -55,6 +57,7 @@ export interface MockAdapterConfig {
  * - Configurable network delay simulation
  * - Automatic timestamp management
  * - Relation hydration
+ * - Change subscriptions (when the driver supports them)
  *
  * @example
  * ```typescript
@@ -165,7 +168,7 @@ export class MockAdapter implements Adapter {
   async findOne<T>(ctx: AdapterContext): Promise<AdapterResponse<T>> {
     return this.executeWithMiddleware<T>('findOne', ctx, async () => {
       const where = this.buildWhere(ctx);
-      const result = await this.driver.findOne<T>(ctx.entity, where);
+      const result = await this.driver.findOne<T>(ctx.entity, where, ctx);
       return { data: result as T };
     });
   }
@@ -189,13 +192,28 @@ export class MockAdapter implements Adapter {
    */
   async findMany<T>(ctx: AdapterContext): Promise<AdapterResponse<T[]>> {
     return this.executeWithMiddleware<T[]>('findMany', ctx, async () => {
-      const { data, meta } = await this.driver.findMany<T>(ctx.entity, {
-        where: ctx.filter,
-        orderBy: ctx.orderBy,
-        limit: ctx.limit,
-        offset: ctx.offset as number | undefined,
-        include: ctx.include,
-      });
+      const pagination = this.schemas.get(ctx.entity)?.api?.pagination;
+      const cursorStyle = pagination?.style === 'cursor';
+      let found: { data: T[]; meta: QueryMeta };
+      try {
+        found = await this.driver.findMany<T>(ctx.entity, {
+          where: ctx.filter,
+          orderBy: ctx.orderBy,
+          limit: ctx.limit ?? (cursorStyle ? pagination?.defaultLimit : undefined),
+          offset: ctx.offset as number | undefined,
+          cursor: ctx.cursor,
+          pagination: pagination?.style,
+          include: ctx.include,
+          withDeleted: ctx.withDeleted,
+          onlyDeleted: ctx.onlyDeleted,
+        });
+      } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return { data: [] as T[], error };
+        }
+        throw error;
+      }
+      const { data, meta } = found;
 
       // Handle includes if specified
       let results = data;
@@ -213,6 +231,8 @@ export class MockAdapter implements Adapter {
         meta: {
           total: meta.total,
           hasMore: meta.hasMore,
+          nextCursor: meta.nextCursor,
+          prevCursor: meta.prevCursor,
         },
       };
     });
@@ -241,7 +261,8 @@ export class MockAdapter implements Adapter {
   }
 
   /**
-   * Update an existing entity.
+   * Update an existing entity. For versioned entities a stale
+   * `expectedVersion` returns a ConflictError carrying the current record.
    *
    * @param ctx - The adapter context with params and data
    * @returns The updated entity
@@ -252,6 +273,7 @@ export class MockAdapter implements Adapter {
    *   entity: 'user',
    *   params: { id: '123' },
    *   data: { name: 'Jane' },
+   *   expectedVersion: 2,
    * });
    * ```
    */
@@ -259,13 +281,21 @@ export class MockAdapter implements Adapter {
     return this.executeWithMiddleware<T>('update', ctx, async () => {
       const where = this.buildWhere(ctx);
       const data = this.prepareUpdateData(ctx.entity, ctx.data as Record<string, unknown>);
-      const result = await this.driver.update<T>(ctx.entity, where, data);
-      return { data: result as T };
+      try {
+        const result = await this.driver.update<T>(ctx.entity, where, data, { expectedVersion: ctx.expectedVersion });
+        return { data: result as T };
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          return { data: null as T, error };
+        }
+        throw error;
+      }
     });
   }
 
   /**
-   * Delete an entity.
+   * Delete an entity. Soft-delete entities get `deletedAt` set unless
+   * `purge` is passed.
    *
    * @param ctx - The adapter context with params
    * @returns Void on success
@@ -283,16 +313,68 @@ export class MockAdapter implements Adapter {
       const where = this.buildWhere(ctx);
 
       // Store the record being deleted for RLS post-check
-      const existing = await this.driver.findOne(ctx.entity, where);
+      const existing = await this.driver.findOne(ctx.entity, where, { withDeleted: ctx.purge });
       if (existing) {
         middlewareCtx.metadata.deletedRow = existing;
       }
 
-      await this.driver.delete(ctx.entity, where);
+      if (ctx.purge) {
+        await this.driver.purge(ctx.entity, where);
+      } else {
+        await this.driver.delete(ctx.entity, where);
+      }
       return { data: undefined };
     });
   }
 
+  /**
+   * Restore a soft-deleted entity.
+   *
+   * @param ctx - The adapter context with params
+   * @returns The restored entity, or null if no deleted entity matched
+   *
+   * @example
+   * ```typescript
+   * const result = await adapter.restore<User>({
+   *   entity: 'user',
+   *   params: { id: '123' },
+   * });
+   * ```
+   */
+  async restore<T>(ctx: AdapterContext): Promise<AdapterResponse<T>> {
+    return this.executeWithMiddleware<T>('restore', ctx, async () => {
+      const where = this.buildWhere(ctx);
+      const result = await this.driver.restore<T>(ctx.entity, where);
+      return { data: result as T };
+    });
+  }
+
+  /**
+   * Observe inserts, updates and deletes of an entity.
+   *
+   * Events come straight from the storage driver and do not pass through
+   * the middleware chain, so RLS does not filter them.
+   *
+   * @param entity - The entity name
+   * @param filter - Filter conditions ({} for every record)
+   * @param callback - Called once per committed write
+   * @returns Function that stops the subscription
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = adapter.subscribe<User>('user', { role: 'admin' }, (event) => {
+   *   console.log(event.type, event.record.name);
+   * });
+   * ```
+   */
+  subscribe<T>(entity: string, filter: Record<string, unknown>, callback: ChangeListener<T>): Unsubscribe {
+    if (!this.driver.subscribe) {
+      throw new Error(`Storage driver '${this.driver.name}' does not support subscriptions`);
+    }
+
+    return this.driver.subscribe<T>(entity, filter, callback);
+  }
+
   /**
    * Seed the database with fake data.
    *
@@ -342,10 +424,11 @@ export class MockAdapter implements Adapter {
    *
    * @param entityName - The entity type name
    * @param filter - Optional filter
+   * @param scope - Whether soft-deleted entities are counted
    * @returns The count
    */
-  async count(entityName: string, filter?: Record<string, unknown>): Promise<number> {
-    return this.driver.count(entityName, filter);
+  async count(entityName: string, filter?: Record<string, unknown>, scope?: SoftDeleteScope): Promise<number> {
+    return this.driver.count(entityName, filter, scope);
   }
 
   /**
@@ -283,8 +283,26 @@ export class DataGenerator {
         return faker.datatype.boolean();
 
       case 'date':
+      case 'datetime':
         return faker.date.recent();
 
+      case 'time':
+        return faker.date.recent().toISOString().slice(11, 19);
+
+      case 'decimal':
+        return this.generateDecimal(field);
+
+      case 'bigint':
+        return faker.number.bigInt({ min: field.constraints?.min ?? 1, max: field.constraints?.max ?? 1000000 });
+
+      case 'bytes': {
+        const length = faker.number.int({ min: field.constraints?.min ?? 8, max: field.constraints?.max ?? 32 });
+        return Uint8Array.from({ length }, () => faker.number.int(255));
+      }
+
+      case 'json':
+        return {};
+
       case 'array':
         return this.generateArray(field);
 
@@ -318,6 +336,18 @@ export class DataGenerator {
     return faker.number.float({ min, max, fractionDigits: 2 });
   }
 
+  /**
+   * Generate a decimal string respecting precision, scale and bounds.
+   */
+  private generateDecimal(field: FieldDefinition): string {
+    const scale = field.constraints?.scale ?? 2;
+    const precision = field.constraints?.precision;
+    const largest = precision !== undefined ? 10 ** (precision - scale) - 10 ** -scale : 1000;
+    const min = field.constraints?.min ?? 0;
+    const max = field.constraints?.max ?? Math.min(largest, 1000);
+    return faker.finance.amount({ min, max, dec: scale });
+  }
+
   /**
    * Generate an array value based on items definition.
    */
@@ -16,5 +16,29 @@ export { DataGenerator, dataGenerator } from './generator';
 export { generateFactory, generateFactories } from './factory';
 
 // Re-export storage drivers for convenience (in-memory and persistent)
-export { MswStorageDriver, MemoryStorageDriver, LocalStorageDriver } from '../../storage';
-export type { StorageDriver, StorageDriverConfig, QueryOptions, QueryMeta, LocalStorageDriverConfig } from '../../storage';
+export {
+  MswStorageDriver,
+  MemoryStorageDriver,
+  LocalStorageDriver,
+  isInScope,
+  nextVersion,
+  ConflictError,
+  createSnapshot,
+  restoreSnapshot,
+  SnapshotError,
+} from '../../storage';
+export type {
+  StorageDriver,
+  StorageDriverConfig,
+  QueryOptions,
+  QueryMeta,
+  SoftDeleteScope,
+  UpdateOptions,
+  LocalStorageDriverConfig,
+  ChangeEvent,
+  ChangeListener,
+  Unsubscribe,
+  Snapshot,
+  ImportSnapshotOptions,
+  SnapshotImportResult,
+} from '../../storage';
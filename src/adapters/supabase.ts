@@ -12,6 +12,8 @@ import type {
   AdapterContext,
   AdapterResponse,
 } from './types';
+import type { ChangeEvent, ChangeListener, Unsubscribe } from '../storage/types';
+import { matchesWhere } from '../storage/filter';
 
 /**
  * Supabase client type (from @supabase/supabase-js).
@@ -19,8 +21,42 @@ import type {
  */
 export interface SupabaseClient {
   from(table: string): SupabaseQueryBuilder;
+  /** Realtime channel factory, needed for subscribe() */
+  channel?(name: string): SupabaseRealtimeChannel;
+  removeChannel?(channel: SupabaseRealtimeChannel): Promise<unknown>;
 }
 
+/**
+ * Supabase Realtime channel interface.
+ */
+interface SupabaseRealtimeChannel {
+  on(
+    type: 'postgres_changes',
+    filter: { event: '*'; schema: string; table: string; filter?: string },
+    callback: (payload: SupabaseChangePayload) => void
+  ): SupabaseRealtimeChannel;
+  subscribe(): SupabaseRealtimeChannel;
+}
+
+/**
+ * Postgres change payload delivered by Supabase Realtime.
+ */
+interface SupabaseChangePayload {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Record<string, unknown>;
+  old: Record<string, unknown>;
+}
+
+/** Realtime filter operators by Schemock operator */
+const REALTIME_OPERATORS: Record<string, string> = {
+  equals: 'eq',
+  lt: 'lt',
+  lte: 'lte',
+  gt: 'gt',
+  gte: 'gte',
+  in: 'in',
+};
+
 /**
  * Supabase query builder interface.
  */
@@ -253,6 +289,81 @@ export class SupabaseAdapter implements Adapter {
     });
   }
 
+  /**
+   * Observe inserts, updates and deletes through Supabase Realtime.
+   *
+   * The table must be part of the supabase_realtime publication. A filter
+   * with a single eq/lt/lte/gt/gte/in condition is applied by the server;
+   * anything else is evaluated on the client. Deletes are always delivered
+   * because Postgres only sends the primary key of deleted rows unless the
+   * table has REPLICA IDENTITY FULL.
+   */
+  subscribe<T>(entity: string, filter: Record<string, unknown>, callback: ChangeListener<T>): Unsubscribe {
+    const client = this.client;
+    if (!client.channel || !client.removeChannel) {
+      throw new Error('SupabaseAdapter.subscribe() requires a client with Realtime (channel/removeChannel)');
+    }
+
+    const table = this.getTable(entity);
+    const serverFilter = this.toRealtimeFilter(filter);
+    const channel = client
+      .channel(`schemock:${table}:${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table, filter: serverFilter }, (payload) => {
+        const event: ChangeEvent = {
+          type: payload.eventType === 'INSERT' ? 'insert' : payload.eventType === 'UPDATE' ? 'update' : 'delete',
+          entity,
+          record: payload.eventType === 'DELETE' ? payload.old : payload.new,
+          ...(payload.eventType === 'UPDATE' && Object.keys(payload.old).length > 0 ? { previous: payload.old } : {}),
+        };
+
+        const matches =
+          serverFilter !== undefined ||
+          event.type === 'delete' ||
+          matchesWhere(event.record, filter) ||
+          (event.previous !== undefined && matchesWhere(event.previous, filter));
+        if (matches) callback(event as ChangeEvent<T>);
+      })
+      .subscribe();
+
+    return () => {
+      void client.removeChannel!(channel);
+    };
+  }
+
+  /**
+   * Convert a single-condition filter to the Realtime filter syntax
+   * (column=op.value). Returns undefined when the server cannot apply it.
+   */
+  private toRealtimeFilter(filter: Record<string, unknown>): string | undefined {
+    const entries = Object.entries(filter);
+    if (entries.length !== 1) return undefined;
+
+    const [column, condition] = entries[0];
+    if (['AND', 'OR', 'NOT'].includes(column) || condition === null) return undefined;
+
+    if (typeof condition !== 'object' || condition instanceof Date) {
+      return `${column}=eq.${this.formatRealtimeValue(condition)}`;
+    }
+    if (Array.isArray(condition)) {
+      return `${column}=in.(${condition.map((v) => this.formatRealtimeValue(v)).join(',')})`;
+    }
+
+    const operators = Object.entries(condition as Record<string, unknown>);
+    if (operators.length !== 1) return undefined;
+
+    const [operator, value] = operators[0];
+    const mapped = REALTIME_OPERATORS[operator];
+    if (!mapped || value === null) return undefined;
+
+    return mapped === 'in'
+      ? `${column}=in.(${(value as unknown[]).map((v) => this.formatRealtimeValue(v)).join(',')})`
+      : `${column}=${mapped}.${this.formatRealtimeValue(value)}`;
+  }
+
+  private formatRealtimeValue(value: unknown): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
   /**
    * Apply filter conditions to query.
    */
@@ -9,6 +9,7 @@
  */
 
 import type { EntitySchema } from '../schema/types';
+import type { ChangeListener, Unsubscribe } from '../storage/types';
 
 /**
  * Context passed to adapter methods for each operation.
@@ -41,10 +42,20 @@ export interface AdapterContext {
   limit?: number;
   /** Pagination: offset for cursor-based or offset pagination */
   offset?: number | string;
+  /** Pagination: opaque cursor from a previous response's nextCursor/prevCursor */
+  cursor?: string;
   /** Fields to select/include in the response */
   select?: string[];
   /** Relations to include in the response */
   include?: string[];
+  /** Soft delete: also return deleted records */
+  withDeleted?: boolean;
+  /** Soft delete: return only deleted records */
+  onlyDeleted?: boolean;
+  /** Soft delete: remove the record permanently on delete */
+  purge?: boolean;
+  /** Versioned entities: version the update is based on (sent as If-Match) */
+  expectedVersion?: number;
   /** Custom operation name for non-CRUD operations */
   operation?: string;
   /** HTTP method override for custom operations */
@@ -89,6 +100,8 @@ export interface AdapterResponseMeta {
   total?: number;
   /** Cursor for next page (cursor-based pagination) */
   nextCursor?: string;
+  /** Cursor for previous page (cursor-based pagination) */
+  prevCursor?: string;
   /** Whether there are more items available */
   hasMore?: boolean;
   /** Duration of the operation in milliseconds */
@@ -202,6 +215,22 @@ export interface Adapter {
    */
   delete(ctx: AdapterContext): Promise<AdapterResponse<void>>;
 
+  /**
+   * Restore a soft-deleted entity (optional).
+   *
+   * @param ctx - The adapter context with entity name and params (id)
+   * @returns The restored entity, or null if no deleted entity matched
+   *
+   * @example
+   * ```typescript
+   * const result = await adapter.restore?.<User>({
+   *   entity: 'user',
+   *   params: { id: '123' },
+   * });
+   * ```
+   */
+  restore?<T>(ctx: AdapterContext): Promise<AdapterResponse<T>>;
+
   /**
    * Execute a custom operation (optional).
    *
@@ -218,6 +247,23 @@ export interface Adapter {
    * ```
    */
   custom?<T>(ctx: AdapterContext): Promise<AdapterResponse<T>>;
+
+  /**
+   * Observe inserts, updates and deletes of an entity (optional).
+   *
+   * @param entity - The entity name
+   * @param filter - Filter conditions ({} for every record)
+   * @param callback - Called once per committed write
+   * @returns Function that stops the subscription
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = adapter.subscribe?.<User>('user', { role: 'admin' }, (event) => {
+   *   console.log(event.type, event.record);
+   * });
+   * ```
+   */
+  subscribe?<T>(entity: string, filter: Record<string, unknown>, callback: ChangeListener<T>): Unsubscribe;
 }
 
 /**
@@ -23,13 +23,24 @@ interface CLIOptions {
   only?: string[];
   exclude?: string[];
   readme?: boolean;
+  audit?: boolean;
+  // Migration options
+  name?: string;
+  rename?: string[];
+  baseline?: boolean;
   // Form schema options
   withFormSchemas?: boolean;
   // Framework options
-  framework?: 'react' | 'none';
+  framework?: 'react' | 'vue' | 'svelte' | 'none';
   // AI setup options
   cursor?: boolean;
   force?: boolean;
+  // Postman options
+  groupBy?: string;
+  // Seed options
+  scenario?: string;
+  url?: string;
+  seed?: number;
 }
 
 /**
@@ -74,14 +85,30 @@ function parseArgs(args: string[]): { command: string; options: CLIOptions; posi
       options.exclude = args[++i].split(',');
     } else if (arg === '--readme') {
       options.readme = true;
+    } else if (arg === '--audit') {
+      options.audit = true;
+    } else if (arg === '--name') {
+      options.name = args[++i];
+    } else if (arg === '--rename') {
+      options.rename = [...(options.rename ?? []), ...args[++i].split(',')];
+    } else if (arg === '--baseline') {
+      options.baseline = true;
     } else if (arg === '--with-form-schemas') {
       options.withFormSchemas = true;
     } else if (arg === '--framework') {
-      options.framework = args[++i] as 'react' | 'none';
+      options.framework = args[++i] as 'react' | 'vue' | 'svelte' | 'none';
     } else if (arg === '--cursor') {
       options.cursor = true;
     } else if (arg === '--force') {
       options.force = true;
+    } else if (arg === '--group-by') {
+      options.groupBy = args[++i];
+    } else if (arg === '--scenario') {
+      options.scenario = args[++i];
+    } else if (arg === '--url') {
+      options.url = args[++i];
+    } else if (arg === '--seed') {
+      options.seed = Number(args[++i]);
     } else if (!arg.startsWith('-')) {
       positional.push(arg);
     }
@@ -104,10 +131,27 @@ Commands:
   init [--template <template>]     Initialize a new Schemock project
   generate [options]               Generate TypeScript types, client, and hooks
   generate:sql [options]           Generate PostgreSQL SQL schema with RLS
-  generate:openapi [--output <file>] [--format <json|yaml>]
-                                   Generate OpenAPI 3.0 specification
-  generate:postman [--output <file>]
-                                   Generate Postman collection
+  generate:migration [options]     Generate up/down SQL migrations from schema changes
+  import:sql <file|dir> [options]  Import schemas from schema.sql, pg_dump output
+                                   or a PGlite data directory
+  import:openapi <file> [options]  Import entities and custom endpoints from an
+                                   OpenAPI 3 document (JSON)
+  generate:openapi --output <file> [--format <json|yaml>]
+                                   Generate an OpenAPI 3.1 specification from
+                                   the schemas and endpoints in the config
+  generate:postman --output <file> [--group-by <tags|module|group>]
+                                   Generate a Postman collection with tests and
+                                   one environment per target
+  generate:tests [--output <dir>]  Generate Vitest contract tests for entities
+                                   and endpoints, runnable against any target
+  seed [--scenario <name>]         Build a defineScenario() dataset; lists the
+                                   scenarios when no name is given
+  snapshot:save [file] --url <origin>|--scenario <name>
+                                   Save the records of a running API or a
+                                   scenario to a snapshot file
+  snapshot:restore <file> [--url <origin>|--output <file>]
+                                   Migrate a snapshot to the current schemas and
+                                   create its records or write the migrated file
   setup:ai [options]               Generate CLAUDE.md for AI tool integration
   help                             Show this help message
   version                          Show version
@@ -116,16 +160,19 @@ Generate Options:
   --adapter, -a <type>    Adapter type: mock|supabase|firebase|fetch|graphql (default: mock)
   --output, -o <dir>      Output directory (default: ./src/generated)
   --config, -c <file>     Config file path (default: ./schemock.config.ts)
-  --framework <type>      Framework integration: react|none (default: none)
-                          react: Generate React Query hooks and SchemockProvider
-                          none:  Generate only framework-agnostic client code
+  --framework <type>      Framework integration: react|vue|svelte|none (default: none)
+                          react:  Generate React Query hooks and SchemockProvider
+                          vue:    Generate Vue Query composables and SchemockPlugin
+                          svelte: Generate Svelte Query stores and client context
+                          none:   Generate only framework-agnostic client code
   --only <entities>       Only generate for these entities (comma-separated)
                           Applies to ALL targets, overrides config
   --exclude <entities>    Exclude these entities (comma-separated)
                           Applies to ALL targets, overrides config
   --with-form-schemas     Generate Zod validation schemas, form defaults,
                           and table column metadata
-  --watch, -w             Watch mode - regenerate on schema changes
+  --watch, -w             Watch schema, endpoint and middleware files and
+                          regenerate the targets affected by a change
   --dry-run               Show what would be generated without writing files
   --verbose, -v           Verbose output
 
@@ -134,10 +181,47 @@ SQL Generation Options (generate:sql):
   --combined              Generate single combined schema.sql file
   --target <platform>     Target: postgres|supabase|pglite (default: postgres)
   --only <sections>       Only generate specific sections (comma-separated):
-                          tables,foreign-keys,indexes,rls,functions,triggers
+                          tables,foreign-keys,indexes,rls,functions,triggers,audit
+  --audit                 Include the audit_events table for SqlAuditStore
   --readme                Generate README.md documentation
   --dry-run               Show what would be generated without writing files
 
+Migration Options (generate:migration):
+  --output, -o <dir>      Migrations directory, also holds schemock.snapshot.json
+                          (default: ./migrations)
+  --name <name>           Migration name (default: schema_changes)
+  --target <platform>     Target: postgres|supabase|pglite (default: postgres)
+  --rename <renames>      Rename instead of drop + add (comma-separated, repeatable):
+                          old_table=new_table, table.old_column=new_column
+  --baseline              Record the current schemas as deployed, without a migration
+  --dry-run               Show what would be generated without writing files
+  --verbose, -v           List every migration step
+
+SQL Import Options (import:sql):
+  --output, -o <dir>      Directory for schema files (default: ./src/schemas)
+  --force                 Overwrite existing schema files
+  --dry-run               Show what would be written without writing files
+
+OpenAPI Import Options (import:openapi):
+  --output, -o <dir>      Directory for schema files (default: ./src/schemas)
+                          Endpoints are written to <dir>/endpoints/<tag>.ts
+  --force                 Overwrite existing schema files
+  --dry-run               Show what would be written without writing files
+
+Seed Options (seed):
+  --scenario <name>       Scenario to build
+  --output, -o <file>     JSON file for the dataset (default: ./seed-<name>.json)
+  --url <origin>          Create the records through a running API instead
+  --seed <number>         Faker seed (default: the scenario's, then fakerSeed)
+
+Snapshot Options (snapshot:save, snapshot:restore):
+  --url <origin>          Running API to read the records from or create them through
+  --scenario <name>       Snapshot a seed scenario instead (snapshot:save)
+  --seed <number>         Faker seed for --scenario (default: the scenario's, then fakerSeed)
+  --output, -o <file>     Write the migrated snapshot (snapshot:restore)
+  --rename <renames>      Renames since the snapshot was taken (comma-separated, repeatable):
+                          entity.oldField=newField, oldEntity=newEntity
+
 AI Setup Options (setup:ai):
   --cursor                Also generate .cursorrules for Cursor IDE
   --force                 Overwrite existing files without checking
@@ -151,6 +235,7 @@ Examples:
   schemock init --template basic
   schemock generate                           # Framework-agnostic (types + client)
   schemock generate --framework react         # With React Query hooks
+  schemock generate --framework vue           # With Vue Query composables
   schemock generate --adapter mock --output ./src/api
   schemock generate --adapter supabase
   schemock generate --only user,post          # Only generate User and Post
@@ -158,8 +243,19 @@ Examples:
   schemock generate:sql --output ./sql --readme
   schemock generate:sql --target supabase --combined
   schemock generate:sql --only tables,indexes,rls
+  schemock generate:sql --audit               # Add the audit_events table
+  schemock generate:migration --baseline      # Snapshot an existing database
+  schemock generate:migration --name add_bio
+  schemock generate:migration --rename users.fullName=name
+  schemock import:sql schema.sql --output ./src/schemas
+  schemock import:sql ./pgdata                # Existing PGlite database
+  schemock import:openapi openapi.json --output ./src/schemas
   schemock generate:openapi --output api.yaml --format yaml
-  schemock generate:postman --output collection.json
+  schemock generate:postman --output postman/collection.json --group-by module
+  schemock generate:tests --output tests/contract
+  schemock seed --scenario busy-org --url http://localhost:3000
+  schemock snapshot:save bug-1234.json --url http://localhost:3000
+  schemock snapshot:restore bug-1234.json --rename user.fullName=name --output bug-1234.json
   schemock setup:ai                            # Generate CLAUDE.md
   schemock setup:ai --cursor                   # Also generate .cursorrules
   schemock setup:ai --dry-run                  # Preview without writing
@@ -371,7 +467,8 @@ async function generateSQLCommand(options: CLIOptions): Promise<void> {
     config: options.config,
     combined: options.combined,
     target: options.target,
-    only: options.only as ('tables' | 'foreign-keys' | 'indexes' | 'rls' | 'functions' | 'triggers')[] | undefined,
+    only: options.only as ('tables' | 'foreign-keys' | 'indexes' | 'rls' | 'functions' | 'triggers' | 'audit')[] | undefined,
+    audit: options.audit,
     readme: options.readme,
     dryRun: options.dryRun,
     verbose: options.verbose,
@@ -379,50 +476,62 @@ async function generateSQLCommand(options: CLIOptions): Promise<void> {
 }
 
 /**
- * Generate OpenAPI specification command.
+ * Generate SQL migrations from schema changes.
  */
-async function generateOpenAPICommand(options: CLIOptions): Promise<void> {
-  const { generateOpenAPI, registerSchemas } = await import('./generator');
-
-  console.log('\nGenerating OpenAPI specification...');
-
-  // Note: In a real implementation, we would load schemas from the project
-  // For now, show how to use it
-  if (!options.output) {
-    console.log('\nUsage: schemock generate:openapi --output <file> [--format <json|yaml>]');
-    console.log('\nThis command generates an OpenAPI 3.0 specification from your schemas.');
-    console.log('\nTo use programmatically:');
-    console.log(`
-  import { generateOpenAPI, registerSchemas } from 'schemock/generator';
-  import { userSchema, postSchema } from './schemas';
-
-  registerSchemas([userSchema, postSchema]);
-  const spec = generateOpenAPI({
-    title: 'My API',
-    version: '1.0.0',
+async function generateMigrationCommand(options: CLIOptions): Promise<void> {
+  const { generateMigrationFiles } = await import('./cli/commands/generate-migration');
+  await generateMigrationFiles({
+    output: options.output,
+    config: options.config,
+    name: options.name,
+    target: options.target,
+    rename: options.rename,
+    baseline: options.baseline,
+    dryRun: options.dryRun,
+    verbose: options.verbose,
   });
-`);
-    return;
-  }
-
-  const outputPath = resolve(options.output);
-  const format = options.format || (outputPath.endsWith('.yaml') || outputPath.endsWith('.yml') ? 'yaml' : 'json');
+}
 
-  // Generate empty spec as placeholder
-  const spec = generateOpenAPI({
-    title: 'API Documentation',
-    version: '1.0.0',
-    description: 'Generated by Schemock',
+/**
+ * Import SQL schema command.
+ */
+async function importSQLCommand(input: string | undefined, options: CLIOptions): Promise<void> {
+  const { importSqlFiles } = await import('./cli/commands/import-sql');
+  await importSqlFiles({
+    input: input ?? '',
+    output: options.output,
+    force: options.force,
+    dryRun: options.dryRun,
+    verbose: options.verbose,
   });
+}
 
-  const output = format === 'yaml'
-    ? toYAML(spec)
-    : JSON.stringify(spec, null, 2);
+/**
+ * Import OpenAPI document command.
+ */
+async function importOpenAPICommand(input: string | undefined, options: CLIOptions): Promise<void> {
+  const { importOpenApiFiles } = await import('./cli/commands/import-openapi');
+  await importOpenApiFiles({
+    input: input ?? '',
+    output: options.output,
+    force: options.force,
+    dryRun: options.dryRun,
+    verbose: options.verbose,
+  });
+}
 
-  mkdirSync(dirname(outputPath), { recursive: true });
-  writeFileSync(outputPath, output);
-  console.log(`  Generated: ${outputPath}`);
-  console.log('\n✓ OpenAPI specification generated successfully!\n');
+/**
+ * Generate OpenAPI specification command.
+ */
+async function generateOpenAPICommand(options: CLIOptions): Promise<void> {
+  const { generateOpenApiFile } = await import('./cli/commands/generate-openapi');
+  await generateOpenApiFile({
+    output: options.output,
+    format: options.format,
+    config: options.config,
+    dryRun: options.dryRun,
+    verbose: options.verbose,
+  });
 }
 
 /**
@@ -443,84 +552,72 @@ async function setupAICommand(options: CLIOptions): Promise<void> {
  * Generate Postman collection command.
  */
 async function generatePostmanCommand(options: CLIOptions): Promise<void> {
-  const { generatePostmanCollection, registerSchemasForPostman } = await import('./generator');
-
-  console.log('\nGenerating Postman collection...');
-
-  if (!options.output) {
-    console.log('\nUsage: schemock generate:postman --output <file>');
-    console.log('\nThis command generates a Postman collection from your schemas.');
-    console.log('\nTo use programmatically:');
-    console.log(`
-  import { generatePostmanCollection, registerSchemasForPostman } from 'schemock/generator';
-  import { userSchema, postSchema } from './schemas';
-
-  registerSchemasForPostman([userSchema, postSchema]);
-  const collection = generatePostmanCollection({
-    name: 'My API',
-    baseUrl: 'http://localhost:3000',
+  const { generatePostmanFiles } = await import('./cli/commands/generate-postman');
+  await generatePostmanFiles({
+    output: options.output,
+    groupBy: options.groupBy,
+    config: options.config,
+    dryRun: options.dryRun,
+    verbose: options.verbose,
   });
-`);
-    return;
-  }
-
-  const outputPath = resolve(options.output);
+}
 
-  // Generate empty collection as placeholder
-  const collection = generatePostmanCollection({
-    name: 'API Collection',
-    baseUrl: 'http://localhost:3000',
-    description: 'Generated by Schemock',
+/**
+ * Generate contract tests command.
+ */
+async function generateTestsCommand(options: CLIOptions): Promise<void> {
+  const { generateContractTests } = await import('./cli/commands/generate-tests');
+  await generateContractTests({
+    output: options.output,
+    config: options.config,
+    dryRun: options.dryRun,
+    verbose: options.verbose,
   });
-
-  mkdirSync(dirname(outputPath), { recursive: true });
-  writeFileSync(outputPath, JSON.stringify(collection, null, 2));
-  console.log(`  Generated: ${outputPath}`);
-  console.log('\n✓ Postman collection generated successfully!\n');
 }
 
 /**
- * Simple YAML serializer for OpenAPI output.
+ * Seed scenario command.
  */
-function toYAML(obj: unknown, indent = 0): string {
-  const spaces = '  '.repeat(indent);
-
-  if (obj === null || obj === undefined) {
-    return 'null';
-  }
-
-  if (typeof obj === 'boolean' || typeof obj === 'number') {
-    return String(obj);
-  }
-
-  if (typeof obj === 'string') {
-    // Check if string needs quoting
-    if (obj.includes('\n') || obj.includes(':') || obj.includes('#') || obj === '') {
-      return `"${obj.replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
-    }
-    return obj;
-  }
-
-  if (Array.isArray(obj)) {
-    if (obj.length === 0) return '[]';
-    return obj.map(item => `${spaces}- ${toYAML(item, indent + 1).trimStart()}`).join('\n');
-  }
+async function seedCommand(options: CLIOptions): Promise<void> {
+  const { seedScenarioCommand } = await import('./cli/commands/seed');
+  await seedScenarioCommand({
+    scenario: options.scenario,
+    output: options.output,
+    url: options.url,
+    fakerSeed: options.seed,
+    config: options.config,
+    verbose: options.verbose,
+  });
+}
 
-  if (typeof obj === 'object') {
-    const entries = Object.entries(obj);
-    if (entries.length === 0) return '{}';
-    return entries
-      .map(([key, value]) => {
-        const yamlValue = toYAML(value, indent + 1);
-        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-          return `${spaces}${key}:\n${yamlValue}`;
-        }
-        return `${spaces}${key}: ${yamlValue}`;
-      })
-      .join('\n');
-  }
+/**
+ * Save snapshot command.
+ */
+async function snapshotSaveCommand(file: string | undefined, options: CLIOptions): Promise<void> {
+  const { saveSnapshotCommand } = await import('./cli/commands/snapshot');
+  await saveSnapshotCommand({
+    file: file || './snapshot.json',
+    url: options.url,
+    scenario: options.scenario,
+    fakerSeed: options.seed,
+    config: options.config,
+    verbose: options.verbose,
+  });
+}
 
-  return String(obj);
+/**
+ * Restore snapshot command.
+ */
+async function snapshotRestoreCommand(file: string | undefined, options: CLIOptions): Promise<void> {
+  const { restoreSnapshotCommand } = await import('./cli/commands/snapshot');
+  await restoreSnapshotCommand({
+    file: file ?? '',
+    url: options.url,
+    output: options.output,
+    rename: options.rename,
+    config: options.config,
+    verbose: options.verbose,
+  });
 }
 
 /**
@@ -528,7 +625,7 @@ function toYAML(obj: unknown, indent = 0): string {
  */
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
-  const { command, options } = parseArgs(args);
+  const { command, options, positional } = parseArgs(args);
 
   switch (command) {
     case 'help':
@@ -560,10 +657,38 @@ async function main(): Promise<void> {
       await generatePostmanCommand(options);
       break;
 
+    case 'generate:tests':
+      await generateTestsCommand(options);
+      break;
+
+    case 'seed':
+      await seedCommand(options);
+      break;
+
+    case 'snapshot:save':
+      await snapshotSaveCommand(positional[0], options);
+      break;
+
+    case 'snapshot:restore':
+      await snapshotRestoreCommand(positional[0], options);
+      break;
+
     case 'generate:sql':
       await generateSQLCommand(options);
       break;
 
+    case 'generate:migration':
+      await generateMigrationCommand(options);
+      break;
+
+    case 'import:sql':
+      await importSQLCommand(positional[0], options);
+      break;
+
+    case 'import:openapi':
+      await importOpenAPICommand(positional[0], options);
+      break;
+
     case 'setup:ai':
       await setupAICommand(options);
       break;
@@ -647,7 +647,7 @@ function normalizeWhitespace(source: string): string {
  *
  * Handles both regular functions and arrow functions
  */
-function serializeMockResolver(resolver: Function): string {
+export function serializeMockResolver(resolver: Function): string {
   let source = resolver.toString();
 
   // Normalize whitespace - handles tsx/ts-node sourcemap-preserved spacing
@@ -660,6 +660,11 @@ function serializeMockResolver(resolver: Function): string {
     return source;
   }
 
+  // Method shorthand (`resolve(data) { ... }`) is not an expression; read it as a function
+  if (/^(async\s+)?[\w$]+\s*\(/.test(source) && !/^(async\s+)?function\b/.test(source)) {
+    source = source.replace(/^(async\s+)?/, '$1function ');
+  }
+
   // If it's a regular function, convert to arrow function format
   if (source.startsWith('async function') || source.startsWith('function')) {
     // Extract parameters and body
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSchemas } from './analyze';
+import { analyzeViews } from './analyze-views';
+import { defineData, defineView, embed, pick, field, hasMany, hasOne, belongsTo } from '../schema';
+
+describe('analyzeViews', () => {
+  const User = defineData('user', {
+    id: field.uuid(),
+    name: field.string(),
+    email: field.email(),
+    posts: hasMany('post', { foreignKey: 'authorId' }),
+    profile: hasOne('profile', { foreignKey: 'userId' }),
+  });
+
+  const Post = defineData('post', {
+    id: field.uuid(),
+    title: field.string(),
+    views: field.number(),
+    authorId: field.uuid(),
+    author: belongsTo('user', { foreignKey: 'authorId' }),
+  });
+
+  const Profile = defineData('profile', {
+    id: field.uuid(),
+    userId: field.uuid(),
+    bio: field.string(),
+  });
+
+  const Tag = defineData('tag', {
+    id: field.uuid(),
+    label: field.string(),
+  });
+
+  const schemas = analyzeSchemas([User, Post, Profile, Tag], { apiPrefix: '/api' });
+
+  it('should find the root entity from picked fields', () => {
+    const view = defineView('user-full', {
+      ...pick(User, ['id', 'name']),
+    }, { endpoint: '/api/users/:id/full', params: ['id'] });
+
+    const [analyzed] = analyzeViews([view], schemas);
+
+    expect(analyzed.pascalName).toBe('UserFull');
+    expect(analyzed.camelName).toBe('userFull');
+    expect(analyzed.pathParams).toEqual(['id']);
+    expect(analyzed.root).toEqual({ entity: 'user', pascalName: 'User', tableName: 'users', keyParam: 'id' });
+    expect(analyzed.fields.map((f) => [f.name, f.kind, f.tsType])).toEqual([
+      ['id', 'field', "User['id']"],
+      ['name', 'field', "User['name']"],
+    ]);
+  });
+
+  it('should fall back to the entity whose endpoint prefixes the view endpoint', () => {
+    const view = defineView('user-posts', {
+      posts: embed(Post),
+    }, { endpoint: '/api/users/:id/posts-view', params: [] });
+
+    const [analyzed] = analyzeViews([view], schemas);
+
+    expect(analyzed.root?.entity).toBe('user');
+    expect(analyzed.params).toEqual(['id']);
+  });
+
+  it('should resolve embeds through the root relations', () => {
+    const view = defineView('user-full', {
+      ...pick(User, ['id']),
+      posts: embed(Post, { limit: 5, orderBy: { views: 'desc' }, select: ['id', 'title'] }),
+      profile: embed(Profile),
+    }, { endpoint: '/api/users/:id/full', params: ['id'] });
+
+    const [analyzed] = analyzeViews([view], schemas);
+    const [, posts, profile] = analyzed.fields;
+
+    expect(posts.tsType).toBe("Array<Pick<Post, 'id' | 'title'>>");
+    expect(posts.embed).toMatchObject({
+      entity: 'post',
+      isArray: true,
+      foreignKey: 'authorId',
+      localKey: 'id',
+      select: ['id', 'title'],
+      orderBy: [{ field: 'views', direction: 'desc' }],
+      limit: 5,
+    });
+    expect(profile.tsType).toBe('Profile | null');
+    expect(profile.embed).toMatchObject({ isArray: false, foreignKey: 'userId', localKey: 'id' });
+  });
+
+  it('should embed the parent of a belongsTo relation as a single record', () => {
+    const view = defineView('post-detail', {
+      ...pick(Post, ['id', 'title']),
+      author: embed(User, { select: ['id', 'name'] }),
+    }, { endpoint: '/api/posts/:id/detail', params: ['id'] });
+
+    const [analyzed] = analyzeViews([view], schemas);
+
+    expect(analyzed.fields[2].tsType).toBe("Pick<User, 'id' | 'name'> | null");
+    expect(analyzed.fields[2].embed).toMatchObject({ isArray: false, foreignKey: 'id', localKey: 'authorId' });
+  });
+
+  it('should type nested objects and computed fields', () => {
+    const view = defineView('user-stats', {
+      ...pick(User, ['id']),
+      stats: {
+        postCount: field.computed({ mock: () => 3, resolve: () => 3 }),
+        topTag: field.computed({ mock: () => 'news', resolve: () => 'news' }),
+      },
+    }, { endpoint: '/api/users/:id/stats', params: ['id'] });
+
+    const [analyzed] = analyzeViews([view], schemas);
+    const stats = analyzed.fields[1];
+
+    expect(stats.kind).toBe('object');
+    expect(stats.tsType).toBe('{ postCount: number; topTag: string }');
+    expect(stats.fields?.[0].resolverSource).toContain('=> 3');
+  });
+
+  it('should reject embeds without a link to the root entity', () => {
+    const view = defineView('user-tags', {
+      ...pick(User, ['id']),
+      tags: embed(Tag),
+    }, { endpoint: '/api/users/:id/tags', params: ['id'] });
+
+    expect(() => analyzeViews([view], schemas)).toThrow("cannot embed 'tag' into 'user'");
+  });
+
+  it('should reject embeds selecting unknown fields', () => {
+    const view = defineView('user-posts', {
+      ...pick(User, ['id']),
+      posts: embed(Post, { select: ['id', 'missing' as 'id'] }),
+    }, { endpoint: '/api/users/:id/posts-view', params: ['id'] });
+
+    expect(() => analyzeViews([view], schemas)).toThrow("'missing', which is not a field of 'post'");
+  });
+
+  it('should reject plain fields that are not on the root entity', () => {
+    const view = defineView('user-extra', {
+      ...pick(User, ['id']),
+      nickname: field.string(),
+    }, { endpoint: '/api/users/:id/extra', params: ['id'] });
+
+    expect(() => analyzeViews([view], schemas)).toThrow('Use field.computed() for derived values');
+  });
+});
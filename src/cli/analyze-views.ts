@@ -0,0 +1,292 @@
+/**
+ * View analysis for Schemock CLI
+ *
+ * Resolves defineView() schemas against the analyzed entities: which entity
+ * a view is built around, how embedded entities are matched, and the
+ * TypeScript type of every field.
+ *
+ * @module cli/analyze-views
+ * @category CLI
+ */
+
+import type { ComputedFieldDefinition, EmbedConfig, EntitySchema, ViewFieldValue, ViewSchema } from '../schema/types';
+import { isComputedField } from '../schema/types';
+import type { AnalyzedSchema, AnalyzedView, AnalyzedViewEmbed, AnalyzedViewField } from './types';
+import { serializeMockResolver } from './analyze-endpoints';
+import { toCamelCase, toPascalCase } from './utils/pluralize';
+
+/**
+ * Embed definition as stored by defineView()
+ */
+interface EmbedDefinition {
+  _embed: true;
+  entity: EntitySchema;
+  config?: EmbedConfig;
+}
+
+/**
+ * Shared state while analyzing the fields of one view
+ */
+interface ViewContext {
+  view: ViewSchema;
+  schemas: AnalyzedSchema[];
+  root?: AnalyzedSchema;
+  params: string[];
+}
+
+/**
+ * Analyze an array of view schemas
+ *
+ * @param views - View schemas from discovery
+ * @param schemas - Analyzed entity schemas the views refer to
+ * @returns Array of analyzed views ready for code generation
+ * @throws Error when a field or embed cannot be resolved against the entities
+ */
+export function analyzeViews(views: ViewSchema[], schemas: AnalyzedSchema[]): AnalyzedView[] {
+  return views.map((view) => analyzeView(view, schemas));
+}
+
+/**
+ * Analyze a single view schema
+ */
+function analyzeView(view: ViewSchema, schemas: AnalyzedSchema[]): AnalyzedView {
+  const pathParams = (view.endpoint.match(/:(\w+)/g) || []).map((m) => m.slice(1));
+  const params = [...new Set([...view.params, ...pathParams])];
+  const root = findRootSchema(view, schemas);
+
+  let rootInfo: AnalyzedView['root'];
+  if (root) {
+    const keyParam = params.includes('id') ? 'id' : params[0];
+    if (!keyParam) {
+      throw new Error(
+        `View '${view.name}' is built around '${root.name}' but has no URL parameter to look the record up by`
+      );
+    }
+    rootInfo = { entity: root.name, pascalName: root.pascalName, tableName: root.tableName, keyParam };
+  }
+
+  const context: ViewContext = { view, schemas, root, params };
+
+  return {
+    name: view.name,
+    camelName: toCamelCase(view.name),
+    pascalName: toPascalCase(view.name),
+    endpoint: view.endpoint,
+    params,
+    pathParams,
+    root: rootInfo,
+    fields: Object.entries(view.fields).map(([name, value]) => analyzeViewField(name, value, context)),
+    original: view,
+  };
+}
+
+/**
+ * Find the entity a view is built around
+ *
+ * Fields copied with pick()/omit() are the entity's own field definitions,
+ * so the entity contributing most of them wins. Views without picked fields
+ * fall back to the entity whose endpoint prefixes the view endpoint
+ * (/api/users/:id/summary -> users).
+ */
+function findRootSchema(view: ViewSchema, schemas: AnalyzedSchema[]): AnalyzedSchema | undefined {
+  const entities = schemas.filter((s) => !s.isJunctionTable);
+  const votes = new Map<AnalyzedSchema, number>();
+
+  const collect = (fields: Record<string, unknown>): void => {
+    for (const [name, value] of Object.entries(fields)) {
+      if (isNestedObject(value)) {
+        collect(value);
+        continue;
+      }
+      const owner = entities.find((s) => s.original.fields[name] === value);
+      if (owner) votes.set(owner, (votes.get(owner) ?? 0) + 1);
+    }
+  };
+  collect(view.fields);
+
+  if (votes.size > 0) {
+    return [...votes.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  return entities
+    .filter((s) => view.endpoint.startsWith(`${s.endpoint}/`))
+    .sort((a, b) => b.endpoint.length - a.endpoint.length)[0];
+}
+
+/**
+ * Analyze one view field (recursing into nested objects)
+ */
+function analyzeViewField(name: string, value: ViewFieldValue | unknown, context: ViewContext): AnalyzedViewField {
+  const { view, root, params } = context;
+
+  if (isEmbedDefinition(value)) {
+    const embed = analyzeEmbed(name, value, context);
+    return { name, kind: 'embed', tsType: embedTsType(embed), embed };
+  }
+
+  if (isComputedField(value)) {
+    return {
+      name,
+      kind: 'computed',
+      tsType: inferComputedTsType(value),
+      resolverSource: serializeMockResolver(value.resolve),
+    };
+  }
+
+  if (isNestedObject(value)) {
+    const fields = Object.entries(value).map(([key, nested]) => analyzeViewField(key, nested, context));
+    const tsType = `{ ${fields.map((f) => `${f.name}: ${f.tsType}`).join('; ')} }`;
+    return { name, kind: 'object', tsType, fields };
+  }
+
+  if (root?.fields.some((f) => f.name === name)) {
+    return { name, kind: 'field', tsType: `${root.pascalName}['${name}']`, source: 'root' };
+  }
+  if (params.includes(name)) {
+    return { name, kind: 'field', tsType: 'string', source: 'param' };
+  }
+
+  const owner = root ? `a field of '${root.name}'` : 'a field of any entity in the view endpoint';
+  throw new Error(
+    `View '${view.name}': field '${name}' is neither ${owner} nor a URL parameter. ` +
+      'Use field.computed() for derived values.'
+  );
+}
+
+/**
+ * Work out how an embedded entity is matched to the view's root record
+ *
+ * Relations declared on the root entity decide the direction (hasMany gives
+ * a list, hasOne and belongsTo a single record). Without a relation, a
+ * foreign key field on either side is used.
+ */
+function analyzeEmbed(name: string, embed: EmbedDefinition, context: ViewContext): AnalyzedViewEmbed {
+  const { view, schemas, root } = context;
+  const target = schemas.find((s) => s.original === embed.entity || s.name === embed.entity.name);
+
+  if (!target) {
+    throw new Error(`View '${view.name}': '${name}' embeds '${embed.entity.name}', which is not a discovered entity`);
+  }
+  if (!root) {
+    throw new Error(
+      `View '${view.name}': '${name}' embeds '${target.name}', but the view is not built around an entity to embed it into. ` +
+        'Pick fields from the entity or use an endpoint below its path.'
+    );
+  }
+
+  const config = embed.config ?? {};
+  for (const field of [...(config.select ?? []), ...Object.keys(config.orderBy ?? {})]) {
+    if (!target.fields.some((f) => f.name === field)) {
+      throw new Error(`View '${view.name}': '${name}' refers to '${field}', which is not a field of '${target.name}'`);
+    }
+  }
+
+  const link = findEmbedLink(root, target, config);
+  if (!link) {
+    throw new Error(
+      `View '${view.name}': cannot embed '${target.name}' into '${root.name}'. ` +
+        `Declare a relation on '${root.name}' or add a foreign key field.`
+    );
+  }
+
+  return {
+    entity: target.name,
+    pascalName: target.pascalName,
+    tableName: target.tableName,
+    ...link,
+    select: config.select,
+    orderBy: Object.entries(config.orderBy ?? {}).map(([field, direction]) => ({ field, direction })),
+    limit: config.limit,
+  };
+}
+
+/**
+ * Find the keys linking an embedded entity to the root entity
+ */
+function findEmbedLink(
+  root: AnalyzedSchema,
+  target: AnalyzedSchema,
+  config: EmbedConfig
+): Pick<AnalyzedViewEmbed, 'isArray' | 'foreignKey' | 'localKey'> | undefined {
+  const relation = root.relations.find((r) => r.resolvedTarget === target.name);
+
+  if (relation?.type === 'manyToMany') {
+    throw new Error(
+      `Embedding '${target.name}' through the many-to-many relation '${root.name}.${relation.name}' is not supported`
+    );
+  }
+  if (relation?.type === 'belongsTo') {
+    return { isArray: false, foreignKey: 'id', localKey: relation.foreignKey };
+  }
+  if (relation) {
+    return { isArray: relation.type === 'hasMany', foreignKey: relation.foreignKey, localKey: 'id' };
+  }
+
+  // No relation: look for a foreign key on the embedded entity, then on the root
+  const pointsAt = (field: AnalyzedSchema['fields'][number], entity: AnalyzedSchema) =>
+    field.refTarget === entity.name || field.name === `${entity.singularName}Id`;
+
+  const backReference = target.fields.find((f) => pointsAt(f, root));
+  if (backReference) {
+    return { isArray: config.limit !== 1, foreignKey: backReference.name, localKey: 'id' };
+  }
+
+  const reference = root.fields.find((f) => pointsAt(f, target));
+  if (reference) {
+    return { isArray: false, foreignKey: 'id', localKey: reference.name };
+  }
+
+  return undefined;
+}
+
+/**
+ * TypeScript type of an embed, e.g. `Array<Pick<Post, 'id' | 'title'>>` or `UserProfile | null`
+ */
+function embedTsType(embed: AnalyzedViewEmbed): string {
+  const item = embed.select
+    ? `Pick<${embed.pascalName}, ${embed.select.map((f) => `'${f}'`).join(' | ')}>`
+    : embed.pascalName;
+
+  if (!embed.isArray) return `${item} | null`;
+  return embed.select ? `Array<${item}>` : `${item}[]`;
+}
+
+/**
+ * Infer a computed field's type from a sample of its mock() function
+ */
+function inferComputedTsType(computed: ComputedFieldDefinition): string {
+  let sample: unknown;
+  try {
+    sample = computed.mock?.();
+  } catch {
+    return 'unknown';
+  }
+
+  if (typeof sample === 'number') return 'number';
+  if (typeof sample === 'string') return 'string';
+  if (typeof sample === 'boolean') return 'boolean';
+  if (sample instanceof Date) return 'Date';
+  if (Array.isArray(sample)) return 'unknown[]';
+  if (sample !== null && typeof sample === 'object') return 'Record<string, unknown>';
+  return 'unknown';
+}
+
+/**
+ * Check if a view field value is an embed definition
+ */
+function isEmbedDefinition(value: unknown): value is EmbedDefinition {
+  return typeof value === 'object' && value !== null && (value as EmbedDefinition)._embed === true;
+}
+
+/**
+ * Check if a view field value is a nested group of fields
+ */
+function isNestedObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !('type' in value) &&
+    !('_computed' in value) &&
+    !('_embed' in value)
+  );
+}
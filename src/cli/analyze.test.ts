@@ -182,6 +182,46 @@ describe('findForeignKeyField', () => {
       expect(eventsRelation?.foreignKey).toBe('config_id');
     });
   });
+
+  describe('many-to-many junction keys', () => {
+    it('should find both keys by ref target on the junction', () => {
+      const team = defineData('team', {
+        name: field.string(),
+        members: hasMany('user', { through: 'membership' }),
+      });
+      const user = defineData('user', { name: field.string() });
+      const membership = defineData('membership', {
+        team_ref: field.ref('team'),
+        member_ref: field.ref('user'),
+        role: field.string(),
+      });
+
+      const analyzed = analyzeSchemas([team, user, membership], {});
+      const members = analyzed.find(s => s.name === 'team')?.relations.find(r => r.name === 'members');
+
+      expect(members?.type).toBe('manyToMany');
+      expect(members?.foreignKey).toBe('team_ref');
+      expect(members?.otherKey).toBe('member_ref');
+    });
+
+    it('should keep an explicit otherKey', () => {
+      const post = defineData('post', {
+        title: field.string(),
+        tags: hasMany('tag', { through: 'postTag', foreignKey: 'postId', otherKey: 'labelId' }),
+      });
+      const tag = defineData('tag', { name: field.string() });
+      const postTag = defineData('postTag', {
+        postId: field.ref('post'),
+        labelId: field.string(),
+      });
+
+      const analyzed = analyzeSchemas([post, tag, postTag], {});
+      const tags = analyzed.find(s => s.name === 'post')?.relations.find(r => r.name === 'tags');
+
+      expect(tags?.foreignKey).toBe('postId');
+      expect(tags?.otherKey).toBe('labelId');
+    });
+  });
 });
 
 describe('analyzeSchemas middleware extraction', () => {
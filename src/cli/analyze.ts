@@ -309,11 +309,18 @@ function analyzeSchema(
     dependsOn: [],
 
     hasTimestamps: schema.timestamps !== false,
+    softDelete: schema.softDelete === true,
+    versioned: schema.versioned === true,
     isJunctionTable: false,
 
     rls: analyzeRLS(schema.rls),
     indexes: [], // Will be populated after fields analysis
     rpc: [], // Will be populated after RPC analysis
+    pagination: {
+      style: schema.api?.pagination?.style ?? 'offset',
+      defaultLimit: schema.api?.pagination?.defaultLimit ?? 20,
+      maxLimit: schema.api?.pagination?.maxLimit,
+    },
 
     // Entity Organization & Tagging
     tags: schema.tags ?? [],
@@ -334,6 +341,13 @@ function analyzeSchema(
 
   for (const [fieldName, field] of Object.entries(schema.fields)) {
     const analyzedField = analyzeField(fieldName, field, config);
+    if (result.softDelete && fieldName === 'deletedAt') {
+      // Records are always created live
+      analyzedField.fakerCall = 'null';
+    }
+    if (result.versioned && fieldName === 'version') {
+      analyzedField.fakerCall = '1';
+    }
     result.fields.push(analyzedField);
 
     if (analyzedField.isRef) {
@@ -407,11 +421,13 @@ function analyzeField(name: string, field: FieldDefinition, config: SchemockConf
     enumValues: field.values as string[] | undefined,
 
     isArray: field.type === 'array',
-    isObject: field.type === 'object',
+    isObject: field.type === 'object' || field.type === 'json',
 
     min: field.constraints?.min,
     max: field.constraints?.max,
     pattern: field.constraints?.pattern?.source,
+    precision: field.constraints?.precision,
+    scale: field.constraints?.scale,
   };
 
   // Handle nested types
@@ -530,6 +546,20 @@ function analyzeRelation(
       foreignKey = `${singularTarget}Id`;
       fkDefaultFallback = true;
     }
+  } else if (rel.type === 'hasMany' && rel.through) {
+    // many-to-many: FK is on the JUNCTION entity, pointing back to source
+    const junctionFields = findSchemaByName(schemaMap, rel.through)?.fields ?? {};
+    const foundField = findForeignKeyField(junctionFields, sourceEntitySingular);
+    // A self-referencing junction has two refs to the same entity, so the
+    // keys cannot be told apart without explicit options
+    const isSelfReference = singularize(sourceEntitySingular).toLowerCase() === singularTarget.toLowerCase();
+    if (foundField && !isSelfReference) {
+      foreignKey = foundField;
+      fkInferred = true;
+    } else {
+      foreignKey = `${sourceEntitySingular}Id`;
+      fkDefaultFallback = true;
+    }
   } else {
     // hasMany/hasOne: FK is on the TARGET entity, pointing back to source
     const targetSchema = findSchemaByName(schemaMap, rel.target);
@@ -587,7 +617,7 @@ function analyzeRelation(
     const entityContext = sourceEntityName ? ` in '${sourceEntityName}'` : '';
     const targetInfo = rel.type === 'belongsTo'
       ? `Could not find a field matching '${singularTarget}' (tried: ${singularTarget}Id, ${singularTarget}_id, ref fields targeting ${rel.target})`
-      : `Could not find a field in '${rel.target}' pointing back to '${sourceEntitySingular}'`;
+      : `Could not find a field in '${rel.through ?? rel.target}' pointing back to '${sourceEntitySingular}'`;
 
     console.warn(
       `\x1b[33m⚠ FK Inference Warning:\x1b[0m Relation '${name}'${entityContext} (${rel.type} → ${rel.target})\n` +
@@ -620,12 +650,28 @@ function analyzeRelation(
   if (rel.type === 'hasMany' && rel.through) {
     result.type = 'manyToMany';
     result.through = rel.through;
-    result.otherKey = rel.otherKey;
+    result.otherKey = rel.otherKey ?? inferOtherKey(rel, foreignKey, schemaMap);
   }
 
   return result;
 }
 
+/**
+ * Infer the junction field of a many-to-many relation that points to the
+ * target entity: the first ref to the target other than the source FK
+ */
+function inferOtherKey(
+  rel: RelationDefinition,
+  foreignKey: string,
+  schemaMap: Map<string, EntitySchema>
+): string | undefined {
+  const junctionFields = findSchemaByName(schemaMap, rel.through!)?.fields ?? {};
+  const candidates = Object.fromEntries(
+    Object.entries(junctionFields).filter(([fieldName]) => fieldName !== foreignKey)
+  );
+  return findForeignKeyField(candidates, singularize(rel.target));
+}
+
 /**
  * Analyze indexes for a schema
  *
@@ -641,6 +687,10 @@ function analyzeIndexes(
 ): AnalyzedIndex[] {
   const indexes: AnalyzedIndex[] = [];
   const existingIndexFields = new Set<string>();
+  // Soft-deleted rows must not block re-using a unique value, so unique
+  // indexes only cover live rows
+  const liveOnly = (where?: string): string | undefined =>
+    !schema.softDelete ? where : where ? `(${where}) AND "deletedAt" IS NULL` : '"deletedAt" IS NULL';
 
   // 1. Process user-defined indexes
   if (schema.indexes) {
@@ -654,7 +704,7 @@ function analyzeIndexes(
         type: indexConfig.type ?? 'btree',
         unique: indexConfig.unique ?? false,
         using: indexConfig.using,
-        where: indexConfig.where,
+        where: indexConfig.unique ? liveOnly(indexConfig.where) : indexConfig.where,
         concurrently: indexConfig.concurrently ?? false,
         autoGenerated: false,
       });
@@ -689,6 +739,7 @@ function analyzeIndexes(
         fields: [field.name],
         type: 'btree',
         unique: true,
+        where: liveOnly(),
         concurrently: false,
         autoGenerated: true,
       });
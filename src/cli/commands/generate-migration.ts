@@ -0,0 +1,193 @@
+/**
+ * Migration generation command for Schemock CLI
+ *
+ * Diffs the current schemas against the snapshot recorded by the previous
+ * run and writes a timestamped up/down migration pair:
+ * - <output>/<timestamp>_<name>.sql        (up)
+ * - <output>/down/<timestamp>_<name>.sql   (down)
+ * - <output>/schemock.snapshot.json        (schema state after the migration)
+ *
+ * @module cli/commands/generate-migration
+ * @category CLI
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { loadConfig } from '../config';
+import { discoverSchemas, getRelativePath } from '../discover';
+import { analyzeSchemas } from '../analyze';
+import {
+  createSchemaSnapshot,
+  createEmptySnapshot,
+  parseSchemaSnapshot,
+  generateMigration,
+  parseMigrationRenames,
+} from '../generators/sql';
+import type { GenerateMigrationOptions, SchemaSnapshot } from '../types';
+
+/** Snapshot file name inside the migrations directory */
+export const SNAPSHOT_FILE = 'schemock.snapshot.json';
+
+/**
+ * Generate a migration from schema changes since the last snapshot
+ *
+ * @param options - Migration generation options
+ */
+export async function generateMigrationFiles(options: GenerateMigrationOptions): Promise<void> {
+  console.log('\n🗄️  Schemock Migration Generator\n');
+
+  // 1. Load config
+  const config = await loadConfig(options.config);
+  const outputDir = options.output || './migrations';
+  const target = options.target || 'postgres';
+  const snapshotPath = join(outputDir, SNAPSHOT_FILE);
+
+  console.log(`  Target:    ${target}`);
+  console.log(`  Output:    ${outputDir}`);
+  console.log(`  Snapshot:  ${snapshotPath}`);
+  console.log('');
+
+  // 2. Discover schemas
+  console.log('📦 Discovering schemas...');
+  const { schemas, files } = await discoverSchemas(config.schemas);
+
+  for (const file of files) {
+    console.log(`   Found: ${getRelativePath(file)}`);
+  }
+  console.log(`   Total: ${schemas.length} schemas\n`);
+
+  if (schemas.length === 0) {
+    console.log('⚠️  No schemas found. Nothing to generate.\n');
+    return;
+  }
+
+  // 3. Analyze schemas and snapshot the result
+  console.log('📊 Analyzing schemas...');
+  const analyzed = analyzeSchemas(schemas, { ...config, adapter: 'mock' });
+  const current = createSchemaSnapshot(analyzed, target);
+  console.log('');
+
+  // 4. Baseline: record the deployed state without a migration
+  if (options.baseline) {
+    if (!options.dryRun) {
+      await mkdir(outputDir, { recursive: true });
+    }
+    await writeOutput(snapshotPath, JSON.stringify(current, null, 2) + '\n', options.dryRun);
+    console.log(`   ✓ ${SNAPSHOT_FILE} (baseline)`);
+    console.log('\n✅ Baseline recorded. Future runs generate migrations from this state.\n');
+    return;
+  }
+
+  // 5. Diff against the previous snapshot
+  let previous: SchemaSnapshot | undefined;
+  if (existsSync(snapshotPath)) {
+    previous = parseSchemaSnapshot(await readFile(snapshotPath, 'utf-8'));
+    if (previous.target !== target) {
+      console.log(`⚠️  Snapshot was taken for target "${previous.target}"; RLS policies will be regenerated for "${target}".\n`);
+    }
+  } else {
+    console.log('   No snapshot found, generating the initial migration');
+    console.log('   (run with --baseline first if the database already exists)\n');
+  }
+
+  console.log('📝 Diffing schemas...');
+  const name = toMigrationName(options.name ?? (previous ? 'schema_changes' : 'initial_schema'));
+  const result = generateMigration(previous ?? createEmptySnapshot(target), current, {
+    name,
+    renames: parseMigrationRenames(options.rename ?? []),
+  });
+
+  if (result.steps.length === 0) {
+    console.log('\n✅ No schema changes detected. Nothing to generate.\n');
+    return;
+  }
+
+  if (options.verbose) {
+    for (const step of result.steps) {
+      console.log(`   ${step.destructive ? '⚠️ ' : '• '} ${step.description}`);
+    }
+  }
+  console.log('');
+
+  // 6. Write migration files and the new snapshot
+  if (!options.dryRun) {
+    await mkdir(join(outputDir, 'down'), { recursive: true });
+  }
+
+  const timestamp = await nextMigrationTimestamp(outputDir, new Date());
+  const fileName = `${timestamp}_${name}.sql`;
+
+  await writeOutput(join(outputDir, fileName), result.up, options.dryRun);
+  console.log(`   ✓ ${fileName} (up)`);
+  await writeOutput(join(outputDir, 'down', fileName), result.down, options.dryRun);
+  console.log(`   ✓ down/${fileName} (down)`);
+  await writeOutput(snapshotPath, JSON.stringify(current, null, 2) + '\n', options.dryRun);
+  console.log(`   ✓ ${SNAPSHOT_FILE}`);
+
+  // 7. Print summary
+  console.log('\n📊 Summary:');
+  console.log(`   Steps:        ${result.steps.length}`);
+  console.log(`   For review:   ${result.destructive.length}`);
+
+  if (result.destructive.length > 0) {
+    console.log('\n⚠️  Review these steps before applying (marked "REVIEW" in the SQL):');
+    for (const step of result.destructive) {
+      console.log(`   - ${step.description}: ${step.note}`);
+    }
+  }
+
+  console.log(`\n✅ Migration generated in ${outputDir}\n`);
+
+  // Usage hints based on target
+  console.log('Next steps:');
+  if (target === 'supabase') {
+    console.log(`  1. Point --output at supabase/migrations (down/ is ignored by the Supabase CLI)`);
+    console.log('  2. Apply: supabase db push');
+  } else {
+    console.log(`  1. Apply: psql -d your_database -f ${join(outputDir, fileName)}`);
+    console.log(`  2. Roll back: psql -d your_database -f ${join(outputDir, 'down', fileName)}`);
+  }
+  console.log('');
+}
+
+/**
+ * Build a UTC timestamp (YYYYMMDDHHmmss) that sorts after every existing migration
+ */
+async function nextMigrationTimestamp(outputDir: string, now: Date): Promise<string> {
+  const existing = existsSync(outputDir) ? await readdir(outputDir) : [];
+  const latest = existing
+    .map((file) => /^(\d{14})_/.exec(file)?.[1])
+    .filter((ts): ts is string => ts !== undefined)
+    .sort()
+    .pop();
+
+  let date = now;
+  if (latest && formatTimestamp(date) <= latest) {
+    const parsed = new Date(
+      Date.UTC(+latest.slice(0, 4), +latest.slice(4, 6) - 1, +latest.slice(6, 8), +latest.slice(8, 10), +latest.slice(10, 12), +latest.slice(12, 14))
+    );
+    date = new Date(parsed.getTime() + 1000);
+  }
+
+  return formatTimestamp(date);
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function toMigrationName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'migration';
+}
+
+/**
+ * Write output file (or show dry-run message)
+ */
+async function writeOutput(path: string, content: string, dryRun?: boolean): Promise<void> {
+  if (dryRun) {
+    console.log(`   [DRY RUN] Would write: ${path}`);
+    return;
+  }
+  await writeFile(path, content, 'utf-8');
+}
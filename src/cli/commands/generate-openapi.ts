@@ -0,0 +1,138 @@
+/**
+ * OpenAPI generation command for Schemock CLI
+ *
+ * Loads schemock.config.ts, discovers the entity schemas and custom
+ * endpoints it points at, and writes an OpenAPI 3.1 document describing
+ * them. Security schemes and rate limit notes come from the `middleware`
+ * config.
+ *
+ * @module cli/commands/generate-openapi
+ * @category CLI
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { loadConfig } from '../config';
+import { discoverSchemas, getRelativePath } from '../discover';
+import { generateOpenAPI, registerEndpoints, registerSchemas } from '../../generator/openapi';
+import type { AuthMiddlewareConfig, GenerateOpenApiOptions, MiddlewareConfig } from '../types';
+
+/**
+ * Generate an OpenAPI document from the project's schemas
+ *
+ * @param options - Generation options
+ */
+export async function generateOpenApiFile(options: GenerateOpenApiOptions): Promise<void> {
+  console.log('\n📄 Schemock OpenAPI Generator\n');
+
+  if (!options.output) {
+    throw new Error('Usage: schemock generate:openapi --output <file> [--format <json|yaml>]');
+  }
+
+  const outputPath = resolve(options.output);
+  const format = options.format ?? (/\.ya?ml$/.test(outputPath) ? 'yaml' : 'json');
+  if (format !== 'json' && format !== 'yaml') {
+    throw new Error(`Unknown format "${format}". Use json or yaml.`);
+  }
+
+  // 1. Load config
+  const config = await loadConfig(options.config);
+
+  // 2. Discover schemas and endpoints
+  console.log('📦 Discovering schemas...');
+  const { schemas, endpoints, files } = await discoverSchemas(config.schemas, { endpointsGlob: config.endpoints });
+
+  if (options.verbose) {
+    for (const file of files) {
+      console.log(`   Found: ${getRelativePath(file)}`);
+    }
+  }
+  console.log(`   Total: ${schemas.length} schemas, ${endpoints.length} custom endpoints\n`);
+
+  // 3. Build the spec
+  registerSchemas(schemas);
+  registerEndpoints(endpoints);
+  const spec = generateOpenAPI({
+    title: 'API Documentation',
+    version: '1.0.0',
+    description: 'Generated by Schemock',
+    basePath: config.apiPrefix,
+    auth: normalizeAuth(config.middleware?.auth),
+    rateLimit: config.middleware?.rateLimit,
+    examples: true,
+    fakerSeed: config.adapters?.mock?.fakerSeed,
+  });
+
+  // 4. Write
+  const output = format === 'yaml' ? `${toYAML(spec)}\n` : `${JSON.stringify(spec, null, 2)}\n`;
+  if (options.dryRun) {
+    console.log(`   Would write: ${outputPath}`);
+  } else {
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, output);
+    console.log(`   ✓ ${outputPath}`);
+  }
+  console.log('\n✅ OpenAPI specification generated successfully!\n');
+}
+
+/**
+ * `auth: true` means JWT bearer auth, required on every route
+ */
+function normalizeAuth(auth: MiddlewareConfig['auth']): AuthMiddlewareConfig | undefined {
+  if (!auth) return undefined;
+  return auth === true ? { provider: 'jwt', required: true } : auth;
+}
+
+/**
+ * Strings a YAML parser would read as something else, or that need escaping
+ */
+function needsQuotes(value: string): boolean {
+  return (
+    value === '' ||
+    value !== value.trim() ||
+    /[:#\n"]/.test(value) ||
+    /^[-?[\]{},&*!|>'%@`]/.test(value) ||
+    /^(true|false|null|yes|no|on|off|~)$/i.test(value) ||
+    /^[-+]?(\d|\.\d)/.test(value)
+  );
+}
+
+/**
+ * Serialize a JSON value as block-style YAML
+ */
+function toYAML(obj: unknown, indent = 0): string {
+  const spaces = '  '.repeat(indent);
+
+  if (obj === null || obj === undefined) {
+    return 'null';
+  }
+
+  if (typeof obj === 'boolean' || typeof obj === 'number') {
+    return String(obj);
+  }
+
+  if (typeof obj === 'string') {
+    return needsQuotes(obj) ? JSON.stringify(obj) : obj;
+  }
+
+  if (Array.isArray(obj)) {
+    if (obj.length === 0) return '[]';
+    return obj.map((item) => `${spaces}- ${toYAML(item, indent + 1).trimStart()}`).join('\n');
+  }
+
+  if (typeof obj === 'object') {
+    // Undefined properties are left out, as in JSON
+    const entries = Object.entries(obj).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) return '{}';
+    return entries
+      .map(([key, value]) => {
+        const yamlKey = needsQuotes(key) ? JSON.stringify(key) : key;
+        const yamlValue = toYAML(value, indent + 1);
+        const nested = typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+        return nested ? `${spaces}${yamlKey}:\n${yamlValue}` : `${spaces}${yamlKey}: ${yamlValue}`;
+      })
+      .join('\n');
+  }
+
+  return String(obj);
+}
@@ -0,0 +1,161 @@
+/**
+ * Postman collection command for Schemock CLI
+ *
+ * Loads schemock.config.ts, discovers its schemas and custom endpoints, and
+ * writes a Postman collection plus one environment file per target, each
+ * setting the `baseUrl` that target serves on.
+ *
+ * @module cli/commands/generate-postman
+ * @category CLI
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { loadConfig } from '../config';
+import { discoverSchemas, getRelativePath } from '../discover';
+import {
+  generatePostmanCollection,
+  generatePostmanEnvironment,
+  registerEndpointsForPostman,
+  registerSchemasForPostman,
+  type PostmanOptions,
+} from '../../generator/postman';
+import type { GeneratePostmanOptions, GenerationTarget, MiddlewareConfig, SchemockConfig } from '../types';
+
+/** Origin of a locally running server */
+const DEFAULT_ORIGIN = 'http://localhost:3000';
+
+/** Local Supabase functions URL */
+const SUPABASE_FUNCTIONS_ORIGIN = 'http://localhost:54321/functions/v1';
+
+/** Targets that talk to their backend through an SDK instead of HTTP routes */
+const NON_HTTP_TARGETS = new Set(['supabase', 'firebase', 'graphql', 'graphql-server']);
+
+/**
+ * Generate a Postman collection and environments from the project's schemas
+ *
+ * @param options - Generation options
+ */
+export async function generatePostmanFiles(options: GeneratePostmanOptions): Promise<void> {
+  console.log('\n📮 Schemock Postman Generator\n');
+
+  if (!options.output) {
+    throw new Error('Usage: schemock generate:postman --output <file> [--group-by <tags|module|group>]');
+  }
+
+  const groupBy = options.groupBy;
+  if (groupBy !== undefined && groupBy !== 'tags' && groupBy !== 'module' && groupBy !== 'group') {
+    throw new Error(`Unknown grouping "${groupBy}". Use tags, module or group.`);
+  }
+
+  // 1. Load config
+  const config = await loadConfig(options.config);
+
+  // 2. Discover schemas and endpoints
+  console.log('📦 Discovering schemas...');
+  const { schemas, endpoints, files } = await discoverSchemas(config.schemas, { endpointsGlob: config.endpoints });
+
+  if (options.verbose) {
+    for (const file of files) {
+      console.log(`   Found: ${getRelativePath(file)}`);
+    }
+  }
+  console.log(`   Total: ${schemas.length} schemas, ${endpoints.length} custom endpoints\n`);
+
+  // 3. Build the collection and environments
+  registerSchemasForPostman(schemas);
+  registerEndpointsForPostman(endpoints);
+  const auth = postmanAuth(config.middleware?.auth);
+  const collection = generatePostmanCollection({
+    name: 'API Collection',
+    description: 'Generated by Schemock',
+    apiPrefix: config.apiPrefix,
+    groupBy,
+    fakerMappings: config.fakerMappings,
+    fakerSeed: config.adapters?.mock?.fakerSeed,
+    auth,
+  });
+
+  const outputPath = resolve(options.output);
+  const outputs: Array<[string, unknown]> = [[outputPath, collection]];
+  for (const [name, baseUrl] of environmentsFor(config)) {
+    const variables: Record<string, string> = auth ? { baseUrl, token: '' } : { baseUrl };
+    outputs.push([
+      join(dirname(outputPath), `${name}.postman_environment.json`),
+      generatePostmanEnvironment(name, variables),
+    ]);
+  }
+
+  // 4. Write
+  for (const [path, content] of outputs) {
+    if (options.dryRun) {
+      console.log(`   Would write: ${path}`);
+      continue;
+    }
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, `${JSON.stringify(content, null, 2)}\n`);
+    console.log(`   ✓ ${path}`);
+  }
+  console.log('\n✅ Postman collection generated successfully!\n');
+}
+
+/**
+ * Postman auth matching the auth middleware: a bearer token for JWT-based
+ * providers, the session cookie for NextAuth and the raw Authorization
+ * header for custom handlers. The value comes from the `token` variable.
+ */
+function postmanAuth(auth: MiddlewareConfig['auth']): PostmanOptions['auth'] | undefined {
+  if (!auth) return undefined;
+  if (auth === true) return { type: 'bearer' };
+
+  const skip = auth.skip;
+  switch (auth.provider) {
+    case 'nextauth':
+      return { type: 'apikey', apiKeyHeader: 'Cookie', apiKey: 'next-auth.session-token={{token}}', skip };
+    case 'custom':
+      return { type: 'apikey', apiKeyHeader: 'Authorization', apiKey: '{{token}}', skip };
+    default:
+      return { type: 'bearer', skip };
+  }
+}
+
+/**
+ * Environment names and base URLs: one per HTTP target, one for the
+ * unified backend, or a single `local` environment.
+ */
+function environmentsFor(config: SchemockConfig): Array<[string, string]> {
+  const environments: Array<[string, string]> = [];
+
+  if (config.backend) {
+    const origin = config.backend.framework === 'supabase-edge' ? SUPABASE_FUNCTIONS_ORIGIN : DEFAULT_ORIGIN;
+    environments.push(['backend', origin]);
+  }
+  for (const target of config.targets ?? []) {
+    const origin = targetOrigin(target, config);
+    if (origin) environments.push([target.name, origin]);
+  }
+
+  if (environments.length === 0) {
+    environments.push(['local', config.adapters?.fetch?.baseUrl ?? DEFAULT_ORIGIN]);
+  }
+  return environments;
+}
+
+/**
+ * Origin a target serves its REST routes on, from `options.baseUrl` or the
+ * framework's local default. Undefined for targets without REST routes.
+ */
+function targetOrigin(target: GenerationTarget, config: SchemockConfig): string | undefined {
+  const baseUrl = target.options?.baseUrl;
+  if (typeof baseUrl === 'string') return baseUrl;
+  if (NON_HTTP_TARGETS.has(target.type)) return undefined;
+
+  switch (target.type) {
+    case 'supabase-edge':
+      return SUPABASE_FUNCTIONS_ORIGIN;
+    case 'fetch':
+      return config.adapters?.fetch?.baseUrl ?? DEFAULT_ORIGIN;
+    default:
+      return DEFAULT_ORIGIN;
+  }
+}
@@ -8,6 +8,7 @@
  * - Row-Level Security (RLS) policies
  * - RPC functions (CREATE FUNCTION)
  * - Triggers (updated_at)
+ * - Audit log table (--audit)
  * - README documentation
  *
  * @module cli/commands/generate-sql
@@ -46,6 +47,9 @@ export async function generateSQLFiles(options: GenerateSQLOptions): Promise<voi
   if (options.only) {
     console.log(`  Only:    ${options.only.join(', ')}`);
   }
+  if (options.audit) {
+    console.log('  Audit:   audit_events table');
+  }
   console.log('');
 
   // 2. Discover schemas
@@ -87,6 +91,7 @@ export async function generateSQLFiles(options: GenerateSQLOptions): Promise<voi
     target,
     combined: options.combined,
     only: options.only,
+    audit: options.audit,
   });
 
   // 6. Write output files
@@ -103,6 +108,7 @@ export async function generateSQLFiles(options: GenerateSQLOptions): Promise<voi
       { name: '004_rls.sql', content: result.files.rls, label: 'RLS policies' },
       { name: '005_functions.sql', content: result.files.functions, label: 'functions' },
       { name: '006_triggers.sql', content: result.files.triggers, label: 'triggers' },
+      { name: '007_audit.sql', content: result.files.audit, label: 'audit log' },
     ];
 
     for (const { name, content, label } of fileMapping) {
@@ -0,0 +1,70 @@
+/**
+ * Contract test command for Schemock CLI
+ *
+ * Writes a Vitest contract suite for the project's entities and custom
+ * endpoints. Point it at a target with SCHEMOCK_CONTRACT_BASE_URL, or inject
+ * a fetch implementation through configureContract() in a setup file.
+ *
+ * @module cli/commands/generate-tests
+ * @category CLI
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { loadConfig } from '../config';
+import { discoverSchemas, getRelativePath } from '../discover';
+import { analyzeSchemas } from '../analyze';
+import { analyzeEndpoints } from '../analyze-endpoints';
+import { generateContractTestFiles } from '../generators/contract-tests';
+import type { GenerateTestsOptions } from '../types';
+
+/**
+ * Generate contract tests from the project's schemas
+ *
+ * @param options - Generation options
+ */
+export async function generateContractTests(options: GenerateTestsOptions): Promise<void> {
+  console.log('\n🧪 Schemock Contract Test Generator\n');
+
+  // 1. Load config
+  const config = await loadConfig(options.config);
+  const outputDir = options.output || './tests/contract';
+
+  // 2. Discover schemas and endpoints
+  console.log('📦 Discovering schemas...');
+  const { schemas, endpoints, endpointFiles, files } = await discoverSchemas(config.schemas, {
+    endpointsGlob: config.endpoints,
+  });
+
+  if (options.verbose) {
+    for (const file of files) {
+      console.log(`   Found: ${getRelativePath(file)}`);
+    }
+  }
+  console.log(`   Total: ${schemas.length} schemas, ${endpoints.length} custom endpoints\n`);
+
+  if (schemas.length === 0 && endpoints.length === 0) {
+    console.log('⚠️  No schemas found. Nothing to generate.\n');
+    return;
+  }
+
+  // 3. Analyze
+  const analyzed = analyzeSchemas(schemas, { ...config, adapter: 'mock' });
+  const analyzedEndpoints = analyzeEndpoints(endpoints, endpointFiles);
+
+  // 4. Write
+  console.log(`📝 Writing contract tests to ${outputDir}`);
+  for (const [file, content] of generateContractTestFiles(analyzed, analyzedEndpoints)) {
+    const path = join(outputDir, file);
+    if (options.dryRun) {
+      console.log(`   Would write: ${path}`);
+      continue;
+    }
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+    console.log(`   ✓ ${file}`);
+  }
+
+  console.log('\n✅ Contract tests generated successfully!');
+  console.log('   Run them with SCHEMOCK_CONTRACT_BASE_URL=<target origin> npx vitest run ' + outputDir + '\n');
+}
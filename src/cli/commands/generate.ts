@@ -8,16 +8,20 @@
 import { mkdir, writeFile } from 'node:fs/promises';
 import { join, relative } from 'node:path';
 import { loadConfig } from '../config';
-import { discoverSchemas, getRelativePath } from '../discover';
+import { discoverSchemas, getRelativePath, type ImportError } from '../discover';
 import { analyzeSchemas } from '../analyze';
 import { analyzeEndpoints } from '../analyze-endpoints';
 import { analyzeMiddleware } from '../analyze-middleware';
+import { analyzeViews } from '../analyze-views';
+import { watchFiles, snapshotFiles, diffSnapshots, formatChanges, fingerprint, type FileChange } from '../watch';
 import type {
   SchemockConfig,
   AnalyzedSchema,
   AnalyzedEndpoint,
+  AnalyzedView,
   AnalyzedMiddleware,
   GenerateOptions,
+  GenerationTarget,
   BackendFramework,
 } from '../types';
 
@@ -29,6 +33,7 @@ import { generateMockHandlers, generateAllHandlersExport } from '../generators/m
 import { generateMockClient } from '../generators/mock/client';
 import { generateRoutes } from '../generators/mock/routes';
 import { generateMockSeed } from '../generators/mock/seed';
+import { generateViewHandlers } from '../generators/mock/views';
 import {
   generateEndpointTypes,
   generateEndpointClient,
@@ -48,12 +53,23 @@ import {
   generatePGliteEndpointClient,
   generatePGliteEndpointResolvers,
 } from '../generators/pglite';
-import { generateHooks } from '../generators/hooks';
+import { generateHooks, REALTIME_ADAPTERS } from '../generators/hooks';
 import { generateProvider } from '../generators/provider';
+import { generateVueComposables } from '../generators/vue-composables';
+import { generateVuePlugin } from '../generators/vue-plugin';
+import { generateSvelteStores } from '../generators/svelte-stores';
+import { generateSvelteContext } from '../generators/svelte-context';
 import { generateFormSchemas } from '../generators/form-schemas';
+import { generateViewClient, generateViewTypes } from '../generators/views';
+import { getLinkRelations } from '../generators/shared/links';
 
 // Multi-target generation
-import { generateAllTargets, legacyConfigToTarget } from '../generators/target-registry';
+import {
+  generateAllTargets,
+  legacyConfigToTarget,
+  filterSchemasForTarget,
+  isServerTarget,
+} from '../generators/target-registry';
 
 // Env var utilities
 import {
@@ -85,6 +101,36 @@ function isPkgInstalled(packageName: string): boolean {
   }
 }
 
+/**
+ * Schemas, endpoints, views and middleware discovered and analyzed for one generation run
+ */
+interface GenerationInputs {
+  analyzed: AnalyzedSchema[];
+  endpoints: AnalyzedEndpoint[];
+  views: AnalyzedView[];
+  middleware: AnalyzedMiddleware[];
+  /** Number of discovered entity schemas (before junction tables are added) */
+  schemaCount: number;
+  /** Files the definitions were loaded from */
+  files: string[];
+  /** Files that failed to import */
+  importErrors: ImportError[];
+}
+
+/**
+ * An independently generated part of the output: the backend, one target,
+ * or the legacy single-adapter output
+ */
+interface GenerationUnit {
+  key: string;
+  /** Name shown in watch mode */
+  label: string;
+  /** Directories the unit writes to */
+  outputs: string[];
+  /** Serialized inputs; the unit is stale when it changes */
+  fingerprint: string;
+}
+
 /**
  * Main generate command
  *
@@ -98,36 +144,15 @@ export async function generate(options: GenerateOptions): Promise<void> {
 
   // 2. Discover schemas, endpoints, and middleware
   console.log('📦 Discovering schemas...');
-  const {
-    schemas,
-    endpoints,
-    middleware: middlewareSchemas,
-    files,
-    endpointFiles,
-    middlewareFiles,
-  } = await discoverSchemas(config.schemas, {
-    endpointsGlob: config.endpoints,
-    middlewareGlob: config.middlewareGlob,
-  });
+  const inputs = await loadInputs(config, options);
+  const { analyzed, endpoints: analyzedEndpoints, views: analyzedViews, middleware: analyzedMiddleware } = inputs;
 
-  for (const file of files) {
+  for (const file of inputs.files) {
     console.log(`   Found: ${getRelativePath(file)}`);
   }
-  const middlewareCount = middlewareSchemas?.length ?? 0;
-  const middlewareInfo = middlewareCount > 0 ? `, ${middlewareCount} middleware` : '';
-  console.log(`   Total: ${schemas.length} schemas, ${endpoints.length} endpoints${middlewareInfo}\n`);
-
-  // 3. Analyze schemas (use default adapter for analysis, targets can override)
-  const adapter = (options.adapter || config.adapter || 'mock') as SchemockConfig['adapter'];
-  const analyzed = analyzeSchemas(schemas, { ...config, adapter });
-
-  // 4. Analyze endpoints
-  const analyzedEndpoints = analyzeEndpoints(endpoints, endpointFiles);
-
-  // 4b. Analyze middleware (if discovered)
-  const analyzedMiddleware = middlewareSchemas?.length
-    ? analyzeMiddleware(middlewareSchemas, middlewareFiles)
-    : [];
+  const viewInfo = analyzedViews.length > 0 ? `, ${analyzedViews.length} views` : '';
+  const middlewareInfo = analyzedMiddleware.length > 0 ? `, ${analyzedMiddleware.length} middleware` : '';
+  console.log(`   Total: ${inputs.schemaCount} schemas, ${analyzedEndpoints.length} endpoints${viewInfo}${middlewareInfo}\n`);
 
   if (options.verbose) {
     console.log('📊 Analyzed schemas:');
@@ -143,6 +168,12 @@ export async function generate(options: GenerateOptions): Promise<void> {
         console.log(`   ${endpoint.method} ${endpoint.path} -> ${endpoint.name}`);
       }
     }
+    if (analyzedViews.length > 0) {
+      console.log('\n📊 Analyzed views:');
+      for (const view of analyzedViews) {
+        console.log(`   GET ${view.endpoint} -> ${view.name}`);
+      }
+    }
     if (analyzedMiddleware.length > 0) {
       console.log('\n📊 Analyzed middleware:');
       for (const mw of analyzedMiddleware) {
@@ -153,7 +184,6 @@ export async function generate(options: GenerateOptions): Promise<void> {
   }
 
   // 5. Apply CLI-level entity filtering if provided
-  let effectiveTargets = config.targets;
   if (options.only || options.exclude) {
     console.log('🔧 Applying CLI entity filters:');
     if (options.only) {
@@ -163,29 +193,154 @@ export async function generate(options: GenerateOptions): Promise<void> {
       console.log(`   --exclude: ${options.exclude.join(', ')}`);
     }
     console.log('');
+  }
+
+  await generateOutputs(inputs, config, options);
+
+  if (options.watch) {
+    await watchAndRegenerate(inputs, config, options);
+  }
+}
+
+/**
+ * Discover and analyze schemas, endpoints, views and middleware
+ *
+ * @param fresh - Bypass the module cache (watch mode)
+ */
+async function loadInputs(config: SchemockConfig, options: GenerateOptions, fresh = false): Promise<GenerationInputs> {
+  const {
+    schemas,
+    endpoints,
+    views,
+    middleware: middlewareSchemas,
+    files,
+    endpointFiles,
+    middlewareFiles,
+    importErrors = [],
+  } = await discoverSchemas(config.schemas, {
+    endpointsGlob: config.endpoints,
+    middlewareGlob: config.middlewareGlob,
+    fresh,
+  });
+
+  // 3. Analyze schemas (use default adapter for analysis, targets can override)
+  const analyzed = analyzeSchemas(schemas, { ...config, adapter: resolveAdapter(config, options) });
+
+  // 4. Analyze endpoints, views and middleware
+  return {
+    analyzed,
+    endpoints: analyzeEndpoints(endpoints, endpointFiles),
+    views: analyzeViews(views, analyzed),
+    middleware: middlewareSchemas?.length ? analyzeMiddleware(middlewareSchemas, middlewareFiles) : [],
+    schemaCount: schemas.length,
+    files,
+    importErrors,
+  };
+}
+
+/**
+ * Resolve the adapter of the legacy single-target mode
+ */
+function resolveAdapter(config: SchemockConfig, options: GenerateOptions): SchemockConfig['adapter'] {
+  return (options.adapter || config.adapter || 'mock') as SchemockConfig['adapter'];
+}
+
+/**
+ * Resolve the output directory of the legacy single-target mode
+ */
+function resolveOutputDir(config: SchemockConfig, options: GenerateOptions): string {
+  return options.output || config.output || './src/generated';
+}
+
+/**
+ * Resolve configured targets with the CLI --only/--exclude filters applied
+ */
+function resolveTargets(config: SchemockConfig, options: GenerateOptions): GenerationTarget[] | undefined {
+  if (!config.targets || config.targets.length === 0 || !(options.only || options.exclude)) {
+    return config.targets;
+  }
+
+  return config.targets.map((target) => ({
+    ...target,
+    // CLI --only overrides target.entities
+    entities: options.only || target.entities,
+    // CLI --exclude adds to target.excludeEntities
+    excludeEntities: options.exclude
+      ? [...(target.excludeEntities || []), ...options.exclude]
+      : target.excludeEntities,
+  }));
+}
 
-    // If we have targets, apply CLI filters to each target
-    if (config.targets && config.targets.length > 0) {
-      effectiveTargets = config.targets.map((target) => ({
-        ...target,
-        // CLI --only overrides target.entities
-        entities: options.only || target.entities,
-        // CLI --exclude adds to target.excludeEntities
-        excludeEntities: options.exclude
-          ? [...(target.excludeEntities || []), ...options.exclude]
-          : target.excludeEntities,
-      }));
+/**
+ * List the units a run generates, with the inputs each one depends on
+ *
+ * Client targets depend on their own entities only; server targets also
+ * generate types for every entity. Middleware files feed the backend only.
+ */
+function getGenerationUnits(inputs: GenerationInputs, config: SchemockConfig, options: GenerateOptions): GenerationUnit[] {
+  const { analyzed, endpoints, views, middleware } = inputs;
+  const units: GenerationUnit[] = [];
+
+  if (config.backend) {
+    const { backend } = config;
+    units.push({
+      key: 'backend',
+      label: 'backend',
+      outputs: [backend.output, backend.services?.output, backend.routes?.output].filter((dir): dir is string => !!dir),
+      fingerprint: fingerprint([backend, analyzed, endpoints, middleware]),
+    });
+  }
+
+  const targets = resolveTargets(config, options);
+  if (targets && targets.length > 0) {
+    for (const target of targets) {
+      const schemas = isServerTarget(target.type) ? analyzed : filterSchemasForTarget(analyzed, target);
+      units.push({
+        key: `target:${target.name}`,
+        label: target.name,
+        outputs: [target.output],
+        fingerprint: fingerprint([target, schemas, endpoints, views]),
+      });
     }
+  } else {
+    units.push({
+      key: 'legacy',
+      label: `${resolveAdapter(config, options)} adapter`,
+      outputs: [resolveOutputDir(config, options)],
+      fingerprint: fingerprint([analyzed, endpoints, views]),
+    });
   }
 
+  return units;
+}
+
+/**
+ * Generate the backend, targets and legacy output
+ *
+ * @param only - Keys of the units to generate (default: all)
+ * @returns Keys of the units that failed
+ */
+async function generateOutputs(
+  inputs: GenerationInputs,
+  config: SchemockConfig,
+  options: GenerateOptions,
+  only?: Set<string>
+): Promise<string[]> {
+  const { analyzed, endpoints: analyzedEndpoints, middleware: analyzedMiddleware } = inputs;
+  const failed: string[] = [];
+
   // 6. Generate backend code if configured (new unified generation)
-  if (config.backend) {
+  if (config.backend && (!only || only.has('backend'))) {
     console.log('🔧 Generating backend code (unified generation)...\n');
     await generateBackendCode(analyzed, analyzedEndpoints, analyzedMiddleware, config, options);
   }
 
   // 7. Check for multi-target configuration
-  if (effectiveTargets && effectiveTargets.length > 0) {
+  const allTargets = resolveTargets(config, options);
+  if (allTargets && allTargets.length > 0) {
+    const effectiveTargets = only ? allTargets.filter((target) => only.has(`target:${target.name}`)) : allTargets;
+    if (effectiveTargets.length === 0) return failed;
+
     console.log(`🎯 Multi-target generation mode (${effectiveTargets.length} targets)\n`);
 
     const results = await generateAllTargets(
@@ -193,7 +348,8 @@ export async function generate(options: GenerateOptions): Promise<void> {
       analyzed,
       analyzedEndpoints,
       config,
-      options
+      options,
+      inputs.views
     );
 
     // Summary
@@ -206,6 +362,7 @@ export async function generate(options: GenerateOptions): Promise<void> {
       console.log(`   ✗ ${failCount} targets failed`);
       for (const result of results.filter((r) => !r.success)) {
         console.log(`      - ${result.target.name}: ${result.error?.message}`);
+        failed.push(`target:${result.target.name}`);
       }
     }
 
@@ -222,11 +379,26 @@ export async function generate(options: GenerateOptions): Promise<void> {
       printEnvVarSummary(allEnvVars);
     }
 
-    return;
+    return failed;
+  }
+
+  if (!only || only.has('legacy')) {
+    await generateLegacyOutput(inputs, config, options);
   }
+  return failed;
+}
 
-  // Legacy single-target mode
-  const outputDir = options.output || config.output || './src/generated';
+/**
+ * Generate the legacy single-adapter output
+ */
+async function generateLegacyOutput(
+  inputs: GenerationInputs,
+  config: SchemockConfig,
+  options: GenerateOptions
+): Promise<void> {
+  const { analyzed, endpoints: analyzedEndpoints, views } = inputs;
+  const adapter = resolveAdapter(config, options);
+  const outputDir = resolveOutputDir(config, options);
   console.log(`  Adapter: ${adapter}`);
   console.log(`  Output:  ${outputDir}\n`);
 
@@ -244,6 +416,11 @@ export async function generate(options: GenerateOptions): Promise<void> {
     typesCode += generateEndpointTypes(analyzedEndpoints);
   }
 
+  // Append view types if there are any
+  if (views.length > 0) {
+    typesCode += generateViewTypes(views);
+  }
+
   // Append form schemas if requested
   if (options.withFormSchemas) {
     typesCode += generateFormSchemas(analyzed);
@@ -252,15 +429,21 @@ export async function generate(options: GenerateOptions): Promise<void> {
   await writeOutput(join(outputDir, 'types.ts'), typesCode, options.dryRun);
   const entityCount = analyzed.filter((s) => !s.isJunctionTable).length;
   const endpointInfo = analyzedEndpoints.length > 0 ? ` + ${analyzedEndpoints.length} endpoint types` : '';
+  const viewInfo = views.length > 0 ? ` + ${views.length} view types` : '';
   const formSchemaInfo = options.withFormSchemas ? ' + form schemas' : '';
-  console.log(`   ✓ types.ts (${entityCount} entities + Create/Update/Filter types${endpointInfo}${formSchemaInfo})\n`);
+  console.log(`   ✓ types.ts (${entityCount} entities + Create/Update/Filter types${endpointInfo}${viewInfo}${formSchemaInfo})\n`);
+
+  if (views.length > 0) {
+    await writeOutput(join(outputDir, 'views.ts'), generateViewClient(views), options.dryRun);
+    console.log(`   ✓ views.ts (${views.length} view client methods)\n`);
+  }
 
   // 6. Generate adapter-specific code
   console.log(`🔌 Generating ${adapter} adapter...`);
 
   switch (adapter) {
     case 'mock':
-      await generateMockAdapter(analyzed, analyzedEndpoints, outputDir, config, options);
+      await generateMockAdapter(analyzed, analyzedEndpoints, outputDir, config, options, views);
       break;
     case 'supabase':
       await generateSupabaseAdapter(analyzed, outputDir, config, options);
@@ -281,7 +464,7 @@ export async function generate(options: GenerateOptions): Promise<void> {
       throw new Error(`Unknown adapter: ${adapter}`);
   }
 
-  // 7. Generate React files (only if framework=react)
+  // 7. Generate framework bindings (React hooks, Vue composables or Svelte stores)
   const framework = options.framework || 'none';
   if (framework === 'react') {
     console.log('\n🎣 Generating React Context provider...');
@@ -290,15 +473,39 @@ export async function generate(options: GenerateOptions): Promise<void> {
     console.log('   ✓ provider.tsx (SchemockProvider + useSchemockClient)');
 
     console.log('\n⚛️  Generating React hooks...');
-    const hooksCode = generateHooks(analyzed);
+    const realtime = REALTIME_ADAPTERS.includes(adapter);
+    const hooksCode = generateHooks(analyzed, { realtime, views });
     await writeOutput(join(outputDir, 'hooks.ts'), hooksCode, options.dryRun);
-    const hookCount = analyzed.filter((s) => !s.isJunctionTable).length * 5; // 5 hooks per entity
+    const linkHookCount = analyzed.reduce((n, s) => n + (s.isJunctionTable ? 0 : getLinkRelations(s, analyzed).length), 0);
+    const hookCount = analyzed.filter((s) => !s.isJunctionTable).length * (realtime ? 6 : 5) + linkHookCount + views.length; // hooks per entity + link hooks + view hooks
     console.log(`   ✓ hooks.ts (${hookCount} hooks)`);
+  } else if (framework === 'vue') {
+    console.log('\n🔌 Generating Vue plugin...');
+    const pluginCode = generateVuePlugin();
+    await writeOutput(join(outputDir, 'plugin.ts'), pluginCode, options.dryRun);
+    console.log('   ✓ plugin.ts (SchemockPlugin + useSchemockClient)');
+
+    console.log('\n🟩 Generating Vue composables...');
+    const composablesCode = generateVueComposables(analyzed);
+    await writeOutput(join(outputDir, 'composables.ts'), composablesCode, options.dryRun);
+    const composableCount = analyzed.filter((s) => !s.isJunctionTable).length * 5; // 5 composables per entity
+    console.log(`   ✓ composables.ts (${composableCount} composables)`);
+  } else if (framework === 'svelte') {
+    console.log('\n🔌 Generating Svelte client context...');
+    const contextCode = generateSvelteContext();
+    await writeOutput(join(outputDir, 'context.ts'), contextCode, options.dryRun);
+    console.log('   ✓ context.ts (setSchemockClient + getSchemockClient)');
+
+    console.log('\n🟧 Generating Svelte Query stores...');
+    const storesCode = generateSvelteStores(analyzed);
+    await writeOutput(join(outputDir, 'stores.ts'), storesCode, options.dryRun);
+    const storeCount = analyzed.filter((s) => !s.isJunctionTable).length * 5; // 5 stores per entity
+    console.log(`   ✓ stores.ts (${storeCount} stores)`);
   }
 
   // 8. Generate index.ts
   console.log('\n📦 Generating barrel exports...');
-  const indexCode = generateIndex(adapter, analyzedEndpoints.length > 0, framework);
+  const indexCode = generateIndex(adapter, analyzedEndpoints.length > 0, framework, views.length > 0);
   await writeOutput(join(outputDir, 'index.ts'), indexCode, options.dryRun);
   console.log('   ✓ index.ts');
 
@@ -324,8 +531,10 @@ export async function generate(options: GenerateOptions): Promise<void> {
   const firstSchema = analyzed.find((s) => !s.isJunctionTable);
   if (firstSchema) {
     console.log('Usage:');
-    if (framework === 'react') {
+    if (framework === 'react' || framework === 'vue') {
       console.log(`  import { use${firstSchema.pascalPluralName}, useCreate${firstSchema.pascalName} } from '${outputDir.replace('./', '')}';`);
+    } else if (framework === 'svelte') {
+      console.log(`  import { create${firstSchema.pascalPluralName}Query, createCreate${firstSchema.pascalName}Mutation } from '${outputDir.replace('./', '')}';`);
     } else {
       console.log(`  import { api } from '${outputDir.replace('./', '')}';`);
       console.log(`  const ${firstSchema.pluralName} = await api.${firstSchema.name}.list();`);
@@ -334,6 +543,85 @@ export async function generate(options: GenerateOptions): Promise<void> {
   }
 }
 
+/**
+ * Watch schema, endpoint and middleware files and regenerate the affected units
+ *
+ * Runs until the process receives SIGINT. A file that fails to import
+ * (e.g. a syntax error) is reported and the previous output is kept.
+ */
+async function watchAndRegenerate(
+  initial: GenerationInputs,
+  config: SchemockConfig,
+  options: GenerateOptions
+): Promise<void> {
+  const patterns = [config.schemas, config.endpoints, config.middlewareGlob].filter(
+    (pattern): pattern is string => !!pattern
+  );
+  let fingerprints = new Map(getGenerationUnits(initial, config, options).map((unit) => [unit.key, unit.fingerprint]));
+
+  const regenerate = async (changes: FileChange[]): Promise<void> => {
+    console.log(`\n🔄 ${changes.length === 1 ? '1 file' : `${changes.length} files`} changed:`);
+    formatChanges(changes).forEach((line) => console.log(line));
+
+    let inputs: GenerationInputs;
+    try {
+      inputs = await loadInputs(config, options, true);
+    } catch (error) {
+      console.error(`   ✗ ${error instanceof Error ? error.message : String(error)}`);
+      console.log('   Keeping the previous output.\n');
+      return;
+    }
+
+    if (inputs.importErrors.length > 0) {
+      for (const { file, message } of inputs.importErrors) {
+        console.error(`   ✗ ${getRelativePath(file)}: ${message}`);
+      }
+      console.log('   Keeping the previous output. Fix the error(s) to regenerate.\n');
+      return;
+    }
+
+    const units = getGenerationUnits(inputs, config, options);
+    const stale = units.filter((unit) => fingerprints.get(unit.key) !== unit.fingerprint);
+    if (stale.length === 0) {
+      console.log('   No generated output affected.\n');
+      return;
+    }
+
+    const outputDirs = stale.flatMap((unit) => unit.outputs);
+    const before = await snapshotFiles(outputDirs);
+    let failed: string[];
+    try {
+      failed = await generateOutputs(inputs, config, options, new Set(stale.map((unit) => unit.key)));
+    } catch (error) {
+      console.error(`   ✗ Generation failed: ${error instanceof Error ? error.message : String(error)}\n`);
+      return;
+    }
+    const written = diffSnapshots(before, await snapshotFiles(outputDirs));
+
+    fingerprints = new Map(units.filter((unit) => !failed.includes(unit.key)).map((unit) => [unit.key, unit.fingerprint]));
+
+    const regenerated = stale.map((unit) => unit.label).join(', ');
+    console.log(`🔁 Regenerated ${regenerated}`);
+    if (written.length > 0) {
+      formatChanges(written).forEach((line) => console.log(line));
+    } else {
+      console.log('   (output unchanged)');
+    }
+    console.log('');
+  };
+
+  console.log(`👀 Watching ${patterns.join(', ')} for changes (Ctrl+C to stop)\n`);
+
+  await new Promise<void>((resolveWatch) => {
+    const stop = watchFiles(patterns, regenerate);
+    process.once('SIGINT', () => {
+      stop();
+      console.log('\n👋 Stopped watching\n');
+      resolveWatch();
+    });
+  });
+}
+
 /**
  * Generate mock adapter files
  */
@@ -342,10 +630,12 @@ async function generateMockAdapter(
   endpoints: AnalyzedEndpoint[],
   outputDir: string,
   config: SchemockConfig,
-  options: GenerateOptions
+  options: GenerateOptions,
+  views: AnalyzedView[] = []
 ): Promise<void> {
   const mockConfig = config.adapters?.mock || {};
   const hasEndpoints = endpoints.length > 0;
+  const hasViews = views.length > 0;
 
   const dbCode = generateMockDb(schemas, mockConfig);
   await writeOutput(join(outputDir, 'db.ts'), dbCode, options.dryRun);
@@ -396,7 +686,13 @@ async function generateMockAdapter(
   }
 
   // Generate combined handlers export
-  const allHandlersCode = generateAllHandlersExport(hasEndpoints);
+  if (hasViews) {
+    const viewHandlersCode = generateViewHandlers(views);
+    await writeOutput(join(outputDir, 'view-handlers.ts'), viewHandlersCode, options.dryRun);
+    console.log(`   ✓ view-handlers.ts (${views.length} MSW handlers)`);
+  }
+
+  const allHandlersCode = generateAllHandlersExport(hasEndpoints, hasViews);
   await writeOutput(join(outputDir, 'all-handlers.ts'), allHandlersCode, options.dryRun);
   console.log('   ✓ all-handlers.ts (combined handlers export)');
 }
@@ -519,7 +815,12 @@ async function generatePGliteAdapter(
 /**
  * Generate barrel export index file
  */
-function generateIndex(adapter: string, hasEndpoints: boolean = false, framework: string = 'none'): string {
+function generateIndex(
+  adapter: string,
+  hasEndpoints: boolean = false,
+  framework: string = 'none',
+  hasViews: boolean = false
+): string {
   const lines = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
     '',
@@ -527,30 +828,40 @@ function generateIndex(adapter: string, hasEndpoints: boolean = false, framework
     "export { api, createClient } from './client';",
   ];
 
-  // React-specific exports (only when framework=react)
+  // Framework-specific exports
   if (framework === 'react') {
     lines.push("export * from './hooks';");
     lines.push("export * from './provider';");
+  } else if (framework === 'vue') {
+    lines.push("export * from './composables';");
+    lines.push("export * from './plugin';");
+  } else if (framework === 'svelte') {
+    lines.push("export * from './stores';");
+    lines.push("export * from './context';");
   }
 
   if (adapter === 'mock') {
-    lines.push("export { db, schemas } from './db';");
+    lines.push("export { db, schemas, exportSnapshot, importSnapshot } from './db';");
     lines.push("export { adapter } from './adapter';");
     lines.push("export { handlers } from './handlers';");
     lines.push("export { allHandlers } from './all-handlers';");
-    lines.push("export { seed, reset, getAll } from './seed';");
+    lines.push("export { seed, seedScenario, reset, getAll } from './seed';");
 
     if (hasEndpoints) {
       lines.push("export { endpoints } from './endpoints';");
       lines.push("export { endpointHandlers } from './endpoint-handlers';");
     }
+
+    if (hasViews) {
+      lines.push("export { viewHandlers } from './view-handlers';");
+    }
   }
 
   if (adapter === 'pglite') {
     lines.push("export { db, initDb, resetDb, tables } from './db';");
     lines.push("export { handlers } from './handlers';");
     lines.push("export { allHandlers } from './all-handlers';");
-    lines.push("export { seed, reset, getAll, count } from './seed';");
+    lines.push("export { seed, seedScenario, reset, getAll, count } from './seed';");
 
     if (hasEndpoints) {
       lines.push("export { endpoints, createEndpointsClient } from './endpoints';");
@@ -562,6 +873,10 @@ function generateIndex(adapter: string, hasEndpoints: boolean = false, framework
     lines.push("export { supabase } from './client';");
   }
 
+  if (hasViews) {
+    lines.push("export { views } from './views';");
+  }
+
   return lines.join('\n');
 }
 
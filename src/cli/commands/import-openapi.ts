@@ -0,0 +1,117 @@
+/**
+ * OpenAPI import command for Schemock CLI
+ *
+ * Reads an OpenAPI 3 document and writes one defineData() schema file per
+ * entity, plus defineEndpoint() files for the non-CRUD operations.
+ *
+ * @module cli/commands/import-openapi
+ * @category CLI
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { importOpenApiSpec, type OpenApiDocument } from '../importers/openapi';
+import { endpointFileName, generateEndpointFile, generateSchemaFile, schemaFileName } from '../importers/schema-writer';
+import type { ImportedEndpoint, ImportOpenApiOptions } from '../types';
+
+/**
+ * Import an OpenAPI document as Schemock schema files
+ *
+ * @param options - Import options
+ */
+export async function importOpenApiFiles(options: ImportOpenApiOptions): Promise<void> {
+  console.log('\n📥 Schemock OpenAPI Importer\n');
+
+  if (!options.input) {
+    throw new Error('Usage: schemock import:openapi <openapi.json> [--output <dir>]');
+  }
+  if (!existsSync(options.input)) {
+    throw new Error(`Input not found: ${options.input}`);
+  }
+  if (['.yaml', '.yml'].includes(extname(options.input).toLowerCase())) {
+    throw new Error(`import:openapi reads JSON documents. Convert the spec first, e.g.: npx js-yaml ${options.input} > openapi.json`);
+  }
+
+  const outputDir = options.output || './src/schemas';
+  const source = basename(options.input);
+
+  console.log(`  Input:   ${options.input}`);
+  console.log(`  Output:  ${outputDir}`);
+  console.log('');
+
+  // 1. Parse and map the document
+  let doc: OpenApiDocument;
+  try {
+    doc = JSON.parse(await readFile(options.input, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${options.input}: ${(error as Error).message}`);
+  }
+
+  const { entities, endpoints = [], warnings } = importOpenApiSpec(doc);
+  console.log(`   Found: ${entities.length} entities, ${endpoints.length} custom endpoints\n`);
+
+  if (entities.length === 0 && endpoints.length === 0) {
+    console.log('⚠️  No entity schemas (components with an "id" property) or custom operations found. Nothing to import.\n');
+    return;
+  }
+
+  // 2. Collect files: one per entity, one per endpoint group
+  const files: Array<{ fileName: string; label: string; content: () => string }> = entities.map((entity) => ({
+    fileName: schemaFileName(entity),
+    label: entity.tableName,
+    content: () => generateSchemaFile(entity, source),
+  }));
+
+  const groups = new Map<string, { group?: string; endpoints: ImportedEndpoint[] }>();
+  for (const endpoint of endpoints) {
+    const fileName = endpointFileName(endpoint.group);
+    if (!groups.has(fileName)) groups.set(fileName, { group: endpoint.group, endpoints: [] });
+    groups.get(fileName)!.endpoints.push(endpoint);
+  }
+  for (const [fileName, { group, endpoints: grouped }] of groups) {
+    files.push({
+      fileName,
+      label: `${grouped.length} endpoint(s)`,
+      content: () => generateEndpointFile(group, grouped, source),
+    });
+  }
+
+  // 3. Write schema files
+  console.log('📝 Writing schemas...');
+  let written = 0;
+  for (const file of files) {
+    const path = join(outputDir, file.fileName);
+
+    if (existsSync(path) && !options.force) {
+      console.log(`   - ${file.fileName} exists, skipped (use --force to overwrite)`);
+      continue;
+    }
+
+    const content = file.content();
+    if (options.dryRun) {
+      console.log(`   [DRY RUN] Would write: ${path}`);
+      if (options.verbose) console.log(content);
+    } else {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, content, 'utf-8');
+      console.log(`   ✓ ${file.fileName} (${file.label})`);
+    }
+    written++;
+  }
+
+  // 4. Report what could not be imported
+  if (warnings.length > 0) {
+    console.log(`\n⚠️  ${warnings.length} warning(s):`);
+    for (const warning of warnings) {
+      console.log(`   - ${warning}`);
+    }
+  }
+
+  console.log(`\n✅ Imported ${written} file(s) into ${outputDir}\n`);
+  console.log('Next steps:');
+  console.log('  1. Review the generated schemas ("format" comments mark approximated properties)');
+  console.log('  2. Replace the faker mockResolvers with real logic where needed');
+  console.log('  3. Generate code: npx schemock generate');
+  console.log('');
+}
@@ -0,0 +1,107 @@
+/**
+ * SQL import command for Schemock CLI
+ *
+ * Reads schema.sql / pg_dump output, or an existing PGlite data directory,
+ * and writes one defineData() schema file per table.
+ *
+ * @module cli/commands/import-sql
+ * @category CLI
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { importSqlSchema } from '../importers/sql';
+import { generateSchemaFile, schemaFileName } from '../importers/schema-writer';
+import type { ImportSqlOptions } from '../types';
+
+/**
+ * Import a Postgres schema as Schemock schema files
+ *
+ * @param options - Import options
+ */
+export async function importSqlFiles(options: ImportSqlOptions): Promise<void> {
+  console.log('\n📥 Schemock SQL Importer\n');
+
+  if (!options.input) {
+    throw new Error('Usage: schemock import:sql <schema.sql | pglite-data-dir> [--output <dir>]');
+  }
+  if (!existsSync(options.input)) {
+    throw new Error(`Input not found: ${options.input}`);
+  }
+
+  const outputDir = options.output || './src/schemas';
+  const isDataDir = (await stat(options.input)).isDirectory();
+
+  console.log(`  Input:   ${options.input}${isDataDir ? ' (PGlite data directory)' : ''}`);
+  console.log(`  Output:  ${outputDir}`);
+  console.log('');
+
+  // 1. Load the schema into PGlite
+  let PGlite: typeof import('@electric-sql/pglite').PGlite;
+  try {
+    ({ PGlite } = await import('@electric-sql/pglite'));
+  } catch {
+    throw new Error('import:sql requires @electric-sql/pglite. Install it: npm install -D @electric-sql/pglite');
+  }
+
+  console.log(isDataDir ? '🔌 Opening database...' : '📦 Loading SQL into PGlite...');
+  const db = isDataDir ? new PGlite(options.input) : new PGlite();
+  const source = isDataDir ? `database "${basename(options.input)}"` : basename(options.input);
+
+  try {
+    // 2. Introspect and map tables to entities
+    const sql = isDataDir ? undefined : await readFile(options.input, 'utf-8');
+    const { entities, warnings } = await importSqlSchema(db, sql);
+    console.log(`   Found: ${entities.length} tables\n`);
+
+    if (entities.length === 0) {
+      console.log('⚠️  No tables found in the public schema. Nothing to import.\n');
+      return;
+    }
+
+    // 3. Write schema files
+    console.log('📝 Writing schemas...');
+    if (!options.dryRun) {
+      await mkdir(outputDir, { recursive: true });
+    }
+
+    let written = 0;
+    for (const entity of entities) {
+      const fileName = schemaFileName(entity);
+      const path = join(outputDir, fileName);
+
+      if (existsSync(path) && !options.force) {
+        console.log(`   - ${fileName} exists, skipped (use --force to overwrite)`);
+        continue;
+      }
+
+      const content = generateSchemaFile(entity, source);
+      if (options.dryRun) {
+        console.log(`   [DRY RUN] Would write: ${path}`);
+        if (options.verbose) console.log(content);
+      } else {
+        await writeFile(path, content, 'utf-8');
+        console.log(`   ✓ ${fileName} (${entity.tableName})`);
+      }
+      written++;
+    }
+
+    // 4. Report what could not be imported
+    if (warnings.length > 0) {
+      console.log(`\n⚠️  ${warnings.length} warning(s):`);
+      for (const warning of warnings) {
+        console.log(`   - ${warning}`);
+      }
+    }
+
+    console.log(`\n✅ Imported ${written} schema(s) into ${outputDir}\n`);
+    console.log('Next steps:');
+    console.log('  1. Review the generated schemas ("source type" comments mark approximated columns)');
+    console.log('  2. Check the round trip: npx schemock generate:sql --combined');
+    console.log('  3. Generate code: npx schemock generate');
+    console.log('');
+  } finally {
+    await db.close();
+  }
+}
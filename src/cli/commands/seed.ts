@@ -0,0 +1,132 @@
+/**
+ * Seed command for Schemock CLI
+ *
+ * Builds a named scenario (see `defineScenario()` in `schemock/seed`) and
+ * either writes the dataset to a JSON file or creates the records through
+ * a running API, in dependency order.
+ *
+ * @module cli/commands/seed
+ * @category CLI
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { loadConfig } from '../config';
+import { discoverSchemas } from '../discover';
+import { analyzeSchemas } from '../analyze';
+import { buildScenario, scenarioReferences, type ScenarioDataset, type SeedScenario } from '../../seed/scenario';
+import type { EntitySchema } from '../../schema/types';
+import type { SeedOptions } from '../types';
+
+/**
+ * Build a seed scenario and write or send its records
+ *
+ * @param options - Seed options
+ */
+export async function seedScenarioCommand(options: SeedOptions): Promise<void> {
+  console.log('\n🌱 Schemock Seed\n');
+
+  // 1. Load config
+  const config = await loadConfig(options.config);
+
+  // 2. Discover schemas and scenarios
+  const { schemas, scenarios = [] } = await discoverSchemas(config.schemas, {
+    endpointsGlob: config.endpoints,
+    scenariosGlob: config.scenarios,
+  });
+
+  if (!options.scenario) {
+    listScenarios(scenarios);
+    return;
+  }
+
+  const scenario = scenarios.find((s) => s.name === options.scenario);
+  if (!scenario) {
+    const available = scenarios.map((s) => s.name).join(', ') || 'none';
+    throw new Error(`Unknown scenario "${options.scenario}". Available scenarios: ${available}`);
+  }
+
+  // 3. Build
+  const seed = scenario.seed ?? options.fakerSeed ?? config.adapters?.mock?.fakerSeed ?? config.adapters?.pglite?.fakerSeed ?? 1;
+  const data = buildScenario(scenario, schemas, { seed });
+
+  for (const [entity, rows] of Object.entries(data)) {
+    console.log(`   ${entity}: ${rows.length}`);
+  }
+  console.log();
+
+  // 4. Send or write
+  if (options.url) {
+    const analyzed = analyzeSchemas(schemas, { ...config, adapter: 'mock' });
+    const routes = new Map(analyzed.map((schema) => [schema.name, schema.endpoint]));
+    console.log(`📡 Creating records through ${options.url}`);
+    await sendDataset(data, schemas, routes, options);
+    console.log(`\n✅ Scenario "${scenario.name}" created\n`);
+    return;
+  }
+
+  const output = options.output || `./seed-${scenario.name}.json`;
+  await mkdir(dirname(output), { recursive: true });
+  await writeFile(output, JSON.stringify({ scenario: scenario.name, seed, data }, null, 2) + '\n');
+  console.log(`✅ Scenario "${scenario.name}" written to ${output}\n`);
+}
+
+function listScenarios(scenarios: SeedScenario[]): void {
+  if (scenarios.length === 0) {
+    console.log('⚠️  No scenarios found. Export defineScenario() results from your schema files');
+    console.log('   or point the config\'s scenarios glob at them.\n');
+    return;
+  }
+
+  console.log('Scenarios:');
+  for (const scenario of scenarios) {
+    console.log(`   ${scenario.name}${scenario.description ? ` - ${scenario.description}` : ''}`);
+  }
+  console.log('\nRun schemock seed --scenario <name>\n');
+}
+
+/**
+ * POST every record to its entity route. Ids are assigned by the API, so
+ * foreign keys are rewritten to the ids of the records it returned; entities
+ * must come after the ones they reference.
+ */
+export async function sendDataset(
+  data: ScenarioDataset,
+  schemas: EntitySchema[],
+  routes: Map<string, string>,
+  options: Pick<SeedOptions, 'url' | 'verbose'>
+): Promise<void> {
+  const byName = new Map(schemas.map((schema) => [schema.name, schema]));
+  const ids = new Map<string, string>();
+  const origin = options.url!.replace(/\/$/, '');
+
+  for (const [entity, rows] of Object.entries(data)) {
+    const schema = byName.get(entity)!;
+    const references = scenarioReferences(schema);
+
+    for (const row of rows) {
+      const body: Record<string, unknown> = {};
+      for (const [name, value] of Object.entries(row)) {
+        if (name === 'id' || schema.fields[name]?.readOnly) continue;
+        body[name] = references.has(name) && typeof value === 'string' ? (ids.get(value) ?? value) : value;
+      }
+
+      const response = await fetch(`${origin}${routes.get(entity)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(`Creating ${entity} failed with ${response.status}: ${JSON.stringify(payload)}`);
+      }
+
+      const record = payload?.data ?? payload;
+      ids.set(row.id as string, record?.id ?? row.id);
+    }
+
+    if (options.verbose) {
+      console.log(`   ✓ ${entity} (${rows.length})`);
+    }
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Snapshot commands for Schemock CLI
+ *
+ * `snapshot:save` writes the records of a running API (or of a seed
+ * scenario) to a snapshot file. `snapshot:restore` checks a snapshot
+ * against the current schemas, migrates it, and either creates its records
+ * through a running API or writes the migrated file for `importSnapshot()`.
+ *
+ * @module cli/commands/snapshot
+ * @category CLI
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { loadConfig } from '../config';
+import { discoverSchemas } from '../discover';
+import { analyzeSchemas } from '../analyze';
+import { sendDataset } from './seed';
+import { buildScenario, scenarioReferences, type ScenarioDataset } from '../../seed/scenario';
+import { createSnapshot, restoreSnapshot, type Snapshot } from '../../storage/snapshot';
+import type { EntitySchema } from '../../schema/types';
+import type { SchemockConfig, SnapshotOptions } from '../types';
+
+/** Records requested per list call when reading from an API */
+const PAGE_SIZE = 100;
+
+/**
+ * Save the records of a running API or a seed scenario to a snapshot file
+ *
+ * @param options - Snapshot options
+ */
+export async function saveSnapshotCommand(options: SnapshotOptions): Promise<void> {
+  console.log('\n📸 Schemock Snapshot\n');
+
+  const config = await loadConfig(options.config);
+  const { schemas, scenarios = [] } = await discoverSchemas(config.schemas, {
+    endpointsGlob: config.endpoints,
+    scenariosGlob: config.scenarios,
+  });
+
+  let data: ScenarioDataset;
+  if (options.url) {
+    console.log(`📡 Reading records from ${options.url}`);
+    data = await fetchDataset(schemas, entityRoutes(schemas, config), options);
+  } else if (options.scenario) {
+    const scenario = scenarios.find((s) => s.name === options.scenario);
+    if (!scenario) {
+      const available = scenarios.map((s) => s.name).join(', ') || 'none';
+      throw new Error(`Unknown scenario "${options.scenario}". Available scenarios: ${available}`);
+    }
+    const seed = scenario.seed ?? options.fakerSeed ?? config.adapters?.mock?.fakerSeed ?? config.adapters?.pglite?.fakerSeed ?? 1;
+    data = buildScenario(scenario, schemas, { seed });
+  } else {
+    throw new Error('snapshot:save needs --url <origin> or --scenario <name>');
+  }
+
+  const snapshot = createSnapshot(schemas, data);
+  printCounts(snapshot.data);
+
+  await mkdir(dirname(options.file), { recursive: true });
+  await writeFile(options.file, JSON.stringify(snapshot, null, 2) + '\n');
+  console.log(`✅ Snapshot ${snapshot.schemaVersion} written to ${options.file}\n`);
+}
+
+/**
+ * Migrate a snapshot file to the current schemas and restore it
+ *
+ * @param options - Snapshot options
+ */
+export async function restoreSnapshotCommand(options: SnapshotOptions): Promise<void> {
+  console.log('\n📸 Schemock Snapshot\n');
+
+  if (!options.file) {
+    throw new Error('snapshot:restore needs a snapshot file: schemock snapshot:restore <file>');
+  }
+
+  const config = await loadConfig(options.config);
+  const { schemas } = await discoverSchemas(config.schemas, { endpointsGlob: config.endpoints });
+
+  const restored = restoreSnapshot(await readFile(options.file, 'utf-8'), schemas, {
+    renames: parseRenames(options.rename),
+  });
+
+  if (restored.changes.length > 0) {
+    console.log(`🔀 Migrated from schema version ${restored.schemaVersion}:`);
+    for (const change of restored.changes) {
+      console.log(`   ${change}`);
+    }
+    console.log();
+  }
+  printCounts(restored.data);
+
+  if (options.url) {
+    console.log(`📡 Creating records through ${options.url}`);
+    await sendDataset(referenceOrder(restored.data, schemas), schemas, entityRoutes(schemas, config), options);
+    console.log(`\n✅ Snapshot restored through ${options.url}\n`);
+    return;
+  }
+
+  if (options.output) {
+    const snapshot = createSnapshot(schemas, restored.data);
+    await mkdir(dirname(options.output), { recursive: true });
+    await writeFile(options.output, JSON.stringify(snapshot, null, 2) + '\n');
+    console.log(`✅ Migrated snapshot written to ${options.output}\n`);
+    return;
+  }
+
+  console.log('✅ Snapshot is valid for the current schemas. Pass --url or --output to restore it.\n');
+}
+
+/**
+ * List route per entity, including the API prefix
+ */
+function entityRoutes(schemas: EntitySchema[], config: SchemockConfig): Map<string, string> {
+  const analyzed = analyzeSchemas(schemas, { ...config, adapter: 'mock' });
+  return new Map(analyzed.map((schema) => [schema.name, schema.endpoint]));
+}
+
+/**
+ * Page through every list route, soft-deleted records included
+ */
+async function fetchDataset(
+  schemas: EntitySchema[],
+  routes: Map<string, string>,
+  options: SnapshotOptions
+): Promise<ScenarioDataset> {
+  const origin = options.url!.replace(/\/$/, '');
+  const data: ScenarioDataset = {};
+
+  for (const schema of schemas) {
+    const rows: Record<string, unknown>[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const response = await fetch(`${origin}${routes.get(schema.name)}?limit=${PAGE_SIZE}&offset=${offset}&withDeleted=true`);
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(`Listing ${schema.name} failed with ${response.status}: ${JSON.stringify(payload)}`);
+      }
+
+      const page: Record<string, unknown>[] = Array.isArray(payload) ? payload : (payload?.data ?? []);
+      rows.push(...page);
+      if (page.length < PAGE_SIZE || payload?.meta?.hasMore === false) break;
+    }
+
+    data[schema.name] = rows;
+    if (options.verbose) {
+      console.log(`   ✓ ${schema.name} (${rows.length})`);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Put entities after the ones their foreign keys point at, so the API can
+ * hand out ids before they are referenced. Cycles keep their order.
+ */
+function referenceOrder(data: ScenarioDataset, schemas: EntitySchema[]): ScenarioDataset {
+  const byName = new Map(schemas.map((schema) => [schema.name, schema]));
+  const ordered: ScenarioDataset = {};
+  const visiting = new Set<string>();
+
+  const visit = (entity: string) => {
+    if (entity in ordered || visiting.has(entity) || !data[entity]) return;
+    visiting.add(entity);
+    for (const target of scenarioReferences(byName.get(entity)!).values()) {
+      visit(target);
+    }
+    ordered[entity] = data[entity];
+  };
+
+  for (const entity of Object.keys(data)) {
+    visit(entity);
+  }
+  return ordered;
+}
+
+/**
+ * `user.fullName=name` and `person=user` pairs from --rename
+ */
+function parseRenames(renames: string[] = []): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const rename of renames) {
+    const [from, to] = rename.split('=').map((part) => part.trim());
+    if (!from || !to) {
+      throw new Error(`Invalid rename "${rename}". Use entity.oldField=newField or oldEntity=newEntity`);
+    }
+    result[from] = to;
+  }
+  return result;
+}
+
+function printCounts(data: Snapshot['data']): void {
+  for (const [entity, rows] of Object.entries(data)) {
+    console.log(`   ${entity}: ${rows.length}`);
+  }
+  console.log();
+}
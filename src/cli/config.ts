@@ -169,6 +169,20 @@ const AuthMiddlewareConfigSchema = z.object({
   skip: z.array(z.string()).optional(),
 }).strict();
 
+/**
+ * Zod schema for rate limit algorithm names
+ */
+const RateLimitAlgorithmSchema = z.enum(['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket']);
+
+/**
+ * Zod schema for a per-route or per-role rate limit
+ */
+const RateLimitRuleConfigSchema = z.object({
+  max: z.number().positive(),
+  windowMs: z.number().positive().optional(),
+  algorithm: RateLimitAlgorithmSchema.optional(),
+}).strict();
+
 /**
  * Zod schema for RateLimitMiddlewareConfig validation (v1.0)
  */
@@ -177,6 +191,10 @@ const RateLimitMiddlewareConfigSchema = z.object({
   windowMs: z.number().positive(),
   keyGenerator: z.enum(['ip', 'user', 'custom']).optional(),
   customKeyGenerator: z.string().optional(),
+  algorithm: RateLimitAlgorithmSchema.optional(),
+  storage: z.enum(['memory', 'redis']).optional(),
+  routes: z.record(RateLimitRuleConfigSchema).optional(),
+  roles: z.record(RateLimitRuleConfigSchema).optional(),
 }).strict();
 
 /**
@@ -233,6 +251,7 @@ const GenerationTargetSchema = z.object({
     'node-handlers',
     'supabase-edge',
     'neon',
+    'graphql-server',
   ]),
   output: z.string().min(1, 'target output path is required'),
   entities: z.array(z.string()).optional(),
@@ -242,8 +261,8 @@ const GenerationTargetSchema = z.object({
   excludeTags: z.array(z.string()).optional(),
   module: z.string().optional(),
   group: z.string().optional(),
-  backend: z.enum(['supabase', 'firebase', 'pglite', 'fetch']).optional(),
-  framework: z.enum(['react', 'none']).optional(),
+  backend: z.enum(['supabase', 'firebase', 'pglite', 'fetch', 'neon']).optional(),
+  framework: z.enum(['react', 'vue', 'svelte', 'none']).optional(),
   middleware: TargetMiddlewareConfigSchema.optional(),
   hooks: z.string().optional(),
   options: z.record(z.string(), z.unknown()).optional(),
@@ -265,6 +284,7 @@ const SchemockConfigSchema = z.object({
   schemas: z.string().min(1, 'schemas path is required'),
   endpoints: z.string().optional(),
   middlewareGlob: z.string().optional(),
+  scenarios: z.string().optional(),
   output: z.string().min(1, 'output path is required'),
   adapter: z.enum(['mock', 'supabase', 'firebase', 'fetch', 'graphql', 'pglite']),
   apiPrefix: z.string(),
@@ -4,7 +4,7 @@
  * @module cli/discover.test
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
 import { writeFile, mkdir, rm } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
 import { discoverSchemas } from './discover';
@@ -48,6 +48,20 @@ describe('discoverSchemas', () => {
       `
     );
 
+    // Create test view file (views live next to the entity schemas)
+    await writeFile(
+      join(SCHEMAS_DIR, 'user-full.ts'),
+      `
+        export const userFullView = {
+          name: 'user-full',
+          fields: {},
+          endpoint: '/api/users/:id/full',
+          params: ['id'],
+          _view: true as const,
+        };
+      `
+    );
+
     // Create test endpoint file
     await writeFile(
       join(ENDPOINTS_DIR, 'search.ts'),
@@ -113,6 +127,15 @@ describe('discoverSchemas', () => {
     });
   });
 
+  describe('view discovery', () => {
+    it('should discover views separately from entity schemas', async () => {
+      const result = await discoverSchemas(`${SCHEMAS_DIR}/**/*.ts`);
+
+      expect(result.views.map((v) => v.name)).toEqual(['user-full']);
+      expect(result.schemas.map((s) => s.name)).not.toContain('user-full');
+    });
+  });
+
   describe('endpoint discovery', () => {
     it('should discover endpoints from endpointsGlob option', async () => {
       const result = await discoverSchemas(`${SCHEMAS_DIR}/**/*.ts`, {
@@ -226,4 +249,51 @@ describe('discoverSchemas', () => {
       expect(result.endpoints).toHaveLength(0);
     });
   });
+
+  describe('watch support', () => {
+    const FRESH_DIR = join(FIXTURES_DIR, 'fresh');
+
+    it('should report files that fail to import', async () => {
+      await mkdir(FRESH_DIR, { recursive: true });
+      await writeFile(join(FRESH_DIR, 'tag.ts'), `export const tagSchema = { name: 'tag', fields: {} };`);
+      await writeFile(join(FRESH_DIR, 'broken.ts'), `export const brokenSchema = {`);
+
+      const result = await discoverSchemas(`${FRESH_DIR}/**/*.ts`, { fresh: true });
+
+      expect(result.schemas.map((s) => s.name)).toEqual(['tag']);
+      expect(result.importErrors).toHaveLength(1);
+      expect(result.importErrors?.[0].file).toContain('broken.ts');
+      await rm(join(FRESH_DIR, 'broken.ts'));
+    });
+
+    it('should re-import changed files when fresh is set', async () => {
+      await mkdir(FRESH_DIR, { recursive: true });
+      const file = join(FRESH_DIR, 'tag.ts');
+      await writeFile(file, `export const tagSchema = { name: 'tag', fields: {} };`);
+      await discoverSchemas(file, { fresh: true });
+
+      await writeFile(file, `export const tagSchema = { name: 'label', fields: {} };`);
+      const result = await discoverSchemas(file, { fresh: true });
+
+      expect(result.schemas.map((s) => s.name)).toEqual(['label']);
+    });
+  });
+
+  describe('optional dependencies', () => {
+    afterAll(() => {
+      vi.doUnmock('@faker-js/faker');
+      vi.resetModules();
+    });
+
+    it('should load without @faker-js/faker installed', async () => {
+      vi.resetModules();
+      vi.doMock('@faker-js/faker', () => {
+        throw new Error("Cannot find module '@faker-js/faker'");
+      });
+
+      const { discoverSchemas: discover } = await import('./discover');
+
+      expect(typeof discover).toBe('function');
+    });
+  });
 });
@@ -5,10 +5,13 @@
  * @category CLI
  */
 
-import { resolve, relative } from 'node:path';
+import { resolve, relative, sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
 import { readdir, stat } from 'node:fs/promises';
-import type { EntitySchema, EndpointSchema, MiddlewareSchema } from '../schema/types';
-import { isEndpointSchema, isMiddlewareSchema } from '../schema/types';
+import type { EntitySchema, EndpointSchema, MiddlewareSchema, ViewSchema } from '../schema/types';
+import { isEndpointSchema, isMiddlewareSchema, isViewSchema } from '../schema/types';
+import { isSeedScenario } from '../seed/scenario-brand';
+import type { SeedScenario } from '../seed/scenario';
 
 /**
  * Result of schema discovery
@@ -20,12 +23,28 @@ export interface DiscoveryResult {
   endpoints: EndpointSchema[];
   /** Discovered middleware schemas */
   middleware: MiddlewareSchema[];
+  /** Discovered views */
+  views: ViewSchema[];
   /** File paths where schemas were found */
   files: string[];
   /** Map of endpoint paths to their source file paths */
   endpointFiles?: Map<string, string>;
   /** Map of middleware names to their source file paths */
   middlewareFiles?: Map<string, string>;
+  /** Files that matched but failed to import (e.g. syntax errors) */
+  importErrors?: ImportError[];
+  /** Seed scenarios exported next to the schemas or from the scenarios glob */
+  scenarios?: SeedScenario[];
+}
+
+/**
+ * A file that could not be imported during discovery
+ */
+export interface ImportError {
+  /** Absolute file path */
+  file: string;
+  /** Error message */
+  message: string;
 }
 
 /**
@@ -161,6 +180,10 @@ export interface DiscoverOptions {
   endpointsGlob?: string;
   /** Glob pattern for middleware files */
   middlewareGlob?: string;
+  /** Glob pattern for seed scenario files */
+  scenariosGlob?: string;
+  /** Re-import files instead of reusing Node's module cache (watch mode) */
+  fresh?: boolean;
 }
 
 /**
@@ -174,7 +197,7 @@ export async function discoverSchemas(
   pattern: string,
   options: DiscoverOptions = {}
 ): Promise<DiscoveryResult> {
-  const { endpointsGlob, middlewareGlob } = options;
+  const { endpointsGlob, middlewareGlob, scenariosGlob, fresh = false } = options;
 
   // Discover schema and endpoint files from main pattern
   let files = await resolveGlobOrPath(pattern);
@@ -191,20 +214,45 @@ export async function discoverSchemas(
 
   const schemas: EntitySchema[] = [];
   const endpoints: EndpointSchema[] = [];
+  const views: ViewSchema[] = [];
   const loadedFiles: string[] = [];
   const endpointFiles = new Map<string, string>();
   const seenEntityNames = new Set<string>();
   const seenEndpointKeys = new Set<string>(); // Use method+path as key for proper deduplication
+  const seenViewNames = new Set<string>();
+  const importErrors: ImportError[] = [];
+  const scenarios: SeedScenario[] = [];
+  const seenScenarioNames = new Set<string>();
+
+  const addScenario = (scenario: SeedScenario, file: string): void => {
+    if (!seenScenarioNames.has(scenario.name)) {
+      seenScenarioNames.add(scenario.name);
+      scenarios.push(scenario);
+    } else if (!scenarios.includes(scenario)) {
+      console.warn(`Warning: Duplicate scenario '${scenario.name}' in ${file}`);
+    }
+  };
+
+  if (fresh) {
+    clearRequireCache();
+  }
 
   for (const file of files) {
     try {
       // Import the module
-      const module = await import(file);
+      const module = await importModule(file, fresh);
 
-      // Find all exports that are EntitySchema or EndpointSchema
+      // Find all exports that are EntitySchema, EndpointSchema or ViewSchema
       let foundSchema = false;
       for (const [_exportName, value] of Object.entries(module)) {
-        if (isEntitySchema(value)) {
+        // Views have a name and fields too, so check them before entities
+        if (isViewSchema(value)) {
+          if (!seenViewNames.has(value.name)) {
+            seenViewNames.add(value.name);
+            views.push(value);
+          }
+          foundSchema = true;
+        } else if (isEntitySchema(value)) {
           // Deduplicate entities by name (handles re-exports from barrel files)
           if (!seenEntityNames.has(value.name)) {
             seenEntityNames.add(value.name);
@@ -227,6 +275,8 @@ export async function discoverSchemas(
             console.warn(`Warning: Duplicate endpoint ${value.method} ${value.path} in ${file}`);
           }
           foundSchema = true;
+        } else if (isSeedScenario(value)) {
+          addScenario(value, file);
         }
       }
 
@@ -235,6 +285,7 @@ export async function discoverSchemas(
       }
     } catch (error) {
       console.warn(`Warning: Could not import ${file}: ${error}`);
+      importErrors.push({ file, message: error instanceof Error ? error.message : String(error) });
     }
   }
 
@@ -248,7 +299,7 @@ export async function discoverSchemas(
 
     for (const file of mwFiles) {
       try {
-        const module = await import(file);
+        const module = await importModule(file, fresh);
 
         for (const [_exportName, value] of Object.entries(module)) {
           if (isMiddlewareSchema(value)) {
@@ -268,24 +319,96 @@ export async function discoverSchemas(
         }
       } catch (error) {
         console.warn(`Warning: Could not import middleware from ${file}: ${error}`);
+        importErrors.push({ file, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  // Discover seed scenarios from separate glob if provided
+  if (scenariosGlob) {
+    const scenarioFiles = await resolveGlobOrPath(scenariosGlob, { allowEmpty: true });
+
+    for (const file of scenarioFiles) {
+      try {
+        const module = await importModule(file, fresh);
+
+        for (const [_exportName, value] of Object.entries(module)) {
+          if (isSeedScenario(value)) {
+            addScenario(value, file);
+          }
+        }
+      } catch (error) {
+        console.warn(`Warning: Could not import scenarios from ${file}: ${error}`);
+        importErrors.push({ file, message: error instanceof Error ? error.message : String(error) });
       }
     }
   }
 
-  if (schemas.length === 0 && endpoints.length === 0 && middleware.length === 0) {
-    throw new Error('No schemas found. Make sure your schema files export defineData(), defineEndpoint(), or defineMiddleware() results.');
+  if (
+    schemas.length === 0 &&
+    endpoints.length === 0 &&
+    middleware.length === 0 &&
+    views.length === 0 &&
+    importErrors.length === 0
+  ) {
+    throw new Error('No schemas found. Make sure your schema files export defineData(), defineEndpoint(), defineView(), or defineMiddleware() results.');
   }
 
   return {
     schemas,
     endpoints,
     middleware,
+    views,
     files: loadedFiles,
     endpointFiles,
     middlewareFiles: middlewareFilesMap,
+    importErrors,
+    scenarios,
   };
 }
 
+/**
+ * Whether this module was loaded through require(), in which case import()
+ * of schema files goes through require() as well
+ */
+const loadedAsCommonJs =
+  typeof require === 'function' && typeof __filename === 'string' && require.cache[__filename] !== undefined;
+
+/** Query string counter that gives every fresh ES module import a new URL */
+let importVersion = 0;
+
+/**
+ * Import a schema module, optionally bypassing the module cache
+ *
+ * Under CommonJS (the bundled CLI, tsx's require hook) the project's modules
+ * are dropped from require.cache beforehand, so files imported by the schema
+ * files are reloaded too. ES modules cannot be evicted; a query string makes
+ * Node load the entry file again, but its own imports stay cached.
+ */
+async function importModule(file: string, fresh: boolean): Promise<Record<string, unknown>> {
+  if (!fresh) {
+    return import(file);
+  }
+  if (loadedAsCommonJs) {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    return require(file);
+  }
+  return import(`${pathToFileURL(file).href}?version=${++importVersion}`);
+}
+
+/**
+ * Remove the project's own modules (everything outside node_modules) from require.cache
+ */
+function clearRequireCache(): void {
+  if (!loadedAsCommonJs) return;
+
+  for (const key of Object.keys(require.cache)) {
+    if (!key.includes(`${sep}node_modules${sep}`)) {
+      delete require.cache[key];
+    }
+  }
+}
+
 /**
  * Resolve a glob pattern or direct file path to a list of files
  *
@@ -331,6 +454,27 @@ async function resolveGlobOrPath(
   }
 }
 
+/**
+ * List the files a glob pattern or file path currently matches
+ *
+ * Unlike discovery, a missing file or directory is not an error.
+ *
+ * @param pattern - Glob pattern or direct file path
+ * @returns Array of resolved file paths
+ */
+export async function listMatchingFiles(pattern: string): Promise<string[]> {
+  const isGlob = pattern.includes('*') || pattern.includes('?') || pattern.includes('[');
+  const baseDir = isGlob ? resolve(parseGlobPattern(pattern).baseDir) : resolve(pattern);
+
+  try {
+    await stat(baseDir);
+  } catch {
+    return [];
+  }
+
+  return resolveGlobOrPath(pattern, { allowEmpty: true });
+}
+
 /**
  * Get relative path from current working directory
  */
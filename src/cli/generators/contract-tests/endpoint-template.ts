@@ -0,0 +1,115 @@
+/**
+ * Custom endpoint contract test generator
+ *
+ * Endpoint resolvers usually need real ids or domain-specific input, so the
+ * generated defaults are only placeholders; projects supply working values
+ * through `configureContract({ endpointInputs })`.
+ *
+ * @module cli/generators/contract-tests/endpoint-template
+ * @category CLI
+ */
+
+import type { AnalyzedEndpoint, AnalyzedEndpointField } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+
+/**
+ * Placeholder value expression for an endpoint param or body field
+ */
+export function endpointFieldValue(field: AnalyzedEndpointField): string {
+  if (field.hasDefault && field.default !== undefined) return literal(field.default);
+  if (field.enumValues && field.enumValues.length > 0) return literal(field.enumValues[0]);
+  if (field.isArray) return '[]';
+  if (field.isObject) return objectLiteral(field.shape ?? []);
+
+  switch (field.type) {
+    case 'uuid':
+    case 'ref':
+      return 'faker.string.uuid()';
+    case 'email':
+      return 'faker.internet.email()';
+    case 'url':
+      return 'faker.internet.url()';
+    case 'number':
+    case 'int':
+    case 'float':
+      return '1';
+    case 'boolean':
+      return 'true';
+    case 'date':
+      return 'new Date().toISOString()';
+    default:
+      return 'faker.lorem.word()';
+  }
+}
+
+function literal(value: unknown): string {
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  return JSON.stringify(value);
+}
+
+function objectLiteral(fields: AnalyzedEndpointField[]): string {
+  if (fields.length === 0) return '{}';
+  return `{ ${fields.map((field) => `${field.name}: ${endpointFieldValue(field)}`).join(', ')} }`;
+}
+
+/**
+ * Generate the contract test suite for a custom endpoint
+ *
+ * @param endpoint - Analyzed endpoint
+ * @returns Generated TypeScript code
+ */
+export function generateEndpointContractTest(endpoint: AnalyzedEndpoint): string {
+  const code = new CodeBuilder();
+  const { name, method, path } = endpoint;
+  const hasBody = method !== 'GET' && method !== 'DELETE';
+  const usesFaker = [...endpoint.params, ...(hasBody ? endpoint.body : [])].some((field) =>
+    endpointFieldValue(field).includes('faker.')
+  );
+  const requiredBody = hasBody ? endpoint.body.filter((field) => field.required) : [];
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.docComment(`Contract tests for ${method} ${path}`);
+  code.line("import { describe, it, expect } from 'vitest';");
+  if (usesFaker) {
+    code.line("import { faker } from '@faker-js/faker';");
+  }
+  code.line("import { endpointInput, recordOf, request, resolvePath, supports } from '../harness';");
+  code.line();
+
+  code.docComment("Placeholder input, overridden by the project's endpointInputs");
+  code.block('function input() {', () => {
+    code.block(`return endpointInput('${name}', {`, () => {
+      code.line(`params: ${objectLiteral(endpoint.params)},`);
+      code.line(`body: ${hasBody ? objectLiteral(endpoint.body) : '{}'},`);
+    }, '});');
+  });
+  code.line();
+
+  code.block(`describe.runIf(supports('endpoints'))('${method} ${path}', () => {`, () => {
+    code.block("it('responds with the declared shape', async () => {", () => {
+      code.line(hasBody ? 'const { params, body } = input();' : 'const { params } = input();');
+      code.line(`const { path, query } = resolvePath('${path}', params);`);
+      code.line(`const response = await request('${method}', path, { query${hasBody ? ', body' : ''} });`);
+      code.line();
+      code.line('expect(response.status).toBe(200);');
+      if (endpoint.response.length > 0) {
+        code.line('const data = recordOf(response);');
+        for (const field of endpoint.response) {
+          code.line(`expect(data).toHaveProperty('${field.name}');`);
+        }
+      }
+    }, '});');
+
+    if (requiredBody.length > 0) {
+      code.line();
+      code.block(`it('rejects a body without ${requiredBody.map((field) => field.name).join(', ')}', async () => {`, () => {
+        code.line(`const { path, query } = resolvePath('${path}', input().params);`);
+        code.line(`const response = await request('${method}', path, { query, body: {} });`);
+        code.line();
+        code.line('expect(response.status).toBe(400);');
+      }, '});');
+    }
+  }, '});');
+
+  return code.toString();
+}
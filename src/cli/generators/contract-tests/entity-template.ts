@@ -0,0 +1,364 @@
+/**
+ * Entity contract test generator
+ *
+ * One suite per entity, split into describe blocks per feature so a target
+ * without, say, filter support can skip that block and still prove the rest.
+ * Assertions only cover what every REST target promises: status codes, the
+ * `{ data }` envelope and the values the client sent.
+ *
+ * @module cli/generators/contract-tests/entity-template
+ * @category CLI
+ */
+
+import type { AnalyzedField, AnalyzedSchema } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { inputFields, isRequiredInput, parentRefs, scopeKey } from './fixtures-template';
+
+const COMPARABLE_TYPES = new Set(['string', 'text', 'email', 'url', 'uuid', 'boolean']);
+
+/**
+ * Fields whose value reads back exactly as sent
+ */
+function comparableFields(schema: AnalyzedSchema, schemas: AnalyzedSchema[]): AnalyzedField[] {
+  const parents = new Set(parentRefs(schema, schemas).map(({ field }) => field.name));
+  return inputFields(schema).filter(
+    (field) =>
+      !field.isArray &&
+      !field.isObject &&
+      (!field.isRef || parents.has(field.name)) &&
+      (field.isEnum || COMPARABLE_TYPES.has(field.type))
+  );
+}
+
+/**
+ * Field to filter on: unique fields narrow the result the most
+ */
+function filterField(fields: AnalyzedField[]): AnalyzedField | undefined {
+  return (
+    fields.find((field) => field.unique) ??
+    fields.find((field) => !field.isEnum && field.type !== 'boolean') ??
+    fields[0]
+  );
+}
+
+/**
+ * Entity name with its indefinite article, for test titles
+ */
+function article(name: string): string {
+  return `${/^[aeiou]/i.test(name) ? 'an' : 'a'} ${name}`;
+}
+
+/**
+ * Request options that add the If-Match header versioned entities require
+ */
+function versionHeader(schema: AnalyzedSchema, record: string): string {
+  return schema.versioned ? `, headers: { 'If-Match': \`"\${${record}.version}"\` }` : '';
+}
+
+/**
+ * Generate the contract test suite for an entity
+ *
+ * @param schema - Entity under test
+ * @param schemas - All schemas with REST routes (for relations and fixtures)
+ * @returns Generated TypeScript code
+ */
+export function generateEntityContractTest(schema: AnalyzedSchema, schemas: AnalyzedSchema[]): string {
+  const code = new CodeBuilder();
+  const { name, pascalName, pluralName, endpoint } = schema;
+  const comparable = comparableFields(schema, schemas);
+  const fixtures = [`build${pascalName}`, `create${pascalName}`, `${name}Input`];
+
+  const relationTests = relationCases(schema, schemas);
+  for (const { fixture } of relationTests) {
+    if (fixture) fixtures.push(`create${fixture.pascalName}`);
+  }
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.docComment(`Contract tests for ${name} (${endpoint})`);
+  code.line("import { describe, it, expect } from 'vitest';");
+  code.line("import { randomUUID } from 'node:crypto';");
+  code.line("import { listOf, recordOf, request, supports } from './harness';");
+  code.line(`import { ${[...new Set(fixtures)].sort().join(', ')} } from './fixtures';`);
+  code.line();
+
+  // CRUD
+  code.block(`describe.runIf(supports('crud'))('${name} CRUD', () => {`, () => {
+    code.block(`it('creates ${article(name)}', async () => {`, () => {
+      code.line(`const input = await ${name}Input();`);
+      code.line(`const response = await request('POST', '${endpoint}', { body: input });`);
+      code.line();
+      code.line('expect(response.status).toBe(201);');
+      code.line('const record = recordOf(response);');
+      code.line('expect(record.id).toBeDefined();');
+      for (const field of comparable) {
+        code.line(`expect(record.${field.name}).toEqual(input.${field.name});`);
+      }
+    }, '});');
+    code.line();
+
+    code.block(`it('reads ${article(name)} by id', async () => {`, () => {
+      code.line(`const created = await create${pascalName}();`);
+      code.line(`const response = await request('GET', \`${endpoint}/\${created.id}\`);`);
+      code.line();
+      code.line('expect(response.status).toBe(200);');
+      code.line('expect(recordOf(response).id).toBe(created.id);');
+    }, '});');
+    code.line();
+
+    code.block(`it('lists ${pluralName}', async () => {`, () => {
+      code.line(`await create${pascalName}();`);
+      code.line(`const response = await request('GET', '${endpoint}');`);
+      code.line();
+      code.line('expect(response.status).toBe(200);');
+      code.line('expect(listOf(response).length).toBeGreaterThan(0);');
+    }, '});');
+    code.line();
+
+    code.block(`it('updates ${article(name)}', async () => {`, () => {
+      code.line(`const created = await create${pascalName}();`);
+      code.line(`const changes = build${pascalName}();`);
+      code.line(
+        `const response = await request('PUT', \`${endpoint}/\${created.id}\`, { body: changes${versionHeader(schema, 'created')} });`
+      );
+      code.line();
+      code.line('expect(response.status).toBe(200);');
+      code.line('const record = recordOf(response);');
+      code.line('expect(record.id).toBe(created.id);');
+      for (const field of comparable) {
+        if (field.isRef) continue;
+        code.line(`expect(record.${field.name}).toEqual(changes.${field.name});`);
+      }
+    }, '});');
+    code.line();
+
+    code.block(`it('deletes ${article(name)}', async () => {`, () => {
+      code.line(`const created = await create${pascalName}();`);
+      code.line(`const response = await request('DELETE', \`${endpoint}/\${created.id}\`);`);
+      code.line();
+      code.line('expect([200, 204]).toContain(response.status);');
+      code.line(`expect((await request('GET', \`${endpoint}/\${created.id}\`)).status).toBe(404);`);
+    }, '});');
+    code.line();
+
+    code.block(`it('returns 404 for an unknown ${name}', async () => {`, () => {
+      code.line(`const response = await request('GET', \`${endpoint}/\${randomUUID()}\`);`);
+      code.line();
+      code.line('expect(response.status).toBe(404);');
+    }, '});');
+  }, '});');
+
+  // Filters
+  const filter = filterField(comparable);
+  if (filter) {
+    code.line();
+    code.block(`describe.runIf(supports('filters'))('${name} filters', () => {`, () => {
+      code.block(`it('filters ${pluralName} by ${filter.name}', async () => {`, () => {
+        code.line(`const created = await create${pascalName}();`);
+        code.line(
+          `const response = await request('GET', '${endpoint}', { query: { where: { ${filter.name}: created.${filter.name} } } });`
+        );
+        code.line();
+        code.line('expect(response.status).toBe(200);');
+        code.line('const records = listOf(response);');
+        code.line('expect(records.map((record) => record.id)).toContain(created.id);');
+        code.line(`expect(records.every((record) => record.${filter.name} === created.${filter.name})).toBe(true);`);
+      }, '});');
+    }, '});');
+  }
+
+  // Pagination
+  code.line();
+  code.block(`describe.runIf(supports('pagination'))('${name} pagination', () => {`, () => {
+    if (schema.pagination.style === 'cursor') {
+      code.block(`it('pages ${pluralName} with a cursor', async () => {`, () => {
+        code.line(`await create${pascalName}();`);
+        code.line(`await create${pascalName}();`);
+        code.line(`const first = await request('GET', '${endpoint}', { query: { limit: 1 } });`);
+        code.line('const cursor = first.body?.meta?.nextCursor;');
+        code.line();
+        code.line('expect(first.status).toBe(200);');
+        code.line('expect(listOf(first)).toHaveLength(1);');
+        code.line('expect(cursor).toBeTruthy();');
+        code.line(`const second = await request('GET', '${endpoint}', { query: { limit: 1, cursor } });`);
+        code.line('expect(listOf(second)).toHaveLength(1);');
+        code.line('expect(listOf(second)[0].id).not.toBe(listOf(first)[0].id);');
+      }, '});');
+    } else {
+      code.block(`it('pages ${pluralName} with limit and offset', async () => {`, () => {
+        code.line(`await create${pascalName}();`);
+        code.line(`await create${pascalName}();`);
+        code.line(`const first = await request('GET', '${endpoint}', { query: { limit: 1 } });`);
+        code.line(`const second = await request('GET', '${endpoint}', { query: { limit: 1, offset: 1 } });`);
+        code.line();
+        code.line('expect(first.status).toBe(200);');
+        code.line('expect(listOf(first)).toHaveLength(1);');
+        code.line('expect(listOf(second)).toHaveLength(1);');
+        code.line('expect(listOf(second)[0].id).not.toBe(listOf(first)[0].id);');
+      }, '});');
+    }
+  }, '});');
+
+  // Relations
+  if (relationTests.length > 0) {
+    code.line();
+    code.block(`describe.runIf(supports('relations'))('${name} relations', () => {`, () => {
+      relationTests.forEach((relation, index) => {
+        if (index > 0) code.line();
+        relation.generate(code);
+      });
+    }, '});');
+  }
+
+  // RLS
+  if (schema.rls.enabled && schema.rls.scope.length > 0) {
+    code.line();
+    generateRlsTests(code, schema);
+  }
+
+  // Validation
+  const invalid = validationCases(schema);
+  if (invalid.length > 0) {
+    code.line();
+    code.block(`describe.runIf(supports('validation'))('${name} validation', () => {`, () => {
+      invalid.forEach((generate, index) => {
+        if (index > 0) code.line();
+        generate(code);
+      });
+    }, '});');
+  }
+
+  return code.toString();
+}
+
+interface RelationCase {
+  /** Entity whose fixture the test creates besides the record's own */
+  fixture?: AnalyzedSchema;
+  generate: (code: CodeBuilder) => void;
+}
+
+/**
+ * Relation includes that fixtures can populate: belongsTo relations whose
+ * parent the fixture creates, and hasMany relations whose child row can be
+ * created pointing at the record.
+ */
+function relationCases(schema: AnalyzedSchema, schemas: AnalyzedSchema[]): RelationCase[] {
+  const { name, pascalName, endpoint } = schema;
+  const byName = new Map(schemas.map((s) => [s.name, s]));
+  const parents = new Set(parentRefs(schema, schemas).map(({ field }) => field.name));
+  const cases: RelationCase[] = [];
+
+  for (const relation of schema.relations) {
+    const target = byName.get(relation.resolvedTarget);
+    if (!target) continue;
+
+    if (relation.type === 'belongsTo') {
+      const localField = relation.localField ?? relation.foreignKey;
+      if (!parents.has(localField)) continue;
+      cases.push({
+        generate: (code) => {
+          code.block(`it('includes the ${relation.name} of ${article(name)}', async () => {`, () => {
+            code.line(`const created = await create${pascalName}();`);
+            code.line(
+              `const response = await request('GET', \`${endpoint}/\${created.id}\`, { query: { include: ['${relation.name}'] } });`
+            );
+            code.line();
+            code.line('expect(response.status).toBe(200);');
+            code.line(`expect(recordOf(response).${relation.name}?.id).toBe(created.${localField});`);
+          }, '});');
+        },
+      });
+    }
+
+    if (relation.type === 'hasMany') {
+      const foreignKey = target.fields.find((field) => field.name === relation.foreignKey);
+      if (!foreignKey || foreignKey.readOnly) continue;
+      cases.push({
+        fixture: target === schema ? undefined : target,
+        generate: (code) => {
+          code.block(`it('includes the ${relation.name} of ${article(name)}', async () => {`, () => {
+            code.line(`const created = await create${pascalName}();`);
+            code.line(`const child = await create${target.pascalName}({ ${relation.foreignKey}: created.id });`);
+            code.line(
+              `const response = await request('GET', \`${endpoint}/\${created.id}\`, { query: { include: ['${relation.name}'] } });`
+            );
+            code.line();
+            code.line('expect(response.status).toBe(200);');
+            code.line(
+              `expect((recordOf(response).${relation.name} ?? []).map((record: { id: string }) => record.id)).toContain(child.id);`
+            );
+          }, '});');
+        },
+      });
+    }
+  }
+
+  return cases;
+}
+
+/**
+ * Another actor (with different scope values) must neither see nor change
+ * the owner's record
+ */
+function generateRlsTests(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName, pluralName, endpoint } = schema;
+
+  code.block(`describe.runIf(supports('rls'))('${name} row-level security', () => {`, () => {
+    code.block(`it('hides ${pluralName} outside the caller\\'s scope', async () => {`, () => {
+      code.line(`const created = await create${pascalName}();`);
+      code.line(`const read = await request('GET', \`${endpoint}/\${created.id}\`, { as: 'intruder' });`);
+      code.line(`const list = await request('GET', '${endpoint}', { as: 'intruder' });`);
+      code.line();
+      code.line('expect([403, 404]).toContain(read.status);');
+      code.line('expect(listOf(list).map((record) => record.id)).not.toContain(created.id);');
+    }, '});');
+    code.line();
+
+    code.block(`it('rejects changes to ${pluralName} outside the caller\\'s scope', async () => {`, () => {
+      code.line(`const created = await create${pascalName}();`);
+      code.line(
+        `const update = await request('PUT', \`${endpoint}/\${created.id}\`, { body: build${pascalName}('intruder'), as: 'intruder'${versionHeader(schema, 'created')} });`
+      );
+      code.line(`const remove = await request('DELETE', \`${endpoint}/\${created.id}\`, { as: 'intruder' });`);
+      code.line();
+      code.line('expect([403, 404]).toContain(update.status);');
+      code.line('expect([403, 404]).toContain(remove.status);');
+      code.line(`expect((await request('GET', \`${endpoint}/\${created.id}\`)).status).toBe(200);`);
+    }, '});');
+  }, '});');
+}
+
+/**
+ * Create requests the target must answer with 400: a body missing required
+ * fields, and an enum value outside the declared values
+ */
+function validationCases(schema: AnalyzedSchema): Array<(code: CodeBuilder) => void> {
+  const { name, endpoint } = schema;
+  const cases: Array<(code: CodeBuilder) => void> = [];
+  // Scope fields are left out: servers may fill them from the caller's context
+  const required = inputFields(schema).filter((field) => isRequiredInput(field) && !scopeKey(schema, field));
+
+  if (required.length > 0) {
+    cases.push((code) => {
+      code.block(`it('rejects ${article(name)} without ${required.map((field) => field.name).join(', ')}', async () => {`, () => {
+        code.line(`const response = await request('POST', '${endpoint}', { body: {} });`);
+        code.line();
+        code.line('expect(response.status).toBe(400);');
+      }, '});');
+    });
+  }
+
+  const enumField = inputFields(schema).find((field) => field.isEnum && !field.isArray);
+  if (enumField) {
+    cases.push((code) => {
+      code.block(`it('rejects an unknown ${enumField.name}', async () => {`, () => {
+        code.line(
+          `const response = await request('POST', '${endpoint}', { body: await ${name}Input({ ${enumField.name}: '__invalid__' }) });`
+        );
+        code.line();
+        code.line('expect(response.status).toBe(400);');
+      }, '});');
+    });
+  }
+
+  return cases;
+}
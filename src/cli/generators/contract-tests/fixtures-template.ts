@@ -0,0 +1,160 @@
+/**
+ * Contract test fixtures generator
+ *
+ * Every entity gets a `build` function (faker values for its writable
+ * fields), an async input builder that first creates required parents over
+ * HTTP, and a `create` helper that fails loudly when the target rejects it.
+ *
+ * @module cli/generators/contract-tests/fixtures-template
+ * @category CLI
+ */
+
+import type { AnalyzedField, AnalyzedSchema } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+
+/**
+ * Fields a client sends when creating a record
+ */
+export function inputFields(schema: AnalyzedSchema): AnalyzedField[] {
+  return schema.fields.filter((field) => field.name !== 'id' && !field.readOnly && !field.isComputed);
+}
+
+/**
+ * Whether a create request must include the field
+ */
+export function isRequiredInput(field: AnalyzedField): boolean {
+  return !field.nullable && !field.hasDefault;
+}
+
+/**
+ * Context key a field is scoped to by RLS, if any
+ */
+export function scopeKey(schema: AnalyzedSchema, field: AnalyzedField): string | undefined {
+  if (!schema.rls.enabled) return undefined;
+  return schema.rls.scope.find((scope) => scope.field === field.name)?.contextKey;
+}
+
+/**
+ * Required references whose parent is created before the record. References
+ * that would loop back to the entity get a faker id instead.
+ */
+export function parentRefs(schema: AnalyzedSchema, schemas: AnalyzedSchema[]): Array<{ field: AnalyzedField; parent: AnalyzedSchema }> {
+  const byName = new Map(schemas.map((s) => [s.name, s]));
+  const refs: Array<{ field: AnalyzedField; parent: AnalyzedSchema }> = [];
+
+  for (const field of inputFields(schema)) {
+    if (!field.isRef || !field.refTarget || !isRequiredInput(field) || scopeKey(schema, field)) continue;
+    const parent = byName.get(field.refTarget);
+    if (parent && !reaches(parent, schema.name, byName, new Set())) {
+      refs.push({ field, parent });
+    }
+  }
+  return refs;
+}
+
+/**
+ * Whether creating `from` would (transitively) create `target` first
+ */
+function reaches(
+  from: AnalyzedSchema,
+  target: string,
+  byName: Map<string, AnalyzedSchema>,
+  seen: Set<string>
+): boolean {
+  if (from.name === target) return true;
+  if (seen.has(from.name)) return false;
+  seen.add(from.name);
+
+  return inputFields(from).some((field) => {
+    if (!field.isRef || !field.refTarget || !isRequiredInput(field)) return false;
+    const next = byName.get(field.refTarget);
+    return next !== undefined && reaches(next, target, byName, seen);
+  });
+}
+
+/**
+ * Generate fixtures.ts for a contract suite
+ *
+ * @param schemas - Analyzed schemas with REST routes
+ * @returns Generated TypeScript code
+ */
+export function generateContractFixtures(schemas: AnalyzedSchema[]): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.docComment('Records for contract tests, created through the API under test');
+  code.line("import { faker } from '@faker-js/faker';");
+  code.line("import { contextValue, recordOf, request } from './harness';");
+  code.line();
+
+  for (const schema of schemas) {
+    generateEntityFixtures(code, schema, schemas);
+  }
+
+  return code.toString();
+}
+
+/**
+ * Faker value for a field. Unique strings get a random suffix, since a
+ * suite creates many records and faker word lists are short.
+ */
+function fixtureValue(field: AnalyzedField): string {
+  if (!field.unique || field.isEnum || field.max !== undefined) return field.fakerCall;
+  if (field.type === 'string' || field.type === 'text') {
+    return `\`\${${field.fakerCall}}-\${faker.string.alphanumeric(8)}\``;
+  }
+  if (field.type === 'email') {
+    return `\`\${faker.string.alphanumeric(8)}.\${${field.fakerCall}}\``;
+  }
+  return field.fakerCall;
+}
+
+function generateEntityFixtures(code: CodeBuilder, schema: AnalyzedSchema, schemas: AnalyzedSchema[]): void {
+  const { name, pascalName } = schema;
+  const parents = parentRefs(schema, schemas);
+  const parentFields = new Set(parents.map(({ field }) => field.name));
+
+  code.docComment(`Writable ${name} fields with fresh values`);
+  code.block(`export function build${pascalName}(actor = 'owner'): Record<string, unknown> {`, () => {
+    code.block('return {', () => {
+      for (const field of inputFields(schema)) {
+        if (parentFields.has(field.name)) continue;
+        const key = scopeKey(schema, field);
+        if (key) {
+          code.line(`${field.name}: contextValue(actor, '${key}'),`);
+        } else if (!field.isRef || isRequiredInput(field)) {
+          code.line(`${field.name}: ${fixtureValue(field)},`);
+        }
+      }
+    }, '};');
+  });
+  code.line();
+
+  code.docComment(`Create input for a new ${name}, creating required parents first`);
+  code.block(
+    `export async function ${name}Input(overrides: Record<string, unknown> = {}, actor = 'owner'): Promise<Record<string, unknown>> {`,
+    () => {
+      code.block('return {', () => {
+        code.line(`...build${pascalName}(actor),`);
+        for (const { field, parent } of parents) {
+          code.line(`${field.name}: overrides.${field.name} ?? (await create${parent.pascalName}({}, actor)).id,`);
+        }
+        code.line('...overrides,');
+      }, '};');
+    }
+  );
+  code.line();
+
+  code.docComment(`Create a new ${name} through the API`);
+  code.block(
+    `export async function create${pascalName}(overrides: Record<string, unknown> = {}, actor = 'owner'): Promise<Record<string, any>> {`,
+    () => {
+      code.line(`const response = await request('POST', '${schema.endpoint}', { body: await ${name}Input(overrides, actor), as: actor });`);
+      code.block('if (response.status !== 201) {', () => {
+        code.line(`throw new Error(\`Creating ${name} failed with \${response.status}: \${JSON.stringify(response.body)}\`);`);
+      });
+      code.line('return recordOf(response);');
+    }
+  );
+  code.line();
+}
@@ -0,0 +1,213 @@
+/**
+ * Contract test harness generator
+ *
+ * The harness is the only part of a contract suite that knows how requests
+ * reach the API: a base URL plus a `fetch` implementation, both replaceable
+ * from a Vitest setup file. Actors stand in for users in RLS tests; each
+ * one gets its own ids for every scope context key.
+ *
+ * @module cli/generators/contract-tests/harness-template
+ * @category CLI
+ */
+
+import type { AnalyzedSchema } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+
+/**
+ * Generate harness.ts for a contract suite
+ *
+ * @param schemas - Analyzed schemas (for RLS context keys)
+ * @returns Generated TypeScript code
+ */
+export function generateContractHarness(schemas: AnalyzedSchema[]): string {
+  const code = new CodeBuilder();
+  const contextKeys = [...new Set(schemas.flatMap((schema) => schema.rls.scope.map((scope) => scope.contextKey)))]
+    .filter((key) => key !== 'userId');
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.multiDocComment([
+    'Contract test harness',
+    '',
+    'Point the suite at a target with SCHEMOCK_CONTRACT_BASE_URL, or call',
+    'configureContract() from a Vitest setup file to inject a fetch',
+    'implementation (an in-process app, or fetch patched by MSW).',
+    'SCHEMOCK_CONTRACT_SKIP lists features the target does not support.',
+  ]);
+  code.line("import { randomUUID } from 'node:crypto';");
+  code.line();
+
+  code.line("export type ContractFeature = 'crud' | 'filters' | 'pagination' | 'relations' | 'rls' | 'validation' | 'endpoints';");
+  code.line();
+  code.line('export type ContractFetch = (url: string, init: RequestInit) => Promise<Response>;');
+  code.line();
+
+  code.block('export interface ContractResponse {', () => {
+    code.line('status: number;');
+    code.line('body: any;');
+  });
+  code.line();
+
+  code.block('export interface RequestOptions {', () => {
+    code.line('query?: Record<string, unknown>;');
+    code.line('body?: unknown;');
+    code.line('headers?: Record<string, string>;');
+    code.comment("Actor to send the request as (default: 'owner')");
+    code.line('as?: string;');
+  });
+  code.line();
+
+  code.block('export interface EndpointInput {', () => {
+    code.line('params?: Record<string, unknown>;');
+    code.line('body?: Record<string, unknown>;');
+  });
+  code.line();
+
+  code.block('export interface ContractConfig {', () => {
+    code.comment('Origin the target serves on');
+    code.line('baseUrl: string;');
+    code.comment('fetch implementation used for every request');
+    code.line('fetch: ContractFetch;');
+    code.comment('Headers sent with every request');
+    code.line('headers: Record<string, string>;');
+    code.comment("Auth headers for an actor's claims (default: unsigned JWT bearer token)");
+    code.line('authenticate: (claims: Record<string, string>) => Record<string, string>;');
+    code.comment('Features the target does not support');
+    code.line('skip: ContractFeature[];');
+    code.comment('Params and bodies for custom endpoints, by endpoint name');
+    code.line('endpointInputs: Record<string, EndpointInput>;');
+  });
+  code.line();
+
+  code.block('const config: ContractConfig = {', () => {
+    code.line("baseUrl: process.env.SCHEMOCK_CONTRACT_BASE_URL ?? 'http://localhost:3000',");
+    code.line('fetch: (url, init) => fetch(url, init),');
+    code.line('headers: {},');
+    code.line('authenticate: (claims) => ({ Authorization: `Bearer ${unsignedJwt(claims)}` }),');
+    code.line("skip: (process.env.SCHEMOCK_CONTRACT_SKIP ?? '').split(',').filter(Boolean) as ContractFeature[],");
+    code.line('endpointInputs: {},');
+  }, '};');
+  code.line();
+
+  code.docComment('Override harness settings, e.g. from a Vitest setup file');
+  code.block('export function configureContract(overrides: Partial<ContractConfig>): void {', () => {
+    code.line('Object.assign(config, overrides);');
+  });
+  code.line();
+
+  code.docComment('Whether the target under test supports a feature');
+  code.block('export function supports(feature: ContractFeature): boolean {', () => {
+    code.line('return !config.skip.includes(feature);');
+  });
+  code.line();
+
+  code.line('const actors = new Map<string, Record<string, string>>();');
+  code.line();
+  code.docComment('JWT claims of an actor, with distinct ids per actor');
+  code.block('export function claimsOf(actor: string): Record<string, string> {', () => {
+    code.line('let claims = actors.get(actor);');
+    code.block('if (!claims) {', () => {
+      code.line('const userId = randomUUID();');
+      const extra = contextKeys.map((key) => `${propertyKey(key)}: randomUUID()`).join(', ');
+      code.line(`claims = { sub: userId, userId, role: 'user'${extra ? `, ${extra}` : ''} };`);
+      code.line('actors.set(actor, claims);');
+    });
+    code.line('return claims;');
+  });
+  code.line();
+
+  code.docComment('Value of an RLS context key for an actor');
+  code.block('export function contextValue(actor: string, key: string): string {', () => {
+    code.line('return claimsOf(actor)[key];');
+  });
+  code.line();
+
+  code.docComment('Params and body for a custom endpoint, with configured overrides applied');
+  code.block('export function endpointInput(name: string, defaults: Required<EndpointInput>): Required<EndpointInput> {', () => {
+    code.line('const override = config.endpointInputs[name] ?? {};');
+    code.line('return { params: { ...defaults.params, ...override.params }, body: { ...defaults.body, ...override.body } };');
+  });
+  code.line();
+
+  code.docComment('Fill `:param` segments of a path; the remaining params form the query');
+  code.block('export function resolvePath(template: string, params: Record<string, unknown>): { path: string; query: Record<string, unknown> } {', () => {
+    code.line('const query = { ...params };');
+    code.block('const path = template.replace(/:(\\w+)/g, (_, name: string) => {', () => {
+      code.line('const value = query[name];');
+      code.line('delete query[name];');
+      code.line('return encodeURIComponent(String(value));');
+    }, '});');
+    code.line('return { path, query };');
+  });
+  code.line();
+
+  code.docComment('Send a request to the target and parse its JSON response');
+  code.block('export async function request(method: string, path: string, options: RequestOptions = {}): Promise<ContractResponse> {', () => {
+    code.line("const url = `${config.baseUrl.replace(/\\/$/, '')}${path}${buildQuery(options.query)}`;");
+    code.block('const response = await config.fetch(url, {', () => {
+      code.line('method,');
+      code.block('headers: {', () => {
+        code.line("'Content-Type': 'application/json',");
+        code.line('...config.headers,');
+        code.line("...config.authenticate(claimsOf(options.as ?? 'owner')),");
+        code.line('...options.headers,');
+      }, '},');
+      code.line('body: options.body === undefined ? undefined : JSON.stringify(options.body, toJson),');
+    }, '});');
+    code.line('const text = await response.text();');
+    code.block('try {', () => {
+      code.line('return { status: response.status, body: text ? JSON.parse(text) : undefined };');
+    }, '} catch {');
+    code.indent();
+    code.line('return { status: response.status, body: text };');
+    code.dedent();
+    code.line('}');
+  });
+  code.line();
+
+  code.docComment('The record in a response, unwrapped from `{ data }`');
+  code.block('export function recordOf(response: ContractResponse): Record<string, any> {', () => {
+    code.line('return response.body?.data ?? response.body;');
+  });
+  code.line();
+
+  code.docComment('The records in a list response');
+  code.block('export function listOf(response: ContractResponse): Record<string, any>[] {', () => {
+    code.line('const { body } = response;');
+    code.line('return Array.isArray(body) ? body : body?.data ?? body?.items ?? [];');
+  });
+  code.line();
+
+  code.block('function buildQuery(query?: Record<string, unknown>): string {', () => {
+    code.line("if (!query) return '';");
+    code.line('const params = new URLSearchParams();');
+    code.block('for (const [key, value] of Object.entries(query)) {', () => {
+      code.block('if (value !== undefined) {', () => {
+        code.line("params.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));");
+      });
+    });
+    code.line('const str = params.toString();');
+    code.line("return str ? `?${str}` : '';");
+  });
+  code.line();
+
+  code.block('function toJson(_key: string, value: unknown): unknown {', () => {
+    code.line("if (typeof value === 'bigint') return value.toString();");
+    code.line("if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');");
+    code.line('return value;');
+  });
+  code.line();
+
+  code.block('function unsignedJwt(claims: Record<string, string>): string {', () => {
+    code.line("const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');");
+    code.line("return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.`;");
+  });
+
+  return code.toString();
+}
+
+/**
+ * Object literal key for a context key
+ */
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
@@ -0,0 +1,60 @@
+/**
+ * Contract Test Generator
+ *
+ * Generates a Vitest suite that checks an API against the contract implied
+ * by the schemas: CRUD, filters, pagination, relations, RLS denials and
+ * validation for every entity, plus a suite per custom endpoint. The suite
+ * only speaks HTTP, so the same files run against the MSW mock and any
+ * server target.
+ *
+ * @module cli/generators/contract-tests
+ * @category CLI
+ */
+
+import type { AnalyzedEndpoint, AnalyzedSchema } from '../../types';
+import { generateContractHarness } from './harness-template';
+import { generateContractFixtures } from './fixtures-template';
+import { generateEntityContractTest } from './entity-template';
+import { generateEndpointContractTest } from './endpoint-template';
+
+export { generateContractHarness } from './harness-template';
+export { generateContractFixtures } from './fixtures-template';
+export { generateEntityContractTest } from './entity-template';
+export { generateEndpointContractTest } from './endpoint-template';
+
+/**
+ * Files of a contract suite, keyed by path relative to the output directory
+ *
+ * Creates a structure like:
+ * output/
+ *   harness.ts                     # base URL, fetch, actors
+ *   fixtures.ts                    # build/create helpers per entity
+ *   user.contract.test.ts
+ *   endpoints/
+ *     search.contract.test.ts
+ *
+ * Junction tables have no REST routes of their own and get no suite.
+ *
+ * @param schemas - Analyzed schemas
+ * @param endpoints - Analyzed custom endpoints
+ * @returns Relative paths and file contents
+ */
+export function generateContractTestFiles(
+  schemas: AnalyzedSchema[],
+  endpoints: AnalyzedEndpoint[] = []
+): Array<[string, string]> {
+  const entities = schemas.filter((schema) => !schema.isJunctionTable);
+  const files: Array<[string, string]> = [
+    ['harness.ts', generateContractHarness(entities)],
+    ['fixtures.ts', generateContractFixtures(entities)],
+  ];
+
+  for (const schema of entities) {
+    files.push([`${schema.name}.contract.test.ts`, generateEntityContractTest(schema, entities)]);
+  }
+  for (const endpoint of endpoints) {
+    files.push([`endpoints/${endpoint.name}.contract.test.ts`, generateEndpointContractTest(endpoint)]);
+  }
+
+  return files;
+}
@@ -7,6 +7,8 @@
 
 import type { AnalyzedSchema, FetchAdapterConfig } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
+import { hasVersioning, updateOptionsParam } from '../shared/versioning';
+import { generateLinkNamespaces } from '../shared/links';
 
 /**
  * Generate Fetch API client
@@ -18,6 +20,7 @@ import { CodeBuilder } from '../../utils/code-builder';
 export function generateFetchClient(schemas: AnalyzedSchema[], config: FetchAdapterConfig): string {
   const code = new CodeBuilder();
   const baseUrl = config.baseUrl ?? '';
+  const versioned = hasVersioning(schemas);
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
   code.line("import type * as Types from './types';");
@@ -26,12 +29,32 @@ export function generateFetchClient(schemas: AnalyzedSchema[], config: FetchAdap
   code.line(`const BASE_URL = '${baseUrl}';`);
   code.line();
 
+  if (versioned) {
+    code.comment('Update rejected because the row changed since it was read');
+    code.block('export class ConflictError<T = unknown> extends Error {', () => {
+      code.line('readonly status = 409;');
+      code.line("readonly code = 'CONFLICT';");
+      code.line();
+      code.block('constructor(message: string, readonly current: T) {', () => {
+        code.line('super(message);');
+        code.line("this.name = 'ConflictError';");
+      });
+    }, '}');
+    code.line();
+  }
+
   // Fetch helper
   code.block('async function request<T>(path: string, options?: RequestInit): Promise<T> {', () => {
     code.line('const response = await fetch(`${BASE_URL}${path}`, {');
-    code.line("  headers: { 'Content-Type': 'application/json', ...options?.headers },");
     code.line('  ...options,');
+    code.line("  headers: { 'Content-Type': 'application/json', ...options?.headers },");
     code.line('});');
+    if (versioned) {
+      code.block('if (response.status === 409) {', () => {
+        code.line('const body = await response.json();');
+        code.line('throw new ConflictError(body.error, body.current);');
+      });
+    }
     code.line('if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);');
     code.line('if (response.status === 204) return undefined as T;');
     code.line('return response.json();');
@@ -56,7 +79,7 @@ export function generateFetchClient(schemas: AnalyzedSchema[], config: FetchAdap
   code.block('export const api = {', () => {
     for (const schema of schemas) {
       if (schema.isJunctionTable) continue;
-      generateFetchEntityApi(code, schema);
+      generateFetchEntityApi(code, schema, schemas);
     }
   }, '};');
 
@@ -66,7 +89,7 @@ export function generateFetchClient(schemas: AnalyzedSchema[], config: FetchAdap
 /**
  * Generate Fetch API methods for a single entity
  */
-function generateFetchEntityApi(code: CodeBuilder, schema: AnalyzedSchema): void {
+function generateFetchEntityApi(code: CodeBuilder, schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): void {
   const { name, pascalName, endpoint, relations } = schema;
   const hasRelations = relations.length > 0;
   const includeType = hasRelations ? `Types.${pascalName}Include` : 'never';
@@ -83,7 +106,10 @@ function generateFetchEntityApi(code: CodeBuilder, schema: AnalyzedSchema): void
     code.line();
 
     // GET
-    code.block(`get: async (id: string, options?: { include?: ${includeType}[] }): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
+    const getOptions = schema.softDelete
+      ? `{ include?: ${includeType}[]; withDeleted?: boolean; onlyDeleted?: boolean }`
+      : `{ include?: ${includeType}[] }`;
+    code.block(`get: async (id: string, options?: ${getOptions}): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
       code.line(`return request(\`${endpoint}/\${id}\` + buildQuery(options));`);
     }, '},');
     code.line();
@@ -98,18 +124,24 @@ function generateFetchEntityApi(code: CodeBuilder, schema: AnalyzedSchema): void
     code.line();
 
     // UPDATE
-    code.block(`update: async (id: string, input: Types.${pascalName}Update): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
+    code.block(`update: async (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
       code.line(`return request(\`${endpoint}/\${id}\`, {`);
       code.line("  method: 'PUT',");
+      if (schema.versioned) {
+        code.line("  headers: options?.expectedVersion !== undefined ? { 'If-Match': `\"${options.expectedVersion}\"` } : undefined,");
+      }
       code.line('  body: JSON.stringify(input),');
       code.line('});');
     }, '},');
     code.line();
 
     // PATCH
-    code.block(`patch: async (id: string, input: Types.${pascalName}Update): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
+    code.block(`patch: async (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
       code.line(`return request(\`${endpoint}/\${id}\`, {`);
       code.line("  method: 'PATCH',");
+      if (schema.versioned) {
+        code.line("  headers: options?.expectedVersion !== undefined ? { 'If-Match': `\"${options.expectedVersion}\"` } : undefined,");
+      }
       code.line('  body: JSON.stringify(input),');
       code.line('});');
     }, '},');
@@ -119,6 +151,23 @@ function generateFetchEntityApi(code: CodeBuilder, schema: AnalyzedSchema): void
     code.block('delete: async (id: string): Promise<void> => {', () => {
       code.line(`await request(\`${endpoint}/\${id}\`, { method: 'DELETE' });`);
     }, '},');
+
+    if (schema.softDelete) {
+      code.line();
+
+      // RESTORE
+      code.block(`restore: async (id: string): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
+        code.line(`return request(\`${endpoint}/\${id}/restore\`, { method: 'POST' });`);
+      }, '},');
+      code.line();
+
+      // PURGE
+      code.block('purge: async (id: string): Promise<void> => {', () => {
+        code.line(`await request(\`${endpoint}/\${id}?purge=true\`, { method: 'DELETE' });`);
+      }, '},');
+    }
+
+    generateLinkNamespaces(code, schema, allSchemas, 'api');
   }, '},');
   code.line();
 }
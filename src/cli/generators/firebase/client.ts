@@ -7,6 +7,16 @@
 
 import type { AnalyzedSchema, AnalyzedRelation, FirebaseAdapterConfig } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
+import { hasVersioning, generateConflictError, updateOptionsParam } from '../shared/versioning';
+import {
+  getNestedRelations,
+  hasNestedRelations,
+  generateNestedCommon,
+  generateFirestoreNestedWriter,
+  nestedParentLines,
+  nestedChildLines,
+  type NestedRelation,
+} from '../shared/nested';
 
 /**
  * Generate Firebase API client
@@ -17,6 +27,7 @@ import { CodeBuilder } from '../../utils/code-builder';
  */
 export function generateFirebaseClient(schemas: AnalyzedSchema[], config: FirebaseAdapterConfig): string {
   const code = new CodeBuilder();
+  const hasNested = hasNestedRelations(schemas);
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
   code.line('import {');
@@ -31,6 +42,14 @@ export function generateFirebaseClient(schemas: AnalyzedSchema[], config: Fireba
   code.line('  where,');
   code.line('  orderBy,');
   code.line('  limit as fbLimit,');
+  if (hasVersioning(schemas)) {
+    code.line('  runTransaction,');
+  }
+  if (hasNested) {
+    code.line('  writeBatch,');
+    code.line('  type DocumentData,');
+    code.line('  type DocumentReference,');
+  }
   code.line("} from 'firebase/firestore';");
   code.line("import type * as Types from './types';");
   code.line();
@@ -42,6 +61,15 @@ export function generateFirebaseClient(schemas: AnalyzedSchema[], config: Fireba
   // Generate interceptor infrastructure
   generateInterceptorInfrastructure(code);
   code.line();
+  if (hasVersioning(schemas)) {
+    generateConflictError(code);
+  }
+
+  // Nested relation writes, committed in one batch with the entity
+  if (hasNested) {
+    generateNestedCommon(code);
+    generateFirestoreNestedWriter(code);
+  }
 
   // Generate createClient factory
   generateCreateClientFactory(code, schemas, config);
@@ -157,7 +185,7 @@ function generateCreateClientFactory(
     code.line(`    list: (options?: Types.QueryOptions<Types.${pascalName}Filter, ${includeType}>) => Promise<Types.ListResponse<Types.${pascalName}>>;`);
     code.line(`    get: (id: string, options?: { include?: ${includeType}[] }) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
     code.line(`    create: (input: Types.${pascalName}Create) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
-    code.line(`    update: (id: string, input: Types.${pascalName}Update) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+    code.line(`    update: (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
     code.line('    delete: (id: string) => Promise<void>;');
     code.line('  };');
   }
@@ -217,6 +245,8 @@ function generateFirebaseEntityApiWithInterceptors(
   const collectionName = config.collectionMap?.[name] ?? schema.pluralName;
   const hasRelations = relations.length > 0;
   const includeType = hasRelations ? `Types.${pascalName}Include` : 'never';
+  const nestedNames = getNestedRelations(schema, allSchemas).map((n) => n.relation.name);
+  const changes = nestedNames.length > 0 ? 'changes' : 'input';
 
   // Create schema map for looking up target collections
   const schemaMap = new Map(allSchemas.map((s) => [s.name, s]));
@@ -251,12 +281,48 @@ function generateFirebaseEntityApiWithInterceptors(
     code.line();
 
     // UPDATE with interceptor
-    code.block(`update: async (id: string, input: Types.${pascalName}Update): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
+    code.block(`update: async (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}): Promise<Types.ItemResponse<Types.${pascalName}>> => {`, () => {
       code.block(`return executeRequest('${name}.update', async () => {`, () => {
         code.line(`const docRef = doc(firestore, '${collectionName}', id);`);
-        code.line('await updateDoc(docRef, { ...input, updatedAt: new Date() });');
-        code.line('const snapshot = await getDoc(docRef);');
-        code.line(`return { data: { id: snapshot.id, ...snapshot.data() } as Types.${pascalName} };`);
+        if (nestedNames.length > 0) {
+          code.line(`const { ${nestedNames.join(', ')}, ...changes } = input;`);
+        }
+        if (schema.versioned) {
+          code.comment('Read, check and bump the version in one transaction');
+          code.block('return runTransaction(firestore, async (tx) => {', () => {
+            code.line('const snapshot = await tx.get(docRef);');
+            code.block('if (!snapshot.exists()) {', () => {
+              code.line(`throw new ApiError(\`${pascalName} not found: \${id}\`, 404, 'NOT_FOUND', '${name}.update');`);
+            });
+            code.line(`const current = { id: snapshot.id, ...snapshot.data() } as Types.${pascalName};`);
+            code.block('if (options?.expectedVersion !== undefined && current.version !== options.expectedVersion) {', () => {
+              code.line(`throw createConflictError('${pascalName}', current, options.expectedVersion);`);
+            });
+            code.addLines(nestedParentLines(schema, allSchemas, 'changes', (n) => nestedParentCall(n, 'tx', config)));
+            code.line(`const data = { ...${changes}, updatedAt: new Date(), version: current.version + 1 };`);
+            code.line('tx.update(docRef, data);');
+            code.addLines(nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, 'tx', config, 'id')));
+            code.line(`return { data: { ...current, ...data } as Types.${pascalName} };`);
+          }, '});');
+        } else {
+          if (nestedNames.length > 0) {
+            code.block(`if (${nestedNames.map((n) => `!${n}`).join(' && ')}) {`, () => {
+              code.line('await updateDoc(docRef, { ...changes, updatedAt: new Date() });');
+            }, '} else {');
+            code.indent();
+            code.line('const batch = writeBatch(firestore);');
+            code.addLines(nestedParentLines(schema, allSchemas, 'changes', (n) => nestedParentCall(n, 'batch', config)));
+            code.line('batch.update(docRef, { ...changes, updatedAt: new Date() });');
+            code.addLines(nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, 'batch', config, 'id')));
+            code.line('await batch.commit();');
+            code.dedent();
+            code.line('}');
+          } else {
+            code.line('await updateDoc(docRef, { ...input, updatedAt: new Date() });');
+          }
+          code.line('const snapshot = await getDoc(docRef);');
+          code.line(`return { data: { id: snapshot.id, ...snapshot.data() } as Types.${pascalName} };`);
+        }
       }, '});');
     }, '},');
     code.line();
@@ -405,50 +471,48 @@ function generateCreateBody(
   config: FirebaseAdapterConfig,
   allSchemas: AnalyzedSchema[]
 ): void {
-  const { pascalName, relations } = schema;
-  const nestedRels = relations.filter((r) => r.type === 'hasMany' || r.type === 'hasOne');
-
-  // Create schema map for looking up target collections
-  const schemaMap = new Map(allSchemas.map((s) => [s.name, s]));
-
-  // Helper to get collection name for a target schema
-  const getTargetCollection = (targetName: string): string => {
-    const targetSchema = schemaMap.get(targetName);
-    return config.collectionMap?.[targetName] ?? targetSchema?.pluralName ?? targetName + 's';
-  };
-
-  if (nestedRels.length > 0) {
-    const relNames = nestedRels.map((r) => r.name).join(', ');
-    code.line(`const { ${relNames}, ...data } = input;`);
-    code.line('const withTimestamps = { ...data, createdAt: new Date(), updatedAt: new Date() };');
-    code.line(`const docRef = await addDoc(collection(firestore, '${collectionName}'), withTimestamps);`);
-    code.line(`const item = { id: docRef.id, ...withTimestamps } as Types.${pascalName};`);
+  const { pascalName } = schema;
+  const nested = getNestedRelations(schema, allSchemas);
+  // Firestore has no column defaults, so versioned documents start at 1 here
+  const initialVersion = schema.versioned ? ', version: 1' : '';
+
+  if (nested.length > 0) {
+    const names = nested.map((n) => n.relation.name);
+    code.line(`const { ${names.join(', ')}, ...data } = input;`);
+    code.comment('Without nested writes the document is added on its own');
+    code.block(`if (${names.map((name) => `!${name}`).join(' && ')}) {`, () => {
+      generatePlainCreate(code, pascalName, collectionName, 'data', initialVersion);
+    });
     code.line();
-
-    for (const rel of nestedRels) {
-      const targetCollection = getTargetCollection(rel.target);
-      code.block(`if (${rel.name}) {`, () => {
-        if (rel.type === 'hasMany') {
-          code.block(`for (const nested of ${rel.name}) {`, () => {
-            code.line(`const nestedData = { ...nested, ${rel.foreignKey}: item.id, createdAt: new Date(), updatedAt: new Date() };`);
-            code.line(`await addDoc(collection(firestore, '${targetCollection}'), nestedData);`);
-          });
-        } else {
-          code.line(`const nestedData = { ...${rel.name}, ${rel.foreignKey}: item.id, createdAt: new Date(), updatedAt: new Date() };`);
-          code.line(`await addDoc(collection(firestore, '${targetCollection}'), nestedData);`);
-        }
-      });
-    }
-
+    code.line('const batch = writeBatch(firestore);');
+    code.addLines(nestedParentLines(schema, allSchemas, 'data', (n) => nestedParentCall(n, 'batch', config)));
+    code.line(`const docRef = doc(collection(firestore, '${collectionName}'));`);
+    code.line(`const withTimestamps = { ...data, createdAt: new Date(), updatedAt: new Date()${initialVersion} };`);
+    code.line('batch.set(docRef, withTimestamps);');
+    code.addLines(nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, 'batch', config, 'docRef.id')));
+    code.line('await batch.commit();');
     code.line();
-    code.line('return { data: item };');
+    code.line(`return { data: { id: docRef.id, ...withTimestamps } as Types.${pascalName} };`);
   } else {
-    code.line('const data = { ...input, createdAt: new Date(), updatedAt: new Date() };');
-    code.line(`const docRef = await addDoc(collection(firestore, '${collectionName}'), data);`);
-    code.line(`return { data: { id: docRef.id, ...data } as Types.${pascalName} };`);
+    generatePlainCreate(code, pascalName, collectionName, 'input', initialVersion);
   }
 }
 
+/**
+ * Generate an addDoc create of a single document
+ */
+function generatePlainCreate(
+  code: CodeBuilder,
+  pascalName: string,
+  collectionName: string,
+  inputVar: string,
+  initialVersion: string
+): void {
+  code.line(`const withTimestamps = { ...${inputVar}, createdAt: new Date(), updatedAt: new Date()${initialVersion} };`);
+  code.line(`const docRef = await addDoc(collection(firestore, '${collectionName}'), withTimestamps);`);
+  code.line(`return { data: { id: docRef.id, ...withTimestamps } as Types.${pascalName} };`);
+}
+
 /**
  * Generate code to load a relation in Firebase
  */
@@ -520,3 +584,30 @@ function generateFirebaseRelationLoad(
     code.line('}');
   }
 }
+
+/**
+ * Collection of a nested relation's target, after the collection map
+ */
+function nestedCollection(nested: NestedRelation, config: FirebaseAdapterConfig): string {
+  return config.collectionMap?.[nested.target.name] ?? nested.target.pluralName;
+}
+
+/**
+ * writeNestedParent() expression for a belongsTo nested write
+ *
+ * @param batch - Variable holding the write batch or transaction
+ */
+function nestedParentCall(nested: NestedRelation, batch: string, config: FirebaseAdapterConfig): string {
+  return `writeNestedParent(${batch}, '${nestedCollection(nested, config)}', ${nested.relation.name})`;
+}
+
+/**
+ * writeNestedChildren() statement for a hasMany/hasOne nested write
+ *
+ * @param batch - Variable holding the write batch or transaction
+ * @param parentId - Expression for the id of the entity document
+ */
+function nestedChildCall(nested: NestedRelation, batch: string, config: FirebaseAdapterConfig, parentId: string): string {
+  const { relation } = nested;
+  return `writeNestedChildren(${batch}, '${nestedCollection(nested, config)}', '${relation.foreignKey}', ${parentId}, ${relation.name})`;
+}
@@ -183,9 +183,9 @@ function baseTypeToZod(type: string, field: AnalyzedField): string {
     return 'z.number().int()';
   }
 
-  // BigInt types
+  // BigInt types (decimal strings, like the generated TS type)
   if (['bigint', 'bigserial'].includes(lowerType)) {
-    return 'z.bigint()';
+    return 'z.string().regex(/^-?\\d+$/, "Must be a valid integer")';
   }
 
   // Float types
@@ -195,7 +195,7 @@ function baseTypeToZod(type: string, field: AnalyzedField): string {
 
   // Decimal types (return as string for precision)
   if (['decimal', 'numeric', 'money'].includes(lowerType)) {
-    return 'z.string().regex(/^-?\\d+(\\.\\d+)?$/, "Must be a valid decimal number")';
+    return `z.string().regex(${decimalPattern(field)}, "Must be a valid decimal number")`;
   }
 
   // Boolean
@@ -208,11 +208,24 @@ function baseTypeToZod(type: string, field: AnalyzedField): string {
     return 'z.coerce.date()';
   }
 
-  // Time types (keep as string)
-  if (['time', 'timetz', 'interval'].includes(lowerType)) {
+  // Time of day (HH:MM or HH:MM:SS)
+  if (['time', 'timetz'].includes(lowerType)) {
+    return 'z.string().regex(/^\\d{2}:\\d{2}(:\\d{2})?$/, "Must be a valid time")';
+  }
+
+  // Intervals (keep as string)
+  if (lowerType === 'interval') {
     return 'z.string()';
   }
 
+  // Binary data: field.bytes() is a base64 string
+  if (lowerType === 'bytes') {
+    return 'z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, "Must be base64 encoded")';
+  }
+  if (['bytea', 'binary', 'blob'].includes(lowerType)) {
+    return 'z.instanceof(Uint8Array)';
+  }
+
   // JSON types
   if (['json', 'jsonb'].includes(lowerType)) {
     return 'z.unknown()';
@@ -228,19 +241,53 @@ function baseTypeToZod(type: string, field: AnalyzedField): string {
       return 'z.boolean()';
     case 'Date':
       return 'z.coerce.date()';
-    case 'bigint':
-      return 'z.bigint()';
     default:
       return 'z.unknown()';
   }
 }
 
+/**
+ * Build the regex literal for a decimal string, limiting integer and
+ * fractional digits when precision/scale are declared
+ */
+function decimalPattern(field: AnalyzedField): string {
+  if (field.precision === undefined) {
+    return '/^-?\\d+(\\.\\d+)?$/';
+  }
+  const scale = field.scale ?? 0;
+  const integerDigits = Math.max(field.precision - scale, 1);
+  const fraction = scale > 0 ? `(\\.\\d{1,${scale}})?` : '';
+  return `/^-?\\d{1,${integerDigits}}${fraction}$/`;
+}
+
 /**
  * Apply constraints (min, max, pattern) to Zod type
  */
 function applyConstraints(zodType: string, field: AnalyzedField): string {
   const constraints: string[] = [];
 
+  // Decimal bounds compare the numeric value, not the string length
+  if (['decimal', 'numeric', 'money'].includes(field.type)) {
+    if (field.min !== undefined) {
+      constraints.push(`.refine((v) => Number(v) >= ${field.min}, 'Must be at least ${field.min}')`);
+    }
+    if (field.max !== undefined) {
+      constraints.push(`.refine((v) => Number(v) <= ${field.max}, 'Must be at most ${field.max}')`);
+    }
+    return zodType + constraints.join('');
+  }
+
+  // BigInt bounds compare the parsed value, not the string length
+  if (['bigint', 'bigserial'].includes(field.type)) {
+    if (field.min !== undefined) {
+      constraints.push(`.refine((v) => BigInt(v) >= BigInt(${field.min}), 'Must be at least ${field.min}')`);
+    }
+    if (field.max !== undefined) {
+      constraints.push(`.refine((v) => BigInt(v) <= BigInt(${field.max}), 'Must be at most ${field.max}')`);
+    }
+    return zodType + constraints.join('');
+  }
+
   // String constraints
   if (field.tsType === 'string' || field.type === 'string' || field.type === 'text') {
     if (field.min !== undefined) {
@@ -327,8 +374,6 @@ function getFieldDefault(field: AnalyzedField): string {
       return 'false';
     case 'Date':
       return 'new Date()';
-    case 'bigint':
-      return 'BigInt(0)';
     default:
       return 'undefined';
   }
@@ -350,7 +395,7 @@ function formatDefaultValue(value: unknown, field: AnalyzedField): string {
   }
 
   if (typeof value === 'bigint') {
-    return `BigInt(${value})`;
+    return `'${value}'`;
   }
 
   if (value instanceof Date) {
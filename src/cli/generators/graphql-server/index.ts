@@ -0,0 +1,176 @@
+/**
+ * GraphQL Server Generator
+ *
+ * Generates an executable GraphQL schema (SDL + resolvers) backed by the
+ * unified service layer, with DataLoader batching for relation fields and
+ * client operation documents for GraphQLAdapter. The output works with any
+ * server that takes `typeDefs` and `resolvers` (Apollo Server, GraphQL Yoga,
+ * Mercurius).
+ *
+ * @module cli/generators/graphql-server
+ * @category CLI
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  AnalyzedSchema,
+  AnalyzedEndpoint,
+  GenerationTarget,
+  SchemockConfig,
+  GenerateOptions,
+} from '../../types';
+import { generateTypes } from '../types';
+import { generateEndpointInterfaces } from '../shared/endpoint-helpers';
+import { generateServices, generateServicesIndex, generateEndpointService } from '../unified/service';
+import { generateGraphQLSchema } from './sdl';
+import { generateLoaders, generateGraphQLContext } from './loaders-template';
+import { generateResolvers, generateScalars } from './resolvers-template';
+import { generateOperations } from './operations-template';
+
+export { generateGraphQLSchema, listFieldName, selectionFields } from './sdl';
+export { generateLoaders, generateGraphQLContext } from './loaders-template';
+export { generateResolvers, generateScalars } from './resolvers-template';
+export { generateOperations } from './operations-template';
+
+/**
+ * Generate a GraphQL server for entities
+ *
+ * Creates a project structure like:
+ * output/
+ *   schema.graphql   # SDL
+ *   schema.ts        # typeDefs
+ *   resolvers.ts     # Query/Mutation/relation resolvers
+ *   scalars.ts       # DateTime, JSON, BigInt
+ *   loaders.ts       # DataLoaders per relation
+ *   context.ts       # createContext()
+ *   operations.ts    # client documents for GraphQLAdapter
+ *   types.ts
+ *   services/
+ *     user.service.ts
+ *
+ * The services read and write through a Prisma-compatible `db` exported
+ * from `db.ts` in the output directory, which is not generated.
+ *
+ * @param allSchemas - All schemas (for types and relation fields)
+ * @param targetSchemas - Filtered schemas (for queries, mutations and services)
+ * @param outputDir - Output directory
+ * @param _target - Target configuration
+ * @param _config - Schemock config
+ * @param options - Generation options
+ * @param endpoints - Analyzed custom endpoints (optional)
+ */
+export async function generateGraphQLServerTarget(
+  allSchemas: AnalyzedSchema[],
+  targetSchemas: AnalyzedSchema[],
+  outputDir: string,
+  _target: GenerationTarget,
+  _config: SchemockConfig,
+  options: GenerateOptions,
+  endpoints: AnalyzedEndpoint[] = []
+): Promise<string[]> {
+  const files: string[] = [];
+  const servicesDir = join(outputDir, 'services');
+  if (!options.dryRun) {
+    await mkdir(servicesDir, { recursive: true });
+  }
+
+  const outputs: Array<[string, string, string?]> = [];
+
+  // Types for ALL schemas (relations), plus endpoint params/body/response
+  const endpointTypes = endpoints.map((e) => generateEndpointInterfaces(e)).filter(Boolean);
+  outputs.push(['types.ts', [generateTypes(allSchemas), ...endpointTypes].join('\n')]);
+
+  const sdl = generateGraphQLSchema(allSchemas, targetSchemas, endpoints);
+  outputs.push(['schema.graphql', sdl]);
+  outputs.push(['schema.ts', generateTypeDefsFile(sdl)]);
+  outputs.push(['scalars.ts', generateScalars()]);
+
+  // Services for TARGET schemas only (filtered)
+  const serviceConfig = { dbImport: '../db', typesImport: '../types' };
+  for (const [serviceName, serviceCode] of generateServices(targetSchemas, serviceConfig)) {
+    outputs.push([`services/${serviceName}.service.ts`, serviceCode]);
+  }
+  for (const endpoint of endpoints) {
+    outputs.push([`services/${endpoint.name}.service.ts`, generateEndpointService(endpoint, serviceConfig)]);
+  }
+  outputs.push(['services/index.ts', generateServicesIndexFile(targetSchemas, endpoints)]);
+
+  outputs.push(['loaders.ts', generateLoaders(allSchemas), 'DataLoader per relation']);
+  outputs.push(['context.ts', generateGraphQLContext(targetSchemas)]);
+  outputs.push(['resolvers.ts', generateResolvers(allSchemas, targetSchemas, endpoints)]);
+  outputs.push(['operations.ts', generateOperations(targetSchemas, endpoints), 'client documents for GraphQLAdapter']);
+  outputs.push(['index.ts', generateIndexFile(endpoints.length > 0)]);
+
+  for (const [filename, content, note] of outputs) {
+    await writeOutput(join(outputDir, filename), content, options.dryRun);
+    files.push(filename);
+    console.log(`   ✓ ${filename}${note ? ` (${note})` : ''}`);
+  }
+
+  console.log("   ℹ Export a Prisma-compatible client as `db` from db.ts in the output directory");
+
+  return files;
+}
+
+/**
+ * Wrap the SDL in a typeDefs export
+ */
+function generateTypeDefsFile(sdl: string): string {
+  const escaped = sdl.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  return ['// GENERATED BY SCHEMOCK - DO NOT EDIT', '', `export const typeDefs = /* GraphQL */ \`\n${escaped}\`;`, ''].join('\n');
+}
+
+/**
+ * Services barrel: entity services plus endpoint services, which import
+ * their MiddlewareContext from here
+ */
+function generateServicesIndexFile(schemas: AnalyzedSchema[], endpoints: AnalyzedEndpoint[]): string {
+  const lines = [generateServicesIndex(schemas)];
+
+  if (endpoints.length > 0) {
+    for (const endpoint of endpoints) {
+      lines.push(`export { ${endpoint.name}Service } from './${endpoint.name}.service';`);
+    }
+    lines.push("export type { RequestContext as MiddlewareContext } from '../context';");
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate index file
+ */
+function generateIndexFile(hasEndpoints: boolean): string {
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "export * from './types';",
+    "export { typeDefs } from './schema';",
+    "export { resolvers } from './resolvers';",
+    "export { scalars } from './scalars';",
+    "export { createContext, type GraphQLContext, type RequestContext } from './context';",
+    "export { createLoaders, type Loaders } from './loaders';",
+    `export { documents, ${hasEndpoints ? 'endpointDocuments, ' : ''}createOperations } from './operations';`,
+    "export * from './services';",
+    '',
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Write output file (or show dry-run message)
+ */
+async function writeOutput(
+  path: string,
+  content: string,
+  dryRun?: boolean
+): Promise<void> {
+  if (dryRun) {
+    console.log(`   [DRY RUN] Would write: ${path}`);
+    return;
+  }
+  await writeFile(path, content, 'utf-8');
+}
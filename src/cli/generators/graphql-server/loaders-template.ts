@@ -0,0 +1,184 @@
+/**
+ * GraphQL loader and context templates
+ *
+ * Relation fields are resolved through request-scoped DataLoaders, so a list
+ * of 50 posts asking for `author` costs one batched query instead of 50.
+ *
+ * @module cli/generators/graphql-server/loaders-template
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, AnalyzedRelation } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { toPascalCase } from '../../utils/pluralize';
+
+/**
+ * Name of the loader resolving a relation (e.g. `postAuthor`)
+ */
+export function loaderName(schema: AnalyzedSchema, rel: AnalyzedRelation): string {
+  return `${schema.name}${toPascalCase(rel.name)}`;
+}
+
+/**
+ * Where-clause condition every lookup of a target entity adds: its RLS scope
+ * from the request context, and live rows only for soft-delete entities.
+ * Kept under AND so a scope on the lookup column doesn't replace the `in`.
+ */
+function targetScope(target: AnalyzedSchema): string {
+  const parts: string[] = [];
+  if (target.rls.enabled) {
+    for (const scope of target.rls.scope) {
+      parts.push(`...(ctx.${scope.contextKey} ? { ${scope.field}: ctx.${scope.contextKey} } : {})`);
+    }
+  }
+  if (target.softDelete) {
+    parts.push('deletedAt: null');
+  }
+  return parts.length > 0 ? `, AND: [{ ${parts.join(', ')} }]` : '';
+}
+
+/**
+ * Generate loaders.ts with one DataLoader per relation
+ *
+ * @param schemas - All analyzed schemas
+ * @returns Generated TypeScript code
+ */
+export function generateLoaders(schemas: AnalyzedSchema[]): string {
+  const code = new CodeBuilder();
+  const entities = schemas.filter((s) => !s.isJunctionTable);
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.comment('Request-scoped DataLoaders that batch relation lookups');
+  code.line();
+  code.line("import DataLoader from 'dataloader';");
+  code.line("import { db } from './db';");
+  code.line("import type { RequestContext } from './context';");
+  code.line("import type * as Types from './types';");
+  code.line();
+
+  code.docComment('Group rows by key, in the order DataLoader asked for the keys');
+  code.block('function groupBy<T>(keys: readonly string[], rows: T[], key: (row: T) => unknown): T[][] {', () => {
+    code.line('const groups = new Map<string, T[]>();');
+    code.block('for (const row of rows) {', () => {
+      code.line('const value = String(key(row));');
+      code.line('groups.set(value, [...(groups.get(value) ?? []), row]);');
+    });
+    code.line('return keys.map((value) => groups.get(value) ?? []);');
+  });
+  code.line();
+
+  code.multiDocComment([
+    'Create the relation loaders for one request.',
+    '',
+    'Create them per request: the loaders cache rows, and their lookups apply',
+    'the RLS scope of the requesting user.',
+  ]);
+  code.block('export function createLoaders(ctx: RequestContext) {', () => {
+    code.block('return {', () => {
+      for (const schema of entities) {
+        for (const rel of schema.relations) {
+          generateRelationLoader(code, schema, rel, schemas);
+        }
+      }
+    }, '};');
+  });
+  code.line();
+
+  code.line('export type Loaders = ReturnType<typeof createLoaders>;');
+
+  return code.toString();
+}
+
+/**
+ * Generate the DataLoader for a single relation
+ */
+function generateRelationLoader(
+  code: CodeBuilder,
+  schema: AnalyzedSchema,
+  rel: AnalyzedRelation,
+  schemas: AnalyzedSchema[]
+): void {
+  const target = schemas.find((s) => s.name === rel.resolvedTarget);
+  if (!target) return;
+
+  const name = loaderName(schema, rel);
+  const rowType = `Types.${target.pascalName}`;
+  const scope = targetScope(target);
+  const many = rel.type === 'hasMany' || rel.type === 'manyToMany';
+
+  code.line(`/** ${schema.name}.${rel.name} (${rel.type} ${target.name}) */`);
+
+  if (rel.type === 'manyToMany') {
+    const through = schemas.find((s) => s.name === rel.through);
+    if (!through || !rel.otherKey) return;
+    code.block(`${name}: new DataLoader<string, ${rowType}[]>(async (ids) => {`, () => {
+      code.line(`const links = (await db.${through.name}.findMany({ where: { ${rel.foreignKey}: { in: [...ids] } } })) as Record<string, unknown>[];`);
+      code.line(`const targetIds = links.map((link) => String(link.${rel.otherKey}));`);
+      code.line(`const rows = (await db.${target.name}.findMany({ where: { id: { in: targetIds }${scope} } })) as ${rowType}[];`);
+      code.line('const byId = new Map(rows.map((row) => [row.id, row]));');
+      code.line(`return groupBy(ids, links, (link) => link.${rel.foreignKey}).map((group) =>`);
+      code.line(`  group.flatMap((link) => byId.get(String(link.${rel.otherKey})) ?? [])`);
+      code.line(');');
+    }, '}),');
+    return;
+  }
+
+  // belongsTo looks up the target by id; hasOne/hasMany by the target's foreign key
+  const column = rel.type === 'belongsTo' ? 'id' : rel.foreignKey;
+  const value = many ? rowType + '[]' : `${rowType} | null`;
+  code.block(`${name}: new DataLoader<string, ${value}>(async (ids) => {`, () => {
+    code.line(`const rows = (await db.${target.name}.findMany({ where: { ${column}: { in: [...ids] }${scope} } })) as ${rowType}[];`);
+    code.line(
+      many
+        ? `return groupBy(ids, rows, (row) => row.${column});`
+        : `return groupBy(ids, rows, (row) => row.${column}).map((group) => group[0] ?? null);`
+    );
+  }, '}),');
+}
+
+/**
+ * Generate context.ts: the request context type and resolver context factory
+ *
+ * @param schemas - Schemas with generated services
+ * @returns Generated TypeScript code
+ */
+export function generateGraphQLContext(schemas: AnalyzedSchema[]): string {
+  const code = new CodeBuilder();
+  const contexts = schemas.filter((s) => !s.isJunctionTable).map((s) => `${s.pascalName}Context`);
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.line();
+  if (contexts.length > 0) {
+    code.line(`import type { ${contexts.join(', ')} } from './services';`);
+  }
+  code.line("import { createLoaders, type Loaders } from './loaders';");
+  code.line();
+
+  code.docComment('Auth and tenant data of a request, as read by the services');
+  code.line(`export type RequestContext = ${contexts.length > 0 ? contexts.join(' & ') : 'Record<string, unknown>'};`);
+  code.line();
+
+  code.docComment('Context passed to every resolver');
+  code.block('export interface GraphQLContext {', () => {
+    code.line('ctx: RequestContext;');
+    code.line('loaders: Loaders;');
+  });
+  code.line();
+
+  code.multiDocComment([
+    'Build the resolver context for a request.',
+    '',
+    '@example',
+    '```typescript',
+    'const server = new ApolloServer({ typeDefs, resolvers });',
+    'startStandaloneServer(server, {',
+    '  context: async ({ req }) => createContext({ userId: req.headers["x-user-id"] as string }),',
+    '});',
+    '```',
+  ]);
+  code.block('export function createContext(ctx: RequestContext = {}): GraphQLContext {', () => {
+    code.line('return { ctx, loaders: createLoaders(ctx) };');
+  });
+
+  return code.toString();
+}
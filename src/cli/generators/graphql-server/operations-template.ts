@@ -0,0 +1,127 @@
+/**
+ * GraphQL client operations template
+ *
+ * Emits operation documents that match the generated SDL, plus a factory
+ * that plugs them into GraphQLAdapter's `operations` option in place of its
+ * guessed default queries.
+ *
+ * @module cli/generators/graphql-server/operations-template
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, AnalyzedEndpoint } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { toPascalCase } from '../../utils/pluralize';
+import { listFieldName, selectionFields, endpointArgDefinitions } from './sdl';
+
+/**
+ * Generate operations.ts
+ *
+ * @param targetSchemas - Schemas with Query and Mutation fields
+ * @param endpoints - Custom endpoints
+ * @returns Generated TypeScript code
+ */
+export function generateOperations(targetSchemas: AnalyzedSchema[], endpoints: AnalyzedEndpoint[] = []): string {
+  const code = new CodeBuilder();
+  const exposed = targetSchemas.filter((s) => !s.isJunctionTable);
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.comment('Operation documents matching schema.graphql');
+  code.line();
+
+  code.docComment('CRUD operation documents per entity');
+  code.block('export const documents = {', () => {
+    for (const schema of exposed) {
+      generateEntityDocuments(code, schema);
+    }
+  }, '};');
+  code.line();
+
+  if (endpoints.length > 0) {
+    code.docComment('Operation documents per custom endpoint');
+    code.block('export const endpointDocuments = {', () => {
+      for (const endpoint of endpoints) {
+        code.line(`${endpoint.name}: \`${endpointDocument(endpoint)}\`,`);
+      }
+    }, '};');
+    code.line();
+  }
+
+  code.line("type Operation = 'findOne' | 'findMany' | 'create' | 'update' | 'delete';");
+  code.line();
+
+  code.multiDocComment([
+    'Build GraphQLAdapter operations from the generated documents.',
+    '',
+    'Each document is parsed once and reused, so Apollo sees a stable',
+    'DocumentNode per operation.',
+    '',
+    '@param gql - Parser turning a source string into a document (e.g. `gql` from @apollo/client)',
+    '',
+    '@example',
+    '```typescript',
+    "import { gql } from '@apollo/client';",
+    "import { createGraphQLAdapter } from 'schemock/adapters';",
+    '',
+    'const adapter = createGraphQLAdapter({ client, operations: createOperations(gql) });',
+    '```',
+  ]);
+  code.block('export function createOperations<TDocument>(gql: (source: string) => TDocument) {', () => {
+    code.line('const parsed = new Map<string, TDocument>();');
+    code.block('const build = (operation: Operation) => (entity: string): TDocument => {', () => {
+      code.line('const source = (documents as Record<string, Record<Operation, string>>)[entity]?.[operation];');
+      code.block('if (!source) {', () => {
+        code.line('throw new Error(`No GraphQL ${operation} operation for entity \'${entity}\'`);');
+      });
+      code.line('const key = `${entity}.${operation}`;');
+      code.line('if (!parsed.has(key)) parsed.set(key, gql(source));');
+      code.line('return parsed.get(key)!;');
+    }, '};');
+    code.line();
+    code.block('return {', () => {
+      code.line("findOne: build('findOne'),");
+      code.line("findMany: build('findMany'),");
+      code.line("create: build('create'),");
+      code.line("update: build('update'),");
+      code.line("delete: build('delete'),");
+    }, '};');
+  });
+
+  return code.toString();
+}
+
+/**
+ * Documents for one entity, named after the adapter operations
+ */
+function generateEntityDocuments(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName } = schema;
+  const list = listFieldName(schema);
+  const selection = `{ ${selectionFields(schema)} }`;
+
+  code.block(`${name}: {`, () => {
+    code.line(`findOne: \`query Get${pascalName}($id: ID!) { ${name}(id: $id) ${selection} }\`,`);
+    code.line(
+      `findMany: \`query List${toPascalCase(list)}($where: ${pascalName}Filter, $orderBy: ${pascalName}OrderBy, $limit: Int, $offset: Int) { ` +
+        `${list}(where: $where, orderBy: $orderBy, limit: $limit, offset: $offset) { items ${selection} total limit offset hasMore } }\`,`
+    );
+    code.line(
+      `create: \`mutation Create${pascalName}($input: Create${pascalName}Input!) { create${pascalName}(input: $input) ${selection} }\`,`
+    );
+    code.line(
+      `update: \`mutation Update${pascalName}($id: ID!, $input: Update${pascalName}Input!) { update${pascalName}(id: $id, input: $input) ${selection} }\`,`
+    );
+    code.line(`delete: \`mutation Delete${pascalName}($id: ID!) { delete${pascalName}(id: $id) }\`,`);
+  }, '},');
+}
+
+/**
+ * Document calling a custom endpoint field
+ */
+function endpointDocument(endpoint: AnalyzedEndpoint): string {
+  const args = endpointArgDefinitions(endpoint);
+  const kind = endpoint.method === 'GET' ? 'query' : 'mutation';
+  const variables = args.length > 0 ? `(${args.map((a) => `$${a.name}: ${a.type}`).join(', ')})` : '';
+  const call = args.length > 0 ? `(${args.map((a) => `${a.name}: $${a.name}`).join(', ')})` : '';
+  const selection = endpoint.response.length > 0 ? ` { ${endpoint.response.map((f) => f.name).join(' ')} }` : '';
+  return `${kind} ${endpoint.pascalName}${variables} { ${endpoint.name}${call}${selection} }`;
+}
@@ -0,0 +1,341 @@
+/**
+ * GraphQL resolver and scalar templates
+ *
+ * Query and Mutation resolvers delegate to the unified services, so RLS and
+ * business rules match the REST targets. Cursor-paginated entities page
+ * through the service's listPage: `first`/`after` take a nextCursor forward,
+ * `last`/`before` a prevCursor back. Relation fields go through the
+ * request's DataLoaders.
+ *
+ * @module cli/generators/graphql-server/resolvers-template
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, AnalyzedEndpoint, AnalyzedRelation } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { isCursorPaginated } from '../shared/cursor';
+import { listFieldName } from './sdl';
+import { loaderName } from './loaders-template';
+
+/**
+ * Generate resolvers.ts
+ *
+ * @param allSchemas - All schemas (relation field resolvers)
+ * @param targetSchemas - Schemas with Query and Mutation fields
+ * @param endpoints - Custom endpoints
+ * @returns Generated TypeScript code
+ */
+export function generateResolvers(
+  allSchemas: AnalyzedSchema[],
+  targetSchemas: AnalyzedSchema[],
+  endpoints: AnalyzedEndpoint[] = []
+): string {
+  const code = new CodeBuilder();
+  const entities = allSchemas.filter((s) => !s.isJunctionTable);
+  const exposed = targetSchemas.filter((s) => !s.isJunctionTable);
+  const services = [...exposed.map((s) => `${s.singularName}Service`), ...endpoints.map((e) => `${e.name}Service`)];
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.line();
+  code.line("import type * as Types from './types';");
+  code.line("import type { GraphQLContext, RequestContext } from './context';");
+  if (services.length > 0) {
+    code.line(`import { ${services.join(', ')} } from './services';`);
+  }
+  code.line("import { scalars } from './scalars';");
+  code.line();
+
+  code.docComment('withDeleted/onlyDeleted arguments of a soft-delete entity');
+  code.block('interface DeletedScopeArgs {', () => {
+    code.line('withDeleted?: boolean | null;');
+    code.line('onlyDeleted?: boolean | null;');
+  });
+  code.line();
+
+  code.docComment('Arguments of a list query (first/after/last/before on cursor-paginated entities)');
+  code.block('interface ListArgs<TFilter> extends DeletedScopeArgs {', () => {
+    code.line('where?: TFilter | null;');
+    code.line("orderBy?: Record<string, 'asc' | 'desc'> | null;");
+    code.line('limit?: number | null;');
+    code.line('offset?: number | null;');
+    code.line('first?: number | null;');
+    code.line('after?: string | null;');
+    code.line('last?: number | null;');
+    code.line('before?: string | null;');
+  });
+  code.line();
+
+  code.docComment('Service methods a list query needs');
+  code.block('interface ListService<T, TFilter> {', () => {
+    code.line('list(ctx: RequestContext, options?: Types.QueryOptions<TFilter>): Promise<T[]>;');
+    code.line("count(ctx: RequestContext, filter?: TFilter, options?: Pick<Types.QueryOptions<TFilter>, 'withDeleted' | 'onlyDeleted'>): Promise<number>;");
+  });
+  code.line();
+
+  code.docComment('Soft delete scope for the services, dropping null arguments');
+  code.block('function deletedScope(args: DeletedScopeArgs) {', () => {
+    code.line('return { withDeleted: args.withDeleted ?? undefined, onlyDeleted: args.onlyDeleted ?? undefined };');
+  });
+  code.line();
+
+  code.docComment('Resolve to null when the service reports a missing record');
+  code.block('async function orNull<T>(promise: Promise<T>): Promise<T | null> {', () => {
+    code.block('try {', () => {
+      code.line('return await promise;');
+    }, '} catch (error) {');
+    code.indent();
+    code.line('if ((error as { status?: number }).status === 404) return null;');
+    code.line('throw error;');
+    code.dedent();
+    code.line('}');
+  });
+  code.line();
+
+  code.docComment('Run a list query and its count as one offset connection');
+  code.block(
+    'async function connection<T, TFilter>(service: ListService<T, TFilter>, ctx: RequestContext, args: ListArgs<TFilter>) {',
+    () => {
+      code.line('const where = args.where ?? undefined;');
+      code.line('const limit = args.limit ?? 20;');
+      code.line('const offset = args.offset ?? 0;');
+      code.line('const scope = deletedScope(args);');
+      code.line('const [items, total] = await Promise.all([');
+      code.line('  service.list(ctx, { where, orderBy: args.orderBy ?? undefined, limit, offset, ...scope }),');
+      code.line('  service.count(ctx, where, scope),');
+      code.line(']);');
+      code.line('return { items, total, limit, offset, hasMore: offset + items.length < total };');
+    }
+  );
+  code.line();
+
+  if (exposed.some(isCursorPaginated)) {
+    code.docComment('Service method a cursor-paginated list query needs');
+    code.block('interface PageService<T, TFilter> {', () => {
+      code.line('listPage(ctx: RequestContext, options?: Types.QueryOptions<TFilter>): Promise<Types.ListResponse<T>>;');
+    });
+    code.line();
+
+    code.docComment('Run a list query one cursor page at a time (the cursor carries its direction)');
+    code.block(
+      'async function cursorConnection<T, TFilter>(service: PageService<T, TFilter>, ctx: RequestContext, args: ListArgs<TFilter>) {',
+      () => {
+        code.block('const page = await service.listPage(ctx, {', () => {
+          code.line('where: args.where ?? undefined,');
+          code.line('orderBy: args.orderBy ?? undefined,');
+          code.line('limit: args.first ?? args.last ?? args.limit ?? undefined,');
+          code.line('cursor: args.after ?? args.before ?? undefined,');
+          code.line('...deletedScope(args),');
+        }, '});');
+        code.line('return { items: page.data, ...page.meta };');
+      }
+    );
+    code.line();
+  }
+
+  code.block('export const resolvers = {', () => {
+    code.line('...scalars,');
+    code.line();
+
+    code.block('Query: {', () => {
+      for (const schema of exposed) {
+        generateEntityQueries(code, schema);
+      }
+      for (const endpoint of endpoints.filter((e) => e.method === 'GET')) {
+        generateEndpointResolver(code, endpoint);
+      }
+    }, '},');
+
+    const mutationEndpoints = endpoints.filter((e) => e.method !== 'GET');
+    if (exposed.length > 0 || mutationEndpoints.length > 0) {
+      code.line();
+      code.block('Mutation: {', () => {
+        for (const schema of exposed) {
+          generateEntityMutations(code, schema);
+        }
+        for (const endpoint of mutationEndpoints) {
+          generateEndpointResolver(code, endpoint);
+        }
+      }, '},');
+    }
+
+    for (const schema of entities) {
+      const relations = schema.relations.filter((rel) => hasLoader(rel, allSchemas));
+      if (relations.length === 0) continue;
+      code.line();
+      code.block(`${schema.pascalName}: {`, () => {
+        for (const rel of relations) {
+          generateRelationResolver(code, schema, rel);
+        }
+      }, '},');
+    }
+  }, '};');
+
+  return code.toString();
+}
+
+/**
+ * Check that a relation's target (and junction) exist, i.e. that
+ * generateLoaders emitted a loader for it
+ */
+function hasLoader(rel: AnalyzedRelation, schemas: AnalyzedSchema[]): boolean {
+  if (!schemas.some((s) => s.name === rel.resolvedTarget)) return false;
+  return rel.type !== 'manyToMany' || (!!rel.otherKey && schemas.some((s) => s.name === rel.through));
+}
+
+/**
+ * Get-by-id and list query resolvers for an entity
+ */
+function generateEntityQueries(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName, singularName } = schema;
+  const service = `${singularName}Service`;
+
+  if (schema.softDelete) {
+    code.line(
+      `${name}: (_parent: unknown, { id, ...scope }: { id: string } & DeletedScopeArgs, { ctx }: GraphQLContext) => orNull(${service}.get(ctx, id, deletedScope(scope))),`
+    );
+  } else {
+    code.line(`${name}: (_parent: unknown, { id }: { id: string }, { ctx }: GraphQLContext) => orNull(${service}.get(ctx, id)),`);
+  }
+  const run = isCursorPaginated(schema) ? 'cursorConnection' : 'connection';
+  code.line(
+    `${listFieldName(schema)}: (_parent: unknown, args: ListArgs<Types.${pascalName}Filter>, { ctx }: GraphQLContext) => ${run}(${service}, ctx, args),`
+  );
+}
+
+/**
+ * Create, update and delete mutation resolvers for an entity
+ */
+function generateEntityMutations(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { pascalName, singularName } = schema;
+  const service = `${singularName}Service`;
+
+  code.line(
+    `create${pascalName}: (_parent: unknown, { input }: { input: Types.${pascalName}Create }, { ctx }: GraphQLContext) => ${service}.create(ctx, input),`
+  );
+  if (schema.versioned) {
+    code.line(
+      `update${pascalName}: (_parent: unknown, { id, input, expectedVersion }: { id: string; input: Types.${pascalName}Update; expectedVersion?: number | null }, { ctx }: GraphQLContext) =>`
+    );
+    code.line(`  ${service}.update(ctx, id, input, { expectedVersion: expectedVersion ?? undefined }),`);
+  } else {
+    code.line(
+      `update${pascalName}: (_parent: unknown, { id, input }: { id: string; input: Types.${pascalName}Update }, { ctx }: GraphQLContext) => ${service}.update(ctx, id, input),`
+    );
+  }
+
+  if (!schema.softDelete) {
+    code.block(`delete${pascalName}: async (_parent: unknown, { id }: { id: string }, { ctx }: GraphQLContext) => {`, () => {
+      code.line(`await ${service}.delete(ctx, id);`);
+      code.line('return true;');
+    }, '},');
+    return;
+  }
+
+  code.block(
+    `delete${pascalName}: async (_parent: unknown, { id, purge }: { id: string; purge?: boolean | null }, { ctx }: GraphQLContext) => {`,
+    () => {
+      code.line(`await ${service}.delete(ctx, id, { purge: purge ?? undefined });`);
+      code.line('return true;');
+    },
+    '},'
+  );
+  code.line(
+    `restore${pascalName}: (_parent: unknown, { id }: { id: string }, { ctx }: GraphQLContext) => ${service}.restore(ctx, id),`
+  );
+}
+
+/**
+ * Resolver for a custom endpoint: field args are the params, `input` the body
+ */
+function generateEndpointResolver(code: CodeBuilder, endpoint: AnalyzedEndpoint): void {
+  const { name, pascalName } = endpoint;
+  const hasParams = endpoint.params.length > 0;
+  const hasBody = endpoint.body.length > 0;
+  const hasResponse = endpoint.response.length > 0;
+
+  const argTypes: string[] = [];
+  if (hasParams) argTypes.push(`Types.${pascalName}Params`);
+  if (hasBody) argTypes.push(`{ input: Types.${pascalName}Body }`);
+
+  let args = '_args: unknown';
+  if (hasParams && hasBody) args = `{ input, ...params }: ${argTypes.join(' & ')}`;
+  else if (hasParams) args = `params: ${argTypes[0]}`;
+  else if (hasBody) args = `{ input }: ${argTypes[0]}`;
+
+  const callArgs = ['ctx'];
+  if (hasParams) callArgs.push('params');
+  if (hasBody) callArgs.push('input');
+  const call = `${name}Service.execute(${callArgs.join(', ')})`;
+
+  code.line(`/** ${endpoint.method} ${endpoint.path} */`);
+  if (hasResponse) {
+    code.line(`${name}: (_parent: unknown, ${args}, { ctx }: GraphQLContext) => ${call},`);
+    return;
+  }
+  code.block(`${name}: async (_parent: unknown, ${args}, { ctx }: GraphQLContext) => {`, () => {
+    code.line(`await ${call};`);
+    code.line('return true;');
+  }, '},');
+}
+
+/**
+ * Relation field resolver loading through the request's DataLoader
+ */
+function generateRelationResolver(code: CodeBuilder, schema: AnalyzedSchema, rel: AnalyzedRelation): void {
+  const loader = `loaders.${loaderName(schema, rel)}`;
+  const parent = `parent: Types.${schema.pascalName}`;
+
+  if (rel.type === 'belongsTo') {
+    const key = `parent.${rel.localField ?? rel.foreignKey}`;
+    code.line(
+      `${rel.name}: (${parent}, _args: unknown, { loaders }: GraphQLContext) => (${key} == null ? null : ${loader}.load(String(${key}))),`
+    );
+    return;
+  }
+  code.line(`${rel.name}: (${parent}, _args: unknown, { loaders }: GraphQLContext) => ${loader}.load(parent.id),`);
+}
+
+/**
+ * Generate scalars.ts with the DateTime, JSON and BigInt scalars the SDL declares
+ *
+ * @returns Generated TypeScript code
+ */
+export function generateScalars(): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.line();
+  code.line("import { GraphQLScalarType, Kind, valueFromASTUntyped } from 'graphql';");
+  code.line();
+
+  code.docComment('ISO 8601 date-time, parsed into a Date');
+  code.block('const DateTime = new GraphQLScalarType({', () => {
+    code.line("name: 'DateTime',");
+    code.line('serialize: (value) => (value instanceof Date ? value.toISOString() : String(value)),');
+    code.line('parseValue: (value) => new Date(value as string | number),');
+    code.line('parseLiteral: (ast) => (ast.kind === Kind.STRING || ast.kind === Kind.INT ? new Date(ast.value) : null),');
+  }, '});');
+  code.line();
+
+  code.docComment('Arbitrary JSON value, passed through unchanged');
+  code.block('const JSON = new GraphQLScalarType({', () => {
+    code.line("name: 'JSON',");
+    code.line('serialize: (value) => value,');
+    code.line('parseValue: (value) => value,');
+    code.line('parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),');
+  }, '});');
+  code.line();
+
+  code.docComment('64-bit integer, passed around as a decimal string so no precision is lost');
+  code.block('const BigInt = new GraphQLScalarType({', () => {
+    code.line("name: 'BigInt',");
+    code.line('serialize: (value) => String(value),');
+    code.line('parseValue: (value) => globalThis.BigInt(value as string | number).toString(),');
+    code.line('parseLiteral: (ast) => (ast.kind === Kind.STRING || ast.kind === Kind.INT ? globalThis.BigInt(ast.value).toString() : null),');
+  }, '});');
+  code.line();
+
+  code.line('export const scalars = { DateTime, JSON, BigInt };');
+
+  return code.toString();
+}
@@ -0,0 +1,364 @@
+/**
+ * GraphQL SDL generation
+ *
+ * Builds the schema.graphql document for the graphql-server target: one
+ * object type per entity, create/update/filter/orderBy input types, offset
+ * connection types (plus cursors for cursor-paginated entities), and
+ * Query/Mutation fields for CRUD and custom endpoints.
+ *
+ * @module cli/generators/graphql-server/sdl
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, AnalyzedField, AnalyzedEndpoint, AnalyzedEndpointField } from '../../types';
+import { toPascalCase } from '../../utils/pluralize';
+import { isCursorPaginated } from '../shared/cursor';
+
+/**
+ * Map Schemock field types to GraphQL scalar types
+ */
+export const GRAPHQL_TYPE_MAP: Record<string, string> = {
+  // String types
+  uuid: 'ID',
+  string: 'String',
+  text: 'String',
+  email: 'String',
+  url: 'String',
+
+  // Numeric types
+  int: 'Int',
+  integer: 'Int',
+  number: 'Float',
+  float: 'Float',
+  double: 'Float',
+
+  // BigInt and precision-safe types
+  bigint: 'BigInt',
+  bigserial: 'BigInt',
+  decimal: 'String',
+  numeric: 'String',
+  money: 'String',
+
+  // Binary (base64)
+  bytes: 'String',
+
+  // Boolean
+  boolean: 'Boolean',
+
+  // Date/time types
+  date: 'DateTime',
+  datetime: 'DateTime',
+  timestamp: 'DateTime',
+  timestamptz: 'DateTime',
+  time: 'String',
+
+  // Structured data
+  json: 'JSON',
+  jsonb: 'JSON',
+  object: 'JSON',
+
+  // Foreign keys
+  ref: 'ID',
+};
+
+/** Scalars the generated resolvers implement */
+const CUSTOM_SCALARS = ['DateTime', 'JSON', 'BigInt'];
+
+/** Filter input for each scalar that can be filtered on */
+const SCALAR_FILTERS: Record<string, { name: string; ordered: boolean; text: boolean }> = {
+  ID: { name: 'IDFilter', ordered: false, text: false },
+  String: { name: 'StringFilter', ordered: true, text: true },
+  Int: { name: 'IntFilter', ordered: true, text: false },
+  Float: { name: 'FloatFilter', ordered: true, text: false },
+  BigInt: { name: 'BigIntFilter', ordered: true, text: false },
+  Boolean: { name: 'BooleanFilter', ordered: false, text: false },
+  DateTime: { name: 'DateTimeFilter', ordered: true, text: false },
+};
+
+const GRAPHQL_NAME = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/**
+ * Name of the list query for an entity (`users`), falling back to
+ * `<name>List` when the plural equals the singular
+ */
+export function listFieldName(schema: AnalyzedSchema): string {
+  return schema.pluralName !== schema.name ? schema.pluralName : `${schema.name}List`;
+}
+
+/**
+ * Name of the GraphQL enum generated for an enum field
+ */
+export function enumTypeName(schema: AnalyzedSchema, field: AnalyzedField): string {
+  return `${schema.pascalName}${toPascalCase(field.name)}`;
+}
+
+/**
+ * Check if an enum field can be expressed as a GraphQL enum (every value
+ * must be a valid GraphQL name); other enums are exposed as String
+ */
+function isGraphQLEnum(field: AnalyzedField): boolean {
+  return field.isEnum && !!field.enumValues?.length && field.enumValues.every((v) => GRAPHQL_NAME.test(v));
+}
+
+/**
+ * Get the GraphQL type of an entity field, without the non-null marker
+ */
+export function fieldToGraphQLType(schema: AnalyzedSchema, field: AnalyzedField): string {
+  if (field.name === 'id') return 'ID';
+  if (field.isEnum) return isGraphQLEnum(field) ? enumTypeName(schema, field) : 'String';
+  if (field.isArray) {
+    if (!field.itemType) return 'JSON';
+    const item = field.itemType.isObject ? 'JSON' : GRAPHQL_TYPE_MAP[field.itemType.type] ?? 'JSON';
+    return `[${item}!]`;
+  }
+  return GRAPHQL_TYPE_MAP[field.type] ?? 'JSON';
+}
+
+/**
+ * Get the GraphQL type of an endpoint param, body or response field
+ */
+function endpointFieldType(field: AnalyzedEndpointField): string {
+  if (field.isArray) {
+    return field.itemType && !field.itemType.isObject ? `[${endpointFieldType(field.itemType)}!]` : '[JSON!]';
+  }
+  if (field.isObject) return 'JSON';
+  return GRAPHQL_TYPE_MAP[field.type] ?? 'String';
+}
+
+/**
+ * Fields exposed on the object type (computed fields are not stored, so the
+ * services never return them)
+ */
+function outputFields(schema: AnalyzedSchema): AnalyzedField[] {
+  return schema.fields.filter((f) => !f.isComputed);
+}
+
+/**
+ * Fields that can be filtered and sorted on
+ */
+function scalarFields(schema: AnalyzedSchema): Array<{ field: AnalyzedField; type: string }> {
+  return outputFields(schema)
+    .map((field) => ({ field, type: fieldToGraphQLType(schema, field) }))
+    .filter(({ field, type }) => field.isEnum || type in SCALAR_FILTERS);
+}
+
+/**
+ * Generate the SDL document for the graphql-server target
+ *
+ * @param allSchemas - All schemas (object types, so relations resolve)
+ * @param targetSchemas - Schemas that get Query and Mutation fields
+ * @param endpoints - Custom endpoints (GET as queries, others as mutations)
+ * @returns SDL source
+ */
+export function generateGraphQLSchema(
+  allSchemas: AnalyzedSchema[],
+  targetSchemas: AnalyzedSchema[],
+  endpoints: AnalyzedEndpoint[] = []
+): string {
+  const entities = allSchemas.filter((s) => !s.isJunctionTable);
+  const exposed = targetSchemas.filter((s) => !s.isJunctionTable);
+  const lines: string[] = ['# GENERATED BY SCHEMOCK - DO NOT EDIT', ''];
+
+  for (const scalar of CUSTOM_SCALARS) {
+    lines.push(`scalar ${scalar}`);
+  }
+  lines.push('');
+  lines.push('enum SortOrder {', '  asc', '  desc', '}', '');
+
+  for (const [scalar, filter] of Object.entries(SCALAR_FILTERS)) {
+    lines.push(`input ${filter.name} {`);
+    lines.push(`  equals: ${scalar}`, `  not: ${scalar}`, `  in: [${scalar}!]`, `  notIn: [${scalar}!]`);
+    if (filter.ordered) {
+      lines.push(`  lt: ${scalar}`, `  lte: ${scalar}`, `  gt: ${scalar}`, `  gte: ${scalar}`);
+    }
+    if (filter.text) {
+      lines.push('  contains: String', '  startsWith: String', '  endsWith: String');
+    }
+    lines.push('}', '');
+  }
+
+  for (const schema of entities) {
+    lines.push(...generateEntityTypes(schema, allSchemas));
+  }
+  for (const schema of exposed) {
+    lines.push(...generateEntityInputs(schema));
+  }
+  for (const endpoint of endpoints) {
+    lines.push(...generateEndpointTypes(endpoint));
+  }
+
+  const queries: string[] = [];
+  const mutations: string[] = [];
+  for (const schema of exposed) {
+    const { name, pascalName } = schema;
+    const scopeArgs = schema.softDelete ? ', withDeleted: Boolean, onlyDeleted: Boolean' : '';
+    const cursorArgs = isCursorPaginated(schema) ? ', first: Int, after: String, last: Int, before: String' : '';
+    queries.push(`  ${name}(id: ID!${scopeArgs}): ${pascalName}`);
+    queries.push(
+      `  ${listFieldName(schema)}(where: ${pascalName}Filter, orderBy: ${pascalName}OrderBy, limit: Int, offset: Int${cursorArgs}${scopeArgs}): ${pascalName}Connection!`
+    );
+    mutations.push(`  create${pascalName}(input: Create${pascalName}Input!): ${pascalName}!`);
+    mutations.push(
+      `  update${pascalName}(id: ID!, input: Update${pascalName}Input!${schema.versioned ? ', expectedVersion: Int' : ''}): ${pascalName}!`
+    );
+    mutations.push(`  delete${pascalName}(id: ID!${schema.softDelete ? ', purge: Boolean' : ''}): Boolean!`);
+    if (schema.softDelete) {
+      mutations.push(`  restore${pascalName}(id: ID!): ${pascalName}!`);
+    }
+  }
+  for (const endpoint of endpoints) {
+    const field = `  ${endpoint.name}${endpointArgs(endpoint)}: ${endpointReturnType(endpoint)}`;
+    (endpoint.method === 'GET' ? queries : mutations).push(field);
+  }
+
+  lines.push('type Query {', ...queries, '}', '');
+  if (mutations.length > 0) {
+    lines.push('type Mutation {', ...mutations, '}', '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Object type, connection type and enums for one entity
+ */
+function generateEntityTypes(schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): string[] {
+  const { pascalName, relations } = schema;
+  const lines: string[] = [];
+
+  for (const field of outputFields(schema)) {
+    if (!isGraphQLEnum(field)) continue;
+    lines.push(`enum ${enumTypeName(schema, field)} {`);
+    lines.push(...field.enumValues!.map((v) => `  ${v}`));
+    lines.push('}', '');
+  }
+
+  lines.push(`type ${pascalName} {`);
+  for (const field of outputFields(schema)) {
+    lines.push(`  ${field.name}: ${fieldToGraphQLType(schema, field)}${field.nullable ? '' : '!'}`);
+  }
+  for (const rel of relations) {
+    const target = allSchemas.find((s) => s.name === rel.resolvedTarget);
+    if (!target) continue;
+    const many = rel.type === 'hasMany' || rel.type === 'manyToMany';
+    lines.push(`  ${rel.name}: ${many ? `[${target.pascalName}!]!` : target.pascalName}`);
+  }
+  lines.push('}', '');
+
+  lines.push(`type ${pascalName}Connection {`);
+  lines.push(`  items: [${pascalName}!]!`, '  total: Int!', '  limit: Int!', '  offset: Int!', '  hasMore: Boolean!');
+  if (isCursorPaginated(schema)) {
+    lines.push('  nextCursor: String', '  prevCursor: String');
+  }
+  lines.push('}', '');
+
+  return lines;
+}
+
+/**
+ * Create, update, filter and orderBy inputs for an exposed entity
+ */
+function generateEntityInputs(schema: AnalyzedSchema): string[] {
+  const { pascalName } = schema;
+  const writable = outputFields(schema).filter((f) => f.name !== 'id' && !f.readOnly);
+  const lines: string[] = [];
+
+  lines.push(`input Create${pascalName}Input {`);
+  for (const field of writable) {
+    const optional = field.nullable || field.hasDefault;
+    lines.push(`  ${field.name}: ${fieldToGraphQLType(schema, field)}${optional ? '' : '!'}`);
+  }
+  lines.push('}', '');
+
+  lines.push(`input Update${pascalName}Input {`);
+  for (const field of writable) {
+    lines.push(`  ${field.name}: ${fieldToGraphQLType(schema, field)}`);
+  }
+  lines.push('}', '');
+
+  lines.push(`input ${pascalName}Filter {`);
+  for (const { field, type } of scalarFields(schema)) {
+    lines.push(`  ${field.name}: ${field.isEnum ? 'StringFilter' : SCALAR_FILTERS[type].name}`);
+  }
+  lines.push(`  AND: [${pascalName}Filter!]`, `  OR: [${pascalName}Filter!]`, `  NOT: [${pascalName}Filter!]`);
+  lines.push('}', '');
+
+  lines.push(`input ${pascalName}OrderBy {`);
+  for (const { field } of scalarFields(schema)) {
+    lines.push(`  ${field.name}: SortOrder`);
+  }
+  lines.push('}', '');
+
+  return lines;
+}
+
+/**
+ * Body input and response types for a custom endpoint
+ */
+function generateEndpointTypes(endpoint: AnalyzedEndpoint): string[] {
+  const lines: string[] = [];
+
+  if (endpoint.body.length > 0) {
+    lines.push(`input ${endpoint.pascalName}Input {`);
+    for (const field of endpoint.body) {
+      lines.push(`  ${field.name}: ${endpointFieldType(field)}${field.required ? '!' : ''}`);
+    }
+    lines.push('}', '');
+  }
+
+  if (endpoint.response.length > 0) {
+    lines.push(`type ${endpoint.pascalName}Response {`);
+    for (const field of endpoint.response) {
+      lines.push(`  ${field.name}: ${endpointFieldType(field)}${field.required ? '!' : ''}`);
+    }
+    lines.push('}', '');
+  }
+
+  return lines;
+}
+
+/**
+ * Arguments of an endpoint field: path and query params, then `input` for
+ * the body. Like the REST handlers, the endpoint service only receives
+ * params when the endpoint declares some, so path params alone are dropped.
+ */
+export function endpointArgDefinitions(endpoint: AnalyzedEndpoint): Array<{ name: string; type: string }> {
+  const args: Array<{ name: string; type: string }> = [];
+  if (endpoint.params.length > 0) {
+    for (const param of endpoint.pathParams) {
+      if (!endpoint.params.some((p) => p.name === param)) args.push({ name: param, type: 'String!' });
+    }
+  }
+  for (const param of endpoint.params) {
+    const required = param.required || endpoint.pathParams.includes(param.name);
+    args.push({ name: param.name, type: `${endpointFieldType(param)}${required ? '!' : ''}` });
+  }
+  if (endpoint.body.length > 0) {
+    args.push({ name: 'input', type: `${endpoint.pascalName}Input!` });
+  }
+  return args;
+}
+
+/**
+ * Argument list of an endpoint field in SDL
+ */
+function endpointArgs(endpoint: AnalyzedEndpoint): string {
+  const args = endpointArgDefinitions(endpoint).map((arg) => `${arg.name}: ${arg.type}`);
+  return args.length > 0 ? `(${args.join(', ')})` : '';
+}
+
+/**
+ * Return type of an endpoint field (Boolean when it has no response shape)
+ */
+function endpointReturnType(endpoint: AnalyzedEndpoint): string {
+  return endpoint.response.length > 0 ? `${endpoint.pascalName}Response!` : 'Boolean!';
+}
+
+/**
+ * Selection set listing an entity's scalar fields, for operation documents
+ */
+export function selectionFields(schema: AnalyzedSchema): string {
+  return outputFields(schema)
+    .map((f) => f.name)
+    .join(' ');
+}
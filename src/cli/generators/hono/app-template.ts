@@ -0,0 +1,131 @@
+/**
+ * Hono App Template
+ *
+ * Generates the main Hono app that mounts every entity sub-router and
+ * exports `AppType` for the typed RPC client.
+ *
+ * @module cli/generators/hono/app-template
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, AnalyzedEndpoint, GenerationTarget, SchemockConfig } from '../../types';
+
+/**
+ * Generate the main app file
+ */
+export function generateHonoAppFile(
+  schemas: AnalyzedSchema[],
+  target: GenerationTarget,
+  config: SchemockConfig,
+  endpoints: AnalyzedEndpoint[] = [],
+  hasViews: boolean = false
+): string {
+  const hasAuth = target.middleware?.auth !== undefined;
+  const hasNewMiddlewareConfig = config.middleware !== undefined;
+  const apiPrefix = config.apiPrefix || '/api';
+  const entitySchemas = schemas.filter((s) => !s.isJunctionTable);
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import { Hono } from 'hono';",
+    "import { HTTPException } from 'hono/http-exception';",
+    "import type { AppEnv } from './env';",
+  ];
+
+  // Import sub-routers
+  for (const schema of entitySchemas) {
+    lines.push(`import { ${schema.pluralName}Route } from './routes/${schema.pluralName}';`);
+  }
+  for (const endpoint of endpoints) {
+    lines.push(`import { ${endpoint.name}Endpoint } from './endpoints/${endpoint.name}';`);
+  }
+  if (hasViews) {
+    lines.push("import { viewsRoute } from './routes/views';");
+  }
+
+  // Import middleware based on config format
+  if (hasNewMiddlewareConfig) {
+    lines.push("import { applyMiddleware } from './middleware/chain';");
+  } else if (hasAuth) {
+    lines.push("import { authMiddleware } from './middleware/auth';");
+  }
+
+  lines.push('');
+  lines.push(`const app = new Hono<AppEnv>().basePath('${apiPrefix}');`);
+  lines.push('');
+
+  if (hasNewMiddlewareConfig) {
+    lines.push('// Apply all configured middleware');
+    lines.push('applyMiddleware(app);');
+    lines.push('');
+  } else if (hasAuth) {
+    lines.push('// Apply auth middleware to all routes');
+    lines.push("app.use('*', authMiddleware);");
+    lines.push('');
+  }
+
+  lines.push('// Error handling');
+  lines.push('app.onError((err, c) => {');
+  lines.push('  if (err instanceof HTTPException) {');
+  lines.push('    return err.getResponse();');
+  lines.push('  }');
+  lines.push("  console.error('API Error:', err);");
+  lines.push("  return c.json({ error: err.message || 'Internal server error' }, 500);");
+  lines.push('});');
+  lines.push('');
+
+  // Mount routes as one chained expression so AppType carries every route
+  lines.push('const routes = app');
+  const mounts: string[] = [];
+  for (const schema of entitySchemas) {
+    mounts.push(`  .route('/${schema.pluralName}', ${schema.pluralName}Route)`);
+  }
+  for (const endpoint of endpoints) {
+    mounts.push(`  .route('/', ${endpoint.name}Endpoint)`);
+  }
+  if (hasViews) {
+    mounts.push("  .route('/', viewsRoute)");
+  }
+  if (mounts.length === 0) {
+    lines[lines.length - 1] += ';';
+  } else {
+    mounts[mounts.length - 1] += ';';
+    lines.push(...mounts);
+  }
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * App type for the typed RPC client');
+  lines.push(' *');
+  lines.push(' * @example');
+  lines.push(' * ```ts');
+  lines.push(" * import { hc } from 'hono/client';");
+  lines.push(" * import type { AppType } from './generated/hono';");
+  lines.push(' *');
+  lines.push(" * const client = hc<AppType>('http://localhost:3000');");
+  lines.push(' * ```');
+  lines.push(' */');
+  lines.push('export type AppType = typeof routes;');
+  lines.push('');
+  lines.push('export { app };');
+  lines.push('');
+
+  // Add usage example
+  lines.push('/**');
+  lines.push(' * Usage:');
+  lines.push(' * ```');
+  lines.push(' * // Bun, Deno, Cloudflare Workers');
+  lines.push(" * export { default } from './generated/hono/app';");
+  lines.push(' *');
+  lines.push(' * // Node.js');
+  lines.push(" * import { serve } from '@hono/node-server';");
+  lines.push(" * import app from './generated/hono/app';");
+  lines.push(' * serve({ fetch: app.fetch, port: 3000 });');
+  lines.push(' * ```');
+  lines.push(' */');
+  lines.push('export default app;');
+  lines.push('');
+
+  return lines.join('\n');
+}
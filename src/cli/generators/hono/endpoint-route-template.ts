@@ -0,0 +1,113 @@
+/**
+ * Hono Endpoint Route Template
+ *
+ * Generates Hono sub-routers for custom endpoints defined via
+ * defineEndpoint().
+ *
+ * @module cli/generators/hono/endpoint-route-template
+ * @category CLI
+ */
+
+import type { AnalyzedEndpoint, GenerationTarget, SchemockConfig } from '../../types';
+import {
+  generateParamParsingExpression,
+  generateEndpointTodoBody,
+  getQueryParams,
+} from '../shared/endpoint-helpers';
+import { getHonoDbImport, type HonoBackend } from './route-template';
+
+/**
+ * Get an endpoint path relative to the app's base path
+ *
+ * @example
+ * toHonoEndpointPath('/api/stats/:entityType', '/api') // '/stats/:entityType'
+ */
+export function toHonoEndpointPath(path: string, apiPrefix: string): string {
+  if (path.startsWith(`${apiPrefix}/`)) {
+    return path.slice(apiPrefix.length);
+  }
+  return path === apiPrefix ? '/' : path;
+}
+
+/**
+ * Generate a Hono sub-router file for a custom endpoint
+ */
+export function generateHonoEndpointRouteFile(
+  endpoint: AnalyzedEndpoint,
+  target: GenerationTarget,
+  config: SchemockConfig
+): string {
+  const backend = (target.backend || 'supabase') as HonoBackend;
+  const apiPrefix = config.apiPrefix || '/api';
+  const hasBody = endpoint.body.length > 0;
+  const hasParams = endpoint.params.length > 0 || endpoint.pathParams.length > 0;
+  const hasResponse = endpoint.response.length > 0;
+  const queryParams = getQueryParams(endpoint);
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    `// Custom endpoint: ${endpoint.method} ${endpoint.path}`,
+    '',
+    "import { Hono } from 'hono';",
+    getHonoDbImport(backend, '..'),
+    "import type { AppEnv } from '../env';",
+  ];
+
+  // Import endpoint types
+  const typeImports: string[] = [];
+  if (hasParams) typeImports.push(`${endpoint.pascalName}Params`);
+  if (hasBody) typeImports.push(`${endpoint.pascalName}Body`);
+  if (hasResponse) typeImports.push(`${endpoint.pascalName}Response`);
+
+  if (typeImports.length > 0) {
+    lines.push(`import type { ${typeImports.join(', ')} } from '../endpoint-types';`);
+  }
+
+  lines.push('');
+
+  const method = endpoint.method.toLowerCase();
+  const routePath = toHonoEndpointPath(endpoint.path, apiPrefix);
+
+  lines.push(`export const ${endpoint.name}Endpoint = new Hono<AppEnv>()`);
+  lines.push('  /**');
+  lines.push(`   * ${endpoint.method} ${endpoint.path}`);
+  if (endpoint.description) {
+    lines.push(`   * ${endpoint.description}`);
+  }
+  lines.push('   */');
+  lines.push(`  .${method}('${routePath}', async (c) => {`);
+
+  // Parse path params
+  if (endpoint.pathParams.length > 0) {
+    const destructured = endpoint.pathParams.join(', ');
+    lines.push(`    const { ${destructured} } = c.req.param();`);
+    lines.push('');
+  }
+
+  // Parse query params
+  if (queryParams.length > 0) {
+    for (const param of queryParams) {
+      const accessPattern = `c.req.query('${param.name}')`;
+      const parsed = generateParamParsingExpression(param, accessPattern);
+      lines.push(`    const ${param.name} = ${parsed};`);
+    }
+    lines.push('');
+  }
+
+  // Parse body
+  if (hasBody) {
+    lines.push(`    const body = await c.req.json<${endpoint.pascalName}Body>();`);
+    lines.push('');
+  }
+
+  // TODO body with DB-specific example
+  lines.push(...generateEndpointTodoBody(endpoint, backend));
+  lines.push('');
+
+  // Default response
+  lines.push("    return c.json({ error: 'Not implemented' }, 501);");
+  lines.push('  });');
+  lines.push('');
+
+  return lines.join('\n');
+}
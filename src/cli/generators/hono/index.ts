@@ -0,0 +1,366 @@
+/**
+ * Hono Generator
+ *
+ * Generates a Hono app with per-entity sub-routers, Hono middleware and a
+ * typed RPC client. Output runs on Node, Bun, Deno and Cloudflare Workers.
+ *
+ * @module cli/generators/hono
+ * @category CLI
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  AnalyzedSchema,
+  AnalyzedEndpoint,
+  AnalyzedView,
+  GenerationTarget,
+  SchemockConfig,
+  GenerateOptions,
+  AnalyzedMiddleware,
+} from '../../types';
+import { generateHonoRouteFile } from './route-template';
+import { generateHonoEndpointRouteFile } from './endpoint-route-template';
+import { generateHonoViewRouteFile } from './view-route-template';
+import { generateHonoAppFile } from './app-template';
+import { generateHonoEnvFile, generateHonoClientFile } from './lib-template';
+import { generateHonoMiddlewareChain } from './middleware-chain-template';
+import {
+  generateHonoAuthMiddleware,
+  generateHonoRateLimitMiddleware,
+  generateHonoCacheMiddleware,
+  generateHonoLoggerMiddleware,
+  generateHonoContextMiddleware,
+  generateHonoRlsMiddleware,
+  generateHonoCustomMiddleware,
+} from './middleware-template';
+import { generateNodeValidation } from '../node-handlers/middleware-template';
+import {
+  normalizeAuthConfig,
+  normalizeLoggerConfig,
+  normalizeCacheConfig,
+} from '../node-handlers/middleware-chain-template';
+import { generateNodeLibFiles } from '../node-handlers/lib-template';
+import { generateTypes } from '../types';
+import { generateAllEndpointInterfaces } from '../shared/endpoint-helpers';
+import { hasCursorPagination, generateCursorModule } from '../shared/cursor';
+import { generateViewResolvers, isViewBackend } from '../shared/views';
+import { generateViewTypes } from '../views';
+
+/**
+ * Generate a Hono app for entities
+ *
+ * Creates a project structure like:
+ * output/
+ *   app.ts          # Hono app + AppType
+ *   client.ts       # hc<AppType>() client factory
+ *   env.ts          # Typed context variables
+ *   types.ts
+ *   db.ts
+ *   middleware/
+ *   views.ts        # View resolvers (supabase, pglite)
+ *   routes/
+ *     users.ts
+ *     views.ts
+ *   endpoints/
+ *     search.ts
+ *
+ * @param allSchemas - All schemas (for type generation, ensures relations work)
+ * @param targetSchemas - Filtered schemas (for route generation)
+ * @param outputDir - Output directory
+ * @param target - Target configuration
+ * @param config - Schemock config
+ * @param options - Generation options
+ * @param customMiddleware - Analyzed custom middleware definitions (optional)
+ * @param endpoints - Analyzed custom endpoints (optional)
+ * @param views - Analyzed views (optional)
+ */
+export async function generateHonoTarget(
+  allSchemas: AnalyzedSchema[],
+  targetSchemas: AnalyzedSchema[],
+  outputDir: string,
+  target: GenerationTarget,
+  config: SchemockConfig,
+  options: GenerateOptions,
+  customMiddleware: AnalyzedMiddleware[] = [],
+  endpoints: AnalyzedEndpoint[] = [],
+  views: AnalyzedView[] = []
+): Promise<string[]> {
+  const files: string[] = [];
+  const backend = target.backend || 'supabase';
+
+  if (backend === 'neon') {
+    throw new Error("Hono target does not support backend 'neon'. Use 'supabase', 'firebase', 'pglite' or 'fetch'.");
+  }
+
+  const routesDir = join(outputDir, 'routes');
+  const middlewareDir = join(outputDir, 'middleware');
+  if (!options.dryRun) {
+    await mkdir(routesDir, { recursive: true });
+    await mkdir(middlewareDir, { recursive: true });
+    if (customMiddleware.length > 0) {
+      await mkdir(join(middlewareDir, 'custom'), { recursive: true });
+    }
+  }
+
+  // Generate TypeScript types (ALL schemas to preserve relations)
+  let typesCode = generateTypes(allSchemas);
+  if (views.length > 0) {
+    typesCode += generateViewTypes(views);
+  }
+  await writeOutput(join(outputDir, 'types.ts'), typesCode, options.dryRun);
+  files.push('types.ts');
+  console.log('   ✓ types.ts');
+
+  // Database clients are shared with node-handlers
+  const libFiles = generateNodeLibFiles(target, config);
+  for (const [filename, content] of Object.entries(libFiles)) {
+    if (filename === 'types.ts') continue; // Skip types, already generated
+    await writeOutput(join(outputDir, filename), content, options.dryRun);
+    files.push(filename);
+    console.log(`   ✓ ${filename}`);
+  }
+
+  await writeOutput(join(outputDir, 'env.ts'), generateHonoEnvFile(), options.dryRun);
+  files.push('env.ts');
+  console.log('   ✓ env.ts');
+
+  // Generate cursor pagination helpers for keyset-paginated entities
+  if ((backend === 'supabase' || backend === 'pglite') && hasCursorPagination(targetSchemas)) {
+    await writeOutput(join(outputDir, 'cursor.ts'), generateCursorModule(backend), options.dryRun);
+    files.push('cursor.ts');
+    console.log('   ✓ cursor.ts');
+  }
+
+  // Middleware: v1.0 config or legacy target.middleware
+  if (config.middleware !== undefined) {
+    const generatedMiddleware = await generateMiddlewareFromConfig(
+      middlewareDir,
+      config,
+      targetSchemas,
+      customMiddleware,
+      options.dryRun
+    );
+    files.push(...generatedMiddleware);
+
+    const chainCode = generateHonoMiddlewareChain(config, customMiddleware);
+    await writeOutput(join(middlewareDir, 'chain.ts'), chainCode, options.dryRun);
+    files.push('middleware/chain.ts');
+    console.log('   ✓ middleware/chain.ts');
+  } else {
+    if (target.middleware?.auth) {
+      const authCode = generateHonoAuthMiddleware(target.middleware.auth);
+      await writeOutput(join(middlewareDir, 'auth.ts'), authCode, options.dryRun);
+      files.push('middleware/auth.ts');
+      console.log('   ✓ middleware/auth.ts');
+    }
+
+    if (target.middleware?.validation) {
+      const validationCode = generateNodeValidation(targetSchemas);
+      await writeOutput(join(middlewareDir, 'validate.ts'), validationCode, options.dryRun);
+      files.push('middleware/validate.ts');
+      console.log('   ✓ middleware/validate.ts');
+    }
+  }
+
+  // Generate sub-routers for TARGET schemas only (filtered)
+  for (const schema of targetSchemas) {
+    if (schema.isJunctionTable) continue;
+
+    const routeCode = generateHonoRouteFile(schema, target, config);
+    await writeOutput(join(routesDir, `${schema.pluralName}.ts`), routeCode, options.dryRun);
+    files.push(`routes/${schema.pluralName}.ts`);
+    console.log(`   ✓ routes/${schema.pluralName}.ts`);
+  }
+
+  // Generate custom endpoint sub-routers
+  const hasEndpoints = endpoints.length > 0;
+  if (hasEndpoints) {
+    const endpointsDir = join(outputDir, 'endpoints');
+    if (!options.dryRun) {
+      await mkdir(endpointsDir, { recursive: true });
+    }
+
+    const endpointTypesCode = generateAllEndpointInterfaces(endpoints);
+    await writeOutput(join(outputDir, 'endpoint-types.ts'), endpointTypesCode, options.dryRun);
+    files.push('endpoint-types.ts');
+    console.log('   ✓ endpoint-types.ts');
+
+    for (const endpoint of endpoints) {
+      const endpointCode = generateHonoEndpointRouteFile(endpoint, target, config);
+      await writeOutput(join(endpointsDir, `${endpoint.name}.ts`), endpointCode, options.dryRun);
+      files.push(`endpoints/${endpoint.name}.ts`);
+      console.log(`   ✓ endpoints/${endpoint.name}.ts (${endpoint.method} ${endpoint.path})`);
+    }
+  }
+
+  // Generate view resolvers and the views sub-router
+  const hasViews = views.length > 0;
+  if (hasViews) {
+    if (isViewBackend(backend)) {
+      const resolversCode = generateViewResolvers(views, { backend, dbImport: './db', typesImport: './types' });
+      await writeOutput(join(outputDir, 'views.ts'), resolversCode, options.dryRun);
+      files.push('views.ts');
+      console.log('   ✓ views.ts');
+    }
+
+    const viewRouteCode = generateHonoViewRouteFile(views, target, config);
+    await writeOutput(join(routesDir, 'views.ts'), viewRouteCode, options.dryRun);
+    files.push('routes/views.ts');
+    console.log(`   ✓ routes/views.ts (${views.length} views)`);
+  }
+
+  // Generate the app (only mounts target schemas)
+  const appCode = generateHonoAppFile(targetSchemas, target, config, endpoints, hasViews);
+  await writeOutput(join(outputDir, 'app.ts'), appCode, options.dryRun);
+  files.push('app.ts');
+  console.log('   ✓ app.ts (Hono app + AppType)');
+
+  const clientCode = generateHonoClientFile(config.apiPrefix || '/api');
+  await writeOutput(join(outputDir, 'client.ts'), clientCode, options.dryRun);
+  files.push('client.ts');
+  console.log('   ✓ client.ts (typed RPC client)');
+
+  const indexCode = generateIndexFile(targetSchemas, target, config, customMiddleware, hasEndpoints, hasViews);
+  await writeOutput(join(outputDir, 'index.ts'), indexCode, options.dryRun);
+  files.push('index.ts');
+  console.log('   ✓ index.ts');
+
+  return files;
+}
+
+/**
+ * Generate middleware files based on new v1.0 config format
+ */
+async function generateMiddlewareFromConfig(
+  middlewareDir: string,
+  config: SchemockConfig,
+  schemas: AnalyzedSchema[],
+  customMiddleware: AnalyzedMiddleware[],
+  dryRun?: boolean
+): Promise<string[]> {
+  const files: string[] = [];
+  const mwConfig = config.middleware;
+  if (!mwConfig) return files;
+
+  const outputs: Array<[string, string]> = [];
+
+  const authConfig = normalizeAuthConfig(mwConfig.auth);
+  if (authConfig) outputs.push(['auth.ts', generateHonoAuthMiddleware(authConfig)]);
+
+  if (mwConfig.rateLimit) outputs.push(['rate-limit.ts', generateHonoRateLimitMiddleware(mwConfig.rateLimit)]);
+
+  const cacheConfig = normalizeCacheConfig(mwConfig.cache);
+  if (cacheConfig) outputs.push(['cache.ts', generateHonoCacheMiddleware(cacheConfig)]);
+
+  const loggerConfig = normalizeLoggerConfig(mwConfig.logger);
+  if (loggerConfig) outputs.push(['logger.ts', generateHonoLoggerMiddleware(loggerConfig)]);
+
+  if (mwConfig.context) outputs.push(['context.ts', generateHonoContextMiddleware()]);
+  if (mwConfig.rls) outputs.push(['rls.ts', generateHonoRlsMiddleware(schemas)]);
+  if (mwConfig.validation) outputs.push(['validate.ts', generateNodeValidation(schemas)]);
+
+  for (const mw of customMiddleware) {
+    outputs.push([`custom/${mw.name}.ts`, generateHonoCustomMiddleware(mw)]);
+  }
+
+  for (const [filename, content] of outputs) {
+    await writeOutput(join(middlewareDir, filename), content, dryRun);
+    files.push(`middleware/${filename}`);
+    console.log(`   ✓ middleware/${filename}`);
+  }
+
+  return files;
+}
+
+/**
+ * Generate index file
+ */
+function generateIndexFile(
+  schemas: AnalyzedSchema[],
+  target: GenerationTarget,
+  config: SchemockConfig,
+  customMiddleware: AnalyzedMiddleware[] = [],
+  hasEndpoints: boolean = false,
+  hasViews: boolean = false
+): string {
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "export * from './types';",
+    "export type { AppEnv, AuthUser, RequestContext } from './env';",
+    "export { app, type AppType } from './app';",
+    "export { createApiClient, type ApiClient } from './client';",
+  ];
+
+  if (hasEndpoints) {
+    lines.push("export * from './endpoint-types';");
+  }
+
+  // Export sub-routers
+  for (const schema of schemas) {
+    if (schema.isJunctionTable) continue;
+    lines.push(`export { ${schema.pluralName}Route } from './routes/${schema.pluralName}';`);
+  }
+  if (hasViews) {
+    lines.push("export { viewsRoute } from './routes/views';");
+  }
+
+  const mwConfig = config.middleware;
+
+  if (mwConfig) {
+    lines.push("export { applyMiddleware, middleware, middlewareOrder } from './middleware/chain';");
+
+    if (mwConfig.auth) {
+      lines.push("export { authMiddleware, requireAuth } from './middleware/auth';");
+    }
+    if (mwConfig.rateLimit) {
+      lines.push("export { rateLimitMiddleware } from './middleware/rate-limit';");
+    }
+    if (mwConfig.cache) {
+      lines.push("export { cacheMiddleware, invalidateCache } from './middleware/cache';");
+    }
+    if (mwConfig.logger) {
+      lines.push("export { loggerMiddleware } from './middleware/logger';");
+    }
+    if (mwConfig.context) {
+      lines.push("export { contextMiddleware } from './middleware/context';");
+    }
+    if (mwConfig.rls) {
+      lines.push("export { rlsMiddleware, applyRLSFilter, checkRLSPermission } from './middleware/rls';");
+    }
+    if (mwConfig.validation) {
+      lines.push("export * from './middleware/validate';");
+    }
+
+    for (const mw of customMiddleware) {
+      lines.push(`export { ${mw.name}Middleware } from './middleware/custom/${mw.name}';`);
+    }
+  } else {
+    if (target.middleware?.auth) {
+      lines.push("export { authMiddleware, requireAuth } from './middleware/auth';");
+    }
+    if (target.middleware?.validation) {
+      lines.push("export * from './middleware/validate';");
+    }
+  }
+
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Write output file (or show dry-run message)
+ */
+async function writeOutput(
+  path: string,
+  content: string,
+  dryRun?: boolean
+): Promise<void> {
+  if (dryRun) {
+    console.log(`   [DRY RUN] Would write: ${path}`);
+    return;
+  }
+  await writeFile(path, content, 'utf-8');
+}
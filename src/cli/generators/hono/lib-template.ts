@@ -0,0 +1,99 @@
+/**
+ * Hono Library Templates
+ *
+ * Generates the shared `env.ts` (typed context variables) and the
+ * `client.ts` RPC client for the Hono target. Database clients are
+ * shared with node-handlers.
+ *
+ * @module cli/generators/hono/lib-template
+ * @category CLI
+ */
+
+/**
+ * Generate the Hono environment types
+ *
+ * Every middleware and sub-router is typed with `AppEnv` so values set
+ * via `c.set()` are typed when read back with `c.get()`.
+ */
+export function generateHonoEnvFile(): string {
+  return [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    '/**',
+    ' * Authenticated user set by auth middleware',
+    ' */',
+    'export interface AuthUser {',
+    '  id: string;',
+    '  email?: string;',
+    '  role?: string;',
+    '  [key: string]: unknown;',
+    '}',
+    '',
+    '/**',
+    ' * Request context extracted from JWT/headers',
+    ' */',
+    'export interface RequestContext {',
+    '  userId?: string;',
+    '  role?: string;',
+    '  tenantId?: string;',
+    '  [key: string]: unknown;',
+    '}',
+    '',
+    '/**',
+    ' * RLS context type',
+    ' */',
+    'export type RLSContext = RequestContext;',
+    '',
+    '/**',
+    ' * Hono environment shared by the app, sub-routers and middleware',
+    ' */',
+    'export type AppEnv = {',
+    '  Variables: {',
+    '    user?: AuthUser;',
+    '    context?: RequestContext;',
+    '    rlsContext?: RLSContext | null;',
+    '  };',
+    '};',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate the typed RPC client
+ */
+export function generateHonoClientFile(apiPrefix: string): string {
+  return [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import { hc } from 'hono/client';",
+    "import type { AppType } from './app';",
+    '',
+    '/**',
+    ' * Create a typed API client with end-to-end types from the server routes',
+    ' *',
+    ' * @example',
+    ' * ```ts',
+    " * const client = createApiClient('http://localhost:3000');",
+    ` * const res = await client${apiPrefixToAccessor(apiPrefix)}.users.$get({ query: { limit: '10' } });`,
+    ' * const { data } = await res.json();',
+    ' * ```',
+    ' */',
+    'export function createApiClient(baseUrl: string, options?: Parameters<typeof hc>[1]) {',
+    '  return hc<AppType>(baseUrl, options);',
+    '}',
+    '',
+    'export type ApiClient = ReturnType<typeof createApiClient>;',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Convert an API prefix into an RPC client property chain (/api/v1 -> .api.v1)
+ */
+function apiPrefixToAccessor(apiPrefix: string): string {
+  return apiPrefix
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => `.${segment}`)
+    .join('');
+}
@@ -0,0 +1,170 @@
+/**
+ * Hono Middleware Chain Template
+ *
+ * Generates a middleware chain file that registers all configured
+ * middleware on a Hono app in the correct order.
+ *
+ * @module cli/generators/hono/middleware-chain-template
+ * @category CLI
+ */
+
+import type { SchemockConfig, MiddlewareConfig, AnalyzedMiddleware } from '../../types';
+
+/**
+ * Default middleware execution order
+ */
+const DEFAULT_MIDDLEWARE_ORDER = [
+  'auth',
+  'rateLimit',
+  'logger',
+  'context',
+  'rls',
+  'cache',
+  'validation',
+];
+
+/**
+ * Import path for each built-in middleware
+ */
+const BUILT_IN_MIDDLEWARE_FILES: Record<string, string> = {
+  auth: './auth',
+  rateLimit: './rate-limit',
+  logger: './logger',
+  context: './context',
+  rls: './rls',
+  cache: './cache',
+};
+
+/**
+ * Generate the middleware chain file for Hono
+ *
+ * Validation is not part of the chain: route handlers call the generated
+ * validators directly so the request body is only parsed once.
+ *
+ * @param config - Schemock config with middleware settings
+ * @param customMiddleware - Analyzed custom middleware definitions
+ * @returns Generated middleware chain code
+ */
+export function generateHonoMiddlewareChain(
+  config: SchemockConfig,
+  customMiddleware: AnalyzedMiddleware[] = []
+): string {
+  const middleware = config.middleware ?? {};
+  const enabledMiddleware = getEnabledMiddleware(middleware);
+  const orderedMiddleware = orderMiddleware(enabledMiddleware, middleware.chain, customMiddleware)
+    .filter((name) => name !== 'validation');
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import type { Hono } from 'hono';",
+    "import type { AppEnv } from '../env';",
+  ];
+
+  // Generate imports for each middleware
+  const customNames = new Set(customMiddleware.map((m) => m.name));
+  for (const name of orderedMiddleware) {
+    const handlerName = getMiddlewareHandlerName(name);
+    const from = customNames.has(name) ? `./custom/${name}` : BUILT_IN_MIDDLEWARE_FILES[name];
+    lines.push(`import { ${handlerName} } from '${from}';`);
+  }
+
+  lines.push('');
+  lines.push('/**');
+  lines.push(' * Register all configured middleware on an app');
+  lines.push(' * Middleware is applied in the following order:');
+  for (const name of orderedMiddleware) {
+    lines.push(` *   - ${name}`);
+  }
+  lines.push(' */');
+  lines.push('// eslint-disable-next-line @typescript-eslint/no-explicit-any');
+  lines.push('export function applyMiddleware(app: Hono<AppEnv, any, any>): void {');
+
+  if (orderedMiddleware.length === 0) {
+    lines.push('  // No middleware configured');
+  } else {
+    for (const name of orderedMiddleware) {
+      lines.push(`  app.use('*', ${getMiddlewareHandlerName(name)});`);
+    }
+  }
+
+  lines.push('}');
+  lines.push('');
+
+  // Export individual middleware for selective use
+  lines.push('/**');
+  lines.push(' * Export individual middleware handlers for selective use');
+  lines.push(' */');
+  lines.push('export const middleware = {');
+  for (const name of orderedMiddleware) {
+    lines.push(`  ${name}: ${getMiddlewareHandlerName(name)},`);
+  }
+  lines.push('} as const;');
+  lines.push('');
+
+  // Export the ordered list
+  lines.push('/**');
+  lines.push(' * Middleware execution order');
+  lines.push(' */');
+  lines.push(`export const middlewareOrder = ${JSON.stringify(orderedMiddleware)} as const;`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Get list of enabled middleware from config
+ */
+function getEnabledMiddleware(config: MiddlewareConfig): string[] {
+  const enabled: string[] = [];
+
+  if (config.auth) enabled.push('auth');
+  if (config.rateLimit) enabled.push('rateLimit');
+  if (config.logger) enabled.push('logger');
+  if (config.context) enabled.push('context');
+  if (config.rls) enabled.push('rls');
+  if (config.cache) enabled.push('cache');
+  if (config.validation) enabled.push('validation');
+
+  return enabled;
+}
+
+/**
+ * Order middleware based on config.chain or default order
+ */
+function orderMiddleware(
+  enabled: string[],
+  customOrder?: string[],
+  customMiddleware: AnalyzedMiddleware[] = []
+): string[] {
+  const earlyCustom = customMiddleware.filter((m) => m.order === 'early').map((m) => m.name);
+  const normalCustom = customMiddleware.filter((m) => m.order === 'normal').map((m) => m.name);
+  const lateCustom = customMiddleware.filter((m) => m.order === 'late').map((m) => m.name);
+
+  if (customOrder && customOrder.length > 0) {
+    // Use custom order, but only include enabled middleware
+    const allEnabled = new Set([...enabled, ...customMiddleware.map((m) => m.name)]);
+    return customOrder.filter((name) => allEnabled.has(name));
+  }
+
+  const ordered: string[] = [];
+  ordered.push(...earlyCustom.filter((n) => !enabled.includes(n)));
+  for (const name of DEFAULT_MIDDLEWARE_ORDER) {
+    if (enabled.includes(name)) {
+      ordered.push(name);
+    }
+  }
+  ordered.push(...normalCustom.filter((n) => !enabled.includes(n)));
+  ordered.push(...lateCustom.filter((n) => !enabled.includes(n)));
+
+  return ordered;
+}
+
+/**
+ * Get the handler function name for a middleware
+ */
+function getMiddlewareHandlerName(name: string): string {
+  // Handle hyphenated names like 'rate-limit' -> 'rateLimitMiddleware'
+  const camelCase = name.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+  return `${camelCase}Middleware`;
+}
@@ -0,0 +1,833 @@
+/**
+ * Hono Middleware Templates
+ *
+ * Generates Hono `MiddlewareHandler`s for auth, rate limiting, caching,
+ * logging, context extraction, RLS, and custom middleware. Output only uses
+ * Web-standard APIs so it runs on Node, Bun, Deno and Cloudflare Workers.
+ *
+ * @module cli/generators/hono/middleware-template
+ * @category CLI
+ */
+
+import type {
+  AnalyzedSchema,
+  AuthMiddlewareConfig,
+  RateLimitMiddlewareConfig,
+  CacheMiddlewareConfig,
+  LoggerMiddlewareConfig,
+  AnalyzedMiddleware,
+} from '../../types';
+
+/**
+ * Generate auth middleware for Hono
+ */
+export function generateHonoAuthMiddleware(config: AuthMiddlewareConfig): string {
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import type { MiddlewareHandler } from 'hono';",
+  ];
+
+  // Provider-specific imports
+  if (config.provider === 'supabase-auth') {
+    lines.push("import { supabase } from '../db';");
+  } else if (config.provider === 'jwt') {
+    lines.push("import { env } from 'hono/adapter';");
+    lines.push("import { verify } from 'hono/jwt';");
+  }
+
+  lines.push("import type { AppEnv } from '../env';");
+  lines.push('');
+  lines.push('/**');
+  lines.push(' * Auth middleware - validates request authentication');
+  lines.push(' */');
+  lines.push('export const authMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {');
+
+  if (config.provider === 'supabase-auth') {
+    lines.push("  const token = c.req.header('Authorization')?.split(' ')[1];");
+    lines.push('');
+    lines.push('  if (!token) {');
+    lines.push("    return c.json({ error: 'Missing authorization header' }, 401);");
+    lines.push('  }');
+    lines.push('');
+    lines.push('  const { data: { user }, error } = await supabase.auth.getUser(token);');
+    lines.push('');
+    lines.push('  if (error || !user) {');
+    lines.push("    return c.json({ error: 'Invalid or expired token' }, 401);");
+    lines.push('  }');
+    lines.push('');
+    lines.push("  c.set('user', { id: user.id, email: user.email });");
+    lines.push('  await next();');
+  } else if (config.provider === 'jwt') {
+    const secretEnvVar = config.secretEnvVar || 'JWT_SECRET';
+    lines.push("  const token = c.req.header('Authorization')?.split(' ')[1];");
+    lines.push('');
+    lines.push('  if (!token) {');
+    lines.push("    return c.json({ error: 'Missing authorization header' }, 401);");
+    lines.push('  }');
+    lines.push('');
+    lines.push('  // Resolves process.env, Deno.env or Worker bindings depending on the runtime');
+    lines.push(`  const { ${secretEnvVar}: secret } = env<{ ${secretEnvVar}?: string }>(c);`);
+    lines.push('  if (!secret) {');
+    lines.push(`    throw new Error('${secretEnvVar} environment variable not set');`);
+    lines.push('  }');
+    lines.push('');
+    lines.push('  let payload: Record<string, unknown>;');
+    lines.push('  try {');
+    lines.push("    payload = await verify(token, secret, 'HS256');");
+    lines.push('  } catch {');
+    lines.push("    return c.json({ error: 'Invalid or expired token' }, 401);");
+    lines.push('  }');
+    lines.push('');
+    lines.push("  c.set('user', {");
+    lines.push('    id: payload.sub as string,');
+    lines.push('    email: payload.email as string | undefined,');
+    lines.push('    role: payload.role as string | undefined,');
+    lines.push('  });');
+    lines.push('  await next();');
+  } else if (config.provider === 'custom') {
+    lines.push('  // Custom auth implementation');
+    lines.push("  const authHeader = c.req.header('Authorization');");
+    lines.push('');
+    lines.push('  if (!authHeader) {');
+    lines.push("    return c.json({ error: 'Missing authorization header' }, 401);");
+    lines.push('  }');
+    lines.push('');
+    lines.push('  // TODO: Implement your custom auth logic here');
+    lines.push('  // Example:');
+    lines.push('  // const user = await validateCustomToken(authHeader);');
+    lines.push('  // if (!user) {');
+    lines.push("  //   return c.json({ error: 'Invalid token' }, 401);");
+    lines.push('  // }');
+    lines.push("  // c.set('user', user);");
+    lines.push('');
+    lines.push("  c.set('user', { id: 'custom-user-id' });");
+    lines.push('  await next();');
+  } else {
+    // Fallback for unsupported providers
+    lines.push("  const authHeader = c.req.header('Authorization');");
+    lines.push('');
+    lines.push('  if (!authHeader) {');
+    lines.push("    return c.json({ error: 'Missing authorization header' }, 401);");
+    lines.push('  }');
+    lines.push('');
+    lines.push('  // TODO: Implement auth for provider: ' + config.provider);
+    lines.push("  c.set('user', { id: 'unknown' });");
+    lines.push('  await next();');
+  }
+
+  lines.push('};');
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * Require an authenticated user for specific routes');
+  lines.push(' *');
+  lines.push(' * @example');
+  lines.push(" * app.delete('/users/:id', requireAuth, handler)");
+  lines.push(' */');
+  lines.push('export const requireAuth: MiddlewareHandler<AppEnv> = async (c, next) => {');
+  lines.push("  if (!c.get('user')) {");
+  lines.push("    return c.json({ error: 'Authentication required' }, 401);");
+  lines.push('  }');
+  lines.push('  await next();');
+  lines.push('};');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate rate limit middleware for Hono
+ *
+ * Expired entries are swept lazily on each request because module-level
+ * timers are not allowed on Workers-style runtimes.
+ */
+export function generateHonoRateLimitMiddleware(config: RateLimitMiddlewareConfig): string {
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import type { Context, MiddlewareHandler } from 'hono';",
+    "import type { AppEnv } from '../env';",
+    '',
+    '/**',
+    ' * Rate limit store - tracks request counts per key',
+    ' */',
+    'interface RateLimitEntry {',
+    '  count: number;',
+    '  resetTime: number;',
+    '}',
+    '',
+    'const rateLimitStore = new Map<string, RateLimitEntry>();',
+    '',
+    '/**',
+    ' * Rate limit configuration',
+    ' */',
+    `const RATE_LIMIT_MAX = ${config.max};`,
+    `const RATE_LIMIT_WINDOW_MS = ${config.windowMs};`,
+    '',
+    'let lastSweep = Date.now();',
+    '',
+    '/**',
+    ' * Get rate limit key from request',
+    ' */',
+    'function getRateLimitKey(c: Context<AppEnv>): string {',
+  ];
+
+  // Key generator based on config
+  if (config.keyGenerator === 'user') {
+    lines.push('  // User-based rate limiting');
+    lines.push("  const user = c.get('user');");
+    lines.push('  if (user?.id) {');
+    lines.push('    return `user:${user.id}`;');
+    lines.push('  }');
+    lines.push('  // Fallback to IP if no user');
+  }
+
+  lines.push("  const forwarded = c.req.header('x-forwarded-for');");
+  lines.push("  const ip = c.req.header('cf-connecting-ip')");
+  lines.push("    ?? forwarded?.split(',')[0].trim()");
+  lines.push("    ?? c.req.header('x-real-ip')");
+  lines.push("    ?? 'unknown';");
+  lines.push('  return `ip:${ip}`;');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * Remove expired entries at most once per window');
+  lines.push(' */');
+  lines.push('function sweepExpired(now: number): void {');
+  lines.push('  if (now - lastSweep < RATE_LIMIT_WINDOW_MS) return;');
+  lines.push('  lastSweep = now;');
+  lines.push('  for (const [key, entry] of rateLimitStore.entries()) {');
+  lines.push('    if (now > entry.resetTime) {');
+  lines.push('      rateLimitStore.delete(key);');
+  lines.push('    }');
+  lines.push('  }');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * Rate limit middleware');
+  lines.push(' */');
+  lines.push('export const rateLimitMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {');
+  lines.push('  const key = getRateLimitKey(c);');
+  lines.push('  const now = Date.now();');
+  lines.push('  sweepExpired(now);');
+  lines.push('');
+  lines.push('  let entry = rateLimitStore.get(key);');
+  lines.push('');
+  lines.push('  if (!entry || now > entry.resetTime) {');
+  lines.push('    // Create new entry or reset expired one');
+  lines.push('    entry = { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS };');
+  lines.push('    rateLimitStore.set(key, entry);');
+  lines.push('  } else {');
+  lines.push('    entry.count++;');
+  lines.push('  }');
+  lines.push('');
+  lines.push('  // Set rate limit headers');
+  lines.push("  c.header('X-RateLimit-Limit', RATE_LIMIT_MAX.toString());");
+  lines.push("  c.header('X-RateLimit-Remaining', Math.max(0, RATE_LIMIT_MAX - entry.count).toString());");
+  lines.push("  c.header('X-RateLimit-Reset', Math.ceil(entry.resetTime / 1000).toString());");
+  lines.push('');
+  lines.push('  if (entry.count > RATE_LIMIT_MAX) {');
+  lines.push('    const retryAfter = Math.ceil((entry.resetTime - now) / 1000);');
+  lines.push("    c.header('Retry-After', retryAfter.toString());");
+  lines.push('    return c.json({');
+  lines.push("      error: 'Too many requests',");
+  lines.push('      message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,');
+  lines.push('    }, 429);');
+  lines.push('  }');
+  lines.push('');
+  lines.push('  await next();');
+  lines.push('};');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate cache middleware for Hono
+ *
+ * Whether a response is cacheable is decided after the route handler ran,
+ * when `c.req.routePath` holds the matched route pattern.
+ */
+export function generateHonoCacheMiddleware(config: CacheMiddlewareConfig): string {
+  const operations = config.operations ?? ['findOne', 'findMany'];
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import type { Context, MiddlewareHandler } from 'hono';",
+    "import type { AppEnv } from '../env';",
+    '',
+    '/**',
+    ' * Cache entry structure',
+    ' */',
+    'interface CacheEntry {',
+    '  data: unknown;',
+    '  expires: number;',
+    '}',
+    '',
+    'const cache = new Map<string, CacheEntry>();',
+    '',
+    '/**',
+    ' * Cache configuration',
+    ' */',
+    `const CACHE_TTL = ${config.ttl};`,
+    "const CACHEABLE_METHODS = new Set(['GET']);",
+    '',
+    '/**',
+    ' * Generate cache key from request',
+    ' */',
+    'function getCacheKey(c: Context<AppEnv>): string {',
+    "  const userId = c.get('user')?.id || 'anonymous';",
+    '  return `${userId}:${c.req.method}:${c.req.url}`;',
+    '}',
+    '',
+    '/**',
+    ' * Check if the matched route is cacheable',
+    ' */',
+  ];
+
+  if (operations.includes('findMany') && !operations.includes('findOne')) {
+    lines.push('function isCacheableRoute(routePath: string): boolean {');
+    lines.push('  // Only cache list operations (findMany)');
+    lines.push("  return !routePath.endsWith('/:id');");
+  } else if (operations.includes('findOne') && !operations.includes('findMany')) {
+    lines.push('function isCacheableRoute(routePath: string): boolean {');
+    lines.push('  // Only cache single item operations (findOne)');
+    lines.push("  return routePath.endsWith('/:id');");
+  } else {
+    lines.push('function isCacheableRoute(_routePath: string): boolean {');
+    lines.push('  // Cache both findOne and findMany operations');
+    lines.push('  return true;');
+  }
+
+  lines.push('}');
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * Invalidate cache entries matching a pattern');
+  lines.push(' */');
+  lines.push('export function invalidateCache(pattern?: string): void {');
+  lines.push('  if (!pattern) {');
+  lines.push('    cache.clear();');
+  lines.push('    return;');
+  lines.push('  }');
+  lines.push('  for (const key of cache.keys()) {');
+  lines.push('    if (key.includes(pattern)) {');
+  lines.push('      cache.delete(key);');
+  lines.push('    }');
+  lines.push('  }');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * Cache middleware');
+  lines.push(' */');
+  lines.push('export const cacheMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {');
+  lines.push('  if (!CACHEABLE_METHODS.has(c.req.method)) {');
+  lines.push('    await next();');
+  lines.push('    return;');
+  lines.push('  }');
+  lines.push('');
+  lines.push('  const key = getCacheKey(c);');
+  lines.push('  const cached = cache.get(key);');
+  lines.push('');
+  lines.push('  if (cached && Date.now() < cached.expires) {');
+  lines.push("    c.header('X-Cache', 'HIT');");
+  lines.push('    return c.json(cached.data);');
+  lines.push('  }');
+  lines.push('  if (cached) {');
+  lines.push('    cache.delete(key);');
+  lines.push('  }');
+  lines.push('');
+  lines.push("  c.header('X-Cache', 'MISS');");
+  lines.push('  await next();');
+  lines.push('');
+  lines.push("  const isJson = c.res.headers.get('Content-Type')?.includes('application/json');");
+  lines.push('  if (c.res.ok && isJson && isCacheableRoute(c.req.routePath)) {');
+  lines.push('    cache.set(key, {');
+  lines.push('      data: await c.res.clone().json(),');
+  lines.push('      expires: Date.now() + CACHE_TTL,');
+  lines.push('    });');
+  lines.push('  }');
+  lines.push('};');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate logger middleware for Hono
+ */
+export function generateHonoLoggerMiddleware(config: LoggerMiddlewareConfig): string {
+  const level = config.level ?? 'info';
+  const includeBody = config.includeBody ?? false;
+  const includeResponse = config.includeResponse ?? false;
+  const redactFields = config.redactFields ?? ['password', 'token', 'secret', 'apiKey'];
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import type { MiddlewareHandler } from 'hono';",
+    "import type { AppEnv } from '../env';",
+    '',
+    '/**',
+    ' * Log levels',
+    ' */',
+    "type LogLevel = 'debug' | 'info' | 'warn' | 'error';",
+    '',
+    'const LOG_LEVELS: Record<LogLevel, number> = {',
+    '  debug: 0,',
+    '  info: 1,',
+    '  warn: 2,',
+    '  error: 3,',
+    '};',
+    '',
+    `const CURRENT_LEVEL: LogLevel = '${level}';`,
+    '',
+    '/**',
+    ' * Fields to redact from logs',
+    ' */',
+    `const REDACT_FIELDS = new Set(${JSON.stringify(redactFields)});`,
+    '',
+    '/**',
+    ' * Redact sensitive fields from an object',
+    ' */',
+    'function redact<T extends Record<string, unknown>>(obj: T): T {',
+    '  const result = { ...obj };',
+    '  for (const key of Object.keys(result)) {',
+    '    if (REDACT_FIELDS.has(key.toLowerCase())) {',
+    "      result[key as keyof T] = '[REDACTED]' as T[keyof T];",
+    "    } else if (typeof result[key] === 'object' && result[key] !== null) {",
+    '      result[key as keyof T] = redact(result[key] as Record<string, unknown>) as T[keyof T];',
+    '    }',
+    '  }',
+    '  return result;',
+    '}',
+    '',
+    '/**',
+    ' * Log a message at the specified level',
+    ' */',
+    'function log(level: LogLevel, message: string, data?: Record<string, unknown>): void {',
+    '  if (LOG_LEVELS[level] < LOG_LEVELS[CURRENT_LEVEL]) return;',
+    '',
+    '  const logData = {',
+    '    timestamp: new Date().toISOString(),',
+    '    level,',
+    '    message,',
+    '    ...data,',
+    '  };',
+    '',
+    "  if (level === 'error') {",
+    '    console.error(JSON.stringify(logData));',
+    "  } else if (level === 'warn') {",
+    '    console.warn(JSON.stringify(logData));',
+    '  } else {',
+    '    console.log(JSON.stringify(logData));',
+    '  }',
+    '}',
+    '',
+    '/**',
+    ' * Logger middleware',
+    ' */',
+    'export const loggerMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {',
+    '  const start = Date.now();',
+    "  const requestId = c.req.header('x-request-id') || crypto.randomUUID();",
+    '',
+    '  // Log request',
+    '  const requestData: Record<string, unknown> = {',
+    '    requestId,',
+    '    method: c.req.method,',
+    '    path: c.req.path,',
+    '    query: redact(c.req.query()),',
+    "    userAgent: c.req.header('user-agent'),",
+    '  };',
+    '',
+  ];
+
+  if (includeBody) {
+    lines.push("  if (c.req.header('Content-Type')?.includes('application/json')) {");
+    lines.push('    // Hono caches the parsed body, so route handlers can still read it');
+    lines.push('    const body = await c.req.json().catch(() => undefined);');
+    lines.push("    if (body && typeof body === 'object') {");
+    lines.push('      requestData.body = redact(body as Record<string, unknown>);');
+    lines.push('    }');
+    lines.push('  }');
+    lines.push('');
+  }
+
+  lines.push("  log('info', 'Request received', requestData);");
+  lines.push('');
+  lines.push('  await next();');
+  lines.push('');
+  lines.push('  const status = c.res.status;');
+  lines.push('  const responseData: Record<string, unknown> = {');
+  lines.push('    requestId,');
+  lines.push('    method: c.req.method,');
+  lines.push('    path: c.req.path,');
+  lines.push('    statusCode: status,');
+  lines.push('    duration: `${Date.now() - start}ms`,');
+  lines.push('  };');
+  lines.push('');
+
+  if (includeResponse) {
+    lines.push("  if (c.res.headers.get('Content-Type')?.includes('application/json')) {");
+    lines.push('    const responseBody: unknown = await c.res.clone().json().catch(() => undefined);');
+    lines.push('    if (responseBody) {');
+    lines.push("      responseData.response = typeof responseBody === 'object'");
+    lines.push('        ? redact(responseBody as Record<string, unknown>)');
+    lines.push('        : responseBody;');
+    lines.push('    }');
+    lines.push('  }');
+    lines.push('');
+  }
+
+  lines.push('  const level: LogLevel = status >= 500');
+  lines.push("    ? 'error'");
+  lines.push('    : status >= 400');
+  lines.push("      ? 'warn'");
+  lines.push("      : 'info';");
+  lines.push('');
+  lines.push("  log(level, 'Response sent', responseData);");
+  lines.push('};');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate context middleware for Hono
+ * Extracts user context from JWT or headers
+ */
+export function generateHonoContextMiddleware(): string {
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import type { MiddlewareHandler } from 'hono';",
+    "import { decode } from 'hono/jwt';",
+    "import type { AppEnv, RequestContext } from '../env';",
+    '',
+    '/**',
+    ' * Decode JWT payload without verification',
+    ' * Note: Verification should be done by auth middleware',
+    ' */',
+    'function decodeJwtPayload(token: string): Record<string, unknown> | null {',
+    '  try {',
+    '    return decode(token).payload as Record<string, unknown>;',
+    '  } catch {',
+    '    return null;',
+    '  }',
+    '}',
+    '',
+    '/**',
+    ' * Context middleware - extracts context from JWT and headers',
+    ' */',
+    'export const contextMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {',
+    '  const context: RequestContext = {};',
+    '',
+    '  // Extract from JWT if present',
+    "  const authHeader = c.req.header('Authorization');",
+    "  if (authHeader?.startsWith('Bearer ')) {",
+    '    const payload = decodeJwtPayload(authHeader.slice(7));',
+    '    if (payload) {',
+    '      context.userId = payload.sub as string;',
+    '      context.role = payload.role as string;',
+    '      // Copy other claims',
+    '      for (const [key, value] of Object.entries(payload)) {',
+    "        if (!['sub', 'role', 'iat', 'exp', 'iss', 'aud'].includes(key)) {",
+    '          context[key] = value;',
+    '        }',
+    '      }',
+    '    }',
+    '  }',
+    '',
+    '  // Extract from headers',
+    "  const tenantId = c.req.header('x-tenant-id');",
+    '  if (tenantId) {',
+    '    context.tenantId = tenantId;',
+    '  }',
+    '',
+    '  // Allow user from auth middleware to override',
+    "  const user = c.get('user');",
+    '  if (user?.id) {',
+    '    context.userId = user.id;',
+    '  }',
+    '',
+    "  c.set('context', context);",
+    '  await next();',
+    '};',
+    '',
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate RLS middleware for Hono
+ * Attaches row-level security context to requests
+ */
+export function generateHonoRlsMiddleware(schemas: AnalyzedSchema[]): string {
+  const schemasWithRls = schemas.filter((s) => s.rls);
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import type { MiddlewareHandler } from 'hono';",
+    "import type { AppEnv, RLSContext } from '../env';",
+    '',
+    '/**',
+    ' * RLS filter function type',
+    ' */',
+    'export type RLSFilter<T = Record<string, unknown>> = (',
+    '  row: T,',
+    '  ctx: RLSContext | null',
+    ') => boolean;',
+    '',
+  ];
+
+  // Generate RLS filters for each schema
+  if (schemasWithRls.length > 0) {
+    lines.push('/**');
+    lines.push(' * RLS filters by entity');
+    lines.push(' */');
+    lines.push('export const rlsFilters: Record<string, {');
+    lines.push('  select?: RLSFilter;');
+    lines.push('  insert?: RLSFilter;');
+    lines.push('  update?: RLSFilter;');
+    lines.push('  delete?: RLSFilter;');
+    lines.push('}> = {');
+
+    for (const schema of schemasWithRls) {
+      if (!schema.rls) continue;
+
+      lines.push(`  '${schema.name}': {`);
+
+      // Handle scope-based RLS
+      if (schema.rls.scope) {
+        const scopeConditions = schema.rls.scope
+          .map((s) => `row.${s.field} === ctx?.${s.contextKey}`)
+          .join(' && ');
+        const bypassConditions = schema.rls.bypass
+          ?.map((b) => `${JSON.stringify(b.values)}.includes(ctx?.${b.contextKey} as string)`)
+          .join(' || ');
+
+        const filterBody = bypassConditions
+          ? `${bypassConditions} || (${scopeConditions})`
+          : scopeConditions;
+
+        lines.push(`    select: (row, ctx) => ${filterBody},`);
+        lines.push(`    insert: (row, ctx) => ${filterBody},`);
+        lines.push(`    update: (row, ctx) => ${filterBody},`);
+        lines.push(`    delete: (row, ctx) => ${filterBody},`);
+      }
+
+      lines.push('  },');
+    }
+
+    lines.push('};');
+    lines.push('');
+  } else {
+    lines.push('/**');
+    lines.push(' * No RLS filters configured');
+    lines.push(' */');
+    lines.push('export const rlsFilters: Record<string, Record<string, RLSFilter>> = {};');
+    lines.push('');
+  }
+
+  lines.push('/**');
+  lines.push(' * RLS middleware - attaches RLS context to the request');
+  lines.push(' */');
+  lines.push('export const rlsMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {');
+  lines.push('  // Use context middleware if available, then user from auth middleware');
+  lines.push("  const context = c.get('context');");
+  lines.push("  const user = c.get('user');");
+  lines.push('');
+  lines.push("  c.set('rlsContext', context ?? (user ? { userId: user.id, role: user.role } : null));");
+  lines.push('  await next();');
+  lines.push('};');
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * Apply RLS filter to data');
+  lines.push(' */');
+  lines.push('export function applyRLSFilter<T extends Record<string, unknown>>(');
+  lines.push('  entity: string,');
+  lines.push("  operation: 'select' | 'insert' | 'update' | 'delete',");
+  lines.push('  data: T[],');
+  lines.push('  ctx: RLSContext | null');
+  lines.push('): T[] {');
+  lines.push('  const filter = rlsFilters[entity]?.[operation];');
+  lines.push('  if (!filter) return data;');
+  lines.push('  return data.filter((row) => filter(row, ctx));');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * Check if operation is allowed by RLS');
+  lines.push(' */');
+  lines.push('export function checkRLSPermission<T extends Record<string, unknown>>(');
+  lines.push('  entity: string,');
+  lines.push("  operation: 'select' | 'insert' | 'update' | 'delete',");
+  lines.push('  row: T,');
+  lines.push('  ctx: RLSContext | null');
+  lines.push('): boolean {');
+  lines.push('  const filter = rlsFilters[entity]?.[operation];');
+  lines.push('  if (!filter) return true;');
+  lines.push('  return filter(row, ctx);');
+  lines.push('}');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate custom middleware from analyzed middleware definition
+ */
+export function generateHonoCustomMiddleware(analyzed: AnalyzedMiddleware): string {
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import type { Context, MiddlewareHandler, Next } from 'hono';",
+    "import type { AppEnv } from '../../env';",
+    '',
+  ];
+
+  // Generate imports for dependencies
+  if (analyzed.handlerDependencies && analyzed.handlerDependencies.length > 0) {
+    for (const dep of analyzed.handlerDependencies) {
+      lines.push(`import { ${dep.name} } from '${dep.from}';`);
+    }
+    lines.push('');
+  }
+
+  // Generate local functions if any
+  if (analyzed.localFunctions && analyzed.localFunctions.length > 0) {
+    for (const func of analyzed.localFunctions) {
+      lines.push(func.source);
+      lines.push('');
+    }
+  }
+
+  const hasConfig = analyzed.configFields.length > 0;
+
+  // Generate config type if there are config fields
+  if (hasConfig) {
+    lines.push('/**');
+    lines.push(` * Configuration for ${analyzed.pascalName} middleware`);
+    lines.push(' */');
+    lines.push(`export interface ${analyzed.pascalName}Config {`);
+    for (const field of analyzed.configFields) {
+      const optional = field.hasDefault ? '?' : '';
+      lines.push(`  ${field.name}${optional}: ${field.tsType};`);
+    }
+    lines.push('}');
+    lines.push('');
+
+    // Generate default config
+    lines.push('/**');
+    lines.push(' * Default configuration');
+    lines.push(' */');
+    lines.push(`const defaultConfig: ${analyzed.pascalName}Config = {`);
+    for (const field of analyzed.configFields) {
+      if (field.hasDefault) {
+        const value = typeof field.default === 'string'
+          ? `'${field.default}'`
+          : JSON.stringify(field.default);
+        lines.push(`  ${field.name}: ${value},`);
+      }
+    }
+    lines.push('};');
+    lines.push('');
+  }
+
+  // Generate middleware context type (Hono-adapted)
+  lines.push('/**');
+  lines.push(' * Middleware context (Hono-adapted)');
+  lines.push(' */');
+  lines.push('interface MiddlewareContext {');
+  lines.push('  headers: Record<string, string | undefined>;');
+  lines.push('  path: string;');
+  lines.push('  method: string;');
+  lines.push('  query: Record<string, string | string[] | undefined>;');
+  lines.push('  params: Record<string, string>;');
+  lines.push('  body?: unknown;');
+  lines.push('  context: Record<string, unknown>;');
+  lines.push('  metadata: Record<string, unknown>;');
+  lines.push('}');
+  lines.push('');
+
+  // Shared runner: adapts the Hono context, runs the handler, maps its result
+  const configType = hasConfig ? `${analyzed.pascalName}Config` : 'Record<string, never>';
+  lines.push('/**');
+  lines.push(' * Run the middleware handler against a Hono context');
+  lines.push(' */');
+  lines.push(`async function run(c: Context<AppEnv>, next: Next, config: ${configType}): Promise<Response | void> {`);
+  lines.push("  const hasBody = c.req.header('Content-Type')?.includes('application/json');");
+  lines.push('  const ctx: MiddlewareContext = {');
+  lines.push('    headers: c.req.header(),');
+  lines.push('    path: c.req.path,');
+  lines.push('    method: c.req.method,');
+  lines.push('    query: c.req.query(),');
+  lines.push('    params: c.req.param() as Record<string, string>,');
+  lines.push('    body: hasBody ? await c.req.json().catch(() => undefined) : undefined,');
+  lines.push("    context: c.get('context') ?? {},");
+  lines.push('    metadata: {},');
+  lines.push('  };');
+  lines.push('');
+  lines.push('  // Create next wrapper');
+  lines.push('  let nextCalled = false;');
+  lines.push('  const wrappedNext = async () => {');
+  lines.push('    nextCalled = true;');
+  lines.push('    return {};');
+  lines.push('  };');
+  lines.push('');
+  lines.push('  // Execute the handler');
+  lines.push('  const handler = ' + analyzed.handlerSource + ';');
+  lines.push('  const result = await handler({ ctx, config, next: wrappedNext });');
+  lines.push('');
+  lines.push('  // Handle response if returned');
+  lines.push('  if (result?.response) {');
+  lines.push('    const { status = 200, body, headers = {} } = result.response;');
+  lines.push('    return Response.json(body, { status, headers });');
+  lines.push('  }');
+  lines.push('');
+  lines.push('  // Update request context');
+  lines.push("  c.set('context', ctx.context);");
+  lines.push('');
+  lines.push('  if (nextCalled) {');
+  lines.push('    await next();');
+  lines.push('  }');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('/**');
+  if (analyzed.description) {
+    lines.push(` * ${analyzed.description}`);
+  } else {
+    lines.push(` * ${analyzed.pascalName} middleware`);
+  }
+  lines.push(' */');
+
+  const handlerName = `${analyzed.name}Middleware`;
+
+  if (hasConfig) {
+    // Configurable middleware - export a factory function
+    lines.push(`export function create${analyzed.pascalName}Middleware(`);
+    lines.push(`  config: Partial<${analyzed.pascalName}Config> = {}`);
+    lines.push('): MiddlewareHandler<AppEnv> {');
+    lines.push('  const mergedConfig = { ...defaultConfig, ...config };');
+    lines.push('  return (c, next) => run(c, next, mergedConfig);');
+    lines.push('}');
+    lines.push('');
+    lines.push('// Export default middleware instance with default config');
+    lines.push(`export const ${handlerName} = create${analyzed.pascalName}Middleware();`);
+  } else {
+    lines.push(`export const ${handlerName}: MiddlewareHandler<AppEnv> = (c, next) => run(c, next, {});`);
+  }
+
+  lines.push('');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,517 @@
+/**
+ * Hono Route Templates
+ *
+ * Generates a Hono sub-router per entity. Routes are chained on a single
+ * `new Hono()` expression so the RPC client can infer request and
+ * response types from the exported router.
+ *
+ * @module cli/generators/hono/route-template
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, GenerationTarget, SchemockConfig } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { isCursorPaginated, getDefaultLimit, generateCursorListQuery } from '../shared/cursor';
+import {
+  LIVE_ROWS_SQL,
+  DELETED_ROWS_SQL,
+  generateDeletedScope,
+  generateSqlDeletedFilter,
+  generateSupabaseDeletedFilter,
+  FETCH_SCOPE_OPTIONS,
+  firestoreScopedCollection,
+} from '../shared/soft-delete';
+
+/**
+ * Backends supported by the Hono target (same clients as node-handlers)
+ */
+export type HonoBackend = 'supabase' | 'firebase' | 'pglite' | 'fetch';
+
+/**
+ * Context shared by the per-operation route generators
+ */
+interface HonoRouteContext {
+  schema: AnalyzedSchema;
+  backend: HonoBackend;
+  hasValidation: boolean;
+  cursorPaginated: boolean;
+}
+
+/**
+ * Get the database client import for a backend
+ *
+ * @param backend - Database backend
+ * @param relativePath - Relative path to the output root
+ */
+export function getHonoDbImport(backend: HonoBackend, relativePath: string): string {
+  switch (backend) {
+    case 'supabase':
+      return `import { supabase } from '${relativePath}/db';`;
+    case 'firebase':
+    case 'pglite':
+      return `import { db } from '${relativePath}/db';`;
+    case 'fetch':
+      return `import { api } from '${relativePath}/api';`;
+  }
+}
+
+/**
+ * Generate the sub-router file for an entity
+ */
+export function generateHonoRouteFile(
+  schema: AnalyzedSchema,
+  target: GenerationTarget,
+  config: SchemockConfig
+): string {
+  const backend = (target.backend || 'supabase') as HonoBackend;
+  const ctx: HonoRouteContext = {
+    schema,
+    backend,
+    hasValidation: target.middleware?.validation === true || !!config.middleware?.validation,
+    cursorPaginated: isCursorPaginated(schema) && (backend === 'supabase' || backend === 'pglite'),
+  };
+  const { pascalName, pluralName } = schema;
+
+  const code = new CodeBuilder();
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.line();
+  code.line("import { Hono } from 'hono';");
+  code.line(getHonoDbImport(backend, '..'));
+  code.line("import type { AppEnv } from '../env';");
+  code.line(`import type { ${pascalName}, ${pascalName}Create, ${pascalName}Update } from '../types';`);
+
+  if (ctx.hasValidation) {
+    code.line(`import { validate${pascalName}, validate${pascalName}Update } from '../middleware/validate';`);
+  }
+
+  if (ctx.cursorPaginated) {
+    const queryHelpers = backend === 'pglite' ? 'buildCursorWhere, buildCursorOrderBy' : 'isCursorAscending, buildCursorFilter';
+    code.line(`import { getCursorSortKeys, decodeCursor, parseOrderBy, toCursorPage, ${queryHelpers}, InvalidCursorError, InvalidOrderByError } from '../cursor';`);
+  }
+
+  code.line();
+  code.multiDocComment([
+    `${pascalName} routes`,
+    `Mount with: app.route('/${pluralName}', ${pluralName}Route)`,
+  ]);
+  code.line(`export const ${pluralName}Route = new Hono<AppEnv>()`);
+  code.indent();
+
+  const routes = [generateListRoute, generateGetRoute, generateCreateRoute, generateUpdateRoute, generateDeleteRoute];
+  if (schema.softDelete) {
+    routes.push(generateRestoreRoute);
+  }
+  routes.forEach((generateRoute, i) => {
+    if (i > 0) code.line();
+    generateRoute(code, ctx, i === routes.length - 1 ? '});' : '})');
+  });
+
+  code.dedent();
+  code.line();
+
+  return code.toString();
+}
+
+function generateListRoute(code: CodeBuilder, ctx: HonoRouteContext, closer: string): void {
+  const { schema, backend } = ctx;
+  const { pascalName, pluralName, tableName } = schema;
+
+  code.multiDocComment([`GET /${pluralName}`, `List all ${pluralName}`]);
+  code.block(".get('/', async (c) => {", () => {
+    if (schema.softDelete) {
+      generateDeletedScope(code, (param) => `c.req.query('${param}')`);
+    }
+
+    if (ctx.cursorPaginated) {
+      code.line(`const limit = parseInt(c.req.query('limit') || '${getDefaultLimit(schema)}', 10);`);
+      code.line("const orderBy = c.req.query('orderBy');");
+      code.line("const cursorParam = c.req.query('cursor');");
+      code.line();
+      code.block('try {', () => {
+        code.line('const keys = getCursorSortKeys(parseOrderBy(orderBy));');
+        code.line('const cursor = cursorParam ? decodeCursor(cursorParam) : undefined;');
+        code.line();
+        generateCursorListQuery(code, schema, backend as 'supabase' | 'pglite', [
+          'return c.json({ error: error.message }, 500);',
+        ]);
+        code.line();
+        code.line('return c.json({');
+        code.line('  data: page.items,');
+        code.line(`  meta: { ${backend === 'supabase' ? 'total, ' : ''}limit, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },`);
+        code.line('}, 200);');
+      }, '} catch (error) {');
+      code.indent();
+      code.block('if (error instanceof InvalidCursorError || error instanceof InvalidOrderByError) {', () => {
+        code.line('return c.json({ error: error.message }, 400);');
+      });
+      code.line('throw error;');
+      code.dedent();
+      code.line('}');
+      return;
+    }
+
+    code.line("const limit = parseInt(c.req.query('limit') || '20', 10);");
+    code.line("const offset = parseInt(c.req.query('offset') || '0', 10);");
+    code.line();
+
+    if (backend === 'supabase' && schema.softDelete) {
+      code.line(`let query = supabase.from('${tableName}').select('*', { count: 'exact' });`);
+      generateSupabaseDeletedFilter(code);
+      code.line('const { data, error, count } = await query.range(offset, offset + limit - 1);');
+      code.line();
+    } else if (backend === 'supabase') {
+      code.line('const { data, error, count } = await supabase');
+      code.line(`  .from('${tableName}')`);
+      code.line("  .select('*', { count: 'exact' })");
+      code.line('  .range(offset, offset + limit - 1);');
+      code.line();
+    }
+
+    if (backend === 'supabase') {
+      code.block('if (error) {', () => {
+        code.line('return c.json({ error: error.message }, 500);');
+      });
+      code.line();
+      code.line(`return c.json({ data: data as ${pascalName}[], meta: { total: count ?? 0, limit, offset } }, 200);`);
+    } else if (backend === 'firebase') {
+      const collection = schema.softDelete ? firestoreScopedCollection(`db.collection('${schema.tableName}')`) : `db.collection('${tableName}')`;
+      code.line(`const snapshot = await ${collection}.limit(limit).offset(offset).get();`);
+      code.line(`const data = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as ${pascalName}[];`);
+      code.line();
+      code.line('return c.json({ data, meta: { limit, offset } }, 200);');
+    } else if (backend === 'pglite') {
+      if (schema.softDelete) {
+        generateSqlDeletedFilter(code);
+      }
+      code.line(`const result = await db.query<${pascalName}>(`);
+      if (schema.softDelete) {
+        code.line(`  \`SELECT * FROM ${tableName} WHERE \${deletedFilter} LIMIT $1 OFFSET $2\`,`);
+      } else {
+        code.line(`  'SELECT * FROM ${tableName} LIMIT $1 OFFSET $2',`);
+      }
+      code.line('  [limit, offset]');
+      code.line(');');
+      code.line();
+      code.line('return c.json({ data: result.rows, meta: { limit, offset } }, 200);');
+    } else {
+      const scopeOptions = schema.softDelete ? `, ${FETCH_SCOPE_OPTIONS}` : '';
+      code.line(`const response = await api.${pluralName}.list({ limit, offset${scopeOptions} });`);
+      code.line('return c.json(response, 200);');
+    }
+  }, closer);
+}
+
+function generateGetRoute(code: CodeBuilder, ctx: HonoRouteContext, closer: string): void {
+  const { schema, backend } = ctx;
+  const { pascalName, pluralName, singularName, tableName } = schema;
+
+  code.multiDocComment([`GET /${pluralName}/:id`, `Get a single ${singularName} by ID`]);
+  code.block(".get('/:id', async (c) => {", () => {
+    code.line("const id = c.req.param('id');");
+    if (schema.softDelete) {
+      generateDeletedScope(code, (param) => `c.req.query('${param}')`);
+      if (backend === 'pglite') {
+        generateSqlDeletedFilter(code);
+      }
+    }
+    code.line();
+
+    if (backend === 'supabase') {
+      if (schema.softDelete) {
+        code.line(`let query = supabase.from('${tableName}').select('*').eq('id', id);`);
+        generateSupabaseDeletedFilter(code);
+        code.line('const { data, error } = await query.single();');
+      } else {
+        code.line(`const { data, error } = await supabase.from('${tableName}').select('*').eq('id', id).single();`);
+      }
+      code.line();
+      generateSupabaseErrorCheck(code);
+      code.line(`return c.json(data as ${pascalName}, 200);`);
+    } else if (backend === 'firebase') {
+      code.line(`const doc = await db.collection('${tableName}').doc(id).get();`);
+      code.line();
+      let found = '!doc.exists';
+      if (schema.softDelete) {
+        code.line('const deletedAt = doc.data()?.deletedAt ?? null;');
+        code.line("const inScope = deletedScope === 'all' || (deletedScope === 'deleted') === (deletedAt !== null);");
+        found = '!doc.exists || !inScope';
+      }
+      code.block(`if (${found}) {`, () => {
+        code.line("return c.json({ error: 'Not found' }, 404);");
+      });
+      code.line();
+      code.line(`return c.json({ id: doc.id, ...doc.data() } as ${pascalName}, 200);`);
+    } else if (backend === 'pglite') {
+      const query = schema.softDelete
+        ? `\`SELECT * FROM ${tableName} WHERE id = $1 AND \${deletedFilter}\``
+        : `'SELECT * FROM ${tableName} WHERE id = $1'`;
+      code.line(`const result = await db.query<${pascalName}>(${query}, [id]);`);
+      code.line();
+      generatePgliteNotFound(code);
+      code.line('return c.json(result.rows[0], 200);');
+    } else {
+      code.line(`const data = await api.${pluralName}.get(id${schema.softDelete ? `, { ${FETCH_SCOPE_OPTIONS} }` : ''});`);
+      code.line('return c.json(data, 200);');
+    }
+  }, closer);
+}
+
+function generateCreateRoute(code: CodeBuilder, ctx: HonoRouteContext, closer: string): void {
+  const { schema, backend } = ctx;
+  const { pascalName, pluralName, singularName, tableName } = schema;
+
+  code.multiDocComment([`POST /${pluralName}`, `Create a new ${singularName}`]);
+  code.block(".post('/', async (c) => {", () => {
+    code.line(`const body = await c.req.json<${pascalName}Create>();`);
+    code.line();
+
+    if (ctx.hasValidation) {
+      code.line(`const validation = validate${pascalName}(body);`);
+      code.block('if (!validation.valid) {', () => {
+        code.line('return c.json({ errors: validation.errors }, 400);');
+      });
+      code.line();
+    }
+
+    if (backend === 'supabase') {
+      code.line(`const { data, error } = await supabase.from('${tableName}').insert(body).select().single();`);
+      code.line();
+      code.block('if (error) {', () => {
+        code.line('return c.json({ error: error.message }, 500);');
+      });
+      code.line();
+      code.line(`return c.json(data as ${pascalName}, 201);`);
+    } else if (backend === 'firebase') {
+      code.line(`const docRef = await db.collection('${tableName}').add({`);
+      code.line('  ...body,');
+      code.line('  createdAt: new Date().toISOString(),');
+      code.line('  updatedAt: new Date().toISOString(),');
+      code.line('});');
+      code.line('const doc = await docRef.get();');
+      code.line();
+      code.line(`return c.json({ id: doc.id, ...doc.data() } as ${pascalName}, 201);`);
+    } else if (backend === 'pglite') {
+      const insertFields = getWritableColumns(schema);
+      const placeholders = insertFields.map((_, i) => `$${i + 1}`).join(', ');
+      const values = insertFields.map((f) => `body.${f}`).join(', ');
+
+      code.line(`const result = await db.query<${pascalName}>(`);
+      code.line(`  'INSERT INTO ${tableName} (${insertFields.join(', ')}) VALUES (${placeholders}) RETURNING *',`);
+      code.line(`  [${values}]`);
+      code.line(');');
+      code.line();
+      code.line('return c.json(result.rows[0], 201);');
+    } else {
+      code.line(`const data = await api.${pluralName}.create(body);`);
+      code.line('return c.json(data, 201);');
+    }
+  }, closer);
+}
+
+function generateUpdateRoute(code: CodeBuilder, ctx: HonoRouteContext, closer: string): void {
+  const { schema, backend } = ctx;
+  const { pascalName, pluralName, singularName, tableName } = schema;
+
+  code.multiDocComment([`PUT /${pluralName}/:id`, `Update a ${singularName}`]);
+  code.block(".put('/:id', async (c) => {", () => {
+    code.line("const id = c.req.param('id');");
+    code.line(`const body = await c.req.json<${pascalName}Update>();`);
+    code.line();
+
+    if (ctx.hasValidation) {
+      code.line(`const validation = validate${pascalName}Update(body);`);
+      code.block('if (!validation.valid) {', () => {
+        code.line('return c.json({ errors: validation.errors }, 400);');
+      });
+      code.line();
+    }
+
+    if (backend === 'supabase') {
+      const liveOnly = schema.softDelete ? ".is('deletedAt', null)" : '';
+      code.line(`const { data, error } = await supabase.from('${tableName}').update(body).eq('id', id)${liveOnly}.select().single();`);
+      code.line();
+      generateSupabaseErrorCheck(code);
+      code.line(`return c.json(data as ${pascalName}, 200);`);
+    } else if (backend === 'firebase') {
+      code.line(`const docRef = db.collection('${tableName}').doc(id);`);
+      code.line('const doc = await docRef.get();');
+      code.line();
+      code.block(schema.softDelete ? 'if (!doc.exists || doc.data()?.deletedAt != null) {' : 'if (!doc.exists) {', () => {
+        code.line("return c.json({ error: 'Not found' }, 404);");
+      });
+      code.line();
+      code.line('await docRef.update({ ...body, updatedAt: new Date().toISOString() });');
+      code.line('const updated = await docRef.get();');
+      code.line();
+      code.line(`return c.json({ id: updated.id, ...updated.data() } as ${pascalName}, 200);`);
+    } else if (backend === 'pglite') {
+      // Column names are interpolated into SQL, so only known columns are accepted
+      const columns = getWritableColumns(schema).map((f) => `'${f}'`).join(', ');
+      code.line(`const COLUMNS = new Set([${columns}]);`);
+      code.line('const entries = Object.entries(body).filter(([key, value]) => COLUMNS.has(key) && value !== undefined);');
+      code.block('if (entries.length === 0) {', () => {
+        code.line("return c.json({ error: 'No fields to update' }, 400);");
+      });
+      code.line();
+      code.line("const setClauses = entries.map(([key], i) => `${key} = $${i + 1}`).join(', ');");
+      code.line('const values = entries.map(([, val]) => val);');
+      code.line(`const result = await db.query<${pascalName}>(`);
+      const liveOnly = schema.softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
+      code.line(`  \`UPDATE ${tableName} SET \${setClauses} WHERE id = $\${values.length + 1}${liveOnly} RETURNING *\`,`);
+      code.line('  [...values, id]');
+      code.line(');');
+      code.line();
+      generatePgliteNotFound(code);
+      code.line('return c.json(result.rows[0], 200);');
+    } else {
+      code.line(`const data = await api.${pluralName}.update(id, body);`);
+      code.line('return c.json(data, 200);');
+    }
+  }, closer);
+}
+
+function generateDeleteRoute(code: CodeBuilder, ctx: HonoRouteContext, closer: string): void {
+  const { schema, backend } = ctx;
+  const { pluralName, singularName, tableName } = schema;
+
+  if (schema.softDelete) {
+    generateSoftDeleteRoute(code, ctx, closer);
+    return;
+  }
+
+  code.multiDocComment([`DELETE /${pluralName}/:id`, `Delete a ${singularName}`]);
+  code.block(".delete('/:id', async (c) => {", () => {
+    code.line("const id = c.req.param('id');");
+    code.line();
+
+    if (backend === 'supabase') {
+      code.line(`const { error } = await supabase.from('${tableName}').delete().eq('id', id);`);
+      code.line();
+      code.block('if (error) {', () => {
+        code.line('return c.json({ error: error.message }, 500);');
+      });
+    } else if (backend === 'firebase') {
+      code.line(`await db.collection('${tableName}').doc(id).delete();`);
+    } else if (backend === 'pglite') {
+      code.line(`await db.query('DELETE FROM ${tableName} WHERE id = $1', [id]);`);
+    } else {
+      code.line(`await api.${pluralName}.delete(id);`);
+    }
+    code.line();
+    code.line('return c.body(null, 204);');
+  }, closer);
+}
+
+/**
+ * DELETE for soft-delete entities: sets `deletedAt`, or removes the row
+ * with `?purge=true`
+ */
+function generateSoftDeleteRoute(code: CodeBuilder, ctx: HonoRouteContext, closer: string): void {
+  const { schema, backend } = ctx;
+  const { pluralName, singularName, tableName } = schema;
+
+  code.multiDocComment([`DELETE /${pluralName}/:id`, `Soft delete a ${singularName}, or remove it for good with ?purge=true`]);
+  code.block(".delete('/:id', async (c) => {", () => {
+    code.line("const id = c.req.param('id');");
+    code.line("const purge = c.req.query('purge') === 'true';");
+    code.line();
+
+    if (backend === 'supabase') {
+      code.line(`const table = supabase.from('${tableName}');`);
+      code.line('const { error } = purge');
+      code.line("  ? await table.delete().eq('id', id)");
+      code.line("  : await table.update({ deletedAt: new Date().toISOString() }).eq('id', id).is('deletedAt', null);");
+      code.line();
+      code.block('if (error) {', () => {
+        code.line('return c.json({ error: error.message }, 500);');
+      });
+    } else if (backend === 'firebase') {
+      code.line(`const docRef = db.collection('${tableName}').doc(id);`);
+      code.line("await (purge ? docRef.delete() : docRef.update({ deletedAt: new Date().toISOString() }));");
+    } else if (backend === 'pglite') {
+      code.line('await db.query(');
+      code.line('  purge');
+      code.line(`    ? 'DELETE FROM ${tableName} WHERE id = $1'`);
+      code.line(`    : 'UPDATE ${tableName} SET "deletedAt" = NOW() WHERE id = $1 AND ${LIVE_ROWS_SQL}',`);
+      code.line('  [id]');
+      code.line(');');
+    } else {
+      code.line(`await (purge ? api.${pluralName}.purge(id) : api.${pluralName}.delete(id));`);
+    }
+    code.line();
+    code.line('return c.body(null, 204);');
+  }, closer);
+}
+
+function generateRestoreRoute(code: CodeBuilder, ctx: HonoRouteContext, closer: string): void {
+  const { schema, backend } = ctx;
+  const { pascalName, pluralName, singularName, tableName } = schema;
+
+  code.multiDocComment([`POST /${pluralName}/:id/restore`, `Restore a soft-deleted ${singularName}`]);
+  code.block(".post('/:id/restore', async (c) => {", () => {
+    code.line("const id = c.req.param('id');");
+    code.line();
+
+    if (backend === 'supabase') {
+      code.line('const { data, error } = await supabase');
+      code.line(`  .from('${tableName}')`);
+      code.line('  .update({ deletedAt: null })');
+      code.line("  .eq('id', id)");
+      code.line("  .not('deletedAt', 'is', null)");
+      code.line('  .select()');
+      code.line('  .single();');
+      code.line();
+      generateSupabaseErrorCheck(code);
+      code.line(`return c.json(data as ${pascalName}, 200);`);
+    } else if (backend === 'firebase') {
+      code.line(`const docRef = db.collection('${tableName}').doc(id);`);
+      code.line('const doc = await docRef.get();');
+      code.line();
+      code.block('if (!doc.exists || doc.data()?.deletedAt == null) {', () => {
+        code.line("return c.json({ error: 'Not found' }, 404);");
+      });
+      code.line();
+      code.line('await docRef.update({ deletedAt: null });');
+      code.line('const restored = await docRef.get();');
+      code.line();
+      code.line(`return c.json({ id: restored.id, ...restored.data() } as ${pascalName}, 200);`);
+    } else if (backend === 'pglite') {
+      code.line(`const result = await db.query<${pascalName}>(`);
+      code.line(`  'UPDATE ${tableName} SET "deletedAt" = NULL WHERE id = $1 AND ${DELETED_ROWS_SQL} RETURNING *',`);
+      code.line('  [id]');
+      code.line(');');
+      code.line();
+      generatePgliteNotFound(code);
+      code.line('return c.json(result.rows[0], 200);');
+    } else {
+      code.line(`const data = await api.${pluralName}.restore(id);`);
+      code.line('return c.json(data, 200);');
+    }
+  }, closer);
+}
+
+/**
+ * Columns accepted in insert/update bodies
+ */
+function getWritableColumns(schema: AnalyzedSchema): string[] {
+  return schema.fields
+    .filter((f) => !f.readOnly && f.name !== 'id' && !f.isComputed && f.type !== 'relation')
+    .map((f) => f.name);
+}
+
+function generateSupabaseErrorCheck(code: CodeBuilder): void {
+  code.block('if (error) {', () => {
+    code.block("if (error.code === 'PGRST116') {", () => {
+      code.line("return c.json({ error: 'Not found' }, 404);");
+    });
+    code.line('return c.json({ error: error.message }, 500);');
+  });
+  code.line();
+}
+
+function generatePgliteNotFound(code: CodeBuilder): void {
+  code.block('if (result.rows.length === 0) {', () => {
+    code.line("return c.json({ error: 'Not found' }, 404);");
+  });
+  code.line();
+}
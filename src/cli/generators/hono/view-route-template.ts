@@ -0,0 +1,79 @@
+/**
+ * Hono View Route Template
+ *
+ * Generates a Hono sub-router serving every view defined via defineView().
+ *
+ * @module cli/generators/hono/view-route-template
+ * @category CLI
+ */
+
+import type { AnalyzedView, GenerationTarget, SchemockConfig } from '../../types';
+import { getViewQueryParams, isViewBackend } from '../shared/views';
+import { toHonoEndpointPath } from './endpoint-route-template';
+
+/**
+ * Generate routes/views.ts with one GET route per view
+ */
+export function generateHonoViewRouteFile(
+  views: AnalyzedView[],
+  target: GenerationTarget,
+  config: SchemockConfig
+): string {
+  const backend = target.backend || 'supabase';
+  const supported = isViewBackend(backend);
+  const apiPrefix = config.apiPrefix || '/api';
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '// Views defined with defineView()',
+    '',
+    "import { Hono } from 'hono';",
+    "import type { AppEnv } from '../env';",
+  ];
+
+  if (supported) {
+    const resolvers = views.map((view) => `resolve${view.pascalName}View`);
+    lines.push(`import { ${resolvers.join(', ')} } from '../views';`);
+  }
+
+  lines.push('');
+  lines.push('export const viewsRoute = new Hono<AppEnv>()');
+
+  views.forEach((view, index) => {
+    const isLast = index === views.length - 1;
+    const routePath = toHonoEndpointPath(view.endpoint, apiPrefix);
+
+    lines.push('  /**');
+    lines.push(`   * GET ${view.endpoint}`);
+    lines.push('   */');
+    lines.push(`  .get('${routePath}', async (c) => {`);
+
+    if (supported) {
+      lines.push(`    const view = await resolve${view.pascalName}View({`);
+      for (const param of view.pathParams) {
+        lines.push(`      ${param}: c.req.param('${param}'),`);
+      }
+      for (const param of getViewQueryParams(view)) {
+        lines.push(`      ${param}: c.req.query('${param}') ?? '',`);
+      }
+      lines.push('    });');
+      lines.push('');
+      if (view.root) {
+        lines.push('    if (!view) {');
+        lines.push(`      return c.json({ error: '${view.root.pascalName} not found' }, 404);`);
+        lines.push('    }');
+        lines.push('');
+      }
+      lines.push('    return c.json(view, 200);');
+    } else {
+      lines.push(`    // TODO: Resolve the view with the ${backend} backend`);
+      lines.push(`    return c.json({ error: 'Not implemented: GET ${view.endpoint}' }, 501);`);
+    }
+
+    lines.push(isLast ? '  });' : '  })');
+  });
+
+  lines.push('');
+
+  return lines.join('\n');
+}
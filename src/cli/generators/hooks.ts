@@ -5,37 +5,109 @@
  * @category CLI
  */
 
-import type { AnalyzedSchema } from '../types';
+import type { AnalyzedSchema, AnalyzedView } from '../types';
 import { CodeBuilder } from '../utils/code-builder';
 import { toPascalCase } from '../utils/pluralize';
+import { isCursorPaginated, hasCursorPagination } from './shared/cursor';
+import { hasVersioning } from './shared/versioning';
+import { getLinkRelations, linkTypeName } from './shared/links';
+
+/**
+ * Adapters whose generated clients expose `subscribe()`
+ */
+export const REALTIME_ADAPTERS = ['mock', 'pglite', 'supabase'];
+
+/**
+ * Options for hooks generation
+ */
+export interface HooksGeneratorOptions {
+  /** Generate use<Entity>Subscription hooks (the client must support subscribe) */
+  realtime?: boolean;
+  /** Views to generate use<View>View hooks for (fetched through ./views) */
+  views?: AnalyzedView[];
+}
 
 /**
  * Generate React Query hooks for all entities
  *
  * @param schemas - Analyzed schemas
+ * @param options - Generator options
  * @returns Generated TypeScript code
  */
-export function generateHooks(schemas: AnalyzedSchema[]): string {
+export function generateHooks(schemas: AnalyzedSchema[], options: HooksGeneratorOptions = {}): string {
   const code = new CodeBuilder();
+  const realtime = options.realtime ?? false;
+  const views = options.views ?? [];
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
-  code.line("import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';");
-  code.line("import { useMemo } from 'react';");
+  const reactQueryImports = hasCursorPagination(schemas)
+    ? 'useQuery, useInfiniteQuery, useMutation, useQueryClient'
+    : 'useQuery, useMutation, useQueryClient';
+  code.line(`import { ${reactQueryImports} } from '@tanstack/react-query';`);
+  if (realtime) {
+    code.line("import type { QueryClient } from '@tanstack/react-query';");
+    code.line("import { useEffect, useMemo, useRef } from 'react';");
+  } else {
+    code.line("import { useMemo } from 'react';");
+  }
   code.line("import { useSchemockClient } from './provider';");
+  if (views.length > 0) {
+    code.line("import { views } from './views';");
+  }
   code.line("import type * as Types from './types';");
   code.line();
 
   // Add stable query key helper to prevent unnecessary refetches
   generateStableKeyHelper(code);
+  if (realtime) {
+    generateCachePatchHelper(code);
+  }
+  if (hasVersioning(schemas)) {
+    generateConflictHelper(code);
+  }
 
   for (const schema of schemas) {
     if (schema.isJunctionTable) continue;
     generateEntityHooks(code, schema);
+    generateLinkHooks(code, schema, schemas);
+    if (realtime) {
+      generateSubscriptionHook(code, schema);
+    }
+  }
+
+  if (views.length > 0) {
+    generateViewHooks(code, views);
   }
 
   return code.toString();
 }
 
+/**
+ * Generate use<View>View hooks for views defined with defineView()
+ */
+function generateViewHooks(code: CodeBuilder, views: AnalyzedView[]): void {
+  code.comment('=============================================================================');
+  code.comment('View Hooks');
+  code.comment('=============================================================================');
+  code.line();
+
+  for (const view of views) {
+    code.docComment(`Fetch the ${view.name} view (GET ${view.endpoint})`);
+    code.block(
+      `export function use${view.pascalName}View(params: Types.${view.pascalName}ViewParams, options?: { enabled?: boolean }) {`,
+      () => {
+        code.line(`const queryKey = useStableQueryKey('views', '${view.name}', params);`);
+        code.block('return useQuery({', () => {
+          code.line('queryKey,');
+          code.line(`queryFn: () => views.${view.camelName}(params),`);
+          code.line('enabled: options?.enabled ?? true,');
+        }, '});');
+      }
+    );
+    code.line();
+  }
+}
+
 /**
  * Generate helper function for creating stable query keys
  *
@@ -95,12 +167,129 @@ function generateStableKeyHelper(code: CodeBuilder): void {
   code.line();
 }
 
+/**
+ * Generate the helper that applies change events to cached queries
+ *
+ * Updates are merged into cached lists, pages and single items so the UI
+ * reflects them immediately; lists are then refetched in the background
+ * because a change can move a record in or out of a filtered list.
+ */
+function generateCachePatchHelper(code: CodeBuilder): void {
+  code.comment('=============================================================================');
+  code.comment('Realtime Cache Updates');
+  code.comment('=============================================================================');
+  code.line();
+
+  code.line('type CachedRecord = { id: string };');
+  code.line();
+
+  code.docComment('Merge or remove a changed record in a cached list, page or single item response');
+  code.block('function patchCachedData(old: unknown, event: Types.ChangeEvent<CachedRecord>): unknown {', () => {
+    code.line("if (!old || typeof old !== 'object') return old;");
+    code.block("if ('pages' in old && Array.isArray(old.pages)) {", () => {
+      code.line('return { ...old, pages: old.pages.map((page: unknown) => patchCachedData(page, event)) };');
+    });
+    code.line("if (!('data' in old)) return old;");
+    code.line();
+    code.line('const { data } = old;');
+    code.line('const id = event.record.id;');
+    code.block('if (Array.isArray(data)) {', () => {
+      code.line("const next = event.type === 'delete'");
+      code.line('  ? data.filter((item: CachedRecord) => item.id !== id)');
+      code.line('  : data.map((item: CachedRecord) => (item.id === id ? { ...item, ...event.record } : item));');
+      code.line('return { ...old, data: next };');
+    });
+    code.block("if (event.type !== 'delete' && (data as CachedRecord | null)?.id === id) {", () => {
+      code.comment('Spread over the cached item to keep included relations');
+      code.line('return { ...old, data: { ...(data as CachedRecord), ...event.record } };');
+    });
+    code.line('return old;');
+  });
+  code.line();
+
+  code.multiDocComment([
+    'Apply a change event to every cached query of an entity.',
+    '',
+    '@param queryClient - The React Query client',
+    '@param baseKey - The entity query key (e.g., "users")',
+    '@param event - The change event',
+  ]);
+  code.block('function applyChange(queryClient: QueryClient, baseKey: string, event: Types.ChangeEvent<CachedRecord>): void {', () => {
+    code.block("if (event.type === 'delete') {", () => {
+      code.line('queryClient.removeQueries({ queryKey: [baseKey, event.record.id] });');
+    });
+    code.block("if (event.type !== 'insert') {", () => {
+      code.line('queryClient.setQueriesData({ queryKey: [baseKey] }, (old: unknown) => patchCachedData(old, event));');
+    });
+    code.comment('Single item keys are [baseKey, id, ...]; everything else is a list');
+    code.line('queryClient.invalidateQueries({');
+    code.line('  queryKey: [baseKey],');
+    code.line("  predicate: (query) => typeof query.queryKey[1] !== 'string' || query.queryKey[1] === 'infinite',");
+    code.line('});');
+  });
+  code.line();
+}
+
+/**
+ * Generate the type guard for version conflicts. Checked structurally so it
+ * matches the ConflictError of whichever client the provider was given.
+ */
+function generateConflictHelper(code: CodeBuilder): void {
+  code.docComment('Check if an update failed because the record changed since it was read (HTTP 409)');
+  code.block('function isConflict<T>(error: unknown): error is Error & { status: 409; current: T } {', () => {
+    code.line("return error instanceof Error && (error as { status?: number }).status === 409 && 'current' in error;");
+  });
+  code.line();
+}
+
+/**
+ * Generate the realtime subscription hook for a single entity
+ */
+function generateSubscriptionHook(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName, pluralName } = schema;
+
+  code.multiDocComment([
+    `Keep cached ${pluralName} queries up to date with changes made elsewhere`,
+    '(other tabs, other clients, or writes outside React Query).',
+    '',
+    '@param options.where - Only react to changes of matching records',
+    '@param options.onChange - Called for every delivered change',
+  ]);
+  code.block(`export function use${pascalName}Subscription(options?: {`, () => {
+    code.line(`where?: Types.${pascalName}Filter;`);
+    code.line('enabled?: boolean;');
+    code.line(`onChange?: (event: Types.ChangeEvent<Types.${pascalName}>) => void;`);
+  }, '}) {');
+  code.indent();
+  code.line('const api = useSchemockClient();');
+  code.line('const queryClient = useQueryClient();');
+  code.line('const enabled = options?.enabled ?? true;');
+  code.line('const where = options?.where;');
+  code.line('const whereKey = stableKey(where);');
+  code.line('const onChange = useRef(options?.onChange);');
+  code.line('onChange.current = options?.onChange;');
+  code.line();
+  code.block('useEffect(() => {', () => {
+    code.line('if (!enabled) return;');
+    code.block(`return api.${name}.subscribe(where ?? {}, (event) => {`, () => {
+      code.line(`applyChange(queryClient, '${pluralName}', event);`);
+      code.line('onChange.current?.(event);');
+    }, '});');
+    code.comment('whereKey stands in for where, which is usually a new object on every render');
+    code.line('// eslint-disable-next-line react-hooks/exhaustive-deps');
+  }, '}, [api, queryClient, enabled, whereKey]);');
+  code.dedent();
+  code.line('}');
+  code.line();
+}
+
 /**
  * Generate hooks for a single entity
  */
 function generateEntityHooks(code: CodeBuilder, schema: AnalyzedSchema): void {
   const { name, pascalName, pluralName, pascalPluralName, relations } = schema;
   const hasRelations = relations.length > 0;
+  const cursorPaginated = isCursorPaginated(schema);
 
   code.comment(`==================== ${pascalName} Hooks ====================`);
   code.line();
@@ -114,7 +303,7 @@ function generateEntityHooks(code: CodeBuilder, schema: AnalyzedSchema): void {
     }
     code.line("orderBy?: Record<string, 'asc' | 'desc'>;");
     code.line('limit?: number;');
-    code.line('offset?: number;');
+    code.line(cursorPaginated ? 'cursor?: string;' : 'offset?: number;');
     code.line('enabled?: boolean;');
   }, '}) {');
   code.indent();
@@ -130,6 +319,34 @@ function generateEntityHooks(code: CodeBuilder, schema: AnalyzedSchema): void {
   code.line('}');
   code.line();
 
+  // useInfiniteEntities (cursor pagination)
+  if (cursorPaginated) {
+    code.docComment(`Fetch pages of ${pluralName} by cursor (for infinite scrolling)`);
+    code.block(`export function useInfinite${pascalPluralName}(options?: {`, () => {
+      code.line(`where?: Types.${pascalName}Filter;`);
+      if (hasRelations) {
+        code.line(`include?: Types.${pascalName}Include[];`);
+      }
+      code.line("orderBy?: Record<string, 'asc' | 'desc'>;");
+      code.line('limit?: number;');
+      code.line('enabled?: boolean;');
+    }, '}) {');
+    code.indent();
+    code.line('const api = useSchemockClient();');
+    code.line(`const queryKey = useStableQueryKey('${pluralName}', 'infinite', options);`);
+    code.block('return useInfiniteQuery({', () => {
+      code.line('queryKey,');
+      code.line(`queryFn: ({ pageParam }) => api.${name}.list({ ...options, cursor: pageParam }),`);
+      code.line('initialPageParam: undefined as string | undefined,');
+      code.line('getNextPageParam: (lastPage) => lastPage.meta.nextCursor,');
+      code.line('getPreviousPageParam: (firstPage) => firstPage.meta.prevCursor,');
+      code.line('enabled: options?.enabled ?? true,');
+    }, '});');
+    code.dedent();
+    code.line('}');
+    code.line();
+  }
+
   // useEntity (single)
   code.docComment(`Fetch single ${pascalName} by ID`);
   code.block(`export function use${pascalName}(id: string | undefined, options?: {`, () => {
@@ -183,19 +400,23 @@ function generateEntityHooks(code: CodeBuilder, schema: AnalyzedSchema): void {
   code.line();
 
   // useUpdateEntity
-  code.docComment(`Update an existing ${pascalName}`);
-  code.block(`export function useUpdate${pascalName}() {`, () => {
-    code.line('const api = useSchemockClient();');
-    code.line('const queryClient = useQueryClient();');
-    code.block('return useMutation({', () => {
-      code.line(`mutationFn: ({ id, data }: { id: string; data: Types.${pascalName}Update }) =>`);
-      code.line(`  api.${name}.update(id, data),`);
-      code.block('onSuccess: (_, { id }) => {', () => {
-        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
-        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}', id] });`);
-      }, '},');
-    }, '});');
-  });
+  if (schema.versioned) {
+    generateVersionedUpdateHook(code, schema);
+  } else {
+    code.docComment(`Update an existing ${pascalName}`);
+    code.block(`export function useUpdate${pascalName}() {`, () => {
+      code.line('const api = useSchemockClient();');
+      code.line('const queryClient = useQueryClient();');
+      code.block('return useMutation({', () => {
+        code.line(`mutationFn: ({ id, data }: { id: string; data: Types.${pascalName}Update }) =>`);
+        code.line(`  api.${name}.update(id, data),`);
+        code.block('onSuccess: (_, { id }) => {', () => {
+          code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+          code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}', id] });`);
+        }, '},');
+      }, '});');
+    });
+  }
   code.line();
 
   // useDeleteEntity
@@ -212,3 +433,70 @@ function generateEntityHooks(code: CodeBuilder, schema: AnalyzedSchema): void {
   });
   code.line();
 }
+
+/**
+ * Generate useUpdate<Entity><Relation> hooks for many-to-many relations.
+ * Linking changes both sides, so the target lists are refetched as well.
+ */
+function generateLinkHooks(code: CodeBuilder, schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): void {
+  const { name, pascalName, pluralName } = schema;
+
+  for (const link of getLinkRelations(schema, allSchemas)) {
+    const relation = link.relation.name;
+    const target = allSchemas.find((s) => s.name === link.relation.target);
+
+    code.docComment(`Connect, disconnect or replace the ${relation} of a ${pascalName}`);
+    code.block(`export function useUpdate${pascalName}${toPascalCase(relation)}() {`, () => {
+      code.line('const api = useSchemockClient();');
+      code.line('const queryClient = useQueryClient();');
+      code.block('return useMutation({', () => {
+        code.line(`mutationFn: ({ id, links }: { id: string; links: Types.LinkWrite<Types.${linkTypeName(schema, link)}> }) =>`);
+        code.line(`  api.${name}.update(id, { ${relation}: links }),`);
+        code.block('onSuccess: (_, { id }) => {', () => {
+          code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+          code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}', id] });`);
+          if (target && target.pluralName !== pluralName) {
+            code.line(`queryClient.invalidateQueries({ queryKey: ['${target.pluralName}'] });`);
+          }
+        }, '},');
+      }, '});');
+    });
+    code.line();
+  }
+}
+
+/**
+ * Generate useUpdate<Entity> for a versioned entity. The mutation takes the
+ * version the edit was based on and exposes the stored record as `conflict`
+ * when that version is stale.
+ */
+function generateVersionedUpdateHook(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName, pluralName } = schema;
+
+  code.multiDocComment([
+    `Update an existing ${pascalName}.`,
+    '',
+    'Pass the version the edit was based on as `expectedVersion`. If someone',
+    'saved in between, the mutation fails and `conflict` holds their version.',
+  ]);
+  code.block(`export function useUpdate${pascalName}() {`, () => {
+    code.line('const api = useSchemockClient();');
+    code.line('const queryClient = useQueryClient();');
+    code.block('const mutation = useMutation({', () => {
+      code.line(`mutationFn: ({ id, data, expectedVersion }: { id: string; data: Types.${pascalName}Update; expectedVersion?: number }) =>`);
+      code.line(`  api.${name}.update(id, data, { expectedVersion }),`);
+      code.block('onSuccess: (_, { id }) => {', () => {
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}', id] });`);
+      }, '},');
+      code.block('onError: (error, { id }) => {', () => {
+        code.comment('Refetch so the form can be rebased on the stored version');
+        code.block('if (isConflict(error)) {', () => {
+          code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}', id] });`);
+        });
+      }, '},');
+    }, '});');
+    code.line(`const conflict = isConflict<Types.${pascalName}>(mutation.error) ? mutation.error.current : undefined;`);
+    code.line('return { ...mutation, conflict };');
+  });
+}
@@ -25,14 +25,16 @@ export function generateMockAdapter(schemas: AnalyzedSchema[]): string {
   code.line();
 
   // Imports
-  code.line("import { MockAdapter } from 'schemock/adapters';");
-  code.line("import type { StorageDriver, QueryOptions, QueryMeta } from 'schemock/adapters';");
+  code.line("import { MockAdapter, isInScope, nextVersion } from 'schemock/adapters';");
+  code.line(
+    "import type { StorageDriver, QueryOptions, QueryMeta, SoftDeleteScope, UpdateOptions, Snapshot, ImportSnapshotOptions, SnapshotImportResult } from 'schemock/adapters';"
+  );
   code.line("import { createContextMiddleware } from 'schemock/middleware';");
   if (schemasWithRLS) {
     code.line("import { createRLSMiddleware } from 'schemock/middleware';");
   }
   code.line("import type { EntitySchema } from 'schemock/schema';");
-  code.line("import { db, schemas } from './db';");
+  code.line("import { db, schemas, exportSnapshot, importSnapshot } from './db';");
   if (schemasWithRLS) {
     code.line("import { rlsFilters } from './rls';");
   }
@@ -92,10 +94,13 @@ function generateStorageDriverWrapper(code: CodeBuilder, schemas: AnalyzedSchema
     code.line();
 
     // findOne
-    code.block('async findOne<T>(entity: string, where: Record<string, unknown>): Promise<T | null> {', () => {
+    code.block('async findOne<T>(entity: string, where: Record<string, unknown>, scope?: SoftDeleteScope): Promise<T | null> {', () => {
       code.line('const entityDb = (db as Record<string, any>)[entity];');
       code.line("if (!entityDb) throw new Error(`Entity '${entity}' not found`);");
-      code.line('return entityDb.findFirst({ where }) as T | null;');
+      code.line('const schema = this.schemaFor(entity);');
+      code.line('if (!schema?.softDelete) return entityDb.findFirst({ where }) as T | null;');
+      code.line('const rows = entityDb.findMany({ where }) as Record<string, unknown>[];');
+      code.line('return (rows.find((row) => isInScope(row, schema, scope)) ?? null) as T | null;');
     });
     code.line();
 
@@ -107,7 +112,17 @@ function generateStorageDriverWrapper(code: CodeBuilder, schemas: AnalyzedSchema
       code.line('const query: Record<string, unknown> = {};');
       code.line('if (options?.where) query.where = options.where;');
       code.line('if (options?.orderBy) query.orderBy = options.orderBy;');
-      code.line('if (options?.limit) query.take = options.limit;');
+      code.line();
+      code.comment('Soft delete: filter by scope before paginating');
+      code.line('const schema = this.schemaFor(entity);');
+      code.block('if (schema?.softDelete) {', () => {
+        code.line('const rows = (entityDb.findMany(query) as Record<string, unknown>[]).filter((row) => isInScope(row, schema, options));');
+        code.line('const offset = options?.offset ?? 0;');
+        code.line('const data = (options?.limit ? rows.slice(offset, offset + options.limit) : rows.slice(offset)) as T[];');
+        code.line('return { data, meta: { total: rows.length, hasMore: offset + data.length < rows.length } };');
+      });
+      code.line();
+      code.line('if (options?.limit) query.take = options.limit;'),
       code.line('if (options?.offset) query.skip = options.offset;');
       code.line();
       code.line('const results = entityDb.findMany(query) as T[];');
@@ -119,21 +134,50 @@ function generateStorageDriverWrapper(code: CodeBuilder, schemas: AnalyzedSchema
     code.line();
 
     // update
-    code.block('async update<T>(entity: string, where: Record<string, unknown>, data: Record<string, unknown>): Promise<T | null> {', () => {
+    code.block(
+      'async update<T>(entity: string, where: Record<string, unknown>, data: Record<string, unknown>, options?: UpdateOptions): Promise<T | null> {',
+      () => {
+        code.line('const entityDb = (db as Record<string, any>)[entity];');
+        code.line("if (!entityDb) throw new Error(`Entity '${entity}' not found`);");
+        code.line('const schema = this.schemaFor(entity);');
+        code.block('if (schema?.softDelete || schema?.versioned) {', () => {
+          code.comment('Soft-deleted records are never updated; versioned ones are checked and bumped');
+          code.line('const existing = await this.findOne<Record<string, unknown>>(entity, where);');
+          code.line('if (!existing) return null;');
+          code.line('data = { ...data, ...nextVersion(entity, schema, existing, options?.expectedVersion) };');
+        });
+        code.block('try {', () => {
+          code.line('return entityDb.update({ where, data }) as T;');
+        }, '} catch {');
+        code.indent();
+        code.line('return null;');
+        code.dedent();
+        code.line('}');
+      }
+    );
+    code.line();
+
+    // delete - soft-delete entities only get deletedAt set
+    code.block('async delete(entity: string, where: Record<string, unknown>): Promise<boolean> {', () => {
+      code.block('if (this.schemaFor(entity)?.softDelete) {', () => {
+        code.line('return (await this.update(entity, where, { deletedAt: new Date() })) !== null;');
+      });
+      code.line('return this.purge(entity, where);');
+    });
+    code.line();
+
+    // restore
+    code.block('async restore<T>(entity: string, where: Record<string, unknown>): Promise<T | null> {', () => {
       code.line('const entityDb = (db as Record<string, any>)[entity];');
       code.line("if (!entityDb) throw new Error(`Entity '${entity}' not found`);");
-      code.block('try {', () => {
-        code.line('return entityDb.update({ where, data }) as T;');
-      }, '} catch {');
-      code.indent();
-      code.line('return null;');
-      code.dedent();
-      code.line('}');
+      code.line('const deleted = await this.findOne<Record<string, unknown>>(entity, where, { onlyDeleted: true });');
+      code.line('if (!deleted) return null;');
+      code.line('return entityDb.update({ where: { id: { equals: deleted.id } }, data: { deletedAt: null } }) as T;');
     });
     code.line();
 
-    // delete
-    code.block('async delete(entity: string, where: Record<string, unknown>): Promise<boolean> {', () => {
+    // purge - hard delete
+    code.block('async purge(entity: string, where: Record<string, unknown>): Promise<boolean> {', () => {
       code.line('const entityDb = (db as Record<string, any>)[entity];');
       code.line("if (!entityDb) throw new Error(`Entity '${entity}' not found`);");
       code.block('try {', () => {
@@ -147,10 +191,49 @@ function generateStorageDriverWrapper(code: CodeBuilder, schemas: AnalyzedSchema
     });
     code.line();
 
+    // createMany
+    code.block('async createMany<T>(entity: string, data: Record<string, unknown>[]): Promise<T[]> {', () => {
+      code.line('const entityDb = (db as Record<string, any>)[entity];');
+      code.line("if (!entityDb) throw new Error(`Entity '${entity}' not found`);");
+      code.line('return entityDb.createMany(data) as T[];');
+    });
+    code.line();
+
+    // updateMany
+    code.block('async updateMany<T>(entity: string, where: Record<string, unknown>, data: Record<string, unknown>): Promise<T[]> {', () => {
+      code.line('const entityDb = (db as Record<string, any>)[entity];');
+      code.line("if (!entityDb) throw new Error(`Entity '${entity}' not found`);");
+      code.line('return (entityDb.updateMany({ where, data }) ?? []) as T[];');
+    });
+    code.line();
+
+    // deleteMany
+    code.block('async deleteMany(entity: string, where: Record<string, unknown>): Promise<number> {', () => {
+      code.line('const entityDb = (db as Record<string, any>)[entity];');
+      code.line("if (!entityDb) throw new Error(`Entity '${entity}' not found`);");
+      code.block('if (this.schemaFor(entity)?.softDelete) {', () => {
+        code.line('const { data } = await this.findMany<Record<string, unknown>>(entity, { where });');
+        code.line('const deletedAt = new Date();');
+        code.line('data.forEach((row) => entityDb.update({ where: { id: { equals: row.id } }, data: { deletedAt } }));');
+        code.line('return data.length;');
+      });
+      code.line('return (entityDb.deleteMany({ where }) ?? []).length;');
+    });
+    code.line();
+
+    // transaction - delegates to the snapshot-based db.$transaction
+    code.block('async transaction<T>(fn: (tx: StorageDriver) => Promise<T>): Promise<T> {', () => {
+      code.line('return db.$transaction(() => fn(this));');
+    });
+    code.line();
+
     // count
-    code.block('async count(entity: string, where?: Record<string, unknown>): Promise<number> {', () => {
+    code.block('async count(entity: string, where?: Record<string, unknown>, scope?: SoftDeleteScope): Promise<number> {', () => {
       code.line('const entityDb = (db as Record<string, any>)[entity];');
       code.line("if (!entityDb) throw new Error(`Entity '${entity}' not found`);");
+      code.block('if (this.schemaFor(entity)?.softDelete) {', () => {
+        code.line('return (await this.findMany(entity, { where, ...scope })).meta.total;');
+      });
       code.line('return entityDb.count(where ? { where } : undefined);');
     });
     code.line();
@@ -163,6 +246,16 @@ function generateStorageDriverWrapper(code: CodeBuilder, schemas: AnalyzedSchema
     });
     code.line();
 
+    // snapshots - delegate to db.ts, which knows the entity models
+    code.block('async exportSnapshot(): Promise<Snapshot> {', () => {
+      code.line('return exportSnapshot();');
+    });
+    code.line();
+    code.block('async importSnapshot(snapshot: Snapshot | string, options?: ImportSnapshotOptions): Promise<SnapshotImportResult> {', () => {
+      code.line('return importSnapshot(snapshot, options);');
+    });
+    code.line();
+
     // includeRelations
     code.block('async includeRelations<T>(', () => {
       code.line('entity: string,');
@@ -207,6 +300,12 @@ function generateStorageDriverWrapper(code: CodeBuilder, schemas: AnalyzedSchema
     });
     code.line();
 
+    code.comment('Schema lookup for soft delete handling');
+    code.block('private schemaFor(entity: string): EntitySchema | undefined {', () => {
+      code.line('return schemas.find((s) => s.name === entity);');
+    });
+    code.line();
+
     // loadRelation helper
     generateLoadRelationHelper(code);
   }, '}');
@@ -230,6 +329,9 @@ function generateLoadRelationHelper(code: CodeBuilder): void {
 
   code.line('const targetDb = (db as Record<string, any>)[relation.target];');
   code.line("if (!targetDb) return relation.type === 'hasMany' ? [] : null;");
+  code.comment('Soft-deleted related records are left out');
+  code.line('const targetSchema = this.schemaFor(relation.target);');
+  code.line('const live = (rows: Record<string, unknown>[]) => rows.filter((row) => isInScope(row, targetSchema));');
   code.line();
 
   code.block('switch (relation.type) {', () => {
@@ -237,17 +339,17 @@ function generateLoadRelationHelper(code: CodeBuilder): void {
       code.line('const foreignKey = relation.foreignKey || `${relation.target}Id`;');
       code.line('const fkValue = record[foreignKey];');
       code.line('if (!fkValue) return null;');
-      code.line('return targetDb.findFirst({ where: { id: { equals: fkValue } } });');
+      code.line('return live(targetDb.findMany({ where: { id: { equals: fkValue } } }))[0] ?? null;');
     }, '}');
     code.line();
     code.block("case 'hasOne': {", () => {
       code.line("const foreignKey = relation.foreignKey || 'id';");
-      code.line('return targetDb.findFirst({ where: { [foreignKey]: { equals: record.id } } });');
+      code.line('return live(targetDb.findMany({ where: { [foreignKey]: { equals: record.id } } }))[0] ?? null;');
     }, '}');
     code.line();
     code.block("case 'hasMany': {", () => {
       code.line("const foreignKey = relation.foreignKey || 'id';");
-      code.line('return targetDb.findMany({ where: { [foreignKey]: { equals: record.id } } });');
+      code.line('return live(targetDb.findMany({ where: { [foreignKey]: { equals: record.id } } }));');
     }, '}');
     code.line();
     code.line('default:');
@@ -11,6 +11,7 @@
 import type { AnalyzedSchema, AnalyzedRelation } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
 import { toSafePropertyName } from '../../utils/pluralize';
+import { hasVersioning, generateConflictError, UPDATE_OPTIONS_TYPE } from '../shared/versioning';
 
 /**
  * Generate API client that uses the adapter
@@ -27,12 +28,18 @@ export function generateMockClientWithAdapter(schemas: AnalyzedSchema[]): string
 
   // Imports
   code.line("import { adapter } from './adapter';");
+  if (hasVersioning(schemas)) {
+    code.line("import { ConflictError as VersionConflict } from 'schemock/adapters';");
+  }
   code.line("import type * as Types from './types';");
   code.line();
 
   // Generate interceptor types and ApiError
   generateInterceptorTypes(code);
   code.line();
+  if (hasVersioning(schemas)) {
+    generateConflictError(code);
+  }
 
   // Generate ApiClient type
   generateApiType(code, schemas);
@@ -121,15 +128,35 @@ function generateApiType(code: CodeBuilder, schemas: AnalyzedSchema[]): void {
 
       code.block(`${name}: {`, () => {
         code.line(`list: (options?: Types.QueryOptions<Types.${pascalName}Filter, ${includeType}> & WithHeaders) => Promise<Types.ListResponse<Types.${pascalName}>>;`);
-        code.line(`get: (id: string, options?: { include?: ${includeType}[] } & WithHeaders) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+        code.line(`get: (id: string, options?: ${getOptionsType(schema, includeType)} & WithHeaders) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line(`create: (input: Types.${pascalName}Create, options?: WithHeaders) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
-        code.line(`update: (id: string, input: Types.${pascalName}Update, options?: WithHeaders) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+        code.line(`update: (id: string, input: Types.${pascalName}Update, options?: ${getUpdateOptionsType(schema)}) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line('delete: (id: string, options?: WithHeaders) => Promise<void>;');
+        if (schema.softDelete) {
+          code.line(`restore: (id: string, options?: WithHeaders) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+          code.line('purge: (id: string, options?: WithHeaders) => Promise<void>;');
+        }
       }, '};');
     }
   }, '}');
 }
 
+/**
+ * Options type accepted by a generated update()
+ */
+function getUpdateOptionsType(schema: AnalyzedSchema): string {
+  return schema.versioned ? `${UPDATE_OPTIONS_TYPE} & WithHeaders` : 'WithHeaders';
+}
+
+/**
+ * Options type accepted by a generated get()
+ */
+function getOptionsType(schema: AnalyzedSchema, includeType: string): string {
+  return schema.softDelete
+    ? `{ include?: ${includeType}[]; withDeleted?: boolean; onlyDeleted?: boolean }`
+    : `{ include?: ${includeType}[] }`;
+}
+
 /**
  * Generate the createClient factory function
  */
@@ -235,6 +262,10 @@ function generateEntityApiMethods(code: CodeBuilder, schema: AnalyzedSchema): vo
       code.line('  limit: options?.limit,');
       code.line('  offset: options?.offset,');
       code.line('  include: options?.include,');
+      if (schema.softDelete) {
+        code.line('  withDeleted: options?.withDeleted,');
+        code.line('  onlyDeleted: options?.onlyDeleted,');
+      }
       code.line('  headers,');
       code.line('});');
       code.line('return {');
@@ -256,7 +287,7 @@ function generateEntityApiMethods(code: CodeBuilder, schema: AnalyzedSchema): vo
     code.line();
 
     // GET
-    code.line(`get: async (id: string, options?: { include?: ${includeType}[] } & WithHeaders) => {`);
+    code.line(`get: async (id: string, options?: ${getOptionsType(schema, includeType)} & WithHeaders) => {`);
     code.indent();
     code.block('try {', () => {
       code.line(`const headers = await buildContext('${name}.get', options?.headers);`);
@@ -264,6 +295,10 @@ function generateEntityApiMethods(code: CodeBuilder, schema: AnalyzedSchema): vo
       code.line(`  entity: '${name}',`);
       code.line('  params: { id: { equals: id } },');
       code.line('  include: options?.include,');
+      if (schema.softDelete) {
+        code.line('  withDeleted: options?.withDeleted,');
+        code.line('  onlyDeleted: options?.onlyDeleted,');
+      }
       code.line('  headers,');
       code.line('});');
       code.block('if (!result.data) {', () => {
@@ -300,7 +335,7 @@ function generateEntityApiMethods(code: CodeBuilder, schema: AnalyzedSchema): vo
     code.line();
 
     // UPDATE
-    code.line(`update: async (id: string, input: Types.${pascalName}Update, options?: WithHeaders) => {`);
+    code.line(`update: async (id: string, input: Types.${pascalName}Update, options?: ${getUpdateOptionsType(schema)}) => {`);
     code.indent();
     code.block('try {', () => {
       code.line(`const headers = await buildContext('${name}.update', options?.headers);`);
@@ -308,8 +343,18 @@ function generateEntityApiMethods(code: CodeBuilder, schema: AnalyzedSchema): vo
       code.line(`  entity: '${name}',`);
       code.line('  params: { id: { equals: id } },');
       code.line('  data: input,');
+      if (schema.versioned) {
+        code.line('  expectedVersion: options?.expectedVersion,');
+      }
       code.line('  headers,');
       code.line('});');
+      if (schema.versioned) {
+        code.block('if (result.error instanceof VersionConflict) {', () => {
+          code.line(
+            `throw createConflictError('${pascalName}', result.error.current as unknown as Types.${pascalName}, result.error.expectedVersion);`
+          );
+        });
+      }
       code.block('if (!result.data) {', () => {
         code.line(`throw new ApiError('${pascalName} not found', 404, 'NOT_FOUND', '${name}.update');`);
       });
@@ -340,6 +385,60 @@ function generateEntityApiMethods(code: CodeBuilder, schema: AnalyzedSchema): vo
     code.line('}');
     code.dedent();
     code.line('},');
+
+    if (schema.softDelete) {
+      code.line();
+      generateRestoreAndPurge(code, schema);
+    }
   }, '},');
   code.line();
 }
+
+/**
+ * Generate restore and purge methods for a soft-delete entity
+ */
+function generateRestoreAndPurge(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName } = schema;
+
+  // RESTORE
+  code.line('restore: async (id: string, options?: WithHeaders) => {');
+  code.indent();
+  code.block('try {', () => {
+    code.line(`const headers = await buildContext('${name}.restore', options?.headers);`);
+    code.line(`const result = await adapter.restore<Types.${pascalName}>({`);
+    code.line(`  entity: '${name}',`);
+    code.line('  params: { id: { equals: id } },');
+    code.line('  headers,');
+    code.line('});');
+    code.block('if (!result.data) {', () => {
+      code.line(`throw new ApiError('${pascalName} not found', 404, 'NOT_FOUND', '${name}.restore');`);
+    });
+    code.line('return { data: result.data };');
+  }, '} catch (error) {');
+  code.indent();
+  code.line(`return handleError(error, '${name}.restore');`);
+  code.dedent();
+  code.line('}');
+  code.dedent();
+  code.line('},');
+  code.line();
+
+  // PURGE
+  code.line('purge: async (id: string, options?: WithHeaders) => {');
+  code.indent();
+  code.block('try {', () => {
+    code.line(`const headers = await buildContext('${name}.purge', options?.headers);`);
+    code.line('await adapter.delete({');
+    code.line(`  entity: '${name}',`);
+    code.line('  params: { id: { equals: id } },');
+    code.line('  purge: true,');
+    code.line('  headers,');
+    code.line('});');
+  }, '} catch (error) {');
+  code.indent();
+  code.line(`return handleError(error, '${name}.purge');`);
+  code.dedent();
+  code.line('}');
+  code.dedent();
+  code.line('},');
+}
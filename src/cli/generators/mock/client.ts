@@ -17,6 +17,36 @@ import {
   hasAnyRLS,
   getRLSImports,
 } from '../shared/rls';
+import {
+  isCursorPaginated,
+  hasCursorPagination,
+  getDefaultLimit,
+  generateCursorCodec,
+  generateCursorPaginator,
+} from '../shared/cursor';
+import { generateFilterCommon, generateFilterMatcher } from '../shared/filter';
+import { hasSoftDelete, generateDeletedScopeMatcher } from '../shared/soft-delete';
+import { hasVersioning, generateConflictError, updateOptionsParam } from '../shared/versioning';
+import {
+  getLinkRelations,
+  hasLinkRelations,
+  generateLinkCommon,
+  generateMockLinkWriter,
+  generateJunctionConsts,
+  generateLinkNamespaceTypes,
+  generateLinkNamespaces,
+  linkWriteLines,
+  type LinkRelation,
+} from '../shared/links';
+import {
+  getNestedRelations,
+  hasNestedRelations,
+  generateNestedCommon,
+  generateMockNestedWriter,
+  nestedParentLines,
+  nestedChildLines,
+  type NestedRelation,
+} from '../shared/nested';
 
 /**
  * Generate API client for mock adapter
@@ -30,7 +60,7 @@ export function generateMockClient(schemas: AnalyzedSchema[]): string {
   const allBypassConditions = collectBypassConditions(schemas);
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
-  code.line("import { db } from './db';");
+  code.line("import { db, subscribeToChanges } from './db';");
   code.line("import type * as Types from './types';");
 
   // Add RLS context imports (browser-compatible)
@@ -45,6 +75,10 @@ export function generateMockClient(schemas: AnalyzedSchema[]): string {
   // Always generate the not found error helper (needed for all entities)
   generateNotFoundError(code);
 
+  if (hasVersioning(schemas)) {
+    generateConflictError(code);
+  }
+
   // RLS support
   if (schemasWithRLS) {
     generateRLSError(code);
@@ -64,10 +98,38 @@ export function generateMockClient(schemas: AnalyzedSchema[]): string {
   generateFilterHelper(code);
   code.line();
 
+  if (hasSoftDelete(schemas)) {
+    generateDeletedScopeMatcher(code);
+    code.line();
+  }
+
+  // Cursor pagination helpers
+  if (hasCursorPagination(schemas)) {
+    generateCursorCodec(code);
+    generateCursorPaginator(code);
+  }
+
   // Helper for parsing JSONB fields (stored as strings in @mswjs/data)
   generateParseRowHelper(code);
   code.line();
 
+  // Many-to-many link writes
+  if (hasLinkRelations(schemas)) {
+    generateLinkCommon(code);
+    generateMockLinkWriter(code);
+    for (const schema of schemas) {
+      if (schema.isJunctionTable) continue;
+      generateJunctionConsts(code, schema, schemas);
+    }
+    code.line();
+  }
+
+  // Nested relation writes (run inside db.$transaction)
+  if (hasNestedRelations(schemas)) {
+    generateNestedCommon(code);
+    generateMockNestedWriter(code);
+  }
+
   // Generate the API type
   generateApiType(code, schemas);
   code.line();
@@ -114,15 +176,30 @@ function generateApiType(code: CodeBuilder, schemas: AnalyzedSchema[]): void {
 
       code.block(`${name}: {`, () => {
         code.line(`list: (options?: Types.QueryOptions<Types.${pascalName}Filter, ${includeType}>) => Promise<Types.ListResponse<Types.${pascalName}>>;`);
-        code.line(`get: (id: string, options?: { include?: ${includeType}[] }) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+        code.line(`get: (id: string, options?: ${getOptionsType(schema, includeType)}) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line(`create: (input: Types.${pascalName}Create) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
-        code.line(`update: (id: string, input: Types.${pascalName}Update) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+        code.line(`update: (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line('delete: (id: string) => Promise<void>;');
+        if (schema.softDelete) {
+          code.line(`restore: (id: string) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+          code.line('purge: (id: string) => Promise<void>;');
+        }
+        code.line(`subscribe: (where: Types.${pascalName}Filter, callback: (event: Types.ChangeEvent<Types.${pascalName}>) => void) => () => void;`);
+        generateLinkNamespaceTypes(code, schema, schemas);
       }, '};');
     }
   }, '}');
 }
 
+/**
+ * Options type accepted by a generated get()
+ */
+function getOptionsType(schema: AnalyzedSchema, includeType: string): string {
+  return schema.softDelete
+    ? `{ include?: ${includeType}[]; withDeleted?: boolean; onlyDeleted?: boolean }`
+    : `{ include?: ${includeType}[] }`;
+}
+
 /**
  * Generate the createClient factory function
  */
@@ -203,8 +280,8 @@ function generateCreateClientFactory(
     code.comment('Enhance error if not already ApiError');
     code.line('const error = err instanceof ApiError ? err : new ApiError(');
     code.line('  err instanceof Error ? err.message : String(err),');
-    code.line('  500,');
-    code.line('  "INTERNAL_ERROR",');
+    code.line('  err instanceof InvalidFilterError ? err.status : 500,');
+    code.line('  err instanceof InvalidFilterError ? err.code : "INTERNAL_ERROR",');
     code.line('  operation');
     code.line(');');
     code.line();
@@ -222,12 +299,14 @@ function generateCreateClientFactory(
     code.line();
 
     code.comment('Build API client with all entity methods');
-    code.block('return {', () => {
+    code.block('const apiClient: ApiClient = {', () => {
       for (const schema of schemas) {
         if (schema.isJunctionTable) continue;
         generateEntityApiFactory(code, schema, schemas, hasRLS);
       }
     }, '};');
+    code.line();
+    code.line('return apiClient;');
   });
 }
 
@@ -301,33 +380,10 @@ function generateEntityRLSFilters(code: CodeBuilder, schema: AnalyzedSchema, has
  * Generate filter helper function
  */
 function generateFilterHelper(code: CodeBuilder): void {
+  generateFilterCommon(code);
+  generateFilterMatcher(code);
   code.block('function applyFilter<T>(items: T[], filter: Record<string, unknown>): T[] {', () => {
-    code.block('return items.filter(item => {', () => {
-      code.block('for (const [key, value] of Object.entries(filter)) {', () => {
-        code.line('const itemValue = (item as Record<string, unknown>)[key];');
-        code.block('if (typeof value === "object" && value !== null) {', () => {
-          code.line('const f = value as Record<string, unknown>;');
-          code.line("if ('equals' in f && itemValue !== f.equals) return false;");
-          code.line("if ('not' in f && itemValue === f.not) return false;");
-          code.line("if ('in' in f && !(f.in as unknown[]).includes(itemValue)) return false;");
-          code.line("if ('notIn' in f && (f.notIn as unknown[]).includes(itemValue)) return false;");
-          code.line("if ('contains' in f && !String(itemValue).includes(f.contains as string)) return false;");
-          code.line("if ('startsWith' in f && !String(itemValue).startsWith(f.startsWith as string)) return false;");
-          code.line("if ('endsWith' in f && !String(itemValue).endsWith(f.endsWith as string)) return false;");
-          code.line("if ('gt' in f && (itemValue as number) <= (f.gt as number)) return false;");
-          code.line("if ('lt' in f && (itemValue as number) >= (f.lt as number)) return false;");
-          code.line("if ('gte' in f && (itemValue as number) < (f.gte as number)) return false;");
-          code.line("if ('lte' in f && (itemValue as number) > (f.lte as number)) return false;");
-          code.line("if ('isNull' in f && f.isNull && itemValue !== null && itemValue !== undefined) return false;");
-          code.line("if ('isNull' in f && !f.isNull && (itemValue === null || itemValue === undefined)) return false;");
-        }, '} else {');
-        code.indent();
-        code.line('if (itemValue !== value) return false;');
-        code.dedent();
-        code.line('}');
-      });
-      code.line('return true;');
-    }, '});');
+    code.line('return items.filter(item => matchesWhere(item as Record<string, unknown>, filter));');
   });
 }
 
@@ -364,6 +420,10 @@ function generateEntityApiFactory(
   const { name, pascalName, relations, fields, rls } = schema;
   const hasRelations = relations.length > 0;
   const includeType = hasRelations ? `Types.${pascalName}Include` : 'never';
+  const cursorPaginated = isCursorPaginated(schema);
+  const links = getLinkRelations(schema, allSchemas);
+  const nested = getNestedRelations(schema, allSchemas);
+  const writeNames = [...nested.map((n) => n.relation.name), ...links.map((l) => l.relation.name)];
 
   // Find JSON/Object fields that need parsing
   const jsonFields = fields.filter((f) => f.isArray || f.isObject).map((f) => f.name);
@@ -386,6 +446,11 @@ function generateEntityApiFactory(
     }
     code.line();
 
+    if (schema.softDelete) {
+      code.line('items = items.filter(item => inDeletedScope(item as unknown as Record<string, unknown>, options));');
+      code.line();
+    }
+
     // Apply RLS filter for select
     if (hasRLS) {
       code.comment('Apply RLS filter');
@@ -402,24 +467,32 @@ function generateEntityApiFactory(
     code.line('const total = items.length;');
     code.line();
 
-    // Sort
-    code.block('if (options?.orderBy) {', () => {
-      code.line('const [field, dir] = Object.entries(options.orderBy)[0];');
-      code.block('items = [...items].sort((a, b) => {', () => {
-        code.line('const aVal = (a as Record<string, unknown>)[field] as string | number | Date;');
-        code.line('const bVal = (b as Record<string, unknown>)[field] as string | number | Date;');
-        code.line("if (aVal < bVal) return dir === 'asc' ? -1 : 1;");
-        code.line("if (aVal > bVal) return dir === 'asc' ? 1 : -1;");
-        code.line('return 0;');
-      }, '});');
-    });
-    code.line();
+    if (cursorPaginated) {
+      // Sort and paginate by cursor (keyset over orderBy fields plus id)
+      code.line(`const limit = options?.limit ?? ${getDefaultLimit(schema)};`);
+      code.line('const page = paginateByCursor(items, getCursorSortKeys(options?.orderBy), options?.cursor, limit);');
+      code.line('items = page.items;');
+      code.line();
+    } else {
+      // Sort
+      code.block('if (options?.orderBy) {', () => {
+        code.line('const [field, dir] = Object.entries(options.orderBy)[0];');
+        code.block('items = [...items].sort((a, b) => {', () => {
+          code.line('const aVal = (a as Record<string, unknown>)[field] as string | number | Date;');
+          code.line('const bVal = (b as Record<string, unknown>)[field] as string | number | Date;');
+          code.line("if (aVal < bVal) return dir === 'asc' ? -1 : 1;");
+          code.line("if (aVal > bVal) return dir === 'asc' ? 1 : -1;");
+          code.line('return 0;');
+        }, '});');
+      });
+      code.line();
 
-    // Paginate
-    code.line('const limit = options?.limit ?? 20;');
-    code.line('const offset = options?.offset ?? 0;');
-    code.line('items = items.slice(offset, offset + limit);');
-    code.line();
+      // Paginate
+      code.line('const limit = options?.limit ?? 20;');
+      code.line('const offset = options?.offset ?? 0;');
+      code.line('items = items.slice(offset, offset + limit);');
+      code.line();
+    }
 
     // Load relations
     if (hasRelations) {
@@ -429,7 +502,7 @@ function generateEntityApiFactory(
 
           for (const rel of relations) {
             code.block(`if (options.include!.includes('${rel.name}')) {`, () => {
-              generateRelationLoad(code, schema, rel);
+              generateRelationLoad(code, rel, allSchemas);
             });
           }
 
@@ -439,19 +512,30 @@ function generateEntityApiFactory(
       code.line();
     }
 
-    code.line('return { data: items, meta: { total, limit, offset, hasMore: offset + limit < total } };');
+    if (cursorPaginated) {
+      code.line('return {');
+      code.line('  data: items,');
+      code.line('  meta: { total, limit, offset: 0, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },');
+      code.line('};');
+    } else {
+      code.line('return { data: items, meta: { total, limit, offset, hasMore: offset + limit < total } };');
+    };
     code.dedent();
     code.line('}),');
     code.dedent();
     code.line();
 
     // GET
-    code.line(`get: (id: string, options?: { include?: ${includeType}[] }) =>`);
+    code.line(`get: (id: string, options?: ${getOptionsType(schema, includeType)}) =>`);
     code.indent();
     code.line(`executeRequest('${name}.get', (ctx) => {`);
     code.indent();
     code.line(`const rawItem = db.${name}.findFirst({ where: { id: { equals: id } } }) as unknown as Record<string, unknown> | null;`);
-    code.line(`if (!rawItem) throw createNotFoundError('${pascalName}', id);`);
+    if (schema.softDelete) {
+      code.line(`if (!rawItem || !inDeletedScope(rawItem, options)) throw createNotFoundError('${pascalName}', id);`);
+    } else {
+      code.line(`if (!rawItem) throw createNotFoundError('${pascalName}', id);`);
+    }
     if (hasJsonFields) {
       code.line(`const item = parseRow<Types.${pascalName}>(rawItem, [${jsonFieldsStr}]);`);
     } else {
@@ -474,7 +558,7 @@ function generateEntityApiFactory(
       code.block('if (options?.include?.length) {', () => {
         for (const rel of relations) {
           code.block(`if (options.include.includes('${rel.name}')) {`, () => {
-            generateRelationLoad(code, schema, rel);
+            generateRelationLoad(code, rel, allSchemas);
           });
         }
       });
@@ -489,41 +573,57 @@ function generateEntityApiFactory(
     code.line();
 
     // CREATE
-    generateCreateMethodFactory(code, schema, hasJsonFields, jsonFieldsStr, hasRLS);
+    generateCreateMethodFactory(code, schema, allSchemas, links, hasJsonFields, jsonFieldsStr, hasRLS);
     code.line();
 
     // UPDATE
-    code.line(`update: (id: string, input: Types.${pascalName}Update) =>`);
+    code.line(`update: (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}) =>`);
     code.indent();
-    code.line(`executeRequest('${name}.update', (ctx) => {`);
+    // Nested and link writes run in one transaction with the update
+    code.line(`executeRequest('${name}.update', (ctx) => ${writeNames.length > 0 ? 'db.$transaction(() => {' : '{'}`);
     code.indent();
 
-    // Check RLS on existing item first
-    if (hasRLS) {
-      code.comment('Check RLS before update');
-      code.line(`const existing = db.${name}.findFirst({ where: { id: { equals: id } } }) as unknown as Record<string, unknown> | null;`);
-      code.line(`if (!existing) throw createNotFoundError('${pascalName}', id);`);
-      code.block(`if (!rls${pascalName}Update(existing, ctx)) {`, () => {
-        code.line(`throw createRLSError('update', '${pascalName}');`);
-      });
+    if (writeNames.length > 0) {
+      code.line(`const { ${writeNames.join(', ')}, ...changes } = input;`);
+    }
+
+    // Check RLS on existing item first (soft-deleted items can't be updated)
+    if (hasRLS || schema.softDelete || schema.versioned || writeNames.length > 0) {
+      generateExistingCheck(code, schema, 'live');
+      if (hasRLS) {
+        code.block(`if (!rls${pascalName}Update(existing, ctx)) {`, () => {
+          code.line(`throw createRLSError('update', '${pascalName}');`);
+        });
+      }
+      if (schema.versioned) {
+        const current = hasJsonFields ? `parseRow<Types.${pascalName}>(existing, [${jsonFieldsStr}])` : `existing as Types.${pascalName}`;
+        code.block('if (options?.expectedVersion !== undefined && existing.version !== options.expectedVersion) {', () => {
+          code.line(`throw createConflictError('${pascalName}', ${current}, options.expectedVersion);`);
+        });
+      }
+      generateLinkTargetChecks(code, links);
+      code.addLines(nestedParentLines(schema, allSchemas, 'changes', nestedParentCall));
       code.line();
     }
 
+    const versionBump = schema.versioned ? ', version: (existing.version as number) + 1' : '';
     code.line(`const rawItem = db.${name}.update({`);
     code.line('  where: { id: { equals: id } },');
     code.line(`  // eslint-disable-next-line @typescript-eslint/no-explicit-any`);
-    code.line('  data: { ...input, updatedAt: new Date() } as any,');
+    code.line(`  data: { ...${writeNames.length > 0 ? 'changes' : 'input'}, updatedAt: new Date()${versionBump} } as any,`);
     code.line('}) as unknown as Record<string, unknown> | null;');
-    if (!hasRLS) {
+    if (!hasRLS && !schema.softDelete && !schema.versioned && writeNames.length === 0) {
       code.line(`if (!rawItem) throw createNotFoundError('${pascalName}', id);`);
     }
+    code.addLines(nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, 'id')));
+    generateLinkWrites(code, schema, links, 'id');
     if (hasJsonFields) {
       code.line(`return { data: parseRow<Types.${pascalName}>(rawItem!, [${jsonFieldsStr}]) };`);
     } else {
       code.line(`return { data: rawItem as Types.${pascalName} };`);
     }
     code.dedent();
-    code.line('}),');
+    code.line(writeNames.length > 0 ? '})),' : '}),');
     code.dedent();
     code.line();
 
@@ -533,35 +633,198 @@ function generateEntityApiFactory(
     code.line(`executeRequest('${name}.delete', (ctx) => {`);
     code.indent();
 
-    // Check RLS on existing item first
-    if (hasRLS) {
-      code.comment('Check RLS before delete');
-      code.line(`const existing = db.${name}.findFirst({ where: { id: { equals: id } } }) as unknown as Record<string, unknown> | null;`);
-      code.line(`if (!existing) throw createNotFoundError('${pascalName}', id);`);
-      code.block(`if (!rls${pascalName}Delete(existing, ctx)) {`, () => {
-        code.line(`throw createRLSError('delete', '${pascalName}');`);
-      });
+    if (schema.softDelete) {
+      // Soft delete: mark the live row deleted
+      generateExistingCheck(code, schema, 'live');
+      if (hasRLS) {
+        code.block(`if (!rls${pascalName}Delete(existing, ctx)) {`, () => {
+          code.line(`throw createRLSError('delete', '${pascalName}');`);
+        });
+      }
+      code.line(`// eslint-disable-next-line @typescript-eslint/no-explicit-any`);
+      code.line(`db.${name}.update({ where: { id: { equals: id } }, data: { deletedAt: new Date() } as any });`);
+      code.dedent();
+      code.line('}),');
+      code.dedent();
       code.line();
-    }
 
-    code.line(`const item = db.${name}.delete({ where: { id: { equals: id } } });`);
-    if (!hasRLS) {
-      code.line(`if (!item) throw createNotFoundError('${pascalName}', id);`);
+      generateRestoreAndPurge(code, schema, hasJsonFields, jsonFieldsStr, hasRLS);
+    } else {
+      // Check RLS on existing item first
+      if (hasRLS) {
+        code.comment('Check RLS before delete');
+        code.line(`const existing = db.${name}.findFirst({ where: { id: { equals: id } } }) as unknown as Record<string, unknown> | null;`);
+        code.line(`if (!existing) throw createNotFoundError('${pascalName}', id);`);
+        code.block(`if (!rls${pascalName}Delete(existing, ctx)) {`, () => {
+          code.line(`throw createRLSError('delete', '${pascalName}');`);
+        });
+        code.line();
+      }
+
+      code.line(`const item = db.${name}.delete({ where: { id: { equals: id } } });`);
+      if (!hasRLS) {
+        code.line(`if (!item) throw createNotFoundError('${pascalName}', id);`);
+      }
+      code.dedent();
+      code.line('}),');
+      code.dedent();
+      code.line();
     }
+
+    // SUBSCRIBE
+    code.line(`subscribe: (where: Types.${pascalName}Filter, callback: (event: Types.ChangeEvent<Types.${pascalName}>) => void) =>`);
+    code.indent();
+    code.block(`subscribeToChanges('${name}', (event) => {`, () => {
+      if (hasJsonFields) {
+        code.line(`const record = parseRow<Types.${pascalName}>(event.record, [${jsonFieldsStr}]);`);
+        code.line(`const previous = event.previous && parseRow<Types.${pascalName}>(event.previous, [${jsonFieldsStr}]);`);
+      } else {
+        code.line(`const record = event.record as unknown as Types.${pascalName};`);
+        code.line(`const previous = event.previous as unknown as Types.${pascalName} | undefined;`);
+      }
+      code.line(`const matches = (row?: Types.${pascalName}) => row !== undefined && matchesWhere(row as unknown as Record<string, unknown>, where);`);
+      code.line('if (matches(record) || matches(previous)) callback({ ...event, record, previous });');
+    }, '}),');
     code.dedent();
-    code.line('}),');
-    code.dedent();
+
+    generateLinkNamespaces(code, schema, allSchemas, 'apiClient');
   }, '},');
   code.line();
 }
 
 /**
- * Generate code to load a relation
+ * Generate the checks that every row an input links to exists
+ */
+function generateLinkTargetChecks(code: CodeBuilder, links: LinkRelation[]): void {
+  for (const { relation } of links) {
+    const targetDbName = toSafePropertyName(relation.resolvedTarget);
+    code.line(`if (${relation.name}) assertLinkTargets(db.${targetDbName} as unknown as LinkModel, '${relation.targetPascal}', ${relation.name});`);
+  }
+}
+
+/**
+ * Generate the junction writes of an input's link changes
+ *
+ * @param ownerId - Expression for the id of the entity row
+ */
+function generateLinkWrites(code: CodeBuilder, schema: AnalyzedSchema, links: LinkRelation[], ownerId: string): void {
+  code.addLines(
+    linkWriteLines(schema, links, (junction, relation) => {
+      const link = links.find((l) => l.relation.name === relation)!;
+      return `writeLinks(db.${toSafePropertyName(link.junction.name)} as unknown as LinkModel, ${junction}, ${ownerId}, ${relation})`;
+    })
+  );
+}
+
+/**
+ * writeNestedParent() expression for a belongsTo nested write
+ */
+function nestedParentCall(nested: NestedRelation): string {
+  return `writeNestedParent(${nestedModel(nested)}, '${nested.target.pascalName}', ${nested.relation.name})`;
+}
+
+/**
+ * writeNestedChildren() statement for a hasMany/hasOne nested write
+ *
+ * @param parentId - Expression for the id of the entity row
+ */
+function nestedChildCall(nested: NestedRelation, parentId: string): string {
+  const { relation, target } = nested;
+  return `writeNestedChildren(${nestedModel(nested)}, '${target.pascalName}', '${relation.foreignKey}', ${parentId}, ${relation.name})`;
+}
+
+/**
+ * The mock db model of a nested relation's target
+ */
+function nestedModel(nested: NestedRelation): string {
+  return `db.${toSafePropertyName(nested.target.name)} as unknown as NestedModel`;
+}
+
+/**
+ * Generate the lookup of the row an update, delete, restore or purge acts on
+ *
+ * @param state - Which rows qualify: live, soft-deleted or any
+ */
+function generateExistingCheck(code: CodeBuilder, schema: AnalyzedSchema, state: 'live' | 'deleted' | 'any'): void {
+  const { name, pascalName } = schema;
+  const condition = {
+    live: '!existing || existing.deletedAt != null',
+    deleted: '!existing || existing.deletedAt == null',
+    any: '!existing',
+  }[schema.softDelete ? state : 'any'];
+
+  code.line(`const existing = db.${name}.findFirst({ where: { id: { equals: id } } }) as unknown as Record<string, unknown> | null;`);
+  code.line(`if (${condition}) throw createNotFoundError('${pascalName}', id);`);
+}
+
+/**
+ * Generate restore and purge methods for a soft-delete entity
+ */
+function generateRestoreAndPurge(
+  code: CodeBuilder,
+  schema: AnalyzedSchema,
+  hasJsonFields: boolean,
+  jsonFieldsStr: string,
+  hasRLS: boolean
+): void {
+  const { name, pascalName } = schema;
+
+  // RESTORE
+  code.line('restore: (id: string) =>');
+  code.indent();
+  code.line(`executeRequest('${name}.restore', (ctx) => {`);
+  code.indent();
+  generateExistingCheck(code, schema, 'deleted');
+  if (hasRLS) {
+    code.block(`if (!rls${pascalName}Update(existing, ctx)) {`, () => {
+      code.line(`throw createRLSError('update', '${pascalName}');`);
+    });
+  }
+  code.line(`const rawItem = db.${name}.update({`);
+  code.line('  where: { id: { equals: id } },');
+  code.line(`  // eslint-disable-next-line @typescript-eslint/no-explicit-any`);
+  code.line('  data: { deletedAt: null } as any,');
+  code.line('}) as unknown as Record<string, unknown>;');
+  if (hasJsonFields) {
+    code.line(`return { data: parseRow<Types.${pascalName}>(rawItem, [${jsonFieldsStr}]) };`);
+  } else {
+    code.line(`return { data: rawItem as Types.${pascalName} };`);
+  }
+  code.dedent();
+  code.line('}),');
+  code.dedent();
+  code.line();
+
+  // PURGE (hard delete, live or soft-deleted)
+  code.line('purge: (id: string) =>');
+  code.indent();
+  code.line(`executeRequest('${name}.purge', (ctx) => {`);
+  code.indent();
+  generateExistingCheck(code, schema, 'any');
+  if (hasRLS) {
+    code.block(`if (!rls${pascalName}Delete(existing, ctx)) {`, () => {
+      code.line(`throw createRLSError('delete', '${pascalName}');`);
+    });
+  }
+  code.line(`db.${name}.delete({ where: { id: { equals: id } } });`);
+  code.dedent();
+  code.line('}),');
+  code.dedent();
+  code.line();
+}
+
+/**
+ * Generate code to load a relation (soft-deleted targets are left out)
  */
-function generateRelationLoad(code: CodeBuilder, schema: AnalyzedSchema, rel: AnalyzedRelation): void {
+function generateRelationLoad(code: CodeBuilder, rel: AnalyzedRelation, allSchemas: AnalyzedSchema[]): void {
   // Use resolvedTarget to get the actual entity name (handles aliasing like 'user' -> 'authUser')
   const targetDbName = toSafePropertyName(rel.resolvedTarget);
 
+  if (allSchemas.find((s) => s.name === rel.resolvedTarget)?.softDelete) {
+    generateLiveRelationLoad(code, rel, targetDbName);
+    return;
+  }
+
   if (rel.type === 'hasMany') {
     code.line(`result.${rel.name} = db.${targetDbName}.findMany({`);
     code.line(`  where: { ${rel.foreignKey}: { equals: item.id } }`);
@@ -588,28 +851,62 @@ function generateRelationLoad(code: CodeBuilder, schema: AnalyzedSchema, rel: An
   }
 }
 
+/**
+ * Generate code to load a relation whose target uses soft delete
+ */
+function generateLiveRelationLoad(code: CodeBuilder, rel: AnalyzedRelation, targetDbName: string): void {
+  if (rel.type === 'hasMany') {
+    code.line(`result.${rel.name} = db.${targetDbName}.findMany({`);
+    code.line(`  where: { ${rel.foreignKey}: { equals: item.id } }`);
+    code.line('}).filter(row => row.deletedAt == null);');
+  } else if (rel.type === 'hasOne') {
+    code.line(`result.${rel.name} = db.${targetDbName}.findMany({`);
+    code.line(`  where: { ${rel.foreignKey}: { equals: item.id } }`);
+    code.line('}).find(row => row.deletedAt == null) ?? null;');
+  } else if (rel.type === 'belongsTo') {
+    code.line(`result.${rel.name} = db.${targetDbName}.findMany({`);
+    code.line(`  where: { id: { equals: (item as Record<string, unknown>).${rel.localField} as string } }`);
+    code.line('}).find(row => row.deletedAt == null) ?? null;');
+  } else if (rel.type === 'manyToMany') {
+    const throughDbName = toSafePropertyName(rel.through!);
+    code.line(`const junctions = db.${throughDbName}.findMany({`);
+    code.line(`  where: { ${rel.foreignKey}: { equals: item.id } }`);
+    code.line('});');
+    code.line(`result.${rel.name} = junctions`);
+    code.line(`  .map(j => db.${targetDbName}.findFirst({`);
+    code.line(`    where: { id: { equals: (j as Record<string, unknown>).${rel.otherKey} as string } }`);
+    code.line('  }))');
+    code.line('  .filter(row => row != null && row.deletedAt == null);');
+  }
+}
+
 /**
  * Generate create method with nested relation support (factory version)
  */
 function generateCreateMethodFactory(
   code: CodeBuilder,
   schema: AnalyzedSchema,
+  allSchemas: AnalyzedSchema[],
+  links: LinkRelation[],
   hasJsonFields: boolean,
   jsonFieldsStr: string,
   hasRLS: boolean
 ): void {
-  const { name, pascalName, relations } = schema;
-  const nestedRels = relations.filter((r) => r.type === 'hasMany' || r.type === 'hasOne');
+  const { name, pascalName } = schema;
+  const nested = getNestedRelations(schema, allSchemas);
+  const writeNames = [...nested.map((n) => n.relation.name), ...links.map((l) => l.relation.name)];
 
   code.line(`create: (input: Types.${pascalName}Create) =>`);
   code.indent();
-  code.line(`executeRequest('${name}.create', (ctx) => {`);
+  // Nested and link writes run in one transaction with the insert
+  code.line(`executeRequest('${name}.create', (ctx) => ${writeNames.length > 0 ? 'db.$transaction(() => {' : '{'}`);
   code.indent();
 
-  if (nestedRels.length > 0) {
-    // Extract nested creates
-    const relNames = nestedRels.map((r) => r.name).join(', ');
-    code.line(`const { ${relNames}, ...data } = input;`);
+  if (writeNames.length > 0) {
+    // Extract nested writes and link changes
+    code.line(`const { ${writeNames.join(', ')}, ...data } = input;`);
+    generateLinkTargetChecks(code, links);
+    code.addLines(nestedParentLines(schema, allSchemas, 'data', nestedParentCall));
     code.line();
     code.line(`// eslint-disable-next-line @typescript-eslint/no-explicit-any`);
     code.line(`const rawItem = db.${name}.create(data as any) as unknown as Record<string, unknown>;`);
@@ -631,20 +928,8 @@ function generateCreateMethodFactory(
       code.line();
     }
 
-    for (const rel of nestedRels) {
-      const targetDbName = toSafePropertyName(rel.resolvedTarget);
-      code.block(`if (${rel.name}) {`, () => {
-        if (rel.type === 'hasMany') {
-          code.block(`for (const nested of ${rel.name}) {`, () => {
-            code.line(`// eslint-disable-next-line @typescript-eslint/no-explicit-any`);
-            code.line(`db.${targetDbName}.create({ ...nested, ${rel.foreignKey}: item.id } as any);`);
-          });
-        } else {
-          code.line(`// eslint-disable-next-line @typescript-eslint/no-explicit-any`);
-          code.line(`db.${targetDbName}.create({ ...${rel.name}, ${rel.foreignKey}: item.id } as any);`);
-        }
-      });
-    }
+    code.addLines(nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, 'item.id')));
+    generateLinkWrites(code, schema, links, 'item.id');
 
     code.line();
     code.line('return { data: item };');
@@ -673,6 +958,6 @@ function generateCreateMethodFactory(
   }
 
   code.dedent();
-  code.line('}),');
+  code.line(writeNames.length > 0 ? '})),' : '}),');
   code.dedent();
 }
@@ -27,6 +27,8 @@ export function generateMockDb(schemas: AnalyzedSchema[], config: MockAdapterCon
   code.line("import { factory, primaryKey, nullable } from '@mswjs/data';");
   code.line("import { faker } from '@faker-js/faker';");
   code.line("import type { EntitySchema, FieldDefinition, RelationDefinition } from 'schemock/schema';");
+  code.line("import { createSnapshot, restoreSnapshot } from 'schemock/adapters';");
+  code.line("import type { Snapshot, ImportSnapshotOptions, SnapshotImportResult } from 'schemock/adapters';");
   code.line();
 
   // Set faker seed
@@ -38,18 +40,36 @@ export function generateMockDb(schemas: AnalyzedSchema[], config: MockAdapterCon
   code.line();
 
   // Generate factory
-  code.block('export const db = factory({', () => {
+  code.block('const models = factory({', () => {
     for (const schema of schemas) {
       generateEntityFactory(code, schema);
     }
   }, '});');
   code.line();
 
+  code.comment('The @mswjs/data models plus batch writes, transactions and change events');
+  code.block('export const db = {', () => {
+    for (const entity of entityNames) {
+      code.line(`${entity}: withChanges('${entity}', withCreateMany(models.${entity})),`);
+    }
+    code.line('$transaction: transaction,');
+  }, '};');
+  code.line();
+
   code.line('export type Database = typeof db;');
   code.line();
 
+  generateBatchOperations(code, entityNames);
+  code.line();
+
+  generateChangeFeed(code);
+  code.line();
+
   // Generate EntitySchema array for adapter usage
   generateSchemaExports(code, schemas);
+  code.line();
+
+  generateSnapshotHelpers(code, schemas, persist);
 
   // Add localStorage persistence
   if (persist) {
@@ -60,6 +80,259 @@ export function generateMockDb(schemas: AnalyzedSchema[], config: MockAdapterCon
   return code.toString();
 }
 
+/**
+ * Generate createMany and the snapshot-based transaction helper
+ *
+ * @mswjs/data has no rollback, so a failed transaction deletes every record
+ * and recreates the ones captured when it started.
+ */
+function generateBatchOperations(code: CodeBuilder, entityNames: string[]): void {
+  code.comment('=== Batch Writes and Transactions ===');
+  code.line();
+
+  code.multiDocComment(['Add createMany to a model: if one record fails, none of them are kept']);
+  code.block('function withCreateMany<TModel extends { create(data?: any): any; delete(query: any): any }>(model: TModel) {', () => {
+    code.block('return Object.assign(model, {', () => {
+      code.block('createMany(records: NonNullable<Parameters<TModel[\'create\']>[0]>[]): ReturnType<TModel[\'create\']>[] {', () => {
+        code.line('const created: ReturnType<TModel[\'create\']>[] = [];');
+        code.block('try {', () => {
+          code.line('for (const record of records) created.push(model.create(record));');
+          code.line('return created;');
+        }, '} catch (error) {');
+        code.indent();
+        code.line('for (const record of created) model.delete({ where: { id: { equals: record.id } } });');
+        code.line('throw error;');
+        code.dedent();
+        code.line('}');
+      }, '},');
+    }, '});');
+  });
+  code.line();
+
+  code.multiDocComment([
+    'Run fn atomically: if it throws, every entity is restored to its state',
+    'before the call. Nested calls only roll back their own writes.',
+    '',
+    '@example',
+    'await db.$transaction(async (tx) => {',
+    '  tx.product.update({ where: { id: { equals: fromId } }, data: { stock: 4 } });',
+    '  tx.product.update({ where: { id: { equals: toId } }, data: { stock: 6 } });',
+    '});',
+  ]);
+  code.block('async function transaction<T>(fn: (tx: Database) => T | Promise<T>): Promise<T> {', () => {
+    code.block('const snapshot = {', () => {
+      for (const entity of entityNames) {
+        code.line(`${entity}: models.${entity}.getAll(),`);
+      }
+    }, '};');
+    code.comment('Hold change events until the outermost transaction commits');
+    code.line('const outerChanges = pendingChanges;');
+    code.line('const savepoint = outerChanges?.length ?? 0;');
+    code.line('const changes = outerChanges ?? [];');
+    code.line('pendingChanges = changes;');
+    code.line();
+    code.block('try {', () => {
+      code.line('const result = await fn(db);');
+      code.block('if (!outerChanges) {', () => {
+        code.line('pendingChanges = null;');
+        code.line('changes.forEach(deliverChange);');
+      });
+      code.line('return result;');
+    }, '} catch (error) {');
+    code.indent();
+    for (const entity of entityNames) {
+      code.line(`models.${entity}.deleteMany({ where: {} });`);
+      code.line(`for (const record of snapshot.${entity}) models.${entity}.create(record);`);
+    }
+    code.comment('Drop the events of the rolled back writes (and of the restore above)');
+    code.block('if (outerChanges) {', () => {
+      code.line('outerChanges.length = savepoint;');
+    }, '} else {');
+    code.indent();
+    code.line('pendingChanges = null;');
+    code.dedent();
+    code.line('}');
+    code.line('throw error;');
+    code.dedent();
+    code.line('}');
+  });
+}
+
+/**
+ * Generate the change feed behind subscribeToChanges()
+ *
+ * Every model write emits an event; writes inside $transaction are held
+ * back until it commits. The generated client filters events per query.
+ */
+function generateChangeFeed(code: CodeBuilder): void {
+  code.comment('=== Change Subscriptions ===');
+  code.line();
+
+  code.docComment('A committed write');
+  code.block('export interface DbChangeEvent {', () => {
+    code.line("type: 'insert' | 'update' | 'delete';");
+    code.line('entity: string;');
+    code.line('record: Record<string, unknown>;');
+    code.line('previous?: Record<string, unknown>;');
+  });
+  code.line();
+
+  code.block('interface ModelWrites {', () => {
+    code.line('create(data?: any): any;');
+    code.line('update(query: any): any;');
+    code.line('updateMany(query: any): any;');
+    code.line('delete(query: any): any;');
+    code.line('deleteMany(query: any): any;');
+    code.line('findFirst(query: any): any;');
+    code.line('findMany(query: any): any;');
+  });
+  code.line();
+
+  code.line('const changeListeners = new Map<string, Set<(event: DbChangeEvent) => void>>();');
+  code.line('let pendingChanges: DbChangeEvent[] | null = null;');
+  code.line('let broadcastChange: ((event: DbChangeEvent) => void) | null = null;');
+  code.line();
+
+  code.multiDocComment([
+    'Observe the writes to an entity',
+    '',
+    '@example',
+    "const stop = subscribeToChanges('user', (event) => console.log(event.type, event.record));",
+    'stop();',
+  ]);
+  code.block('export function subscribeToChanges(entity: string, listener: (event: DbChangeEvent) => void): () => void {', () => {
+    code.line('if (!changeListeners.has(entity)) changeListeners.set(entity, new Set());');
+    code.line('changeListeners.get(entity)!.add(listener);');
+    code.line('return () => changeListeners.get(entity)?.delete(listener);');
+  });
+  code.line();
+
+  code.block('function emitChange(event: DbChangeEvent): void {', () => {
+    code.line('if (pendingChanges) pendingChanges.push(event);');
+    code.line('else deliverChange(event);');
+  });
+  code.line();
+
+  code.block('function deliverChange(event: DbChangeEvent): void {', () => {
+    code.block('for (const listener of [...(changeListeners.get(event.entity) ?? [])]) {', () => {
+      code.block('try {', () => {
+        code.line('listener(event);');
+      }, '} catch (error) {');
+      code.indent();
+      code.line("console.error(`[Schemock] Change listener for ${event.entity} failed:`, error);");
+      code.dedent();
+      code.line('}');
+    });
+    code.line('broadcastChange?.(event);');
+  });
+  code.line();
+
+  code.docComment('Emit change events for every write to a model');
+  code.block('function withChanges<TModel extends ModelWrites>(entity: string, model: TModel): TModel {', () => {
+    code.line('const { create, update, updateMany, delete: remove, deleteMany } = {');
+    code.line('  create: model.create.bind(model),');
+    code.line('  update: model.update.bind(model),');
+    code.line('  updateMany: model.updateMany.bind(model),');
+    code.line('  delete: model.delete.bind(model),');
+    code.line('  deleteMany: model.deleteMany.bind(model),');
+    code.line('};');
+    code.line();
+    code.block('model.create = ((data) => {', () => {
+      code.line('const record = create(data);');
+      code.line("emitChange({ type: 'insert', entity, record });");
+      code.line('return record;');
+    }, "}) as TModel['create'];");
+    code.block('model.update = ((query) => {', () => {
+      code.line('const previous = model.findFirst({ where: query.where });');
+      code.line('const record = update(query);');
+      code.line("if (record) emitChange({ type: 'update', entity, record, previous: { ...previous } });");
+      code.line('return record;');
+    }, "}) as TModel['update'];");
+    code.block('model.updateMany = ((query) => {', () => {
+      code.line('const previous: Record<string, unknown>[] = model.findMany({ where: query.where }).map((row: any) => ({ ...row }));');
+      code.line('const records = updateMany(query);');
+      code.block('for (const record of records ?? []) {', () => {
+        code.line("emitChange({ type: 'update', entity, record, previous: previous.find((row) => row.id === record.id) });");
+      });
+      code.line('return records;');
+    }, "}) as TModel['updateMany'];");
+    code.block('model.delete = ((query) => {', () => {
+      code.line('const record = remove(query);');
+      code.line("if (record) emitChange({ type: 'delete', entity, record });");
+      code.line('return record;');
+    }, "}) as TModel['delete'];");
+    code.block('model.deleteMany = ((query) => {', () => {
+      code.line('const records = deleteMany(query);');
+      code.line("for (const record of records ?? []) emitChange({ type: 'delete', entity, record });");
+      code.line('return records;');
+    }, "}) as TModel['deleteMany'];");
+    code.line('return model;');
+  });
+}
+
+/**
+ * Generate exportSnapshot() and importSnapshot()
+ *
+ * Snapshots are keyed by entity name and carry the version of the schemas
+ * they were taken with, so `restoreSnapshot()` can migrate older ones.
+ */
+function generateSnapshotHelpers(code: CodeBuilder, schemas: AnalyzedSchema[], persist: boolean): void {
+  code.comment('=== Snapshots ===');
+  code.line();
+
+  code.multiDocComment([
+    'Export every record, including soft-deleted ones, with the version of the',
+    'schemas it was taken with',
+    '',
+    '@example',
+    "await writeFile('bug-1234.json', JSON.stringify(exportSnapshot()));",
+  ]);
+  code.block('export function exportSnapshot(): Snapshot {', () => {
+    code.block('return createSnapshot(schemas, {', () => {
+      for (const schema of schemas) {
+        code.line(`'${schema.name}': models.${toSafePropertyName(schema.name)}.getAll(),`);
+      }
+    }, '});');
+  });
+  code.line();
+
+  code.multiDocComment([
+    'Replace every record with those of a snapshot. Records are migrated to',
+    'the current schemas first; change subscribers are not notified.',
+    '',
+    '@param snapshot - Snapshot or its JSON text',
+    '@param options - Fields and entities renamed since the snapshot was taken',
+    '@returns The applied migrations and imported counts',
+    '@throws SnapshotError if the records cannot be migrated; nothing is replaced then',
+    '',
+    '@example',
+    "const { changes } = importSnapshot(await readFile('bug-1234.json', 'utf-8'));",
+  ]);
+  code.block('export function importSnapshot(snapshot: Snapshot | string, options?: ImportSnapshotOptions): SnapshotImportResult {', () => {
+    code.line('const { data, ...result } = restoreSnapshot(snapshot, schemas, options);');
+    code.line();
+    code.line('const outerChanges = pendingChanges;');
+    code.line('pendingChanges = [];');
+    code.block('try {', () => {
+      for (const schema of schemas) {
+        const model = `models.${toSafePropertyName(schema.name)}`;
+        code.line(`${model}.deleteMany({ where: {} });`);
+        code.line('// eslint-disable-next-line @typescript-eslint/no-explicit-any');
+        code.line(`for (const record of data['${schema.name}'] ?? []) ${model}.create(record as any);`);
+      }
+    }, '} finally {');
+    code.indent();
+    code.line('pendingChanges = outerChanges;');
+    code.dedent();
+    code.line('}');
+    if (persist) {
+      code.line('saveToStorage();');
+    }
+    code.line();
+    code.line('return result;');
+  });
+}
+
 /**
  * Generate localStorage persistence layer
  */
@@ -168,6 +441,8 @@ function generatePersistenceLayer(code: CodeBuilder, entityNames: string[], stor
       code.line(`const orig${entity}Create = db.${entity}.create.bind(db.${entity});`);
       code.line(`const orig${entity}Update = db.${entity}.update.bind(db.${entity});`);
       code.line(`const orig${entity}Delete = db.${entity}.delete.bind(db.${entity});`);
+      code.line(`const orig${entity}UpdateMany = db.${entity}.updateMany.bind(db.${entity});`);
+      code.line(`const orig${entity}DeleteMany = db.${entity}.deleteMany.bind(db.${entity});`);
       code.line();
       code.line(`db.${entity}.create = (data) => {`);
       code.line(`  const result = orig${entity}Create(data);`);
@@ -187,6 +462,18 @@ function generatePersistenceLayer(code: CodeBuilder, entityNames: string[], stor
       code.line('  return result;');
       code.line('};');
       code.line();
+      code.line(`db.${entity}.updateMany = (query) => {`);
+      code.line(`  const result = orig${entity}UpdateMany(query);`);
+      code.line('  scheduleSave();');
+      code.line('  return result;');
+      code.line('};');
+      code.line();
+      code.line(`db.${entity}.deleteMany = (query) => {`);
+      code.line(`  const result = orig${entity}DeleteMany(query);`);
+      code.line('  scheduleSave();');
+      code.line('  return result;');
+      code.line('};');
+      code.line();
     }
   });
   code.line();
@@ -208,10 +495,50 @@ function generatePersistenceLayer(code: CodeBuilder, entityNames: string[], stor
   }, '};');
   code.line();
 
+  // Cross-tab change events
+  code.comment('Apply the writes of other tabs and forward ours to them');
+  code.block('function listenToOtherTabs(): void {', () => {
+    code.line("if (!isLocalStorageAvailable() || typeof BroadcastChannel === 'undefined') return;");
+    code.line();
+    code.line('const channel = new BroadcastChannel(`${STORAGE_KEY}:changes`);');
+    code.line('let applyingRemote = false;');
+    code.line();
+    code.block('broadcastChange = (event) => {', () => {
+      code.line('if (!applyingRemote) channel.postMessage(event);');
+    }, '};');
+    code.line();
+    code.block('channel.onmessage = ({ data: event }: MessageEvent<DbChangeEvent>) => {', () => {
+      code.line('const model = (db as unknown as Record<string, ModelWrites | undefined>)[event.entity];');
+      code.line('if (!model) return;');
+      code.line();
+      code.line('const where = { id: { equals: event.record.id } };');
+      code.line('applyingRemote = true;');
+      code.block('try {', () => {
+        code.block("if (event.type === 'insert') {", () => {
+          code.line('if (!model.findFirst({ where })) model.create(event.record);');
+        }, "} else if (event.type === 'update') {");
+        code.indent();
+        code.line('model.update({ where, data: event.record });');
+        code.dedent();
+        code.line('} else {');
+        code.indent();
+        code.line('model.delete({ where });');
+        code.dedent();
+        code.line('}');
+      }, '} finally {');
+      code.indent();
+      code.line('applyingRemote = false;');
+      code.dedent();
+      code.line('}');
+    }, '};');
+  });
+  code.line();
+
   // Initialize
-  code.comment('Initialize: load data and wrap methods');
+  code.comment('Initialize: load data, wrap methods and share changes across tabs');
   code.line('loadFromStorage();');
   code.line('wrapDbMethods();');
+  code.line('listenToOtherTabs();');
 }
 
 /**
@@ -223,6 +550,8 @@ function generateEntityFactory(code: CodeBuilder, schema: AnalyzedSchema): void
     for (const field of schema.fields) {
       if (field.name === 'id') {
         code.line('id: primaryKey(faker.string.uuid),');
+      } else if (schema.softDelete && field.name === 'deletedAt') {
+        code.line('deletedAt: nullable<Date>(() => null),');
       } else if (field.isObject) {
         // @mswjs/data doesn't support nested objects - serialize as JSON strings
         // They'll be parsed back when read from the API
@@ -268,6 +597,9 @@ function generateEntitySchemaObject(code: CodeBuilder, schema: AnalyzedSchema):
   code.block('{', () => {
     code.line(`name: '${schema.name}',`);
     code.line(`timestamps: ${!!schema.hasTimestamps},`);
+    if (schema.softDelete) {
+      code.line('softDelete: true,');
+    }
 
     // Generate fields object
     code.block('fields: {', () => {
@@ -282,7 +614,7 @@ function generateEntitySchemaObject(code: CodeBuilder, schema: AnalyzedSchema):
         for (const rel of schema.relations) {
           code.block(`${rel.name}: {`, () => {
             code.line(`type: '${rel.type}',`);
-            code.line(`target: '${rel.target}',`);
+            code.line(`target: '${rel.resolvedTarget}',`);
             if (rel.foreignKey) {
               code.line(`foreignKey: '${rel.foreignKey}',`);
             }
@@ -342,6 +674,10 @@ function generateFieldDefinitionLiteral(code: CodeBuilder, field: AnalyzedField)
     const enumStr = field.enumValues.map(v => `'${v}'`).join(', ');
     props.push(`values: [${enumStr}] as const`);
   }
+  // Primitive defaults fill fields added since a snapshot was taken
+  if (['string', 'number', 'boolean'].includes(typeof field.defaultValue)) {
+    props.push(`default: ${JSON.stringify(field.defaultValue)}`);
+  }
 
   code.line(`${field.name}: { ${props.join(', ')} },`);
 }
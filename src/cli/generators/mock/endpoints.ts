@@ -799,6 +799,7 @@ export function generateEndpointResolvers(endpoints: AnalyzedEndpoint[], outputD
   code.block('export interface ResolverContext<TParams = Record<string, unknown>, TBody = Record<string, unknown>> {', () => {
     code.line('params: TParams;');
     code.line('body: TBody;');
+    code.line('/** Mock database, including db.<entity>.createMany() and db.$transaction() */');
     code.line('db: any;');
     code.line('headers: Record<string, string>;');
     code.line('/** Context populated by middleware (e.g., auth middleware adds userId, role) */');
@@ -16,6 +16,7 @@ import type { AnalyzedSchema, AnalyzedEndpoint } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
 import { pluralize } from '../../utils/pluralize';
 import { hasAnyRLS } from '../shared/rls';
+import { hasVersioning, generateParseIfMatch, PRECONDITION_REQUIRED_BODY, conflictBody } from '../shared/versioning';
 
 /**
  * Configuration for handler generation mode
@@ -46,11 +47,16 @@ export function generateMockHandlers(schemas: AnalyzedSchema[], apiPrefix: strin
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
   code.line("import { http, HttpResponse } from 'msw';");
-  code.line("import { api } from './client';");
+  code.line(hasVersioning(schemas) ? "import { api, ConflictError } from './client';" : "import { api } from './client';");
   code.line("import { routes } from './routes';");
   code.line("import type * as Types from './types';");
   code.line();
 
+  if (hasVersioning(schemas)) {
+    generateParseIfMatch(code);
+    code.line();
+  }
+
   // Define RLSError locally to avoid bundler issues with symlinked packages
   if (hasRLS) {
     code.comment('RLS error class for access denied responses');
@@ -87,6 +93,10 @@ export function generateMockHandlers(schemas: AnalyzedSchema[], apiPrefix: strin
   return code.toString();
 }
 
+/** Soft delete scope read from the request URL */
+const SCOPE_OPTIONS =
+  "withDeleted: url.searchParams.get('withDeleted') === 'true', onlyDeleted: url.searchParams.get('onlyDeleted') === 'true'";
+
 /**
  * Generate handlers for a single entity
  */
@@ -101,10 +111,11 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema, hasRL
     code.line('const url = new URL(request.url);');
     code.line("const limit = parseInt(url.searchParams.get('limit') || '20');");
     code.line("const offset = parseInt(url.searchParams.get('offset') || '0');");
+    const listOptions = schema.softDelete ? `{ limit, offset, ${SCOPE_OPTIONS} }` : '{ limit, offset }';
     code.line();
     if (hasRLS) {
       code.block('try {', () => {
-        code.line(`const response = await api.${name}.list({ limit, offset });`);
+        code.line(`const response = await api.${name}.list(${listOptions});`);
         code.line('return HttpResponse.json(response);');
       }, '} catch (error) {');
       code.indent();
@@ -112,17 +123,21 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema, hasRL
       code.dedent();
       code.line('}');
     } else {
-      code.line(`const response = await api.${name}.list({ limit, offset });`);
+      code.line(`const response = await api.${name}.list(${listOptions});`);
       code.line('return HttpResponse.json(response);');
     }
   }, '}),');
   code.line();
 
   // GET single
-  code.block(`http.get(routes.${pluralName}.get.path, async ({ params }) => {`, () => {
+  const getArgs = schema.softDelete ? `params.id as string, { ${SCOPE_OPTIONS} }` : 'params.id as string';
+  code.block(`http.get(routes.${pluralName}.get.path, async ({ ${schema.softDelete ? 'params, request' : 'params'} }) => {`, () => {
+    if (schema.softDelete) {
+      code.line('const url = new URL(request.url);');
+    }
     if (hasRLS) {
       code.block('try {', () => {
-        code.line(`const response = await api.${name}.get(params.id as string);`);
+        code.line(`const response = await api.${name}.get(${getArgs});`);
         code.line('if (!response.data) {');
         code.line(`  return HttpResponse.json({ error: '${pascalName} not found' }, { status: 404 });`);
         code.line('}');
@@ -133,7 +148,7 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema, hasRL
       code.dedent();
       code.line('}');
     } else {
-      code.line(`const response = await api.${name}.get(params.id as string);`);
+      code.line(`const response = await api.${name}.get(${getArgs});`);
       code.line('if (!response.data) {');
       code.line(`  return HttpResponse.json({ error: '${pascalName} not found' }, { status: 404 });`);
       code.line('}');
@@ -163,71 +178,107 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema, hasRL
   code.line();
 
   // PUT update
-  code.block(`http.put(routes.${pluralName}.update.path, async ({ params, request }) => {`, () => {
-    code.line(`const body = await request.json() as Types.${pascalName}Update;`);
-    code.line();
+  generateUpdateHandler(code, schema, hasRLS, 'put', 'update');
+
+  // PATCH update (partial)
+  generateUpdateHandler(code, schema, hasRLS, 'patch', 'patch');
+
+  // DELETE (?purge=true removes a soft-delete row for good)
+  const deleteCall = schema.softDelete
+    ? `await (new URL(request.url).searchParams.get('purge') === 'true' ? api.${name}.purge : api.${name}.delete)(params.id as string);`
+    : `await api.${name}.delete(params.id as string);`;
+  code.block(`http.delete(routes.${pluralName}.delete.path, async ({ ${schema.softDelete ? 'params, request' : 'params'} }) => {`, () => {
     if (hasRLS) {
       code.block('try {', () => {
-        code.line(`const response = await api.${name}.update(params.id as string, body);`);
-        code.line('return HttpResponse.json(response);');
+        code.line(deleteCall);
+        code.line('return new HttpResponse(null, { status: 204 });');
       }, '} catch (error) {');
       code.indent();
       code.line('return handleError(error);');
       code.dedent();
       code.line('}');
     } else {
-      code.line(`const response = await api.${name}.update(params.id as string, body);`);
-      code.line('return HttpResponse.json(response);');
+      code.line(deleteCall);
+      code.line('return new HttpResponse(null, { status: 204 });');
     }
   }, '}),');
   code.line();
 
-  // PATCH update (partial)
-  code.block(`http.patch(routes.${pluralName}.patch.path, async ({ params, request }) => {`, () => {
+  // POST restore
+  if (schema.softDelete) {
+    code.block(`http.post(routes.${pluralName}.restore.path, async ({ params }) => {`, () => {
+      if (hasRLS) {
+        code.block('try {', () => {
+          code.line(`const response = await api.${name}.restore(params.id as string);`);
+          code.line('return HttpResponse.json(response);');
+        }, '} catch (error) {');
+        code.indent();
+        code.line('return handleError(error);');
+        code.dedent();
+        code.line('}');
+      } else {
+        code.line(`const response = await api.${name}.restore(params.id as string);`);
+        code.line('return HttpResponse.json(response);');
+      }
+    }, '}),');
+    code.line();
+  }
+}
+
+/**
+ * Generate a PUT or PATCH handler. Versioned entities require an If-Match
+ * header and answer stale updates with 409 and the current row.
+ */
+function generateUpdateHandler(
+  code: CodeBuilder,
+  schema: AnalyzedSchema,
+  hasRLS: boolean,
+  method: 'put' | 'patch',
+  route: 'update' | 'patch'
+): void {
+  const { name, pascalName } = schema;
+  const pluralName = pluralize(name);
+  const updateArgs = schema.versioned ? 'params.id as string, body, { expectedVersion }' : 'params.id as string, body';
+
+  code.block(`http.${method}(routes.${pluralName}.${route}.path, async ({ params, request }) => {`, () => {
     code.line(`const body = await request.json() as Types.${pascalName}Update;`);
+    if (schema.versioned) {
+      code.line("const expectedVersion = parseIfMatch(request.headers.get('If-Match'));");
+      code.block('if (expectedVersion === undefined) {', () => {
+        code.line(`return HttpResponse.json(${PRECONDITION_REQUIRED_BODY}, { status: 428 });`);
+      });
+    }
     code.line();
-    if (hasRLS) {
+    if (hasRLS || schema.versioned) {
       code.block('try {', () => {
-        code.line(`const response = await api.${name}.update(params.id as string, body);`);
+        code.line(`const response = await api.${name}.update(${updateArgs});`);
         code.line('return HttpResponse.json(response);');
       }, '} catch (error) {');
       code.indent();
-      code.line('return handleError(error);');
+      if (schema.versioned) {
+        code.block('if (error instanceof ConflictError) {', () => {
+          code.line(`return HttpResponse.json(${conflictBody('error.current')}, { status: 409 });`);
+        });
+      }
+      code.line(hasRLS ? 'return handleError(error);' : 'throw error;');
       code.dedent();
       code.line('}');
     } else {
-      code.line(`const response = await api.${name}.update(params.id as string, body);`);
+      code.line(`const response = await api.${name}.update(${updateArgs});`);
       code.line('return HttpResponse.json(response);');
     }
   }, '}),');
   code.line();
-
-  // DELETE
-  code.block(`http.delete(routes.${pluralName}.delete.path, async ({ params }) => {`, () => {
-    if (hasRLS) {
-      code.block('try {', () => {
-        code.line(`await api.${name}.delete(params.id as string);`);
-        code.line('return new HttpResponse(null, { status: 204 });');
-      }, '} catch (error) {');
-      code.indent();
-      code.line('return handleError(error);');
-      code.dedent();
-      code.line('}');
-    } else {
-      code.line(`await api.${name}.delete(params.id as string);`);
-      code.line('return new HttpResponse(null, { status: 204 });');
-    }
-  }, '}),');
-  code.line();
 }
 
 /**
- * Generate combined handlers export that includes endpoint handlers if they exist
+ * Generate combined handlers export that includes endpoint and view handlers if they exist
  *
  * @param hasEndpoints - Whether there are custom endpoints defined
+ * @param hasViews - Whether there are views defined
  * @returns Generated TypeScript code for all handlers export
  */
-export function generateAllHandlersExport(hasEndpoints: boolean): string {
+export function generateAllHandlersExport(hasEndpoints: boolean, hasViews = false): string {
   const code = new CodeBuilder();
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
@@ -235,12 +286,19 @@ export function generateAllHandlersExport(hasEndpoints: boolean): string {
   code.line();
 
   code.line("import { handlers } from './handlers';");
-
   if (hasEndpoints) {
     code.line("import { endpointHandlers } from './endpoint-handlers';");
+  }
+  if (hasViews) {
+    code.line("import { viewHandlers } from './view-handlers';");
+  }
+
+  if (hasEndpoints || hasViews) {
+    const extra = [hasEndpoints && 'custom endpoints', hasViews && 'views'].filter(Boolean).join(' + ');
+    const spread = [hasEndpoints && '...endpointHandlers', hasViews && '...viewHandlers'].filter(Boolean).join(', ');
     code.line();
-    code.comment('All handlers: entity CRUD + custom endpoints');
-    code.line('export const allHandlers = [...handlers, ...endpointHandlers];');
+    code.comment(`All handlers: entity CRUD + ${extra}`);
+    code.line(`export const allHandlers = [...handlers, ${spread}];`);
   } else {
     code.line();
     code.comment('All handlers (no custom endpoints defined)');
@@ -254,6 +312,9 @@ export function generateAllHandlersExport(hasEndpoints: boolean): string {
   if (hasEndpoints) {
     code.line('export { endpointHandlers };');
   }
+  if (hasViews) {
+    code.line('export { viewHandlers };');
+  }
 
   return code.toString();
 }
@@ -71,6 +71,9 @@ function generateEntityRoutes(code: CodeBuilder, schema: AnalyzedSchema): void {
     code.line(`update: { method: 'PUT',    path: '${basePath}/:id' },`);
     code.line(`patch:  { method: 'PATCH',  path: '${basePath}/:id' },`);
     code.line(`delete: { method: 'DELETE', path: '${basePath}/:id' },`);
+    if (schema.softDelete) {
+      code.line(`restore: { method: 'POST', path: '${basePath}/:id/restore' },`);
+    }
   }, '},');
 }
 
@@ -95,6 +98,9 @@ function generateRouteHelpers(code: CodeBuilder, schemas: AnalyzedSchema[]): voi
       code.line(`update: (id: string) => \`${basePath}/\${id}\`,`);
       code.line(`patch: (id: string) => \`${basePath}/\${id}\`,`);
       code.line(`delete: (id: string) => \`${basePath}/\${id}\`,`);
+      if (schema.softDelete) {
+        code.line(`restore: (id: string) => \`${basePath}/\${id}/restore\`,`);
+      }
     }, '};');
     code.line();
   }
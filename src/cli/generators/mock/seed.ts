@@ -12,6 +12,7 @@ import type { AnalyzedSchema, AnalyzedField, ProductionSeedConfig } from '../../
 import { CodeBuilder } from '../../utils/code-builder';
 import { toSafePropertyName } from '../../utils/pluralize';
 import { emitSeedRefHelpers, emitEntityOrder } from '../shared/seed-ref-helpers';
+import { emitScenarioImports, emitScenarioSupport, emitSeedScenarioDoc, buildScenarioCall } from '../shared/seed-scenario';
 
 /**
  * Configuration for seed generation
@@ -40,8 +41,9 @@ export function generateMockSeed(schemas: AnalyzedSchema[], config: SeedConfig =
   const code = new CodeBuilder();
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
-  code.line("import { db } from './db';");
+  code.line("import { db, schemas } from './db';");
   code.line("import { faker } from '@faker-js/faker';");
+  emitScenarioImports(code, true);
   code.line();
 
   // Set faker seed
@@ -76,7 +78,7 @@ export function generateMockSeed(schemas: AnalyzedSchema[], config: SeedConfig =
   // Helper to pick random item from array
   code.block('function pickRandom<T>(arr: T[]): T | undefined {', () => {
     code.line('if (arr.length === 0) return undefined;');
-    code.line('return arr[Math.floor(Math.random() * arr.length)];');
+    code.line('return faker.helpers.arrayElement(arr);');
   });
   code.line();
 
@@ -87,6 +89,9 @@ export function generateMockSeed(schemas: AnalyzedSchema[], config: SeedConfig =
     code.line();
   }
 
+  // Scenarios resolve against the entity metadata the db exports
+  emitScenarioSupport(code, schemas, true);
+
   // Seed function - creates relational data with valid foreign keys
   code.multiDocComment([
     'Seed the database with fake data.',
@@ -136,7 +141,7 @@ export function generateMockSeed(schemas: AnalyzedSchema[], config: SeedConfig =
           for (const fk of fkFields) {
             if (fk.nullable) {
               // Nullable FK: sometimes null, sometimes valid ID
-              code.line(`data.${fk.fieldName} = Math.random() > 0.3 ? pickRandom(ids.${fk.target}) ?? null : null;`);
+              code.line(`data.${fk.fieldName} = faker.datatype.boolean(0.7) ? pickRandom(ids.${fk.target}) ?? null : null;`);
             } else {
               // Required FK: always use valid parent ID
               code.line(`data.${fk.fieldName} = pickRandom(ids.${fk.target})!;`);
@@ -157,6 +162,25 @@ export function generateMockSeed(schemas: AnalyzedSchema[], config: SeedConfig =
   });
   code.line();
 
+  // Scenario seeding - named datasets from defineScenario()
+  emitSeedScenarioDoc(code);
+  code.block('export async function seedScenario(scenario: SeedScenario): Promise<ScenarioDataset> {', () => {
+    code.line(buildScenarioCall(config.fakerSeed, true));
+    code.line();
+    code.comment('Use db layer directly - bypasses RLS');
+    for (const schema of schemas) {
+      if (schema.isJunctionTable) continue;
+      const safeName = toSafePropertyName(schema.name);
+      code.block(`for (const record of data['${schema.name}'] ?? []) {`, () => {
+        code.line(`// eslint-disable-next-line @typescript-eslint/no-explicit-any`);
+        code.line(`db.${safeName}.create(record as any);`);
+      });
+    }
+    code.line();
+    code.line('return data;');
+  });
+  code.line();
+
   // Reset function - delete all data
   code.multiDocComment([
     'Reset the database by deleting all data.',
@@ -282,7 +306,7 @@ function generateEntityGenerator(code: CodeBuilder, schema: AnalyzedSchema): voi
 function generateFieldValue(code: CodeBuilder, field: AnalyzedField): void {
   // Handle nullable fields
   if (field.nullable) {
-    code.line(`${field.name}: Math.random() > 0.1 ? ${field.fakerCall} : null,`);
+    code.line(`${field.name}: faker.datatype.boolean(0.9) ? ${field.fakerCall} : null,`);
   } else {
     code.line(`${field.name}: ${field.fakerCall},`);
   }
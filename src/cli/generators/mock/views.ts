@@ -0,0 +1,206 @@
+/**
+ * MSW handler generator for views
+ *
+ * Resolves views defined with defineView() against the @mswjs/data
+ * database: the root record is looked up by its key parameter, embeds
+ * follow the analyzed relation keys and computed fields run the view's own
+ * resolve() functions.
+ *
+ * @module cli/generators/mock/views
+ * @category CLI
+ */
+
+import type { AnalyzedView, AnalyzedViewField } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { toSafePropertyName } from '../../utils/pluralize';
+import { getViewQueryParams } from '../shared/views';
+
+/**
+ * Generate view resolvers and MSW handlers for all views
+ *
+ * @param views - Analyzed views
+ * @returns Generated TypeScript code for view-handlers.ts
+ */
+export function generateViewHandlers(views: AnalyzedView[]): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.comment('MSW handlers for views defined with defineView()');
+  code.line();
+  code.line("import { http, HttpResponse } from 'msw';");
+  code.line("import { db } from './db';");
+  code.line("import type * as Types from './types';");
+  code.line();
+
+  const computed = views.flatMap((view) => collectComputed(view.camelName, view.fields));
+  if (computed.length > 0) {
+    code.comment('Computed fields get the view built so far, the mock database and { mode, params }');
+    code.line('// eslint-disable-next-line @typescript-eslint/no-explicit-any');
+    code.line('type ComputedResolver = (data: any, db: any, ctx: any) => unknown;');
+    code.line();
+    for (const { name, field } of computed) {
+      code.line(`const ${name}: ComputedResolver = ${field.resolverSource};`);
+      code.line();
+    }
+  }
+
+  if (views.some((view) => hasSelectedEmbed(view.fields))) {
+    code.docComment('Keep only the selected fields of an embedded record');
+    code.block('function pickFields<T extends object, K extends keyof T>(record: T, fields: K[]): Pick<T, K> {', () => {
+      code.line('return Object.fromEntries(fields.map((field) => [field, record[field]])) as Pick<T, K>;');
+    });
+    code.line();
+  }
+
+  for (const view of views) {
+    generateViewResolver(code, view);
+  }
+
+  code.block('export const viewHandlers = [', () => {
+    for (const view of views) {
+      generateViewHandler(code, view);
+    }
+  }, '];');
+
+  return code.toString();
+}
+
+/**
+ * Computed fields of a view with the constant names their resolvers get
+ */
+function collectComputed(prefix: string, fields: AnalyzedViewField[]): Array<{ name: string; field: AnalyzedViewField }> {
+  return fields.flatMap((field) => {
+    const name = prefix + capitalize(field.name);
+    if (field.kind === 'computed') return [{ name, field }];
+    if (field.kind === 'object' && field.fields) return collectComputed(name, field.fields);
+    return [];
+  });
+}
+
+/**
+ * Check if any embed (including nested ones) selects a subset of fields
+ */
+function hasSelectedEmbed(fields: AnalyzedViewField[]): boolean {
+  return fields.some((field) => field.embed?.select !== undefined || (field.fields !== undefined && hasSelectedEmbed(field.fields)));
+}
+
+/**
+ * Generate the resolve<View>View function for a single view
+ */
+function generateViewResolver(code: CodeBuilder, view: AnalyzedView): void {
+  const { pascalName, root } = view;
+
+  code.multiDocComment([
+    `Resolve GET ${view.endpoint} against the mock database`,
+    '',
+    root ? `@returns The view, or null when the ${root.entity} does not exist` : '@returns The view',
+  ]);
+  const returnType = root ? `Types.${pascalName}View | null` : `Types.${pascalName}View`;
+  code.block(`export async function resolve${pascalName}View(params: Types.${pascalName}ViewParams): Promise<${returnType}> {`, () => {
+    if (root) {
+      code.line(`const root = db.${toSafePropertyName(root.entity)}.findFirst({ where: { id: { equals: params.${root.keyParam} } } });`);
+      code.line('if (!root) return null;');
+      code.line();
+    }
+    if (collectComputed(view.camelName, view.fields).length > 0) {
+      code.line("const ctx = { mode: 'resolve', params };");
+    }
+    code.line('const view: Record<string, unknown> = {};');
+    generateFieldAssignments(code, view, 'view', view.fields);
+    code.line();
+    code.line(`return view as unknown as Types.${pascalName}View;`);
+  });
+  code.line();
+}
+
+/**
+ * Assign each field to the object held in `target`, in declaration order
+ * so computed fields see the fields before them
+ */
+function generateFieldAssignments(code: CodeBuilder, view: AnalyzedView, target: string, fields: AnalyzedViewField[]): void {
+  for (const field of fields) {
+    const lhs = `${target}.${field.name}`;
+
+    if (field.kind === 'field') {
+      code.line(`${lhs} = ${field.source === 'root' ? 'root' : 'params'}.${field.name};`);
+    } else if (field.kind === 'computed') {
+      const name = view.camelName + target.slice('view'.length) + capitalize(field.name);
+      code.line(`${lhs} = await ${name}(view, db, ctx);`);
+    } else if (field.kind === 'object' && field.fields) {
+      const nested = target + capitalize(field.name);
+      code.line(`const ${nested}: Record<string, unknown> = {};`);
+      code.line(`${lhs} = ${nested};`);
+      generateFieldAssignments(code, view, nested, field.fields);
+    } else if (field.embed) {
+      const { entity, isArray, foreignKey, localKey, select, orderBy, limit } = field.embed;
+      const options = [`where: { ${foreignKey}: { equals: root.${localKey} as string } }`];
+      if (orderBy.length === 1) {
+        options.push(`orderBy: { ${orderBy[0].field}: '${orderBy[0].direction}' }`);
+      } else if (orderBy.length > 1) {
+        options.push(`orderBy: [${orderBy.map((o) => `{ ${o.field}: '${o.direction}' }`).join(', ')}]`);
+      }
+      const take = isArray ? limit : orderBy.length > 0 ? 1 : undefined;
+      if (take !== undefined) options.push(`take: ${take}`);
+
+      const table = `db.${toSafePropertyName(entity)}`;
+      const fieldList = select ? `[${select.map((f) => `'${f}'`).join(', ')}]` : '';
+      if (isArray) {
+        const projection = select ? `.map((record) => pickFields(record, ${fieldList}))` : '';
+        code.line(`${lhs} = ${table}.findMany({ ${options.join(', ')} })${projection};`);
+      } else {
+        const query = take
+          ? `${table}.findMany({ ${options.join(', ')} })[0] ?? null`
+          : `${table}.findFirst({ ${options.join(', ')} })`;
+        if (select) {
+          code.line(`const ${field.name}Record = ${query};`);
+          code.line(`${lhs} = ${field.name}Record ? pickFields(${field.name}Record, ${fieldList}) : null;`);
+        } else {
+          code.line(`${lhs} = ${query};`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Generate a single MSW handler
+ */
+function generateViewHandler(code: CodeBuilder, view: AnalyzedView): void {
+  const queryParams = getViewQueryParams(view);
+
+  code.comment(`GET ${view.endpoint}`);
+  const handlerArgs = queryParams.length > 0 ? '{ request, params: pathParams }' : '{ params: pathParams }';
+  code.block(`http.get('${view.endpoint}', async (${handlerArgs}) => {`, () => {
+    if (queryParams.length > 0) {
+      code.line('const url = new URL(request.url);');
+    }
+    code.block(`const params: Types.${view.pascalName}ViewParams = {`, () => {
+      for (const param of view.pathParams) {
+        code.line(`${param}: pathParams.${param} as string,`);
+      }
+      for (const param of queryParams) {
+        code.line(`${param}: url.searchParams.get('${param}') ?? '',`);
+      }
+    }, '};');
+    code.line();
+    code.block('try {', () => {
+      code.line(`const view = await resolve${view.pascalName}View(params);`);
+      if (view.root) {
+        code.line(`if (!view) return HttpResponse.json({ error: '${view.root.pascalName} not found' }, { status: 404 });`);
+      }
+      code.line('return HttpResponse.json(view);');
+    }, '} catch (error) {');
+    code.indent();
+    code.line(`console.error('GET ${view.endpoint} error:', error);`);
+    code.line("return HttpResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });");
+    code.dedent();
+    code.line('}');
+  }, '}),');
+}
+
+/**
+ * Capitalize first letter
+ */
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
@@ -9,6 +9,14 @@
  */
 
 import type { AnalyzedSchema, GenerationTarget, SchemockConfig } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { LIVE_ROWS_SQL, DELETED_ROWS_SQL, generateDeletedScope } from '../shared/soft-delete';
+
+/**
+ * Parameterised condition matching rows in `deletedScope`. Neon's tagged
+ * templates can't splice raw SQL, so the scope is compared in the query.
+ */
+const SCOPE_CONDITION = `(\${deletedScope}::text = 'all' OR (${LIVE_ROWS_SQL}) = (\${deletedScope}::text = 'live'))`;
 
 /**
  * Generate handler file for an entity using Neon Serverless
@@ -19,6 +27,8 @@ export function generateHandlerFile(
   _config: SchemockConfig
 ): string {
   const hasValidation = target.middleware?.validation === true;
+  const softDelete = schema.softDelete;
+  const scopeWhere = softDelete ? ` WHERE ${SCOPE_CONDITION}` : '';
 
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
@@ -70,14 +80,17 @@ export function generateHandlerFile(
   lines.push('  try {');
   lines.push("    const limit = parseInt(req.query.limit as string || '20', 10);");
   lines.push("    const offset = parseInt(req.query.offset as string || '0', 10);");
+  if (softDelete) {
+    lines.push(generateScopeLine());
+  }
   lines.push('');
   lines.push('    // Get total count');
-  lines.push(`    const countResult = await sql\`SELECT COUNT(*) as total FROM ${schema.tableName}\`;`);
+  lines.push(`    const countResult = await sql\`SELECT COUNT(*) as total FROM ${schema.tableName}${scopeWhere}\`;`);
   lines.push("    const total = parseInt(String(countResult[0]?.total ?? '0'), 10);");
   lines.push('');
   lines.push('    // Get paginated data');
   lines.push(`    const data = await sql<${schema.pascalName}[]>\``);
-  lines.push(`      SELECT * FROM ${schema.tableName}`);
+  lines.push(`      SELECT * FROM ${schema.tableName}${scopeWhere}`);
   lines.push('      ORDER BY created_at DESC');
   lines.push('      LIMIT ${limit}');
   lines.push('      OFFSET ${offset}');
@@ -105,9 +118,12 @@ export function generateHandlerFile(
   lines.push('): Promise<void> {');
   lines.push('  try {');
   lines.push('    const { id } = req.params;');
+  if (softDelete) {
+    lines.push(generateScopeLine());
+  }
   lines.push('');
   lines.push(`    const result = await sql<${schema.pascalName}[]>\``);
-  lines.push(`      SELECT * FROM ${schema.tableName} WHERE id = \${id}`);
+  lines.push(`      SELECT * FROM ${schema.tableName} WHERE id = \${id}${softDelete ? ` AND ${SCOPE_CONDITION}` : ''}`);
   lines.push('    `;');
   lines.push('');
   lines.push('    if (result.length === 0) {');
@@ -219,7 +235,8 @@ export function generateHandlerFile(
   lines.push("    const dynamicSql = neon(process.env.DATABASE_URL!);");
   lines.push('');
   lines.push(`    const result = await dynamicSql(`);
-  lines.push(`      \`UPDATE ${schema.tableName} SET \${setClauses}, updated_at = NOW() WHERE id = $\${values.length + 1} RETURNING *\`,`);
+  const liveOnly = softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
+  lines.push(`      \`UPDATE ${schema.tableName} SET \${setClauses}, updated_at = NOW() WHERE id = $\${values.length + 1}${liveOnly} RETURNING *\`,`);
   lines.push('      [...values, id]');
   lines.push(`    ) as ${schema.pascalName}[];`);
   lines.push('');
@@ -243,7 +260,11 @@ export function generateHandlerFile(
   // Delete handler
   lines.push('/**');
   lines.push(` * DELETE /${schema.pluralName}/:id`);
-  lines.push(` * Delete a ${schema.singularName}`);
+  if (softDelete) {
+    lines.push(` * Soft delete a ${schema.singularName}, or remove it for good with ?purge=true`);
+  } else {
+    lines.push(` * Delete a ${schema.singularName}`);
+  }
   lines.push(' */');
   lines.push('export async function remove(');
   lines.push('  req: Request,');
@@ -253,9 +274,15 @@ export function generateHandlerFile(
   lines.push('  try {');
   lines.push('    const { id } = req.params;');
   lines.push('');
-  lines.push(`    const result = await sql\``);
-  lines.push(`      DELETE FROM ${schema.tableName} WHERE id = \${id} RETURNING id`);
-  lines.push('    `;');
+  if (softDelete) {
+    lines.push("    const result = req.query.purge === 'true'");
+    lines.push(`      ? await sql\`DELETE FROM ${schema.tableName} WHERE id = \${id} RETURNING id\``);
+    lines.push(`      : await sql\`UPDATE ${schema.tableName} SET "deletedAt" = NOW() WHERE id = \${id} AND ${LIVE_ROWS_SQL} RETURNING id\`;`);
+  } else {
+    lines.push(`    const result = await sql\``);
+    lines.push(`      DELETE FROM ${schema.tableName} WHERE id = \${id} RETURNING id`);
+    lines.push('    `;');
+  }
   lines.push('');
   lines.push('    if (result.length === 0) {');
   lines.push("      res.status(404).json({ error: 'Not found' });");
@@ -273,5 +300,55 @@ export function generateHandlerFile(
   lines.push('  }');
   lines.push('}');
 
+  if (softDelete) {
+    lines.push('');
+    lines.push(...generateRestoreHandler(schema));
+  }
+
   return lines.join('\n');
 }
+
+/**
+ * Generate the `deletedScope` read from the query string
+ */
+function generateScopeLine(): string {
+  const code = new CodeBuilder().indent().indent();
+  generateDeletedScope(code, (param) => `req.query.${param}`);
+  return code.toString();
+}
+
+/**
+ * Generate the `restore` handler for a soft-delete entity
+ */
+function generateRestoreHandler(schema: AnalyzedSchema): string[] {
+  const lines: string[] = [];
+
+  lines.push('/**');
+  lines.push(` * POST /${schema.pluralName}/:id/restore`);
+  lines.push(` * Restore a soft-deleted ${schema.singularName}`);
+  lines.push(' */');
+  lines.push('export async function restore(');
+  lines.push('  req: Request,');
+  lines.push('  res: Response,');
+  lines.push('  next: NextFunction');
+  lines.push('): Promise<void> {');
+  lines.push('  try {');
+  lines.push('    const { id } = req.params;');
+  lines.push('');
+  lines.push(`    const result = await sql<${schema.pascalName}[]>\``);
+  lines.push(`      UPDATE ${schema.tableName} SET "deletedAt" = NULL WHERE id = \${id} AND ${DELETED_ROWS_SQL} RETURNING *`);
+  lines.push('    `;');
+  lines.push('');
+  lines.push('    if (result.length === 0) {');
+  lines.push("      res.status(404).json({ error: 'Not found' });");
+  lines.push('      return;');
+  lines.push('    }');
+  lines.push('');
+  lines.push('    res.json(result[0]);');
+  lines.push('  } catch (error) {');
+  lines.push('    next(error);');
+  lines.push('  }');
+  lines.push('}');
+
+  return lines;
+}
@@ -93,6 +93,9 @@ export function generateRouterFile(
     lines.push(`  router.post('${apiPrefix}/${schema.pluralName}', ${schema.pluralName}Handlers.create);`);
     lines.push(`  router.put('${apiPrefix}/${schema.pluralName}/:id', ${schema.pluralName}Handlers.update);`);
     lines.push(`  router.delete('${apiPrefix}/${schema.pluralName}/:id', ${schema.pluralName}Handlers.remove);`);
+    if (schema.softDelete) {
+      lines.push(`  router.post('${apiPrefix}/${schema.pluralName}/:id/restore', ${schema.pluralName}Handlers.restore);`);
+    }
     lines.push('');
   }
 
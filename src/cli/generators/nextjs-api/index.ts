@@ -13,19 +13,25 @@ import { join } from 'node:path';
 import type {
   AnalyzedSchema,
   AnalyzedEndpoint,
+  AnalyzedView,
   GenerationTarget,
   SchemockConfig,
   GenerateOptions,
   AnalyzedMiddleware,
 } from '../../types';
 
-import { generateRouteFile, generateDynamicRouteFile } from './route-template';
+import { generateRouteFile, generateDynamicRouteFile, generateRestoreRouteFile } from './route-template';
 import { generateEndpointRouteFile, pathToNextjsSegments } from './endpoint-route-template';
 import { generateSeedRouteFile } from './seed-route-template';
+import { generateViewRouteFile } from './view-route-template';
 import { generateLibFiles } from './lib-template';
 import { generateTypes } from '../types';
 import { generateAllEndpointInterfaces } from '../shared/endpoint-helpers';
 import { shouldGenerateSeedHandler } from '../shared/seed-handler-helpers';
+import { hasCursorPagination, generateCursorModule } from '../shared/cursor';
+import { hasLinkRelations, generateLinksModule } from '../shared/links';
+import { generateViewResolvers, isViewBackend } from '../shared/views';
+import { generateViewTypes } from '../views';
 import {
   generateAuthMiddlewareNextjs,
   generateRateLimitMiddlewareNextjs,
@@ -35,6 +41,7 @@ import {
   generateRlsMiddlewareNextjs,
   generateCustomMiddlewareNextjs,
   generateValidationNextjs,
+  type NextjsMiddlewareOptions,
 } from './middleware-template';
 import {
   generateNextjsMiddlewareChain,
@@ -54,6 +61,7 @@ import {
  * @param options - Generation options
  * @param customMiddleware - Analyzed custom middleware definitions (optional)
  * @param endpoints - Analyzed custom endpoints (optional)
+ * @param views - Analyzed views (optional)
  */
 export async function generateNextjsApiTarget(
   allSchemas: AnalyzedSchema[],
@@ -63,7 +71,8 @@ export async function generateNextjsApiTarget(
   config: SchemockConfig,
   options: GenerateOptions,
   customMiddleware: AnalyzedMiddleware[] = [],
-  endpoints: AnalyzedEndpoint[] = []
+  endpoints: AnalyzedEndpoint[] = [],
+  views: AnalyzedView[] = []
 ): Promise<string[]> {
   const files: string[] = [];
 
@@ -82,7 +91,10 @@ export async function generateNextjsApiTarget(
   }
 
   // Generate TypeScript types in _lib (ALL schemas to preserve relations)
-  const typesCode = generateTypes(allSchemas);
+  let typesCode = generateTypes(allSchemas);
+  if (views.length > 0) {
+    typesCode += generateViewTypes(views);
+  }
   await writeOutput(join(libDir, 'types.ts'), typesCode, options.dryRun);
   files.push('_lib/types.ts');
   console.log('   ✓ _lib/types.ts');
@@ -123,6 +135,21 @@ export async function generateNextjsApiTarget(
     console.log(`   ✓ _lib/${filename}`);
   }
 
+  // Generate cursor pagination helpers for keyset-paginated entities
+  const backend = target.backend || 'supabase';
+  if ((backend === 'supabase' || backend === 'pglite') && hasCursorPagination(targetSchemas)) {
+    await writeOutput(join(libDir, 'cursor.ts'), generateCursorModule(backend), options.dryRun);
+    files.push('_lib/cursor.ts');
+    console.log('   ✓ _lib/cursor.ts');
+  }
+
+  // Generate junction writers for many-to-many links
+  if ((backend === 'supabase' || backend === 'pglite') && hasLinkRelations(targetSchemas, allSchemas)) {
+    await writeOutput(join(libDir, 'links.ts'), generateLinksModule(backend), options.dryRun);
+    files.push('_lib/links.ts');
+    console.log('   ✓ _lib/links.ts');
+  }
+
   // Generate routes for TARGET schemas only (filtered)
   for (const schema of targetSchemas) {
     if (schema.isJunctionTable) continue;
@@ -134,7 +161,7 @@ export async function generateNextjsApiTarget(
     }
 
     // Generate collection route (GET list, POST create)
-    const collectionRoute = generateRouteFile(schema, target, config);
+    const collectionRoute = generateRouteFile(schema, target, config, allSchemas);
     await writeOutput(join(entityDir, 'route.ts'), collectionRoute, options.dryRun);
     files.push(`${schema.pluralName}/route.ts`);
 
@@ -145,10 +172,21 @@ export async function generateNextjsApiTarget(
     }
 
     // Generate dynamic route (GET one, PUT update, DELETE)
-    const dynamicRoute = generateDynamicRouteFile(schema, target, config);
+    const dynamicRoute = generateDynamicRouteFile(schema, target, config, allSchemas);
     await writeOutput(join(dynamicDir, 'route.ts'), dynamicRoute, options.dryRun);
     files.push(`${schema.pluralName}/[id]/route.ts`);
 
+    // Generate restore route (POST) for soft-delete entities
+    if (schema.softDelete) {
+      const restoreDir = join(dynamicDir, 'restore');
+      if (!options.dryRun) {
+        await mkdir(restoreDir, { recursive: true });
+      }
+      const restoreRoute = generateRestoreRouteFile(schema, target, config);
+      await writeOutput(join(restoreDir, 'route.ts'), restoreRoute, options.dryRun);
+      files.push(`${schema.pluralName}/[id]/restore/route.ts`);
+    }
+
     console.log(`   ✓ ${schema.pluralName}/ (collection + [id] routes)`);
   }
 
@@ -184,6 +222,36 @@ export async function generateNextjsApiTarget(
     }
   }
 
+  // Generate view routes
+  if (views.length > 0) {
+    const apiPrefix = config.apiPrefix || '/api';
+
+    if (isViewBackend(backend)) {
+      const dbImport = backend === 'supabase' ? './supabase' : './pglite';
+      const resolversCode = generateViewResolvers(views, { backend, dbImport, typesImport: './types' });
+      await writeOutput(join(libDir, 'views.ts'), resolversCode, options.dryRun);
+      files.push('_lib/views.ts');
+      console.log('   ✓ _lib/views.ts');
+    }
+
+    for (const view of views) {
+      const segments = pathToNextjsSegments(view.endpoint, apiPrefix);
+      const routeDir = join(outputDir, ...segments);
+
+      if (!options.dryRun) {
+        await mkdir(routeDir, { recursive: true });
+      }
+
+      const libRelativePath = '../'.repeat(segments.length) + '_lib';
+      const routeCode = generateViewRouteFile(view, target, libRelativePath);
+      await writeOutput(join(routeDir, 'route.ts'), routeCode, options.dryRun);
+
+      const routePath = segments.join('/') + '/route.ts';
+      files.push(routePath);
+      console.log(`   ✓ ${routePath} (view GET ${view.endpoint})`);
+    }
+  }
+
   // Generate seed route if production seed is configured
   if (shouldGenerateSeedHandler(config)) {
     // Create _seed directory
@@ -219,13 +287,16 @@ async function writeOutput(
 
 /**
  * Generate middleware files based on new v1.0 config format
+ *
+ * Shared with the nextjs-edge target, which passes `{ edge: true }`.
  */
-async function generateMiddlewareFromConfig(
+export async function generateMiddlewareFromConfig(
   libDir: string,
   config: SchemockConfig,
   schemas: AnalyzedSchema[],
   customMiddleware: AnalyzedMiddleware[],
-  dryRun?: boolean
+  dryRun?: boolean,
+  middlewareOptions: NextjsMiddlewareOptions = {}
 ): Promise<string[]> {
   const files: string[] = [];
   const mwConfig = config.middleware;
@@ -235,7 +306,7 @@ async function generateMiddlewareFromConfig(
   if (mwConfig.auth) {
     const authConfig = normalizeAuthConfig(mwConfig.auth);
     if (authConfig) {
-      const authCode = generateAuthMiddlewareNextjs(authConfig);
+      const authCode = generateAuthMiddlewareNextjs(authConfig, middlewareOptions);
       await writeOutput(join(libDir, 'auth.ts'), authCode, dryRun);
       files.push('_lib/auth.ts');
       console.log('   ✓ _lib/auth.ts');
@@ -248,6 +319,9 @@ async function generateMiddlewareFromConfig(
     await writeOutput(join(libDir, 'rate-limit.ts'), rateLimitCode, dryRun);
     files.push('_lib/rate-limit.ts');
     console.log('   ✓ _lib/rate-limit.ts');
+    if (mwConfig.rateLimit.storage === 'redis') {
+      console.log('   ℹ Export a Redis client as `redis` from _lib/redis.ts');
+    }
   }
 
   // Cache middleware
@@ -274,7 +348,7 @@ async function generateMiddlewareFromConfig(
 
   // Context middleware
   if (mwConfig.context) {
-    const contextCode = generateContextMiddlewareNextjs();
+    const contextCode = generateContextMiddlewareNextjs(middlewareOptions);
     await writeOutput(join(libDir, 'context.ts'), contextCode, dryRun);
     files.push('_lib/context.ts');
     console.log('   ✓ _lib/context.ts');
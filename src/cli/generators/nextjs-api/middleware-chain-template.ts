@@ -121,16 +121,12 @@ export function generateNextjsMiddlewareChain(
         lines.push('    Object.assign(context, authResult.context);');
         lines.push('  }');
       } else if (name === 'rateLimit') {
-        lines.push('  const rateLimitResult = rateLimitMiddleware(request, context.userId);');
+        lines.push('  const rateLimitResult = await rateLimitMiddleware(request, context);');
         lines.push('  if (rateLimitResult.error) {');
         lines.push('    return { error: true, response: rateLimitResult.response, context };');
         lines.push('  }');
-        lines.push('  // Store rate limit info for response headers');
-        lines.push('  if (rateLimitResult.remaining !== undefined) {');
-        lines.push('    completionHandlers.push((response) => {');
-        lines.push('      return addRateLimitHeaders(response, rateLimitResult.remaining!, rateLimitResult.resetTime!);');
-        lines.push('    });');
-        lines.push('  }');
+        lines.push('  // Add RateLimit-* headers to the response');
+        lines.push('  completionHandlers.push((response) => addRateLimitHeaders(response, rateLimitResult.headers));');
       } else if (name === 'logger') {
         lines.push('  const logger = loggerMiddleware(request, context.userId);');
         lines.push('  completionHandlers.push((response, status) => {');
@@ -17,11 +17,23 @@ import type {
   LoggerMiddlewareConfig,
   AnalyzedMiddleware,
 } from '../../types';
+import { generateRateLimitImports, generateRateLimitSetup } from '../shared/rate-limit';
+
+/**
+ * Options for Next.js middleware templates
+ */
+export interface NextjsMiddlewareOptions {
+  /** Generate Edge runtime compatible code (no Node.js APIs) */
+  edge?: boolean;
+}
 
 /**
  * Generate auth middleware from new v1.0 config format
  */
-export function generateAuthMiddlewareNextjs(config: AuthMiddlewareConfig): string {
+export function generateAuthMiddlewareNextjs(
+  config: AuthMiddlewareConfig,
+  options: NextjsMiddlewareOptions = {}
+): string {
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
     '',
@@ -32,7 +44,7 @@ export function generateAuthMiddlewareNextjs(config: AuthMiddlewareConfig): stri
   if (config.provider === 'supabase-auth') {
     lines.push("import { supabase } from './supabase';");
   } else if (config.provider === 'jwt') {
-    lines.push("import jwt from 'jsonwebtoken';");
+    lines.push(options.edge ? "import { jwtVerify } from 'jose';" : "import jwt from 'jsonwebtoken';");
   } else if (config.provider === 'nextauth') {
     lines.push("import { getServerSession } from 'next-auth';");
     lines.push("import { authOptions } from '@/lib/auth';");
@@ -114,7 +126,13 @@ export function generateAuthMiddlewareNextjs(config: AuthMiddlewareConfig): stri
     lines.push('  }');
     lines.push('');
     lines.push('  try {');
-    lines.push(`    const decoded = jwt.verify(token, process.env.${secretEnvVar}!) as {`);
+    if (options.edge) {
+      lines.push(`    const secret = new TextEncoder().encode(process.env.${secretEnvVar}!);`);
+      lines.push('    const { payload } = await jwtVerify(token, secret);');
+      lines.push('    const decoded = payload as {');
+    } else {
+      lines.push(`    const decoded = jwt.verify(token, process.env.${secretEnvVar}!) as {`);
+    }
     lines.push('      sub: string;');
     lines.push('      email?: string;');
     lines.push('      role?: string;');
@@ -203,37 +221,23 @@ export function generateAuthMiddlewareNextjs(config: AuthMiddlewareConfig): stri
  * Generate rate limit middleware
  */
 export function generateRateLimitMiddlewareNextjs(config: RateLimitMiddlewareConfig): string {
-  const max = config.max ?? 100;
-  const windowMs = config.windowMs ?? 60000;
   const keyBy = config.keyBy || 'ip';
 
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
     '',
     "import { NextRequest, NextResponse } from 'next/server';",
+    ...generateRateLimitImports(config, './redis'),
     '',
-    '/**',
-    ' * Rate limit entry',
-    ' */',
-    'interface RateLimitEntry {',
-    '  count: number;',
-    '  resetTime: number;',
-    '}',
-    '',
-    '// In-memory rate limit store (consider using Redis in production)',
-    'const rateLimitStore = new Map<string, RateLimitEntry>();',
-    '',
-    `const RATE_LIMIT_MAX = ${max};`,
-    `const RATE_LIMIT_WINDOW_MS = ${windowMs};`,
-    '',
+    ...generateRateLimitSetup(config),
     '/**',
     ' * Rate limit result',
     ' */',
     'export interface RateLimitResult {',
     '  error: boolean;',
     '  response?: NextResponse;',
-    '  remaining?: number;',
-    '  resetTime?: number;',
+    '  /** RateLimit-* (and Retry-After) headers for the response */',
+    '  headers: Record<string, string>;',
     '}',
     '',
     '/**',
@@ -256,56 +260,28 @@ export function generateRateLimitMiddlewareNextjs(config: RateLimitMiddlewareCon
   lines.push('/**');
   lines.push(' * Rate limit middleware');
   lines.push(' */');
-  lines.push('export function rateLimitMiddleware(');
+  lines.push('export async function rateLimitMiddleware(');
   lines.push('  request: NextRequest,');
-  lines.push('  userId?: string');
-  lines.push('): RateLimitResult {');
-  lines.push('  const key = getRateLimitKey(request, userId);');
-  lines.push('  const now = Date.now();');
-  lines.push('');
-  lines.push('  let entry = rateLimitStore.get(key);');
-  lines.push('');
-  lines.push('  // Clean up expired entry');
-  lines.push('  if (entry && entry.resetTime < now) {');
-  lines.push('    rateLimitStore.delete(key);');
-  lines.push('    entry = undefined;');
-  lines.push('  }');
-  lines.push('');
-  lines.push('  if (!entry) {');
-  lines.push('    entry = {');
-  lines.push('      count: 1,');
-  lines.push('      resetTime: now + RATE_LIMIT_WINDOW_MS,');
-  lines.push('    };');
-  lines.push('    rateLimitStore.set(key, entry);');
-  lines.push('  } else {');
-  lines.push('    entry.count++;');
-  lines.push('  }');
-  lines.push('');
-  lines.push('  const remaining = Math.max(0, RATE_LIMIT_MAX - entry.count);');
-  lines.push('  const resetTime = entry.resetTime;');
+  lines.push('  context: { userId?: string; role?: string } = {}');
+  lines.push('): Promise<RateLimitResult> {');
+  lines.push('  const check = await checkRateLimit(getRateLimitKey(request, context.userId), {');
+  lines.push('    method: request.method,');
+  lines.push('    path: request.nextUrl.pathname,');
+  lines.push('    role: context.role,');
+  lines.push('  });');
   lines.push('');
-  lines.push('  if (entry.count > RATE_LIMIT_MAX) {');
-  lines.push('    const retryAfter = Math.ceil((resetTime - now) / 1000);');
+  lines.push('  if (!check.allowed) {');
   lines.push('    return {');
   lines.push('      error: true,');
   lines.push('      response: NextResponse.json(');
-  lines.push("        { error: 'Too many requests', retryAfter },");
-  lines.push('        {');
-  lines.push('          status: 429,');
-  lines.push('          headers: {');
-  lines.push("            'X-RateLimit-Limit': RATE_LIMIT_MAX.toString(),");
-  lines.push("            'X-RateLimit-Remaining': '0',");
-  lines.push("            'X-RateLimit-Reset': Math.ceil(resetTime / 1000).toString(),");
-  lines.push("            'Retry-After': retryAfter.toString(),");
-  lines.push('          },');
-  lines.push('        }');
+  lines.push("        { error: 'Too many requests', retryAfter: check.retryAfter },");
+  lines.push('        { status: 429, headers: check.headers }');
   lines.push('      ),');
-  lines.push('      remaining: 0,');
-  lines.push('      resetTime,');
+  lines.push('      headers: check.headers,');
   lines.push('    };');
   lines.push('  }');
   lines.push('');
-  lines.push('  return { error: false, remaining, resetTime };');
+  lines.push('  return { error: false, headers: check.headers };');
   lines.push('}');
   lines.push('');
   lines.push('/**');
@@ -313,12 +289,11 @@ export function generateRateLimitMiddlewareNextjs(config: RateLimitMiddlewareCon
   lines.push(' */');
   lines.push('export function addRateLimitHeaders(');
   lines.push('  response: NextResponse,');
-  lines.push('  remaining: number,');
-  lines.push('  resetTime: number');
+  lines.push('  headers: Record<string, string>');
   lines.push('): NextResponse {');
-  lines.push("  response.headers.set('X-RateLimit-Limit', RATE_LIMIT_MAX.toString());");
-  lines.push("  response.headers.set('X-RateLimit-Remaining', remaining.toString());");
-  lines.push("  response.headers.set('X-RateLimit-Reset', Math.ceil(resetTime / 1000).toString());");
+  lines.push('  for (const [name, value] of Object.entries(headers)) {');
+  lines.push('    response.headers.set(name, value);');
+  lines.push('  }');
   lines.push('  return response;');
   lines.push('}');
   lines.push('');
@@ -579,7 +554,7 @@ export function generateLoggerMiddlewareNextjs(config: LoggerMiddlewareConfig):
 /**
  * Generate context extraction middleware
  */
-export function generateContextMiddlewareNextjs(): string {
+export function generateContextMiddlewareNextjs(options: NextjsMiddlewareOptions = {}): string {
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
     '',
@@ -603,7 +578,9 @@ export function generateContextMiddlewareNextjs(): string {
     '  try {',
     "    const parts = token.split('.');",
     '    if (parts.length !== 3) return null;',
-    '    const payload = Buffer.from(parts[1], "base64").toString("utf-8");',
+    options.edge
+      ? "    const payload = atob(parts[1].replace(/-/g, '+').replace(/_/g, '/'));"
+      : '    const payload = Buffer.from(parts[1], "base64").toString("utf-8");',
     '    return JSON.parse(payload);',
     '  } catch {',
     '    return null;',
@@ -13,14 +13,28 @@
 
 import type { AnalyzedSchema, GenerationTarget, SchemockConfig } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
+import { isCursorPaginated, getDefaultLimit, generateCursorListQuery, generateOrderByParser } from '../shared/cursor';
+import {
+  LIVE_ROWS_SQL,
+  DELETED_ROWS_SQL,
+  generateDeletedScope,
+  generateSqlDeletedFilter,
+  generateSupabaseDeletedFilter,
+  firestoreScopedCollection,
+} from '../shared/soft-delete';
+import { generateParseIfMatch, PRECONDITION_REQUIRED_BODY, conflictBody } from '../shared/versioning';
+import { getLinkRelations, generateJunctionConsts, linkWriteLines, type LinkRelation } from '../shared/links';
 
 /**
  * Generate the collection route file (GET list, POST create)
+ *
+ * @param allSchemas - All schemas, to resolve the junction entities of many-to-many relations
  */
 export function generateRouteFile(
   schema: AnalyzedSchema,
   target: GenerationTarget,
-  config: SchemockConfig
+  config: SchemockConfig,
+  allSchemas: AnalyzedSchema[] = [schema]
 ): string {
   const hasNewMiddlewareConfig = config.middleware !== undefined;
   const hasAuth = hasNewMiddlewareConfig ? !!config.middleware?.auth : target.middleware?.auth !== undefined;
@@ -28,6 +42,9 @@ export function generateRouteFile(
   const hasRateLimit = hasNewMiddlewareConfig && !!config.middleware?.rateLimit;
   const hasCache = hasNewMiddlewareConfig && !!config.middleware?.cache;
   const backend = target.backend || 'supabase';
+  const cursorPaginated = isCursorPaginated(schema) && (backend === 'supabase' || backend === 'pglite');
+  const softDelete = schema.softDelete;
+  const links = backend === 'supabase' || backend === 'pglite' ? getLinkRelations(schema, allSchemas) : [];
 
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
@@ -61,9 +78,23 @@ export function generateRouteFile(
     lines.push("import { db } from '../_lib/pglite';");
   }
 
+  // Import cursor helpers for keyset pagination
+  if (cursorPaginated) {
+    const helpers = backend === 'supabase'
+      ? 'getCursorSortKeys, decodeCursor, parseOrderBy, isCursorAscending, buildCursorFilter, toCursorPage, InvalidCursorError, InvalidOrderByError'
+      : 'getCursorSortKeys, decodeCursor, parseOrderBy, buildCursorWhere, buildCursorOrderBy, toCursorPage, InvalidCursorError, InvalidOrderByError';
+    lines.push(`import { ${helpers} } from '../_lib/cursor';`);
+  }
+
+  // Import many-to-many link writer
+  if (links.length > 0) {
+    lines.push("import { writeLinks, type LinkJunction } from '../_lib/links';");
+  }
+
   // Import types (using naming convention: UserCreate, UserUpdate)
   lines.push(`import type { ${schema.pascalName}, ${schema.pascalName}Create } from '../_lib/types';`);
   lines.push('');
+  lines.push(...generateJunctionLines(schema, links, allSchemas));
 
   // GET handler - list all
   lines.push('/**');
@@ -98,44 +129,84 @@ export function generateRouteFile(
   lines.push('  try {');
   lines.push('    // Parse query params');
   lines.push('    const { searchParams } = new URL(request.url);');
-  lines.push("    const limit = parseInt(searchParams.get('limit') || '20', 10);");
-  lines.push("    const offset = parseInt(searchParams.get('offset') || '0', 10);");
-  lines.push('');
+  if (softDelete) {
+    // Keyset queries build their own SQL filter
+    lines.push(generateScopeLines(backend === 'pglite' && !cursorPaginated));
+  }
 
-  // Backend-specific query
-  if (backend === 'supabase') {
-    lines.push(`    const { data, error, count } = await supabase`);
-    lines.push(`      .from('${schema.tableName}')`);
-    lines.push("      .select('*', { count: 'exact' })");
-    lines.push('      .range(offset, offset + limit - 1);');
-    lines.push('');
-    lines.push('    if (error) {');
-    lines.push('      return NextResponse.json({ error: error.message }, { status: 500 });');
-    lines.push('    }');
-    lines.push('');
-    lines.push('    return NextResponse.json({');
-    lines.push(`      data: data as ${schema.pascalName}[],`);
-    lines.push('      meta: { total: count ?? 0, limit, offset }');
-    lines.push('    });');
-  } else if (backend === 'firebase') {
-    lines.push(`    const snapshot = await db.collection('${schema.tableName}')`);
-    lines.push('      .limit(limit)');
-    lines.push('      .offset(offset)');
-    lines.push('      .get();');
-    lines.push('');
-    lines.push(`    const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ${schema.pascalName}[];`);
-    lines.push('');
-    lines.push('    return NextResponse.json({ data, meta: { limit, offset } });');
-  } else if (backend === 'pglite') {
-    lines.push(`    const result = await db.query<${schema.pascalName}>(`);
-    lines.push(`      'SELECT * FROM ${schema.tableName} LIMIT $1 OFFSET $2',`);
-    lines.push('      [limit, offset]');
-    lines.push('    );');
+  if (cursorPaginated) {
+    const code = new CodeBuilder().indent().indent();
+    code.line(`const limit = parseInt(searchParams.get('limit') || '${getDefaultLimit(schema)}', 10);`);
+    code.line("const orderBy = searchParams.get('orderBy');");
+    code.line("const cursorParam = searchParams.get('cursor');");
+    code.line('const keys = getCursorSortKeys(parseOrderBy(orderBy));');
+    code.line('const cursor = cursorParam ? decodeCursor(cursorParam) : undefined;');
+    code.line();
+    generateCursorListQuery(code, schema, backend as 'supabase' | 'pglite', [
+      'return NextResponse.json({ error: error.message }, { status: 500 });',
+    ]);
+    code.line();
+    code.line('return NextResponse.json({');
+    code.line('  data: page.items,');
+    code.line(`  meta: { ${backend === 'supabase' ? 'total, ' : ''}limit, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },`);
+    code.line('});');
+    lines.push(code.toString());
+  } else {
+    lines.push("    const limit = parseInt(searchParams.get('limit') || '20', 10);");
+    lines.push("    const offset = parseInt(searchParams.get('offset') || '0', 10);");
     lines.push('');
-    lines.push('    return NextResponse.json({ data: result.rows, meta: { limit, offset } });');
+
+    // Backend-specific query
+    if (backend === 'supabase') {
+      if (softDelete) {
+        lines.push(`    let query = supabase.from('${schema.tableName}').select('*', { count: 'exact' });`);
+        lines.push(generateSupabaseScopeLines());
+        lines.push('    const { data, error, count } = await query.range(offset, offset + limit - 1);');
+      } else {
+        lines.push(`    const { data, error, count } = await supabase`);
+        lines.push(`      .from('${schema.tableName}')`);
+        lines.push("      .select('*', { count: 'exact' })");
+        lines.push('      .range(offset, offset + limit - 1);');
+      }
+      lines.push('');
+      lines.push('    if (error) {');
+      lines.push('      return NextResponse.json({ error: error.message }, { status: 500 });');
+      lines.push('    }');
+      lines.push('');
+      lines.push('    return NextResponse.json({');
+      lines.push(`      data: data as ${schema.pascalName}[],`);
+      lines.push('      meta: { total: count ?? 0, limit, offset }');
+      lines.push('    });');
+    } else if (backend === 'firebase') {
+      const collection = softDelete ? firestoreScopedCollection(`db.collection('${schema.tableName}')`) : `db.collection('${schema.tableName}')`;
+      lines.push(`    const snapshot = await ${collection}`);
+      lines.push('      .limit(limit)');
+      lines.push('      .offset(offset)');
+      lines.push('      .get();');
+      lines.push('');
+      lines.push(`    const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ${schema.pascalName}[];`);
+      lines.push('');
+      lines.push('    return NextResponse.json({ data, meta: { limit, offset } });');
+    } else if (backend === 'pglite') {
+      lines.push(`    const result = await db.query<${schema.pascalName}>(`);
+      lines.push(
+        softDelete
+          ? `      \`SELECT * FROM ${schema.tableName} WHERE \${deletedFilter} LIMIT $1 OFFSET $2\`,`
+          : `      'SELECT * FROM ${schema.tableName} LIMIT $1 OFFSET $2',`
+      );
+      lines.push('      [limit, offset]');
+      lines.push('    );');
+      lines.push('');
+      lines.push('    return NextResponse.json({ data: result.rows, meta: { limit, offset } });');
+    }
   }
 
   lines.push('  } catch (error) {');
+  if (cursorPaginated) {
+    lines.push('    if (error instanceof InvalidCursorError || error instanceof InvalidOrderByError) {');
+    lines.push('      return NextResponse.json({ error: error.message }, { status: 400 });');
+    lines.push('    }');
+  }
   lines.push("    console.error('GET error:', error);");
   lines.push("    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });");
   lines.push('  }');
@@ -168,7 +239,7 @@ export function generateRouteFile(
   }
 
   lines.push('  try {');
-  lines.push(`    const body = await request.json() as ${schema.pascalName}Create;`);
+  lines.push(`    const ${bodyBinding(links)} = await request.json() as ${schema.pascalName}Create;`);
   lines.push('');
 
   if (hasValidation) {
@@ -192,12 +263,16 @@ export function generateRouteFile(
     lines.push('      return NextResponse.json({ error: error.message }, { status: 500 });');
     lines.push('    }');
     lines.push('');
+    lines.push(...generateLinkWriteLines(schema, links, backend, 'data.id'));
     lines.push(`    return NextResponse.json(data as ${schema.pascalName}, { status: 201 });`);
   } else if (backend === 'firebase') {
     lines.push(`    const docRef = await db.collection('${schema.tableName}').add({`);
     lines.push('      ...body,');
     lines.push('      createdAt: new Date().toISOString(),');
     lines.push('      updatedAt: new Date().toISOString(),');
+    if (schema.versioned) {
+      lines.push('      version: 1,');
+    }
     lines.push('    });');
     lines.push('');
     lines.push('    const doc = await docRef.get();');
@@ -215,6 +290,7 @@ export function generateRouteFile(
     lines.push(`      [${values}]`);
     lines.push('    );');
     lines.push('');
+    lines.push(...generateLinkWriteLines(schema, links, backend, 'result.rows[0].id'));
     lines.push('    return NextResponse.json(result.rows[0], { status: 201 });');
   }
 
@@ -229,16 +305,21 @@ export function generateRouteFile(
 
 /**
  * Generate the dynamic route file (GET one, PUT update, DELETE)
+ *
+ * @param allSchemas - All schemas, to resolve the junction entities of many-to-many relations
  */
 export function generateDynamicRouteFile(
   schema: AnalyzedSchema,
   target: GenerationTarget,
-  config: SchemockConfig
+  config: SchemockConfig,
+  allSchemas: AnalyzedSchema[] = [schema]
 ): string {
   const hasNewMiddlewareConfig = config.middleware !== undefined;
   const hasAuth = hasNewMiddlewareConfig ? !!config.middleware?.auth : target.middleware?.auth !== undefined;
   const hasValidation = hasNewMiddlewareConfig ? !!config.middleware?.validation : target.middleware?.validation === true;
   const backend = target.backend || 'supabase';
+  const softDelete = schema.softDelete;
+  const links = backend === 'supabase' || backend === 'pglite' ? getLinkRelations(schema, allSchemas) : [];
 
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
@@ -269,9 +350,21 @@ export function generateDynamicRouteFile(
     lines.push("import { db } from '../../_lib/pglite';");
   }
 
+  // Import many-to-many link writer
+  if (links.length > 0) {
+    lines.push("import { writeLinks, type LinkJunction } from '../../_lib/links';");
+  }
+
   // Import types (using naming convention: UserCreate, UserUpdate)
   lines.push(`import type { ${schema.pascalName}, ${schema.pascalName}Update } from '../../_lib/types';`);
   lines.push('');
+  lines.push(...generateJunctionLines(schema, links, allSchemas));
+
+  if (schema.versioned) {
+    const helper = new CodeBuilder();
+    generateParseIfMatch(helper);
+    lines.push(helper.toString(), '');
+  }
 
   // Route params type
   lines.push('interface RouteParams {');
@@ -308,13 +401,24 @@ export function generateDynamicRouteFile(
   lines.push('  const { id } = await params;');
   lines.push('');
   lines.push('  try {');
+  if (softDelete) {
+    lines.push('    const { searchParams } = new URL(request.url);');
+    lines.push(generateScopeLines(backend === 'pglite'));
+    lines.push('');
+  }
 
   if (backend === 'supabase') {
-    lines.push(`    const { data, error } = await supabase`);
-    lines.push(`      .from('${schema.tableName}')`);
-    lines.push("      .select('*')");
-    lines.push("      .eq('id', id)");
-    lines.push('      .single();');
+    if (softDelete) {
+      lines.push(`    let query = supabase.from('${schema.tableName}').select('*').eq('id', id);`);
+      lines.push(generateSupabaseScopeLines());
+      lines.push('    const { data, error } = await query.single();');
+    } else {
+      lines.push(`    const { data, error } = await supabase`);
+      lines.push(`      .from('${schema.tableName}')`);
+      lines.push("      .select('*')");
+      lines.push("      .eq('id', id)");
+      lines.push('      .single();');
+    }
     lines.push('');
     lines.push('    if (error) {');
     lines.push("      if (error.code === 'PGRST116') {");
@@ -327,14 +431,24 @@ export function generateDynamicRouteFile(
   } else if (backend === 'firebase') {
     lines.push(`    const doc = await db.collection('${schema.tableName}').doc(id).get();`);
     lines.push('');
-    lines.push('    if (!doc.exists) {');
+    if (softDelete) {
+      lines.push('    const deletedAt = doc.data()?.deletedAt ?? null;');
+      lines.push("    const inScope = deletedScope === 'all' || (deletedScope === 'deleted') === (deletedAt !== null);");
+      lines.push('    if (!doc.exists || !inScope) {');
+    } else {
+      lines.push('    if (!doc.exists) {');
+    }
     lines.push("      return NextResponse.json({ error: 'Not found' }, { status: 404 });");
     lines.push('    }');
     lines.push('');
     lines.push(`    return NextResponse.json({ id: doc.id, ...doc.data() } as ${schema.pascalName});`);
   } else if (backend === 'pglite') {
     lines.push(`    const result = await db.query<${schema.pascalName}>(`);
-    lines.push(`      'SELECT * FROM ${schema.tableName} WHERE id = $1',`);
+    lines.push(
+      softDelete
+        ? `      \`SELECT * FROM ${schema.tableName} WHERE id = $1 AND \${deletedFilter}\`,`
+        : `      'SELECT * FROM ${schema.tableName} WHERE id = $1',`
+    );
     lines.push('      [id]');
     lines.push('    );');
     lines.push('');
@@ -376,7 +490,7 @@ export function generateDynamicRouteFile(
   lines.push('  const { id } = await params;');
   lines.push('');
   lines.push('  try {');
-  lines.push(`    const body = await request.json() as ${schema.pascalName}Update;`);
+  lines.push(`    const ${bodyBinding(links)} = await request.json() as ${schema.pascalName}Update;`);
   lines.push('');
 
   if (hasValidation) {
@@ -387,13 +501,26 @@ export function generateDynamicRouteFile(
     lines.push('');
   }
 
-  if (backend === 'supabase') {
-    lines.push(`    const { data, error } = await supabase`);
-    lines.push(`      .from('${schema.tableName}')`);
-    lines.push('      .update(body)');
-    lines.push("      .eq('id', id)");
-    lines.push('      .select()');
-    lines.push('      .single();');
+  if (schema.versioned) {
+    lines.push(...generateVersionedUpdateLines(schema, backend, links));
+  } else if (backend === 'supabase') {
+    const liveOnly = softDelete ? ".is('deletedAt', null)" : '';
+    if (links.length > 0) {
+      // A request may only change links, and an empty update is rejected
+      lines.push('    const { data, error } = Object.keys(body).length > 0');
+      lines.push(`      ? await supabase.from('${schema.tableName}').update(body).eq('id', id)${liveOnly}.select().single()`);
+      lines.push(`      : await supabase.from('${schema.tableName}').select().eq('id', id)${liveOnly}.single();`);
+    } else {
+      lines.push(`    const { data, error } = await supabase`);
+      lines.push(`      .from('${schema.tableName}')`);
+      lines.push('      .update(body)');
+      lines.push("      .eq('id', id)");
+      if (softDelete) {
+        lines.push(`      ${liveOnly}`);
+      }
+      lines.push('      .select()');
+      lines.push('      .single();');
+    }
     lines.push('');
     lines.push('    if (error) {');
     lines.push("      if (error.code === 'PGRST116') {");
@@ -402,12 +529,13 @@ export function generateDynamicRouteFile(
     lines.push('      return NextResponse.json({ error: error.message }, { status: 500 });');
     lines.push('    }');
     lines.push('');
+    lines.push(...generateLinkWriteLines(schema, links, backend, 'id'));
     lines.push(`    return NextResponse.json(data as ${schema.pascalName});`);
   } else if (backend === 'firebase') {
     lines.push(`    const docRef = db.collection('${schema.tableName}').doc(id);`);
     lines.push('    const doc = await docRef.get();');
     lines.push('');
-    lines.push('    if (!doc.exists) {');
+    lines.push(softDelete ? '    if (!doc.exists || doc.data()?.deletedAt != null) {' : '    if (!doc.exists) {');
     lines.push("      return NextResponse.json({ error: 'Not found' }, { status: 404 });");
     lines.push('    }');
     lines.push('');
@@ -417,16 +545,10 @@ export function generateDynamicRouteFile(
     lines.push(`    return NextResponse.json({ id: updated.id, ...updated.data() } as ${schema.pascalName});`);
   } else if (backend === 'pglite') {
     lines.push("    // Build dynamic UPDATE query");
-    lines.push("    const entries = Object.entries(body);");
-    lines.push("    if (entries.length === 0) {");
-    lines.push("      return NextResponse.json({ error: 'No fields to update' }, { status: 400 });");
-    lines.push("    }");
-    lines.push("");
-    lines.push("    const setClauses = entries.map(([key], i) => `${key} = $${i + 1}`).join(', ');");
-    lines.push("    const values = entries.map(([, val]) => val);");
-    lines.push("");
+    lines.push(...generateSqlSetLines(links));
     lines.push(`    const result = await db.query<${schema.pascalName}>(`);
-    lines.push(`      \`UPDATE ${schema.tableName} SET \${setClauses} WHERE id = $\${values.length + 1} RETURNING *\`,`);
+    const liveOnly = softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
+    lines.push(`      \`UPDATE ${schema.tableName} SET \${setClauses} WHERE id = $\${values.length + 1}${liveOnly} RETURNING *\`,`);
     lines.push("      [...values, id]");
     lines.push("    );");
     lines.push("");
@@ -434,6 +556,7 @@ export function generateDynamicRouteFile(
     lines.push("      return NextResponse.json({ error: 'Not found' }, { status: 404 });");
     lines.push("    }");
     lines.push("");
+    lines.push(...generateLinkWriteLines(schema, links, backend, 'id'));
     lines.push("    return NextResponse.json(result.rows[0]);");
   }
 
@@ -447,7 +570,11 @@ export function generateDynamicRouteFile(
   // DELETE handler
   lines.push('/**');
   lines.push(` * DELETE /api/${schema.pluralName}/[id]`);
-  lines.push(` * Delete a ${schema.singularName}`);
+  if (softDelete) {
+    lines.push(` * Soft delete a ${schema.singularName}, or remove it for good with ?purge=true`);
+  } else {
+    lines.push(` * Delete a ${schema.singularName}`);
+  }
   lines.push(' */');
   lines.push('export async function DELETE(request: NextRequest, { params }: RouteParams) {');
 
@@ -469,7 +596,35 @@ export function generateDynamicRouteFile(
   lines.push('');
   lines.push('  try {');
 
-  if (backend === 'supabase') {
+  if (softDelete) {
+    lines.push("    const purge = new URL(request.url).searchParams.get('purge') === 'true';");
+    if (backend === 'supabase') {
+      lines.push(`    const table = supabase.from('${schema.tableName}');`);
+      lines.push('    const { error } = purge');
+      lines.push("      ? await table.delete().eq('id', id)");
+      lines.push("      : await table.update({ deletedAt: new Date().toISOString() }).eq('id', id).is('deletedAt', null);");
+      lines.push('');
+      lines.push('    if (error) {');
+      lines.push('      return NextResponse.json({ error: error.message }, { status: 500 });');
+      lines.push('    }');
+      lines.push('');
+    } else if (backend === 'firebase') {
+      lines.push(`    const docRef = db.collection('${schema.tableName}').doc(id);`);
+      lines.push('    if (purge) {');
+      lines.push('      await docRef.delete();');
+      lines.push('    } else {');
+      lines.push('      await docRef.update({ deletedAt: new Date().toISOString() });');
+      lines.push('    }');
+    } else if (backend === 'pglite') {
+      lines.push('    await db.query(');
+      lines.push('      purge');
+      lines.push(`        ? 'DELETE FROM ${schema.tableName} WHERE id = $1'`);
+      lines.push(`        : 'UPDATE ${schema.tableName} SET "deletedAt" = NOW() WHERE id = $1 AND ${LIVE_ROWS_SQL}',`);
+      lines.push('      [id]');
+      lines.push('    );');
+    }
+    lines.push('    return new NextResponse(null, { status: 204 });');
+  } else if (backend === 'supabase') {
     lines.push(`    const { error } = await supabase`);
     lines.push(`      .from('${schema.tableName}')`);
     lines.push('      .delete()');
@@ -497,6 +652,276 @@ export function generateDynamicRouteFile(
   return lines.join('\n');
 }
 
+/**
+ * Request body binding: link changes are taken out of the body, which only
+ * holds the entity's own columns
+ */
+function bodyBinding(links: LinkRelation[]): string {
+  if (links.length === 0) return 'body';
+  return `{ ${links.map((link) => `${link.relation.name}, `).join('')}...body }`;
+}
+
+/**
+ * Junction descriptor constants of the entity's link relations
+ */
+function generateJunctionLines(schema: AnalyzedSchema, links: LinkRelation[], allSchemas: AnalyzedSchema[]): string[] {
+  if (links.length === 0) return [];
+  const code = new CodeBuilder();
+  generateJunctionConsts(code, schema, allSchemas);
+  return [code.toString(), ''];
+}
+
+/**
+ * Link writes for a row that was just written
+ */
+function generateLinkWriteLines(schema: AnalyzedSchema, links: LinkRelation[], backend: string, ownerId: string): string[] {
+  const dbVar = backend === 'supabase' ? 'supabase' : 'db';
+  return linkWriteLines(schema, links, (junction, rel) => `await writeLinks(${dbVar}, ${junction}, ${ownerId}, ${rel})`).map(
+    (line) => `    ${line}`
+  );
+}
+
+/**
+ * SET clause of a PGlite update from the request body. A body without
+ * columns is still valid when it changes links.
+ */
+function generateSqlSetLines(links: LinkRelation[]): string[] {
+  const empty = ['entries.length === 0', ...links.map((link) => `!${link.relation.name}`)].join(' && ');
+  const setClauses = "entries.map(([key], i) => `${key} = $${i + 1}`).join(', ')";
+
+  return [
+    '    const entries = Object.entries(body);',
+    `    if (${empty}) {`,
+    "      return NextResponse.json({ error: 'No fields to update' }, { status: 400 });",
+    '    }',
+    '',
+    links.length > 0
+      ? `    const setClauses = entries.length > 0 ? ${setClauses} : 'id = id';`
+      : `    const setClauses = ${setClauses};`,
+    '    const values = entries.map(([, val]) => val);',
+    '',
+  ];
+}
+
+/**
+ * Generate the PUT body for a versioned entity (If-Match required, 409 on a stale version)
+ */
+function generateVersionedUpdateLines(schema: AnalyzedSchema, backend: string, links: LinkRelation[] = []): string[] {
+  const { tableName, pascalName, softDelete } = schema;
+  const lines: string[] = [];
+
+  lines.push("    const expectedVersion = parseIfMatch(request.headers.get('If-Match'));");
+  lines.push('    if (expectedVersion === undefined) {');
+  lines.push(`      return NextResponse.json(${PRECONDITION_REQUIRED_BODY}, { status: 428 });`);
+  lines.push('    }');
+  lines.push('');
+
+  if (backend === 'supabase') {
+    const liveOnly = softDelete ? ".is('deletedAt', null)" : '';
+    lines.push(`    const { data, error } = await supabase`);
+    lines.push(`      .from('${tableName}')`);
+    lines.push('      .update({ ...body, version: expectedVersion + 1 })');
+    lines.push("      .eq('id', id)");
+    if (softDelete) {
+      lines.push(`      ${liveOnly}`);
+    }
+    lines.push("      .eq('version', expectedVersion)");
+    lines.push('      .select()');
+    lines.push('      .maybeSingle();');
+    lines.push('');
+    lines.push('    if (error) {');
+    lines.push('      return NextResponse.json({ error: error.message }, { status: 500 });');
+    lines.push('    }');
+    lines.push('');
+    lines.push('    if (!data) {');
+    lines.push(`      const { data: current } = await supabase.from('${tableName}').select().eq('id', id)${liveOnly}.maybeSingle();`);
+    lines.push('      if (!current) {');
+    lines.push("        return NextResponse.json({ error: 'Not found' }, { status: 404 });");
+    lines.push('      }');
+    lines.push(`      return NextResponse.json(${conflictBody('current')}, { status: 409 });`);
+    lines.push('    }');
+    lines.push('');
+    lines.push(...generateLinkWriteLines(schema, links, backend, 'id'));
+    lines.push(`    return NextResponse.json(data as ${pascalName});`);
+  } else if (backend === 'firebase') {
+    lines.push(`    const docRef = db.collection('${tableName}').doc(id);`);
+    lines.push('    const outcome = await db.runTransaction(async (tx) => {');
+    lines.push('      const doc = await tx.get(docRef);');
+    lines.push(softDelete ? '      if (!doc.exists || doc.data()?.deletedAt != null) return null;' : '      if (!doc.exists) return null;');
+    lines.push(`      const current = { id: doc.id, ...doc.data() } as ${pascalName};`);
+    lines.push('      if (current.version !== expectedVersion) return { conflict: true, row: current };');
+    lines.push('      const changes = { ...body, updatedAt: new Date().toISOString(), version: expectedVersion + 1 };');
+    lines.push('      tx.update(docRef, changes);');
+    lines.push(`      return { conflict: false, row: { ...current, ...changes } as ${pascalName} };`);
+    lines.push('    });');
+    lines.push('');
+    lines.push('    if (!outcome) {');
+    lines.push("      return NextResponse.json({ error: 'Not found' }, { status: 404 });");
+    lines.push('    }');
+    lines.push('    if (outcome.conflict) {');
+    lines.push(`      return NextResponse.json(${conflictBody('outcome.row')}, { status: 409 });`);
+    lines.push('    }');
+    lines.push('');
+    lines.push('    return NextResponse.json(outcome.row);');
+  } else if (backend === 'pglite') {
+    const liveOnly = softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
+    lines.push(...generateSqlSetLines(links));
+    lines.push(`    const result = await db.query<${pascalName}>(`);
+    lines.push(
+      `      \`UPDATE ${tableName} SET \${setClauses}, version = version + 1 WHERE id = $\${values.length + 1}${liveOnly} AND version = $\${values.length + 2} RETURNING *\`,`
+    );
+    lines.push('      [...values, id, expectedVersion]');
+    lines.push('    );');
+    lines.push('');
+    lines.push('    if (result.rows.length === 0) {');
+    lines.push(`      const current = await db.query<${pascalName}>('SELECT * FROM ${tableName} WHERE id = $1${liveOnly}', [id]);`);
+    lines.push('      if (current.rows.length === 0) {');
+    lines.push("        return NextResponse.json({ error: 'Not found' }, { status: 404 });");
+    lines.push('      }');
+    lines.push(`      return NextResponse.json(${conflictBody('current.rows[0]')}, { status: 409 });`);
+    lines.push('    }');
+    lines.push('');
+    lines.push(...generateLinkWriteLines(schema, links, backend, 'id'));
+    lines.push('    return NextResponse.json(result.rows[0]);');
+  }
+
+  return lines;
+}
+
+/**
+ * Generate the restore route file (POST) for a soft-delete entity
+ */
+export function generateRestoreRouteFile(
+  schema: AnalyzedSchema,
+  target: GenerationTarget,
+  config: SchemockConfig
+): string {
+  const hasNewMiddlewareConfig = config.middleware !== undefined;
+  const hasAuth = hasNewMiddlewareConfig ? !!config.middleware?.auth : target.middleware?.auth !== undefined;
+  const backend = target.backend || 'supabase';
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import { NextRequest, NextResponse } from 'next/server';",
+  ];
+
+  if (hasNewMiddlewareConfig) {
+    lines.push("import { runMiddlewareChain } from '../../../_lib/chain';");
+  } else if (hasAuth) {
+    lines.push("import { authMiddleware } from '../../../_lib/auth';");
+  }
+
+  if (backend === 'supabase') {
+    lines.push("import { supabase } from '../../../_lib/supabase';");
+  } else if (backend === 'firebase') {
+    lines.push("import { db } from '../../../_lib/firebase';");
+  } else if (backend === 'pglite') {
+    lines.push("import { db } from '../../../_lib/pglite';");
+  }
+
+  lines.push(`import type { ${schema.pascalName} } from '../../../_lib/types';`);
+  lines.push('');
+  lines.push('interface RouteParams {');
+  lines.push('  params: Promise<{ id: string }>;');
+  lines.push('}');
+  lines.push('');
+  lines.push('/**');
+  lines.push(` * POST /api/${schema.pluralName}/[id]/restore`);
+  lines.push(` * Restore a soft-deleted ${schema.singularName}`);
+  lines.push(' */');
+  lines.push('export async function POST(request: NextRequest, { params }: RouteParams) {');
+
+  if (hasNewMiddlewareConfig) {
+    lines.push('  // Run middleware chain');
+    lines.push(`  const mwResult = await runMiddlewareChain(request, '${schema.tableName}', 'update');`);
+    lines.push('  if (mwResult.error) {');
+    lines.push("    return mwResult.response ?? NextResponse.json({ error: 'Middleware error' }, { status: 500 });");
+    lines.push('  }');
+    lines.push('');
+  } else if (hasAuth) {
+    lines.push('  const authResult = await authMiddleware(request);');
+    lines.push('  if (authResult.error) return authResult.response;');
+    lines.push('');
+  }
+
+  lines.push('  const { id } = await params;');
+  lines.push('');
+  lines.push('  try {');
+
+  if (backend === 'supabase') {
+    lines.push(`    const { data, error } = await supabase`);
+    lines.push(`      .from('${schema.tableName}')`);
+    lines.push('      .update({ deletedAt: null })');
+    lines.push("      .eq('id', id)");
+    lines.push("      .not('deletedAt', 'is', null)");
+    lines.push('      .select()');
+    lines.push('      .single();');
+    lines.push('');
+    lines.push('    if (error) {');
+    lines.push("      if (error.code === 'PGRST116') {");
+    lines.push("        return NextResponse.json({ error: 'Not found' }, { status: 404 });");
+    lines.push('      }');
+    lines.push('      return NextResponse.json({ error: error.message }, { status: 500 });');
+    lines.push('    }');
+    lines.push('');
+    lines.push(`    return NextResponse.json(data as ${schema.pascalName});`);
+  } else if (backend === 'firebase') {
+    lines.push(`    const docRef = db.collection('${schema.tableName}').doc(id);`);
+    lines.push('    const doc = await docRef.get();');
+    lines.push('');
+    lines.push('    if (!doc.exists || doc.data()?.deletedAt == null) {');
+    lines.push("      return NextResponse.json({ error: 'Not found' }, { status: 404 });");
+    lines.push('    }');
+    lines.push('');
+    lines.push('    await docRef.update({ deletedAt: null });');
+    lines.push('    const restored = await docRef.get();');
+    lines.push('');
+    lines.push(`    return NextResponse.json({ id: restored.id, ...restored.data() } as ${schema.pascalName});`);
+  } else if (backend === 'pglite') {
+    lines.push(`    const result = await db.query<${schema.pascalName}>(`);
+    lines.push(`      'UPDATE ${schema.tableName} SET "deletedAt" = NULL WHERE id = $1 AND ${DELETED_ROWS_SQL} RETURNING *',`);
+    lines.push('      [id]');
+    lines.push('    );');
+    lines.push('');
+    lines.push('    if (result.rows.length === 0) {');
+    lines.push("      return NextResponse.json({ error: 'Not found' }, { status: 404 });");
+    lines.push('    }');
+    lines.push('');
+    lines.push('    return NextResponse.json(result.rows[0]);');
+  }
+
+  lines.push('  } catch (error) {');
+  lines.push("    console.error('POST error:', error);");
+  lines.push("    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });");
+  lines.push('  }');
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate the `deletedScope` read from the search params, optionally
+ * followed by its SQL `deletedFilter`
+ */
+function generateScopeLines(sqlFilter: boolean): string {
+  const code = new CodeBuilder().indent().indent();
+  generateDeletedScope(code, (param) => `searchParams.get('${param}')`);
+  if (sqlFilter) {
+    generateSqlDeletedFilter(code);
+  }
+  return code.toString();
+}
+
+/**
+ * Generate the PostgREST filters narrowing `query` to `deletedScope`
+ */
+function generateSupabaseScopeLines(): string {
+  const code = new CodeBuilder().indent().indent();
+  generateSupabaseDeletedFilter(code);
+  return code.toString();
+}
+
 /**
  * Configuration for service-based route generation
  */
@@ -558,11 +983,15 @@ export function generateServiceRouteFile(
       code.line(`return withMiddleware(getMiddleware('${name}', 'list'), request, async (ctx) => {`);
       code.indent();
       code.line('const options = parseQueryOptions(request.nextUrl);');
-      code.line(`const data = await ${singularName}Service.list(ctx, options);`);
-      code.line('return NextResponse.json({');
-      code.line('  data,');
-      code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
-      code.line('});');
+      if (isCursorPaginated(schema)) {
+        code.line(`return NextResponse.json(await ${singularName}Service.listPage(ctx, options));`);
+      } else {
+        code.line(`const data = await ${singularName}Service.list(ctx, options);`);
+        code.line('return NextResponse.json({');
+        code.line('  data,');
+        code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
+        code.line('});');
+      }
       code.dedent();
       code.line('});');
     });
@@ -704,16 +1133,22 @@ export function generateServiceDynamicRouteFile(
  * Generate query options parser for service routes
  */
 function generateServiceQueryOptionsParser(code: CodeBuilder): void {
+  generateOrderByParser(code);
+
   code.multiDocComment([
     'Parse query options from URL search params',
   ]);
-  code.block('function parseQueryOptions(url: { searchParams: URLSearchParams }): { limit?: number; offset?: number } {', () => {
+  code.block('function parseQueryOptions(url: { searchParams: URLSearchParams }): { limit?: number; offset?: number; cursor?: string; orderBy?: Record<string, "asc" | "desc"> } {', () => {
     code.line("const limit = url.searchParams.get('limit');");
     code.line("const offset = url.searchParams.get('offset');");
+    code.line("const cursor = url.searchParams.get('cursor');");
+    code.line("const orderBy = url.searchParams.get('orderBy');");
     code.line();
     code.line('return {');
     code.line('  limit: limit ? parseInt(limit, 10) : undefined,');
     code.line('  offset: offset ? parseInt(offset, 10) : undefined,');
+    code.line('  cursor: cursor ?? undefined,');
+    code.line('  orderBy: parseOrderBy(orderBy),');
     code.line('};');
   });
   code.line();
@@ -0,0 +1,97 @@
+/**
+ * Next.js View Route Template
+ *
+ * Generates Next.js App Router route files for views defined via
+ * defineView().
+ *
+ * @module cli/generators/nextjs-api/view-route-template
+ * @category CLI
+ */
+
+import type { AnalyzedView, GenerationTarget } from '../../types';
+import { getViewQueryParams, isViewBackend } from '../shared/views';
+
+/**
+ * Generate a Next.js App Router route file for a view
+ */
+export function generateViewRouteFile(
+  view: AnalyzedView,
+  target: GenerationTarget,
+  libRelativePath: string
+): string {
+  const backend = target.backend || 'supabase';
+  const supported = isViewBackend(backend);
+  const hasPathParams = supported && view.pathParams.length > 0;
+  const queryParams = getViewQueryParams(view);
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    `// View: GET ${view.endpoint}`,
+    '',
+    "import { NextRequest, NextResponse } from 'next/server';",
+  ];
+
+  if (supported) {
+    lines.push(`import { resolve${view.pascalName}View } from '${libRelativePath}/views';`);
+  }
+
+  lines.push('');
+
+  if (hasPathParams) {
+    const paramsType = view.pathParams.map((p) => `${p}: string`).join('; ');
+    lines.push('interface RouteParams {');
+    lines.push(`  params: Promise<{ ${paramsType} }>;`);
+    lines.push('}');
+    lines.push('');
+  }
+
+  lines.push('/**');
+  lines.push(` * GET ${view.endpoint}`);
+  lines.push(' */');
+  const requestArg = supported && queryParams.length > 0 ? 'request' : '_request';
+  if (hasPathParams) {
+    lines.push(`export async function GET(${requestArg}: NextRequest, { params }: RouteParams) {`);
+  } else {
+    lines.push(`export async function GET(${requestArg}: NextRequest) {`);
+  }
+
+  if (!supported) {
+    lines.push(`  // TODO: Resolve the view with the ${backend} backend`);
+    lines.push(`  return NextResponse.json({ error: 'Not implemented: GET ${view.endpoint}' }, { status: 501 });`);
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  if (hasPathParams) {
+    lines.push(`  const { ${view.pathParams.join(', ')} } = await params;`);
+    lines.push('');
+  }
+
+  lines.push('  try {');
+  if (queryParams.length > 0) {
+    lines.push('    const { searchParams } = new URL(request.url);');
+  }
+  lines.push(`    const view = await resolve${view.pascalName}View({`);
+  for (const param of view.pathParams) {
+    lines.push(`      ${param},`);
+  }
+  for (const param of queryParams) {
+    lines.push(`      ${param}: searchParams.get('${param}') ?? '',`);
+  }
+  lines.push('    });');
+  lines.push('');
+  if (view.root) {
+    lines.push('    if (!view) {');
+    lines.push(`      return NextResponse.json({ error: '${view.root.pascalName} not found' }, { status: 404 });`);
+    lines.push('    }');
+    lines.push('');
+  }
+  lines.push('    return NextResponse.json(view);');
+  lines.push('  } catch (error) {');
+  lines.push(`    console.error('GET ${view.endpoint} error:', error);`);
+  lines.push("    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });");
+  lines.push('  }');
+  lines.push('}');
+
+  return lines.join('\n');
+}
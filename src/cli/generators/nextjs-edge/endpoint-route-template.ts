@@ -0,0 +1,137 @@
+/**
+ * Next.js Edge Endpoint Route Template
+ *
+ * Generates Edge runtime route.ts files for custom endpoints
+ * defined via defineEndpoint().
+ *
+ * @module cli/generators/nextjs-edge/endpoint-route-template
+ * @category CLI
+ */
+
+import type { AnalyzedEndpoint, GenerationTarget, SchemockConfig } from '../../types';
+import {
+  generateParamParsingExpression,
+  generateEndpointTodoBody,
+  getBackendImport,
+  getQueryParams,
+} from '../shared/endpoint-helpers';
+import { getEdgeBackend } from './lib-template';
+
+/**
+ * Generate an Edge runtime route file for a custom endpoint
+ */
+export function generateEdgeEndpointRouteFile(
+  endpoint: AnalyzedEndpoint,
+  target: GenerationTarget,
+  config: SchemockConfig,
+  libRelativePath: string
+): string {
+  const backend = getEdgeBackend(target);
+  const hasMiddleware = config.middleware !== undefined;
+  const hasBody = endpoint.body.length > 0;
+  const hasParams = endpoint.params.length > 0 || endpoint.pathParams.length > 0;
+  const hasResponse = endpoint.response.length > 0;
+  const queryParams = getQueryParams(endpoint);
+  const hasPathParams = endpoint.pathParams.length > 0;
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    `// Custom endpoint: ${endpoint.method} ${endpoint.path}`,
+    '',
+  ];
+
+  if (hasMiddleware) {
+    lines.push("import { NextRequest } from 'next/server';");
+    lines.push(`import { runMiddlewareChain } from '${libRelativePath}/chain';`);
+  }
+
+  // Import backend client
+  lines.push(getBackendImport(backend, libRelativePath));
+
+  // Import endpoint types
+  const typeImports: string[] = [];
+  if (hasParams) typeImports.push(`${endpoint.pascalName}Params`);
+  if (hasBody) typeImports.push(`${endpoint.pascalName}Body`);
+  if (hasResponse) typeImports.push(`${endpoint.pascalName}Response`);
+
+  if (typeImports.length > 0) {
+    lines.push(`import type { ${typeImports.join(', ')} } from '${libRelativePath}/endpoint-types';`);
+  }
+
+  lines.push('');
+  lines.push("export const runtime = 'edge';");
+  lines.push('');
+
+  // Route params type (if path has dynamic segments)
+  if (hasPathParams) {
+    const paramsType = endpoint.pathParams.map(p => `${p}: string`).join('; ');
+    lines.push('interface RouteParams {');
+    lines.push(`  params: Promise<{ ${paramsType} }>;`);
+    lines.push('}');
+    lines.push('');
+  }
+
+  // Handler function
+  const methodName = endpoint.method.toUpperCase();
+  lines.push('/**');
+  lines.push(` * ${endpoint.method} ${endpoint.path}`);
+  if (endpoint.description) {
+    lines.push(` * ${endpoint.description}`);
+  }
+  lines.push(' */');
+
+  if (hasPathParams) {
+    lines.push(`export async function ${methodName}(request: Request, { params }: RouteParams) {`);
+  } else {
+    lines.push(`export async function ${methodName}(request: Request) {`);
+  }
+
+  if (hasMiddleware) {
+    lines.push('  const mwResult = await runMiddlewareChain(new NextRequest(request));');
+    lines.push('  if (mwResult.error) {');
+    lines.push("    return mwResult.response ?? Response.json({ error: 'Middleware error' }, { status: 500 });");
+    lines.push('  }');
+    lines.push('');
+  }
+
+  // Parse path params
+  if (hasPathParams) {
+    const destructured = endpoint.pathParams.join(', ');
+    lines.push(`  const { ${destructured} } = await params;`);
+    lines.push('');
+  }
+
+  lines.push('  try {');
+
+  // Parse query params
+  if (queryParams.length > 0) {
+    lines.push('    const { searchParams } = new URL(request.url);');
+    for (const param of queryParams) {
+      const accessPattern = `searchParams.get('${param.name}')`;
+      const parsed = generateParamParsingExpression(param, accessPattern);
+      lines.push(`    const ${param.name} = ${parsed};`);
+    }
+    lines.push('');
+  }
+
+  // Parse body
+  if (hasBody) {
+    lines.push(`    const body = await request.json() as ${endpoint.pascalName}Body;`);
+    lines.push('');
+  }
+
+  // TODO body with DB-specific example
+  lines.push(...generateEndpointTodoBody(endpoint, backend));
+  lines.push('');
+
+  // Default response
+  lines.push("    return Response.json({ error: 'Not implemented' }, { status: 501 });");
+
+  lines.push('  } catch (error) {');
+  lines.push(`    console.error('${methodName} ${endpoint.path} error:', error);`);
+  lines.push("    return Response.json({ error: 'Internal server error' }, { status: 500 });");
+  lines.push('  }');
+  lines.push('}');
+
+  return lines.join('\n');
+}
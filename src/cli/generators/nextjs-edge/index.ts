@@ -0,0 +1,235 @@
+/**
+ * Next.js Edge Generator
+ *
+ * Generates Next.js App Router route handlers that run on the Edge runtime
+ * (`export const runtime = 'edge'`). Routes use Web-standard Request/Response,
+ * an HTTP database client (Supabase REST or Neon HTTP) and the same
+ * middleware chain as the nextjs-api target.
+ *
+ * @module cli/generators/nextjs-edge
+ * @category CLI
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  AnalyzedSchema,
+  AnalyzedEndpoint,
+  AnalyzedView,
+  GenerationTarget,
+  SchemockConfig,
+  GenerateOptions,
+  AnalyzedMiddleware,
+} from '../../types';
+import { generateEdgeRouteFile, generateEdgeDynamicRouteFile, generateEdgeRestoreRouteFile } from './route-template';
+import { generateEdgeEndpointRouteFile } from './endpoint-route-template';
+import { generateEdgeViewRouteFile } from './view-route-template';
+import { generateEdgeLibFiles, getEdgeBackend } from './lib-template';
+import { generateMiddlewareFromConfig } from '../nextjs-api';
+import { generateNextjsMiddlewareChain } from '../nextjs-api/middleware-chain-template';
+import { pathToNextjsSegments } from '../nextjs-api/endpoint-route-template';
+import { generateValidation } from '../nextjs-api/lib-template';
+import { generateTypes } from '../types';
+import { generateAllEndpointInterfaces } from '../shared/endpoint-helpers';
+import { hasCursorPagination, generateCursorModule } from '../shared/cursor';
+import { generateViewResolvers, isViewBackend } from '../shared/views';
+import { generateViewTypes } from '../views';
+
+/**
+ * Generate Next.js Edge routes for entities
+ *
+ * Creates a project structure like:
+ * output/
+ *   _lib/
+ *     types.ts
+ *     supabase.ts | db.ts
+ *     chain.ts
+ *   users/
+ *     route.ts
+ *     [id]/route.ts
+ *
+ * @param allSchemas - All schemas (for type generation, ensures relations work)
+ * @param targetSchemas - Filtered schemas (for route generation)
+ * @param outputDir - Output directory
+ * @param target - Target configuration
+ * @param config - Schemock config
+ * @param options - Generation options
+ * @param customMiddleware - Analyzed custom middleware definitions (optional)
+ * @param endpoints - Analyzed custom endpoints (optional)
+ * @param views - Analyzed views (optional)
+ */
+export async function generateNextjsEdgeTarget(
+  allSchemas: AnalyzedSchema[],
+  targetSchemas: AnalyzedSchema[],
+  outputDir: string,
+  target: GenerationTarget,
+  config: SchemockConfig,
+  options: GenerateOptions,
+  customMiddleware: AnalyzedMiddleware[] = [],
+  endpoints: AnalyzedEndpoint[] = [],
+  views: AnalyzedView[] = []
+): Promise<string[]> {
+  const files: string[] = [];
+  const backend = getEdgeBackend(target);
+
+  // Create _lib directory for shared code
+  const libDir = join(outputDir, '_lib');
+  if (!options.dryRun) {
+    await mkdir(libDir, { recursive: true });
+  }
+
+  // Create custom middleware directory if needed
+  if (customMiddleware.length > 0 && !options.dryRun) {
+    await mkdir(join(libDir, 'custom'), { recursive: true });
+  }
+
+  // Generate TypeScript types in _lib (ALL schemas to preserve relations)
+  let typesCode = generateTypes(allSchemas);
+  if (views.length > 0) {
+    typesCode += generateViewTypes(views);
+  }
+  await writeOutput(join(libDir, 'types.ts'), typesCode, options.dryRun);
+  files.push('_lib/types.ts');
+  console.log('   ✓ _lib/types.ts');
+
+  // Middleware (v1.0 config) - same templates as nextjs-api, in edge mode
+  if (config.middleware !== undefined) {
+    const generatedMiddleware = await generateMiddlewareFromConfig(
+      libDir,
+      config,
+      targetSchemas,
+      customMiddleware,
+      options.dryRun,
+      { edge: true }
+    );
+    files.push(...generatedMiddleware);
+
+    const chainCode = generateNextjsMiddlewareChain(config, customMiddleware);
+    await writeOutput(join(libDir, 'chain.ts'), chainCode, options.dryRun);
+    files.push('_lib/chain.ts');
+    console.log('   ✓ _lib/chain.ts');
+  } else if (target.middleware?.validation) {
+    const validationCode = generateValidation(targetSchemas);
+    await writeOutput(join(libDir, 'validate.ts'), validationCode, options.dryRun);
+    files.push('_lib/validate.ts');
+    console.log('   ✓ _lib/validate.ts');
+  }
+
+  // Edge-compatible database client
+  for (const [filename, content] of Object.entries(generateEdgeLibFiles(target))) {
+    await writeOutput(join(libDir, filename), content, options.dryRun);
+    files.push(`_lib/${filename}`);
+    console.log(`   ✓ _lib/${filename}`);
+  }
+
+  // Cursor pagination helpers for keyset-paginated entities
+  if (hasCursorPagination(targetSchemas)) {
+    await writeOutput(join(libDir, 'cursor.ts'), generateCursorModule(backend), options.dryRun);
+    files.push('_lib/cursor.ts');
+    console.log('   ✓ _lib/cursor.ts');
+  }
+
+  // Generate routes for TARGET schemas only (filtered)
+  for (const schema of targetSchemas) {
+    if (schema.isJunctionTable) continue;
+
+    const entityDir = join(outputDir, schema.pluralName);
+    const dynamicDir = join(entityDir, '[id]');
+    if (!options.dryRun) {
+      await mkdir(dynamicDir, { recursive: true });
+    }
+
+    const collectionRoute = generateEdgeRouteFile(schema, target, config);
+    await writeOutput(join(entityDir, 'route.ts'), collectionRoute, options.dryRun);
+    files.push(`${schema.pluralName}/route.ts`);
+
+    const dynamicRoute = generateEdgeDynamicRouteFile(schema, target, config);
+    await writeOutput(join(dynamicDir, 'route.ts'), dynamicRoute, options.dryRun);
+    files.push(`${schema.pluralName}/[id]/route.ts`);
+
+    if (schema.softDelete) {
+      const restoreDir = join(dynamicDir, 'restore');
+      if (!options.dryRun) {
+        await mkdir(restoreDir, { recursive: true });
+      }
+      const restoreRoute = generateEdgeRestoreRouteFile(schema, target, config);
+      await writeOutput(join(restoreDir, 'route.ts'), restoreRoute, options.dryRun);
+      files.push(`${schema.pluralName}/[id]/restore/route.ts`);
+    }
+
+    console.log(`   ✓ ${schema.pluralName}/ (collection + [id] routes)`);
+  }
+
+  // Generate custom endpoint routes
+  if (endpoints.length > 0) {
+    const apiPrefix = config.apiPrefix || '/api';
+
+    const endpointTypesCode = generateAllEndpointInterfaces(endpoints);
+    await writeOutput(join(libDir, 'endpoint-types.ts'), endpointTypesCode, options.dryRun);
+    files.push('_lib/endpoint-types.ts');
+    console.log('   ✓ _lib/endpoint-types.ts');
+
+    for (const endpoint of endpoints) {
+      const segments = pathToNextjsSegments(endpoint.path, apiPrefix);
+      const routeDir = join(outputDir, ...segments);
+
+      if (!options.dryRun) {
+        await mkdir(routeDir, { recursive: true });
+      }
+
+      const libRelativePath = '../'.repeat(segments.length) + '_lib';
+      const routeCode = generateEdgeEndpointRouteFile(endpoint, target, config, libRelativePath);
+      await writeOutput(join(routeDir, 'route.ts'), routeCode, options.dryRun);
+
+      const routePath = segments.join('/') + '/route.ts';
+      files.push(routePath);
+      console.log(`   ✓ ${routePath} (${endpoint.method} ${endpoint.path})`);
+    }
+  }
+
+  // Generate view routes
+  if (views.length > 0) {
+    const apiPrefix = config.apiPrefix || '/api';
+
+    if (isViewBackend(backend)) {
+      const resolversCode = generateViewResolvers(views, { backend, dbImport: './supabase', typesImport: './types' });
+      await writeOutput(join(libDir, 'views.ts'), resolversCode, options.dryRun);
+      files.push('_lib/views.ts');
+      console.log('   ✓ _lib/views.ts');
+    }
+
+    for (const view of views) {
+      const segments = pathToNextjsSegments(view.endpoint, apiPrefix);
+      const routeDir = join(outputDir, ...segments);
+
+      if (!options.dryRun) {
+        await mkdir(routeDir, { recursive: true });
+      }
+
+      const libRelativePath = '../'.repeat(segments.length) + '_lib';
+      const routeCode = generateEdgeViewRouteFile(view, target, libRelativePath);
+      await writeOutput(join(routeDir, 'route.ts'), routeCode, options.dryRun);
+
+      const routePath = segments.join('/') + '/route.ts';
+      files.push(routePath);
+      console.log(`   ✓ ${routePath} (view GET ${view.endpoint})`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Write output file (or show dry-run message)
+ */
+async function writeOutput(
+  path: string,
+  content: string,
+  dryRun?: boolean
+): Promise<void> {
+  if (dryRun) {
+    console.log(`   [DRY RUN] Would write: ${path}`);
+    return;
+  }
+  await writeFile(path, content, 'utf-8');
+}
@@ -0,0 +1,119 @@
+/**
+ * Next.js Edge Library Templates
+ *
+ * Generates edge-compatible database clients for Next.js Edge routes.
+ * Only HTTP-based drivers are used so no Node.js APIs are required.
+ *
+ * @module cli/generators/nextjs-edge/lib-template
+ * @category CLI
+ */
+
+import type { GenerationTarget } from '../../types';
+
+/**
+ * Database backends that run on the Edge runtime
+ */
+export type EdgeBackend = 'supabase' | 'neon';
+
+/**
+ * Resolve the edge backend for a target
+ *
+ * @param target - Target configuration
+ * @returns The edge backend (defaults to supabase)
+ * @throws Error if the configured backend cannot run on the Edge runtime
+ */
+export function getEdgeBackend(target: GenerationTarget): EdgeBackend {
+  const backend = target.backend || 'supabase';
+  if (backend !== 'supabase' && backend !== 'neon') {
+    throw new Error(
+      `Next.js Edge target does not support backend '${backend}'. Use 'supabase' (REST) or 'neon' (HTTP).`
+    );
+  }
+  return backend;
+}
+
+/**
+ * Generate all library files for the target
+ */
+export function generateEdgeLibFiles(target: GenerationTarget): Record<string, string> {
+  const files: Record<string, string> = {};
+
+  if (getEdgeBackend(target) === 'supabase') {
+    files['supabase.ts'] = generateSupabaseRestClient(target);
+  } else {
+    files['db.ts'] = generateNeonHttpClient(target);
+  }
+
+  return files;
+}
+
+/**
+ * Generate Supabase client (PostgREST over fetch)
+ */
+function generateSupabaseRestClient(target: GenerationTarget): string {
+  const envPrefix = (target.options?.envPrefix as string) || 'NEXT_PUBLIC_SUPABASE';
+
+  return [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import { createClient } from '@supabase/supabase-js';",
+    '',
+    `const supabaseUrl = process.env.${envPrefix}_URL!;`,
+    `const supabaseKey = process.env.${envPrefix}_ANON_KEY!;`,
+    '',
+    'if (!supabaseUrl || !supabaseKey) {',
+    "  throw new Error('Missing Supabase environment variables');",
+    '}',
+    '',
+    '// Edge routes are stateless: no session persistence or token refresh timers',
+    'export const supabase = createClient(supabaseUrl, supabaseKey, {',
+    '  auth: { persistSession: false, autoRefreshToken: false },',
+    '});',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate Neon client (HTTP driver, one query per request)
+ */
+function generateNeonHttpClient(target: GenerationTarget): string {
+  const envVar = (target.options?.connectionEnvVar as string) || 'DATABASE_URL';
+
+  return [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '',
+    "import { neon } from '@neondatabase/serverless';",
+    '',
+    `const connectionString = process.env.${envVar};`,
+    '',
+    'if (!connectionString) {',
+    `  throw new Error('Missing ${envVar} environment variable');`,
+    '}',
+    '',
+    '/**',
+    ' * SQL function over Neon HTTP',
+    ' *',
+    ' * @example',
+    ' * const users = await sql`SELECT * FROM users WHERE id = ${id}`;',
+    " * const rows = await sql('SELECT * FROM users WHERE id = $1', [id]);",
+    ' */',
+    'export const sql = neon(connectionString);',
+    '',
+    '/**',
+    ' * Map PostgreSQL error codes to HTTP status',
+    ' */',
+    'export function mapPgError(error: unknown): { status: number; message: string } {',
+    '  const pgError = error as { code?: string; message?: string };',
+    '',
+    '  switch (pgError.code) {',
+    "    case '23505': return { status: 409, message: 'Duplicate entry' };",
+    "    case '23503': return { status: 400, message: 'Foreign key violation' };",
+    "    case '23502': return { status: 400, message: 'Not null violation' };",
+    "    case '23514': return { status: 400, message: 'Check constraint violation' };",
+    "    case '42501': return { status: 403, message: 'Permission denied' };",
+    "    default: return { status: 500, message: pgError.message || 'Database error' };",
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,546 @@
+/**
+ * Next.js Edge Route Templates
+ *
+ * Generates App Router route.ts files that run on the Edge runtime.
+ * Handlers use the Web-standard Request/Response API and an HTTP-based
+ * database client (Supabase REST or Neon HTTP), so no Node.js APIs are used.
+ *
+ * @module cli/generators/nextjs-edge/route-template
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, GenerationTarget, SchemockConfig } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { isCursorPaginated, getDefaultLimit, generateCursorListQuery } from '../shared/cursor';
+import {
+  LIVE_ROWS_SQL,
+  DELETED_ROWS_SQL,
+  generateDeletedScope,
+  generateSqlDeletedFilter,
+  generateSupabaseDeletedFilter,
+} from '../shared/soft-delete';
+import { getEdgeBackend, type EdgeBackend } from './lib-template';
+
+/**
+ * Per-route generation settings shared by the collection and dynamic routes
+ */
+interface EdgeRouteContext {
+  schema: AnalyzedSchema;
+  backend: EdgeBackend;
+  hasMiddleware: boolean;
+  hasValidation: boolean;
+  cursorPaginated: boolean;
+  libPath: string;
+}
+
+/**
+ * Generate the collection route file (GET list, POST create)
+ */
+export function generateEdgeRouteFile(
+  schema: AnalyzedSchema,
+  target: GenerationTarget,
+  config: SchemockConfig
+): string {
+  const ctx = createRouteContext(schema, target, config, '../_lib');
+  const { pascalName, pluralName, singularName } = schema;
+  const code = new CodeBuilder();
+
+  generateRouteImports(code, ctx, [pascalName, `${pascalName}Create`], `validate${pascalName}`, ctx.cursorPaginated);
+
+  // GET - list
+  code.multiDocComment([`GET /api/${pluralName}`, `List all ${pluralName}`]);
+  code.block('export async function GET(request: Request) {', () => {
+    generateMiddlewareCall(code, ctx, 'select', true);
+    code.block('try {', () => {
+      code.line('const { searchParams } = new URL(request.url);');
+      if (schema.softDelete) {
+        generateScope(code);
+      }
+      if (ctx.cursorPaginated) {
+        generateCursorList(code, ctx);
+      } else {
+        generateOffsetList(code, ctx);
+      }
+    }, '} catch (error) {');
+    code.indent();
+    if (ctx.cursorPaginated) {
+      code.block('if (error instanceof InvalidCursorError || error instanceof InvalidOrderByError) {', () => {
+        code.line('return Response.json({ error: error.message }, { status: 400 });');
+      });
+    }
+    generateErrorResponse(code, ctx, `GET /api/${pluralName}`, false);
+    code.dedent();
+    code.line('}');
+  });
+  code.line();
+
+  // POST - create
+  code.multiDocComment([`POST /api/${pluralName}`, `Create a new ${singularName}`]);
+  code.block('export async function POST(request: Request) {', () => {
+    generateMiddlewareCall(code, ctx, 'insert', false);
+    code.block('try {', () => {
+      code.line(`const body = await request.json() as ${pascalName}Create;`);
+      code.line();
+      if (ctx.hasValidation) {
+        code.line(`const validation = validate${pascalName}(body);`);
+        code.block('if (!validation.valid) {', () => {
+          code.line('return Response.json({ errors: validation.errors }, { status: 400 });');
+        });
+        code.line();
+      }
+      generateCreate(code, ctx);
+    }, '} catch (error) {');
+    code.indent();
+    generateErrorResponse(code, ctx, `POST /api/${pluralName}`, true);
+    code.dedent();
+    code.line('}');
+  });
+
+  return code.toString();
+}
+
+/**
+ * Generate the dynamic route file (GET one, PUT update, DELETE)
+ */
+export function generateEdgeDynamicRouteFile(
+  schema: AnalyzedSchema,
+  target: GenerationTarget,
+  config: SchemockConfig
+): string {
+  const ctx = createRouteContext(schema, target, config, '../../_lib');
+  const { pascalName, pluralName, singularName } = schema;
+  const code = new CodeBuilder();
+
+  generateRouteImports(code, ctx, [pascalName, `${pascalName}Update`], `validate${pascalName}Update`, false);
+
+  code.block('interface RouteParams {', () => {
+    code.line('params: Promise<{ id: string }>;');
+  });
+  code.line();
+
+  // GET - single
+  code.multiDocComment([`GET /api/${pluralName}/[id]`, `Get a single ${singularName} by ID`]);
+  code.block('export async function GET(request: Request, { params }: RouteParams) {', () => {
+    generateMiddlewareCall(code, ctx, 'select', true);
+    code.line('const { id } = await params;');
+    code.line();
+    code.block('try {', () => {
+      if (schema.softDelete) {
+        code.line('const { searchParams } = new URL(request.url);');
+        generateScope(code);
+        code.line();
+      }
+      generateGetOne(code, ctx);
+    }, '} catch (error) {');
+    code.indent();
+    generateErrorResponse(code, ctx, `GET /api/${pluralName}/[id]`, false);
+    code.dedent();
+    code.line('}');
+  });
+  code.line();
+
+  // PUT - update
+  code.multiDocComment([`PUT /api/${pluralName}/[id]`, `Update a ${singularName}`]);
+  code.block('export async function PUT(request: Request, { params }: RouteParams) {', () => {
+    generateMiddlewareCall(code, ctx, 'update', false);
+    code.line('const { id } = await params;');
+    code.line();
+    code.block('try {', () => {
+      code.line(`const body = await request.json() as ${pascalName}Update;`);
+      code.line();
+      if (ctx.hasValidation) {
+        code.line(`const validation = validate${pascalName}Update(body);`);
+        code.block('if (!validation.valid) {', () => {
+          code.line('return Response.json({ errors: validation.errors }, { status: 400 });');
+        });
+        code.line();
+      }
+      generateUpdate(code, ctx);
+    }, '} catch (error) {');
+    code.indent();
+    generateErrorResponse(code, ctx, `PUT /api/${pluralName}/[id]`, true);
+    code.dedent();
+    code.line('}');
+  });
+  code.line();
+
+  // DELETE
+  code.multiDocComment([
+    `DELETE /api/${pluralName}/[id]`,
+    schema.softDelete
+      ? `Soft delete a ${singularName}, or remove it for good with ?purge=true`
+      : `Delete a ${singularName}`,
+  ]);
+  code.block('export async function DELETE(request: Request, { params }: RouteParams) {', () => {
+    generateMiddlewareCall(code, ctx, 'delete', false);
+    code.line('const { id } = await params;');
+    code.line();
+    code.block('try {', () => {
+      generateDelete(code, ctx);
+    }, '} catch (error) {');
+    code.indent();
+    generateErrorResponse(code, ctx, `DELETE /api/${pluralName}/[id]`, true);
+    code.dedent();
+    code.line('}');
+  });
+
+  return code.toString();
+}
+
+/**
+ * Generate the restore route file (POST) for a soft-delete entity
+ */
+export function generateEdgeRestoreRouteFile(
+  schema: AnalyzedSchema,
+  target: GenerationTarget,
+  config: SchemockConfig
+): string {
+  const ctx = createRouteContext(schema, target, config, '../../../_lib');
+  const { pascalName, pluralName, singularName, tableName } = schema;
+  const code = new CodeBuilder();
+
+  generateRouteImports(code, { ...ctx, hasValidation: false }, [pascalName], '', false);
+
+  code.block('interface RouteParams {', () => {
+    code.line('params: Promise<{ id: string }>;');
+  });
+  code.line();
+
+  code.multiDocComment([`POST /api/${pluralName}/[id]/restore`, `Restore a soft-deleted ${singularName}`]);
+  code.block('export async function POST(request: Request, { params }: RouteParams) {', () => {
+    generateMiddlewareCall(code, ctx, 'update', false);
+    code.line('const { id } = await params;');
+    code.line();
+    code.block('try {', () => {
+      if (ctx.backend === 'supabase') {
+        code.line('const { data, error } = await supabase');
+        code.line(`  .from('${tableName}')`);
+        code.line('  .update({ deletedAt: null })');
+        code.line("  .eq('id', id)");
+        code.line("  .not('deletedAt', 'is', null)");
+        code.line('  .select()');
+        code.line('  .single();');
+        code.line();
+        generateSupabaseNotFound(code);
+        code.line(`return Response.json(data as ${pascalName});`);
+      } else {
+        code.line(`const rows = await sql\`UPDATE "${tableName}" SET "deletedAt" = NULL WHERE "id" = \${id} AND ${DELETED_ROWS_SQL} RETURNING *\` as ${pascalName}[];`);
+        code.line();
+        generateNeonNotFound(code);
+        code.line('return Response.json(rows[0]);');
+      }
+    }, '} catch (error) {');
+    code.indent();
+    generateErrorResponse(code, ctx, `POST /api/${pluralName}/[id]/restore`, true);
+    code.dedent();
+    code.line('}');
+  });
+
+  return code.toString();
+}
+
+/**
+ * Read the soft delete scope from `searchParams`
+ */
+function generateScope(code: CodeBuilder): void {
+  generateDeletedScope(code, (param) => `searchParams.get('${param}')`);
+}
+
+function createRouteContext(
+  schema: AnalyzedSchema,
+  target: GenerationTarget,
+  config: SchemockConfig,
+  libPath: string
+): EdgeRouteContext {
+  const hasMiddleware = config.middleware !== undefined;
+  return {
+    schema,
+    backend: getEdgeBackend(target),
+    hasMiddleware,
+    hasValidation: hasMiddleware ? !!config.middleware?.validation : target.middleware?.validation === true,
+    cursorPaginated: isCursorPaginated(schema),
+    libPath,
+  };
+}
+
+/**
+ * Header, imports and the runtime segment config
+ */
+function generateRouteImports(
+  code: CodeBuilder,
+  ctx: EdgeRouteContext,
+  typeNames: string[],
+  validatorName: string,
+  withCursor: boolean
+): void {
+  const { backend, libPath } = ctx;
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.line();
+
+  if (ctx.hasMiddleware) {
+    code.line("import { NextRequest } from 'next/server';");
+    code.line(`import { runMiddlewareChain } from '${libPath}/chain';`);
+  }
+  if (ctx.hasValidation) {
+    code.line(`import { ${validatorName} } from '${libPath}/validate';`);
+  }
+  if (backend === 'supabase') {
+    code.line(`import { supabase } from '${libPath}/supabase';`);
+  } else {
+    code.line(`import { sql, mapPgError } from '${libPath}/db';`);
+  }
+  if (withCursor) {
+    const helpers = backend === 'supabase'
+      ? 'isCursorAscending, buildCursorFilter'
+      : 'buildCursorWhere, buildCursorOrderBy';
+    code.line(`import { getCursorSortKeys, decodeCursor, parseOrderBy, toCursorPage, ${helpers}, InvalidCursorError, InvalidOrderByError } from '${libPath}/cursor';`);
+  }
+  code.line(`import type { ${typeNames.join(', ')} } from '${libPath}/types';`);
+  code.line();
+  code.line("export const runtime = 'edge';");
+  code.line();
+}
+
+/**
+ * Run the shared middleware chain (Next.js middleware expects a NextRequest)
+ */
+function generateMiddlewareCall(
+  code: CodeBuilder,
+  ctx: EdgeRouteContext,
+  operation: 'select' | 'insert' | 'update' | 'delete',
+  allowCached: boolean
+): void {
+  if (!ctx.hasMiddleware) return;
+
+  code.line(`const mwResult = await runMiddlewareChain(new NextRequest(request), '${ctx.schema.tableName}', '${operation}');`);
+  code.block('if (mwResult.error) {', () => {
+    code.line("return mwResult.response ?? Response.json({ error: 'Middleware error' }, { status: 500 });");
+  });
+  if (allowCached) {
+    code.comment('Cached response');
+    code.block('if (mwResult.response) {', () => {
+      code.line('return mwResult.response;');
+    });
+  }
+  code.line();
+}
+
+function generateOffsetList(code: CodeBuilder, ctx: EdgeRouteContext): void {
+  const { pascalName, tableName } = ctx.schema;
+
+  code.line("const limit = parseInt(searchParams.get('limit') || '20', 10);");
+  code.line("const offset = parseInt(searchParams.get('offset') || '0', 10);");
+  code.line();
+
+  if (ctx.backend === 'supabase') {
+    if (ctx.schema.softDelete) {
+      code.line(`let query = supabase.from('${tableName}').select('*', { count: 'exact' });`);
+      generateSupabaseDeletedFilter(code);
+      code.line('const { data, error, count } = await query.range(offset, offset + limit - 1);');
+    } else {
+      code.line('const { data, error, count } = await supabase');
+      code.line(`  .from('${tableName}')`);
+      code.line("  .select('*', { count: 'exact' })");
+      code.line('  .range(offset, offset + limit - 1);');
+    }
+    code.line();
+    code.block('if (error) {', () => {
+      code.line('return Response.json({ error: error.message }, { status: 500 });');
+    });
+    code.line();
+    code.line(`return Response.json({ data: data as ${pascalName}[], meta: { total: count ?? 0, limit, offset } });`);
+  } else if (ctx.schema.softDelete) {
+    generateSqlDeletedFilter(code);
+    code.line(`const [{ total }] = await sql(\`SELECT COUNT(*)::int AS total FROM "${tableName}" WHERE \${deletedFilter}\`);`);
+    code.line(`const data = await sql(`);
+    code.line(`  \`SELECT * FROM "${tableName}" WHERE \${deletedFilter} ORDER BY "id" LIMIT $1 OFFSET $2\`,`);
+    code.line('  [limit, offset]');
+    code.line(`) as ${pascalName}[];`);
+    code.line();
+    code.line('return Response.json({ data, meta: { total, limit, offset } });');
+  } else {
+    code.line(`const [{ total }] = await sql\`SELECT COUNT(*)::int AS total FROM "${tableName}"\`;`);
+    code.line(`const data = await sql\`SELECT * FROM "${tableName}" ORDER BY "id" LIMIT \${limit} OFFSET \${offset}\` as ${pascalName}[];`);
+    code.line();
+    code.line('return Response.json({ data, meta: { total, limit, offset } });');
+  }
+}
+
+function generateCursorList(code: CodeBuilder, ctx: EdgeRouteContext): void {
+  code.line(`const limit = parseInt(searchParams.get('limit') || '${getDefaultLimit(ctx.schema)}', 10);`);
+  code.line("const orderBy = searchParams.get('orderBy');");
+  code.line("const cursorParam = searchParams.get('cursor');");
+  code.line('const keys = getCursorSortKeys(parseOrderBy(orderBy));');
+  code.line('const cursor = cursorParam ? decodeCursor(cursorParam) : undefined;');
+  code.line();
+  generateCursorListQuery(code, ctx.schema, ctx.backend, [
+    'return Response.json({ error: error.message }, { status: 500 });',
+  ]);
+  code.line();
+  code.line('return Response.json({');
+  code.line('  data: page.items,');
+  code.line(`  meta: { ${ctx.backend === 'supabase' ? 'total, ' : ''}limit, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },`);
+  code.line('});');
+}
+
+function generateCreate(code: CodeBuilder, ctx: EdgeRouteContext): void {
+  const { pascalName, tableName } = ctx.schema;
+
+  if (ctx.backend === 'supabase') {
+    code.line(`const { data, error } = await supabase.from('${tableName}').insert(body).select().single();`);
+    code.line();
+    code.block('if (error) {', () => {
+      code.line('return Response.json({ error: error.message }, { status: 500 });');
+    });
+    code.line();
+    code.line(`return Response.json(data as ${pascalName}, { status: 201 });`);
+  } else {
+    generateColumnAllowList(code, ctx);
+    code.line('const entries = Object.entries(body).filter(([key, value]) => COLUMNS.has(key) && value !== undefined);');
+    code.line('const columns = entries.map(([key]) => `"${key}"`).join(\', \');');
+    code.line('const placeholders = entries.map((_, i) => `$${i + 1}`).join(\', \');');
+    code.line(`const rows = await sql(`);
+    code.line(`  \`INSERT INTO "${tableName}" (\${columns}) VALUES (\${placeholders}) RETURNING *\`,`);
+    code.line('  entries.map(([, value]) => value)');
+    code.line(`) as ${pascalName}[];`);
+    code.line();
+    code.line('return Response.json(rows[0], { status: 201 });');
+  }
+}
+
+function generateGetOne(code: CodeBuilder, ctx: EdgeRouteContext): void {
+  const { pascalName, tableName } = ctx.schema;
+
+  if (ctx.backend === 'supabase') {
+    if (ctx.schema.softDelete) {
+      code.line(`let query = supabase.from('${tableName}').select('*').eq('id', id);`);
+      generateSupabaseDeletedFilter(code);
+      code.line('const { data, error } = await query.single();');
+    } else {
+      code.line(`const { data, error } = await supabase.from('${tableName}').select('*').eq('id', id).single();`);
+    }
+    code.line();
+    generateSupabaseNotFound(code);
+    code.line(`return Response.json(data as ${pascalName});`);
+  } else if (ctx.schema.softDelete) {
+    generateSqlDeletedFilter(code);
+    code.line(`const rows = await sql(\`SELECT * FROM "${tableName}" WHERE "id" = $1 AND \${deletedFilter}\`, [id]) as ${pascalName}[];`);
+    code.line();
+    generateNeonNotFound(code);
+    code.line('return Response.json(rows[0]);');
+  } else {
+    code.line(`const rows = await sql\`SELECT * FROM "${tableName}" WHERE "id" = \${id}\` as ${pascalName}[];`);
+    code.line();
+    generateNeonNotFound(code);
+    code.line('return Response.json(rows[0]);');
+  }
+}
+
+function generateUpdate(code: CodeBuilder, ctx: EdgeRouteContext): void {
+  const { pascalName, tableName } = ctx.schema;
+
+  if (ctx.backend === 'supabase') {
+    const liveOnly = ctx.schema.softDelete ? ".is('deletedAt', null)" : '';
+    code.line(`const { data, error } = await supabase.from('${tableName}').update(body).eq('id', id)${liveOnly}.select().single();`);
+    code.line();
+    generateSupabaseNotFound(code);
+    code.line(`return Response.json(data as ${pascalName});`);
+  } else {
+    generateColumnAllowList(code, ctx);
+    code.line('const entries = Object.entries(body).filter(([key, value]) => COLUMNS.has(key) && value !== undefined);');
+    code.block('if (entries.length === 0) {', () => {
+      code.line("return Response.json({ error: 'No fields to update' }, { status: 400 });");
+    });
+    code.line();
+    code.line('const setClause = entries.map(([key], i) => `"${key}" = $${i + 1}`).join(\', \');');
+    code.line(`const rows = await sql(`);
+    const liveOnly = ctx.schema.softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
+    code.line(`  \`UPDATE "${tableName}" SET \${setClause} WHERE "id" = $\${entries.length + 1}${liveOnly} RETURNING *\`,`);
+    code.line('  [...entries.map(([, value]) => value), id]');
+    code.line(`) as ${pascalName}[];`);
+    code.line();
+    generateNeonNotFound(code);
+    code.line('return Response.json(rows[0]);');
+  }
+}
+
+function generateDelete(code: CodeBuilder, ctx: EdgeRouteContext): void {
+  const { tableName } = ctx.schema;
+
+  if (ctx.schema.softDelete) {
+    code.line("const purge = new URL(request.url).searchParams.get('purge') === 'true';");
+  }
+
+  if (ctx.backend === 'supabase' && ctx.schema.softDelete) {
+    code.line(`const table = supabase.from('${tableName}');`);
+    code.line('const { error } = purge');
+    code.line("  ? await table.delete().eq('id', id)");
+    code.line("  : await table.update({ deletedAt: new Date().toISOString() }).eq('id', id).is('deletedAt', null);");
+    code.line();
+    code.block('if (error) {', () => {
+      code.line('return Response.json({ error: error.message }, { status: 500 });');
+    });
+    code.line();
+  } else if (ctx.schema.softDelete) {
+    code.line('const rows = purge');
+    code.line(`  ? await sql\`DELETE FROM "${tableName}" WHERE "id" = \${id} RETURNING "id"\``);
+    code.line(`  : await sql\`UPDATE "${tableName}" SET "deletedAt" = NOW() WHERE "id" = \${id} AND ${LIVE_ROWS_SQL} RETURNING "id"\`;`);
+    code.line();
+    generateNeonNotFound(code);
+  } else if (ctx.backend === 'supabase') {
+    code.line(`const { error } = await supabase.from('${tableName}').delete().eq('id', id);`);
+    code.line();
+    code.block('if (error) {', () => {
+      code.line('return Response.json({ error: error.message }, { status: 500 });');
+    });
+    code.line();
+  } else {
+    code.line(`const rows = await sql\`DELETE FROM "${tableName}" WHERE "id" = \${id} RETURNING "id"\`;`);
+    code.line();
+    generateNeonNotFound(code);
+  }
+  code.line('return new Response(null, { status: 204 });');
+}
+
+/**
+ * Writable columns; request bodies are filtered against this list because
+ * column names are interpolated into dynamic SQL.
+ */
+function generateColumnAllowList(code: CodeBuilder, ctx: EdgeRouteContext): void {
+  const columns = ctx.schema.fields
+    .filter((f) => f.name !== 'id' && !f.readOnly && !f.isComputed && f.type !== 'relation')
+    .map((f) => `'${f.name}'`);
+  code.line(`const COLUMNS = new Set([${columns.join(', ')}]);`);
+}
+
+function generateSupabaseNotFound(code: CodeBuilder): void {
+  code.block('if (error) {', () => {
+    code.block("if (error.code === 'PGRST116') {", () => {
+      code.line("return Response.json({ error: 'Not found' }, { status: 404 });");
+    });
+    code.line('return Response.json({ error: error.message }, { status: 500 });');
+  });
+  code.line();
+}
+
+function generateNeonNotFound(code: CodeBuilder): void {
+  code.block('if (rows.length === 0) {', () => {
+    code.line("return Response.json({ error: 'Not found' }, { status: 404 });");
+  });
+  code.line();
+}
+
+/**
+ * Catch-block body: database constraint errors map to 4xx for Neon writes
+ */
+function generateErrorResponse(code: CodeBuilder, ctx: EdgeRouteContext, label: string, isWrite: boolean): void {
+  if (ctx.backend === 'neon' && isWrite) {
+    code.line('const pgError = mapPgError(error);');
+    code.block('if (pgError.status !== 500) {', () => {
+      code.line('return Response.json({ error: pgError.message }, { status: pgError.status });');
+    });
+  }
+  code.line(`console.error('${label} error:', error);`);
+  code.line("return Response.json({ error: 'Internal server error' }, { status: 500 });");
+}
@@ -0,0 +1,101 @@
+/**
+ * Next.js Edge View Route Template
+ *
+ * Generates Edge runtime route.ts files for views defined via defineView().
+ * Views resolve through Supabase REST; the Neon backend gets a 501 stub.
+ *
+ * @module cli/generators/nextjs-edge/view-route-template
+ * @category CLI
+ */
+
+import type { AnalyzedView, GenerationTarget } from '../../types';
+import { getViewQueryParams, isViewBackend } from '../shared/views';
+import { getEdgeBackend } from './lib-template';
+
+/**
+ * Generate an Edge runtime route file for a view
+ */
+export function generateEdgeViewRouteFile(
+  view: AnalyzedView,
+  target: GenerationTarget,
+  libRelativePath: string
+): string {
+  const backend = getEdgeBackend(target);
+  const supported = isViewBackend(backend);
+  const hasPathParams = supported && view.pathParams.length > 0;
+  const queryParams = getViewQueryParams(view);
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    `// View: GET ${view.endpoint}`,
+    '',
+  ];
+
+  if (supported) {
+    lines.push(`import { resolve${view.pascalName}View } from '${libRelativePath}/views';`);
+    lines.push('');
+  }
+
+  lines.push("export const runtime = 'edge';");
+  lines.push('');
+
+  if (hasPathParams) {
+    const paramsType = view.pathParams.map((p) => `${p}: string`).join('; ');
+    lines.push('interface RouteParams {');
+    lines.push(`  params: Promise<{ ${paramsType} }>;`);
+    lines.push('}');
+    lines.push('');
+  }
+
+  lines.push('/**');
+  lines.push(` * GET ${view.endpoint}`);
+  lines.push(' */');
+  const requestArg = supported && queryParams.length > 0 ? 'request' : '_request';
+  if (hasPathParams) {
+    lines.push(`export async function GET(${requestArg}: Request, { params }: RouteParams) {`);
+  } else {
+    lines.push(`export async function GET(${requestArg}: Request) {`);
+  }
+
+  if (!supported) {
+    lines.push(`  // TODO: Resolve the view with the ${backend} backend`);
+    lines.push(`  return Response.json({ error: 'Not implemented: GET ${view.endpoint}' }, { status: 501 });`);
+    lines.push('}');
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  if (hasPathParams) {
+    lines.push(`  const { ${view.pathParams.join(', ')} } = await params;`);
+    lines.push('');
+  }
+
+  lines.push('  try {');
+  if (queryParams.length > 0) {
+    lines.push('    const { searchParams } = new URL(request.url);');
+  }
+  lines.push(`    const view = await resolve${view.pascalName}View({`);
+  for (const param of view.pathParams) {
+    lines.push(`      ${param},`);
+  }
+  for (const param of queryParams) {
+    lines.push(`      ${param}: searchParams.get('${param}') ?? '',`);
+  }
+  lines.push('    });');
+  lines.push('');
+  if (view.root) {
+    lines.push('    if (!view) {');
+    lines.push(`      return Response.json({ error: '${view.root.pascalName} not found' }, { status: 404 });`);
+    lines.push('    }');
+    lines.push('');
+  }
+  lines.push('    return Response.json(view);');
+  lines.push('  } catch (error) {');
+  lines.push(`    console.error('GET ${view.endpoint} error:', error);`);
+  lines.push("    return Response.json({ error: 'Internal server error' }, { status: 500 });");
+  lines.push('  }');
+  lines.push('}');
+  lines.push('');
+
+  return lines.join('\n');
+}
@@ -13,17 +13,41 @@
 
 import type { AnalyzedSchema, GenerationTarget, SchemockConfig } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
+import { isCursorPaginated, getDefaultLimit, generateCursorListQuery, generateOrderByParser } from '../shared/cursor';
+import {
+  LIVE_ROWS_SQL,
+  DELETED_ROWS_SQL,
+  generateDeletedScope,
+  generateSqlDeletedFilter,
+  generateSupabaseDeletedFilter,
+  FETCH_SCOPE_OPTIONS,
+  firestoreScopedCollection,
+} from '../shared/soft-delete';
+import { generateParseIfMatch, PRECONDITION_REQUIRED_BODY, conflictBody } from '../shared/versioning';
+import { getLinkRelations, generateJunctionConsts, linkWriteLines } from '../shared/links';
 
 /**
  * Generate handler file for an entity
+ *
+ * @param allSchemas - All schemas, to resolve the junction entities of many-to-many relations
  */
 export function generateHandlerFile(
   schema: AnalyzedSchema,
   target: GenerationTarget,
-  _config: SchemockConfig
+  _config: SchemockConfig,
+  allSchemas: AnalyzedSchema[] = [schema]
 ): string {
   const backend = target.backend || 'supabase';
   const hasValidation = target.middleware?.validation === true;
+  const cursorPaginated = isCursorPaginated(schema) && (backend === 'supabase' || backend === 'pglite');
+  const softDelete = schema.softDelete;
+  const links = backend === 'supabase' || backend === 'pglite' ? getLinkRelations(schema, allSchemas) : [];
+  const body = links.length > 0 ? `{ ${links.map((link) => `${link.relation.name}, `).join('')}...body }` : 'body';
+  const dbVar = backend === 'supabase' ? 'supabase' : 'db';
+  const writeLinkLines = (ownerId: string) =>
+    linkWriteLines(schema, links, (junction, rel) => `await writeLinks(${dbVar}, ${junction}, ${ownerId}, ${rel})`).map(
+      (line) => `    ${line}`
+    );
 
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
@@ -50,8 +74,31 @@ export function generateHandlerFile(
     lines.push(`import { validate${schema.pascalName}, validate${schema.pascalName}Update } from '../middleware/validate';`);
   }
 
+  // Import cursor pagination helpers
+  if (cursorPaginated) {
+    const queryHelpers = backend === 'pglite' ? 'buildCursorWhere, buildCursorOrderBy' : 'buildCursorFilter';
+    lines.push(`import { getCursorSortKeys, decodeCursor, parseOrderBy, toCursorPage, isCursorAscending, ${queryHelpers} } from '../cursor';`);
+  }
+
+  // Import many-to-many link writer
+  if (links.length > 0) {
+    lines.push("import { writeLinks, type LinkJunction } from '../links';");
+  }
+
   lines.push('');
 
+  if (links.length > 0) {
+    const junctions = new CodeBuilder();
+    generateJunctionConsts(junctions, schema, allSchemas);
+    lines.push(junctions.toString(), '');
+  }
+
+  if (schema.versioned) {
+    const helper = new CodeBuilder();
+    generateParseIfMatch(helper);
+    lines.push(helper.toString(), '');
+  }
+
   // List handler
   lines.push('/**');
   lines.push(` * GET /${schema.pluralName}`);
@@ -63,43 +110,80 @@ export function generateHandlerFile(
   lines.push('  next: NextFunction');
   lines.push('): Promise<void> {');
   lines.push('  try {');
-  lines.push("    const limit = parseInt(req.query.limit as string || '20', 10);");
-  lines.push("    const offset = parseInt(req.query.offset as string || '0', 10);");
-  lines.push('');
+  if (softDelete) {
+    // Keyset queries build their own SQL filter
+    lines.push(generateScopeLines(backend === 'pglite' && !cursorPaginated));
+  }
 
-  if (backend === 'supabase') {
-    lines.push(`    const { data, error, count } = await supabase`);
-    lines.push(`      .from('${schema.tableName}')`);
-    lines.push("      .select('*', { count: 'exact' })");
-    lines.push('      .range(offset, offset + limit - 1);');
-    lines.push('');
-    lines.push('    if (error) {');
-    lines.push('      res.status(500).json({ error: error.message });');
-    lines.push('      return;');
-    lines.push('    }');
-    lines.push('');
-    lines.push('    res.json({');
-    lines.push(`      data: data as ${schema.pascalName}[],`);
-    lines.push('      meta: { total: count ?? 0, limit, offset }');
-    lines.push('    });');
-  } else if (backend === 'firebase') {
-    lines.push(`    const snapshot = await db.collection('${schema.tableName}')`);
-    lines.push('      .limit(limit)');
-    lines.push('      .offset(offset)');
-    lines.push('      .get();');
-    lines.push('');
-    lines.push(`    const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ${schema.pascalName}[];`);
-    lines.push('    res.json({ data, meta: { limit, offset } });');
-  } else if (backend === 'pglite') {
-    lines.push(`    const result = await db.query<${schema.pascalName}>(`);
-    lines.push(`      'SELECT * FROM ${schema.tableName} LIMIT $1 OFFSET $2',`);
-    lines.push('      [limit, offset]');
-    lines.push('    );');
+  if (cursorPaginated) {
+    const code = new CodeBuilder().indent().indent();
+    code.line(`const limit = parseInt(req.query.limit as string || '${getDefaultLimit(schema)}', 10);`);
+    code.line('const keys = getCursorSortKeys(parseOrderBy(req.query.orderBy as string | undefined));');
+    code.line('const cursor = req.query.cursor ? decodeCursor(req.query.cursor as string) : undefined;');
+    code.line();
+    generateCursorListQuery(code, schema, backend as 'supabase' | 'pglite', [
+      'res.status(500).json({ error: error.message });',
+      'return;',
+    ]);
+    code.line();
+    code.line('res.json({');
+    code.line('  data: page.items,');
+    code.line(`  meta: { ${backend === 'supabase' ? 'total, ' : ''}limit, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },`);
+    code.line('});');
+    lines.push(code.toString());
+  } else {
+    lines.push("    const limit = parseInt(req.query.limit as string || '20', 10);");
+    lines.push("    const offset = parseInt(req.query.offset as string || '0', 10);");
     lines.push('');
-    lines.push('    res.json({ data: result.rows, meta: { limit, offset } });');
-  } else if (backend === 'fetch') {
-    lines.push(`    const response = await api.${schema.pluralName}.list({ limit, offset });`);
-    lines.push('    res.json(response);');
+
+    if (backend === 'supabase' && softDelete) {
+      lines.push(`    let query = supabase.from('${schema.tableName}').select('*', { count: 'exact' });`);
+      lines.push(generateSupabaseScopeLines());
+      lines.push('    const { data, error, count } = await query.range(offset, offset + limit - 1);');
+      lines.push('');
+    } else if (backend === 'supabase') {
+      lines.push(`    const { data, error, count } = await supabase`);
+      lines.push(`      .from('${schema.tableName}')`);
+      lines.push("      .select('*', { count: 'exact' })");
+      lines.push('      .range(offset, offset + limit - 1);');
+      lines.push('');
+    }
+
+    if (backend === 'supabase') {
+      lines.push('    if (error) {');
+      lines.push('      res.status(500).json({ error: error.message });');
+      lines.push('      return;');
+      lines.push('    }');
+      lines.push('');
+      lines.push('    res.json({');
+      lines.push(`      data: data as ${schema.pascalName}[],`);
+      lines.push('      meta: { total: count ?? 0, limit, offset }');
+      lines.push('    });');
+    } else if (backend === 'firebase') {
+      const collection = softDelete ? firestoreScopedCollection(`db.collection('${schema.tableName}')`) : `db.collection('${schema.tableName}')`;
+      lines.push(`    const snapshot = await ${collection}`);
+      lines.push('      .limit(limit)');
+      lines.push('      .offset(offset)');
+      lines.push('      .get();');
+      lines.push('');
+      lines.push(`    const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ${schema.pascalName}[];`);
+      lines.push('    res.json({ data, meta: { limit, offset } });');
+    } else if (backend === 'pglite') {
+      lines.push(`    const result = await db.query<${schema.pascalName}>(`);
+      lines.push(
+        softDelete
+          ? `      \`SELECT * FROM ${schema.tableName} WHERE \${deletedFilter} LIMIT $1 OFFSET $2\`,`
+          : `      'SELECT * FROM ${schema.tableName} LIMIT $1 OFFSET $2',`
+      );
+      lines.push('      [limit, offset]');
+      lines.push('    );');
+      lines.push('');
+      lines.push('    res.json({ data: result.rows, meta: { limit, offset } });');
+    } else if (backend === 'fetch') {
+      const scopeOptions = softDelete ? `, ${FETCH_SCOPE_OPTIONS}` : '';
+      lines.push(`    const response = await api.${schema.pluralName}.list({ limit, offset${scopeOptions} });`);
+      lines.push('    res.json(response);');
+    }
   }
 
   lines.push('  } catch (error) {');
@@ -120,15 +204,26 @@ export function generateHandlerFile(
   lines.push('): Promise<void> {');
   lines.push('  try {');
   lines.push('    const { id } = req.params;');
+  if (softDelete) {
+    lines.push(generateScopeLines(backend === 'pglite'));
+  }
   lines.push('');
 
-  if (backend === 'supabase') {
+  if (backend === 'supabase' && softDelete) {
+    lines.push(`    let query = supabase.from('${schema.tableName}').select('*').eq('id', id);`);
+    lines.push(generateSupabaseScopeLines());
+    lines.push('    const { data, error } = await query.single();');
+    lines.push('');
+  } else if (backend === 'supabase') {
     lines.push(`    const { data, error } = await supabase`);
     lines.push(`      .from('${schema.tableName}')`);
     lines.push("      .select('*')");
     lines.push("      .eq('id', id)");
     lines.push('      .single();');
     lines.push('');
+  }
+
+  if (backend === 'supabase') {
     lines.push('    if (error) {');
     lines.push("      if (error.code === 'PGRST116') {");
     lines.push("        res.status(404).json({ error: 'Not found' });");
@@ -142,7 +237,13 @@ export function generateHandlerFile(
   } else if (backend === 'firebase') {
     lines.push(`    const doc = await db.collection('${schema.tableName}').doc(id).get();`);
     lines.push('');
-    lines.push('    if (!doc.exists) {');
+    if (softDelete) {
+      lines.push('    const deletedAt = doc.data()?.deletedAt ?? null;');
+      lines.push("    const inScope = deletedScope === 'all' || (deletedScope === 'deleted') === (deletedAt !== null);");
+      lines.push('    if (!doc.exists || !inScope) {');
+    } else {
+      lines.push('    if (!doc.exists) {');
+    }
     lines.push("      res.status(404).json({ error: 'Not found' });");
     lines.push('      return;');
     lines.push('    }');
@@ -150,7 +251,11 @@ export function generateHandlerFile(
     lines.push(`    res.json({ id: doc.id, ...doc.data() } as ${schema.pascalName});`);
   } else if (backend === 'pglite') {
     lines.push(`    const result = await db.query<${schema.pascalName}>(`);
-    lines.push(`      'SELECT * FROM ${schema.tableName} WHERE id = $1',`);
+    lines.push(
+      softDelete
+        ? `      \`SELECT * FROM ${schema.tableName} WHERE id = $1 AND \${deletedFilter}\`,`
+        : `      'SELECT * FROM ${schema.tableName} WHERE id = $1',`
+    );
     lines.push('      [id]');
     lines.push('    );');
     lines.push('');
@@ -161,7 +266,7 @@ export function generateHandlerFile(
     lines.push('');
     lines.push('    res.json(result.rows[0]);');
   } else if (backend === 'fetch') {
-    lines.push(`    const data = await api.${schema.pluralName}.get(id);`);
+    lines.push(`    const data = await api.${schema.pluralName}.get(id${softDelete ? `, { ${FETCH_SCOPE_OPTIONS} }` : ''});`);
     lines.push('    res.json(data);');
   }
 
@@ -182,7 +287,7 @@ export function generateHandlerFile(
   lines.push('  next: NextFunction');
   lines.push('): Promise<void> {');
   lines.push('  try {');
-  lines.push(`    const body = req.body as ${schema.pascalName}Create;`);
+  lines.push(`    const ${body} = req.body as ${schema.pascalName}Create;`);
   lines.push('');
 
   if (hasValidation) {
@@ -206,12 +311,16 @@ export function generateHandlerFile(
     lines.push('      return;');
     lines.push('    }');
     lines.push('');
+    lines.push(...writeLinkLines('data.id'));
     lines.push(`    res.status(201).json(data as ${schema.pascalName});`);
   } else if (backend === 'firebase') {
     lines.push(`    const docRef = await db.collection('${schema.tableName}').add({`);
     lines.push('      ...body,');
     lines.push('      createdAt: new Date().toISOString(),');
     lines.push('      updatedAt: new Date().toISOString(),');
+    if (schema.versioned) {
+      lines.push('      version: 1,');
+    }
     lines.push('    });');
     lines.push('');
     lines.push('    const doc = await docRef.get();');
@@ -228,6 +337,7 @@ export function generateHandlerFile(
     lines.push(`      [${values}]`);
     lines.push('    );');
     lines.push('');
+    lines.push(...writeLinkLines('result.rows[0].id'));
     lines.push('    res.status(201).json(result.rows[0]);');
   } else if (backend === 'fetch') {
     lines.push(`    const data = await api.${schema.pluralName}.create(body);`);
@@ -252,7 +362,7 @@ export function generateHandlerFile(
   lines.push('): Promise<void> {');
   lines.push('  try {');
   lines.push('    const { id } = req.params;');
-  lines.push(`    const body = req.body as ${schema.pascalName}Update;`);
+  lines.push(`    const ${body} = req.body as ${schema.pascalName}Update;`);
   lines.push('');
 
   if (hasValidation) {
@@ -264,13 +374,31 @@ export function generateHandlerFile(
     lines.push('');
   }
 
-  if (backend === 'supabase') {
-    lines.push(`    const { data, error } = await supabase`);
-    lines.push(`      .from('${schema.tableName}')`);
-    lines.push('      .update(body)');
-    lines.push("      .eq('id', id)");
-    lines.push('      .select()');
-    lines.push('      .single();');
+  if (schema.versioned) {
+    lines.push(...generateVersionedUpdateLines(
+      schema,
+      backend,
+      links.map((link) => link.relation.name),
+      writeLinkLines('id')
+    ));
+  } else if (backend === 'supabase') {
+    const liveOnly = softDelete ? ".is('deletedAt', null)" : '';
+    if (links.length > 0) {
+      // A request may only change links, and an empty update is rejected
+      lines.push('    const { data, error } = Object.keys(body).length > 0');
+      lines.push(`      ? await supabase.from('${schema.tableName}').update(body).eq('id', id)${liveOnly}.select().single()`);
+      lines.push(`      : await supabase.from('${schema.tableName}').select().eq('id', id)${liveOnly}.single();`);
+    } else {
+      lines.push(`    const { data, error } = await supabase`);
+      lines.push(`      .from('${schema.tableName}')`);
+      lines.push('      .update(body)');
+      lines.push("      .eq('id', id)");
+      if (softDelete) {
+        lines.push(`      ${liveOnly}`);
+      }
+      lines.push('      .select()');
+      lines.push('      .single();');
+    }
     lines.push('');
     lines.push('    if (error) {');
     lines.push("      if (error.code === 'PGRST116') {");
@@ -281,12 +409,13 @@ export function generateHandlerFile(
     lines.push('      return;');
     lines.push('    }');
     lines.push('');
+    lines.push(...writeLinkLines('id'));
     lines.push(`    res.json(data as ${schema.pascalName});`);
   } else if (backend === 'firebase') {
     lines.push(`    const docRef = db.collection('${schema.tableName}').doc(id);`);
     lines.push('    const doc = await docRef.get();');
     lines.push('');
-    lines.push('    if (!doc.exists) {');
+    lines.push(softDelete ? '    if (!doc.exists || doc.data()?.deletedAt != null) {' : '    if (!doc.exists) {');
     lines.push("      res.status(404).json({ error: 'Not found' });");
     lines.push('      return;');
     lines.push('    }');
@@ -296,17 +425,10 @@ export function generateHandlerFile(
     lines.push('');
     lines.push(`    res.json({ id: updated.id, ...updated.data() } as ${schema.pascalName});`);
   } else if (backend === 'pglite') {
-    lines.push('    const entries = Object.entries(body);');
-    lines.push('    if (entries.length === 0) {');
-    lines.push("      res.status(400).json({ error: 'No fields to update' });");
-    lines.push('      return;');
-    lines.push('    }');
-    lines.push('');
-    lines.push("    const setClauses = entries.map(([key], i) => `${key} = $${i + 1}`).join(', ');");
-    lines.push('    const values = entries.map(([, val]) => val);');
-    lines.push('');
+    lines.push(...generateSqlSetLines(links.map((link) => link.relation.name)));
     lines.push(`    const result = await db.query<${schema.pascalName}>(`);
-    lines.push(`      \`UPDATE ${schema.tableName} SET \${setClauses} WHERE id = $\${values.length + 1} RETURNING *\`,`);
+    const liveOnly = softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
+    lines.push(`      \`UPDATE ${schema.tableName} SET \${setClauses} WHERE id = $\${values.length + 1}${liveOnly} RETURNING *\`,`);
     lines.push('      [...values, id]');
     lines.push('    );');
     lines.push('');
@@ -315,6 +437,7 @@ export function generateHandlerFile(
     lines.push('      return;');
     lines.push('    }');
     lines.push('');
+    lines.push(...writeLinkLines('id'));
     lines.push('    res.json(result.rows[0]);');
   } else if (backend === 'fetch') {
     lines.push(`    const data = await api.${schema.pluralName}.update(id, body);`);
@@ -330,7 +453,11 @@ export function generateHandlerFile(
   // Delete handler
   lines.push('/**');
   lines.push(` * DELETE /${schema.pluralName}/:id`);
-  lines.push(` * Delete a ${schema.singularName}`);
+  if (softDelete) {
+    lines.push(` * Soft delete a ${schema.singularName}, or remove it for good with ?purge=true`);
+  } else {
+    lines.push(` * Delete a ${schema.singularName}`);
+  }
   lines.push(' */');
   lines.push('export async function remove(');
   lines.push('  req: Request,');
@@ -341,7 +468,9 @@ export function generateHandlerFile(
   lines.push('    const { id } = req.params;');
   lines.push('');
 
-  if (backend === 'supabase') {
+  if (softDelete) {
+    lines.push(...generateSoftDeleteLines(schema, backend));
+  } else if (backend === 'supabase') {
     lines.push(`    const { error } = await supabase`);
     lines.push(`      .from('${schema.tableName}')`);
     lines.push('      .delete()');
@@ -369,9 +498,298 @@ export function generateHandlerFile(
   lines.push('  }');
   lines.push('}');
 
+  if (softDelete) {
+    lines.push('');
+    lines.push(...generateRestoreHandler(schema, backend));
+  }
+
   return lines.join('\n');
 }
 
+/**
+ * Generate the `deletedScope` read from the query string, optionally
+ * followed by its SQL `deletedFilter`
+ */
+function generateScopeLines(sqlFilter: boolean): string {
+  const code = new CodeBuilder().indent().indent();
+  generateDeletedScope(code, (param) => `req.query.${param}`);
+  if (sqlFilter) {
+    generateSqlDeletedFilter(code);
+  }
+  return code.toString();
+}
+
+/**
+ * Generate the PostgREST filters narrowing `query` to `deletedScope`
+ */
+function generateSupabaseScopeLines(): string {
+  const code = new CodeBuilder().indent().indent();
+  generateSupabaseDeletedFilter(code);
+  return code.toString();
+}
+
+/**
+ * Generate the body of a soft-delete `remove` handler: `?purge=true` removes
+ * the row, otherwise only `deletedAt` is set
+ */
+function generateSoftDeleteLines(schema: AnalyzedSchema, backend: string): string[] {
+  const { tableName, pluralName } = schema;
+  const lines: string[] = [];
+
+  if (backend === 'fetch') {
+    lines.push("    if (req.query.purge === 'true') {");
+    lines.push(`      await api.${pluralName}.purge(id);`);
+    lines.push('    } else {');
+    lines.push(`      await api.${pluralName}.delete(id);`);
+    lines.push('    }');
+    lines.push('    res.status(204).send();');
+    return lines;
+  }
+
+  lines.push("    const purge = req.query.purge === 'true';");
+  if (backend === 'supabase') {
+    lines.push(`    const table = supabase.from('${tableName}');`);
+    lines.push('    const { error } = purge');
+    lines.push("      ? await table.delete().eq('id', id)");
+    lines.push("      : await table.update({ deletedAt: new Date().toISOString() }).eq('id', id).is('deletedAt', null);");
+    lines.push('');
+    lines.push('    if (error) {');
+    lines.push('      res.status(500).json({ error: error.message });');
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('');
+  } else if (backend === 'firebase') {
+    lines.push(`    const docRef = db.collection('${tableName}').doc(id);`);
+    lines.push('    if (purge) {');
+    lines.push('      await docRef.delete();');
+    lines.push('    } else {');
+    lines.push('      await docRef.update({ deletedAt: new Date().toISOString() });');
+    lines.push('    }');
+  } else if (backend === 'pglite') {
+    lines.push('    await db.query(');
+    lines.push('      purge');
+    lines.push(`        ? 'DELETE FROM ${tableName} WHERE id = $1'`);
+    lines.push(`        : 'UPDATE ${tableName} SET "deletedAt" = NOW() WHERE id = $1 AND ${LIVE_ROWS_SQL}',`);
+    lines.push('      [id]');
+    lines.push('    );');
+  }
+  lines.push('    res.status(204).send();');
+  return lines;
+}
+
+/**
+ * Generate the `restore` handler for a soft-delete entity
+ */
+function generateRestoreHandler(schema: AnalyzedSchema, backend: string): string[] {
+  const { tableName, pluralName, singularName, pascalName } = schema;
+  const lines: string[] = [];
+
+  lines.push('/**');
+  lines.push(` * POST /${pluralName}/:id/restore`);
+  lines.push(` * Restore a soft-deleted ${singularName}`);
+  lines.push(' */');
+  lines.push('export async function restore(');
+  lines.push('  req: Request,');
+  lines.push('  res: Response,');
+  lines.push('  next: NextFunction');
+  lines.push('): Promise<void> {');
+  lines.push('  try {');
+  lines.push('    const { id } = req.params;');
+  lines.push('');
+
+  if (backend === 'supabase') {
+    lines.push(`    const { data, error } = await supabase`);
+    lines.push(`      .from('${tableName}')`);
+    lines.push('      .update({ deletedAt: null })');
+    lines.push("      .eq('id', id)");
+    lines.push("      .not('deletedAt', 'is', null)");
+    lines.push('      .select()');
+    lines.push('      .single();');
+    lines.push('');
+    lines.push('    if (error) {');
+    lines.push("      if (error.code === 'PGRST116') {");
+    lines.push("        res.status(404).json({ error: 'Not found' });");
+    lines.push('        return;');
+    lines.push('      }');
+    lines.push('      res.status(500).json({ error: error.message });');
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('');
+    lines.push(`    res.json(data as ${pascalName});`);
+  } else if (backend === 'firebase') {
+    lines.push(`    const docRef = db.collection('${tableName}').doc(id);`);
+    lines.push('    const doc = await docRef.get();');
+    lines.push('');
+    lines.push('    if (!doc.exists || doc.data()?.deletedAt == null) {');
+    lines.push("      res.status(404).json({ error: 'Not found' });");
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('');
+    lines.push('    await docRef.update({ deletedAt: null });');
+    lines.push('    const restored = await docRef.get();');
+    lines.push('');
+    lines.push(`    res.json({ id: restored.id, ...restored.data() } as ${pascalName});`);
+  } else if (backend === 'pglite') {
+    lines.push(`    const result = await db.query<${pascalName}>(`);
+    lines.push(`      'UPDATE ${tableName} SET "deletedAt" = NULL WHERE id = $1 AND ${DELETED_ROWS_SQL} RETURNING *',`);
+    lines.push('      [id]');
+    lines.push('    );');
+    lines.push('');
+    lines.push('    if (result.rows.length === 0) {');
+    lines.push("      res.status(404).json({ error: 'Not found' });");
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('');
+    lines.push('    res.json(result.rows[0]);');
+  } else if (backend === 'fetch') {
+    lines.push(`    const data = await api.${pluralName}.restore(id);`);
+    lines.push('    res.json(data);');
+  }
+
+  lines.push('  } catch (error) {');
+  lines.push('    next(error);');
+  lines.push('  }');
+  lines.push('}');
+
+  return lines;
+}
+
+/**
+ * Generate the SET clause of a PGlite update from the request body. A body
+ * without columns is still valid when it changes many-to-many links.
+ */
+function generateSqlSetLines(linkNames: string[]): string[] {
+  const empty = ['entries.length === 0', ...linkNames.map((name) => `!${name}`)].join(' && ');
+  const setClauses = "entries.map(([key], i) => `${key} = $${i + 1}`).join(', ')";
+
+  return [
+    '    const entries = Object.entries(body);',
+    `    if (${empty}) {`,
+    "      res.status(400).json({ error: 'No fields to update' });",
+    '      return;',
+    '    }',
+    '',
+    linkNames.length > 0
+      ? `    const setClauses = entries.length > 0 ? ${setClauses} : 'id = id';`
+      : `    const setClauses = ${setClauses};`,
+    '    const values = entries.map(([, val]) => val);',
+    '',
+  ];
+}
+
+/**
+ * Generate the body of a versioned update handler: the expected version comes
+ * from If-Match and the write only applies if the stored version still matches
+ *
+ * @param linkNames - Many-to-many relations the body may change
+ * @param linkLines - Link writes to run once the row was updated
+ */
+function generateVersionedUpdateLines(
+  schema: AnalyzedSchema,
+  backend: string,
+  linkNames: string[] = [],
+  linkLines: string[] = []
+): string[] {
+  const { tableName, pascalName, pluralName, softDelete } = schema;
+  const lines: string[] = [];
+
+  lines.push("    const expectedVersion = parseIfMatch(req.headers['if-match']);");
+  lines.push('    if (expectedVersion === undefined) {');
+  lines.push(`      res.status(428).json(${PRECONDITION_REQUIRED_BODY});`);
+  lines.push('      return;');
+  lines.push('    }');
+  lines.push('');
+
+  if (backend === 'supabase') {
+    const liveOnly = softDelete ? ".is('deletedAt', null)" : '';
+    lines.push(`    const { data, error } = await supabase`);
+    lines.push(`      .from('${tableName}')`);
+    lines.push('      .update({ ...body, version: expectedVersion + 1 })');
+    lines.push("      .eq('id', id)");
+    if (softDelete) {
+      lines.push(`      ${liveOnly}`);
+    }
+    lines.push("      .eq('version', expectedVersion)");
+    lines.push('      .select()');
+    lines.push('      .maybeSingle();');
+    lines.push('');
+    lines.push('    if (error) {');
+    lines.push('      res.status(500).json({ error: error.message });');
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('');
+    lines.push('    if (!data) {');
+    lines.push(`      const { data: current } = await supabase.from('${tableName}').select().eq('id', id)${liveOnly}.maybeSingle();`);
+    lines.push('      if (!current) {');
+    lines.push("        res.status(404).json({ error: 'Not found' });");
+    lines.push('        return;');
+    lines.push('      }');
+    lines.push(`      res.status(409).json(${conflictBody('current')});`);
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('');
+    lines.push(...linkLines);
+    lines.push(`    res.json(data as ${pascalName});`);
+  } else if (backend === 'firebase') {
+    lines.push(`    const docRef = db.collection('${tableName}').doc(id);`);
+    lines.push('    const outcome = await db.runTransaction(async (tx) => {');
+    lines.push('      const doc = await tx.get(docRef);');
+    lines.push(softDelete ? '      if (!doc.exists || doc.data()?.deletedAt != null) return null;' : '      if (!doc.exists) return null;');
+    lines.push(`      const current = { id: doc.id, ...doc.data() } as ${pascalName};`);
+    lines.push('      if (current.version !== expectedVersion) return { conflict: true, row: current };');
+    lines.push('      const changes = { ...body, updatedAt: new Date().toISOString(), version: expectedVersion + 1 };');
+    lines.push('      tx.update(docRef, changes);');
+    lines.push(`      return { conflict: false, row: { ...current, ...changes } as ${pascalName} };`);
+    lines.push('    });');
+    lines.push('');
+    lines.push('    if (!outcome) {');
+    lines.push("      res.status(404).json({ error: 'Not found' });");
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('    if (outcome.conflict) {');
+    lines.push(`      res.status(409).json(${conflictBody('outcome.row')});`);
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('');
+    lines.push('    res.json(outcome.row);');
+  } else if (backend === 'pglite') {
+    const liveOnly = softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
+    lines.push(...generateSqlSetLines(linkNames));
+    lines.push(`    const result = await db.query<${pascalName}>(`);
+    lines.push(
+      `      \`UPDATE ${tableName} SET \${setClauses}, version = version + 1 WHERE id = $\${values.length + 1}${liveOnly} AND version = $\${values.length + 2} RETURNING *\`,`
+    );
+    lines.push('      [...values, id, expectedVersion]');
+    lines.push('    );');
+    lines.push('');
+    lines.push('    if (result.rows.length === 0) {');
+    lines.push(`      const current = await db.query<${pascalName}>('SELECT * FROM ${tableName} WHERE id = $1${liveOnly}', [id]);`);
+    lines.push('      if (current.rows.length === 0) {');
+    lines.push("        res.status(404).json({ error: 'Not found' });");
+    lines.push('        return;');
+    lines.push('      }');
+    lines.push(`      res.status(409).json(${conflictBody('current.rows[0]')});`);
+    lines.push('      return;');
+    lines.push('    }');
+    lines.push('');
+    lines.push(...linkLines);
+    lines.push('    res.json(result.rows[0]);');
+  } else if (backend === 'fetch') {
+    lines.push('    try {');
+    lines.push(`      const data = await api.${pluralName}.update(id, body, { expectedVersion });`);
+    lines.push('      res.json(data);');
+    lines.push('    } catch (error) {');
+    lines.push("      if (error instanceof Error && 'current' in error) {");
+    lines.push(`        res.status(409).json(${conflictBody('error.current')});`);
+    lines.push('        return;');
+    lines.push('      }');
+    lines.push('      throw error;');
+    lines.push('    }');
+  }
+
+  return lines;
+}
+
 /**
  * Configuration for service-based handler generation
  */
@@ -421,6 +839,10 @@ export function generateServiceHandlerFile(
   code.line(`import type { ${pascalName}Create, ${pascalName}Update } from '${typesImport}';`);
   code.line();
 
+  if (isCursorPaginated(schema)) {
+    generateOrderByParser(code);
+  }
+
   // LIST
   if (!skip.includes(`${name}.list`)) {
     code.multiDocComment([
@@ -437,13 +859,20 @@ export function generateServiceHandlerFile(
     code.block('try {', () => {
       code.line(`await withMiddleware(getMiddleware('${name}', 'list'), req, res, async (ctx) => {`);
       code.indent();
-      code.line("const limit = parseInt(req.query.limit as string || '20', 10);");
-      code.line("const offset = parseInt(req.query.offset as string || '0', 10);");
-      code.line(`const data = await ${singularName}Service.list(ctx, { limit, offset });`);
-      code.line('res.json({');
-      code.line('  data,');
-      code.line('  meta: { limit, offset },');
-      code.line('});');
+      if (isCursorPaginated(schema)) {
+        code.line('const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;');
+        code.line('const cursor = req.query.cursor as string | undefined;');
+        code.line('const orderBy = parseOrderBy(req.query.orderBy as string | undefined);');
+        code.line(`res.json(await ${singularName}Service.listPage(ctx, { limit, cursor, orderBy }));`);
+      } else {
+        code.line("const limit = parseInt(req.query.limit as string || '20', 10);");
+        code.line("const offset = parseInt(req.query.offset as string || '0', 10);");
+        code.line(`const data = await ${singularName}Service.list(ctx, { limit, offset });`);
+        code.line('res.json({');
+        code.line('  data,');
+        code.line('  meta: { limit, offset },');
+        code.line('});');
+      }
       code.dedent();
       code.line('});');
     }, '} catch (error) {');
@@ -2,7 +2,8 @@
  * Node.js Handler Generator
  *
  * Generates Express-compatible HTTP handlers from Schemock schemas.
- * Works with Express, Fastify, Hono, or any Node.js HTTP framework.
+ * Works with Express, Fastify, or any Node.js HTTP framework. For Hono, use the
+ * dedicated `hono` target.
  *
  * @module cli/generators/node-handlers
  * @category CLI
@@ -13,6 +14,7 @@ import { join } from 'node:path';
 import type {
   AnalyzedSchema,
   AnalyzedEndpoint,
+  AnalyzedView,
   GenerationTarget,
   SchemockConfig,
   GenerateOptions,
@@ -23,6 +25,7 @@ import type {
 import { generateHandlerFile } from './handler-template';
 import { generateEndpointHandlerFile } from './endpoint-handler-template';
 import { generateSeedHandlerFile } from './seed-handler-template';
+import { generateViewHandlerFile } from './view-handler-template';
 import { generateRouterFile } from './router-template';
 import { shouldGenerateSeedHandler } from '../shared/seed-handler-helpers';
 import {
@@ -45,6 +48,10 @@ import {
 import { generateNodeLibFiles } from './lib-template';
 import { generateTypes } from '../types';
 import { generateAllEndpointInterfaces } from '../shared/endpoint-helpers';
+import { hasCursorPagination, generateCursorModule } from '../shared/cursor';
+import { hasLinkRelations, generateLinksModule } from '../shared/links';
+import { generateViewResolvers, isViewBackend } from '../shared/views';
+import { generateViewTypes } from '../views';
 
 /**
  * Generate Node.js handlers for entities
@@ -57,6 +64,7 @@ import { generateAllEndpointInterfaces } from '../shared/endpoint-helpers';
  * @param options - Generation options
  * @param customMiddleware - Analyzed custom middleware definitions (optional)
  * @param endpoints - Analyzed custom endpoints (optional)
+ * @param views - Analyzed views (optional)
  */
 export async function generateNodeHandlersTarget(
   allSchemas: AnalyzedSchema[],
@@ -66,7 +74,8 @@ export async function generateNodeHandlersTarget(
   config: SchemockConfig,
   options: GenerateOptions,
   customMiddleware: AnalyzedMiddleware[] = [],
-  endpoints: AnalyzedEndpoint[] = []
+  endpoints: AnalyzedEndpoint[] = [],
+  views: AnalyzedView[] = []
 ): Promise<string[]> {
   const files: string[] = [];
 
@@ -91,7 +100,10 @@ export async function generateNodeHandlersTarget(
   }
 
   // Generate TypeScript types (ALL schemas to preserve relations)
-  const typesCode = generateTypes(allSchemas);
+  let typesCode = generateTypes(allSchemas);
+  if (views.length > 0) {
+    typesCode += generateViewTypes(views);
+  }
   await writeOutput(join(outputDir, 'types.ts'), typesCode, options.dryRun);
   files.push('types.ts');
   console.log('   ✓ types.ts');
@@ -105,6 +117,21 @@ export async function generateNodeHandlersTarget(
     console.log(`   ✓ ${filename}`);
   }
 
+  // Generate cursor pagination helpers for keyset-paginated entities
+  const backend = target.backend || 'supabase';
+  if ((backend === 'supabase' || backend === 'pglite') && hasCursorPagination(targetSchemas)) {
+    await writeOutput(join(outputDir, 'cursor.ts'), generateCursorModule(backend), options.dryRun);
+    files.push('cursor.ts');
+    console.log('   ✓ cursor.ts');
+  }
+
+  // Generate junction writers for many-to-many links
+  if ((backend === 'supabase' || backend === 'pglite') && hasLinkRelations(targetSchemas, allSchemas)) {
+    await writeOutput(join(outputDir, 'links.ts'), generateLinksModule(backend), options.dryRun);
+    files.push('links.ts');
+    console.log('   ✓ links.ts');
+  }
+
   // Check if using new v1.0 middleware config or legacy target.middleware
   const middlewareConfig = config.middleware;
   const hasNewMiddlewareConfig = middlewareConfig !== undefined;
@@ -147,7 +174,7 @@ export async function generateNodeHandlersTarget(
   for (const schema of targetSchemas) {
     if (schema.isJunctionTable) continue;
 
-    const handlerCode = generateHandlerFile(schema, target, config);
+    const handlerCode = generateHandlerFile(schema, target, config, allSchemas);
     await writeOutput(join(handlersDir, `${schema.pluralName}.ts`), handlerCode, options.dryRun);
     files.push(`handlers/${schema.pluralName}.ts`);
     console.log(`   ✓ handlers/${schema.pluralName}.ts`);
@@ -171,6 +198,21 @@ export async function generateNodeHandlersTarget(
     }
   }
 
+  // Generate view resolvers and handlers
+  if (views.length > 0) {
+    if (isViewBackend(backend)) {
+      const resolversCode = generateViewResolvers(views, { backend, dbImport: './db', typesImport: './types' });
+      await writeOutput(join(outputDir, 'views.ts'), resolversCode, options.dryRun);
+      files.push('views.ts');
+      console.log('   ✓ views.ts');
+    }
+
+    const viewHandlerCode = generateViewHandlerFile(views, target);
+    await writeOutput(join(handlersDir, 'views.ts'), viewHandlerCode, options.dryRun);
+    files.push('handlers/views.ts');
+    console.log(`   ✓ handlers/views.ts (${views.length} views)`);
+  }
+
   // Generate seed handler if production seed is configured
   const hasProductionSeed = shouldGenerateSeedHandler(config);
   if (hasProductionSeed) {
@@ -181,7 +223,7 @@ export async function generateNodeHandlersTarget(
   }
 
   // Generate main router file (only includes target schemas)
-  const routerCode = generateRouterFile(targetSchemas, target, config, endpoints, hasProductionSeed);
+  const routerCode = generateRouterFile(targetSchemas, target, config, endpoints, hasProductionSeed, views);
   await writeOutput(join(outputDir, 'router.ts'), routerCode, options.dryRun);
   files.push('router.ts');
   console.log('   ✓ router.ts (combined router)');
@@ -226,6 +268,9 @@ async function generateMiddlewareFromConfig(
     await writeOutput(join(middlewareDir, 'rate-limit.ts'), rateLimitCode, dryRun);
     files.push('middleware/rate-limit.ts');
     console.log('   ✓ middleware/rate-limit.ts');
+    if (mwConfig.rateLimit.storage === 'redis') {
+      console.log('   ℹ Export a Redis client as `redis` from middleware/redis.ts');
+    }
   }
 
   // Cache middleware
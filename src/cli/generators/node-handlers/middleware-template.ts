@@ -23,6 +23,7 @@ import {
   normalizeLoggerConfig,
   normalizeCacheConfig,
 } from './middleware-chain-template';
+import { generateRateLimitImports, generateRateLimitSetup } from '../shared/rate-limit';
 
 /**
  * Generate auth middleware for Node.js
@@ -352,23 +353,9 @@ export function generateRateLimitMiddleware(config: RateLimitMiddlewareConfig):
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
     '',
     "import type { Request, Response, NextFunction } from 'express';",
+    ...generateRateLimitImports(config, './redis'),
     '',
-    '/**',
-    ' * Rate limit store - tracks request counts per key',
-    ' */',
-    'interface RateLimitEntry {',
-    '  count: number;',
-    '  resetTime: number;',
-    '}',
-    '',
-    'const rateLimitStore = new Map<string, RateLimitEntry>();',
-    '',
-    '/**',
-    ' * Rate limit configuration',
-    ' */',
-    `const RATE_LIMIT_MAX = ${config.max};`,
-    `const RATE_LIMIT_WINDOW_MS = ${config.windowMs};`,
-    '',
+    ...generateRateLimitSetup(config),
     '/**',
     ' * Get rate limit key from request',
     ' */',
@@ -392,55 +379,39 @@ export function generateRateLimitMiddleware(config: RateLimitMiddlewareConfig):
   lines.push('}');
   lines.push('');
 
-  lines.push('/**');
-  lines.push(' * Clean up expired entries periodically');
-  lines.push(' */');
-  lines.push('setInterval(() => {');
-  lines.push('  const now = Date.now();');
-  lines.push('  for (const [key, entry] of rateLimitStore.entries()) {');
-  lines.push('    if (now > entry.resetTime) {');
-  lines.push('      rateLimitStore.delete(key);');
-  lines.push('    }');
-  lines.push('  }');
-  lines.push('}, RATE_LIMIT_WINDOW_MS);');
-  lines.push('');
-
   lines.push('/**');
   lines.push(' * Rate limit middleware');
   lines.push(' */');
-  lines.push('export function rateLimitMiddleware(');
+  lines.push('export async function rateLimitMiddleware(');
   lines.push('  req: Request,');
   lines.push('  res: Response,');
   lines.push('  next: NextFunction');
-  lines.push('): void {');
-  lines.push('  const key = getRateLimitKey(req);');
-  lines.push('  const now = Date.now();');
-  lines.push('');
-  lines.push('  let entry = rateLimitStore.get(key);');
+  lines.push('): Promise<void> {');
+  lines.push('  try {');
+  lines.push('    const role = (req as any).user?.role;');
+  lines.push('    const check = await checkRateLimit(getRateLimitKey(req), {');
+  lines.push('      method: req.method,');
+  lines.push('      path: req.path,');
+  lines.push("      role: typeof role === 'string' ? role : undefined,");
+  lines.push('    });');
   lines.push('');
-  lines.push('  if (!entry || now > entry.resetTime) {');
-  lines.push('    // Create new entry or reset expired one');
-  lines.push('    entry = { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS };');
-  lines.push('    rateLimitStore.set(key, entry);');
-  lines.push('  } else {');
-  lines.push('    entry.count++;');
-  lines.push('  }');
+  lines.push('    // Set RateLimit-* (and Retry-After) headers');
+  lines.push('    for (const [name, value] of Object.entries(check.headers)) {');
+  lines.push('      res.setHeader(name, value);');
+  lines.push('    }');
   lines.push('');
-  lines.push('  // Set rate limit headers');
-  lines.push("  res.setHeader('X-RateLimit-Limit', RATE_LIMIT_MAX.toString());");
-  lines.push("  res.setHeader('X-RateLimit-Remaining', Math.max(0, RATE_LIMIT_MAX - entry.count).toString());");
-  lines.push("  res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetTime / 1000).toString());");
+  lines.push('    if (!check.allowed) {');
+  lines.push("      res.status(429).json({");
+  lines.push("        error: 'Too many requests',");
+  lines.push("        message: `Rate limit exceeded. Try again in ${check.retryAfter} seconds.`,");
+  lines.push('      });');
+  lines.push('      return;');
+  lines.push('    }');
   lines.push('');
-  lines.push('  if (entry.count > RATE_LIMIT_MAX) {');
-  lines.push("    res.setHeader('Retry-After', Math.ceil((entry.resetTime - now) / 1000).toString());");
-  lines.push("    res.status(429).json({");
-  lines.push("      error: 'Too many requests',");
-  lines.push("      message: `Rate limit exceeded. Try again in ${Math.ceil((entry.resetTime - now) / 1000)} seconds.`,");
-  lines.push('    });');
-  lines.push('    return;');
+  lines.push('    next();');
+  lines.push('  } catch (error) {');
+  lines.push('    next(error);');
   lines.push('  }');
-  lines.push('');
-  lines.push('  next();');
   lines.push('}');
   lines.push('');
 
@@ -7,7 +7,7 @@
  * @category CLI
  */
 
-import type { AnalyzedSchema, AnalyzedEndpoint, GenerationTarget, SchemockConfig } from '../../types';
+import type { AnalyzedSchema, AnalyzedEndpoint, AnalyzedView, GenerationTarget, SchemockConfig } from '../../types';
 
 /**
  * Generate the main router file
@@ -17,7 +17,8 @@ export function generateRouterFile(
   target: GenerationTarget,
   config: SchemockConfig,
   endpoints: AnalyzedEndpoint[] = [],
-  hasProductionSeed: boolean = false
+  hasProductionSeed: boolean = false,
+  views: AnalyzedView[] = []
 ): string {
   const hasAuth = target.middleware?.auth !== undefined;
   const hasNewMiddlewareConfig = config.middleware !== undefined;
@@ -40,6 +41,11 @@ export function generateRouterFile(
     lines.push(`import * as ${endpoint.name}Endpoint from './handlers/${endpoint.name}';`);
   }
 
+  // Import view handlers
+  if (views.length > 0) {
+    lines.push("import * as viewHandlers from './handlers/views';");
+  }
+
   // Import seed handler if production seed is configured
   if (hasProductionSeed) {
     lines.push("import * as seedHandler from './handlers/_seed';");
@@ -85,6 +91,9 @@ export function generateRouterFile(
     lines.push(`  router.post('/${schema.pluralName}', ${schema.pluralName}Handlers.create);`);
     lines.push(`  router.put('/${schema.pluralName}/:id', ${schema.pluralName}Handlers.update);`);
     lines.push(`  router.delete('/${schema.pluralName}/:id', ${schema.pluralName}Handlers.remove);`);
+    if (schema.softDelete) {
+      lines.push(`  router.post('/${schema.pluralName}/:id/restore', ${schema.pluralName}Handlers.restore);`);
+    }
     lines.push('');
   }
 
@@ -98,6 +107,16 @@ export function generateRouterFile(
     lines.push('');
   }
 
+  // Register view routes (the router is mounted at the API prefix)
+  if (views.length > 0) {
+    lines.push('  // View routes');
+    for (const view of views) {
+      const path = view.endpoint.startsWith(`${apiPrefix}/`) ? view.endpoint.slice(apiPrefix.length) : view.endpoint;
+      lines.push(`  router.get('${path}', viewHandlers.${view.camelName});`);
+    }
+    lines.push('');
+  }
+
   // Register seed endpoint (with environment guard)
   if (hasProductionSeed) {
     lines.push('  // Production seed endpoint');
@@ -111,7 +130,9 @@ export function generateRouterFile(
   lines.push('  // Error handling middleware');
   lines.push('  router.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {');
   lines.push("    console.error('API Error:', err);");
-  lines.push("    res.status(500).json({ error: err.message || 'Internal server error' });");
+  lines.push('    // Errors such as InvalidCursorError carry their HTTP status');
+  lines.push("    const status = 'status' in err && typeof err.status === 'number' ? err.status : 500;");
+  lines.push("    res.status(status).json({ error: err.message || 'Internal server error' });");
   lines.push('  });');
   lines.push('');
   lines.push('  return router;');
@@ -176,6 +197,9 @@ export function generateEntityRouter(
   lines.push(`${schema.pluralName}Router.post('/', handlers.create);`);
   lines.push(`${schema.pluralName}Router.put('/:id', handlers.update);`);
   lines.push(`${schema.pluralName}Router.delete('/:id', handlers.remove);`);
+  if (schema.softDelete) {
+    lines.push(`${schema.pluralName}Router.post('/:id/restore', handlers.restore);`);
+  }
 
   return lines.join('\n');
 }
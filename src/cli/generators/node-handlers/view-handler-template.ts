@@ -0,0 +1,76 @@
+/**
+ * Node.js View Handler Template
+ *
+ * Generates Express-compatible handlers for views defined via defineView().
+ *
+ * @module cli/generators/node-handlers/view-handler-template
+ * @category CLI
+ */
+
+import type { AnalyzedView, GenerationTarget } from '../../types';
+import { getViewQueryParams, isViewBackend } from '../shared/views';
+
+/**
+ * Generate handlers/views.ts with one handler per view
+ */
+export function generateViewHandlerFile(views: AnalyzedView[], target: GenerationTarget): string {
+  const backend = target.backend || 'supabase';
+  const supported = isViewBackend(backend);
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    '// Views defined with defineView()',
+    '',
+    "import type { Request, Response, NextFunction } from 'express';",
+  ];
+
+  if (supported) {
+    const resolvers = views.map((view) => `resolve${view.pascalName}View`);
+    lines.push(`import { ${resolvers.join(', ')} } from '../views';`);
+  }
+
+  lines.push('');
+
+  for (const view of views) {
+    lines.push('/**');
+    lines.push(` * GET ${view.endpoint}`);
+    lines.push(' */');
+    lines.push(`export async function ${view.camelName}(`);
+    lines.push(supported ? '  req: Request,' : '  _req: Request,');
+    lines.push('  res: Response,');
+    lines.push(supported ? '  next: NextFunction' : '  _next: NextFunction');
+    lines.push('): Promise<void> {');
+
+    if (supported) {
+      lines.push('  try {');
+      lines.push(`    const view = await resolve${view.pascalName}View({`);
+      for (const param of view.pathParams) {
+        lines.push(`      ${param}: req.params.${param},`);
+      }
+      for (const param of getViewQueryParams(view)) {
+        lines.push(`      ${param}: String(req.query.${param} ?? ''),`);
+      }
+      lines.push('    });');
+      lines.push('');
+      if (view.root) {
+        lines.push('    if (!view) {');
+        lines.push(`      res.status(404).json({ error: '${view.root.pascalName} not found' });`);
+        lines.push('      return;');
+        lines.push('    }');
+        lines.push('');
+      }
+      lines.push('    res.json(view);');
+      lines.push('  } catch (error) {');
+      lines.push('    next(error);');
+      lines.push('  }');
+    } else {
+      lines.push(`  // TODO: Resolve the view with the ${backend} backend`);
+      lines.push(`  res.status(501).json({ error: 'Not implemented: GET ${view.endpoint}' });`);
+    }
+
+    lines.push('}');
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -18,6 +18,42 @@ import {
   collectBypassConditions,
   hasAnyRLS,
 } from '../shared/rls';
+import {
+  isCursorPaginated,
+  hasCursorPagination,
+  getDefaultLimit,
+  generateCursorCodec,
+  generateKeysetPageHelper,
+  generateCursorSqlHelpers,
+} from '../shared/cursor';
+import { generateFilterCommon, generateFilterMatcher, generateSqlWhereBuilder } from '../shared/filter';
+import {
+  LIVE_ROWS_SQL,
+  DELETED_ROWS_SQL,
+  generateDeletedScopeFromOptions,
+  generateSqlDeletedFilter,
+} from '../shared/soft-delete';
+import { hasVersioning, generateConflictError, updateOptionsParam } from '../shared/versioning';
+import {
+  getLinkRelations,
+  hasLinkRelations,
+  generateLinkCommon,
+  generateSqlLinkWriter,
+  generateJunctionConsts,
+  generateLinkNamespaceTypes,
+  generateLinkNamespaces,
+  linkWriteLines,
+} from '../shared/links';
+import {
+  getNestedRelations,
+  hasNestedRelations,
+  generateNestedCommon,
+  generateSqlNestedWriter,
+  nestedParentLines,
+  nestedChildLines,
+  nestedTableLiteral,
+  type NestedRelation,
+} from '../shared/nested';
 
 /**
  * Generate PGlite API client
@@ -31,7 +67,7 @@ export function generatePGliteClient(schemas: AnalyzedSchema[]): string {
   const allBypassConditions = collectBypassConditions(schemas);
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
-  code.line("import { db, initDb, tables, setContext, withContext } from './db';");
+  code.line("import { db, initDb, tables, setContext, withContext, subscribeToChanges } from './db';");
   code.line("import type { RLSContext } from './db';");
   code.line("import type * as Types from './types';");
   code.line();
@@ -45,6 +81,10 @@ export function generatePGliteClient(schemas: AnalyzedSchema[]): string {
   // Always generate the not found error helper
   generateNotFoundError(code);
 
+  if (hasVersioning(schemas)) {
+    generateConflictError(code);
+  }
+
   // RLS support
   if (schemasWithRLS) {
     generateRLSError(code);
@@ -64,6 +104,30 @@ export function generatePGliteClient(schemas: AnalyzedSchema[]): string {
   generateQueryHelpers(code);
   code.line();
 
+  // Many-to-many link writes (inside the request's transaction)
+  if (hasLinkRelations(schemas)) {
+    generateLinkCommon(code);
+    generateSqlLinkWriter(code);
+    for (const schema of schemas) {
+      if (schema.isJunctionTable) continue;
+      generateJunctionConsts(code, schema, schemas);
+    }
+    code.line();
+  }
+
+  // Nested relation writes (inside the request's transaction)
+  if (hasNestedRelations(schemas)) {
+    generateNestedCommon(code);
+    generateSqlNestedWriter(code);
+  }
+
+  // Cursor pagination helpers
+  if (hasCursorPagination(schemas)) {
+    generateCursorCodec(code);
+    generateKeysetPageHelper(code);
+    generateCursorSqlHelpers(code);
+  }
+
   // Generate the API type
   generateApiType(code, schemas);
   code.line();
@@ -209,6 +273,9 @@ function generateInterceptorTypes(code: CodeBuilder): void {
 function generatePGliteErrorWrapper(code: CodeBuilder): void {
   code.comment('Map PostgreSQL error codes to HTTP status codes');
   code.block('function wrapPGliteError(error: unknown, operation: string): ApiError {', () => {
+    code.block('if (error instanceof InvalidFilterError) {', () => {
+      code.line('return new ApiError(error.message, error.status, error.code, operation);');
+    });
     code.line('const err = error as { code?: string; message?: string; detail?: string };');
     code.line('const pgCode = err.code || "UNKNOWN_ERROR";');
     code.line('const message = err.message || "An unknown error occurred";');
@@ -252,15 +319,30 @@ function generateApiType(code: CodeBuilder, schemas: AnalyzedSchema[]): void {
 
       code.block(`${name}: {`, () => {
         code.line(`list: (options?: Types.QueryOptions<Types.${pascalName}Filter, ${includeType}>) => Promise<Types.ListResponse<Types.${pascalName}>>;`);
-        code.line(`get: (id: string, options?: { include?: ${includeType}[] }) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+        code.line(`get: (id: string, options?: ${getOptionsType(schema, includeType)}) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line(`create: (input: Types.${pascalName}Create) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
-        code.line(`update: (id: string, input: Types.${pascalName}Update) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+        code.line(`update: (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line('delete: (id: string) => Promise<void>;');
+        if (schema.softDelete) {
+          code.line(`restore: (id: string) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+          code.line('purge: (id: string) => Promise<void>;');
+        }
+        code.line(`subscribe: (where: Types.${pascalName}Filter, callback: (event: Types.ChangeEvent<Types.${pascalName}>) => void) => () => void;`);
+        generateLinkNamespaceTypes(code, schema, schemas);
       }, '};');
     }
   }, '}');
 }
 
+/**
+ * Options type accepted by a generated get()
+ */
+function getOptionsType(schema: AnalyzedSchema, includeType: string): string {
+  return schema.softDelete
+    ? `{ include?: ${includeType}[]; withDeleted?: boolean; onlyDeleted?: boolean }`
+    : `{ include?: ${includeType}[] }`;
+}
+
 /**
  * Generate the createClient factory function
  */
@@ -356,12 +438,14 @@ function generateCreateClientFactory(
     code.line();
 
     code.comment('Build API client with all entity methods');
-    code.block('return {', () => {
+    code.block('const apiClient: ApiClient = {', () => {
       for (const schema of schemas) {
         if (schema.isJunctionTable) continue;
         generateEntityApiFactory(code, schema, schemas, hasRLS);
       }
     }, '};');
+    code.line();
+    code.line('return apiClient;');
   });
 }
 
@@ -435,80 +519,9 @@ function generateEntityRLSFilters(code: CodeBuilder, schema: AnalyzedSchema, has
  */
 function generateQueryHelpers(code: CodeBuilder): void {
   // Filter to SQL WHERE clause builder
-  code.comment('Build WHERE clause from filter object');
-  code.block(
-    'function buildWhere(filter: Record<string, unknown>, params: unknown[], startIndex = 1): { sql: string; nextIndex: number } {',
-    () => {
-      code.line('const conditions: string[] = [];');
-      code.line('let paramIndex = startIndex;');
-      code.line();
-      code.block('for (const [key, value] of Object.entries(filter)) {', () => {
-        code.block('if (typeof value === "object" && value !== null) {', () => {
-          code.line('const f = value as Record<string, unknown>;');
-          code.line();
-          code.block("if ('equals' in f) {", () => {
-            code.line('conditions.push(`"${key}" = $${paramIndex++}`);');
-            code.line('params.push(f.equals);');
-          });
-          code.block("if ('not' in f) {", () => {
-            code.line('conditions.push(`"${key}" != $${paramIndex++}`);');
-            code.line('params.push(f.not);');
-          });
-          code.block("if ('in' in f) {", () => {
-            code.line('const arr = f.in as unknown[];');
-            code.line('const placeholders = arr.map(() => `$${paramIndex++}`).join(", ");');
-            code.line('conditions.push(`"${key}" IN (${placeholders})`);');
-            code.line('params.push(...arr);');
-          });
-          code.block("if ('notIn' in f) {", () => {
-            code.line('const arr = f.notIn as unknown[];');
-            code.line('const placeholders = arr.map(() => `$${paramIndex++}`).join(", ");');
-            code.line('conditions.push(`"${key}" NOT IN (${placeholders})`);');
-            code.line('params.push(...arr);');
-          });
-          code.block("if ('contains' in f) {", () => {
-            code.line('conditions.push(`"${key}" ILIKE $${paramIndex++}`);');
-            code.line("params.push(`%${f.contains}%`);");
-          });
-          code.block("if ('startsWith' in f) {", () => {
-            code.line('conditions.push(`"${key}" ILIKE $${paramIndex++}`);');
-            code.line("params.push(`${f.startsWith}%`);");
-          });
-          code.block("if ('endsWith' in f) {", () => {
-            code.line('conditions.push(`"${key}" ILIKE $${paramIndex++}`);');
-            code.line("params.push(`%${f.endsWith}`);");
-          });
-          code.block("if ('gt' in f) {", () => {
-            code.line('conditions.push(`"${key}" > $${paramIndex++}`);');
-            code.line('params.push(f.gt);');
-          });
-          code.block("if ('lt' in f) {", () => {
-            code.line('conditions.push(`"${key}" < $${paramIndex++}`);');
-            code.line('params.push(f.lt);');
-          });
-          code.block("if ('gte' in f) {", () => {
-            code.line('conditions.push(`"${key}" >= $${paramIndex++}`);');
-            code.line('params.push(f.gte);');
-          });
-          code.block("if ('lte' in f) {", () => {
-            code.line('conditions.push(`"${key}" <= $${paramIndex++}`);');
-            code.line('params.push(f.lte);');
-          });
-          code.block("if ('isNull' in f) {", () => {
-            code.line('conditions.push(f.isNull ? `"${key}" IS NULL` : `"${key}" IS NOT NULL`);');
-          });
-        }, '} else {');
-        code.indent();
-        code.line('conditions.push(`"${key}" = $${paramIndex++}`);');
-        code.line('params.push(value);');
-        code.dedent();
-        code.line('}');
-      });
-      code.line();
-      code.line("return { sql: conditions.length ? conditions.join(' AND ') : '1=1', nextIndex: paramIndex };");
-    }
-  );
-  code.line();
+  generateFilterCommon(code);
+  generateSqlWhereBuilder(code);
+  generateFilterMatcher(code);
 
   // ORDER BY builder
   code.comment('Build ORDER BY clause');
@@ -535,6 +548,20 @@ function generateQueryHelpers(code: CodeBuilder): void {
       code.line('return result as T;');
     }
   );
+  code.line();
+
+  // Parse change notification rows
+  code.comment('Parse a change notification row (JSON carries timestamps as strings)');
+  code.block(
+    'function parseChangeRow<T>(row: Record<string, unknown>, dateFields: string[]): T {',
+    () => {
+      code.line('const result = { ...row };');
+      code.block('for (const field of dateFields) {', () => {
+        code.line('if (typeof result[field] === "string") result[field] = new Date(result[field] as string);');
+      });
+      code.line('return result as T;');
+    }
+  );
 }
 
 /**
@@ -549,6 +576,10 @@ function generateEntityApiFactory(
   const { name, pascalName, tableName, relations, fields, rls } = schema;
   const hasRelations = relations.length > 0;
   const includeType = hasRelations ? `Types.${pascalName}Include` : 'never';
+  const cursorPaginated = isCursorPaginated(schema);
+  const links = getLinkRelations(schema, allSchemas);
+  const writeLinkLines = linkWriteLines(schema, links, (junction, rel) => `await writeLinks(db, ${junction}, id, ${rel})`);
+  const writeNames = [...getNestedRelations(schema, allSchemas).map((n) => n.relation.name), ...links.map((l) => l.relation.name)];
 
   // Find JSONB fields for parsing
   const jsonFields = fields.filter((f) => f.isArray || f.isObject).map((f) => f.name);
@@ -569,12 +600,23 @@ function generateEntityApiFactory(
     code.line();
 
     // Build WHERE clause
-    code.line('let whereClause = "1=1";');
-    code.block('if (options?.where) {', () => {
-      code.line('const { sql, nextIndex } = buildWhere(options.where, params);');
-      code.line('whereClause = sql;');
-      code.line('paramIndex = nextIndex;');
-    });
+    if (schema.softDelete) {
+      generateDeletedScopeFromOptions(code);
+      generateSqlDeletedFilter(code);
+      code.line('let whereClause = deletedFilter;');
+      code.block('if (options?.where) {', () => {
+        code.line('const { sql, nextIndex } = buildWhere(options.where, params);');
+        code.line('whereClause = `${deletedFilter} AND (${sql})`;');
+        code.line('paramIndex = nextIndex;');
+      });
+    } else {
+      code.line('let whereClause = "1=1";');
+      code.block('if (options?.where) {', () => {
+        code.line('const { sql, nextIndex } = buildWhere(options.where, params);');
+        code.line('whereClause = sql;');
+        code.line('paramIndex = nextIndex;');
+      });
+    }
     code.line();
 
     // Count query
@@ -586,21 +628,39 @@ function generateEntityApiFactory(
     code.line();
 
     // Main query
-    code.line('const orderBy = buildOrderBy(options?.orderBy);');
-    code.line('const limit = options?.limit ?? 20;');
-    code.line('const offset = options?.offset ?? 0;');
-    code.line();
-    code.line(`const result = await db.query<Record<string, unknown>>(`);
-    code.line(`  \`SELECT * FROM "${tableName}" WHERE \${whereClause} \${orderBy} LIMIT \${limit} OFFSET \${offset}\`,`);
-    code.line('  params');
-    code.line(');');
-    code.line();
+    if (cursorPaginated) {
+      // Keyset query: fetch one extra row in cursor direction to detect more pages
+      code.line(`const limit = options?.limit ?? ${getDefaultLimit(schema)};`);
+      code.line('const keys = getCursorSortKeys(options?.orderBy);');
+      code.line('const cursor = options?.cursor ? decodeCursor(options.cursor) : undefined;');
+      code.block('if (cursor) {', () => {
+        code.line('whereClause = `${whereClause} AND ${buildCursorWhere(keys, cursor, params, paramIndex).sql}`;');
+      });
+      code.line();
+      code.line(`const result = await db.query<Record<string, unknown>>(`);
+      code.line(`  \`SELECT * FROM "${tableName}" WHERE \${whereClause} \${buildCursorOrderBy(keys, cursor)} LIMIT \${limit + 1}\`,`);
+      code.line('  params');
+      code.line(');');
+      code.line('const page = toCursorPage(result.rows, keys, limit, cursor);');
+      code.line();
+    } else {
+      code.line('const orderBy = buildOrderBy(options?.orderBy);');
+      code.line('const limit = options?.limit ?? 20;');
+      code.line('const offset = options?.offset ?? 0;');
+      code.line();
+      code.line(`const result = await db.query<Record<string, unknown>>(`);
+      code.line(`  \`SELECT * FROM "${tableName}" WHERE \${whereClause} \${orderBy} LIMIT \${limit} OFFSET \${offset}\`,`);
+      code.line('  params');
+      code.line(');');
+      code.line();
+    }
 
     // Parse JSONB fields
+    const rowsExpr = cursorPaginated ? 'page.items' : 'result.rows';
     if (hasJsonFields) {
-      code.line(`let items = result.rows.map(row => parseRow<Types.${pascalName}>(row, [${jsonFieldsStr}]));`);
+      code.line(`let items = ${rowsExpr}.map(row => parseRow<Types.${pascalName}>(row, [${jsonFieldsStr}]));`);
     } else {
-      code.line(`let items = result.rows as Types.${pascalName}[];`);
+      code.line(`let items = ${rowsExpr} as Types.${pascalName}[];`);
     }
     code.line();
 
@@ -627,21 +687,34 @@ function generateEntityApiFactory(
       code.line();
     }
 
-    code.line('return { data: items, meta: { total, limit, offset, hasMore: offset + limit < total } };');
+    if (cursorPaginated) {
+      code.line('return {');
+      code.line('  data: items,');
+      code.line('  meta: { total, limit, offset: 0, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },');
+      code.line('};');
+    } else {
+      code.line('return { data: items, meta: { total, limit, offset, hasMore: offset + limit < total } };');
+    };
     code.dedent();
     code.line('}),');
     code.dedent();
     code.line();
 
     // GET
-    code.line(`get: (id: string, options?: { include?: ${includeType}[] }) =>`);
+    code.line(`get: (id: string, options?: ${getOptionsType(schema, includeType)}) =>`);
     code.indent();
     code.line(`executeRequest('${name}.get', async (ctx) => {`);
     code.indent();
     code.line('await initDb();');
+    if (schema.softDelete) {
+      generateDeletedScopeFromOptions(code);
+      generateSqlDeletedFilter(code);
+    }
     code.line();
     code.line(`const result = await db.query<Record<string, unknown>>(`);
-    code.line(`  \`SELECT * FROM "${tableName}" WHERE "id" = $1\`,`);
+    code.line(schema.softDelete
+      ? `  \`SELECT * FROM "${tableName}" WHERE "id" = $1 AND \${deletedFilter}\`,`
+      : `  \`SELECT * FROM "${tableName}" WHERE "id" = $1\`,`);
     code.line('  [id]');
     code.line(');');
     code.line();
@@ -689,18 +762,20 @@ function generateEntityApiFactory(
     code.line();
 
     // UPDATE
-    code.line(`update: (id: string, input: Types.${pascalName}Update) =>`);
+    code.line(`update: (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}) =>`);
     code.indent();
     code.line(`executeRequest('${name}.update', async (ctx) => {`);
     code.indent();
     code.line('await initDb();');
     code.line();
 
+    const liveOnly = schema.softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
+
     // Check RLS on existing item first
     if (hasRLS && rls.enabled) {
       code.comment('Check RLS before update');
       code.line(`const existing = await db.query<Record<string, unknown>>(`);
-      code.line(`  \`SELECT * FROM "${tableName}" WHERE "id" = $1\`,`);
+      code.line(`  \`SELECT * FROM "${tableName}" WHERE "id" = $1${liveOnly}\`,`);
       code.line('  [id]');
       code.line(');');
       code.line(`if (existing.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
@@ -710,20 +785,47 @@ function generateEntityApiFactory(
       code.line();
     }
 
-    code.line("const data = { ...input, updatedAt: new Date() };");
+    if (writeNames.length > 0) {
+      code.line(`const { ${writeNames.join(', ')}, ...changes } = input;`);
+      code.addLines(nestedParentLines(schema, allSchemas, 'changes', (n) => `await writeNestedParent(db, ${nestedTableLiteral(n)}, ${n.relation.name})`));
+      code.line('const data = { ...changes, updatedAt: new Date() };');
+    } else {
+      code.line("const data = { ...input, updatedAt: new Date() };");
+    }
     code.line('const fields = Object.keys(data);');
     code.line('const values = Object.values(data);');
     code.line();
     code.line('const setClauses = fields.map((f, i) => `"${f}" = $${i + 1}`).join(", ");');
     code.line();
-    code.line(`const result = await db.query<Record<string, unknown>>(`);
-    code.line(`  \`UPDATE "${tableName}" SET \${setClauses} WHERE "id" = $\${fields.length + 1} RETURNING *\`,`);
-    code.line('  [...values, id]');
-    code.line(');');
-    code.line();
-    if (!hasRLS || !rls.enabled) {
-      code.line(`if (result.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
+    if (schema.versioned) {
+      code.comment('Bump the version; with an expected version, only update if it still matches');
+      code.line(`const result = await db.query<Record<string, unknown>>(`);
+      code.line(
+        `  \`UPDATE "${tableName}" SET \${setClauses}, "version" = "version" + 1 WHERE "id" = $\${fields.length + 1}${liveOnly} AND ($\${fields.length + 2}::int IS NULL OR "version" = $\${fields.length + 2}) RETURNING *\`,`
+      );
+      code.line('  [...values, id, options?.expectedVersion ?? null]');
+      code.line(');');
+      code.line();
+      code.block('if (result.rows.length === 0) {', () => {
+        code.line(`const current = await db.query<Record<string, unknown>>(\`SELECT * FROM "${tableName}" WHERE "id" = $1${liveOnly}\`, [id]);`);
+        code.line(`if (current.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
+        const currentRow = hasJsonFields
+          ? `parseRow<Types.${pascalName}>(current.rows[0], [${jsonFieldsStr}])`
+          : `current.rows[0] as Types.${pascalName}`;
+        code.line(`throw createConflictError('${pascalName}', ${currentRow}, options!.expectedVersion!);`);
+      });
+    } else {
+      code.line(`const result = await db.query<Record<string, unknown>>(`);
+      code.line(`  \`UPDATE "${tableName}" SET \${setClauses} WHERE "id" = $\${fields.length + 1}${liveOnly} RETURNING *\`,`);
+      code.line('  [...values, id]');
+      code.line(');');
+      code.line();
+      if (!hasRLS || !rls.enabled) {
+        code.line(`if (result.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
+      }
     }
+    code.addLines(nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, 'id')));
+    code.addLines(writeLinkLines);
 
     if (hasJsonFields) {
       code.line(`return { data: parseRow<Types.${pascalName}>(result.rows[0], [${jsonFieldsStr}]) };`);
@@ -747,7 +849,7 @@ function generateEntityApiFactory(
     if (hasRLS && rls.enabled) {
       code.comment('Check RLS before delete');
       code.line(`const existing = await db.query<Record<string, unknown>>(`);
-      code.line(`  \`SELECT * FROM "${tableName}" WHERE "id" = $1\`,`);
+      code.line(`  \`SELECT * FROM "${tableName}" WHERE "id" = $1${liveOnly}\`,`);
       code.line('  [id]');
       code.line(');');
       code.line(`if (existing.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
@@ -758,7 +860,11 @@ function generateEntityApiFactory(
     }
 
     code.line(`const result = await db.query(`);
-    code.line(`  \`DELETE FROM "${tableName}" WHERE "id" = $1 RETURNING "id"\`,`);
+    if (schema.softDelete) {
+      code.line(`  \`UPDATE "${tableName}" SET "deletedAt" = NOW() WHERE "id" = $1${liveOnly} RETURNING "id"\`,`);
+    } else {
+      code.line(`  \`DELETE FROM "${tableName}" WHERE "id" = $1 RETURNING "id"\`,`);
+    }
     code.line('  [id]');
     code.line(');');
     code.line();
@@ -768,10 +874,136 @@ function generateEntityApiFactory(
     code.dedent();
     code.line('}),');
     code.dedent();
+    code.line();
+
+    if (schema.softDelete) {
+      generateRestoreAndPurge(code, schema, hasJsonFields, jsonFieldsStr, hasRLS);
+    }
+
+    // SUBSCRIBE
+    generateSubscribeMethod(code, schema);
+
+    generateLinkNamespaces(code, schema, allSchemas, 'apiClient');
   }, '},');
   code.line();
 }
 
+/**
+ * Generate restore() and purge() for a soft-delete entity
+ */
+function generateRestoreAndPurge(
+  code: CodeBuilder,
+  schema: AnalyzedSchema,
+  hasJsonFields: boolean,
+  jsonFieldsStr: string,
+  hasRLS: boolean
+): void {
+  const { name, pascalName, tableName, rls } = schema;
+  const checkRLS = hasRLS && rls.enabled;
+
+  // RESTORE
+  code.line('restore: (id: string) =>');
+  code.indent();
+  code.line(`executeRequest('${name}.restore', async (ctx) => {`);
+  code.indent();
+  code.line('await initDb();');
+  code.line();
+  if (checkRLS) {
+    code.comment('Check RLS before restore');
+    code.line(`const existing = await db.query<Record<string, unknown>>(`);
+    code.line(`  \`SELECT * FROM "${tableName}" WHERE "id" = $1 AND ${DELETED_ROWS_SQL}\`,`);
+    code.line('  [id]');
+    code.line(');');
+    code.line(`if (existing.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
+    code.block(`if (!rls${pascalName}Update(existing.rows[0], ctx)) {`, () => {
+      code.line(`throw createRLSError('update', '${pascalName}');`);
+    });
+    code.line();
+  }
+  code.line(`const result = await db.query<Record<string, unknown>>(`);
+  code.line(`  \`UPDATE "${tableName}" SET "deletedAt" = NULL WHERE "id" = $1 AND ${DELETED_ROWS_SQL} RETURNING *\`,`);
+  code.line('  [id]');
+  code.line(');');
+  code.line(`if (result.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
+  code.line();
+  if (hasJsonFields) {
+    code.line(`return { data: parseRow<Types.${pascalName}>(result.rows[0], [${jsonFieldsStr}]) };`);
+  } else {
+    code.line(`return { data: result.rows[0] as Types.${pascalName} };`);
+  }
+  code.dedent();
+  code.line('}),');
+  code.dedent();
+  code.line();
+
+  // PURGE
+  code.line('purge: (id: string) =>');
+  code.indent();
+  code.line(`executeRequest('${name}.purge', async (ctx) => {`);
+  code.indent();
+  code.line('await initDb();');
+  code.line();
+  if (checkRLS) {
+    code.comment('Check RLS before purge');
+    code.line(`const existing = await db.query<Record<string, unknown>>(`);
+    code.line(`  \`SELECT * FROM "${tableName}" WHERE "id" = $1\`,`);
+    code.line('  [id]');
+    code.line(');');
+    code.line(`if (existing.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
+    code.block(`if (!rls${pascalName}Delete(existing.rows[0], ctx)) {`, () => {
+      code.line(`throw createRLSError('delete', '${pascalName}');`);
+    });
+    code.line();
+  }
+  if (checkRLS) {
+    code.line(`await db.query(\`DELETE FROM "${tableName}" WHERE "id" = $1\`, [id]);`);
+  } else {
+    code.line(`const result = await db.query(\`DELETE FROM "${tableName}" WHERE "id" = $1 RETURNING "id"\`, [id]);`);
+    code.line(`if (result.rows.length === 0) throw createNotFoundError('${pascalName}', id);`);
+  }
+  code.dedent();
+  code.line('}),');
+  code.dedent();
+  code.line();
+}
+
+/**
+ * Generate subscribe(), fed by the change triggers of the generated db.
+ * Rows too large for a notification arrive as { id } and are re-read
+ * (or, for deletes, delivered as is); the queue keeps events in commit
+ * order while that happens.
+ */
+function generateSubscribeMethod(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName, tableName, fields } = schema;
+  const dateFields = fields.filter((f) => f.type === 'date').map((f) => `'${f.name}'`).join(', ');
+
+  code.line(`subscribe: (where: Types.${pascalName}Filter, callback: (event: Types.ChangeEvent<Types.${pascalName}>) => void) => {`);
+  code.indent();
+  code.line('let queue = Promise.resolve();');
+  code.line(`const matches = (row?: Types.${pascalName}) => row !== undefined && matchesWhere(row as unknown as Record<string, unknown>, where);`);
+  code.line();
+  code.block(`return subscribeToChanges('${tableName}', (event) => {`, () => {
+    code.block('queue = queue.then(async () => {', () => {
+      code.line('let row = event.record;');
+      code.line('const partial = Object.keys(row).length === 1;');
+      code.block("if (partial && event.type !== 'delete') {", () => {
+        code.line(`const result = await db.query<Record<string, unknown>>(\`SELECT * FROM "${tableName}" WHERE "id" = $1\`, [row.id]);`);
+        code.line('if (result.rows.length === 0) return;');
+        code.line('row = result.rows[0];');
+      });
+      code.line();
+      code.line(`const record = parseChangeRow<Types.${pascalName}>(row, [${dateFields}]);`);
+      code.line(`const previous = event.previous && parseChangeRow<Types.${pascalName}>(event.previous, [${dateFields}]);`);
+      code.comment('A partial delete cannot be filtered, so it is always delivered');
+      code.block("if (matches(record) || matches(previous) || (partial && event.type === 'delete')) {", () => {
+        code.line(`callback({ type: event.type, entity: '${name}', record, previous });`);
+      });
+    }, `}).catch((error) => console.error('[Schemock] ${name}.subscribe callback failed:', error));`);
+  }, '});');
+  code.dedent();
+  code.line('},');
+}
+
 /**
  * Generate code to load a relation
  */
@@ -785,22 +1017,24 @@ function generateRelationLoad(
 ): void {
   const targetSchema = allSchemas.find((s) => s.name === rel.target);
   if (!targetSchema) return;
+  // Soft-deleted targets are hidden from relations
+  const live = targetSchema.softDelete ? ` AND ${LIVE_ROWS_SQL}` : '';
 
   if (rel.type === 'hasMany') {
     code.line(`const ${rel.name}Result = await db.query(`);
-    code.line(`  \`SELECT * FROM "${targetSchema.tableName}" WHERE "${rel.foreignKey}" = $1\`,`);
+    code.line(`  \`SELECT * FROM "${targetSchema.tableName}" WHERE "${rel.foreignKey}" = $1${live}\`,`);
     code.line(`  [${itemVar}.id]`);
     code.line(');');
     code.line(`${resultVar}.${rel.name} = ${rel.name}Result.rows;`);
   } else if (rel.type === 'hasOne') {
     code.line(`const ${rel.name}Result = await db.query(`);
-    code.line(`  \`SELECT * FROM "${targetSchema.tableName}" WHERE "${rel.foreignKey}" = $1 LIMIT 1\`,`);
+    code.line(`  \`SELECT * FROM "${targetSchema.tableName}" WHERE "${rel.foreignKey}" = $1${live} LIMIT 1\`,`);
     code.line(`  [${itemVar}.id]`);
     code.line(');');
     code.line(`${resultVar}.${rel.name} = ${rel.name}Result.rows[0] ?? null;`);
   } else if (rel.type === 'belongsTo') {
     code.line(`const ${rel.name}Result = await db.query(`);
-    code.line(`  \`SELECT * FROM "${targetSchema.tableName}" WHERE "id" = $1 LIMIT 1\`,`);
+    code.line(`  \`SELECT * FROM "${targetSchema.tableName}" WHERE "id" = $1${live} LIMIT 1\`,`);
     code.line(`  [(${itemVar} as Record<string, unknown>).${rel.localField}]`);
     code.line(');');
     code.line(`${resultVar}.${rel.name} = ${rel.name}Result.rows[0] ?? null;`);
@@ -815,7 +1049,7 @@ function generateRelationLoad(
       code.block('if (relatedIds.length > 0) {', () => {
         code.line('const placeholders = relatedIds.map((_, i) => `$${i + 1}`).join(", ");');
         code.line(`const related = await db.query(`);
-        code.line(`  \`SELECT * FROM "${targetSchema.tableName}" WHERE "id" IN (\${placeholders})\`,`);
+        code.line(`  \`SELECT * FROM "${targetSchema.tableName}" WHERE "id" IN (\${placeholders})${live}\`,`);
         code.line('  relatedIds');
         code.line(');');
         code.line(`${resultVar}.${rel.name} = related.rows;`);
@@ -839,9 +1073,10 @@ function generateCreateMethodFactory(
   jsonFieldsStr: string,
   hasRLS: boolean
 ): void {
-  const { name, pascalName, tableName, relations, fields, rls } = schema;
-  const nestedRels = relations.filter((r) => r.type === 'hasMany' || r.type === 'hasOne');
+  const { name, pascalName, tableName, fields, rls } = schema;
+  const nested = getNestedRelations(schema, allSchemas);
   const jsonFields = fields.filter((f) => f.isArray || f.isObject).map((f) => f.name);
+  const links = getLinkRelations(schema, allSchemas);
 
   code.line(`create: (input: Types.${pascalName}Create) =>`);
   code.indent();
@@ -850,9 +1085,10 @@ function generateCreateMethodFactory(
   code.line('await initDb();');
   code.line();
 
-  if (nestedRels.length > 0) {
-    const relNames = nestedRels.map((r) => r.name).join(', ');
+  if (nested.length > 0 || links.length > 0) {
+    const relNames = [...nested.map((n) => n.relation.name), ...links.map((l) => l.relation.name)].join(', ');
     code.line(`const { ${relNames}, ...data } = input;`);
+    code.addLines(nestedParentLines(schema, allSchemas, 'data', (n) => `await writeNestedParent(db, ${nestedTableLiteral(n)}, ${n.relation.name})`));
   } else {
     code.line('const data = input;');
   }
@@ -899,40 +1135,13 @@ function generateCreateMethodFactory(
     });
   }
 
-  // Handle nested creates
-  if (nestedRels.length > 0) {
-    code.line();
-    for (const rel of nestedRels) {
-      const targetSchema = allSchemas.find((s) => s.name === rel.target);
-      if (!targetSchema) continue;
-
-      code.block(`if (${rel.name}) {`, () => {
-        if (rel.type === 'hasMany') {
-          code.block(`for (const nested of ${rel.name}) {`, () => {
-            code.line(`const nestedData = { ...nested, ${rel.foreignKey}: item.id };`);
-            code.line('const nestedFields = Object.keys(nestedData);');
-            code.line('const nestedValues = Object.values(nestedData);');
-            code.line('const nestedPlaceholders = nestedFields.map((_, i) => `$${i + 1}`).join(", ");');
-            code.line('const nestedColumns = nestedFields.map(f => `"${f}"`).join(", ");');
-            code.line('await db.query(');
-            code.line(`  \`INSERT INTO "${targetSchema.tableName}" (\${nestedColumns}) VALUES (\${nestedPlaceholders})\`,`);
-            code.line('  nestedValues');
-            code.line(');');
-          });
-        } else {
-          code.line(`const nestedData = { ...${rel.name}, ${rel.foreignKey}: item.id };`);
-          code.line('const nestedFields = Object.keys(nestedData);');
-          code.line('const nestedValues = Object.values(nestedData);');
-          code.line('const nestedPlaceholders = nestedFields.map((_, i) => `$${i + 1}`).join(", ");');
-          code.line('const nestedColumns = nestedFields.map(f => `"${f}"`).join(", ");');
-          code.line('await db.query(');
-          code.line(`  \`INSERT INTO "${targetSchema.tableName}" (\${nestedColumns}) VALUES (\${nestedPlaceholders})\`,`);
-          code.line('  nestedValues');
-          code.line(');');
-        }
-      });
-    }
+  // Nested child rows, then links
+  const childLines = nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, 'item.id'));
+  if (childLines.length > 0) {
+    code.line();
+    code.addLines(childLines);
   }
+  code.addLines(linkWriteLines(schema, links, (junction, rel) => `await writeLinks(db, ${junction}, item.id, ${rel})`));
 
   code.line();
   code.line('return { data: item };');
@@ -941,3 +1150,13 @@ function generateCreateMethodFactory(
   code.line('}),');
   code.dedent();
 }
+
+/**
+ * writeNestedChildren() statement for a hasMany/hasOne nested write
+ *
+ * @param parentId - Expression for the id of the entity row
+ */
+function nestedChildCall(nested: NestedRelation, parentId: string): string {
+  const { relation } = nested;
+  return `await writeNestedChildren(db, ${nestedTableLiteral(nested)}, '${relation.foreignKey}', ${parentId}, ${relation.name})`;
+}
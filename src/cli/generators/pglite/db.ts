@@ -60,10 +60,23 @@ function mapToPostgresType(field: AnalyzedField): string {
     case 'boolean':
       pgType = 'BOOLEAN';
       break;
+    case 'bigint':
+      pgType = 'BIGINT';
+      break;
+    case 'decimal':
+      pgType = field.precision !== undefined ? `DECIMAL(${field.precision}, ${field.scale ?? 0})` : 'DECIMAL';
+      break;
     case 'date':
     case 'datetime':
       pgType = 'TIMESTAMPTZ';
       break;
+    case 'time':
+      pgType = 'TIME';
+      break;
+    case 'bytes':
+      // Base64 text, like the generated types, so rows survive JSON as-is
+      pgType = 'TEXT';
+      break;
     case 'json':
       pgType = 'JSONB';
       break;
@@ -100,7 +113,7 @@ function formatDefaultValue(field: AnalyzedField): string | null {
 
   if (val === null) return 'NULL';
   if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
-  if (typeof val === 'number') return String(val);
+  if (typeof val === 'number' || typeof val === 'bigint') return String(val);
   if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
   if (val instanceof Date) return `'${val.toISOString()}'`;
   if (typeof val === 'object') return `'${JSON.stringify(val).replace(/'/g, "''")}'::jsonb`;
@@ -117,7 +130,8 @@ function generateCreateTable(schema: AnalyzedSchema): string {
   // Add columns
   const columns: string[] = [];
   for (const field of schema.fields) {
-    const pgType = mapToPostgresType(field);
+    // Soft-delete tables enforce uniqueness with partial indexes instead
+    const pgType = mapToPostgresType(schema.softDelete ? { ...field, unique: false } : field);
     columns.push(`  "${field.name}" ${pgType}`);
   }
 
@@ -149,7 +163,8 @@ function generateForeignKeys(schema: AnalyzedSchema, allSchemas: AnalyzedSchema[
 }
 
 /**
- * Generate indexes for unique fields
+ * Generate indexes for foreign keys, plus partial unique indexes over live
+ * rows for soft-delete tables
  */
 function generateIndexes(schema: AnalyzedSchema): string[] {
   const indexes: string[] = [];
@@ -161,6 +176,11 @@ function generateIndexes(schema: AnalyzedSchema): string[] {
         `CREATE INDEX IF NOT EXISTS "idx_${schema.tableName}_${field.name}" ON "${schema.tableName}"("${field.name}");`
       );
     }
+    if (schema.softDelete && field.unique && field.name !== 'id') {
+      indexes.push(
+        `CREATE UNIQUE INDEX IF NOT EXISTS "idx_${schema.tableName}_${field.name}_unique" ON "${schema.tableName}"("${field.name}") WHERE "deletedAt" IS NULL;`
+      );
+    }
   }
 
   return indexes;
@@ -241,19 +261,23 @@ function generateRLSPolicies(schema: AnalyzedSchema): string[] {
 export function generatePGliteDb(schemas: AnalyzedSchema[], config: PGliteAdapterConfig): string {
   const code = new CodeBuilder();
 
+  // PGlite parses BIGINT as number or bigint; the generated types expect decimal strings
+  const hasBigint = schemas.some((s) => s.fields.some((f) => f.type === 'bigint'));
+
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
-  code.line("import { PGlite } from '@electric-sql/pglite';");
+  code.line(`import { PGlite${hasBigint ? ', types' : ''} } from '@electric-sql/pglite';`);
   code.line();
 
   // Storage option
   const storage = config.persistence === 'memory' ? undefined : config.dataDir || 'idb://schemock-db';
+  const options = hasBigint ? '{ parsers: { [types.INT8]: (value) => value } }' : undefined;
+  const args = [storage && `'${storage}'`, options].filter(Boolean).join(', ');
 
   code.comment('Database instance');
-  if (storage) {
-    code.line(`export const db = new PGlite('${storage}');`);
-  } else {
-    code.line('export const db = new PGlite();');
+  if (hasBigint) {
+    code.comment('BIGINT columns are read as decimal strings, like the generated types');
   }
+  code.line(`export const db = new PGlite(${args});`);
   code.line();
 
   // Generate SQL schema
@@ -308,6 +332,12 @@ export function generatePGliteDb(schemas: AnalyzedSchema[], config: PGliteAdapte
     }
   }
 
+  // Change notifications for subscribeToChanges()
+  code.raw('-- Change Notifications');
+  for (const statement of generateChangeTriggers(schemas)) {
+    code.raw(statement);
+  }
+
   code.line('`;');
   code.line();
 
@@ -349,6 +379,8 @@ export function generatePGliteDb(schemas: AnalyzedSchema[], config: PGliteAdapte
   code.line('export type TableName = keyof typeof tables;');
   code.line();
 
+  generateChangeListener(code);
+
   // Always generate RLS helpers - needed for interceptor pattern
   // even if no schema has RLS enabled, the client uses withContext
   // for transaction scoping and context extraction from JWT
@@ -357,6 +389,100 @@ export function generatePGliteDb(schemas: AnalyzedSchema[], config: PGliteAdapte
   return code.toString();
 }
 
+/**
+ * Generate the trigger function and per-table triggers that NOTIFY writes
+ *
+ * Postgres delivers notifications on commit and drops them on rollback.
+ * Payloads are limited to 8000 bytes, so rows that do not fit are sent as
+ * their id only.
+ */
+function generateChangeTriggers(schemas: AnalyzedSchema[]): string[] {
+  const statements = [
+    [
+      'CREATE OR REPLACE FUNCTION schemock_notify_change() RETURNS trigger AS $$',
+      'DECLARE',
+      '  row_data record;',
+      '  payload text;',
+      'BEGIN',
+      "  IF TG_OP = 'DELETE' THEN row_data := OLD; ELSE row_data := NEW; END IF;",
+      "  payload := json_build_object('type', lower(TG_OP), 'table', TG_TABLE_NAME, 'record', row_to_json(row_data),",
+      "    'previous', CASE WHEN TG_OP = 'UPDATE' THEN row_to_json(OLD) END)::text;",
+      '  IF octet_length(payload) > 7900 THEN',
+      "    payload := json_build_object('type', lower(TG_OP), 'table', TG_TABLE_NAME,",
+      "      'record', json_build_object('id', row_data.id))::text;",
+      '  END IF;',
+      "  PERFORM pg_notify('schemock_changes', payload);",
+      '  RETURN NULL;',
+      'END;',
+      '$$ LANGUAGE plpgsql;',
+    ].join('\n'),
+  ];
+
+  for (const schema of schemas) {
+    if (!schema.fields.some((f) => f.name === 'id')) continue;
+
+    const trigger = `"${schema.tableName}_changes"`;
+    statements.push(`DROP TRIGGER IF EXISTS ${trigger} ON "${schema.tableName}";`);
+    statements.push(
+      `CREATE TRIGGER ${trigger} AFTER INSERT OR UPDATE OR DELETE ON "${schema.tableName}" FOR EACH ROW EXECUTE FUNCTION schemock_notify_change();`
+    );
+  }
+
+  return statements;
+}
+
+/**
+ * Generate subscribeToChanges(), which listens to the trigger notifications
+ */
+function generateChangeListener(code: CodeBuilder): void {
+  code.docComment('A committed write, as notified by the change triggers');
+  code.block('export interface DbChangeEvent {', () => {
+    code.line("type: 'insert' | 'update' | 'delete';");
+    code.line('table: string;');
+    code.line('/** The written row; only { id } when the row was too large to notify */');
+    code.line('record: Record<string, unknown>;');
+    code.line('previous?: Record<string, unknown>;');
+  });
+  code.line();
+
+  code.line('const changeListeners = new Map<string, Set<(event: DbChangeEvent) => void>>();');
+  code.line('let listening = false;');
+  code.line();
+
+  code.multiDocComment([
+    'Observe committed writes to a table, from any code path that writes',
+    'through this database (clients, endpoints, raw SQL).',
+    '',
+    '@example',
+    "const stop = subscribeToChanges('users', (event) => console.log(event.type, event.record));",
+    'stop();',
+  ]);
+  code.block('export function subscribeToChanges(table: string, listener: (event: DbChangeEvent) => void): () => void {', () => {
+    code.line('if (!changeListeners.has(table)) changeListeners.set(table, new Set());');
+    code.line('changeListeners.get(table)!.add(listener);');
+    code.line();
+    code.block('if (!listening) {', () => {
+      code.line('listening = true;');
+      code.block("void db.listen('schemock_changes', (payload) => {", () => {
+        code.line('const event = JSON.parse(payload) as DbChangeEvent;');
+        code.line('if (event.previous === null) delete event.previous;');
+        code.block('for (const notify of [...(changeListeners.get(event.table) ?? [])]) {', () => {
+          code.block('try {', () => {
+            code.line('notify(event);');
+          }, '} catch (error) {');
+          code.indent();
+          code.line("console.error(`[Schemock] Change listener for ${event.table} failed:`, error);");
+          code.dedent();
+          code.line('}');
+        });
+      }, '});');
+    });
+    code.line();
+    code.line('return () => changeListeners.get(table)?.delete(listener);');
+  });
+  code.line();
+}
+
 /**
  * Generate RLS helper functions (generic context-based)
  */
@@ -387,20 +513,42 @@ function generateRLSHelpers(code: CodeBuilder): void {
   });
   code.line();
 
-  code.comment('Execute a function with context (transaction-scoped)');
-  code.block('export async function withContext<T>(ctx: RLSContext, fn: () => T | Promise<T>): Promise<T> {', () => {
-    code.line("await db.exec('BEGIN');");
+  code.line('let transactionDepth = 0;');
+  code.line();
+  code.multiDocComment([
+    'Run fn in a transaction: BEGIN/COMMIT at the top level, a savepoint when',
+    'already inside one (e.g. an endpoint resolver running under withContext).',
+    'Rolls back and rethrows if fn throws.',
+  ]);
+  code.block('export async function transaction<T>(fn: (tx: PGlite) => T | Promise<T>): Promise<T> {', () => {
+    code.line('const savepoint = transactionDepth > 0 ? `sp_${transactionDepth}` : null;');
+    code.line("await db.exec(savepoint ? `SAVEPOINT ${savepoint}` : 'BEGIN');");
+    code.line('transactionDepth++;');
     code.block('try {', () => {
-      code.line('await setContext(ctx);');
-      code.line('const result = await fn();');
-      code.line("await db.exec('COMMIT');");
+      code.line('const result = await fn(db);');
+      code.line("await db.exec(savepoint ? `RELEASE SAVEPOINT ${savepoint}` : 'COMMIT');");
       code.line('return result;');
     }, '} catch (e) {');
     code.indent();
-    code.line("await db.exec('ROLLBACK');");
+    code.line("await db.exec(savepoint ? `ROLLBACK TO SAVEPOINT ${savepoint}` : 'ROLLBACK');");
     code.line('throw e;');
     code.dedent();
-    code.line('}');
+    code.block('} finally {', () => {
+      code.line('transactionDepth--;');
+    });
+  });
+  code.line();
+
+  code.comment('Endpoint resolvers use db.$transaction(), the same call as on the mock target');
+  code.line('Object.assign(db, { $transaction: transaction });');
+  code.line();
+
+  code.comment('Execute a function with context (transaction-scoped)');
+  code.block('export async function withContext<T>(ctx: RLSContext, fn: () => T | Promise<T>): Promise<T> {', () => {
+    code.block('return transaction(async () => {', () => {
+      code.line('await setContext(ctx);');
+      code.line('return fn();');
+    }, '});');
   });
   code.line();
 
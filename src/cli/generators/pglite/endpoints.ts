@@ -380,6 +380,7 @@ export function generatePGliteEndpointResolvers(endpoints: AnalyzedEndpoint[], o
   code.block('export interface PGliteResolverContext<TParams = Record<string, unknown>, TBody = Record<string, unknown>> {', () => {
     code.line('params: TParams;');
     code.line('body: TBody;');
+    code.line('/** PGlite instance; db.$transaction() nests as a savepoint inside the request transaction */');
     code.line('db: any;');
     code.line('headers: Record<string, string>;');
     code.line('rlsContext?: RLSContext;');
@@ -15,6 +15,7 @@ import type { AnalyzedSchema, AnalyzedEndpoint, AnalyzedEndpointField } from '..
 import { CodeBuilder } from '../../utils/code-builder';
 import { pluralize } from '../../utils/pluralize';
 import { hasAnyRLS } from '../shared/rls';
+import { hasVersioning, generateParseIfMatch, PRECONDITION_REQUIRED_BODY, conflictBody } from '../shared/versioning';
 
 /**
  * Generate MSW request handlers for all entities (PGlite version)
@@ -26,14 +27,20 @@ import { hasAnyRLS } from '../shared/rls';
 export function generatePGliteHandlers(schemas: AnalyzedSchema[], apiPrefix: string = '/api'): string {
   const code = new CodeBuilder();
   const hasRLS = hasAnyRLS(schemas);
+  const versioned = hasVersioning(schemas);
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
   code.line("import { http, HttpResponse } from 'msw';");
-  code.line("import { api } from './client';");
+  code.line(versioned ? "import { api, ConflictError } from './client';" : "import { api } from './client';");
   code.line("import { routes } from './routes';");
   code.line("import type * as Types from './types';");
   code.line();
 
+  if (versioned) {
+    generateParseIfMatch(code);
+    code.line();
+  }
+
   // Define RLSError locally to avoid bundler issues with symlinked packages
   if (hasRLS) {
     code.comment('RLS error class for access denied responses');
@@ -48,6 +55,11 @@ export function generatePGliteHandlers(schemas: AnalyzedSchema[], apiPrefix: str
 
     code.comment('Handle errors and return appropriate HTTP responses');
     code.block('function handleError(error: unknown): Response {', () => {
+      if (versioned) {
+        code.block('if (error instanceof ConflictError) {', () => {
+          code.line(`return HttpResponse.json(${conflictBody('error.current')}, { status: 409 });`);
+        });
+      }
       code.block('if (error instanceof RLSError) {', () => {
         code.line("return HttpResponse.json({ error: error.message }, { status: 403 });");
       });
@@ -75,6 +87,11 @@ export function generatePGliteHandlers(schemas: AnalyzedSchema[], apiPrefix: str
     // Even without RLS, we need error handling for PGlite errors
     code.comment('Handle errors and return appropriate HTTP responses');
     code.block('function handleError(error: unknown): Response {', () => {
+      if (versioned) {
+        code.block('if (error instanceof ConflictError) {', () => {
+          code.line(`return HttpResponse.json(${conflictBody('error.current')}, { status: 409 });`);
+        });
+      }
       code.block('if (error instanceof Error && error.message.includes("not found")) {', () => {
         code.line("return HttpResponse.json({ error: error.message }, { status: 404 });");
       });
@@ -103,6 +120,10 @@ export function generatePGliteHandlers(schemas: AnalyzedSchema[], apiPrefix: str
   return code.toString();
 }
 
+/** Soft delete scope read from the request URL */
+const SCOPE_OPTIONS =
+  "withDeleted: url.searchParams.get('withDeleted') === 'true', onlyDeleted: url.searchParams.get('onlyDeleted') === 'true'";
+
 /**
  * Generate handlers for a single entity
  */
@@ -119,7 +140,8 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema): void
     code.line("const offset = parseInt(url.searchParams.get('offset') || '0');");
     code.line();
     code.block('try {', () => {
-      code.line(`const response = await api.${name}.list({ limit, offset });`);
+      const listOptions = schema.softDelete ? `{ limit, offset, ${SCOPE_OPTIONS} }` : '{ limit, offset }';
+      code.line(`const response = await api.${name}.list(${listOptions});`);
       code.line('return HttpResponse.json(response);');
     }, '} catch (error) {');
     code.indent();
@@ -130,9 +152,13 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema): void
   code.line();
 
   // GET single
-  code.block(`http.get(routes.${pluralName}.get.path, async ({ params }) => {`, () => {
+  code.block(`http.get(routes.${pluralName}.get.path, async ({ ${schema.softDelete ? 'params, request' : 'params'} }) => {`, () => {
+    if (schema.softDelete) {
+      code.line('const url = new URL(request.url);');
+    }
     code.block('try {', () => {
-      code.line(`const response = await api.${name}.get(params.id as string);`);
+      const getArgs = schema.softDelete ? `params.id as string, { ${SCOPE_OPTIONS} }` : 'params.id as string';
+      code.line(`const response = await api.${name}.get(${getArgs});`);
       code.line('if (!response.data) {');
       code.line(`  return HttpResponse.json({ error: '${pascalName} not found' }, { status: 404 });`);
       code.line('}');
@@ -161,12 +187,20 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema): void
   code.line();
 
   // PUT update
-  code.block(`http.put(routes.${pluralName}.update.path, async ({ params, request }) => {`, () => {
-    code.line(`const body = await request.json() as Types.${pascalName}Update;`);
-    code.line();
+  generateUpdateHandler(code, schema, 'put', 'update');
+
+  // PATCH update (partial)
+  generateUpdateHandler(code, schema, 'patch', 'patch');
+
+  // DELETE (?purge=true removes a soft-delete row for good)
+  code.block(`http.delete(routes.${pluralName}.delete.path, async ({ ${schema.softDelete ? 'params, request' : 'params'} }) => {`, () => {
     code.block('try {', () => {
-      code.line(`const response = await api.${name}.update(params.id as string, body);`);
-      code.line('return HttpResponse.json(response);');
+      if (schema.softDelete) {
+        code.line(`await (new URL(request.url).searchParams.get('purge') === 'true' ? api.${name}.purge : api.${name}.delete)(params.id as string);`);
+      } else {
+        code.line(`await api.${name}.delete(params.id as string);`);
+      }
+      code.line('return new HttpResponse(null, { status: 204 });');
     }, '} catch (error) {');
     code.indent();
     code.line('return handleError(error);');
@@ -175,12 +209,47 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema): void
   }, '}),');
   code.line();
 
-  // PATCH update (partial)
-  code.block(`http.patch(routes.${pluralName}.patch.path, async ({ params, request }) => {`, () => {
+  // POST restore
+  if (schema.softDelete) {
+    code.block(`http.post(routes.${pluralName}.restore.path, async ({ params }) => {`, () => {
+      code.block('try {', () => {
+        code.line(`const response = await api.${name}.restore(params.id as string);`);
+        code.line('return HttpResponse.json(response);');
+      }, '} catch (error) {');
+      code.indent();
+      code.line('return handleError(error);');
+      code.dedent();
+      code.line('}');
+    }, '}),');
+    code.line();
+  }
+}
+
+/**
+ * Generate a PUT or PATCH handler. Versioned entities require an If-Match
+ * header; stale updates are answered with 409 by handleError().
+ */
+function generateUpdateHandler(
+  code: CodeBuilder,
+  schema: AnalyzedSchema,
+  method: 'put' | 'patch',
+  route: 'update' | 'patch'
+): void {
+  const { name, pascalName } = schema;
+  const pluralName = pluralize(name);
+  const updateArgs = schema.versioned ? 'params.id as string, body, { expectedVersion }' : 'params.id as string, body';
+
+  code.block(`http.${method}(routes.${pluralName}.${route}.path, async ({ params, request }) => {`, () => {
     code.line(`const body = await request.json() as Types.${pascalName}Update;`);
+    if (schema.versioned) {
+      code.line("const expectedVersion = parseIfMatch(request.headers.get('If-Match'));");
+      code.block('if (expectedVersion === undefined) {', () => {
+        code.line(`return HttpResponse.json(${PRECONDITION_REQUIRED_BODY}, { status: 428 });`);
+      });
+    }
     code.line();
     code.block('try {', () => {
-      code.line(`const response = await api.${name}.update(params.id as string, body);`);
+      code.line(`const response = await api.${name}.update(${updateArgs});`);
       code.line('return HttpResponse.json(response);');
     }, '} catch (error) {');
     code.indent();
@@ -189,19 +258,6 @@ function generateEntityHandlers(code: CodeBuilder, schema: AnalyzedSchema): void
     code.line('}');
   }, '}),');
   code.line();
-
-  // DELETE
-  code.block(`http.delete(routes.${pluralName}.delete.path, async ({ params }) => {`, () => {
-    code.block('try {', () => {
-      code.line(`await api.${name}.delete(params.id as string);`);
-      code.line('return new HttpResponse(null, { status: 204 });');
-    }, '} catch (error) {');
-    code.indent();
-    code.line('return handleError(error);');
-    code.dedent();
-    code.line('}');
-  }, '}),');
-  code.line();
 }
 
 /**
@@ -12,6 +12,7 @@ import type { AnalyzedSchema, AnalyzedField, ProductionSeedConfig } from '../../
 import { CodeBuilder } from '../../utils/code-builder';
 import { toSafePropertyName } from '../../utils/pluralize';
 import { emitSeedRefHelpers, emitEntityOrder } from '../shared/seed-ref-helpers';
+import { emitScenarioImports, emitScenarioSupport, emitSeedScenarioDoc, buildScenarioCall } from '../shared/seed-scenario';
 
 /**
  * Configuration for seed generation
@@ -41,6 +42,7 @@ export function generatePGliteSeed(schemas: AnalyzedSchema[], config: SeedConfig
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
   code.line("import { db, initDb } from './db';");
   code.line("import { faker } from '@faker-js/faker';");
+  emitScenarioImports(code);
   code.line();
 
   // Set faker seed
@@ -75,7 +77,7 @@ export function generatePGliteSeed(schemas: AnalyzedSchema[], config: SeedConfig
   // Helper to pick random item from array
   code.block('function pickRandom<T>(arr: T[]): T | undefined {', () => {
     code.line('if (arr.length === 0) return undefined;');
-    code.line('return arr[Math.floor(Math.random() * arr.length)];');
+    code.line('return faker.helpers.arrayElement(arr);');
   });
   code.line();
 
@@ -98,6 +100,8 @@ export function generatePGliteSeed(schemas: AnalyzedSchema[], config: SeedConfig
     code.line();
   }
 
+  emitScenarioSupport(code, schemas);
+
   // Seed function - creates relational data with valid foreign keys
   code.multiDocComment([
     'Seed the database with fake data.',
@@ -153,7 +157,7 @@ export function generatePGliteSeed(schemas: AnalyzedSchema[], config: SeedConfig
         if (fkFields.length > 0) {
           for (const fk of fkFields) {
             if (fk.nullable) {
-              code.line(`data.${fk.fieldName} = Math.random() > 0.3 ? pickRandom(ids.${fk.target}) ?? null : null;`);
+              code.line(`data.${fk.fieldName} = faker.datatype.boolean(0.7) ? pickRandom(ids.${fk.target}) ?? null : null;`);
             } else {
               code.line(`data.${fk.fieldName} = pickRandom(ids.${fk.target})!;`);
             }
@@ -175,6 +179,26 @@ export function generatePGliteSeed(schemas: AnalyzedSchema[], config: SeedConfig
   });
   code.line();
 
+  // Scenario seeding - named datasets from defineScenario()
+  emitSeedScenarioDoc(code);
+  code.block('export async function seedScenario(scenario: SeedScenario): Promise<ScenarioDataset> {', () => {
+    code.line('await initDb();');
+    code.line(buildScenarioCall(config.fakerSeed));
+    code.line();
+    for (const schema of schemas) {
+      if (schema.isJunctionTable) continue;
+      const insertFields = schema.fields.filter((f) => !f.readOnly || f.name === 'id');
+      const columns = insertFields.map((f) => `"${f.name}"`).join(', ');
+      const valuesPart = insertFields.map((f) => `\${escapeSQL(record.${f.name})}`).join(', ');
+      code.block(`for (const record of data['${schema.name}'] ?? []) {`, () => {
+        code.line(`await db.query(\`INSERT INTO "${schema.tableName}" (${columns}) VALUES (${valuesPart})\`);`);
+      });
+    }
+    code.line();
+    code.line('return data;');
+  });
+  code.line();
+
   // Reset function - delete all data
   code.multiDocComment([
     'Reset the database by deleting all data.',
@@ -299,7 +323,7 @@ function generateEntityGenerator(code: CodeBuilder, schema: AnalyzedSchema): voi
  */
 function generateFieldValue(code: CodeBuilder, field: AnalyzedField): void {
   if (field.nullable) {
-    code.line(`${field.name}: Math.random() > 0.1 ? ${field.fakerCall} : null,`);
+    code.line(`${field.name}: faker.datatype.boolean(0.9) ? ${field.fakerCall} : null,`);
   } else {
     code.line(`${field.name}: ${field.fakerCall},`);
   }
@@ -0,0 +1,474 @@
+/**
+ * Shared cursor pagination code generation helpers
+ *
+ * Cursors are opaque, URL-safe strings encoding the sort-key values
+ * (orderBy fields plus `id`) of the row at a page boundary and the
+ * direction to continue in. Pages are located by key values rather than
+ * offsets, so inserts and deletes mid-scroll never shift results.
+ *
+ * @module cli/generators/shared/cursor
+ * @category CLI
+ */
+
+import type { AnalyzedSchema } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { generateSqlDeletedFilter, generateSupabaseDeletedFilter } from './soft-delete';
+
+/**
+ * Options for emitting cursor helpers
+ */
+export interface CursorHelperOptions {
+  /** Export the emitted helpers (for shared lib modules) */
+  exported?: boolean;
+}
+
+/**
+ * Check if an entity uses cursor pagination for its list operation
+ *
+ * @param schema - Analyzed schema
+ * @returns True if api.pagination.style is 'cursor'
+ */
+export function isCursorPaginated(schema: AnalyzedSchema): boolean {
+  return schema.pagination?.style === 'cursor';
+}
+
+/**
+ * Check if any entity uses cursor pagination
+ *
+ * @param schemas - Analyzed schemas
+ * @returns True if at least one non-junction entity is cursor paginated
+ */
+export function hasCursorPagination(schemas: AnalyzedSchema[]): boolean {
+  return schemas.some((s) => !s.isJunctionTable && isCursorPaginated(s));
+}
+
+/**
+ * Get the default page size for an entity
+ *
+ * @param schema - Analyzed schema
+ * @returns api.pagination.defaultLimit, or 20
+ */
+export function getDefaultLimit(schema: AnalyzedSchema): number {
+  return schema.pagination?.defaultLimit ?? 20;
+}
+
+/**
+ * Generate cursor types plus encode/decode helpers.
+ * Required by every other cursor helper.
+ */
+export function generateCursorCodec(code: CodeBuilder, options: CursorHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Cursor pagination: opaque keyset cursors over the orderBy fields plus id');
+  code.line(`${ex}type CursorSortKey = [string, 'asc' | 'desc'];`);
+  code.line(`${ex}type CursorDirection = 'after' | 'before';`);
+  code.line(`${ex}interface DecodedCursor { values: unknown[]; direction: CursorDirection }`);
+  code.line(`${ex}interface CursorPage<T> { items: T[]; hasMore: boolean; nextCursor?: string; prevCursor?: string }`);
+  code.line();
+
+  code.docComment('Thrown when a cursor cannot be decoded');
+  code.block(`${ex}class InvalidCursorError extends Error {`, () => {
+    code.line('readonly status = 400;');
+    code.line("readonly code = 'INVALID_CURSOR';");
+    code.line();
+    code.block('constructor(cursor: string) {', () => {
+      code.line('super(`Invalid cursor: ${cursor}`);');
+      code.line("this.name = 'InvalidCursorError';");
+    });
+  });
+  code.line();
+
+  code.docComment('Sort keys for cursor pagination (id is always the final tie-breaker)');
+  code.block(`${ex}function getCursorSortKeys(orderBy?: Record<string, 'asc' | 'desc'>): CursorSortKey[] {`, () => {
+    code.comment('Only plain identifiers are accepted since fields are interpolated into SQL/PostgREST filters');
+    code.line("const keys = Object.entries(orderBy ?? {})");
+    code.line("  .filter(([field]) => field !== 'id' && /^[A-Za-z_][A-Za-z0-9_]*$/.test(field)) as CursorSortKey[];");
+    code.line("keys.push(['id', orderBy?.id ?? 'asc']);");
+    code.line('return keys;');
+  });
+  code.line();
+
+  code.block('function cursorValue(value: unknown): unknown {', () => {
+    code.line('return value instanceof Date ? value.toISOString() : value ?? null;');
+  });
+  code.line();
+
+  code.block(
+    `${ex}function encodeCursor(row: Record<string, unknown>, keys: CursorSortKey[], direction: CursorDirection): string {`,
+    () => {
+      code.line("const payload = { v: keys.map(([field]) => cursorValue(row[field])), d: direction === 'before' ? 'b' : 'a' };");
+      code.line('const json = encodeURIComponent(JSON.stringify(payload));');
+      code.line("const base64 = typeof btoa === 'function' ? btoa(json) : Buffer.from(json).toString('base64');");
+      code.line("return base64.replace(/\\+/g, '-').replace(/\\//g, '_').replace(/=+$/, '');");
+    }
+  );
+  code.line();
+
+  code.block(`${ex}function decodeCursor(cursor: string): DecodedCursor {`, () => {
+    code.block('try {', () => {
+      code.line("const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');");
+      code.line("const json = typeof atob === 'function' ? atob(base64) : Buffer.from(base64, 'base64').toString('utf-8');");
+      code.line('const payload = JSON.parse(decodeURIComponent(json)) as { v?: unknown; d?: unknown };');
+      code.block("if (Array.isArray(payload.v) && (payload.d === 'a' || payload.d === 'b')) {", () => {
+        code.line("return { values: payload.v, direction: payload.d === 'b' ? 'before' : 'after' };");
+      });
+    }, '} catch {');
+    code.indent();
+    code.comment('Fall through to InvalidCursorError');
+    code.dedent();
+    code.line('}');
+    code.line('throw new InvalidCursorError(cursor);');
+  });
+  code.line();
+
+  generateOrderByParser(code, options);
+}
+
+/**
+ * Generate the `orderBy` query parameter parser and its 400 error.
+ * Included in the cursor codec; service-layer handlers emit it on its own.
+ */
+export function generateOrderByParser(code: CodeBuilder, options: CursorHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.docComment("Thrown when the orderBy query parameter is not a JSON object of 'asc' | 'desc'");
+  code.block(`${ex}class InvalidOrderByError extends Error {`, () => {
+    code.line('readonly status = 400;');
+    code.line("readonly code = 'INVALID_ORDER_BY';");
+    code.line();
+    code.block('constructor(orderBy: string) {', () => {
+      code.line('super(`Invalid orderBy: ${orderBy}`);');
+      code.line("this.name = 'InvalidOrderByError';");
+    });
+  });
+  code.line();
+
+  code.docComment('Parse the orderBy query parameter, e.g. {"createdAt":"desc"}');
+  code.block(`${ex}function parseOrderBy(orderBy: string | null | undefined): Record<string, 'asc' | 'desc'> | undefined {`, () => {
+    code.line('if (!orderBy) return undefined;');
+    code.line('let parsed: unknown;');
+    code.block('try {', () => {
+      code.line('parsed = JSON.parse(orderBy);');
+    }, '} catch {');
+    code.indent();
+    code.line('throw new InvalidOrderByError(orderBy);');
+    code.dedent();
+    code.line('}');
+    code.line("const valid = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)");
+    code.line("  && Object.values(parsed).every((dir) => dir === 'asc' || dir === 'desc');");
+    code.line('if (!valid) throw new InvalidOrderByError(orderBy);');
+    code.line("return parsed as Record<string, 'asc' | 'desc'>;");
+  });
+  code.line();
+}
+
+/**
+ * Generate the in-memory cursor paginator (sorts and slices a full result set).
+ * Used by targets that hold rows in memory, such as the mock client.
+ */
+export function generateCursorPaginator(code: CodeBuilder, options: CursorHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Compare sort-key tuples (nulls sort last ascending, first descending)');
+  code.block('function compareCursorValues(a: unknown[], b: unknown[], keys: CursorSortKey[]): number {', () => {
+    code.block('for (let i = 0; i < keys.length; i++) {', () => {
+      code.line('const x = cursorValue(a[i]);');
+      code.line('const y = cursorValue(b[i]);');
+      code.line('if (x === y) continue;');
+      code.line('const cmp = x === null ? 1 : y === null ? -1 : (x as string | number) < (y as string | number) ? -1 : 1;');
+      code.line("return keys[i][1] === 'desc' ? -cmp : cmp;");
+    });
+    code.line('return 0;');
+  });
+  code.line();
+
+  code.comment('Sort items by the cursor sort keys and slice the page the cursor points at');
+  code.block(
+    `${ex}function paginateByCursor<T extends object>(items: T[], keys: CursorSortKey[], cursor: string | undefined, limit: number): CursorPage<T> {`,
+    () => {
+      code.line('const valuesOf = (item: T) => keys.map(([field]) => (item as Record<string, unknown>)[field]);');
+      code.line('const sorted = [...items].sort((a, b) => compareCursorValues(valuesOf(a), valuesOf(b), keys));');
+      code.line('const decoded = cursor ? decodeCursor(cursor) : undefined;');
+      code.block('const indexOf = (predicate: (item: T) => boolean): number => {', () => {
+        code.line('const index = sorted.findIndex(predicate);');
+        code.line('return index === -1 ? sorted.length : index;');
+      }, '};');
+      code.line();
+      code.line('let start = 0;');
+      code.line('let end = Math.min(limit, sorted.length);');
+      code.block("if (decoded?.direction === 'after') {", () => {
+        code.line('start = indexOf(item => compareCursorValues(valuesOf(item), decoded.values, keys) > 0);');
+        code.line('end = Math.min(start + limit, sorted.length);');
+      }, "} else if (decoded?.direction === 'before') {");
+      code.indent();
+      code.line('end = indexOf(item => compareCursorValues(valuesOf(item), decoded.values, keys) >= 0);');
+      code.line('start = Math.max(end - limit, 0);');
+      code.dedent();
+      code.line('}');
+      code.line();
+      code.line('const page = sorted.slice(start, end);');
+      code.line('const hasMore = end < sorted.length;');
+      code.block('return {', () => {
+        code.line('items: page,');
+        code.line('hasMore,');
+        code.line("nextCursor: hasMore && page.length ? encodeCursor(page[page.length - 1] as Record<string, unknown>, keys, 'after') : undefined,");
+        code.line("prevCursor: start > 0 && page.length ? encodeCursor(page[0] as Record<string, unknown>, keys, 'before') : undefined,");
+      }, '};');
+    }
+  );
+  code.line();
+}
+
+/**
+ * Generate the keyset page builder for database-backed targets.
+ * Queries fetch `limit + 1` rows in cursor direction; this trims the extra
+ * row, restores display order and derives the next/prev cursors.
+ */
+export function generateKeysetPageHelper(code: CodeBuilder, options: CursorHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Build a cursor page from rows fetched with LIMIT limit + 1 in cursor direction');
+  code.block(
+    `${ex}function toCursorPage<T extends object>(rows: T[], keys: CursorSortKey[], limit: number, cursor?: DecodedCursor): CursorPage<T> {`,
+    () => {
+      code.line('const hasExtra = rows.length > limit;');
+      code.line('const items = rows.slice(0, limit);');
+      code.line("const forward = cursor?.direction !== 'before';");
+      code.line('if (!forward) items.reverse();');
+      code.line('const hasMore = forward ? hasExtra : true;');
+      code.line('const hasPrev = forward ? !!cursor : hasExtra;');
+      code.block('return {', () => {
+        code.line('items,');
+        code.line('hasMore,');
+        code.line("nextCursor: hasMore && items.length ? encodeCursor(items[items.length - 1] as Record<string, unknown>, keys, 'after') : undefined,");
+        code.line("prevCursor: hasPrev && items.length ? encodeCursor(items[0] as Record<string, unknown>, keys, 'before') : undefined,");
+      }, '};');
+    }
+  );
+  code.line();
+
+  code.comment('Whether a sort key is scanned ascending for the given cursor direction');
+  code.block(`${ex}function isCursorAscending(dir: 'asc' | 'desc', cursor?: DecodedCursor): boolean {`, () => {
+    code.line("return (dir === 'asc') === (cursor?.direction !== 'before');");
+  });
+  code.line();
+}
+
+/**
+ * Generate SQL keyset helpers (WHERE and ORDER BY) for PostgreSQL targets
+ */
+export function generateCursorSqlHelpers(code: CodeBuilder, options: CursorHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Build keyset WHERE clause: rows strictly after/before the cursor row.');
+  code.comment('NULL sorts after every value (as in the in-memory paginator), so it needs IS NULL checks.');
+  code.block(
+    `${ex}function buildCursorWhere(keys: CursorSortKey[], cursor: DecodedCursor, params: unknown[], startIndex: number): { sql: string; nextIndex: number } {`,
+    () => {
+      code.line('let paramIndex = startIndex;');
+      code.line('const clauses: string[] = [];');
+      code.block('for (let i = 0; i < keys.length; i++) {', () => {
+        code.line('const field = `"${keys[i][0]}"`;');
+        code.line('const value = cursor.values[i];');
+        code.line('const ascending = isCursorAscending(keys[i][1], cursor);');
+        code.comment('Nothing sorts after NULL in an ascending scan');
+        code.line('if (ascending && value === null) continue;');
+        code.line();
+        code.line('const parts: string[] = [];');
+        code.block('for (let j = 0; j < i; j++) {', () => {
+          code.block('if (cursor.values[j] === null) {', () => {
+            code.line('parts.push(`"${keys[j][0]}" IS NULL`);');
+          }, '} else {');
+          code.indent();
+          code.line('parts.push(`"${keys[j][0]}" = $${paramIndex++}`);');
+          code.line('params.push(cursor.values[j]);');
+          code.dedent();
+          code.line('}');
+        });
+        code.block('if (value === null) {', () => {
+          code.line('parts.push(`${field} IS NOT NULL`);');
+        }, '} else {');
+        code.indent();
+        code.line('parts.push(ascending ? `(${field} > $${paramIndex++} OR ${field} IS NULL)` : `${field} < $${paramIndex++}`);');
+        code.line('params.push(value);');
+        code.dedent();
+        code.line('}');
+        code.line("clauses.push(`(${parts.join(' AND ')})`);");
+      });
+      code.line("return { sql: `(${clauses.join(' OR ') || 'FALSE'})`, nextIndex: paramIndex };");
+    }
+  );
+  code.line();
+
+  code.comment('Build ORDER BY clause scanning in cursor direction, NULLs after every value');
+  code.block(`${ex}function buildCursorOrderBy(keys: CursorSortKey[], cursor?: DecodedCursor): string {`, () => {
+    code.line("const clauses = keys.map(([field, dir]) => `\"${field}\" ${isCursorAscending(dir, cursor) ? 'ASC NULLS LAST' : 'DESC NULLS FIRST'}`);");
+    code.line("return `ORDER BY ${clauses.join(', ')}`;");
+  });
+  code.line();
+}
+
+/**
+ * Generate the PostgREST keyset filter helper for Supabase targets
+ */
+export function generateCursorPostgrestHelper(code: CodeBuilder, options: CursorHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Build PostgREST or() filter selecting rows strictly after/before the cursor row.');
+  code.comment('NULL sorts after every value (as in the in-memory paginator), so it needs is.null checks.');
+  code.block(`${ex}function buildCursorFilter(keys: CursorSortKey[], cursor: DecodedCursor): string {`, () => {
+    code.line('const quote = (value: unknown) => JSON.stringify(String(value));');
+    code.line('const clauses: string[] = [];');
+    code.block('keys.forEach(([field, dir], i) => {', () => {
+      code.line('const value = cursor.values[i];');
+      code.line('const ascending = isCursorAscending(dir, cursor);');
+      code.comment('Nothing sorts after NULL in an ascending scan');
+      code.line('if (ascending && value === null) return;');
+      code.line();
+      code.line('const parts = keys.slice(0, i).map(([prev], j) => (cursor.values[j] === null ? `${prev}.is.null` : `${prev}.eq.${quote(cursor.values[j])}`));');
+      code.block('if (value === null) {', () => {
+        code.line('parts.push(`${field}.not.is.null`);');
+      }, '} else {');
+      code.indent();
+      code.line('parts.push(ascending ? `or(${field}.gt.${quote(value)},${field}.is.null)` : `${field}.lt.${quote(value)}`);');
+      code.dedent();
+      code.line('}');
+      code.line("clauses.push(parts.length > 1 ? `and(${parts.join(',')})` : parts[0]);");
+    }, '});');
+    code.line("return clauses.join(',');");
+  });
+  code.line();
+}
+
+/**
+ * Generate the Prisma-style keyset where helper for the service layer
+ */
+export function generateCursorWhereHelper(code: CodeBuilder, options: CursorHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Build Prisma-style keyset filter selecting rows strictly after/before the cursor row.');
+  code.comment('null sorts after every value (as in the in-memory paginator), so it needs null checks.');
+  code.block(`${ex}function buildCursorWhere(keys: CursorSortKey[], cursor: DecodedCursor): Record<string, unknown> {`, () => {
+    code.line('const clauses: Record<string, unknown>[] = [];');
+    code.block('keys.forEach(([field, dir], i) => {', () => {
+      code.line('const value = cursor.values[i];');
+      code.line('const ascending = isCursorAscending(dir, cursor);');
+      code.comment('Nothing sorts after null in an ascending scan');
+      code.line('if (ascending && value === null) return;');
+      code.line();
+      code.line('const clause: Record<string, unknown> = {};');
+      code.line('keys.slice(0, i).forEach(([prev], j) => { clause[prev] = cursor.values[j]; });');
+      code.block('if (value === null) {', () => {
+        code.line('clause[field] = { not: null };');
+      }, '} else if (ascending) {');
+      code.indent();
+      code.line('clause.OR = [{ [field]: { gt: value } }, { [field]: null }];');
+      code.dedent();
+      code.line('} else {');
+      code.indent();
+      code.line('clause[field] = { lt: value };');
+      code.dedent();
+      code.line('}');
+      code.line('clauses.push(clause);');
+    }, '});');
+    code.line('return { OR: clauses };');
+  });
+  code.line();
+}
+
+/**
+ * Generate a keyset list query against a database backend.
+ * Expects `limit`, `keys` and `cursor` to be in scope, plus `deletedScope`
+ * for soft-delete schemas; leaves `page` (and `total` for Supabase) in
+ * scope for the caller's response.
+ *
+ * @param code - Code builder
+ * @param schema - Analyzed schema
+ * @param backend - Database backend
+ * @param errorLines - Lines emitted when the Supabase query fails
+ */
+export function generateCursorListQuery(
+  code: CodeBuilder,
+  schema: AnalyzedSchema,
+  backend: 'supabase' | 'pglite' | 'neon',
+  errorLines: string[]
+): void {
+  const { pascalName, tableName } = schema;
+
+  if (backend === 'supabase') {
+    code.line(`let query = supabase.from('${tableName}').select('*', { count: 'exact' });`);
+    if (schema.softDelete) {
+      generateSupabaseDeletedFilter(code);
+    }
+    code.block('for (const [field, dir] of keys) {', () => {
+      code.line('const ascending = isCursorAscending(dir, cursor);');
+      code.line('query = query.order(field, { ascending, nullsFirst: !ascending });');
+    });
+    code.block('if (cursor) {', () => {
+      code.line('query = query.or(buildCursorFilter(keys, cursor));');
+    });
+    code.line('const { data, error, count } = await query.limit(limit + 1);');
+    code.line();
+    code.block('if (error) {', () => {
+      code.addLines(errorLines);
+    });
+    code.line();
+    code.line('const total = count ?? 0;');
+    code.line(`const page = toCursorPage(data as ${pascalName}[], keys, limit, cursor);`);
+  } else if (backend === 'neon') {
+    code.line('const params: unknown[] = [];');
+    generateCursorWhere(code, schema);
+    code.line('const rows = await sql(');
+    code.line(`  \`SELECT * FROM ${tableName} \${where} \${buildCursorOrderBy(keys, cursor)} LIMIT \${limit + 1}\`,`);
+    code.line('  params');
+    code.line(`) as ${pascalName}[];`);
+    code.line('const page = toCursorPage(rows, keys, limit, cursor);');
+  } else {
+    code.line('const params: unknown[] = [];');
+    generateCursorWhere(code, schema);
+    code.line(`const result = await db.query<${pascalName}>(`);
+    code.line(`  \`SELECT * FROM ${tableName} \${where} \${buildCursorOrderBy(keys, cursor)} LIMIT \${limit + 1}\`,`);
+    code.line('  params');
+    code.line(');');
+    code.line('const page = toCursorPage(result.rows, keys, limit, cursor);');
+  }
+}
+
+/**
+ * Generate the `where` clause of a keyset SQL query, narrowed to the
+ * soft delete scope for soft-delete schemas
+ */
+function generateCursorWhere(code: CodeBuilder, schema: AnalyzedSchema): void {
+  if (!schema.softDelete) {
+    code.line("const where = cursor ? `WHERE ${buildCursorWhere(keys, cursor, params, 1).sql}` : '';");
+    return;
+  }
+
+  generateSqlDeletedFilter(code);
+  code.line('const where = cursor');
+  code.line('  ? `WHERE ${deletedFilter} AND (${buildCursorWhere(keys, cursor, params, 1).sql})`');
+  code.line('  : `WHERE ${deletedFilter}`;');
+}
+
+/**
+ * Generate a standalone cursor module (for shared `_lib` directories)
+ *
+ * @param backend - Database backend the module targets
+ * @returns Generated TypeScript code with exported helpers
+ */
+export function generateCursorModule(backend: 'supabase' | 'pglite' | 'neon'): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.line();
+
+  generateCursorCodec(code, { exported: true });
+  generateKeysetPageHelper(code, { exported: true });
+  if (backend === 'supabase') {
+    generateCursorPostgrestHelper(code, { exported: true });
+  } else {
+    generateCursorSqlHelpers(code, { exported: true });
+  }
+
+  return code.toString();
+}
@@ -13,7 +13,7 @@ import type { AnalyzedEndpoint, AnalyzedEndpointField } from '../../types';
 /**
  * Target type for backend route generation
  */
-export type ServerTargetType = 'nextjs-api' | 'node-handlers' | 'supabase-edge' | 'neon';
+export type ServerTargetType = 'nextjs-api' | 'node-handlers' | 'hono' | 'supabase-edge' | 'neon';
 
 /**
  * Backend database type
@@ -150,6 +150,10 @@ export function convertPathForTarget(
     case 'neon':
       // Express uses :param format natively
       return path;
+
+    case 'hono':
+      // Hono uses :param format natively
+      return path;
   }
 }
 
@@ -209,6 +213,10 @@ export function generateEndpointTodoBody(
       lines.push("    // const { data, error } = await supabase");
       lines.push("    //   .from('table_name')");
       lines.push("    //   .select('*');");
+      lines.push('    //');
+      lines.push('    // Writes that must succeed or fail together belong in one SQL');
+      lines.push("    // function (a function body runs in a single transaction):");
+      lines.push("    // const { data, error } = await supabase.rpc('function_name', { ... });");
       break;
     case 'firebase':
       lines.push('    // Example with Firebase:');
@@ -227,6 +235,11 @@ export function generateEndpointTodoBody(
     case 'neon':
       lines.push('    // Example with Neon:');
       lines.push('    // const data = await sql`SELECT * FROM table_name WHERE ...`;');
+      lines.push('    //');
+      lines.push('    // Atomic multi-row writes, with withTransaction from the generated db:');
+      lines.push('    // await withTransaction(async (client) => {');
+      lines.push("    //   await client.query('UPDATE table_name SET ... WHERE id = $1', [id]);");
+      lines.push('    // });');
       break;
   }
 
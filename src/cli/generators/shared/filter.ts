@@ -0,0 +1,424 @@
+/**
+ * Shared where-clause code generation helpers
+ *
+ * Generated clients accept the same where clauses as the storage drivers:
+ * field conditions (value, null or operator object) combined with
+ * `AND`/`OR`/`NOT`. In-memory targets evaluate them with SQL three-valued
+ * logic and SQL-backed targets translate them to SQL or PostgREST filters,
+ * so a filter selects the same rows in a mock as it does in production.
+ *
+ * @module cli/generators/shared/filter
+ * @category CLI
+ */
+
+import { CodeBuilder } from '../../utils/code-builder';
+
+/**
+ * Options for emitting filter helpers
+ */
+export interface FilterHelperOptions {
+  /** Export the emitted helpers (for shared lib modules) */
+  exported?: boolean;
+}
+
+/**
+ * Generate InvalidFilterError plus helpers shared by every filter backend.
+ * Required by every other filter helper.
+ */
+export function generateFilterCommon(code: CodeBuilder, options: FilterHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Where clauses: field conditions plus AND/OR/NOT groups');
+  code.docComment('Thrown when a where clause uses an unknown operator or an invalid operand');
+  code.block(`${ex}class InvalidFilterError extends Error {`, () => {
+    code.line('readonly status = 400;');
+    code.line("readonly code = 'INVALID_FILTER';");
+    code.line();
+    code.block('constructor(message: string) {', () => {
+      code.line('super(message);');
+      code.line("this.name = 'InvalidFilterError';");
+    });
+  });
+  code.line();
+
+  code.block('function isFilterObject(value: unknown): value is Record<string, unknown> {', () => {
+    code.line('return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);');
+  });
+  code.line();
+
+  code.block('function toFilterClauses(group: string, condition: unknown): Record<string, unknown>[] {', () => {
+    code.block("if (group === 'OR' && !Array.isArray(condition)) {", () => {
+      code.line("throw new InvalidFilterError('OR expects an array of where clauses');");
+    });
+    code.line('const clauses = Array.isArray(condition) ? condition : [condition];');
+    code.block('if (!clauses.every(isFilterObject)) {', () => {
+      code.line('throw new InvalidFilterError(`${group} expects where clauses`);');
+    });
+    code.line('return clauses;');
+  });
+  code.line();
+
+  code.block('function filterMode(operators: Record<string, unknown>, inherited: boolean): boolean {', () => {
+    code.line('const mode = operators.mode;');
+    code.line('if (mode === undefined) return inherited;');
+    code.block("if (mode !== 'default' && mode !== 'insensitive') {", () => {
+      code.line('throw new InvalidFilterError(`Invalid filter mode: ${String(mode)}`);');
+    });
+    code.line("return mode === 'insensitive';");
+  });
+  code.line();
+
+  code.block('function toFilterArray(op: string, target: unknown): unknown[] {', () => {
+    code.line('if (!Array.isArray(target)) throw new InvalidFilterError(`${op} expects an array`);');
+    code.line('return target;');
+  });
+  code.line();
+
+  code.block('function toFilterString(op: string, target: unknown): string {', () => {
+    code.line("if (typeof target !== 'string') throw new InvalidFilterError(`${op} expects a string`);");
+    code.line('return target;');
+  });
+  code.line();
+}
+
+/**
+ * Generate the in-memory matcher (`matchesWhere`), evaluated with SQL
+ * three-valued logic. Used by targets that hold rows in memory, such as
+ * the mock client.
+ */
+export function generateFilterMatcher(code: CodeBuilder, options: FilterHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('SQL truth value: comparisons against null are unknown and never match');
+  code.line('type FilterTruth = boolean | null;');
+  code.line();
+
+  code.block('function filterAnd(results: FilterTruth[]): FilterTruth {', () => {
+    code.line('if (results.includes(false)) return false;');
+    code.line('return results.includes(null) ? null : true;');
+  });
+  code.line();
+
+  code.block('function filterOr(results: FilterTruth[]): FilterTruth {', () => {
+    code.line('if (results.includes(true)) return true;');
+    code.line('return results.includes(null) ? null : false;');
+  });
+  code.line();
+
+  code.block('function filterNot(result: FilterTruth): FilterTruth {', () => {
+    code.line('return result === null ? null : !result;');
+  });
+  code.line();
+
+  code.block('function toFilterTime(value: unknown): number | undefined {', () => {
+    code.line('if (value instanceof Date) return value.getTime();');
+    code.line("if (typeof value !== 'string' && typeof value !== 'number') return undefined;");
+    code.line('const time = new Date(value).getTime();');
+    code.line('return Number.isNaN(time) ? undefined : time;');
+  });
+  code.line();
+
+  code.block('function filterValuesEqual(a: unknown, b: unknown, insensitive: boolean): boolean {', () => {
+    code.block('if (a instanceof Date || b instanceof Date) {', () => {
+      code.line('const time = toFilterTime(a);');
+      code.line('return time !== undefined && time === toFilterTime(b);');
+    });
+    code.block('if (Array.isArray(a) && Array.isArray(b)) {', () => {
+      code.line('return a.length === b.length && a.every((item, i) => filterValuesEqual(item, b[i], insensitive));');
+    });
+    code.block("if (insensitive && typeof a === 'string' && typeof b === 'string') {", () => {
+      code.line('return a.toLowerCase() === b.toLowerCase();');
+    });
+    code.line('return a === b;');
+  });
+  code.line();
+
+  code.line('const ISO_DATE = /^\\d{4}-\\d{2}-\\d{2}(?:[T ]\\d{2}:\\d{2}(?::\\d{2}(?:\\.\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?)?$/;');
+  code.line();
+
+  code.block('function compareFilterValues(a: unknown, b: unknown): number | undefined {', () => {
+    code.line("const isIsoDate = (value: unknown) => typeof value === 'string' && ISO_DATE.test(value);");
+    code.block('if (a instanceof Date || b instanceof Date || (isIsoDate(a) && isIsoDate(b))) {', () => {
+      code.line('const ta = toFilterTime(a);');
+      code.line('const tb = toFilterTime(b);');
+      code.line('return ta === undefined || tb === undefined ? undefined : ta - tb;');
+    });
+    code.line("if (typeof a === 'number' && typeof b === 'number') return a - b;");
+    code.line("if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;");
+    code.line('return undefined;');
+  });
+  code.line();
+
+  code.block(
+    'function evaluateFieldOperators(value: unknown, operators: Record<string, unknown>, inheritedInsensitive: boolean): FilterTruth {',
+    () => {
+      code.line('const insensitive = filterMode(operators, inheritedInsensitive);');
+      code.line('const isNull = value === null || value === undefined;');
+      code.line('const equals = (target: unknown): FilterTruth => (isNull ? null : filterValuesEqual(value, target, insensitive));');
+      code.block('const inList = (list: unknown[]): FilterTruth => {', () => {
+        code.line('if (list.length === 0) return false;');
+        code.line('if (isNull) return null;');
+        code.line('if (list.some((item) => item != null && filterValuesEqual(value, item, false))) return true;');
+        code.line('return list.some((item) => item == null) ? null : false;');
+      }, '};');
+      code.block('const compare = (target: unknown, test: (diff: number) => boolean): FilterTruth => {', () => {
+        code.line('if (isNull || target === null || target === undefined) return null;');
+        code.line('const diff = compareFilterValues(value, target);');
+        code.line('return diff === undefined ? null : test(diff);');
+      }, '};');
+      code.block("const matchString = (op: string, target: unknown, test: (haystack: string, needle: string) => boolean): FilterTruth => {", () => {
+        code.line('const needle = toFilterString(op, target);');
+        code.line('if (isNull) return null;');
+        code.line("if (typeof value !== 'string') return false;");
+        code.line('return insensitive ? test(value.toLowerCase(), needle.toLowerCase()) : test(value, needle);');
+      }, '};');
+      code.block("const arrayHas = (targets: unknown[], mode: 'some' | 'every'): FilterTruth => {", () => {
+        code.line("if (mode === 'some' && targets.length === 0) return false;");
+        code.line('if (isNull) return null;');
+        code.line('if (!Array.isArray(value)) return false;');
+        code.line('const contains = (target: unknown) => value.some((item) => filterValuesEqual(item, target, false));');
+        code.line("return mode === 'some' ? targets.some(contains) : targets.every(contains);");
+      }, '};');
+      code.line();
+      code.line('const results: FilterTruth[] = [];');
+      code.block('for (const [op, target] of Object.entries(operators)) {', () => {
+        code.line('if (target === undefined) continue;');
+        code.block('switch (op) {', () => {
+          code.line("case 'mode': break;");
+          code.line("case 'equals': results.push(target === null ? isNull : equals(target)); break;");
+          code.line("case 'not':");
+          code.line('  if (target === null) results.push(!isNull);');
+          code.line('  else if (isFilterObject(target)) results.push(filterNot(evaluateFieldOperators(value, target, insensitive)));');
+          code.line('  else results.push(filterNot(equals(target)));');
+          code.line('  break;');
+          code.line("case 'in': results.push(inList(toFilterArray(op, target))); break;");
+          code.line("case 'notIn': results.push(filterNot(inList(toFilterArray(op, target)))); break;");
+          code.line("case 'lt': results.push(compare(target, (diff) => diff < 0)); break;");
+          code.line("case 'lte': results.push(compare(target, (diff) => diff <= 0)); break;");
+          code.line("case 'gt': results.push(compare(target, (diff) => diff > 0)); break;");
+          code.line("case 'gte': results.push(compare(target, (diff) => diff >= 0)); break;");
+          code.line("case 'contains': results.push(matchString(op, target, (h, n) => h.includes(n))); break;");
+          code.line("case 'startsWith': results.push(matchString(op, target, (h, n) => h.startsWith(n))); break;");
+          code.line("case 'endsWith': results.push(matchString(op, target, (h, n) => h.endsWith(n))); break;");
+          code.line("case 'isNull':");
+          code.line("  if (typeof target !== 'boolean') throw new InvalidFilterError('isNull expects a boolean');");
+          code.line('  results.push(isNull === target);');
+          code.line('  break;');
+          code.line("case 'has': results.push(arrayHas([target], 'some')); break;");
+          code.line("case 'hasSome': results.push(arrayHas(toFilterArray(op, target), 'some')); break;");
+          code.line("case 'hasEvery': results.push(arrayHas(toFilterArray(op, target), 'every')); break;");
+          code.line('default: throw new InvalidFilterError(`Unknown filter operator: ${op}`);');
+        });
+      });
+      code.line('return filterAnd(results);');
+    }
+  );
+  code.line();
+
+  code.block('function evaluateWhere(row: Record<string, unknown>, where: Record<string, unknown>): FilterTruth {', () => {
+    code.line('const results: FilterTruth[] = [];');
+    code.block('for (const [key, condition] of Object.entries(where)) {', () => {
+      code.line('if (condition === undefined) continue;');
+      code.line("if (key === 'AND') results.push(filterAnd(toFilterClauses(key, condition).map((clause) => evaluateWhere(row, clause))));");
+      code.line("else if (key === 'OR') results.push(filterOr(toFilterClauses(key, condition).map((clause) => evaluateWhere(row, clause))));");
+      code.line("else if (key === 'NOT') results.push(filterAnd(toFilterClauses(key, condition).map((clause) => filterNot(evaluateWhere(row, clause)))));");
+      code.line('else if (condition === null) results.push(row[key] === null || row[key] === undefined);');
+      code.line('else if (isFilterObject(condition)) results.push(evaluateFieldOperators(row[key], condition, false));');
+      code.line('else results.push(row[key] === null || row[key] === undefined ? null : filterValuesEqual(row[key], condition, false));');
+    });
+    code.line('return filterAnd(results);');
+  });
+  code.line();
+
+  code.docComment('Check if a row matches a where clause (only definitely-true rows match)');
+  code.block(`${ex}function matchesWhere(row: Record<string, unknown>, where: Record<string, unknown>): boolean {`, () => {
+    code.line('return evaluateWhere(row, where) === true;');
+  });
+  code.line();
+}
+
+/**
+ * Generate the parameterized SQL WHERE builder (`buildWhere`).
+ * Array fields are stored as JSONB, so array operators use containment.
+ */
+export function generateSqlWhereBuilder(code: CodeBuilder, options: FilterHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Build WHERE clause from filter object');
+  code.block(
+    `${ex}function buildWhere(filter: Record<string, unknown>, params: unknown[], startIndex = 1): { sql: string; nextIndex: number } {`,
+    () => {
+      code.line('let paramIndex = startIndex;');
+      code.block('const bind = (value: unknown): string => {', () => {
+        code.line('params.push(value);');
+        code.line('return `$${paramIndex++}`;');
+      }, '};');
+      code.line("const bindJson = (value: unknown): string => `${bind(JSON.stringify(value))}::jsonb`;");
+      code.line("const escapeLike = (value: string): string => value.replace(/[\\\\%_]/g, '\\\\$&');");
+      code.line("const join = (parts: string[], op: 'AND' | 'OR'): string =>");
+      code.line("  parts.length === 0 ? (op === 'OR' ? 'FALSE' : 'TRUE') : parts.length === 1 ? parts[0] : `(${parts.join(` ${op} `)})`;");
+      code.line("const negate = (sql: string): string => (sql.startsWith('(') ? `NOT ${sql}` : `NOT (${sql})`);");
+      code.line();
+
+      code.block('const operatorsSql = (col: string, operators: Record<string, unknown>, inheritedInsensitive: boolean): string => {', () => {
+        code.line('const insensitive = filterMode(operators, inheritedInsensitive);');
+        code.line("const like = insensitive ? 'ILIKE' : 'LIKE';");
+        code.line('const parts: string[] = [];');
+        code.block('for (const [op, target] of Object.entries(operators)) {', () => {
+          code.line('if (target === undefined) continue;');
+          code.block('switch (op) {', () => {
+            code.line("case 'mode': break;");
+            code.line("case 'equals':");
+            code.line('  if (target === null) parts.push(`${col} IS NULL`);');
+            code.line("  else if (insensitive && typeof target === 'string') parts.push(`${col} ILIKE ${bind(escapeLike(target))}`);");
+            code.line('  else parts.push(`${col} = ${bind(target)}`);');
+            code.line('  break;');
+            code.line("case 'not':");
+            code.line('  if (target === null) parts.push(`${col} IS NOT NULL`);');
+            code.line('  else if (isFilterObject(target)) parts.push(negate(operatorsSql(col, target, insensitive)));');
+            code.line("  else if (insensitive && typeof target === 'string') parts.push(`${col} NOT ILIKE ${bind(escapeLike(target))}`);");
+            code.line('  else parts.push(`${col} <> ${bind(target)}`);');
+            code.line('  break;');
+            code.line("case 'in':");
+            code.line("case 'notIn': {");
+            code.line('  const list = toFilterArray(op, target);');
+            code.line("  if (list.length === 0) parts.push(op === 'in' ? 'FALSE' : 'TRUE');");
+            code.line("  else parts.push(`${col} ${op === 'in' ? 'IN' : 'NOT IN'} (${list.map(bind).join(', ')})`);");
+            code.line('  break;');
+            code.line('}');
+            code.line("case 'lt': parts.push(`${col} < ${bind(target)}`); break;");
+            code.line("case 'lte': parts.push(`${col} <= ${bind(target)}`); break;");
+            code.line("case 'gt': parts.push(`${col} > ${bind(target)}`); break;");
+            code.line("case 'gte': parts.push(`${col} >= ${bind(target)}`); break;");
+            code.line("case 'contains': parts.push(`${col} ${like} ${bind(`%${escapeLike(toFilterString(op, target))}%`)}`); break;");
+            code.line("case 'startsWith': parts.push(`${col} ${like} ${bind(`${escapeLike(toFilterString(op, target))}%`)}`); break;");
+            code.line("case 'endsWith': parts.push(`${col} ${like} ${bind(`%${escapeLike(toFilterString(op, target))}`)}`); break;");
+            code.line("case 'isNull':");
+            code.line("  if (typeof target !== 'boolean') throw new InvalidFilterError('isNull expects a boolean');");
+            code.line('  parts.push(target ? `${col} IS NULL` : `${col} IS NOT NULL`);');
+            code.line('  break;');
+            code.line("case 'has': parts.push(`${col} @> ${bindJson([target])}`); break;");
+            code.line("case 'hasSome': parts.push(join(toFilterArray(op, target).map((item) => `${col} @> ${bindJson([item])}`), 'OR')); break;");
+            code.line("case 'hasEvery': parts.push(`${col} @> ${bindJson(toFilterArray(op, target))}`); break;");
+            code.line('default: throw new InvalidFilterError(`Unknown filter operator: ${op}`);');
+          });
+        });
+        code.line("return join(parts, 'AND');");
+      }, '};');
+      code.line();
+
+      code.block('const whereSql = (where: Record<string, unknown>): string => {', () => {
+        code.line('const parts: string[] = [];');
+        code.block('for (const [key, condition] of Object.entries(where)) {', () => {
+          code.line('if (condition === undefined) continue;');
+          code.line("if (key === 'AND') { parts.push(join(toFilterClauses(key, condition).map(whereSql), 'AND')); continue; }");
+          code.line("if (key === 'OR') { parts.push(join(toFilterClauses(key, condition).map(whereSql), 'OR')); continue; }");
+          code.line("if (key === 'NOT') { parts.push(join(toFilterClauses(key, condition).map((clause) => negate(whereSql(clause))), 'AND')); continue; }");
+          code.comment('Field names are interpolated into SQL, so only plain identifiers are accepted');
+          code.line('if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) throw new InvalidFilterError(`Invalid filter field: ${key}`);');
+          code.line('const col = `"${key}"`;');
+          code.line('if (condition === null) parts.push(`${col} IS NULL`);');
+          code.line('else if (isFilterObject(condition)) parts.push(operatorsSql(col, condition, false));');
+          code.line('else if (Array.isArray(condition)) parts.push(`${col} = ${bindJson(condition)}`);');
+          code.line('else parts.push(`${col} = ${bind(condition)}`);');
+        });
+        code.line("return join(parts, 'AND');");
+      }, '};');
+      code.line();
+
+      code.line('const sql = whereSql(filter);');
+      code.line("return { sql: sql === 'TRUE' ? '1=1' : sql, nextIndex: paramIndex };");
+    }
+  );
+  code.line();
+}
+
+/**
+ * Generate the PostgREST filter builder (`buildPostgrestFilters`) for
+ * Supabase targets. Each returned condition is applied with `query.or()`,
+ * which PostgREST ANDs together. Array fields are stored as JSONB, so
+ * array operators use containment (`cs`).
+ */
+export function generatePostgrestFilterBuilder(code: CodeBuilder, options: FilterHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Build PostgREST logic-tree conditions from a where clause (apply each with query.or())');
+  code.block(`${ex}function buildPostgrestFilters(where: Record<string, unknown>): string[] {`, () => {
+    code.line('const quote = (value: unknown) => JSON.stringify(value instanceof Date ? value.toISOString() : String(value));');
+    code.line('const json = (value: unknown) => quote(JSON.stringify(value));');
+    code.line("const escapeLike = (value: string): string => value.replace(/[\\\\%_]/g, '\\\\$&');");
+    code.line("const TRUE = 'or(id.is.null,id.not.is.null)';");
+    code.line("const FALSE = 'and(id.is.null,id.not.is.null)';");
+    code.line("const group = (parts: string[], op: 'and' | 'or'): string =>");
+    code.line("  parts.length === 0 ? (op === 'or' ? FALSE : TRUE) : parts.length === 1 ? parts[0] : `${op}(${parts.join(',')})`;");
+    code.line();
+
+    code.block('const fieldFilters = (key: string, operators: Record<string, unknown>, inheritedInsensitive: boolean): string[] => {', () => {
+      code.line('const insensitive = filterMode(operators, inheritedInsensitive);');
+      code.line("const like = insensitive ? 'ilike' : 'like';");
+      code.line('const parts: string[] = [];');
+      code.block('for (const [op, target] of Object.entries(operators)) {', () => {
+        code.line('if (target === undefined) continue;');
+        code.block('switch (op) {', () => {
+          code.line("case 'mode': break;");
+          code.line("case 'equals':");
+          code.line('  if (target === null) parts.push(`${key}.is.null`);');
+          code.line("  else if (insensitive && typeof target === 'string') parts.push(`${key}.ilike.${quote(escapeLike(target))}`);");
+          code.line('  else parts.push(`${key}.eq.${quote(target)}`);');
+          code.line('  break;');
+          code.line("case 'not':");
+          code.line('  if (target === null) parts.push(`${key}.not.is.null`);');
+          code.line("  else if (isFilterObject(target)) parts.push(`not.and(${fieldFilters(key, target, insensitive).join(',') || TRUE})`);");
+          code.line("  else if (insensitive && typeof target === 'string') parts.push(`${key}.not.ilike.${quote(escapeLike(target))}`);");
+          code.line('  else parts.push(`${key}.neq.${quote(target)}`);');
+          code.line('  break;');
+          code.line("case 'in':");
+          code.line("case 'notIn': {");
+          code.line('  const list = toFilterArray(op, target);');
+          code.line("  if (list.length === 0) parts.push(op === 'in' ? FALSE : TRUE);");
+          code.line("  else parts.push(`${key}.${op === 'in' ? 'in' : 'not.in'}.(${list.map(quote).join(',')})`);");
+          code.line('  break;');
+          code.line('}');
+          code.line("case 'lt':");
+          code.line("case 'lte':");
+          code.line("case 'gt':");
+          code.line("case 'gte': parts.push(`${key}.${op}.${quote(target)}`); break;");
+          code.line("case 'contains': parts.push(`${key}.${like}.${quote(`%${escapeLike(toFilterString(op, target))}%`)}`); break;");
+          code.line("case 'startsWith': parts.push(`${key}.${like}.${quote(`${escapeLike(toFilterString(op, target))}%`)}`); break;");
+          code.line("case 'endsWith': parts.push(`${key}.${like}.${quote(`%${escapeLike(toFilterString(op, target))}`)}`); break;");
+          code.line("case 'isNull':");
+          code.line("  if (typeof target !== 'boolean') throw new InvalidFilterError('isNull expects a boolean');");
+          code.line('  parts.push(target ? `${key}.is.null` : `${key}.not.is.null`);');
+          code.line('  break;');
+          code.line("case 'has': parts.push(`${key}.cs.${json([target])}`); break;");
+          code.line("case 'hasSome': parts.push(group(toFilterArray(op, target).map((item) => `${key}.cs.${json([item])}`), 'or')); break;");
+          code.line("case 'hasEvery': parts.push(`${key}.cs.${json(toFilterArray(op, target))}`); break;");
+          code.line('default: throw new InvalidFilterError(`Unknown filter operator: ${op}`);');
+        });
+      });
+      code.line('return parts;');
+    }, '};');
+    code.line();
+
+    code.block('const whereFilters = (clause: Record<string, unknown>): string[] => {', () => {
+      code.line('const parts: string[] = [];');
+      code.block('for (const [key, condition] of Object.entries(clause)) {', () => {
+        code.line('if (condition === undefined) continue;');
+        code.line("if (key === 'AND') { parts.push(group(toFilterClauses(key, condition).map((c) => group(whereFilters(c), 'and')), 'and')); continue; }");
+        code.line("if (key === 'OR') { parts.push(group(toFilterClauses(key, condition).map((c) => group(whereFilters(c), 'and')), 'or')); continue; }");
+        code.line("if (key === 'NOT') { parts.push(...toFilterClauses(key, condition).map((c) => `not.and(${whereFilters(c).join(',') || TRUE})`)); continue; }");
+        code.comment('Field names are interpolated into the filter string, so only plain identifiers are accepted');
+        code.line('if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) throw new InvalidFilterError(`Invalid filter field: ${key}`);');
+        code.line('if (condition === null) parts.push(`${key}.is.null`);');
+        code.line('else if (isFilterObject(condition)) parts.push(...fieldFilters(key, condition, false));');
+        code.line('else if (Array.isArray(condition)) parts.push(`${key}.eq.${json(condition)}`);');
+        code.line('else parts.push(`${key}.eq.${quote(condition)}`);');
+      });
+      code.line('return parts;');
+    }, '};');
+    code.line();
+
+    code.line('return whereFilters(where);');
+  });
+  code.line();
+}
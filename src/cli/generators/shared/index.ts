@@ -8,3 +8,10 @@
 export { generateUnifiedSeed } from './seed';
 export type { SeedConfig } from './seed';
 export * from './rls';
+export * from './cursor';
+export * from './views';
+export * from './soft-delete';
+export * from './versioning';
+export * from './rate-limit';
+export * from './links';
+export * from './nested';
@@ -0,0 +1,461 @@
+/**
+ * Shared many-to-many link code generation helpers
+ *
+ * A `hasMany(target, { through, otherKey })` relation is stored as rows of
+ * a junction entity. Generated clients accept `LinkWrite` changes for such
+ * relations on create and update (`{ tags: { connect, disconnect, set } }`)
+ * and maintain the junction rows, including extra junction columns such as
+ * `role` on a membership. `api.<entity>.<relation>.add/remove/set` are
+ * shorthands for the same update.
+ *
+ * Junction columns are taken from a generated whitelist, never from the
+ * request, so link payloads cannot inject column names into SQL.
+ *
+ * @module cli/generators/shared/links
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, AnalyzedRelation, AnalyzedField } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { toPascalCase } from '../../utils/pluralize';
+
+/**
+ * A many-to-many relation whose links can be written
+ */
+export interface LinkRelation {
+  /** The manyToMany relation */
+  relation: AnalyzedRelation;
+  /** The junction entity holding the links */
+  junction: AnalyzedSchema;
+  /** Writable junction fields besides the two keys (e.g. `role`) */
+  extraFields: AnalyzedField[];
+}
+
+/**
+ * Options for emitting link helpers
+ */
+export interface LinkHelperOptions {
+  /** Export the emitted helpers (for shared lib modules) */
+  exported?: boolean;
+}
+
+/** Client methods a relation namespace may not shadow */
+const ENTITY_METHODS = new Set(['list', 'get', 'create', 'update', 'patch', 'delete', 'restore', 'purge', 'subscribe']);
+
+/**
+ * Get the writable many-to-many relations of an entity
+ *
+ * @param schema - Analyzed schema
+ * @param allSchemas - All analyzed schemas (to find the junction entity)
+ * @returns Relations with a known junction entity and both junction keys
+ */
+export function getLinkRelations(schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): LinkRelation[] {
+  const links: LinkRelation[] = [];
+  for (const relation of schema.relations) {
+    if (relation.type !== 'manyToMany' || !relation.through || !relation.otherKey) continue;
+    const junction = allSchemas.find((s) => s.name === relation.through);
+    if (!junction) continue;
+
+    const keys = new Set(['id', relation.foreignKey, relation.otherKey]);
+    const extraFields = junction.fields.filter((f) => !keys.has(f.name) && !f.readOnly && !f.isComputed);
+    links.push({ relation, junction, extraFields });
+  }
+  return links;
+}
+
+/**
+ * Check if any entity has a writable many-to-many relation
+ *
+ * @param schemas - Entities to check
+ * @param allSchemas - All analyzed schemas, when `schemas` is a filtered subset
+ */
+export function hasLinkRelations(schemas: AnalyzedSchema[], allSchemas: AnalyzedSchema[] = schemas): boolean {
+  return schemas.some((s) => !s.isJunctionTable && getLinkRelations(s, allSchemas).length > 0);
+}
+
+/**
+ * Name of the generated link type of a relation (e.g. `PostTagsLink`)
+ */
+export function linkTypeName(schema: AnalyzedSchema, link: LinkRelation): string {
+  return `${schema.pascalName}${toPascalCase(link.relation.name)}Link`;
+}
+
+/**
+ * Name of the junction descriptor constant of a relation (e.g. `postTagsJunction`)
+ */
+export function junctionConstName(schema: AnalyzedSchema, link: LinkRelation): string {
+  return `${schema.name}${toPascalCase(link.relation.name)}Junction`;
+}
+
+/**
+ * Relations that get an `api.<entity>.<relation>` namespace; relations named
+ * like a client method only get the update() form
+ */
+export function getLinkNamespaces(schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): LinkRelation[] {
+  return getLinkRelations(schema, allSchemas).filter((link) => !ENTITY_METHODS.has(link.relation.name));
+}
+
+/**
+ * Whether add() must be given the extra junction columns
+ */
+function requiresExtra(link: LinkRelation): boolean {
+  return link.extraFields.some((f) => !f.nullable && !f.hasDefault);
+}
+
+/**
+ * Generate the link type of every writable many-to-many relation of an entity
+ */
+export function generateLinkTypes(code: CodeBuilder, schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): void {
+  for (const link of getLinkRelations(schema, allSchemas)) {
+    code.docComment(`A ${link.relation.targetPascal} linked to a ${schema.pascalName} through ${link.junction.pascalName}`);
+    code.block(`export interface ${linkTypeName(schema, link)} {`, () => {
+      code.line('id: string;');
+      for (const field of link.extraFields) {
+        const opt = field.nullable || field.hasDefault ? '?' : '';
+        const nullUnion = field.nullable ? ' | null' : '';
+        code.line(`${field.name}${opt}: ${field.tsType}${nullUnion};`);
+      }
+    });
+    code.line();
+  }
+}
+
+/**
+ * Generate the `LinkWrite` type shared by all link relations
+ */
+export function generateLinkWriteType(code: CodeBuilder): void {
+  code.docComment('Changes to a many-to-many relation');
+  code.block('export interface LinkWrite<TLink extends { id: string }> {', () => {
+    code.comment('Link these rows; extra columns of existing links are updated');
+    code.line('connect?: TLink[];');
+    code.comment('Unlink these rows');
+    code.line('disconnect?: Array<{ id: string }>;');
+    code.comment('Replace all links with exactly these rows');
+    code.line('set?: TLink[];');
+  });
+  code.line();
+}
+
+/**
+ * Generate the `<relation>?: LinkWrite<...>` members of a Create or Update type
+ */
+export function generateLinkWriteFields(code: CodeBuilder, schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): void {
+  for (const link of getLinkRelations(schema, allSchemas)) {
+    code.line(`${link.relation.name}?: LinkWrite<${linkTypeName(schema, link)}>;`);
+  }
+}
+
+/**
+ * Generate the junction descriptor constants of an entity's link relations
+ *
+ * @param tableMap - Table name overrides by entity name (Supabase `tableMap`)
+ */
+export function generateJunctionConsts(
+  code: CodeBuilder,
+  schema: AnalyzedSchema,
+  allSchemas: AnalyzedSchema[],
+  tableMap?: Record<string, string>
+): void {
+  for (const link of getLinkRelations(schema, allSchemas)) {
+    const table = tableMap?.[link.junction.name] ?? link.junction.tableName;
+    code.line(`const ${junctionConstName(schema, link)}: LinkJunction = ${junctionLiteral(link, table)};`);
+  }
+}
+
+/**
+ * Junction descriptor literal for a link relation
+ */
+export function junctionLiteral(link: LinkRelation, table = link.junction.tableName): string {
+  const columns = link.extraFields.map((f) => `'${f.name}'`).join(', ');
+  return `{ table: '${table}', foreignKey: '${link.relation.foreignKey}', otherKey: '${link.relation.otherKey}', columns: [${columns}] }`;
+}
+
+/**
+ * Generate the junction descriptor and link change types plus
+ * `pickLinkColumns()`. Required by every link writer.
+ */
+export function generateLinkCommon(code: CodeBuilder, options: LinkHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Many-to-many links: junction rows keyed by owner and target id');
+  code.line(`${ex}interface LinkJunction { table: string; foreignKey: string; otherKey: string; columns: string[] }`);
+  code.line(`${ex}interface LinkChanges { connect?: Array<{ id: string }>; disconnect?: Array<{ id: string }>; set?: Array<{ id: string }> }`);
+  code.line();
+
+  code.comment('Extra junction columns given for a link, limited to the known columns');
+  code.block('function pickLinkColumns(link: { id: string }, columns: string[]): Record<string, unknown> {', () => {
+    code.line('const values: Record<string, unknown> = {};');
+    code.block('for (const column of columns) {', () => {
+      code.line('const value = (link as Record<string, unknown>)[column];');
+      code.line('if (value !== undefined) values[column] = value;');
+    });
+    code.line('return values;');
+  });
+  code.line();
+
+  code.comment('Links to create or keep: set() rows first, then connect() rows');
+  code.block('function linksToWrite(changes: LinkChanges): Array<{ id: string }> {', () => {
+    code.line('return [...(changes.set ?? []), ...(changes.connect ?? [])];');
+  });
+  code.line();
+}
+
+/**
+ * Generate the in-memory link writer for the mock client. Works on
+ * @mswjs/data models; expects `createNotFoundError` to be in scope.
+ */
+export function generateMockLinkWriter(code: CodeBuilder): void {
+  code.comment('The @mswjs/data model methods the link writer uses');
+  code.line('type LinkWhere = Record<string, { equals: unknown }>;');
+  code.block('interface LinkModel {', () => {
+    code.line('findFirst(query: { where: LinkWhere }): Record<string, unknown> | null;');
+    code.line('findMany(query: { where: LinkWhere }): Array<Record<string, unknown>>;');
+    code.line('create(data: Record<string, unknown>): unknown;');
+    code.line('update(query: { where: LinkWhere; data: Record<string, unknown> }): unknown;');
+    code.line('delete(query: { where: LinkWhere }): unknown;');
+  });
+  code.line();
+
+  code.comment('Fail before writing anything if a linked row does not exist');
+  code.block('function assertLinkTargets(target: LinkModel, entity: string, changes: LinkChanges): void {', () => {
+    code.block('for (const link of linksToWrite(changes)) {', () => {
+      code.block('if (!target.findFirst({ where: { id: { equals: link.id } } })) {', () => {
+        code.line('throw createNotFoundError(entity, link.id);');
+      });
+    });
+  });
+  code.line();
+
+  code.comment('Apply link changes to the junction rows of one owner');
+  code.block('function writeLinks(model: LinkModel, junction: LinkJunction, ownerId: string, changes: LinkChanges): void {', () => {
+    code.line('const { foreignKey, otherKey, columns } = junction;');
+    code.line('const keep = changes.set ? new Set(changes.set.map(link => link.id)) : undefined;');
+    code.line('const drop = new Set((changes.disconnect ?? []).map(link => link.id));');
+    code.block('for (const row of model.findMany({ where: { [foreignKey]: { equals: ownerId } } })) {', () => {
+      code.line('const targetId = row[otherKey] as string;');
+      code.block('if ((keep && !keep.has(targetId)) || drop.has(targetId)) {', () => {
+        code.line('model.delete({ where: { id: { equals: row.id } } });');
+      });
+    });
+    code.line();
+    code.block('for (const link of linksToWrite(changes)) {', () => {
+      code.line('const values = pickLinkColumns(link, columns);');
+      code.line('const existing = model.findFirst({ where: { [foreignKey]: { equals: ownerId }, [otherKey]: { equals: link.id } } });');
+      code.block('if (!existing) {', () => {
+        code.line('model.create({ ...values, [foreignKey]: ownerId, [otherKey]: link.id });');
+      }, '} else if (Object.keys(values).length > 0) {');
+      code.indent();
+      code.line('model.update({ where: { id: { equals: existing.id } }, data: values });');
+      code.dedent();
+      code.line('}');
+    });
+  });
+  code.line();
+}
+
+/**
+ * Generate the SQL link writer for PGlite targets. Runs on the caller's
+ * connection, so it is atomic when the caller is inside a transaction.
+ */
+export function generateSqlLinkWriter(code: CodeBuilder, options: LinkHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('The query method the link writer uses (PGlite or a transaction)');
+  code.block(`${ex}interface LinkDb {`, () => {
+    code.line('query(sql: string, params?: unknown[]): Promise<{ rows: unknown[] }>;');
+  });
+  code.line();
+
+  code.comment('Apply link changes to the junction rows of one owner');
+  code.block(
+    `${ex}async function writeLinks(db: LinkDb, junction: LinkJunction, ownerId: string, changes: LinkChanges): Promise<void> {`,
+    () => {
+      code.line('const { table, foreignKey, otherKey, columns } = junction;');
+      code.line('const placeholders = (count: number, from: number) => Array.from({ length: count }, (_, i) => `$${i + from}`).join(", ");');
+      code.line();
+      code.block('if (changes.set) {', () => {
+        code.line('const keep = changes.set.map(link => link.id);');
+        code.line('const notKept = keep.length > 0 ? ` AND "${otherKey}" NOT IN (${placeholders(keep.length, 2)})` : "";');
+        code.line('await db.query(`DELETE FROM "${table}" WHERE "${foreignKey}" = $1${notKept}`, [ownerId, ...keep]);');
+      });
+      code.block('if (changes.disconnect?.length) {', () => {
+        code.line('const drop = changes.disconnect.map(link => link.id);');
+        code.line('await db.query(');
+        code.line('  `DELETE FROM "${table}" WHERE "${foreignKey}" = $1 AND "${otherKey}" IN (${placeholders(drop.length, 2)})`,');
+        code.line('  [ownerId, ...drop]');
+        code.line(');');
+      });
+      code.line();
+      code.block('for (const link of linksToWrite(changes)) {', () => {
+        code.line('const values = pickLinkColumns(link, columns);');
+        code.line('const names = Object.keys(values);');
+        code.line('const existing = await db.query(');
+        code.line('  `SELECT 1 FROM "${table}" WHERE "${foreignKey}" = $1 AND "${otherKey}" = $2`,');
+        code.line('  [ownerId, link.id]');
+        code.line(');');
+        code.block('if (existing.rows.length === 0) {', () => {
+          code.line('const insertColumns = [foreignKey, otherKey, ...names].map(c => `"${c}"`).join(", ");');
+          code.line('await db.query(');
+          code.line('  `INSERT INTO "${table}" (${insertColumns}) VALUES (${placeholders(names.length + 2, 1)})`,');
+          code.line('  [ownerId, link.id, ...Object.values(values)]');
+          code.line(');');
+        }, '} else if (names.length > 0) {');
+        code.indent();
+        code.line('const setClauses = names.map((c, i) => `"${c}" = $${i + 3}`).join(", ");');
+        code.line('await db.query(');
+        code.line('  `UPDATE "${table}" SET ${setClauses} WHERE "${foreignKey}" = $1 AND "${otherKey}" = $2`,');
+        code.line('  [ownerId, link.id, ...Object.values(values)]');
+        code.line(');');
+        code.dedent();
+        code.line('}');
+      });
+    }
+  );
+  code.line();
+}
+
+/**
+ * Generate the Supabase link writer. Each change is its own request, so a
+ * failure part-way leaves the earlier changes applied; errors are thrown.
+ *
+ * @param clientType - Type of the Supabase client parameter
+ */
+export function generateSupabaseLinkWriter(code: CodeBuilder, clientType: string, options: LinkHelperOptions = {}): void {
+  const ex = options.exported ? 'export ' : '';
+
+  code.comment('Apply link changes to the junction rows of one owner');
+  code.block(
+    `${ex}async function writeLinks(client: ${clientType}, junction: LinkJunction, ownerId: string, changes: LinkChanges): Promise<void> {`,
+    () => {
+      code.line('const { table, foreignKey, otherKey, columns } = junction;');
+      code.line();
+      code.block('if (changes.set) {', () => {
+        code.line('const keep = changes.set.map(link => link.id);');
+        code.line('let query = client.from(table).delete().eq(foreignKey, ownerId);');
+        code.block('if (keep.length > 0) {', () => {
+          code.line("query = query.not(otherKey, 'in', `(${keep.map(id => JSON.stringify(id)).join(',')})`);");
+        });
+        code.line('const { error } = await query;');
+        code.line('if (error) throw error;');
+      });
+      code.block('if (changes.disconnect?.length) {', () => {
+        code.line('const drop = changes.disconnect.map(link => link.id);');
+        code.line('const { error } = await client.from(table).delete().eq(foreignKey, ownerId).in(otherKey, drop);');
+        code.line('if (error) throw error;');
+      });
+      code.line();
+      code.block('for (const link of linksToWrite(changes)) {', () => {
+        code.line('const values = pickLinkColumns(link, columns);');
+        code.line('const { data: existing, error } = await client.from(table).select(\'id\').eq(foreignKey, ownerId).eq(otherKey, link.id).maybeSingle();');
+        code.line('if (error) throw error;');
+        code.block('if (!existing) {', () => {
+          code.line('const inserted = await client.from(table).insert({ ...values, [foreignKey]: ownerId, [otherKey]: link.id });');
+          code.line('if (inserted.error) throw inserted.error;');
+        }, '} else if (Object.keys(values).length > 0) {');
+        code.indent();
+        code.line("const updated = await client.from(table).update(values).eq('id', existing.id);");
+        code.line('if (updated.error) throw updated.error;');
+        code.dedent();
+        code.line('}');
+      });
+    }
+  );
+  code.line();
+}
+
+/**
+ * Generate the ApiClient type members of an entity's link namespaces
+ */
+export function generateLinkNamespaceTypes(code: CodeBuilder, schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): void {
+  for (const link of getLinkNamespaces(schema, allSchemas)) {
+    const linkType = `Types.${linkTypeName(schema, link)}`;
+    code.block(`${link.relation.name}: {`, () => {
+      code.line(`add: (id: string, targetId: string${extraParam(link, linkType)}) => Promise<void>;`);
+      code.line('remove: (id: string, targetId: string) => Promise<void>;');
+      code.line(`set: (id: string, links: ${linkType}[]) => Promise<void>;`);
+    }, '};');
+  }
+}
+
+/**
+ * Generate an entity's link namespaces, delegating to `<clientVar>.<entity>.update()`
+ *
+ * @param clientVar - Variable holding the client object being built
+ */
+export function generateLinkNamespaces(
+  code: CodeBuilder,
+  schema: AnalyzedSchema,
+  allSchemas: AnalyzedSchema[],
+  clientVar: string
+): void {
+  const update = `${clientVar}.${schema.name}.update`;
+  for (const link of getLinkNamespaces(schema, allSchemas)) {
+    const { name } = link.relation;
+    const linkType = `Types.${linkTypeName(schema, link)}`;
+    const extra = link.extraFields.length > 0 ? '...extra, ' : '';
+
+    code.line();
+    code.block(`${name}: {`, () => {
+      code.line(`add: async (id: string, targetId: string${extraParam(link, linkType)}): Promise<void> => {`);
+      code.line(`  await ${update}(id, { ${name}: { connect: [{ ${extra}id: targetId }] } });`);
+      code.line('},');
+      code.line('remove: async (id: string, targetId: string): Promise<void> => {');
+      code.line(`  await ${update}(id, { ${name}: { disconnect: [{ id: targetId }] } });`);
+      code.line('},');
+      code.line(`set: async (id: string, links: ${linkType}[]): Promise<void> => {`);
+      code.line(`  await ${update}(id, { ${name}: { set: links } });`);
+      code.line('},');
+    }, '},');
+  }
+}
+
+/**
+ * The `extra` parameter of add(), or nothing if the junction has no extra columns
+ */
+function extraParam(link: LinkRelation, linkType: string): string {
+  if (link.extraFields.length === 0) return '';
+  return `, extra${requiresExtra(link) ? '' : '?'}: Omit<${linkType}, 'id'>`;
+}
+
+/**
+ * Generate the statements writing an entity's link changes after its own row
+ * was written (server handlers and SQL/Supabase clients)
+ *
+ * @param links - Link relations of the entity
+ * @param call - Builds the writeLinks() statement for a junction constant and relation variable
+ */
+export function linkWriteLines(
+  schema: AnalyzedSchema,
+  links: LinkRelation[],
+  call: (junctionConst: string, relation: string) => string
+): string[] {
+  return links.map((link) => {
+    const { name } = link.relation;
+    return `if (${name}) ${call(junctionConstName(schema, link), name)};`;
+  });
+}
+
+/**
+ * Generate a standalone links module (for server lib directories)
+ *
+ * @param backend - Database backend the module targets
+ * @returns Generated TypeScript code with exported helpers
+ */
+export function generateLinksModule(backend: 'supabase' | 'pglite'): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  if (backend === 'supabase') {
+    code.line("import type { SupabaseClient } from '@supabase/supabase-js';");
+  }
+  code.line();
+
+  generateLinkCommon(code, { exported: true });
+  if (backend === 'supabase') {
+    generateSupabaseLinkWriter(code, 'SupabaseClient', { exported: true });
+  } else {
+    generateSqlLinkWriter(code, { exported: true });
+  }
+
+  return code.toString();
+}
@@ -0,0 +1,384 @@
+/**
+ * Shared nested write code generation helpers
+ *
+ * Create and Update inputs accept writes to an entity's hasMany, hasOne and
+ * belongsTo relations in the same call, in the shape Prisma uses:
+ * `{ items: { create: [...], connect: [{ id }] } }` and
+ * `{ author: { connect: { id } } }`. A belongsTo row is created or checked
+ * before the entity and fills its foreign key; child rows are created or
+ * re-pointed at the entity afterwards.
+ *
+ * The writers run on the caller's connection: the mock client wraps them in
+ * `db.$transaction()`, PGlite requests already run in a transaction, Firebase
+ * queues them on a write batch, and the Supabase writer records undo steps
+ * because PostgREST has no transactions.
+ *
+ * @module cli/generators/shared/nested
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, AnalyzedRelation } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { getLinkRelations } from './links';
+
+/**
+ * A hasMany, hasOne or belongsTo relation that accepts nested writes
+ */
+export interface NestedRelation {
+  /** The relation */
+  relation: AnalyzedRelation;
+  /** The related entity */
+  target: AnalyzedSchema;
+}
+
+/**
+ * Get the relations of an entity that accept nested writes
+ *
+ * @param schema - Analyzed schema
+ * @param allSchemas - All analyzed schemas (to find the related entity)
+ * @returns hasMany, hasOne and belongsTo relations with a known target
+ */
+export function getNestedRelations(schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): NestedRelation[] {
+  const nested: NestedRelation[] = [];
+  for (const relation of schema.relations) {
+    if (relation.type === 'manyToMany' || relation.through) continue;
+    const target = allSchemas.find((s) => s.name === relation.resolvedTarget);
+    if (target) nested.push({ relation, target });
+  }
+  return nested;
+}
+
+/**
+ * Check if any entity accepts nested writes
+ */
+export function hasNestedRelations(schemas: AnalyzedSchema[]): boolean {
+  return schemas.some((s) => !s.isJunctionTable && getNestedRelations(s, schemas).length > 0);
+}
+
+/**
+ * Foreign key fields that may be left out of a Create input because a
+ * belongsTo nested write can fill them
+ */
+export function getNestedForeignKeys(schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): Set<string> {
+  return new Set(
+    getNestedRelations(schema, allSchemas)
+      .filter(({ relation }) => relation.type === 'belongsTo')
+      .map(({ relation }) => parentKey(relation))
+  );
+}
+
+/**
+ * Foreign key on the entity itself for a belongsTo relation
+ */
+function parentKey(relation: AnalyzedRelation): string {
+  return relation.localField ?? relation.foreignKey;
+}
+
+/**
+ * Create type of a nested row: the target's Create without its own nested
+ * and link fields (one level deep), and without the key the parent fills
+ */
+function nestedCreateType(nested: NestedRelation, allSchemas: AnalyzedSchema[]): string {
+  const { relation, target } = nested;
+  const omitted = [
+    ...(relation.type === 'belongsTo' ? [] : [relation.foreignKey]),
+    ...getNestedRelations(target, allSchemas).map((n) => n.relation.name),
+    ...getLinkRelations(target, allSchemas).map((l) => l.relation.name),
+  ];
+  const createType = `${target.pascalName}Create`;
+  if (omitted.length === 0) return createType;
+  return `Omit<${createType}, ${[...new Set(omitted)].map((name) => `'${name}'`).join(' | ')}>`;
+}
+
+/**
+ * Generate the `NestedMany` and `NestedOne` types shared by all nested writes
+ */
+export function generateNestedWriteTypes(code: CodeBuilder): void {
+  code.docComment('Nested writes to a hasMany relation, made in the same call as the parent');
+  code.block('export interface NestedMany<TCreate> {', () => {
+    code.comment('Create these rows, linked to the parent');
+    code.line('create?: TCreate[];');
+    code.comment('Link these existing rows to the parent');
+    code.line('connect?: Array<{ id: string }>;');
+  });
+  code.line();
+
+  code.docComment('Nested write to a hasOne or belongsTo relation, made in the same call as the parent');
+  code.block('export interface NestedOne<TCreate> {', () => {
+    code.comment('Create this row and link it');
+    code.line('create?: TCreate;');
+    code.comment('Link this existing row');
+    code.line('connect?: { id: string };');
+  });
+  code.line();
+}
+
+/**
+ * Generate the `<relation>?: NestedMany<...> | NestedOne<...>` members of a
+ * Create or Update type
+ */
+export function generateNestedWriteFields(code: CodeBuilder, schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): void {
+  for (const nested of getNestedRelations(schema, allSchemas)) {
+    const wrapper = nested.relation.type === 'hasMany' ? 'NestedMany' : 'NestedOne';
+    code.line(`${nested.relation.name}?: ${wrapper}<${nestedCreateType(nested, allSchemas)}>;`);
+  }
+}
+
+/**
+ * Target descriptor literal of a nested relation for the SQL and Supabase writers
+ *
+ * @param table - Table name of the related entity (after any table map)
+ */
+export function nestedTableLiteral(nested: NestedRelation, table = nested.target.tableName): string {
+  return `{ table: '${table}', entity: '${nested.target.pascalName}' }`;
+}
+
+/**
+ * Generate the nested write input type plus `asList()`. Required by every
+ * nested writer.
+ */
+export function generateNestedCommon(code: CodeBuilder): void {
+  code.comment('Nested writes: rows to create and existing rows to connect for one relation');
+  code.line('interface NestedWrite { create?: object | object[]; connect?: { id: string } | Array<{ id: string }> }');
+  code.line();
+
+  code.block('function asList<T>(value: T | T[] | undefined): T[] {', () => {
+    code.line('if (value === undefined) return [];');
+    code.line('return Array.isArray(value) ? value : [value];');
+  });
+  code.line();
+}
+
+/**
+ * Generate the in-memory nested writer for the mock client. Works on
+ * @mswjs/data models; expects `createNotFoundError` to be in scope.
+ */
+export function generateMockNestedWriter(code: CodeBuilder): void {
+  code.comment('The @mswjs/data model methods the nested writer uses');
+  code.line('type NestedWhere = Record<string, { equals: unknown }>;');
+  code.block('interface NestedModel {', () => {
+    code.line('findFirst(query: { where: NestedWhere }): Record<string, unknown> | null;');
+    code.line('create(data: Record<string, unknown>): Record<string, unknown>;');
+    code.line('update(query: { where: NestedWhere; data: Record<string, unknown> }): Record<string, unknown> | null;');
+  });
+  code.line();
+
+  code.comment('Id of the row a belongsTo write points to: the connected row, or a newly created one');
+  code.block('function writeNestedParent(model: NestedModel, entity: string, write: NestedWrite): string | undefined {', () => {
+    code.line('const [connect] = asList(write.connect);');
+    code.block('if (connect) {', () => {
+      code.line('if (!model.findFirst({ where: { id: { equals: connect.id } } })) throw createNotFoundError(entity, connect.id);');
+      code.line('return connect.id;');
+    });
+    code.line('const [create] = asList(write.create);');
+    code.line('return create ? (model.create({ ...create }).id as string) : undefined;');
+  });
+  code.line();
+
+  code.comment('Create and connect the hasMany/hasOne rows of a parent');
+  code.block(
+    'function writeNestedChildren(model: NestedModel, entity: string, foreignKey: string, parentId: string, write: NestedWrite): void {',
+    () => {
+      code.line('for (const data of asList(write.create)) model.create({ ...data, [foreignKey]: parentId });');
+      code.block('for (const { id } of asList(write.connect)) {', () => {
+        code.block('if (!model.update({ where: { id: { equals: id } }, data: { [foreignKey]: parentId } })) {', () => {
+          code.line('throw createNotFoundError(entity, id);');
+        });
+      });
+    }
+  );
+  code.line();
+}
+
+/**
+ * Generate the SQL nested writer for PGlite targets. Runs on the caller's
+ * connection; expects `createNotFoundError` to be in scope.
+ */
+export function generateSqlNestedWriter(code: CodeBuilder): void {
+  code.comment('The query method the nested writer uses (PGlite or a transaction)');
+  code.block('interface NestedDb {', () => {
+    code.line('query(sql: string, params?: unknown[]): Promise<{ rows: unknown[] }>;');
+  });
+  code.line('interface NestedTable { table: string; entity: string }');
+  code.line();
+
+  code.comment('Insert one nested row and return its id');
+  code.block('async function insertNestedRow(db: NestedDb, table: string, data: object): Promise<string> {', () => {
+    code.line('const entries = Object.entries(data);');
+    code.line('const columns = entries.map(([column]) => `"${column}"`).join(", ");');
+    code.line('const placeholders = entries.map((_, i) => `$${i + 1}`).join(", ");');
+    code.line('const values = entries.length > 0 ? `(${columns}) VALUES (${placeholders})` : "DEFAULT VALUES";');
+    code.line('const result = await db.query(`INSERT INTO "${table}" ${values} RETURNING "id"`, entries.map(([, value]) => value));');
+    code.line('return (result.rows[0] as { id: string }).id;');
+  });
+  code.line();
+
+  code.comment('Id of the row a belongsTo write points to: the connected row, or a newly created one');
+  code.block('async function writeNestedParent(db: NestedDb, target: NestedTable, write: NestedWrite): Promise<string | undefined> {', () => {
+    code.line('const [connect] = asList(write.connect);');
+    code.block('if (connect) {', () => {
+      code.line('const existing = await db.query(`SELECT 1 FROM "${target.table}" WHERE "id" = $1`, [connect.id]);');
+      code.line('if (existing.rows.length === 0) throw createNotFoundError(target.entity, connect.id);');
+      code.line('return connect.id;');
+    });
+    code.line('const [create] = asList(write.create);');
+    code.line('return create ? insertNestedRow(db, target.table, create) : undefined;');
+  });
+  code.line();
+
+  code.comment('Create and connect the hasMany/hasOne rows of a parent');
+  code.block(
+    'async function writeNestedChildren(db: NestedDb, target: NestedTable, foreignKey: string, parentId: string, write: NestedWrite): Promise<void> {',
+    () => {
+      code.block('for (const data of asList(write.create)) {', () => {
+        code.line('await insertNestedRow(db, target.table, { ...data, [foreignKey]: parentId });');
+      });
+      code.block('for (const { id } of asList(write.connect)) {', () => {
+        code.line('const updated = await db.query(`UPDATE "${target.table}" SET "${foreignKey}" = $1 WHERE "id" = $2 RETURNING "id"`, [parentId, id]);');
+        code.line('if (updated.rows.length === 0) throw createNotFoundError(target.entity, id);');
+      });
+    }
+  );
+  code.line();
+}
+
+/**
+ * Generate the Supabase nested writer. Every write pushes a step that
+ * reverts it, so a failed call can be rolled back with `undoNestedWrites()`;
+ * expects `createNotFoundError` to be in scope.
+ *
+ * @param clientType - Type of the Supabase client parameter
+ */
+export function generateSupabaseNestedWriter(code: CodeBuilder, clientType: string): void {
+  code.line('interface NestedTable { table: string; entity: string }');
+  code.comment('Steps reverting the writes made so far, run newest first if a later write fails');
+  code.line('type NestedUndo = Array<() => PromiseLike<unknown>>;');
+  code.line();
+
+  code.comment('Id of the row a belongsTo write points to: the connected row, or a newly created one');
+  code.block(
+    `async function writeNestedParent(client: ${clientType}, target: NestedTable, write: NestedWrite, undo: NestedUndo): Promise<string | undefined> {`,
+    () => {
+      code.line('const [connect] = asList(write.connect);');
+      code.block('if (connect) {', () => {
+        code.line("const { data, error } = await client.from(target.table).select('id').eq('id', connect.id).maybeSingle();");
+        code.line('if (error) throw error;');
+        code.line('if (!data) throw createNotFoundError(target.entity, connect.id);');
+        code.line('return connect.id;');
+      });
+      code.line('const [create] = asList(write.create);');
+      code.line('if (!create) return undefined;');
+      code.line("const { data, error } = await client.from(target.table).insert(create).select('id').single();");
+      code.line('if (error) throw error;');
+      code.line("undo.push(() => client.from(target.table).delete().eq('id', data.id));");
+      code.line('return data.id as string;');
+    }
+  );
+  code.line();
+
+  code.comment('Create and connect the hasMany/hasOne rows of a parent');
+  code.block(
+    `async function writeNestedChildren(client: ${clientType}, target: NestedTable, foreignKey: string, parentId: string, write: NestedWrite, undo: NestedUndo): Promise<void> {`,
+    () => {
+      code.line('const rows = asList(write.create).map(data => ({ ...data, [foreignKey]: parentId }));');
+      code.block('if (rows.length > 0) {', () => {
+        code.line("const { data, error } = await client.from(target.table).insert(rows).select('id');");
+        code.line('if (error) throw error;');
+        code.line('const ids = data.map(row => row.id);');
+        code.line("undo.push(() => client.from(target.table).delete().in('id', ids));");
+      });
+      code.block('for (const { id } of asList(write.connect)) {', () => {
+        code.line("const { data: current, error } = await client.from(target.table).select('*').eq('id', id).maybeSingle();");
+        code.line('if (error) throw error;');
+        code.line('if (!current) throw createNotFoundError(target.entity, id);');
+        code.line("const updated = await client.from(target.table).update({ [foreignKey]: parentId }).eq('id', id);");
+        code.line('if (updated.error) throw updated.error;');
+        code.line("undo.push(() => client.from(target.table).update({ [foreignKey]: current[foreignKey] }).eq('id', id));");
+      });
+    }
+  );
+  code.line();
+
+  code.comment('Revert the writes of a failed call, newest first');
+  code.block('async function undoNestedWrites(undo: NestedUndo): Promise<void> {', () => {
+    code.line('for (const step of [...undo].reverse()) await step();');
+  });
+  code.line();
+}
+
+/**
+ * Generate the Firestore nested writer. Writes are queued on the caller's
+ * batch or transaction, so they commit together with the entity; expects
+ * the Firestore instance as `firestore`.
+ */
+export function generateFirestoreNestedWriter(code: CodeBuilder): void {
+  code.comment('The write batch or transaction methods the nested writer uses');
+  code.block('interface NestedBatch {', () => {
+    code.line('set(ref: DocumentReference, data: DocumentData): unknown;');
+    code.line('update(ref: DocumentReference, data: DocumentData): unknown;');
+  });
+  code.line();
+
+  code.comment('Id of the document a belongsTo write points to; Firestore has no foreign keys, so a connected id is not checked');
+  code.block('function writeNestedParent(batch: NestedBatch, collectionName: string, write: NestedWrite): string | undefined {', () => {
+    code.line('const [connect] = asList(write.connect);');
+    code.line('if (connect) return connect.id;');
+    code.line('const [create] = asList(write.create);');
+    code.line('if (!create) return undefined;');
+    code.line('const ref = doc(collection(firestore, collectionName));');
+    code.line('batch.set(ref, { ...create, createdAt: new Date(), updatedAt: new Date() });');
+    code.line('return ref.id;');
+  });
+  code.line();
+
+  code.comment('Create and connect the hasMany/hasOne documents of a parent; connecting a missing document fails the commit');
+  code.block(
+    'function writeNestedChildren(batch: NestedBatch, collectionName: string, foreignKey: string, parentId: string, write: NestedWrite): void {',
+    () => {
+      code.block('for (const data of asList(write.create)) {', () => {
+        code.line('batch.set(doc(collection(firestore, collectionName)), { ...data, [foreignKey]: parentId, createdAt: new Date(), updatedAt: new Date() });');
+      });
+      code.block('for (const { id } of asList(write.connect)) {', () => {
+        code.line('batch.update(doc(firestore, collectionName, id), { [foreignKey]: parentId, updatedAt: new Date() });');
+      });
+    }
+  );
+  code.line();
+}
+
+/**
+ * Generate the statements resolving an input's belongsTo writes into
+ * foreign keys, before the entity's own row is written
+ *
+ * @param data - Variable holding the entity's column values
+ * @param call - Builds the writeNestedParent() expression for a relation
+ */
+export function nestedParentLines(
+  schema: AnalyzedSchema,
+  allSchemas: AnalyzedSchema[],
+  data: string,
+  call: (nested: NestedRelation) => string
+): string[] {
+  return getNestedRelations(schema, allSchemas)
+    .filter(({ relation }) => relation.type === 'belongsTo')
+    .map((nested) => {
+      const key = `${data}.${parentKey(nested.relation)}`;
+      return `if (${nested.relation.name}) ${key} = ${call(nested)} ?? ${key};`;
+    });
+}
+
+/**
+ * Generate the statements writing an input's hasMany/hasOne rows after the
+ * entity's own row was written
+ *
+ * @param call - Builds the writeNestedChildren() statement for a relation
+ */
+export function nestedChildLines(
+  schema: AnalyzedSchema,
+  allSchemas: AnalyzedSchema[],
+  call: (nested: NestedRelation) => string
+): string[] {
+  return getNestedRelations(schema, allSchemas)
+    .filter(({ relation }) => relation.type !== 'belongsTo')
+    .map((nested) => `if (${nested.relation.name}) ${call(nested)};`);
+}
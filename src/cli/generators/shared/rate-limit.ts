@@ -0,0 +1,64 @@
+/**
+ * Shared rate limit middleware code generation helpers
+ *
+ * Generated server middleware checks requests with `createRateLimitCheck`
+ * from `schemock/security`, so every target gets the same algorithms,
+ * per-route and per-role limits and RateLimit-* headers. Counters live in a
+ * MemoryRateLimitStore, or in Redis (`storage: 'redis'`) through a `redis`
+ * client the project exports from `redis.ts` next to the middleware.
+ *
+ * @module cli/generators/shared/rate-limit
+ * @category CLI
+ */
+
+import type { RateLimitMiddlewareConfig } from '../../types';
+
+/**
+ * Import lines for a generated rate limit middleware
+ *
+ * @param config - Rate limit config
+ * @param redisImport - Module specifier of the project's Redis client (e.g. './redis' or './redis.ts')
+ */
+export function generateRateLimitImports(config: RateLimitMiddlewareConfig, redisImport: string): string[] {
+  const store = config.storage === 'redis' ? 'RedisRateLimitStore' : 'MemoryRateLimitStore';
+  const lines = [
+    `import { createRateLimitCheck, ${store}, type RateLimitPolicy } from 'schemock/security';`,
+  ];
+  if (config.storage === 'redis') {
+    lines.push(`import { redis } from '${redisImport}';`);
+  }
+  return lines;
+}
+
+/**
+ * Policy constant and `checkRateLimit` function for a generated rate limit
+ * middleware
+ *
+ * @param config - Rate limit config
+ */
+export function generateRateLimitSetup(config: RateLimitMiddlewareConfig): string[] {
+  const policy: Record<string, unknown> = { max: config.max ?? 100, windowMs: config.windowMs ?? 60000 };
+  if (config.algorithm) policy.algorithm = config.algorithm;
+  if (config.routes && Object.keys(config.routes).length > 0) policy.routes = config.routes;
+  if (config.roles && Object.keys(config.roles).length > 0) policy.roles = config.roles;
+
+  const store =
+    config.storage === 'redis'
+      ? 'new RedisRateLimitStore({ client: redis })'
+      : 'new MemoryRateLimitStore()';
+
+  return [
+    '/**',
+    ' * Rate limit policy: route limits, then role limits, then the default',
+    ' */',
+    `const rateLimitPolicy: RateLimitPolicy = ${JSON.stringify(policy, null, 2)};`,
+    '',
+    '/**',
+    config.storage === 'redis'
+      ? ' * Rate limit check; counters are shared through Redis'
+      : ' * Rate limit check; counters are per instance and reset on restart',
+    ' */',
+    `const checkRateLimit = createRateLimitCheck(rateLimitPolicy, { store: ${store} });`,
+    '',
+  ];
+}
@@ -0,0 +1,126 @@
+/**
+ * Code emission helpers for seed scenarios
+ *
+ * Generated seed.ts files build scenarios with `buildScenario()` from
+ * `schemock/seed`. It needs the entity metadata that decides foreign keys
+ * and enum values, plus the seed file's own `generate*()` functions so
+ * scenario records get the same faker values as `seed()`. Targets whose db
+ * module exports that metadata (the mock db's `schemas`) reuse it; others
+ * get a `scenarioSchemas` literal.
+ *
+ * @module cli/generators/shared/seed-scenario
+ * @category CLI
+ */
+
+import type { AnalyzedSchema } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+
+/** Name of the entity metadata literal emitted by emitScenarioSupport() */
+const SCENARIO_SCHEMAS = 'scenarioSchemas';
+
+/**
+ * Emit the imports used by the scenario helpers
+ *
+ * @param code - Code builder for the seed file
+ * @param schemasImported - The seed file imports entity metadata from its db module
+ */
+export function emitScenarioImports(code: CodeBuilder, schemasImported = false): void {
+  code.line("import { buildScenario, type SeedScenario, type ScenarioDataset } from 'schemock/seed';");
+  if (!schemasImported) {
+    code.line("import type { EntitySchema } from 'schemock/schema';");
+  }
+}
+
+/**
+ * Emit `scenarioFactories` (the `generate*()` function per entity) and,
+ * unless the entity metadata is imported, `scenarioSchemas` (fields and
+ * relations that scenarios resolve against).
+ *
+ * @param code - Code builder for the seed file
+ * @param schemas - Analyzed schemas; junction tables are skipped
+ * @param schemasImported - The seed file imports entity metadata from its db module
+ */
+export function emitScenarioSupport(code: CodeBuilder, schemas: AnalyzedSchema[], schemasImported = false): void {
+  const entities = schemas.filter((schema) => !schema.isJunctionTable);
+
+  if (!schemasImported) {
+    emitScenarioSchemas(code, entities);
+  }
+
+  code.comment('Record factories for seed scenarios');
+  code.block('const scenarioFactories: Record<string, () => Record<string, unknown>> = {', () => {
+    for (const schema of entities) {
+      code.line(`'${schema.name}': generate${schema.pascalName},`);
+    }
+  }, '};');
+  code.line();
+}
+
+/**
+ * Emit the `scenarioSchemas` literal
+ */
+function emitScenarioSchemas(code: CodeBuilder, entities: AnalyzedSchema[]): void {
+  code.comment('Entity metadata for seed scenarios');
+  code.block(`const ${SCENARIO_SCHEMAS}: EntitySchema[] = [`, () => {
+    for (const schema of entities) {
+      code.block('{', () => {
+        code.line(`name: '${schema.name}',`);
+        code.block('fields: {', () => {
+          for (const field of schema.fields) {
+            const props = [`type: '${field.type}'`];
+            if (field.nullable) props.push('nullable: true');
+            if (field.readOnly) props.push('readOnly: true');
+            if (field.refTarget) props.push(`target: '${field.refTarget}'`);
+            if (field.enumValues && field.enumValues.length > 0) {
+              props.push(`values: [${field.enumValues.map((v) => `'${v}'`).join(', ')}]`);
+            }
+            code.line(`${field.name}: { ${props.join(', ')} },`);
+          }
+        }, '},');
+        const relations = schema.relations.filter((rel) => rel.type !== 'manyToMany');
+        if (relations.length > 0) {
+          code.block('relations: {', () => {
+            for (const rel of relations) {
+              code.line(`${rel.name}: { type: '${rel.type}', target: '${rel.resolvedTarget}', foreignKey: '${rel.localField || rel.foreignKey}' },`);
+            }
+          }, '},');
+        }
+      }, '},');
+    }
+  }, '];');
+  code.line();
+}
+
+/**
+ * Emit the doc comment shared by the generated `seedScenario()` functions
+ */
+export function emitSeedScenarioDoc(code: CodeBuilder): void {
+  code.multiDocComment([
+    'Seed the database with a scenario defined with `defineScenario()`.',
+    '',
+    'The same scenario and faker seed always produce the same records.',
+    '',
+    '@param scenario - Scenario to create',
+    '@returns The created records per entity',
+    '',
+    '@example',
+    '```typescript',
+    "import { overdueInvoices } from '../scenarios';",
+    '',
+    'const data = await seedScenario(overdueInvoices);',
+    'console.log(data.invoice.length);',
+    '```',
+  ]);
+}
+
+/**
+ * `buildScenario()` call for the generated `seedScenario()`
+ *
+ * @param fakerSeed - Project faker seed, used when the scenario has none
+ * @param schemasImported - Use the `schemas` imported from the db module
+ */
+export function buildScenarioCall(fakerSeed?: number, schemasImported = false): string {
+  const seed = fakerSeed !== undefined ? `seed: ${fakerSeed}, ` : '';
+  const metadata = schemasImported ? 'schemas' : SCENARIO_SCHEMAS;
+  return `const data = buildScenario(scenario, ${metadata}, { ${seed}factories: scenarioFactories });`;
+}
@@ -80,7 +80,7 @@ export function generateUnifiedSeed(schemas: AnalyzedSchema[], config: SeedConfi
   // Helper to pick random item from array
   code.block('function pickRandom<T>(arr: T[]): T | undefined {', () => {
     code.line('if (arr.length === 0) return undefined;');
-    code.line('return arr[Math.floor(Math.random() * arr.length)];');
+    code.line('return faker.helpers.arrayElement(arr);');
   });
   code.line();
 
@@ -140,7 +140,7 @@ export function generateUnifiedSeed(schemas: AnalyzedSchema[], config: SeedConfi
           for (const fk of fkFields) {
             if (fk.nullable) {
               // Nullable FK: sometimes null, sometimes valid ID
-              code.line(`data.${fk.fieldName} = Math.random() > 0.3 ? pickRandom(ids.${fk.target}) ?? null : null;`);
+              code.line(`data.${fk.fieldName} = faker.datatype.boolean(0.7) ? pickRandom(ids.${fk.target}) ?? null : null;`);
             } else {
               // Required FK: always use valid parent ID
               code.line(`data.${fk.fieldName} = pickRandom(ids.${fk.target})!;`);
@@ -280,7 +280,7 @@ function generateEntityGenerator(code: CodeBuilder, schema: AnalyzedSchema): voi
 function generateFieldValue(code: CodeBuilder, field: AnalyzedField): void {
   // Handle nullable fields
   if (field.nullable) {
-    code.line(`${field.name}: Math.random() > 0.1 ? ${field.fakerCall} : null,`);
+    code.line(`${field.name}: faker.datatype.boolean(0.9) ? ${field.fakerCall} : null,`);
   } else {
     code.line(`${field.name}: ${field.fakerCall},`);
   }
@@ -0,0 +1,113 @@
+/**
+ * Shared soft delete code generation helpers
+ *
+ * Entities defined with `softDelete: true` keep deleted rows with a
+ * `deletedAt` timestamp. Every target applies the same rules: reads see live
+ * rows unless `withDeleted`/`onlyDeleted` is passed, updates only touch live
+ * rows, `delete` sets `deletedAt`, `restore` clears it and `purge` removes
+ * the row for good.
+ *
+ * Server targets read the scope from the `withDeleted`/`onlyDeleted` query
+ * parameters into a `deletedScope` variable ('live' | 'all' | 'deleted')
+ * that the SQL and PostgREST helpers below translate.
+ *
+ * @module cli/generators/shared/soft-delete
+ * @category CLI
+ */
+
+import type { AnalyzedSchema } from '../../types';
+import type { CodeBuilder } from '../../utils/code-builder';
+
+/** SQL condition selecting live rows */
+export const LIVE_ROWS_SQL = '"deletedAt" IS NULL';
+
+/** SQL condition selecting soft-deleted rows */
+export const DELETED_ROWS_SQL = '"deletedAt" IS NOT NULL';
+
+/**
+ * Check if any schema uses soft delete
+ */
+export function hasSoftDelete(schemas: AnalyzedSchema[]): boolean {
+  return schemas.some((s) => s.softDelete);
+}
+
+/**
+ * Generate the `deletedScope` variable from the request's query parameters
+ *
+ * @param code - Code builder
+ * @param readParam - Returns the expression reading a query parameter as a string
+ *
+ * @example
+ * ```typescript
+ * generateDeletedScope(code, (param) => `req.query.${param}`);
+ * // const deletedScope = req.query.onlyDeleted === 'true' ? 'deleted' : ...
+ * ```
+ */
+export function generateDeletedScope(code: CodeBuilder, readParam: (param: string) => string): void {
+  code.line(
+    `const deletedScope = ${readParam('onlyDeleted')} === 'true' ? 'deleted' : ${readParam('withDeleted')} === 'true' ? 'all' : 'live';`
+  );
+}
+
+/**
+ * Generate the `deletedScope` variable from a client's `withDeleted`/`onlyDeleted` options
+ *
+ * @param code - Code builder
+ * @param optionsVar - Name of the (optional) options variable
+ */
+export function generateDeletedScopeFromOptions(code: CodeBuilder, optionsVar = 'options'): void {
+  code.line(`const deletedScope = ${optionsVar}?.onlyDeleted ? 'deleted' : ${optionsVar}?.withDeleted ? 'all' : 'live';`);
+}
+
+/**
+ * Generate the `deletedFilter` SQL condition for the `deletedScope` in scope
+ */
+export function generateSqlDeletedFilter(code: CodeBuilder): void {
+  code.line(
+    `const deletedFilter = deletedScope === 'deleted' ? '${DELETED_ROWS_SQL}' : deletedScope === 'all' ? 'TRUE' : '${LIVE_ROWS_SQL}';`
+  );
+}
+
+/**
+ * Generate PostgREST filters narrowing a `let` query builder to the
+ * `deletedScope` in scope
+ *
+ * @param code - Code builder
+ * @param queryVar - Name of the query builder variable
+ */
+export function generateSupabaseDeletedFilter(code: CodeBuilder, queryVar = 'query'): void {
+  code.line(`if (deletedScope === 'live') ${queryVar} = ${queryVar}.is('deletedAt', null);`);
+  code.line(`if (deletedScope === 'deleted') ${queryVar} = ${queryVar}.not('deletedAt', 'is', null);`);
+}
+
+/** Scope options forwarding `deletedScope` to a generated fetch client */
+export const FETCH_SCOPE_OPTIONS = "withDeleted: deletedScope === 'all', onlyDeleted: deletedScope === 'deleted'";
+
+/**
+ * Firestore query expression narrowing a collection to the `deletedScope`
+ * in scope
+ *
+ * @param collection - Collection reference expression, e.g. `db.collection('users')`
+ */
+export function firestoreScopedCollection(collection: string): string {
+  return (
+    `(deletedScope === 'live' ? ${collection}.where('deletedAt', '==', null)` +
+    ` : deletedScope === 'deleted' ? ${collection}.where('deletedAt', '!=', null) : ${collection})`
+  );
+}
+
+/**
+ * Generate the in-memory scope check used by mock clients
+ *
+ * @param code - Code builder
+ */
+export function generateDeletedScopeMatcher(code: CodeBuilder): void {
+  code.comment('Soft delete: hide deleted rows unless withDeleted/onlyDeleted is passed');
+  code.block(
+    'function inDeletedScope(row: Record<string, unknown>, options?: { withDeleted?: boolean; onlyDeleted?: boolean }): boolean {',
+    () => {
+      code.line('if (options?.onlyDeleted) return row.deletedAt != null;');
+      code.line('return options?.withDeleted === true || row.deletedAt == null;');
+    }
+  );
+}
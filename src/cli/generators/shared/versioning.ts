@@ -0,0 +1,92 @@
+/**
+ * Shared optimistic concurrency code generation helpers
+ *
+ * Entities defined with `versioned: true` carry a `version` integer that
+ * every update increments. Generated clients take the version an edit was
+ * based on as `update(id, input, { expectedVersion })`; server targets read
+ * it from the `If-Match` header, answer 428 when it is missing and 409 with
+ * the current row (`{ error, code: 'CONFLICT', current }`) when it is stale.
+ *
+ * @module cli/generators/shared/versioning
+ * @category CLI
+ */
+
+import type { AnalyzedSchema } from '../../types';
+import type { CodeBuilder } from '../../utils/code-builder';
+
+/** Options type accepted by a generated update() */
+export const UPDATE_OPTIONS_TYPE = '{ expectedVersion?: number }';
+
+/**
+ * Check if any schema uses optimistic concurrency
+ */
+export function hasVersioning(schemas: AnalyzedSchema[]): boolean {
+  return schemas.some((s) => s.versioned);
+}
+
+/**
+ * Extra update() parameter for a versioned schema (empty otherwise)
+ *
+ * @example
+ * ```typescript
+ * code.line(`update: (id: string, input: Types.PostUpdate${updateOptionsParam(schema)}) => ...`);
+ * ```
+ */
+export function updateOptionsParam(schema: AnalyzedSchema): string {
+  return schema.versioned ? `, options?: ${UPDATE_OPTIONS_TYPE}` : '';
+}
+
+/**
+ * Generate the ConflictError class and createConflictError helper of a
+ * generated client. Expects an `ApiError(message, status, code, operation)`
+ * class to be in scope.
+ */
+export function generateConflictError(code: CodeBuilder): void {
+  code.comment('Update rejected because the row changed since it was read');
+  code.block('export class ConflictError<T = unknown> extends ApiError {', () => {
+    code.comment('The row as currently stored, e.g. for a merge dialog');
+    code.line('readonly current: T;');
+    code.line();
+    code.block('constructor(message: string, current: T, operation: string) {', () => {
+      code.line('super(message, 409, "CONFLICT", operation);');
+      code.line('this.name = "ConflictError";');
+      code.line('this.current = current;');
+    });
+  }, '}');
+  code.line();
+
+  code.comment('Helper to create version conflict error');
+  code.block('function createConflictError<T>(entity: string, current: T, expectedVersion: number): ConflictError<T> {', () => {
+    code.line('return new ConflictError(');
+    code.line('  `${entity} was modified (expected version ${expectedVersion})`,');
+    code.line('  current,');
+    code.line('  `${entity}.update`');
+    code.line(');');
+  });
+  code.line();
+}
+
+/**
+ * Generate the `parseIfMatch()` helper used by server targets. Accepts
+ * `"3"`, `W/"3"` and `3`; returns undefined for a missing or invalid header.
+ */
+export function generateParseIfMatch(code: CodeBuilder): void {
+  code.comment('Read the expected version from an If-Match header');
+  code.block('function parseIfMatch(header: string | null | undefined): number | undefined {', () => {
+    code.line('const version = Number(header?.replace(/^W\\//, \'\').replace(/"/g, \'\'));');
+    code.line('return header && Number.isInteger(version) ? version : undefined;');
+  });
+}
+
+/** Body of the 428 response sent when a versioned update has no If-Match */
+export const PRECONDITION_REQUIRED_BODY = "{ error: 'If-Match header with the expected version is required', code: 'PRECONDITION_REQUIRED' }";
+
+/**
+ * Body of the 409 response for a stale update
+ *
+ * @param currentExpr - Expression for the current row
+ */
+export function conflictBody(currentExpr: string): string {
+  const current = currentExpr === 'current' ? 'current' : `current: ${currentExpr}`;
+  return `{ error: 'Version conflict', code: 'CONFLICT', ${current} }`;
+}
@@ -0,0 +1,175 @@
+/**
+ * Shared view resolver code generation
+ *
+ * Server targets resolve views with the same backend client as their entity
+ * routes. Computed fields run against the mock database in the view schema,
+ * so they are left as TODOs on the server.
+ *
+ * @module cli/generators/shared/views
+ * @category CLI
+ */
+
+import type { AnalyzedView, AnalyzedViewEmbed, AnalyzedViewField } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+
+/**
+ * Backends with generated view resolvers
+ */
+export type ViewBackend = 'supabase' | 'pglite';
+
+/**
+ * Options for the view resolver module
+ */
+export interface ViewResolverOptions {
+  /** Backend client used for the queries */
+  backend: ViewBackend;
+  /** Module specifier the backend client is imported from */
+  dbImport: string;
+  /** Module specifier the generated types are imported from */
+  typesImport: string;
+}
+
+/**
+ * Check if view resolvers can be generated for a backend
+ *
+ * @param backend - Target backend
+ * @returns True for supabase and pglite
+ */
+export function isViewBackend(backend: string): backend is ViewBackend {
+  return backend === 'supabase' || backend === 'pglite';
+}
+
+/**
+ * Get the query string parameters of a view (params not in the path)
+ *
+ * @param view - Analyzed view
+ * @returns Parameter names
+ */
+export function getViewQueryParams(view: AnalyzedView): string[] {
+  return view.params.filter((p) => !view.pathParams.includes(p));
+}
+
+/**
+ * Generate the view resolver module for a server target
+ *
+ * Exports one `resolve<View>View(params)` function per view, returning null
+ * when the root record does not exist.
+ *
+ * @param views - Analyzed views
+ * @param options - Backend and import paths
+ * @returns Generated TypeScript code
+ */
+export function generateViewResolvers(views: AnalyzedView[], options: ViewResolverOptions): string {
+  const code = new CodeBuilder();
+  const client = options.backend === 'supabase' ? 'supabase' : 'db';
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.comment('Resolvers for views defined with defineView()');
+  code.line();
+  code.line(`import { ${client} } from '${options.dbImport}';`);
+  code.line(`import type * as Types from '${options.typesImport}';`);
+  code.line();
+
+  for (const view of views) {
+    const { pascalName, root } = view;
+    const returnType = root ? `Types.${pascalName}View | null` : `Types.${pascalName}View`;
+
+    code.multiDocComment([
+      `Resolve GET ${view.endpoint}`,
+      '',
+      root ? `@returns The view, or null when the ${root.entity} does not exist` : '@returns The view',
+    ]);
+    code.block(`export async function resolve${pascalName}View(params: Types.${pascalName}ViewParams): Promise<${returnType}> {`, () => {
+      if (root) {
+        if (options.backend === 'supabase') {
+          code.line('const { data: root, error } = await supabase');
+          code.line(`  .from('${root.tableName}')`);
+          code.line("  .select('*')");
+          code.line(`  .eq('id', params.${root.keyParam})`);
+          code.line('  .maybeSingle();');
+          code.line('if (error) throw new Error(error.message);');
+        } else {
+          code.line(`const rootResult = await db.query<Types.${root.pascalName}>('SELECT * FROM ${root.tableName} WHERE id = $1', [params.${root.keyParam}]);`);
+          code.line('const root = rootResult.rows[0];');
+        }
+        code.line('if (!root) return null;');
+        code.line();
+      }
+      code.line('const view: Record<string, unknown> = {};');
+      generateFieldAssignments(code, options.backend, 'view', view.fields);
+      code.line();
+      code.line(`return view as unknown as Types.${pascalName}View;`);
+    });
+    code.line();
+  }
+
+  return code.toString();
+}
+
+/**
+ * Assign each field to the object held in `target`
+ */
+function generateFieldAssignments(code: CodeBuilder, backend: ViewBackend, target: string, fields: AnalyzedViewField[]): void {
+  for (const field of fields) {
+    const lhs = `${target}.${field.name}`;
+
+    if (field.kind === 'field') {
+      code.line(`${lhs} = ${field.source === 'root' ? 'root' : 'params'}.${field.name};`);
+    } else if (field.kind === 'computed') {
+      code.line(`// TODO: compute '${field.name}' (its resolve() function only runs against the mock database)`);
+      code.line(`${lhs} = null;`);
+    } else if (field.kind === 'object' && field.fields) {
+      const nested = target + field.name.charAt(0).toUpperCase() + field.name.slice(1);
+      code.line(`const ${nested}: Record<string, unknown> = {};`);
+      code.line(`${lhs} = ${nested};`);
+      generateFieldAssignments(code, backend, nested, field.fields);
+    } else if (field.embed) {
+      if (backend === 'supabase') {
+        generateSupabaseEmbed(code, lhs, field.name, field.embed);
+      } else {
+        generatePgliteEmbed(code, lhs, field.name, field.embed);
+      }
+    }
+  }
+}
+
+/**
+ * Generate a PostgREST query for an embed
+ */
+function generateSupabaseEmbed(code: CodeBuilder, lhs: string, name: string, embed: AnalyzedViewEmbed): void {
+  const { tableName, isArray, foreignKey, localKey, select, orderBy, limit } = embed;
+
+  const chain = [
+    `.from('${tableName}')`,
+    `.select('${select ? select.join(', ') : '*'}')`,
+    `.eq('${foreignKey}', root.${localKey})`,
+    ...orderBy.map(({ field, direction }) => `.order('${field}', { ascending: ${direction === 'asc'} })`),
+  ];
+  if (isArray) {
+    if (limit !== undefined) chain.push(`.limit(${limit})`);
+  } else {
+    chain.push('.limit(1)', '.maybeSingle()');
+  }
+
+  code.line(`const ${name}Result = await supabase`);
+  chain.forEach((call, i) => code.line(`  ${call}${i === chain.length - 1 ? ';' : ''}`));
+  code.line(`if (${name}Result.error) throw new Error(${name}Result.error.message);`);
+  code.line(`${lhs} = ${name}Result.data${isArray ? ' ?? []' : ''};`);
+}
+
+/**
+ * Generate a SQL query for an embed
+ */
+function generatePgliteEmbed(code: CodeBuilder, lhs: string, name: string, embed: AnalyzedViewEmbed): void {
+  const { tableName, isArray, foreignKey, localKey, select, orderBy, limit } = embed;
+
+  let sql = `SELECT ${select ? select.map((f) => `"${f}"`).join(', ') : '*'} FROM ${tableName} WHERE "${foreignKey}" = $1`;
+  if (orderBy.length > 0) {
+    sql += ` ORDER BY ${orderBy.map((o) => `"${o.field}" ${o.direction.toUpperCase()}`).join(', ')}`;
+  }
+  const take = isArray ? limit : 1;
+  if (take !== undefined) sql += ` LIMIT ${take}`;
+
+  code.line(`const ${name}Result = await db.query<Record<string, unknown>>('${sql}', [root.${localKey}]);`);
+  code.line(`${lhs} = ${name}Result.rows${isArray ? '' : '[0] ?? null'};`);
+}
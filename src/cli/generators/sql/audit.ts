@@ -0,0 +1,30 @@
+/**
+ * Audit events table generator
+ *
+ * @module cli/generators/sql/audit
+ * @category CLI
+ */
+
+import type { GenerateSQLOptions } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { auditTableSql } from '../../../security/audit-sql';
+
+/**
+ * Generate the `audit_events` table used by SqlAuditStore
+ *
+ * On Supabase the table gets RLS with no policies, so clients cannot read or
+ * write the log; only the service role can.
+ */
+export function generateAuditTable(target: GenerateSQLOptions['target'] = 'postgres'): string {
+  const code = new CodeBuilder();
+
+  code.raw('-- ============================================================================');
+  code.raw('-- Audit Log');
+  code.raw('-- Generated by Schemock');
+  code.raw('-- ============================================================================');
+  code.raw('');
+  code.raw('-- Table: audit_events (append-only, written by SqlAuditStore)');
+  code.raw(auditTableSql({ rls: target === 'supabase' }));
+
+  return code.toString();
+}
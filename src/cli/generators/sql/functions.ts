@@ -46,13 +46,24 @@ export function generateFunctions(schemas: AnalyzedSchema[]): string {
  * Generate a single CREATE FUNCTION statement
  */
 function generateFunction(code: CodeBuilder, rpc: AnalyzedRPC): void {
-  const funcName = toSnakeCase(rpc.name);
-
   // Add description as comment
   if (rpc.description) {
     code.raw(`-- ${rpc.description}`);
   }
 
+  for (const line of functionToSql(rpc)) {
+    code.raw(line);
+  }
+  code.raw('');
+}
+
+/**
+ * Build the CREATE OR REPLACE FUNCTION statement for an RPC, one entry per line
+ */
+export function functionToSql(rpc: AnalyzedRPC): string[] {
+  const funcName = toSnakeCase(rpc.name);
+  const lines: string[] = [];
+
   // Build argument list
   const args = rpc.args.map((arg) => {
     let argDef = `${arg.name} ${arg.pgType}`;
@@ -65,12 +76,12 @@ function generateFunction(code: CodeBuilder, rpc: AnalyzedRPC): void {
   const argList = args.length > 0 ? args.join(', ') : '';
 
   // Start function definition
-  code.raw(`CREATE OR REPLACE FUNCTION ${funcName}(${argList})`);
-  code.raw(`RETURNS ${rpc.pgReturns}`);
-  code.raw(`LANGUAGE ${rpc.language}`);
-  code.raw(rpc.volatility.toUpperCase());
-  code.raw(`SECURITY ${rpc.security.toUpperCase()}`);
-  code.raw('AS $$');
+  lines.push(`CREATE OR REPLACE FUNCTION ${funcName}(${argList})`);
+  lines.push(`RETURNS ${rpc.pgReturns}`);
+  lines.push(`LANGUAGE ${rpc.language}`);
+  lines.push(rpc.volatility.toUpperCase());
+  lines.push(`SECURITY ${rpc.security.toUpperCase()}`);
+  lines.push('AS $$');
 
   // Function body
   const sqlBody = rpc.sql.trim();
@@ -78,19 +89,19 @@ function generateFunction(code: CodeBuilder, rpc: AnalyzedRPC): void {
     // PL/pgSQL - body should include DECLARE/BEGIN/END
     if (!sqlBody.toUpperCase().includes('BEGIN')) {
       // Wrap simple SQL in BEGIN/END for plpgsql
-      code.raw('BEGIN');
-      code.raw(`  ${sqlBody}`);
-      code.raw('END;');
+      lines.push('BEGIN');
+      lines.push(`  ${sqlBody}`);
+      lines.push('END;');
     } else {
-      code.raw(sqlBody);
+      lines.push(sqlBody);
     }
   } else {
     // Plain SQL
-    code.raw(`  ${sqlBody}`);
+    lines.push(`  ${sqlBody}`);
   }
 
-  code.raw('$$;');
-  code.raw('');
+  lines.push('$$;');
+  return lines;
 }
 
 /**
@@ -12,13 +12,18 @@ import { generateTables, generateForeignKeys, generateTriggers } from './tables'
 import { generateIndexes, countIndexes, getIndexSummary } from './indexes';
 import { generateRLSPolicies, countRLSPolicies, getRLSSummary } from './rls';
 import { generateFunctions, countFunctions, getFunctionSummary } from './functions';
+import { generateAuditTable } from './audit';
 
 // Re-export individual generators
 export { generateTables, generateForeignKeys, generateTriggers } from './tables';
-export { generateIndexes, countIndexes, getIndexSummary } from './indexes';
-export { generateRLSPolicies, countRLSPolicies, getRLSSummary } from './rls';
-export { generateFunctions, countFunctions, getFunctionSummary } from './functions';
+export { generateIndexes, countIndexes, getIndexSummary, indexToSql } from './indexes';
+export { generateRLSPolicies, countRLSPolicies, getRLSSummary, buildRLSPolicies, policyToSql } from './rls';
+export type { RLSPolicyDefinition } from './rls';
+export { generateFunctions, countFunctions, getFunctionSummary, functionToSql } from './functions';
+export { generateAuditTable } from './audit';
 export { fieldToPgType, fieldToPgColumn, PG_TYPE_MAP } from './pg-types';
+export { createSchemaSnapshot, createEmptySnapshot, parseSchemaSnapshot, SNAPSHOT_VERSION } from './snapshot';
+export { generateMigration, diffSchemaSnapshots, parseMigrationRenames } from './migration';
 
 /**
  * Generate all SQL files
@@ -37,6 +42,8 @@ export function generateSQL(
   const includeRLS = !only || only.includes('rls');
   const includeFunctions = !only || only.includes('functions');
   const includeTriggers = !only || only.includes('triggers');
+  // Opt-in: only with --audit or --only audit
+  const includeAudit = only ? only.includes('audit') : !!options.audit;
 
   // Generate individual sections
   const tables = includeTables ? generateTables(schemas) : '';
@@ -45,6 +52,7 @@ export function generateSQL(
   const rls = includeRLS ? generateRLSPolicies(schemas, target) : '';
   const functions = includeFunctions ? generateFunctions(schemas) : '';
   const triggers = includeTriggers ? generateTriggers(schemas) : '';
+  const audit = includeAudit ? generateAuditTable(target) : '';
 
   // Count totals for summary
   const fkCount = schemas.reduce((sum, s) => {
@@ -71,6 +79,7 @@ export function generateSQL(
       rls,
       functions,
       triggers,
+      audit,
     });
 
     return { combined, summary };
@@ -84,6 +93,7 @@ export function generateSQL(
         rls,
         functions,
         triggers,
+        audit,
       },
       summary,
     };
@@ -100,6 +110,7 @@ function generateCombinedSQL(sections: {
   rls: string;
   functions: string;
   triggers: string;
+  audit: string;
 }): string {
   const parts: string[] = [
     '-- ============================================================================',
@@ -114,6 +125,7 @@ function generateCombinedSQL(sections: {
     '-- - Row-Level Security (RLS) policies',
     '-- - Stored procedures (RPC functions)',
     '-- - Triggers',
+    '-- - Audit log table (with --audit)',
     '',
     '-- To apply this schema:',
     '-- psql -d your_database -f schema.sql',
@@ -156,6 +168,11 @@ function generateCombinedSQL(sections: {
     parts.push('');
   }
 
+  if (sections.audit.trim()) {
+    parts.push(sections.audit);
+    parts.push('');
+  }
+
   parts.push('\\echo \'Schema creation complete!\'');
   parts.push('');
 
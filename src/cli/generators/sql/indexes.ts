@@ -47,6 +47,18 @@ export function generateIndexes(schemas: AnalyzedSchema[]): string {
  * Generate a single CREATE INDEX statement
  */
 function generateIndex(code: CodeBuilder, index: AnalyzedIndex): void {
+  code.raw(indexToSql(index));
+
+  // Add comment for auto-generated indexes
+  if (index.autoGenerated) {
+    code.raw(`  -- Auto-generated for ${index.fields.length > 1 ? 'composite' : index.fields[0].includes('Id') ? 'foreign key' : 'unique field'}`);
+  }
+}
+
+/**
+ * Build the CREATE INDEX statement for an index
+ */
+export function indexToSql(index: AnalyzedIndex): string {
   const parts: string[] = [];
 
   // CREATE [UNIQUE] INDEX [CONCURRENTLY]
@@ -86,12 +98,7 @@ function generateIndex(code: CodeBuilder, index: AnalyzedIndex): void {
     parts.push(`WHERE ${index.where}`);
   }
 
-  code.raw(parts.join(' ') + ';');
-
-  // Add comment for auto-generated indexes
-  if (index.autoGenerated) {
-    code.raw(`  -- Auto-generated for ${index.fields.length > 1 ? 'composite' : index.fields[0].includes('Id') ? 'foreign key' : 'unique field'}`);
-  }
+  return parts.join(' ') + ';';
 }
 
 /**
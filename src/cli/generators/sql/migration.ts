@@ -0,0 +1,623 @@
+/**
+ * SQL migration generator
+ *
+ * Diffs two schema snapshots and emits ordered up/down migrations.
+ * The down migration is the diff in the opposite direction, so every
+ * change the up migration makes is reverted in reverse order. Steps that
+ * can lose data or fail against existing rows are flagged with a
+ * `REVIEW` comment.
+ *
+ * @module cli/generators/sql/migration
+ * @category CLI
+ */
+
+import type {
+  SchemaSnapshot,
+  SnapshotTable,
+  SnapshotColumn,
+  SnapshotForeignKey,
+  SnapshotFunction,
+  MigrationRenames,
+  MigrationStep,
+  MigrationResult,
+} from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { policyToSql } from './rls';
+
+/**
+ * Execution order of migration steps. Dependent objects (policies, foreign
+ * keys, indexes, functions) are dropped before the tables and columns they
+ * reference change, and recreated afterwards.
+ */
+const PHASES = [
+  'dropPolicies',
+  'disableRLS',
+  'dropForeignKeys',
+  'dropIndexes',
+  'dropFunctions',
+  'dropTriggers',
+  'renameTables',
+  'createTables',
+  'renameColumns',
+  'addColumns',
+  'alterColumns',
+  'dropColumns',
+  'dropTables',
+  'addForeignKeys',
+  'createIndexes',
+  'createTriggers',
+  'enableRLS',
+  'createPolicies',
+  'createFunctions',
+] as const;
+
+type Phase = (typeof PHASES)[number];
+type Plan = Record<Phase, MigrationStep[]>;
+
+/**
+ * Generate up and down migrations between two snapshots
+ *
+ * @param from - Snapshot of the currently deployed schema
+ * @param to - Snapshot of the current schema definitions
+ * @param options - Migration name and renames to apply instead of drop + add
+ * @returns Up/down SQL and the up steps
+ * @throws Error if a rename refers to a table or column that does not exist
+ *
+ * @example
+ * ```typescript
+ * const result = generateMigration(previous, createSchemaSnapshot(analyzed), {
+ *   name: 'rename_full_name',
+ *   renames: { columns: { 'users.fullName': 'name' } },
+ * });
+ * ```
+ */
+export function generateMigration(
+  from: SchemaSnapshot,
+  to: SchemaSnapshot,
+  options: { name?: string; renames?: MigrationRenames } = {}
+): MigrationResult {
+  const renames = options.renames ?? {};
+  const name = options.name ?? 'migration';
+
+  const steps = diffSchemaSnapshots(from, to, renames);
+  const downSteps = diffSchemaSnapshots(to, from, invertRenames(renames));
+
+  return {
+    up: renderMigration(`Migration: ${name} (up)`, steps),
+    down: renderMigration(`Migration: ${name} (down)`, downSteps),
+    steps,
+    destructive: steps.filter((s) => s.destructive),
+  };
+}
+
+/**
+ * Compute the ordered steps that turn the `from` schema into the `to` schema
+ *
+ * @param from - Previous snapshot
+ * @param to - Next snapshot
+ * @param renames - Renames to apply instead of drop + add
+ * @returns Migration steps in execution order
+ */
+export function diffSchemaSnapshots(
+  from: SchemaSnapshot,
+  to: SchemaSnapshot,
+  renames: MigrationRenames = {}
+): MigrationStep[] {
+  validateRenames(from, to, renames);
+
+  const plan = Object.fromEntries(PHASES.map((phase) => [phase, []])) as unknown as Plan;
+  const tableRenames = renames.tables ?? {};
+  const nextTables = new Map(to.tables.map((t) => [t.name, t]));
+  const matchedNames = new Set<string>();
+
+  for (const prev of from.tables) {
+    const next = nextTables.get(tableRenames[prev.name] ?? prev.name);
+    if (next) {
+      matchedNames.add(next.name);
+      diffTable(plan, prev, next, renames);
+    } else {
+      dropTable(plan, prev);
+    }
+  }
+
+  for (const next of to.tables) {
+    if (!matchedNames.has(next.name)) createTable(plan, next);
+  }
+
+  diffFunctions(plan, from.functions, to.functions);
+
+  if (plan.createTriggers.length > 0) {
+    plan.createTriggers.unshift(step('Create updated_at trigger function', UPDATED_AT_FUNCTION));
+  }
+
+  return PHASES.flatMap((phase) => plan[phase]);
+}
+
+/**
+ * Parse `--rename` arguments ("old_table=new_table", "table.old_column=new_column")
+ *
+ * @throws Error for arguments without "="
+ */
+export function parseMigrationRenames(args: string[]): MigrationRenames {
+  const renames: Required<MigrationRenames> = { tables: {}, columns: {} };
+
+  for (const arg of args) {
+    const [source, target, ...rest] = arg.split('=').map((part) => part.trim());
+    if (!source || !target || rest.length > 0) {
+      throw new Error(`Invalid rename "${arg}" (expected old=new or table.old=new)`);
+    }
+    if (source.includes('.')) {
+      renames.columns[source] = target;
+    } else {
+      renames.tables[source] = target;
+    }
+  }
+
+  return renames;
+}
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+function createTable(plan: Plan, table: SnapshotTable): void {
+  plan.createTables.push(
+    step(`Create table "${table.name}"`, [
+      `CREATE TABLE IF NOT EXISTS "${table.name}" (`,
+      table.columns.map((column) => `  ${columnToSql(column)}`).join(',\n'),
+      ');',
+    ])
+  );
+
+  for (const fk of table.foreignKeys) {
+    plan.addForeignKeys.push(addForeignKey(table.name, fk));
+  }
+  for (const index of table.indexes) {
+    plan.createIndexes.push(step(`Create index "${index.name}"`, index.sql));
+  }
+  if (table.timestamps) {
+    plan.createTriggers.push(createTrigger(table.name));
+  }
+  if (table.rls) {
+    plan.enableRLS.push(enableRLS(table.name));
+  }
+  for (const policy of table.policies) {
+    plan.createPolicies.push(createPolicy(table.name, policy));
+  }
+}
+
+function dropTable(plan: Plan, table: SnapshotTable): void {
+  // Drop outgoing foreign keys first so dropped tables can be removed in any order
+  for (const fk of table.foreignKeys) {
+    plan.dropForeignKeys.push(dropForeignKey(table.name, fk));
+  }
+
+  plan.dropTables.push(
+    reviewStep(`Drop table "${table.name}"`, `DROP TABLE IF EXISTS "${table.name}";`, 'Deletes the table and all of its rows')
+  );
+}
+
+function diffTable(plan: Plan, prev: SnapshotTable, next: SnapshotTable, renames: MigrationRenames): void {
+  if (prev.name !== next.name) {
+    plan.renameTables.push(step(`Rename table "${prev.name}" to "${next.name}"`, `ALTER TABLE "${prev.name}" RENAME TO "${next.name}";`));
+    if (prev.timestamps && next.timestamps) {
+      plan.renameTables.push(
+        step(
+          `Rename updated_at trigger of "${next.name}"`,
+          `ALTER TRIGGER "${triggerName(prev.name)}" ON "${next.name}" RENAME TO "${triggerName(next.name)}";`
+        )
+      );
+    }
+  }
+
+  diffColumns(plan, prev, next, renames.columns ?? {});
+  diffForeignKeys(plan, prev, next, renames);
+
+  // Indexes
+  const prevIndexes = new Map(prev.indexes.map((index) => [index.name, index]));
+  const nextIndexes = new Map(next.indexes.map((index) => [index.name, index]));
+  for (const index of prev.indexes) {
+    if (nextIndexes.get(index.name)?.sql !== index.sql) {
+      plan.dropIndexes.push(step(`Drop index "${index.name}"`, `DROP INDEX IF EXISTS "${index.name}";`));
+    }
+  }
+  for (const index of next.indexes) {
+    if (prevIndexes.get(index.name)?.sql !== index.sql) {
+      plan.createIndexes.push(step(`Create index "${index.name}"`, index.sql));
+    }
+  }
+
+  // Timestamp trigger
+  if (prev.timestamps && !next.timestamps) {
+    plan.dropTriggers.push(
+      step(`Drop updated_at trigger on "${prev.name}"`, `DROP TRIGGER IF EXISTS "${triggerName(prev.name)}" ON "${prev.name}";`)
+    );
+  } else if (!prev.timestamps && next.timestamps) {
+    plan.createTriggers.push(createTrigger(next.name));
+  }
+
+  // Row-level security
+  if (prev.rls && !next.rls) {
+    plan.disableRLS.push(
+      reviewStep(
+        `Disable row-level security on "${prev.name}"`,
+        [`ALTER TABLE "${prev.name}" NO FORCE ROW LEVEL SECURITY;`, `ALTER TABLE "${prev.name}" DISABLE ROW LEVEL SECURITY;`],
+        'Every role with table privileges can read and write all rows afterwards'
+      )
+    );
+  } else if (!prev.rls && next.rls) {
+    plan.enableRLS.push(enableRLS(next.name));
+  }
+
+  const prevPolicies = new Map(prev.policies.map((policy) => [policy.name, policy]));
+  const nextPolicies = new Map(next.policies.map((policy) => [policy.name, policy]));
+  for (const policy of prev.policies) {
+    if (!samePolicy(policy, nextPolicies.get(policy.name))) {
+      plan.dropPolicies.push(
+        step(`Drop policy "${policy.name}"`, `DROP POLICY IF EXISTS "${policy.name}" ON "${prev.name}";`)
+      );
+    }
+  }
+  for (const policy of next.policies) {
+    if (!samePolicy(policy, prevPolicies.get(policy.name))) {
+      plan.createPolicies.push(createPolicy(next.name, policy));
+    }
+  }
+}
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+function diffColumns(plan: Plan, prev: SnapshotTable, next: SnapshotTable, columnRenames: Record<string, string>): void {
+  const table = next.name;
+  const nextColumns = new Map(next.columns.map((c) => [c.name, c]));
+  const matchedNames = new Set<string>();
+  const dropped: SnapshotColumn[] = [];
+
+  for (const column of prev.columns) {
+    const target = nextColumns.get(columnRenames[`${prev.name}.${column.name}`] ?? column.name);
+    if (!target) {
+      dropped.push(column);
+      continue;
+    }
+    matchedNames.add(target.name);
+
+    if (column.name !== target.name) {
+      plan.renameColumns.push(
+        step(
+          `Rename column "${table}"."${column.name}" to "${target.name}"`,
+          `ALTER TABLE "${table}" RENAME COLUMN "${column.name}" TO "${target.name}";`
+        )
+      );
+    }
+
+    // Implicit UNIQUE/CHECK constraint names embed the table and column names
+    for (const [kind, present] of [['key', column.unique], ['check', column.check !== undefined]] as const) {
+      const prevName = `${prev.name}_${column.name}_${kind}`;
+      const nextName = `${table}_${target.name}_${kind}`;
+      if (present && prevName !== nextName) {
+        plan.renameColumns.push(
+          step(`Rename constraint "${prevName}"`, `ALTER TABLE "${table}" RENAME CONSTRAINT "${prevName}" TO "${nextName}";`)
+        );
+      }
+    }
+
+    diffColumn(plan, table, column, target);
+  }
+
+  const added = next.columns.filter((c) => !matchedNames.has(c.name));
+
+  for (const column of added) {
+    const sql = `ALTER TABLE "${table}" ADD COLUMN ${columnToSql(column)};`;
+    if (!column.nullable && !column.primaryKey && column.default === undefined) {
+      plan.addColumns.push(
+        reviewStep(
+          `Add column "${table}"."${column.name}"`,
+          sql,
+          'NOT NULL without a default fails if the table has rows; add a default or backfill first'
+        )
+      );
+    } else {
+      plan.addColumns.push(step(`Add column "${table}"."${column.name}"`, sql));
+    }
+  }
+
+  for (const column of dropped) {
+    // A single dropped/added pair of the same type is probably a rename
+    const candidates = added.filter((c) => c.type === column.type);
+    const hint = dropped.length === 1 && candidates.length === 1
+      ? `; if it was renamed to "${candidates[0].name}", pass --rename ${prev.name}.${column.name}=${candidates[0].name}`
+      : '';
+    plan.dropColumns.push(
+      reviewStep(
+        `Drop column "${table}"."${column.name}"`,
+        `ALTER TABLE "${table}" DROP COLUMN IF EXISTS "${column.name}";`,
+        `Deletes the column and its data${hint}`
+      )
+    );
+  }
+}
+
+function diffColumn(plan: Plan, table: string, prev: SnapshotColumn, next: SnapshotColumn): void {
+  const column = `"${table}"."${next.name}"`;
+  const alter = `ALTER TABLE "${table}" ALTER COLUMN "${next.name}"`;
+  const checkName = `${table}_${next.name}_check`;
+  // CHECK expressions reference the column, which Postgres renames along with it
+  const prevCheck = prev.check?.split(`"${prev.name}"`).join(`"${next.name}"`);
+  const checkChanged = prevCheck !== next.check;
+  const typeChanged = prev.type !== next.type;
+  const defaultChanged = prev.default !== next.default;
+
+  if (checkChanged && prevCheck !== undefined) {
+    plan.alterColumns.push(
+      step(`Drop check constraint on ${column}`, `ALTER TABLE "${table}" DROP CONSTRAINT IF EXISTS "${checkName}";`)
+    );
+  }
+
+  // The old default must go before a type change, since it may not cast to the new type
+  if (prev.default !== undefined && (next.default === undefined || (defaultChanged && typeChanged))) {
+    plan.alterColumns.push(step(`Drop default of ${column}`, `${alter} DROP DEFAULT;`));
+  }
+
+  if (typeChanged) {
+    plan.alterColumns.push(
+      reviewStep(
+        `Change type of ${column} from ${prev.type} to ${next.type}`,
+        `${alter} TYPE ${next.type} USING "${next.name}"::${next.type};`,
+        'Existing values are converted and may be truncated or fail to convert'
+      )
+    );
+  }
+
+  if (prev.nullable && !next.nullable && !next.primaryKey) {
+    plan.alterColumns.push(
+      reviewStep(`Make ${column} NOT NULL`, `${alter} SET NOT NULL;`, 'Fails if existing rows contain NULL; backfill first')
+    );
+  } else if (!prev.nullable && next.nullable && !prev.primaryKey) {
+    plan.alterColumns.push(step(`Make ${column} nullable`, `${alter} DROP NOT NULL;`));
+  }
+
+  if (defaultChanged && next.default !== undefined) {
+    plan.alterColumns.push(step(`Set default of ${column}`, `${alter} SET DEFAULT ${next.default};`));
+  }
+
+  const uniqueName = `${table}_${next.name}_key`;
+  if (!prev.unique && next.unique) {
+    plan.alterColumns.push(
+      reviewStep(
+        `Add unique constraint on ${column}`,
+        `ALTER TABLE "${table}" ADD CONSTRAINT "${uniqueName}" UNIQUE ("${next.name}");`,
+        'Fails if existing rows contain duplicate values'
+      )
+    );
+  } else if (prev.unique && !next.unique) {
+    plan.alterColumns.push(
+      step(`Drop unique constraint on ${column}`, `ALTER TABLE "${table}" DROP CONSTRAINT IF EXISTS "${uniqueName}";`)
+    );
+  }
+
+  if (checkChanged && next.check !== undefined) {
+    plan.alterColumns.push(
+      reviewStep(
+        `Add check constraint on ${column}`,
+        `ALTER TABLE "${table}" ADD CONSTRAINT "${checkName}" CHECK (${next.check});`,
+        'Fails if existing rows hold values outside the new list'
+      )
+    );
+  }
+}
+
+function columnToSql(column: SnapshotColumn): string {
+  const parts = [`"${column.name}"`, column.type];
+  if (column.primaryKey) {
+    parts.push('PRIMARY KEY');
+  } else if (!column.nullable) {
+    parts.push('NOT NULL');
+  }
+  if (column.unique) parts.push('UNIQUE');
+  if (column.default !== undefined) parts.push(`DEFAULT ${column.default}`);
+  if (column.check) parts.push(`CHECK (${column.check})`);
+  return parts.join(' ');
+}
+
+// ============================================================================
+// Constraints, Triggers and Policies
+// ============================================================================
+
+function diffForeignKeys(plan: Plan, prev: SnapshotTable, next: SnapshotTable, renames: MigrationRenames): void {
+  const tableRenames = renames.tables ?? {};
+  const columnRenames = renames.columns ?? {};
+
+  // Compare in terms of the next schema so renamed tables/columns alone do not recreate constraints
+  const normalize = (fk: SnapshotForeignKey) =>
+    JSON.stringify([
+      columnRenames[`${prev.name}.${fk.column}`] ?? fk.column,
+      tableRenames[fk.references] ?? fk.references,
+      fk.onDelete,
+    ]);
+  const nextKeys = new Map(next.foreignKeys.map((fk) => [fk.name, JSON.stringify([fk.column, fk.references, fk.onDelete])]));
+  const prevKeys = new Map(prev.foreignKeys.map((fk) => [fk.name, normalize(fk)]));
+
+  for (const fk of prev.foreignKeys) {
+    if (nextKeys.get(fk.name) !== normalize(fk)) {
+      plan.dropForeignKeys.push(dropForeignKey(prev.name, fk));
+    }
+  }
+  for (const fk of next.foreignKeys) {
+    if (prevKeys.get(fk.name) !== nextKeys.get(fk.name)) {
+      plan.addForeignKeys.push(addForeignKey(next.name, fk));
+    }
+  }
+}
+
+function addForeignKey(table: string, fk: SnapshotForeignKey): MigrationStep {
+  return reviewStep(
+    `Add foreign key "${fk.name}"`,
+    [
+      `ALTER TABLE "${table}"`,
+      `  ADD CONSTRAINT "${fk.name}"`,
+      `  FOREIGN KEY ("${fk.column}")`,
+      `  REFERENCES "${fk.references}"("id")`,
+      `  ON DELETE ${fk.onDelete};`,
+    ],
+    'Fails if existing rows reference missing records'
+  );
+}
+
+function dropForeignKey(table: string, fk: SnapshotForeignKey): MigrationStep {
+  return step(`Drop foreign key "${fk.name}"`, `ALTER TABLE "${table}" DROP CONSTRAINT IF EXISTS "${fk.name}";`);
+}
+
+const UPDATED_AT_FUNCTION = [
+  'CREATE OR REPLACE FUNCTION update_updated_at_column()',
+  'RETURNS TRIGGER AS $$',
+  'BEGIN',
+  '  NEW.updated_at = NOW();',
+  '  RETURN NEW;',
+  'END;',
+  '$$ LANGUAGE plpgsql;',
+];
+
+function triggerName(table: string): string {
+  return `update_${table}_updated_at`;
+}
+
+function createTrigger(table: string): MigrationStep {
+  return step(`Create updated_at trigger on "${table}"`, [
+    `DROP TRIGGER IF EXISTS "${triggerName(table)}" ON "${table}";`,
+    `CREATE TRIGGER "${triggerName(table)}"`,
+    `  BEFORE UPDATE ON "${table}"`,
+    '  FOR EACH ROW',
+    '  EXECUTE FUNCTION update_updated_at_column();',
+  ]);
+}
+
+function enableRLS(table: string): MigrationStep {
+  return step(`Enable row-level security on "${table}"`, [
+    `ALTER TABLE "${table}" ENABLE ROW LEVEL SECURITY;`,
+    `ALTER TABLE "${table}" FORCE ROW LEVEL SECURITY;`,
+  ]);
+}
+
+function createPolicy(table: string, policy: SnapshotTable['policies'][number]): MigrationStep {
+  return step(
+    `Create policy "${policy.name}"`,
+    policyToSql(table, { ...policy, command: policy.command as 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE', comment: '' })
+  );
+}
+
+function samePolicy(a: SnapshotTable['policies'][number], b?: SnapshotTable['policies'][number]): boolean {
+  return b !== undefined && a.command === b.command && a.using === b.using && a.withCheck === b.withCheck;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+function diffFunctions(plan: Plan, prev: SnapshotFunction[], next: SnapshotFunction[]): void {
+  const prevByName = new Map(prev.map((fn) => [fn.name, fn]));
+  const nextByName = new Map(next.map((fn) => [fn.name, fn]));
+
+  for (const fn of prev) {
+    const target = nextByName.get(fn.name);
+    // CREATE OR REPLACE cannot change the signature or return type
+    if (!target || !sameSignature(fn, target)) {
+      plan.dropFunctions.push(
+        step(`Drop function ${fn.name}`, `DROP FUNCTION IF EXISTS ${fn.name}(${fn.argTypes.join(', ')});`)
+      );
+    }
+  }
+
+  for (const fn of next) {
+    if (prevByName.get(fn.name)?.sql !== fn.sql) {
+      plan.createFunctions.push(step(`Create function ${fn.name}`, fn.sql));
+    }
+  }
+}
+
+function sameSignature(a: SnapshotFunction, b: SnapshotFunction): boolean {
+  return a.returns === b.returns && a.argTypes.join(',') === b.argTypes.join(',');
+}
+
+// ============================================================================
+// Renames and Rendering
+// ============================================================================
+
+function validateRenames(from: SchemaSnapshot, to: SchemaSnapshot, renames: MigrationRenames): void {
+  const prevTables = new Map(from.tables.map((t) => [t.name, t]));
+  const nextTables = new Map(to.tables.map((t) => [t.name, t]));
+
+  for (const [source, target] of Object.entries(renames.tables ?? {})) {
+    if (!prevTables.has(source)) throw new Error(`Cannot rename table "${source}": not in the previous snapshot`);
+    if (!nextTables.has(target)) throw new Error(`Cannot rename table "${source}" to "${target}": not in the current schemas`);
+  }
+
+  for (const [source, target] of Object.entries(renames.columns ?? {})) {
+    const [table, column] = source.split('.');
+    const nextTable = nextTables.get(renames.tables?.[table] ?? table);
+    if (!prevTables.get(table)?.columns.some((c) => c.name === column)) {
+      throw new Error(`Cannot rename column "${source}": not in the previous snapshot`);
+    }
+    if (!nextTable?.columns.some((c) => c.name === target)) {
+      throw new Error(`Cannot rename column "${source}" to "${target}": not in the current schemas`);
+    }
+  }
+}
+
+function invertRenames(renames: MigrationRenames): MigrationRenames {
+  const tables = renames.tables ?? {};
+  const inverted: Required<MigrationRenames> = { tables: {}, columns: {} };
+
+  for (const [source, target] of Object.entries(tables)) {
+    inverted.tables[target] = source;
+  }
+  for (const [source, target] of Object.entries(renames.columns ?? {})) {
+    const [table, column] = source.split('.');
+    inverted.columns[`${tables[table] ?? table}.${target}`] = column;
+  }
+
+  return inverted;
+}
+
+function step(description: string, sql: string | string[]): MigrationStep {
+  return { description, sql: Array.isArray(sql) ? sql : [sql], destructive: false };
+}
+
+function reviewStep(description: string, sql: string | string[], note: string): MigrationStep {
+  return { description, sql: Array.isArray(sql) ? sql : [sql], destructive: true, note };
+}
+
+function renderMigration(title: string, steps: MigrationStep[]): string {
+  const code = new CodeBuilder();
+
+  code.raw('-- ============================================================================');
+  code.raw(`-- ${title}`);
+  code.raw('-- Generated by Schemock');
+  code.raw('-- ============================================================================');
+  code.raw('');
+
+  if (steps.length === 0) {
+    code.raw('-- No changes');
+    return code.toString();
+  }
+
+  const flagged = steps.filter((s) => s.destructive).length;
+  if (flagged > 0) {
+    code.raw(`-- ${flagged} step(s) flagged for review: search for "REVIEW" before applying`);
+    code.raw('');
+  }
+
+  for (const s of steps) {
+    code.raw(`-- ${s.description}`);
+    if (s.destructive) {
+      code.raw(`-- REVIEW: ${s.note}`);
+    }
+    for (const line of s.sql) {
+      code.raw(line);
+    }
+    code.raw('');
+  }
+
+  return code.toString();
+}
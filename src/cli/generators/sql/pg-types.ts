@@ -46,6 +46,7 @@ export const PG_TYPE_MAP: Record<string, string> = {
   money: 'MONEY',
 
   // Binary types
+  bytes: 'BYTEA',
   bytea: 'BYTEA',
   binary: 'BYTEA',
   blob: 'BYTEA',
@@ -104,6 +105,11 @@ export function fieldToPgType(field: AnalyzedField): string {
     return 'UUID';
   }
 
+  // Handle decimals with declared precision/scale
+  if (field.type === 'decimal' && field.precision !== undefined) {
+    return `DECIMAL(${field.precision}, ${field.scale ?? 0})`;
+  }
+
   // Handle string with max length
   if (field.type === 'string' && field.max) {
     return `VARCHAR(${field.max})`;
@@ -171,7 +177,7 @@ export function formatDefaultValue(value: unknown, field: AnalyzedField): string
   }
 
   // Number values
-  if (typeof value === 'number') {
+  if (typeof value === 'number' || typeof value === 'bigint') {
     return String(value);
   }
 
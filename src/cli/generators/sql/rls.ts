@@ -49,6 +49,22 @@ export function generateRLSPolicies(schemas: AnalyzedSchema[], target: 'postgres
   return code.toString();
 }
 
+/**
+ * A single CREATE POLICY statement in structured form
+ */
+export interface RLSPolicyDefinition {
+  /** Policy name */
+  name: string;
+  /** Operation the policy applies to */
+  command: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+  /** Comment emitted above the policy */
+  comment: string;
+  /** USING expression (rows visible to the operation) */
+  using?: string;
+  /** WITH CHECK expression (rows the operation may write) */
+  withCheck?: string;
+}
+
 /**
  * Generate RLS policies for a single schema
  */
@@ -57,9 +73,8 @@ function generateSchemaRLS(
   schema: AnalyzedSchema,
   target: 'postgres' | 'supabase' | 'pglite'
 ): number {
-  const { rls } = schema;
   const tableName = toSnakeCase(schema.tableName);
-  let policyCount = 0;
+  const policies = buildRLSPolicies(schema, target);
 
   code.raw(`-- ----------------------------------------`);
   code.raw(`-- RLS: ${schema.pascalName} (${tableName})`);
@@ -71,12 +86,37 @@ function generateSchemaRLS(
   code.raw(`ALTER TABLE "${tableName}" FORCE ROW LEVEL SECURITY;`);
   code.raw('');
 
+  for (const policy of policies) {
+    code.raw(`-- ${policy.comment}`);
+    for (const line of policyToSql(tableName, policy)) {
+      code.raw(line);
+    }
+    code.raw('');
+  }
+
+  code.raw('');
+  return policies.length;
+}
+
+/**
+ * Build the RLS policies for a schema (custom SQL first, then scope + bypass)
+ */
+export function buildRLSPolicies(
+  schema: AnalyzedSchema,
+  target: 'postgres' | 'supabase' | 'pglite' = 'postgres'
+): RLSPolicyDefinition[] {
+  const { rls } = schema;
+  const tableName = toSnakeCase(schema.tableName);
+  const policies: RLSPolicyDefinition[] = [];
+
+  if (!rls.enabled) return policies;
+
   // Generate policies for each operation
   const operations = [
-    { name: 'SELECT', key: 'select', has: rls.hasSelect, forClause: 'FOR SELECT' },
-    { name: 'INSERT', key: 'insert', has: rls.hasInsert, forClause: 'FOR INSERT' },
-    { name: 'UPDATE', key: 'update', has: rls.hasUpdate, forClause: 'FOR UPDATE' },
-    { name: 'DELETE', key: 'delete', has: rls.hasDelete, forClause: 'FOR DELETE' },
+    { name: 'SELECT', key: 'select', has: rls.hasSelect },
+    { name: 'INSERT', key: 'insert', has: rls.hasInsert },
+    { name: 'UPDATE', key: 'update', has: rls.hasUpdate },
+    { name: 'DELETE', key: 'delete', has: rls.hasDelete },
   ] as const;
 
   for (const op of operations) {
@@ -85,60 +125,52 @@ function generateSchemaRLS(
     // Check for custom SQL first
     const customSql = rls.sql?.[op.key];
     if (customSql) {
-      generateCustomPolicy(code, tableName, op.name, op.key, customSql, op.forClause);
-      policyCount++;
+      policies.push({
+        name: `${tableName}_${op.key}_custom`,
+        command: op.name,
+        comment: `Custom ${op.name} policy`,
+        ...(op.key === 'insert' ? { withCheck: customSql } : { using: customSql }),
+      });
       continue;
     }
 
     // Generate from scope + bypass
     if (rls.scope.length > 0 || rls.bypass.length > 0) {
-      generateScopePolicy(code, tableName, schema.pascalName, op.name, op.key, rls, target, op.forClause);
-      policyCount++;
+      const condition = buildScopeCondition(rls, target);
+      policies.push({
+        name: `${tableName}_${op.key}_policy`,
+        command: op.name,
+        comment: `${op.name} policy: ${rls.scope.map((s) => s.field).join(', ') || 'custom'}`,
+        // UPDATE needs both USING and WITH CHECK
+        using: op.key === 'insert' ? undefined : condition,
+        withCheck: op.key === 'insert' || op.key === 'update' ? condition : undefined,
+      });
     }
   }
 
-  code.raw('');
-  return policyCount;
+  return policies;
 }
 
 /**
- * Generate policy from custom SQL
+ * Build the CREATE POLICY statement for a policy, one entry per line
  */
-function generateCustomPolicy(
-  code: CodeBuilder,
-  tableName: string,
-  opName: string,
-  opKey: string,
-  customSql: string,
-  forClause: string
-): void {
-  const policyName = `${tableName}_${opKey}_custom`;
-
-  code.raw(`-- Custom ${opName} policy`);
-  code.raw(`CREATE POLICY "${policyName}" ON "${tableName}"`);
-  code.raw(`  ${forClause}`);
-
-  if (opKey === 'insert') {
-    code.raw(`  WITH CHECK (${customSql});`);
-  } else {
-    code.raw(`  USING (${customSql});`);
-  }
-  code.raw('');
+export function policyToSql(tableName: string, policy: RLSPolicyDefinition): string[] {
+  const clauses: string[] = [];
+  if (policy.using) clauses.push(`  USING (${policy.using})`);
+  if (policy.withCheck) clauses.push(`  WITH CHECK (${policy.withCheck})`);
+  clauses[clauses.length - 1] += ';';
+
+  return [
+    `CREATE POLICY "${policy.name}" ON "${tableName}"`,
+    `  FOR ${policy.command}`,
+    ...clauses,
+  ];
 }
 
 /**
- * Generate policy from scope mappings and bypass conditions
+ * Build the policy condition from scope mappings and bypass conditions
  */
-function generateScopePolicy(
-  code: CodeBuilder,
-  tableName: string,
-  entityName: string,
-  opName: string,
-  opKey: string,
-  rls: AnalyzedRLS,
-  target: 'postgres' | 'supabase' | 'pglite',
-  forClause: string
-): void {
+function buildScopeCondition(rls: AnalyzedRLS, target: 'postgres' | 'supabase' | 'pglite'): string {
   const conditions: string[] = [];
 
   // Add bypass conditions first (OR logic - any bypass grants full access)
@@ -156,24 +188,7 @@ function generateScopePolicy(
   }
 
   // Combine with OR (bypass OR scope)
-  const finalCondition = conditions.length > 0 ? conditions.join(' OR ') : 'FALSE';
-
-  const policyName = `${tableName}_${opKey}_policy`;
-
-  code.raw(`-- ${opName} policy: ${rls.scope.map((s) => s.field).join(', ') || 'custom'}`);
-  code.raw(`CREATE POLICY "${policyName}" ON "${tableName}"`);
-  code.raw(`  ${forClause}`);
-
-  if (opKey === 'insert') {
-    code.raw(`  WITH CHECK (${finalCondition});`);
-  } else if (opKey === 'update') {
-    // UPDATE needs both USING and WITH CHECK
-    code.raw(`  USING (${finalCondition})`);
-    code.raw(`  WITH CHECK (${finalCondition});`);
-  } else {
-    code.raw(`  USING (${finalCondition});`);
-  }
-  code.raw('');
+  return conditions.length > 0 ? conditions.join(' OR ') : 'FALSE';
 }
 
 /**
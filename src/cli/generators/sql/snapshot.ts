@@ -0,0 +1,149 @@
+/**
+ * Schema snapshots for migration diffing
+ *
+ * A snapshot records the database objects generate:sql would create for a
+ * set of analyzed schemas (columns, constraints, indexes, policies and
+ * functions) in plain JSON, so the next run can diff against it.
+ *
+ * @module cli/generators/sql/snapshot
+ * @category CLI
+ */
+
+import type {
+  AnalyzedSchema,
+  AnalyzedField,
+  SchemaSnapshot,
+  SnapshotColumn,
+  SnapshotTable,
+  SnapshotFunction,
+} from '../../types';
+import { fieldToPgType, formatDefaultValue, escapeSqlString } from './pg-types';
+import { indexToSql } from './indexes';
+import { buildRLSPolicies } from './rls';
+import { functionToSql } from './functions';
+import { toSnakeCase } from '../../utils/pluralize';
+
+/** Current snapshot format version */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Create a snapshot of the database objects generated for the schemas
+ *
+ * @param schemas - Analyzed schemas
+ * @param target - Target platform (affects RLS policy conditions)
+ * @returns Serializable snapshot
+ */
+export function createSchemaSnapshot(
+  schemas: AnalyzedSchema[],
+  target: 'postgres' | 'supabase' | 'pglite' = 'postgres'
+): SchemaSnapshot {
+  const schemaMap = new Map(schemas.map((s) => [s.name, s]));
+  const functions: SnapshotFunction[] = [];
+
+  const tables = schemas.map((schema): SnapshotTable => {
+    const tableName = toSnakeCase(schema.tableName);
+
+    for (const rpc of schema.rpc) {
+      functions.push({
+        name: toSnakeCase(rpc.name),
+        argTypes: rpc.args.map((arg) => arg.pgType),
+        returns: rpc.pgReturns,
+        sql: functionToSql(rpc).join('\n'),
+      });
+    }
+
+    return {
+      name: tableName,
+      entity: schema.name,
+      columns: snapshotColumns(schema),
+      foreignKeys: schema.fields
+        .filter((field) => field.isRef && field.refTarget && schemaMap.has(field.refTarget))
+        .map((field) => ({
+          name: `fk_${tableName}_${toSnakeCase(field.name)}`,
+          column: field.name,
+          references: toSnakeCase(schemaMap.get(field.refTarget!)!.tableName),
+          onDelete: field.nullable ? 'SET NULL' : 'CASCADE',
+        })),
+      indexes: schema.indexes.map((index) => ({ name: index.name, sql: indexToSql(index) })),
+      rls: schema.rls.enabled,
+      policies: buildRLSPolicies(schema, target).map(({ name, command, using, withCheck }) => ({
+        name,
+        command,
+        ...(using ? { using } : {}),
+        ...(withCheck ? { withCheck } : {}),
+      })),
+      timestamps: schema.hasTimestamps,
+    };
+  });
+
+  return { version: SNAPSHOT_VERSION, target, tables, functions };
+}
+
+/**
+ * Create an empty snapshot (the state before the first migration)
+ */
+export function createEmptySnapshot(target: 'postgres' | 'supabase' | 'pglite' = 'postgres'): SchemaSnapshot {
+  return { version: SNAPSHOT_VERSION, target, tables: [], functions: [] };
+}
+
+/**
+ * Parse and validate a snapshot read from disk
+ *
+ * @throws Error if the JSON is not a snapshot of a supported version
+ */
+export function parseSchemaSnapshot(json: string): SchemaSnapshot {
+  const snapshot = JSON.parse(json) as Partial<SchemaSnapshot>;
+  if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.tables) || !Array.isArray(snapshot.functions)) {
+    throw new Error(`Unsupported schema snapshot (expected version ${SNAPSHOT_VERSION})`);
+  }
+  return snapshot as SchemaSnapshot;
+}
+
+/**
+ * Columns in the same order and with the same constraints as generateTables()
+ */
+function snapshotColumns(schema: AnalyzedSchema): SnapshotColumn[] {
+  const timestampFields = ['createdAt', 'updatedAt', 'created_at', 'updated_at'];
+  const columns: SnapshotColumn[] = [];
+
+  for (const field of schema.fields) {
+    if (field.type === 'relation' || field.isComputed) continue;
+    if (schema.hasTimestamps && timestampFields.includes(field.name)) continue;
+    columns.push(snapshotColumn(field));
+  }
+
+  if (schema.hasTimestamps) {
+    for (const name of ['created_at', 'updated_at']) {
+      columns.push({ name, type: 'TIMESTAMPTZ', primaryKey: false, nullable: false, unique: false, default: 'NOW()' });
+    }
+  }
+
+  return columns;
+}
+
+function snapshotColumn(field: AnalyzedField): SnapshotColumn {
+  // fieldToPgType() inlines the primary key for UUID ids
+  if (field.name === 'id' && field.type === 'uuid') {
+    return { name: 'id', type: 'UUID', primaryKey: true, nullable: false, unique: false, default: 'gen_random_uuid()' };
+  }
+
+  const column: SnapshotColumn = {
+    name: field.name,
+    type: fieldToPgType(field),
+    primaryKey: false,
+    nullable: field.name === 'id' || field.nullable,
+    unique: field.unique && field.name !== 'id',
+  };
+
+  if (field.hasDefault && field.defaultValue !== undefined) {
+    const defaultValue = formatDefaultValue(field.defaultValue, field);
+    if (defaultValue !== null) column.default = defaultValue;
+  }
+
+  if (field.isEnum && field.enumValues?.length) {
+    const values = field.enumValues.map((v) => `'${escapeSqlString(v)}'`).join(', ');
+    column.check = `"${field.name}" IN (${values})`;
+  }
+
+  return column;
+}
@@ -57,7 +57,8 @@ function generateTable(code: CodeBuilder, schema: AnalyzedSchema): void {
       continue;
     }
 
-    const columnDef = fieldToPgColumn(field);
+    // Soft-delete tables get partial unique indexes instead (see analyzeIndexes)
+    const columnDef = fieldToPgColumn(schema.softDelete ? { ...field, unique: false } : field);
     columns.push(`  ${columnDef}`);
   }
 
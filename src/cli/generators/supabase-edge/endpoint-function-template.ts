@@ -20,7 +20,7 @@ import {
  * Build a regex pattern for matching a path with params.
  * e.g., /api/users/:id/posts -> /api/users/([^/]+)/posts
  */
-function buildPathRegex(path: string): string {
+export function buildPathRegex(path: string): string {
   // First replace :param with placeholder, then escape special chars, then restore
   const withPlaceholders = path.replace(/:(\w+)/g, '___CAPTURE___');
   const escaped = withPlaceholders
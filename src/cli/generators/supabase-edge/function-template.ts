@@ -9,16 +9,30 @@
  */
 
 import type { AnalyzedSchema, GenerationTarget, SchemockConfig } from '../../types';
+import { CodeBuilder } from '../../utils/code-builder';
+import { hasSoftDelete, generateDeletedScope, generateSupabaseDeletedFilter } from '../shared/soft-delete';
+import { hasVersioning, generateParseIfMatch, PRECONDITION_REQUIRED_BODY, conflictBody } from '../shared/versioning';
+import { getLinkRelations, generateJunctionConsts, linkWriteLines } from '../shared/links';
 
 /**
  * Generate an Edge Function file for a single entity
+ *
+ * @param allSchemas - All schemas, to resolve the junction entities of many-to-many relations
  */
 export function generateEdgeFunctionFile(
   schema: AnalyzedSchema,
   target: GenerationTarget,
-  config: SchemockConfig
+  config: SchemockConfig,
+  allSchemas: AnalyzedSchema[] = [schema]
 ): string {
   const hasNewMiddlewareConfig = config.middleware !== undefined;
+  const softDelete = schema.softDelete;
+  const links = getLinkRelations(schema, allSchemas);
+  const body = links.length > 0 ? `{ ${links.map((link) => `${link.relation.name}, `).join('')}...body }` : 'body';
+  const writeLinkLines = (ownerId: string) =>
+    linkWriteLines(schema, links, (junction, rel) => `await writeLinks(supabase, ${junction}, ${ownerId}, ${rel})`).map(
+      (line) => `      ${line}`
+    );
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
     "// Supabase Edge Function for: " + schema.pluralName,
@@ -33,6 +47,15 @@ export function generateEdgeFunctionFile(
     lines.push("import { runMiddlewareChain, type MiddlewareChainContext } from '../_shared/middleware/chain.ts';");
   }
 
+  // Import many-to-many link writer
+  if (links.length > 0) {
+    lines.push("import { writeLinks, type LinkJunction } from '../_shared/links.ts';");
+    lines.push('');
+    const junctions = new CodeBuilder();
+    generateJunctionConsts(junctions, schema, allSchemas);
+    lines.push(junctions.toString());
+  }
+
   lines.push('');
   lines.push('Deno.serve(async (req) => {');
   lines.push('  // Handle CORS preflight');
@@ -58,6 +81,9 @@ export function generateEdgeFunctionFile(
   lines.push('  // Extract ID from path if present');
   lines.push("  const idMatch = pathname.match(/\\/([a-zA-Z0-9-]+)$/);");
   lines.push('  const id = idMatch ? idMatch[1] : null;');
+  if (softDelete) {
+    lines.push("  const restoreMatch = pathname.match(/\\/([a-zA-Z0-9-]+)\\/restore$/);");
+  }
   lines.push('');
   lines.push('  try {');
 
@@ -66,10 +92,16 @@ export function generateEdgeFunctionFile(
   lines.push("      const limit = parseInt(searchParams.get('limit') || '20', 10);");
   lines.push("      const offset = parseInt(searchParams.get('offset') || '0', 10);");
   lines.push('');
-  lines.push(`      const { data, error, count } = await supabase`);
-  lines.push(`        .from('${schema.tableName}')`);
-  lines.push("        .select('*', { count: 'exact' })");
-  lines.push('        .range(offset, offset + limit - 1);');
+  if (softDelete) {
+    lines.push(`      let query = supabase.from('${schema.tableName}').select('*', { count: 'exact' });`);
+    lines.push(generateScopeLines(3));
+    lines.push('      const { data, error, count } = await query.range(offset, offset + limit - 1);');
+  } else {
+    lines.push(`      const { data, error, count } = await supabase`);
+    lines.push(`        .from('${schema.tableName}')`);
+    lines.push("        .select('*', { count: 'exact' })");
+    lines.push('        .range(offset, offset + limit - 1);');
+  }
   lines.push('');
   lines.push('      if (error) {');
   lines.push('        return jsonResponse({ error: error.message }, 500);');
@@ -81,11 +113,17 @@ export function generateEdgeFunctionFile(
 
   // GET single
   lines.push("    if (method === 'GET' && id) {");
-  lines.push(`      const { data, error } = await supabase`);
-  lines.push(`        .from('${schema.tableName}')`);
-  lines.push("        .select('*')");
-  lines.push("        .eq('id', id)");
-  lines.push('        .single();');
+  if (softDelete) {
+    lines.push(`      let query = supabase.from('${schema.tableName}').select('*').eq('id', id);`);
+    lines.push(generateScopeLines(3));
+    lines.push('      const { data, error } = await query.single();');
+  } else {
+    lines.push(`      const { data, error } = await supabase`);
+    lines.push(`        .from('${schema.tableName}')`);
+    lines.push("        .select('*')");
+    lines.push("        .eq('id', id)");
+    lines.push('        .single();');
+  }
   lines.push('');
   lines.push('      if (error) {');
   lines.push("        if (error.code === 'PGRST116') {");
@@ -98,9 +136,32 @@ export function generateEdgeFunctionFile(
   lines.push('    }');
   lines.push('');
 
+  // POST restore
+  if (softDelete) {
+    lines.push("    if (method === 'POST' && restoreMatch) {");
+    lines.push(`      const { data, error } = await supabase`);
+    lines.push(`        .from('${schema.tableName}')`);
+    lines.push('        .update({ deletedAt: null })');
+    lines.push("        .eq('id', restoreMatch[1])");
+    lines.push("        .not('deletedAt', 'is', null)");
+    lines.push('        .select()');
+    lines.push('        .single();');
+    lines.push('');
+    lines.push('      if (error) {');
+    lines.push("        if (error.code === 'PGRST116') {");
+    lines.push("          return jsonResponse({ error: 'Not found' }, 404);");
+    lines.push('        }');
+    lines.push('        return jsonResponse({ error: error.message }, 500);');
+    lines.push('      }');
+    lines.push('');
+    lines.push('      return jsonResponse(data);');
+    lines.push('    }');
+    lines.push('');
+  }
+
   // POST create
   lines.push("    if (method === 'POST') {");
-  lines.push(`      const body = await req.json() as ${schema.pascalName}Create;`);
+  lines.push(`      const ${body} = await req.json() as ${schema.pascalName}Create;`);
   lines.push('');
   lines.push(`      const { data, error } = await supabase`);
   lines.push(`        .from('${schema.tableName}')`);
@@ -112,38 +173,76 @@ export function generateEdgeFunctionFile(
   lines.push('        return jsonResponse({ error: error.message }, 500);');
   lines.push('      }');
   lines.push('');
+  lines.push(...writeLinkLines('data.id'));
   lines.push('      return jsonResponse(data, 201);');
   lines.push('    }');
   lines.push('');
 
   // PUT update
   lines.push("    if (method === 'PUT' && id) {");
-  lines.push(`      const body = await req.json() as ${schema.pascalName}Update;`);
+  lines.push(`      const ${body} = await req.json() as ${schema.pascalName}Update;`);
   lines.push('');
-  lines.push(`      const { data, error } = await supabase`);
-  lines.push(`        .from('${schema.tableName}')`);
-  lines.push('        .update(body)');
-  lines.push("        .eq('id', id)");
-  lines.push('        .select()');
-  lines.push('        .single();');
+  if (schema.versioned) {
+    lines.push("      const expectedVersion = parseIfMatch(req.headers.get('If-Match'));");
+    lines.push('      if (expectedVersion === undefined) {');
+    lines.push(`        return jsonResponse(${PRECONDITION_REQUIRED_BODY}, 428);`);
+    lines.push('      }');
+    lines.push('');
+  }
+  if (links.length > 0 && !schema.versioned) {
+    // A request may only change links, and an empty update is rejected
+    const liveOnly = softDelete ? ".is('deletedAt', null)" : '';
+    lines.push('      const { data, error } = Object.keys(body).length > 0');
+    lines.push(`        ? await supabase.from('${schema.tableName}').update(body).eq('id', id)${liveOnly}.select().single()`);
+    lines.push(`        : await supabase.from('${schema.tableName}').select().eq('id', id)${liveOnly}.single();`);
+  } else {
+    lines.push(`      const { data, error } = await supabase`);
+    lines.push(`        .from('${schema.tableName}')`);
+    lines.push(schema.versioned ? '        .update({ ...body, version: expectedVersion + 1 })' : '        .update(body)');
+    lines.push("        .eq('id', id)");
+    if (softDelete) {
+      lines.push("        .is('deletedAt', null)");
+    }
+    if (schema.versioned) {
+      lines.push("        .eq('version', expectedVersion)");
+    }
+    lines.push('        .select()');
+    lines.push('        .single();');
+  }
   lines.push('');
   lines.push('      if (error) {');
   lines.push("        if (error.code === 'PGRST116') {");
+  if (schema.versioned) {
+    const liveOnly = softDelete ? ".is('deletedAt', null)" : '';
+    lines.push('          // No row matched: tell a stale version apart from a missing row');
+    lines.push(`          const { data: current } = await supabase.from('${schema.tableName}').select().eq('id', id)${liveOnly}.maybeSingle();`);
+    lines.push('          if (current) {');
+    lines.push(`            return jsonResponse(${conflictBody('current')}, 409);`);
+    lines.push('          }');
+  }
   lines.push("          return jsonResponse({ error: 'Not found' }, 404);");
   lines.push('        }');
   lines.push('        return jsonResponse({ error: error.message }, 500);');
   lines.push('      }');
   lines.push('');
+  lines.push(...writeLinkLines('id'));
   lines.push('      return jsonResponse(data);');
   lines.push('    }');
   lines.push('');
 
   // DELETE
   lines.push("    if (method === 'DELETE' && id) {");
-  lines.push(`      const { error } = await supabase`);
-  lines.push(`        .from('${schema.tableName}')`);
-  lines.push('        .delete()');
-  lines.push("        .eq('id', id);");
+  if (softDelete) {
+    lines.push(`      const table = supabase.from('${schema.tableName}');`);
+    lines.push("      const { error } = searchParams.get('purge') === 'true'");
+    lines.push("        ? await table.delete().eq('id', id)");
+    lines.push("        : await table.update({ deletedAt: new Date().toISOString() }).eq('id', id).is('deletedAt', null);");
+  } else {
+    lines.push(`      const { error } = await supabase`);
+    lines.push(`        .from('${schema.tableName}')`);
+    lines.push('        .delete()');
+    lines.push("        .eq('id', id);");
+  }
   lines.push('');
   lines.push('      if (error) {');
   lines.push('        return jsonResponse({ error: error.message }, 500);');
@@ -162,6 +261,12 @@ export function generateEdgeFunctionFile(
   lines.push('});');
   lines.push('');
 
+  if (schema.versioned) {
+    const helper = new CodeBuilder();
+    generateParseIfMatch(helper);
+    lines.push(helper.toString(), '');
+  }
+
   // Helper function
   lines.push('/**');
   lines.push(' * Create a JSON response with CORS headers');
@@ -192,6 +297,8 @@ export function generateFatFunctionFile(
 ): string {
   const hasNewMiddlewareConfig = config.middleware !== undefined;
   const nonJunctionSchemas = schemas.filter(s => !s.isJunctionTable);
+  const anySoftDelete = hasSoftDelete(nonJunctionSchemas);
+  const anyVersioned = hasVersioning(nonJunctionSchemas);
 
   const lines: string[] = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
@@ -222,7 +329,9 @@ export function generateFatFunctionFile(
   lines.push(' */');
   lines.push('const entities = {');
   for (const schema of nonJunctionSchemas) {
-    lines.push(`  '${schema.pluralName}': { table: '${schema.tableName}' },`);
+    const softDeleteFlag = anySoftDelete ? `, softDelete: ${schema.softDelete}` : '';
+    const versionedFlag = anyVersioned ? `, versioned: ${schema.versioned}` : '';
+    lines.push(`  '${schema.pluralName}': { table: '${schema.tableName}'${softDeleteFlag}${versionedFlag} },`);
   }
   lines.push('} as const;');
   lines.push('');
@@ -239,27 +348,36 @@ export function generateFatFunctionFile(
   lines.push('  const { pathname, searchParams } = new URL(url);');
   lines.push('');
   lines.push(`  // Parse route: /${functionName}/[entity]/[id?]`);
-  lines.push(`  const routeMatch = pathname.match(/^\\/${functionName}\\/([a-z]+)(?:\\/([a-zA-Z0-9-]+))?$/);`);
+  if (anySoftDelete) {
+    lines.push(`  // or POST /${functionName}/[entity]/[id]/restore`);
+    lines.push(`  const routeMatch = pathname.match(/^\\/${functionName}\\/([a-z]+)(?:\\/([a-zA-Z0-9-]+))?(\\/restore)?$/);`);
+  } else {
+    lines.push(`  const routeMatch = pathname.match(/^\\/${functionName}\\/([a-z]+)(?:\\/([a-zA-Z0-9-]+))?$/);`);
+  }
   lines.push('  if (!routeMatch) {');
   lines.push("    return jsonResponse({ error: 'Invalid route' }, 404);");
   lines.push('  }');
   lines.push('');
   lines.push('  const entityName = routeMatch[1] as EntityName;');
   lines.push('  const id = routeMatch[2] || null;');
+  if (anySoftDelete) {
+    lines.push('  const restoring = routeMatch[3] !== undefined;');
+  }
   lines.push('');
   lines.push('  // Validate entity');
   lines.push('  if (!(entityName in entities)) {');
   lines.push("    return jsonResponse({ error: `Unknown entity: ${entityName}` }, 404);");
   lines.push('  }');
   lines.push('');
-  lines.push('  const { table } = entities[entityName];');
+  const entityFlags = ['table', ...(anySoftDelete ? ['softDelete'] : []), ...(anyVersioned ? ['versioned'] : [])];
+  lines.push(`  const { ${entityFlags.join(', ')} } = entities[entityName];`);
   lines.push('');
 
   // Add middleware chain call if using new config
   if (hasNewMiddlewareConfig) {
     lines.push('  // Run middleware chain');
     lines.push('  const operation = method === "GET" ? "select"');
-    lines.push('    : method === "POST" ? "insert"');
+    lines.push(anySoftDelete ? '    : method === "POST" ? (restoring ? "update" : "insert")' : '    : method === "POST" ? "insert"');
     lines.push('    : method === "PUT" ? "update"');
     lines.push('    : method === "DELETE" ? "delete"');
     lines.push('    : "select";');
@@ -278,10 +396,18 @@ export function generateFatFunctionFile(
   lines.push("      const limit = parseInt(searchParams.get('limit') || '20', 10);");
   lines.push("      const offset = parseInt(searchParams.get('offset') || '0', 10);");
   lines.push('');
-  lines.push('      const { data, error, count } = await supabase');
-  lines.push('        .from(table)');
-  lines.push("        .select('*', { count: 'exact' })");
-  lines.push('        .range(offset, offset + limit - 1);');
+  if (anySoftDelete) {
+    lines.push("      let query = supabase.from(table).select('*', { count: 'exact' });");
+    lines.push('      if (softDelete) {');
+    lines.push(generateScopeLines(4));
+    lines.push('      }');
+    lines.push('      const { data, error, count } = await query.range(offset, offset + limit - 1);');
+  } else {
+    lines.push('      const { data, error, count } = await supabase');
+    lines.push('        .from(table)');
+    lines.push("        .select('*', { count: 'exact' })");
+    lines.push('        .range(offset, offset + limit - 1);');
+  }
   lines.push('');
   lines.push('      if (error) {');
   lines.push('        return jsonResponse({ error: error.message }, 500);');
@@ -293,11 +419,19 @@ export function generateFatFunctionFile(
 
   // GET single
   lines.push("    if (method === 'GET' && id) {");
-  lines.push('      const { data, error } = await supabase');
-  lines.push('        .from(table)');
-  lines.push("        .select('*')");
-  lines.push("        .eq('id', id)");
-  lines.push('        .single();');
+  if (anySoftDelete) {
+    lines.push("      let query = supabase.from(table).select('*').eq('id', id);");
+    lines.push('      if (softDelete) {');
+    lines.push(generateScopeLines(4));
+    lines.push('      }');
+    lines.push('      const { data, error } = await query.single();');
+  } else {
+    lines.push('      const { data, error } = await supabase');
+    lines.push('        .from(table)');
+    lines.push("        .select('*')");
+    lines.push("        .eq('id', id)");
+    lines.push('        .single();');
+  }
   lines.push('');
   lines.push('      if (error) {');
   lines.push("        if (error.code === 'PGRST116') {");
@@ -310,8 +444,31 @@ export function generateFatFunctionFile(
   lines.push('    }');
   lines.push('');
 
+  // POST restore
+  if (anySoftDelete) {
+    lines.push("    if (method === 'POST' && id && restoring && softDelete) {");
+    lines.push('      const { data, error } = await supabase');
+    lines.push('        .from(table)');
+    lines.push('        .update({ deletedAt: null })');
+    lines.push("        .eq('id', id)");
+    lines.push("        .not('deletedAt', 'is', null)");
+    lines.push('        .select()');
+    lines.push('        .single();');
+    lines.push('');
+    lines.push('      if (error) {');
+    lines.push("        if (error.code === 'PGRST116') {");
+    lines.push("          return jsonResponse({ error: 'Not found' }, 404);");
+    lines.push('        }');
+    lines.push('        return jsonResponse({ error: error.message }, 500);');
+    lines.push('      }');
+    lines.push('');
+    lines.push('      return jsonResponse(data);');
+    lines.push('    }');
+    lines.push('');
+  }
+
   // POST create
-  lines.push("    if (method === 'POST') {");
+  lines.push(anySoftDelete ? "    if (method === 'POST' && !restoring) {" : "    if (method === 'POST') {");
   lines.push('      const body = await req.json();');
   lines.push('');
   lines.push('      const { data, error } = await supabase');
@@ -332,15 +489,43 @@ export function generateFatFunctionFile(
   lines.push("    if (method === 'PUT' && id) {");
   lines.push('      const body = await req.json();');
   lines.push('');
-  lines.push('      const { data, error } = await supabase');
-  lines.push('        .from(table)');
-  lines.push('        .update(body)');
-  lines.push("        .eq('id', id)");
-  lines.push('        .select()');
-  lines.push('        .single();');
+  if (anyVersioned) {
+    lines.push("      const expectedVersion = parseIfMatch(req.headers.get('If-Match'));");
+    lines.push('      if (versioned && expectedVersion === undefined) {');
+    lines.push(`        return jsonResponse(${PRECONDITION_REQUIRED_BODY}, 428);`);
+    lines.push('      }');
+    lines.push('');
+    lines.push("      let query = supabase.from(table).update(versioned ? { ...body, version: expectedVersion! + 1 } : body).eq('id', id);");
+    if (anySoftDelete) {
+      lines.push("      if (softDelete) query = query.is('deletedAt', null);");
+    }
+    lines.push("      if (versioned) query = query.eq('version', expectedVersion!);");
+    lines.push('      const { data, error } = await query.select().single();');
+  } else if (anySoftDelete) {
+    lines.push("      let query = supabase.from(table).update(body).eq('id', id);");
+    lines.push("      if (softDelete) query = query.is('deletedAt', null);");
+    lines.push('      const { data, error } = await query.select().single();');
+  } else {
+    lines.push('      const { data, error } = await supabase');
+    lines.push('        .from(table)');
+    lines.push('        .update(body)');
+    lines.push("        .eq('id', id)");
+    lines.push('        .select()');
+    lines.push('        .single();');
+  }
   lines.push('');
   lines.push('      if (error) {');
   lines.push("        if (error.code === 'PGRST116') {");
+  if (anyVersioned) {
+    lines.push('          if (versioned) {');
+    lines.push("            let lookup = supabase.from(table).select().eq('id', id);");
+    if (anySoftDelete) {
+      lines.push("            if (softDelete) lookup = lookup.is('deletedAt', null);");
+    }
+    lines.push('            const { data: current } = await lookup.maybeSingle();');
+    lines.push(`            if (current) return jsonResponse(${conflictBody('current')}, 409);`);
+    lines.push('          }');
+  }
   lines.push("          return jsonResponse({ error: 'Not found' }, 404);");
   lines.push('        }');
   lines.push('        return jsonResponse({ error: error.message }, 500);');
@@ -352,10 +537,17 @@ export function generateFatFunctionFile(
 
   // DELETE
   lines.push("    if (method === 'DELETE' && id) {");
-  lines.push('      const { error } = await supabase');
-  lines.push('        .from(table)');
-  lines.push('        .delete()');
-  lines.push("        .eq('id', id);");
+  if (anySoftDelete) {
+    lines.push("      const purge = !softDelete || searchParams.get('purge') === 'true';");
+    lines.push('      const { error } = purge');
+    lines.push("        ? await supabase.from(table).delete().eq('id', id)");
+    lines.push("        : await supabase.from(table).update({ deletedAt: new Date().toISOString() }).eq('id', id).is('deletedAt', null);");
+  } else {
+    lines.push('      const { error } = await supabase');
+    lines.push('        .from(table)');
+    lines.push('        .delete()');
+    lines.push("        .eq('id', id);");
+  }
   lines.push('');
   lines.push('      if (error) {');
   lines.push('        return jsonResponse({ error: error.message }, 500);');
@@ -374,6 +566,12 @@ export function generateFatFunctionFile(
   lines.push('});');
   lines.push('');
 
+  if (anyVersioned) {
+    const helper = new CodeBuilder();
+    generateParseIfMatch(helper);
+    lines.push(helper.toString(), '');
+  }
+
   // Helper function
   lines.push('/**');
   lines.push(' * Create a JSON response with CORS headers');
@@ -391,3 +589,17 @@ export function generateFatFunctionFile(
 
   return lines.join('\n');
 }
+
+/**
+ * Generate the soft delete scope read from `searchParams` and the PostgREST
+ * filters applying it to `query`
+ *
+ * @param depth - Indentation level of the emitted lines
+ */
+function generateScopeLines(depth: number): string {
+  const code = new CodeBuilder();
+  for (let i = 0; i < depth; i++) code.indent();
+  generateDeletedScope(code, (param) => `searchParams.get('${param}')`);
+  generateSupabaseDeletedFilter(code);
+  return code.toString();
+}
@@ -13,6 +13,7 @@ import { join } from 'node:path';
 import type {
   AnalyzedSchema,
   AnalyzedEndpoint,
+  AnalyzedView,
   GenerationTarget,
   SchemockConfig,
   GenerateOptions,
@@ -26,6 +27,9 @@ import {
 } from './function-template';
 import { generateEndpointEdgeFunction } from './endpoint-function-template';
 import { generateSeedEdgeFunction } from './seed-function-template';
+import { generateViewEdgeFunction } from './view-function-template';
+import { generateViewResolvers } from '../shared/views';
+import { generateViewTypes } from '../views';
 import { generateAllEndpointInterfaces, deriveEdgeFunctionName } from '../shared/endpoint-helpers';
 import { shouldGenerateSeedHandler } from '../shared/seed-handler-helpers';
 import {
@@ -50,6 +54,7 @@ import {
   normalizeLoggerConfig,
   normalizeCacheConfig,
 } from './middleware-chain-template';
+import { hasLinkRelations, generateLinksModule } from '../shared/links';
 
 /**
  * Generate Supabase Edge Functions for entities
@@ -78,6 +83,7 @@ import {
  * @param options - Generation options
  * @param customMiddleware - Analyzed custom middleware definitions
  * @param endpoints - Analyzed custom endpoints (optional)
+ * @param views - Analyzed views (optional)
  */
 export async function generateSupabaseEdgeTarget(
   allSchemas: AnalyzedSchema[],
@@ -87,7 +93,8 @@ export async function generateSupabaseEdgeTarget(
   config: SchemockConfig,
   options: GenerateOptions,
   customMiddleware: AnalyzedMiddleware[] = [],
-  endpoints: AnalyzedEndpoint[] = []
+  endpoints: AnalyzedEndpoint[] = [],
+  views: AnalyzedView[] = []
 ): Promise<string[]> {
   const files: string[] = [];
 
@@ -132,7 +139,10 @@ export async function generateSupabaseEdgeTarget(
   console.log('   ✓ _shared/supabase.ts');
 
   // Generate TypeScript types
-  const typesCode = generateTypes(allSchemas);
+  let typesCode = generateTypes(allSchemas);
+  if (views.length > 0) {
+    typesCode += generateViewTypes(views);
+  }
   const sharedTypesCode = generateSharedTypes(typesCode);
   await writeOutput(join(sharedDir, 'types.ts'), sharedTypesCode, options.dryRun);
   files.push('_shared/types.ts');
@@ -179,6 +189,13 @@ export async function generateSupabaseEdgeTarget(
     files.push(`${functionName}/index.ts`);
     console.log(`   ✓ ${functionName}/index.ts (fat function for ${targetSchemas.length} entities)`);
   } else {
+    // Junction writers for many-to-many links
+    if (hasLinkRelations(targetSchemas, allSchemas)) {
+      await writeOutput(join(sharedDir, 'links.ts'), generateLinksModule('supabase'), options.dryRun);
+      files.push('_shared/links.ts');
+      console.log('   ✓ _shared/links.ts');
+    }
+
     // Generate separate functions for each entity
     for (const schema of targetSchemas) {
       if (schema.isJunctionTable) continue;
@@ -189,7 +206,7 @@ export async function generateSupabaseEdgeTarget(
         await mkdir(functionDir, { recursive: true });
       }
 
-      const functionCode = generateEdgeFunctionFile(schema, target, config);
+      const functionCode = generateEdgeFunctionFile(schema, target, config, allSchemas);
       await writeOutput(join(functionDir, 'index.ts'), functionCode, options.dryRun);
       files.push(`${functionName}/index.ts`);
       console.log(`   ✓ ${functionName}/index.ts`);
@@ -219,6 +236,31 @@ export async function generateSupabaseEdgeTarget(
     }
   }
 
+  // Generate view edge functions
+  if (views.length > 0) {
+    const resolversCode = generateViewResolvers(views, {
+      backend: 'supabase',
+      dbImport: './supabase.ts',
+      typesImport: './types.ts',
+    });
+    await writeOutput(join(sharedDir, 'views.ts'), resolversCode, options.dryRun);
+    files.push('_shared/views.ts');
+    console.log('   ✓ _shared/views.ts');
+
+    for (const view of views) {
+      const functionName = deriveEdgeFunctionName(view.endpoint);
+      const functionDir = join(outputDir, functionName);
+      if (!options.dryRun) {
+        await mkdir(functionDir, { recursive: true });
+      }
+
+      const functionCode = generateViewEdgeFunction(view, config);
+      await writeOutput(join(functionDir, 'index.ts'), functionCode, options.dryRun);
+      files.push(`${functionName}/index.ts`);
+      console.log(`   ✓ ${functionName}/index.ts (view GET ${view.endpoint})`);
+    }
+  }
+
   // Generate seed Edge Function if production seed is configured
   if (shouldGenerateSeedHandler(config)) {
     const seedFunctionDir = join(outputDir, '_seed');
@@ -266,6 +308,9 @@ async function generateMiddlewareFromConfig(
     await writeOutput(join(middlewareDir, 'rate-limit.ts'), rateLimitCode, dryRun);
     files.push('_shared/middleware/rate-limit.ts');
     console.log('   ✓ _shared/middleware/rate-limit.ts');
+    if (mwConfig.rateLimit.storage === 'redis') {
+      console.log('   ℹ Export a Redis client as `redis` from _shared/middleware/redis.ts');
+    }
   }
 
   // Cache middleware
@@ -122,17 +122,12 @@ export function generateEdgeMiddlewareChain(
         lines.push('    Object.assign(context, authResult.context);');
         lines.push('  }');
       } else if (name === 'rateLimit') {
-        lines.push('  const rateLimitResult = rateLimitMiddleware(req, context.userId);');
+        lines.push('  const rateLimitResult = await rateLimitMiddleware(req, context);');
         lines.push('  if (rateLimitResult.error) {');
         lines.push('    return { error: true, response: rateLimitResult.response, context };');
         lines.push('  }');
-        lines.push('  // Store rate limit info for response headers');
-        lines.push('  if (rateLimitResult.remaining !== undefined) {');
-        lines.push("    context['_rateLimit'] = {");
-        lines.push('      remaining: rateLimitResult.remaining,');
-        lines.push('      resetTime: rateLimitResult.resetTime,');
-        lines.push('    };');
-        lines.push('  }');
+        lines.push('  // Store RateLimit-* headers for the response');
+        lines.push("  context['_rateLimit'] = rateLimitResult.headers;");
       } else if (name === 'logger') {
         lines.push('  const logger = loggerMiddleware(req, context.userId);');
         lines.push('  completionHandlers.push((status) => {');
@@ -16,6 +16,7 @@ import type {
   LoggerMiddlewareConfig,
   AnalyzedMiddleware,
 } from '../../types';
+import { generateRateLimitImports, generateRateLimitSetup } from '../shared/rate-limit';
 
 /**
  * Generate auth middleware for Supabase Edge
@@ -175,39 +176,23 @@ export function generateAuthMiddlewareEdge(config: AuthMiddlewareConfig): string
  * Generate rate limit middleware for Supabase Edge
  */
 export function generateRateLimitMiddlewareEdge(config: RateLimitMiddlewareConfig): string {
-  const max = config.max ?? 100;
-  const windowMs = config.windowMs ?? 60000;
   const keyBy = config.keyBy || 'ip';
 
   return `// GENERATED BY SCHEMOCK - DO NOT EDIT
 // Rate limit middleware for Supabase Edge Functions
 
+${generateRateLimitImports(config, './redis.ts').join('\n')}
 import { corsHeaders } from '../cors.ts';
 
-/**
- * Rate limit entry
- */
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-// In-memory rate limit store
-// Note: This is per-isolate and won't persist across invocations
-// For production, use Supabase or Redis for distributed rate limiting
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-const RATE_LIMIT_MAX = ${max};
-const RATE_LIMIT_WINDOW_MS = ${windowMs};
-
+${generateRateLimitSetup(config).join('\n')}
 /**
  * Rate limit result
  */
 export interface RateLimitResult {
   error: boolean;
   response?: Response;
-  remaining?: number;
-  resetTime?: number;
+  /** RateLimit-* (and Retry-After) headers for the response */
+  headers: Record<string, string>;
 }
 
 /**
@@ -225,58 +210,35 @@ ${keyBy === 'user' ? `  // Key by user ID
 /**
  * Rate limit middleware
  */
-export function rateLimitMiddleware(
+export async function rateLimitMiddleware(
   req: Request,
-  userId?: string
-): RateLimitResult {
-  const key = getRateLimitKey(req, userId);
-  const now = Date.now();
-
-  let entry = rateLimitStore.get(key);
-
-  // Clean up expired entry
-  if (entry && entry.resetTime < now) {
-    rateLimitStore.delete(key);
-    entry = undefined;
-  }
-
-  if (!entry) {
-    entry = {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW_MS,
-    };
-    rateLimitStore.set(key, entry);
-  } else {
-    entry.count++;
-  }
-
-  const remaining = Math.max(0, RATE_LIMIT_MAX - entry.count);
-  const resetTime = entry.resetTime;
+  context: { userId?: string; role?: string } = {}
+): Promise<RateLimitResult> {
+  const check = await checkRateLimit(getRateLimitKey(req, context.userId), {
+    method: req.method,
+    path: new URL(req.url).pathname,
+    role: context.role,
+  });
 
-  if (entry.count > RATE_LIMIT_MAX) {
-    const retryAfter = Math.ceil((resetTime - now) / 1000);
+  if (!check.allowed) {
     return {
       error: true,
       response: new Response(
-        JSON.stringify({ error: 'Too many requests', retryAfter }),
+        JSON.stringify({ error: 'Too many requests', retryAfter: check.retryAfter }),
         {
           status: 429,
           headers: {
             'Content-Type': 'application/json',
-            'X-RateLimit-Limit': RATE_LIMIT_MAX.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': Math.ceil(resetTime / 1000).toString(),
-            'Retry-After': retryAfter.toString(),
+            ...check.headers,
             ...corsHeaders(),
           },
         }
       ),
-      remaining: 0,
-      resetTime,
+      headers: check.headers,
     };
   }
 
-  return { error: false, remaining, resetTime };
+  return { error: false, headers: check.headers };
 }
 
 /**
@@ -284,12 +246,11 @@ export function rateLimitMiddleware(
  */
 export function addRateLimitHeaders(
   headers: Headers,
-  remaining: number,
-  resetTime: number
+  rateLimitHeaders: Record<string, string>
 ): void {
-  headers.set('X-RateLimit-Limit', RATE_LIMIT_MAX.toString());
-  headers.set('X-RateLimit-Remaining', remaining.toString());
-  headers.set('X-RateLimit-Reset', Math.ceil(resetTime / 1000).toString());
+  for (const [name, value] of Object.entries(rateLimitHeaders)) {
+    headers.set(name, value);
+  }
 }
 `;
 }
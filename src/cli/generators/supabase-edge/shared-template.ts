@@ -93,10 +93,16 @@ ${typesCode}
  * Generate the deno.json configuration file
  */
 export function generateDenoConfig(config: SchemockConfig): string {
+  const imports: Record<string, string> = {
+    '@supabase/supabase-js': 'https://esm.sh/@supabase/supabase-js@2',
+  };
+  // The rate limit middleware checks requests with schemock's RateLimiter
+  if (config.middleware?.rateLimit) {
+    imports['schemock/security'] = 'npm:schemock/security';
+  }
+
   const denoConfig = {
-    imports: {
-      '@supabase/supabase-js': 'https://esm.sh/@supabase/supabase-js@2',
-    },
+    imports,
     compilerOptions: {
       allowJs: true,
       lib: ['deno.window'],
@@ -0,0 +1,98 @@
+/**
+ * Supabase Edge View Function Template
+ *
+ * Generates Deno-based Edge Functions for views defined via defineView().
+ *
+ * @module cli/generators/supabase-edge/view-function-template
+ * @category CLI
+ */
+
+import type { AnalyzedView, SchemockConfig } from '../../types';
+import { getViewQueryParams } from '../shared/views';
+import { buildPathRegex } from './endpoint-function-template';
+
+/**
+ * Generate a standalone Deno Edge Function for a view
+ */
+export function generateViewEdgeFunction(view: AnalyzedView, config: SchemockConfig): string {
+  const hasNewMiddlewareConfig = config.middleware !== undefined;
+  const queryParams = getViewQueryParams(view);
+
+  const lines: string[] = [
+    '// GENERATED BY SCHEMOCK - DO NOT EDIT',
+    `// View: GET ${view.endpoint}`,
+    '',
+    "import { corsHeaders } from '../_shared/cors.ts';",
+    `import { resolve${view.pascalName}View } from '../_shared/views.ts';`,
+  ];
+
+  if (hasNewMiddlewareConfig) {
+    lines.push("import { runMiddlewareChain } from '../_shared/middleware/chain.ts';");
+  }
+
+  lines.push('');
+  lines.push('function jsonResponse(data: unknown, status = 200): Response {');
+  lines.push('  return new Response(JSON.stringify(data), {');
+  lines.push('    status,');
+  lines.push("    headers: { ...corsHeaders(), 'Content-Type': 'application/json' },");
+  lines.push('  });');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('Deno.serve(async (req) => {');
+  lines.push('  // Handle CORS preflight');
+  lines.push("  if (req.method === 'OPTIONS') {");
+  lines.push("    return new Response('ok', { headers: corsHeaders() });");
+  lines.push('  }');
+  lines.push('');
+  lines.push("  if (req.method !== 'GET') {");
+  lines.push("    return jsonResponse({ error: 'Method not allowed' }, 405);");
+  lines.push('  }');
+  lines.push('');
+
+  if (hasNewMiddlewareConfig) {
+    lines.push('  // Run middleware chain');
+    lines.push("  const mwResult = await runMiddlewareChain(req, 'custom');");
+    lines.push('  if (mwResult.error) {');
+    lines.push('    return mwResult.response!;');
+    lines.push('  }');
+    lines.push('');
+  }
+
+  if (view.pathParams.length > 0 || queryParams.length > 0) {
+    lines.push('  const url = new URL(req.url);');
+  }
+  if (view.pathParams.length > 0) {
+    const regexBody = buildPathRegex(view.endpoint).slice(1, -1).replace(/\//g, '\\/');
+    lines.push(`  const pathMatch = url.pathname.match(/${regexBody}/);`);
+    lines.push('  if (!pathMatch) {');
+    lines.push("    return jsonResponse({ error: 'Not found' }, 404);");
+    lines.push('  }');
+  }
+  lines.push('');
+
+  lines.push('  try {');
+  lines.push(`    const view = await resolve${view.pascalName}View({`);
+  view.pathParams.forEach((param, i) => {
+    lines.push(`      ${param}: pathMatch[${i + 1}],`);
+  });
+  for (const param of queryParams) {
+    lines.push(`      ${param}: url.searchParams.get('${param}') ?? '',`);
+  }
+  lines.push('    });');
+  lines.push('');
+  if (view.root) {
+    lines.push('    if (!view) {');
+    lines.push(`      return jsonResponse({ error: '${view.root.pascalName} not found' }, 404);`);
+    lines.push('    }');
+    lines.push('');
+  }
+  lines.push('    return jsonResponse(view);');
+  lines.push('  } catch (error) {');
+  lines.push(`    console.error('GET ${view.endpoint} error:', error);`);
+  lines.push("    return jsonResponse({ error: 'Internal server error' }, 500);");
+  lines.push('  }');
+  lines.push('});');
+
+  return lines.join('\n');
+}
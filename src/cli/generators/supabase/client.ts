@@ -7,6 +7,38 @@
 
 import type { AnalyzedSchema, SupabaseAdapterConfig } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
+import {
+  isCursorPaginated,
+  hasCursorPagination,
+  getDefaultLimit,
+  generateCursorCodec,
+  generateKeysetPageHelper,
+  generateCursorPostgrestHelper,
+} from '../shared/cursor';
+import { generateFilterCommon, generateFilterMatcher, generatePostgrestFilterBuilder } from '../shared/filter';
+import { generateDeletedScopeFromOptions, generateSupabaseDeletedFilter } from '../shared/soft-delete';
+import { generateNotFoundError } from '../shared/rls';
+import { hasVersioning, generateConflictError, updateOptionsParam } from '../shared/versioning';
+import {
+  getLinkRelations,
+  hasLinkRelations,
+  generateLinkCommon,
+  generateSupabaseLinkWriter,
+  generateJunctionConsts,
+  generateLinkNamespaceTypes,
+  generateLinkNamespaces,
+  linkWriteLines,
+} from '../shared/links';
+import {
+  getNestedRelations,
+  hasNestedRelations,
+  generateNestedCommon,
+  generateSupabaseNestedWriter,
+  nestedParentLines,
+  nestedChildLines,
+  nestedTableLiteral,
+  type NestedRelation,
+} from '../shared/nested';
 
 /**
  * Generate Supabase API client
@@ -30,6 +62,22 @@ export function generateSupabaseClient(schemas: AnalyzedSchema[], config: Supaba
 
   // Generate interceptor infrastructure
   generateInterceptorInfrastructure(code);
+  if (hasVersioning(schemas)) {
+    generateConflictError(code);
+  }
+
+  // Where-clause filter helpers
+  generateFilterCommon(code);
+  generatePostgrestFilterBuilder(code);
+  generateFilterMatcher(code);
+  generateRealtimeFilterBuilder(code);
+
+  // Cursor pagination helpers
+  if (hasCursorPagination(schemas)) {
+    generateCursorCodec(code);
+    generateKeysetPageHelper(code);
+    generateCursorPostgrestHelper(code);
+  }
 
   // Generate Supabase instance factory
   code.comment('Create Supabase client with optional custom auth token');
@@ -89,6 +137,24 @@ export function generateSupabaseClient(schemas: AnalyzedSchema[], config: Supaba
   });
   code.line();
 
+  // Many-to-many link writes
+  if (hasLinkRelations(schemas)) {
+    generateLinkCommon(code);
+    generateSupabaseLinkWriter(code, 'ReturnType<typeof getSupabaseClient>');
+    for (const schema of schemas) {
+      if (schema.isJunctionTable) continue;
+      generateJunctionConsts(code, schema, schemas, config.tableMap);
+    }
+    code.line();
+  }
+
+  // Nested relation writes, undone on failure
+  if (hasNestedRelations(schemas)) {
+    generateNotFoundError(code);
+    generateNestedCommon(code);
+    generateSupabaseNestedWriter(code, 'ReturnType<typeof getSupabaseClient>');
+  }
+
   // Generate the ApiClient type
   generateApiType(code, schemas);
   code.line();
@@ -197,6 +263,9 @@ function generateInterceptorInfrastructure(code: CodeBuilder): void {
   // Supabase error mapping
   code.comment('Map Supabase/Postgres error codes to HTTP status codes');
   code.block('function wrapSupabaseError(error: unknown, operation: string): ApiError {', () => {
+    code.block('if (error instanceof InvalidFilterError) {', () => {
+      code.line('return new ApiError(error.message, error.status, error.code, operation);');
+    });
     code.line('const err = error as { code?: string; message?: string; details?: unknown; hint?: string };');
     code.line('const code = err.code || "UNKNOWN_ERROR";');
     code.line('const message = err.message || "An unknown error occurred";');
@@ -255,15 +324,30 @@ function generateApiType(code: CodeBuilder, schemas: AnalyzedSchema[]): void {
 
       code.block(`${name}: {`, () => {
         code.line(`list: (options?: Types.QueryOptions<Types.${pascalName}Filter, ${includeType}>) => Promise<Types.ListResponse<Types.${pascalName}>>;`);
-        code.line(`get: (id: string, options?: { include?: ${includeType}[] }) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+        code.line(`get: (id: string, options?: ${getOptionsType(schema, includeType)}) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line(`create: (input: Types.${pascalName}Create) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
-        code.line(`update: (id: string, input: Types.${pascalName}Update) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+        code.line(`update: (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line('delete: (id: string) => Promise<void>;');
+        if (schema.softDelete) {
+          code.line(`restore: (id: string) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
+          code.line('purge: (id: string) => Promise<void>;');
+        }
+        code.line(`subscribe: (where: Types.${pascalName}Filter, callback: (event: Types.ChangeEvent<Types.${pascalName}>) => void) => () => void;`);
+        generateLinkNamespaceTypes(code, schema, schemas);
       }, '};');
     }
   }, '}');
 }
 
+/**
+ * Options type accepted by a generated get()
+ */
+function getOptionsType(schema: AnalyzedSchema, includeType: string): string {
+  return schema.softDelete
+    ? `{ include?: ${includeType}[]; withDeleted?: boolean; onlyDeleted?: boolean }`
+    : `{ include?: ${includeType}[] }`;
+}
+
 /**
  * Generate the createClient factory function
  */
@@ -402,16 +486,108 @@ function generateCreateClientFactory(
     code.line('}');
     code.line();
 
+    generateSubscribeHelper(code);
+    code.line();
+
     code.comment('Build API client with all entity methods');
-    code.block('return {', () => {
+    code.block('const apiClient: ApiClient = {', () => {
       for (const schema of schemas) {
         if (schema.isJunctionTable) continue;
         generateSupabaseEntityApiFactory(code, schema, config, schemaMap);
       }
     }, '};');
+    code.line();
+    code.line('return apiClient;');
   });
 }
 
+/**
+ * Generate buildRealtimeFilter(), which turns a single-condition where clause
+ * into a Realtime filter (column=op.value). Realtime accepts one condition
+ * with eq/neq/lt/lte/gt/gte/in, so anything else is left to the client.
+ */
+function generateRealtimeFilterBuilder(code: CodeBuilder): void {
+  code.comment('Realtime filter for a where clause the server can apply, undefined otherwise');
+  code.block('function buildRealtimeFilter(where: Record<string, unknown>): string | undefined {', () => {
+    code.line('const entries = Object.entries(where);');
+    code.line('if (entries.length !== 1) return undefined;');
+    code.line();
+    code.line('const [column, condition] = entries[0];');
+    code.line("if (['AND', 'OR', 'NOT'].includes(column) || condition === null || Array.isArray(condition)) return undefined;");
+    code.line('const format = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value));');
+    code.line();
+    code.block('if (!isFilterObject(condition)) {', () => {
+      code.line('return `${column}=eq.${format(condition)}`;');
+    });
+    code.line();
+    code.line('const operators = Object.entries(condition);');
+    code.line('if (operators.length !== 1) return undefined;');
+    code.line('const [operator, value] = operators[0];');
+    code.line();
+    code.block("if (operator === 'in' && Array.isArray(value)) {", () => {
+      code.line('return `${column}=in.(${value.map(format).join(",")})`;');
+    });
+    code.block("if (['equals', 'lt', 'lte', 'gt', 'gte'].includes(operator) && value !== null && typeof value !== 'object') {", () => {
+      code.line("return `${column}=${operator === 'equals' ? 'eq' : operator}.${format(value)}`;");
+    });
+    code.line('return undefined;');
+  });
+  code.line();
+}
+
+/**
+ * Generate subscribeToTable(), shared by the entity subscribe() methods.
+ *
+ * Runs onRequest so the Realtime connection uses the same access token as
+ * the other requests (RLS applies to change events too). Deletes are always
+ * delivered: unless the table has REPLICA IDENTITY FULL, Postgres only sends
+ * the primary key of deleted rows, so they cannot be filtered.
+ */
+function generateSubscribeHelper(code: CodeBuilder): void {
+  code.comment('Subscribe to a table through Supabase Realtime');
+  code.block('function subscribeToTable<T>(', () => {
+    code.line('entity: string,');
+    code.line('table: string,');
+    code.line('where: Record<string, unknown>,');
+    code.line('callback: (event: Types.ChangeEvent<T>) => void');
+  }, '): () => void {');
+  code.indent();
+  code.line('const filter = buildRealtimeFilter(where);');
+  code.line('let channel: ReturnType<typeof supabase.channel> | null = null;');
+  code.line('let stopped = false;');
+  code.line();
+  code.block('void (async () => {', () => {
+    code.line('let requestCtx: RequestContext = { headers: {}, operation: `${entity}.subscribe` };');
+    code.block('if (interceptors.onRequest) {', () => {
+      code.line('requestCtx = await interceptors.onRequest(requestCtx);');
+    });
+    code.line('const accessToken = extractAccessToken(requestCtx.headers);');
+    code.line('if (accessToken) await supabase.realtime.setAuth(accessToken);');
+    code.line('if (stopped) return;');
+    code.line();
+    code.line('channel = supabase');
+    code.line('  .channel(`schemock:${table}:${Math.random().toString(36).slice(2)}`)');
+    code.line("  .on<Record<string, unknown>>('postgres_changes', { event: '*', schema: 'public', table, filter }, (payload) => {");
+    code.line("    const type = payload.eventType === 'INSERT' ? 'insert' : payload.eventType === 'UPDATE' ? 'update' : 'delete';");
+    code.line("    const record = (type === 'delete' ? payload.old : payload.new) as T;");
+    code.line("    const previous = type === 'update' && Object.keys(payload.old).length > 0 ? (payload.old as T) : undefined;");
+    code.line();
+    code.line('    const matches = (row?: T) => row !== undefined && matchesWhere(row as Record<string, unknown>, where);');
+    code.line("    if (filter || type === 'delete' || matches(record) || matches(previous)) {");
+    code.line('      callback({ type, entity, record, previous });');
+    code.line('    }');
+    code.line('  })');
+    code.line('  .subscribe();');
+  }, '})();');
+  code.line();
+  code.block('return () => {', () => {
+    code.line('stopped = true;');
+    code.line('if (channel) void supabase.removeChannel(channel);');
+  }, '};');
+  code.dedent();
+  code.line('}');
+}
+
 /**
  * Generate Supabase API methods for a single entity (factory version with interceptors)
  */
@@ -424,78 +600,118 @@ function generateSupabaseEntityApiFactory(
   const { name, pascalName, tableName, relations } = schema;
   const hasRelations = relations.length > 0;
   const includeType = hasRelations ? `Types.${pascalName}Include` : 'never';
+  const allSchemas = [...schemaMap.values()];
+  const links = getLinkRelations(schema, allSchemas);
+  const nested = getNestedRelations(schema, allSchemas);
+  const writeNames = [...nested.map((n) => n.relation.name), ...links.map((l) => l.relation.name)];
+  const changes = writeNames.length > 0 ? 'changes' : 'input';
 
   code.block(`${name}: {`, () => {
+    // Filters (shared by offset and cursor list)
+    const generateListFilters = () => {
+      code.block('if (options?.where) {', () => {
+        code.block('for (const condition of buildPostgrestFilters(options.where)) {', () => {
+          code.line('query = query.or(condition);');
+        });
+      });
+      if (schema.softDelete) {
+        generateDeletedScopeFromOptions(code);
+        generateSupabaseDeletedFilter(code);
+      }
+      code.line();
+    };
+
     // LIST
-    code.line(`list: (options?: Types.QueryOptions<Types.${pascalName}Filter, ${includeType}>) =>`);
-    code.indent();
-    code.line(`executeListRequest<Types.${pascalName}>('${name}.list', async (client) => {`);
-    code.indent();
-    code.line(`const select = buildSelect('${name}', options?.include);`);
-    code.line(`let query = client.from('${tableName}').select(select, { count: 'exact' });`);
-    code.line();
+    if (isCursorPaginated(schema)) {
+      code.line(`list: async (options?: Types.QueryOptions<Types.${pascalName}Filter, ${includeType}>) => {`);
+      code.indent();
+      code.line(`const limit = options?.limit ?? ${getDefaultLimit(schema)};`);
+      code.line('const keys = getCursorSortKeys(options?.orderBy);');
+      code.line('const cursor = options?.cursor ? decodeCursor(options.cursor) : undefined;');
+      code.line(`return executeListRequest<Types.${pascalName}>('${name}.list', async (client) => {`);
+      code.indent();
+      code.line(`const select = buildSelect('${name}', options?.include);`);
+      code.line(`let query = client.from('${tableName}').select(select, { count: 'exact' });`);
+      code.line();
+      generateListFilters();
 
-    // Filters
-    code.block('if (options?.where) {', () => {
-      code.block('for (const [key, value] of Object.entries(options.where)) {', () => {
-        code.block('if (typeof value === "object" && value !== null) {', () => {
-          code.line('const f = value as Record<string, unknown>;');
-          code.line("if ('equals' in f) query = query.eq(key, f.equals);");
-          code.line("if ('not' in f) query = query.neq(key, f.not);");
-          code.line("if ('in' in f) query = query.in(key, f.in as unknown[]);");
-          code.line("if ('notIn' in f) query = query.not(key, 'in', `(${(f.notIn as unknown[]).join(',')})`);");
-          code.line("if ('contains' in f) query = query.ilike(key, `%${f.contains}%`);");
-          code.line("if ('startsWith' in f) query = query.ilike(key, `${f.startsWith}%`);");
-          code.line("if ('endsWith' in f) query = query.ilike(key, `%${f.endsWith}`);");
-          code.line("if ('gt' in f) query = query.gt(key, f.gt);");
-          code.line("if ('gte' in f) query = query.gte(key, f.gte);");
-          code.line("if ('lt' in f) query = query.lt(key, f.lt);");
-          code.line("if ('lte' in f) query = query.lte(key, f.lte);");
-          code.line("if ('isNull' in f) f.isNull ? query = query.is(key, null) : query = query.not(key, 'is', null);");
-        }, '} else {');
-        code.indent();
-        code.line('query = query.eq(key, value);');
-        code.dedent();
-        code.line('}');
+      // Keyset ordering and pagination (one extra row detects more pages)
+      code.block('for (const [field, dir] of keys) {', () => {
+        code.line('const ascending = isCursorAscending(dir, cursor);');
+        code.line('query = query.order(field, { ascending, nullsFirst: !ascending });');
       });
-    });
-    code.line();
+      code.block('if (cursor) {', () => {
+        code.line('query = query.or(buildCursorFilter(keys, cursor));');
+      });
+      code.line('query = query.limit(limit + 1);');
+      code.line();
+
+      code.line('return await query;');
+      code.dedent();
+      code.block('}).then(({ data, count }) => {', () => {
+        code.line('const page = toCursorPage(data, keys, limit, cursor);');
+        code.block('return {', () => {
+          code.line('data: page.items,');
+          code.line('meta: { total: count || 0, limit, offset: 0, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },');
+        }, '};');
+      }, '});');
+      code.dedent();
+      code.line('},');
+      code.line();
+    } else {
+      code.line(`list: (options?: Types.QueryOptions<Types.${pascalName}Filter, ${includeType}>) =>`);
+      code.indent();
+      code.line(`executeListRequest<Types.${pascalName}>('${name}.list', async (client) => {`);
+      code.indent();
+      code.line(`const select = buildSelect('${name}', options?.include);`);
+      code.line(`let query = client.from('${tableName}').select(select, { count: 'exact' });`);
+      code.line();
+
+      generateListFilters();
 
-    // Ordering
-    code.block('if (options?.orderBy) {', () => {
-      code.block('for (const [field, dir] of Object.entries(options.orderBy)) {', () => {
-        code.line("query = query.order(field, { ascending: dir === 'asc' });");
+      // Ordering
+      code.block('if (options?.orderBy) {', () => {
+        code.block('for (const [field, dir] of Object.entries(options.orderBy)) {', () => {
+          code.line("query = query.order(field, { ascending: dir === 'asc' });");
+        });
       });
-    });
-    code.line();
+      code.line();
 
-    // Pagination
-    code.line('const limit = options?.limit ?? 20;');
-    code.line('const offset = options?.offset ?? 0;');
-    code.line('query = query.range(offset, offset + limit - 1);');
-    code.line();
+      // Pagination
+      code.line('const limit = options?.limit ?? 20;');
+      code.line('const offset = options?.offset ?? 0;');
+      code.line('query = query.range(offset, offset + limit - 1);');
+      code.line();
 
-    code.line('return await query;');
-    code.dedent();
-    code.line('}).then(({ data, count }) => ({');
-    code.line(`  data: data as Types.${pascalName}[],`);
-    code.line('  meta: {');
-    code.line('    total: count || 0,');
-    code.line('    limit: options?.limit ?? 20,');
-    code.line('    offset: options?.offset ?? 0,');
-    code.line('    hasMore: (options?.offset ?? 0) + (options?.limit ?? 20) < (count || 0),');
-    code.line('  },');
-    code.line('})),');
-    code.dedent();
-    code.line();
+      code.line('return await query;');
+      code.dedent();
+      code.line('}).then(({ data, count }) => ({');
+      code.line(`  data: data as Types.${pascalName}[],`);
+      code.line('  meta: {');
+      code.line('    total: count || 0,');
+      code.line('    limit: options?.limit ?? 20,');
+      code.line('    offset: options?.offset ?? 0,');
+      code.line('    hasMore: (options?.offset ?? 0) + (options?.limit ?? 20) < (count || 0),');
+      code.line('  },');
+      code.line('})),');
+      code.dedent();
+      code.line();
+    }
 
     // GET
-    code.line(`get: (id: string, options?: { include?: ${includeType}[] }) =>`);
+    code.line(`get: (id: string, options?: ${getOptionsType(schema, includeType)}) =>`);
     code.indent();
     code.line(`executeRequest<Types.${pascalName}>('${name}.get', async (client) => {`);
     code.indent();
     code.line(`const select = buildSelect('${name}', options?.include);`);
-    code.line(`return await client.from('${tableName}').select(select).eq('id', id).single();`);
+    if (schema.softDelete) {
+      code.line(`let query = client.from('${tableName}').select(select).eq('id', id);`);
+      generateDeletedScopeFromOptions(code);
+      generateSupabaseDeletedFilter(code);
+      code.line('return await query.single();');
+    } else {
+      code.line(`return await client.from('${tableName}').select(select).eq('id', id).single();`);
+    }
     code.dedent();
     code.line(`}).then(data => ({ data: data as Types.${pascalName} })),`);
     code.dedent();
@@ -506,11 +722,66 @@ function generateSupabaseEntityApiFactory(
     code.line();
 
     // UPDATE
-    code.line(`update: (id: string, input: Types.${pascalName}Update) =>`);
+    code.line(`update: (id: string, input: Types.${pascalName}Update${updateOptionsParam(schema)}) =>`);
     code.indent();
     code.line(`executeRequest<Types.${pascalName}>('${name}.update', async (client) => {`);
     code.indent();
-    code.line(`return await client.from('${tableName}').update(input).eq('id', id).select().single();`);
+    const liveOnly = schema.softDelete ? ".is('deletedAt', null)" : '';
+    const writeLinkLines = linkWriteLines(schema, links, (junction, rel) => `await writeLinks(client, ${junction}, id, ${rel})`);
+    // With nested writes, failures are thrown so the catch below can undo them
+    const fail = (error: string, result: string) => (nested.length > 0 ? `throw ${error};` : `return ${result};`);
+    const generateRowUpdate = () => {
+      if (schema.versioned) {
+        const readCurrent = `client.from('${tableName}').select('*').eq('id', id)${liveOnly}.single()`;
+        code.line(`const { data: current, error } = await ${readCurrent};`);
+        code.line(`if (error) ${fail('error', '{ data: null, error }')}`);
+        code.block('if (options?.expectedVersion !== undefined && current.version !== options.expectedVersion) {', () => {
+          code.line(`throw createConflictError('${pascalName}', current as Types.${pascalName}, options.expectedVersion);`);
+        });
+        code.comment('Compare-and-swap on the version that was read');
+        code.line(`const result = await client.from('${tableName}').update({ ...${changes}, version: current.version + 1 })`);
+        code.line(`  .eq('id', id).eq('version', current.version)${liveOnly}.select().maybeSingle();`);
+        code.block('if (!result.error && !result.data) {', () => {
+          code.line(`const { data: latest } = await ${readCurrent};`);
+          code.line(`throw createConflictError('${pascalName}', latest as Types.${pascalName}, options?.expectedVersion ?? current.version);`);
+        });
+        if (writeNames.length > 0) {
+          code.line(`if (result.error) ${fail('result.error', 'result')}`);
+          code.addLines(writeLinkLines);
+        }
+        code.line('return result;');
+      } else if (writeNames.length > 0) {
+        code.comment('A relations-only update reads the row instead of sending an empty update');
+        code.line('const result = Object.keys(changes).length > 0');
+        code.line(`  ? await client.from('${tableName}').update(changes).eq('id', id)${liveOnly}.select().single()`);
+        code.line(`  : await client.from('${tableName}').select('*').eq('id', id)${liveOnly}.single();`);
+        code.line(`if (result.error) ${fail('result.error', 'result')}`);
+        code.addLines(writeLinkLines);
+        code.line('return result;');
+      } else {
+        code.line(`return await client.from('${tableName}').update(input).eq('id', id)${liveOnly}.select().single();`);
+      }
+    };
+
+    if (writeNames.length > 0) {
+      code.line(`const { ${writeNames.join(', ')}, ...changes } = input;`);
+    }
+    if (nested.length > 0) {
+      code.comment('Nested rows are written first; the row update and links come last');
+      code.line('const undo: NestedUndo = [];');
+      code.block('try {', () => {
+        code.addLines(nestedParentLines(schema, allSchemas, 'changes', (n) => nestedParentCall(n, config)));
+        code.addLines(nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, config, 'id')));
+        generateRowUpdate();
+      }, '} catch (error) {');
+      code.indent();
+      code.line('await undoNestedWrites(undo);');
+      code.line('throw error;');
+      code.dedent();
+      code.line('}');
+    } else {
+      generateRowUpdate();
+    }
     code.dedent();
     code.line(`}).then(data => ({ data: data as Types.${pascalName} })),`);
     code.dedent();
@@ -521,10 +792,45 @@ function generateSupabaseEntityApiFactory(
     code.indent();
     code.line(`executeRequest<null>('${name}.delete', async (client) => {`);
     code.indent();
-    code.line(`return await client.from('${tableName}').delete().eq('id', id);`);
+    if (schema.softDelete) {
+      code.line(`return await client.from('${tableName}').update({ deletedAt: new Date().toISOString() }).eq('id', id).is('deletedAt', null);`);
+    } else {
+      code.line(`return await client.from('${tableName}').delete().eq('id', id);`);
+    }
     code.dedent();
     code.line('}).then(() => undefined),');
     code.dedent();
+    code.line();
+
+    if (schema.softDelete) {
+      // RESTORE
+      code.line('restore: (id: string) =>');
+      code.indent();
+      code.line(`executeRequest<Types.${pascalName}>('${name}.restore', async (client) => {`);
+      code.indent();
+      code.line(`return await client.from('${tableName}').update({ deletedAt: null }).eq('id', id).not('deletedAt', 'is', null).select().single();`);
+      code.dedent();
+      code.line(`}).then(data => ({ data: data as Types.${pascalName} })),`);
+      code.dedent();
+      code.line();
+
+      // PURGE
+      code.line('purge: (id: string) =>');
+      code.indent();
+      code.line(`executeRequest<null>('${name}.purge', async (client) => {`);
+      code.indent();
+      code.line(`return await client.from('${tableName}').delete().eq('id', id);`);
+      code.dedent();
+      code.line('}).then(() => undefined),');
+      code.dedent();
+      code.line();
+    }
+
+    // SUBSCRIBE
+    code.line(`subscribe: (where: Types.${pascalName}Filter, callback: (event: Types.ChangeEvent<Types.${pascalName}>) => void) =>`);
+    code.line(`  subscribeToTable<Types.${pascalName}>('${name}', '${tableName}', where, callback),`);
+
+    generateLinkNamespaces(code, schema, allSchemas, 'apiClient');
   }, '},');
   code.line();
 }
@@ -533,9 +839,11 @@ function generateSupabaseEntityApiFactory(
  * Generate Supabase create method with nested relation support (factory version)
  *
  * Supports:
- * - hasMany: Create parent first, then children with FK pointing to parent
- * - hasOne: Create parent first, then child with FK pointing to parent
- * - belongsTo: Create target first, then parent with FK pointing to target
+ * - belongsTo: Create or check the target first, then the entity with the FK pointing to it
+ * - hasMany/hasOne: Create the entity first, then create or re-point children at it
+ * - manyToMany: Write junction rows last
+ *
+ * A failed nested write undoes the writes made before it.
  */
 function generateSupabaseCreateMethodFactory(
   code: CodeBuilder,
@@ -543,65 +851,42 @@ function generateSupabaseCreateMethodFactory(
   config: SupabaseAdapterConfig,
   schemaMap: Map<string, AnalyzedSchema>
 ): void {
-  const { name, pascalName, tableName, relations } = schema;
-  const childRels = relations.filter((r) => r.type === 'hasMany' || r.type === 'hasOne');
-  const parentRels = relations.filter((r) => r.type === 'belongsTo');
-  const hasNestedRels = childRels.length > 0 || parentRels.length > 0;
+  const { name, pascalName, tableName } = schema;
+  const allSchemas = [...schemaMap.values()];
+  const nested = getNestedRelations(schema, allSchemas);
+  const links = getLinkRelations(schema, allSchemas);
+  const writeNames = [...nested.map((n) => n.relation.name), ...links.map((l) => l.relation.name)];
+  const writeLinkLines = linkWriteLines(schema, links, (junction, rel) => `await writeLinks(client, ${junction}, item.id, ${rel})`);
 
   code.line(`create: (input: Types.${pascalName}Create) =>`);
   code.indent();
   code.line(`executeRequest<Types.${pascalName}>('${name}.create', async (client) => {`);
   code.indent();
 
-  if (hasNestedRels) {
-    const allRelNames = [...childRels, ...parentRels].map((r) => r.name).join(', ');
-    code.line(`const { ${allRelNames}, ...data } = input;`);
-    code.line('// eslint-disable-next-line @typescript-eslint/no-explicit-any');
-    code.line('const insertData: Record<string, any> = { ...data };');
-    code.line();
-
-    // Handle belongsTo relations first - create parent, then use its ID
-    if (parentRels.length > 0) {
-      code.comment('Handle belongsTo relations - create parent first');
-      for (const rel of parentRels) {
-        const targetSchema = schemaMap.get(rel.resolvedTarget);
-        const targetTable = config.tableMap?.[rel.resolvedTarget] ?? targetSchema?.tableName ?? rel.resolvedTarget + 's';
-        const fkField = rel.localField || rel.foreignKey;
-
-        code.block(`if (${rel.name}) {`, () => {
-          code.line(`const parentResult = await client.from('${targetTable}').insert(${rel.name}).select().single();`);
-          code.line('if (parentResult.error) return parentResult as { data: null; error: unknown };');
-          code.line(`insertData.${fkField} = parentResult.data.id;`);
-        });
-      }
-      code.line();
-    }
-
-    // Now create the main entity
-    code.line(`const result = await client.from('${tableName}').insert(insertData).select().single();`);
+  if (nested.length > 0) {
+    code.line(`const { ${writeNames.join(', ')}, ...data } = input;`);
+    code.line('const undo: NestedUndo = [];');
+    code.block('try {', () => {
+      code.addLines(nestedParentLines(schema, allSchemas, 'data', (n) => nestedParentCall(n, config)));
+      code.line(`const result = await client.from('${tableName}').insert(data).select().single();`);
+      code.line('if (result.error) throw result.error;');
+      code.line('const item = result.data;');
+      code.line(`undo.push(() => client.from('${tableName}').delete().eq('id', item.id));`);
+      code.addLines(nestedChildLines(schema, allSchemas, (n) => nestedChildCall(n, config, 'item.id')));
+      code.addLines(writeLinkLines);
+      code.line('return { data: item, error: null };');
+    }, '} catch (error) {');
+    code.indent();
+    code.line('await undoNestedWrites(undo);');
+    code.line('throw error;');
+    code.dedent();
+    code.line('}');
+  } else if (links.length > 0) {
+    code.line(`const { ${writeNames.join(', ')}, ...data } = input;`);
+    code.line(`const result = await client.from('${tableName}').insert(data).select().single();`);
     code.line('if (result.error) return result;');
     code.line('const item = result.data;');
-    code.line();
-
-    // Handle hasMany/hasOne relations - create children after parent
-    if (childRels.length > 0) {
-      code.comment('Handle hasMany/hasOne relations - create children after parent');
-      for (const rel of childRels) {
-        const targetSchema = schemaMap.get(rel.resolvedTarget);
-        const targetTable = config.tableMap?.[rel.resolvedTarget] ?? targetSchema?.tableName ?? rel.resolvedTarget + 's';
-        code.block(`if (${rel.name}) {`, () => {
-          if (rel.type === 'hasMany') {
-            code.line(`const nestedData = ${rel.name}.map(nested => ({ ...nested, ${rel.foreignKey}: item.id }));`);
-            code.line(`const nestedResult = await client.from('${targetTable}').insert(nestedData);`);
-            code.line('if (nestedResult.error) return nestedResult as { data: null; error: unknown };');
-          } else {
-            code.line(`const nestedResult = await client.from('${targetTable}').insert({ ...${rel.name}, ${rel.foreignKey}: item.id });`);
-            code.line('if (nestedResult.error) return nestedResult as { data: null; error: unknown };');
-          }
-        });
-      }
-    }
-
+    code.addLines(writeLinkLines);
     code.line();
     code.line('return { data: item, error: null };');
   } else {
@@ -612,3 +897,27 @@ function generateSupabaseCreateMethodFactory(
   code.line(`}).then(data => ({ data: data as Types.${pascalName} })),`);
   code.dedent();
 }
+
+/**
+ * Table of a nested relation's target, after the Supabase table map
+ */
+function nestedTable(nested: NestedRelation, config: SupabaseAdapterConfig): string {
+  return nestedTableLiteral(nested, config.tableMap?.[nested.target.name] ?? nested.target.tableName);
+}
+
+/**
+ * writeNestedParent() expression for a belongsTo nested write
+ */
+function nestedParentCall(nested: NestedRelation, config: SupabaseAdapterConfig): string {
+  return `await writeNestedParent(client, ${nestedTable(nested, config)}, ${nested.relation.name}, undo)`;
+}
+
+/**
+ * writeNestedChildren() statement for a hasMany/hasOne nested write
+ *
+ * @param parentId - Expression for the id of the entity row
+ */
+function nestedChildCall(nested: NestedRelation, config: SupabaseAdapterConfig, parentId: string): string {
+  const { relation } = nested;
+  return `await writeNestedChildren(client, ${nestedTable(nested, config)}, '${relation.foreignKey}', ${parentId}, ${relation.name}, undo)`;
+}
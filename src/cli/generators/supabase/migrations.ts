@@ -65,18 +65,29 @@ function generateTableSchema(
 
   const columns: string[] = [];
   for (const field of schema.fields) {
-    const pgType = mapFieldToPostgres(field);
+    // Soft-delete tables enforce uniqueness with partial indexes below
+    const pgType = mapFieldToPostgres(schema.softDelete ? { ...field, unique: false } : field);
     columns.push(`  "${field.name}" ${pgType}`);
   }
 
   code.raw(columns.join(',\n'));
   code.raw(');');
+
+  if (schema.softDelete) {
+    for (const field of schema.fields) {
+      if (field.unique && field.name !== 'id') {
+        code.raw(
+          `CREATE UNIQUE INDEX IF NOT EXISTS "idx_${tableName}_${field.name}_unique" ON "${tableName}"("${field.name}") WHERE "deletedAt" IS NULL;`
+        );
+      }
+    }
+  }
 }
 
 /**
  * Map field to PostgreSQL type
  */
-function mapFieldToPostgres(field: { name: string; type: string; nullable: boolean; unique: boolean; isRef: boolean; isEnum: boolean; isArray: boolean; isObject: boolean; enumValues?: string[] }): string {
+function mapFieldToPostgres(field: { name: string; type: string; nullable: boolean; unique: boolean; isRef: boolean; isEnum: boolean; isArray: boolean; isObject: boolean; enumValues?: string[]; precision?: number; scale?: number }): string {
   if (field.name === 'id') return 'UUID PRIMARY KEY DEFAULT gen_random_uuid()';
 
   if (field.isEnum && field.enumValues?.length) {
@@ -103,9 +114,15 @@ function mapFieldToPostgres(field: { name: string; type: string; nullable: boole
     case 'float': pgType = 'DOUBLE PRECISION'; break;
     case 'int':
     case 'integer': pgType = 'INTEGER'; break;
+    case 'bigint': pgType = 'BIGINT'; break;
+    case 'decimal':
+      pgType = field.precision !== undefined ? `DECIMAL(${field.precision}, ${field.scale ?? 0})` : 'DECIMAL';
+      break;
     case 'boolean': pgType = 'BOOLEAN'; break;
     case 'date':
     case 'datetime': pgType = 'TIMESTAMPTZ'; break;
+    case 'time': pgType = 'TIME'; break;
+    case 'bytes': pgType = 'BYTEA'; break;
     default: pgType = 'TEXT';
   }
 
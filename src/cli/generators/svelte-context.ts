@@ -0,0 +1,82 @@
+/**
+ * Svelte context generator for API client injection
+ *
+ * The Svelte counterpart of the React provider: stores a configured API
+ * client in component context for the generated query stores.
+ *
+ * @module cli/generators/svelte-context
+ * @category CLI
+ */
+
+import { CodeBuilder } from '../utils/code-builder';
+
+/**
+ * Generate Svelte context helpers for API client injection
+ *
+ * @returns Generated TypeScript code
+ */
+export function generateSvelteContext(): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.line("import { getContext, setContext } from 'svelte';");
+  code.line("import { type ApiClient, api as defaultApi } from './client';");
+  code.line();
+
+  code.line("const SCHEMOCK_CLIENT_KEY = Symbol('SchemockClient');");
+  code.line();
+
+  // Setter
+  code.multiDocComment([
+    'Provide a configured API client to all Schemock stores in this component tree.',
+    '',
+    'Call during component initialisation, typically in the root layout next to',
+    'QueryClientProvider.',
+    '',
+    '@example',
+    '```svelte',
+    '<script lang="ts">',
+    "  import { QueryClient, QueryClientProvider } from '@tanstack/svelte-query';",
+    "  import { setSchemockClient, createClient } from '$lib/generated';",
+    '',
+    '  setSchemockClient(createClient({',
+    '    onRequest: (ctx) => {',
+    '      const token = localStorage.getItem("authToken");',
+    '      if (token) ctx.headers.Authorization = `Bearer ${token}`;',
+    '      return ctx;',
+    '    },',
+    '  }));',
+    '',
+    '  const queryClient = new QueryClient();',
+    '</script>',
+    '',
+    '<QueryClientProvider client={queryClient}>',
+    '  <slot />',
+    '</QueryClientProvider>',
+    '```',
+  ]);
+  code.block('export function setSchemockClient(client: ApiClient): ApiClient {', () => {
+    code.line('return setContext(SCHEMOCK_CLIENT_KEY, client);');
+  });
+  code.line();
+
+  // Getter
+  code.multiDocComment([
+    'Get the API client from component context.',
+    '',
+    'This is used internally by generated stores to access the configured client.',
+    'Must be called during component initialisation.',
+    '',
+    '@returns The API client from context (or default if none was set)',
+  ]);
+  code.block('export function getSchemockClient(): ApiClient {', () => {
+    code.line('return getContext<ApiClient | undefined>(SCHEMOCK_CLIENT_KEY) ?? defaultApi;');
+  });
+  code.line();
+
+  // Re-export types for convenience
+  code.comment('Re-export client types for convenience');
+  code.line("export type { ApiClient } from './client';");
+
+  return code.toString();
+}
@@ -0,0 +1,201 @@
+/**
+ * TanStack Svelte Query stores generator
+ *
+ * Mirrors the React hooks (same query keys and invalidation rules) using
+ * Svelte Query's create* store factories.
+ *
+ * @module cli/generators/svelte-stores
+ * @category CLI
+ */
+
+import type { AnalyzedSchema } from '../types';
+import { CodeBuilder } from '../utils/code-builder';
+import { toPascalCase } from '../utils/pluralize';
+import { isCursorPaginated, hasCursorPagination } from './shared/cursor';
+
+/**
+ * Generate Svelte Query stores for all entities
+ *
+ * @param schemas - Analyzed schemas
+ * @returns Generated TypeScript code
+ */
+export function generateSvelteStores(schemas: AnalyzedSchema[]): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  const svelteQueryImports = hasCursorPagination(schemas)
+    ? 'createQuery, createInfiniteQuery, createMutation, useQueryClient'
+    : 'createQuery, createMutation, useQueryClient';
+  code.line(`import { ${svelteQueryImports} } from '@tanstack/svelte-query';`);
+  code.line("import { derived, readable, type Readable } from 'svelte/store';");
+  code.line("import { getSchemockClient } from './context';");
+  code.line("import type * as Types from './types';");
+  code.line();
+
+  generateStoreHelper(code);
+
+  for (const schema of schemas) {
+    if (schema.isJunctionTable) continue;
+    generateEntityStores(code, schema);
+  }
+
+  return code.toString();
+}
+
+/**
+ * Generate helper for accepting either plain values or stores as options
+ */
+function generateStoreHelper(code: CodeBuilder): void {
+  code.docComment('A plain value or a Svelte store holding it');
+  code.line('type MaybeStore<T> = T | Readable<T>;');
+  code.line();
+
+  code.docComment('Wrap plain values in a store so query options can be derived reactively');
+  code.block('function toStore<T>(value: MaybeStore<T>): Readable<T> {', () => {
+    code.block("if (value && typeof (value as Readable<T>).subscribe === 'function') {", () => {
+      code.line('return value as Readable<T>;');
+    });
+    code.line('return readable(value as T);');
+  });
+  code.line();
+}
+
+/**
+ * Generate stores for a single entity
+ */
+function generateEntityStores(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName, pluralName, pascalPluralName, relations } = schema;
+  const hasRelations = relations.length > 0;
+  const cursorPaginated = isCursorPaginated(schema);
+
+  code.comment(`==================== ${pascalName} Stores ====================`);
+  code.line();
+
+  // createEntitiesQuery (list)
+  code.docComment(`Fetch list of ${pluralName} (options may be a store)`);
+  code.block(`export function create${pascalPluralName}Query(options?: MaybeStore<{`, () => {
+    code.line(`where?: Types.${pascalName}Filter;`);
+    if (hasRelations) {
+      code.line(`include?: Types.${pascalName}Include[];`);
+    }
+    code.line("orderBy?: Record<string, 'asc' | 'desc'>;");
+    code.line('limit?: number;');
+    code.line(cursorPaginated ? 'cursor?: string;' : 'offset?: number;');
+    code.line('enabled?: boolean;');
+  }, '} | undefined>) {');
+  code.indent();
+  code.line('const api = getSchemockClient();');
+  code.block('return createQuery(derived(toStore(options), ($options) => ({', () => {
+    code.line(`queryKey: ['${pluralName}', $options],`);
+    code.line(`queryFn: () => api.${name}.list($options),`);
+    code.line('enabled: $options?.enabled ?? true,');
+  }, '})));');
+  code.dedent();
+  code.line('}');
+  code.line();
+
+  // createInfiniteEntitiesQuery (cursor pagination)
+  if (cursorPaginated) {
+    code.docComment(`Fetch pages of ${pluralName} by cursor (for infinite scrolling)`);
+    code.block(`export function createInfinite${pascalPluralName}Query(options?: MaybeStore<{`, () => {
+      code.line(`where?: Types.${pascalName}Filter;`);
+      if (hasRelations) {
+        code.line(`include?: Types.${pascalName}Include[];`);
+      }
+      code.line("orderBy?: Record<string, 'asc' | 'desc'>;");
+      code.line('limit?: number;');
+      code.line('enabled?: boolean;');
+    }, '} | undefined>) {');
+    code.indent();
+    code.line('const api = getSchemockClient();');
+    code.block('return createInfiniteQuery(derived(toStore(options), ($options) => ({', () => {
+      code.line(`queryKey: ['${pluralName}', 'infinite', $options],`);
+      code.line(`queryFn: ({ pageParam }: { pageParam: string | undefined }) => api.${name}.list({ ...$options, cursor: pageParam }),`);
+      code.line('initialPageParam: undefined as string | undefined,');
+      code.line(`getNextPageParam: (lastPage: Awaited<ReturnType<typeof api.${name}.list>>) => lastPage.meta.nextCursor,`);
+      code.line(`getPreviousPageParam: (firstPage: Awaited<ReturnType<typeof api.${name}.list>>) => firstPage.meta.prevCursor,`);
+      code.line('enabled: $options?.enabled ?? true,');
+    }, '})));');
+    code.dedent();
+    code.line('}');
+    code.line();
+  }
+
+  // createEntityQuery (single)
+  code.docComment(`Fetch single ${pascalName} by ID (id may be a store)`);
+  code.block(`export function create${pascalName}Query(id: MaybeStore<string | undefined>, options?: MaybeStore<{`, () => {
+    if (hasRelations) {
+      code.line(`include?: Types.${pascalName}Include[];`);
+    }
+    code.line('enabled?: boolean;');
+  }, '} | undefined>) {');
+  code.indent();
+  code.line('const api = getSchemockClient();');
+  code.block('return createQuery(derived([toStore(id), toStore(options)], ([$id, $options]) => ({', () => {
+    if (hasRelations) {
+      code.line(`queryKey: ['${pluralName}', $id, $options?.include],`);
+      code.line(`queryFn: () => api.${name}.get($id!, { include: $options?.include }),`);
+    } else {
+      code.line(`queryKey: ['${pluralName}', $id],`);
+      code.line(`queryFn: () => api.${name}.get($id!),`);
+    }
+    code.line('enabled: ($options?.enabled ?? true) && !!$id,');
+  }, '})));');
+  code.dedent();
+  code.line('}');
+  code.line();
+
+  // Convenience stores for common includes
+  for (const rel of relations) {
+    const storeName = `create${pascalName}With${toPascalCase(rel.name)}Query`;
+    code.docComment(`Fetch ${pascalName} with ${rel.name} included`);
+    code.block(`export function ${storeName}(id: MaybeStore<string | undefined>) {`, () => {
+      code.line(`return create${pascalName}Query(id, { include: ['${rel.name}'] });`);
+    });
+    code.line();
+  }
+
+  // createCreateEntityMutation
+  code.docComment(`Create a new ${pascalName}`);
+  code.block(`export function createCreate${pascalName}Mutation() {`, () => {
+    code.line('const api = getSchemockClient();');
+    code.line('const queryClient = useQueryClient();');
+    code.block('return createMutation({', () => {
+      code.line(`mutationFn: (data: Types.${pascalName}Create) => api.${name}.create(data),`);
+      code.block('onSuccess: () => {', () => {
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+      }, '},');
+    }, '});');
+  });
+  code.line();
+
+  // createUpdateEntityMutation
+  code.docComment(`Update an existing ${pascalName}`);
+  code.block(`export function createUpdate${pascalName}Mutation() {`, () => {
+    code.line('const api = getSchemockClient();');
+    code.line('const queryClient = useQueryClient();');
+    code.block('return createMutation({', () => {
+      code.line(`mutationFn: ({ id, data }: { id: string; data: Types.${pascalName}Update }) =>`);
+      code.line(`  api.${name}.update(id, data),`);
+      code.block('onSuccess: (_, { id }) => {', () => {
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}', id] });`);
+      }, '},');
+    }, '});');
+  });
+  code.line();
+
+  // createDeleteEntityMutation
+  code.docComment(`Delete a ${pascalName}`);
+  code.block(`export function createDelete${pascalName}Mutation() {`, () => {
+    code.line('const api = getSchemockClient();');
+    code.line('const queryClient = useQueryClient();');
+    code.block('return createMutation({', () => {
+      code.line(`mutationFn: (id: string) => api.${name}.delete(id),`);
+      code.block('onSuccess: () => {', () => {
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+      }, '},');
+    }, '});');
+  });
+  code.line();
+}
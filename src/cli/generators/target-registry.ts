@@ -12,6 +12,7 @@ import { join } from 'node:path';
 import type {
   AnalyzedSchema,
   AnalyzedEndpoint,
+  AnalyzedView,
   SchemockConfig,
   GenerationTarget,
   TargetType,
@@ -26,6 +27,7 @@ import { generateMockHandlers, generateAllHandlersExport } from './mock/handlers
 import { generateMockClient } from './mock/client';
 import { generateRoutes } from './mock/routes';
 import { generateMockSeed } from './mock/seed';
+import { generateViewHandlers } from './mock/views';
 import {
   generateEndpointTypes,
   generateEndpointClient,
@@ -47,15 +49,23 @@ import {
   generatePGliteEndpointClient,
   generatePGliteEndpointResolvers,
 } from './pglite';
-import { generateHooks } from './hooks';
+import { generateHooks, REALTIME_ADAPTERS } from './hooks';
+import { filterViewsForSchemas, generateViewClient, generateViewTypes } from './views';
 import { generateProvider } from './provider';
+import { generateVueComposables } from './vue-composables';
+import { generateVuePlugin } from './vue-plugin';
+import { generateSvelteStores } from './svelte-stores';
+import { generateSvelteContext } from './svelte-context';
 
 // Server target generators
 import { generateNextjsApiTarget } from './nextjs-api';
+import { generateNextjsEdgeTarget } from './nextjs-edge';
+import { generateHonoTarget } from './hono';
 import { generateValidation } from './nextjs-api/lib-template';
 import { generateNodeHandlersTarget } from './node-handlers';
 import { generateSupabaseEdgeTarget } from './supabase-edge';
 import { generateNeonTarget } from './neon';
+import { generateGraphQLServerTarget } from './graphql-server';
 
 // Frontend middleware generator
 import { generateFrontendMiddlewareChain } from './frontend-middleware/middleware-chain';
@@ -153,7 +163,7 @@ export function filterSchemasForTarget(
  * Check if a target type is a server-side target
  */
 export function isServerTarget(type: TargetType): boolean {
-  return ['nextjs-api', 'nextjs-edge', 'express', 'hono', 'node-handlers', 'supabase-edge', 'neon'].includes(type);
+  return ['nextjs-api', 'nextjs-edge', 'express', 'hono', 'node-handlers', 'supabase-edge', 'neon', 'graphql-server'].includes(type);
 }
 
 /**
@@ -186,12 +196,15 @@ async function generateClientTarget(
   schemas: AnalyzedSchema[],
   endpoints: AnalyzedEndpoint[],
   config: SchemockConfig,
-  options: GenerateOptions
+  options: GenerateOptions,
+  allViews: AnalyzedView[] = []
 ): Promise<string[]> {
   const files: string[] = [];
   const outputDir = target.output;
   const targetSchemas = filterSchemasForTarget(schemas, target);
   const hasEndpoints = endpoints.length > 0;
+  const views = filterViewsForSchemas(allViews, targetSchemas);
+  const hasViews = views.length > 0;
 
   // Create output directory
   if (!options.dryRun) {
@@ -203,13 +216,22 @@ async function generateClientTarget(
   if (hasEndpoints) {
     typesCode += generateEndpointTypes(endpoints);
   }
+  if (hasViews) {
+    typesCode += generateViewTypes(views);
+  }
   await writeOutput(join(outputDir, 'types.ts'), typesCode, options.dryRun);
   files.push('types.ts');
 
+  // Views are plain GET routes, so every client fetches them the same way
+  if (hasViews) {
+    await writeOutput(join(outputDir, 'views.ts'), generateViewClient(views), options.dryRun);
+    files.push('views.ts');
+  }
+
   // Generate adapter-specific code
   switch (target.type) {
     case 'mock':
-      files.push(...(await generateMockTarget(targetSchemas, endpoints, outputDir, config, options)));
+      files.push(...(await generateMockTarget(targetSchemas, endpoints, outputDir, config, options, views)));
       break;
     case 'supabase':
       files.push(...(await generateSupabaseTarget(targetSchemas, endpoints, outputDir, config, options)));
@@ -228,16 +250,35 @@ async function generateClientTarget(
       break;
   }
 
-  // Generate React files (only if framework=react)
+  // Generate framework bindings (React hooks, Vue composables or Svelte stores)
   const framework = target.framework || options.framework || 'none';
   if (framework === 'react') {
     const providerCode = generateProvider();
     await writeOutput(join(outputDir, 'provider.tsx'), providerCode, options.dryRun);
     files.push('provider.tsx');
 
-    const hooksCode = generateHooks(targetSchemas);
+    const hooksCode = generateHooks(targetSchemas, {
+      realtime: REALTIME_ADAPTERS.includes(target.type),
+      views,
+    });
     await writeOutput(join(outputDir, 'hooks.ts'), hooksCode, options.dryRun);
     files.push('hooks.ts');
+  } else if (framework === 'vue') {
+    const pluginCode = generateVuePlugin();
+    await writeOutput(join(outputDir, 'plugin.ts'), pluginCode, options.dryRun);
+    files.push('plugin.ts');
+
+    const composablesCode = generateVueComposables(targetSchemas);
+    await writeOutput(join(outputDir, 'composables.ts'), composablesCode, options.dryRun);
+    files.push('composables.ts');
+  } else if (framework === 'svelte') {
+    const contextCode = generateSvelteContext();
+    await writeOutput(join(outputDir, 'context.ts'), contextCode, options.dryRun);
+    files.push('context.ts');
+
+    const storesCode = generateSvelteStores(targetSchemas);
+    await writeOutput(join(outputDir, 'stores.ts'), storesCode, options.dryRun);
+    files.push('stores.ts');
   }
 
   // Check if middleware is configured (for frontend adapters that support it)
@@ -248,6 +289,7 @@ async function generateClientTarget(
   const indexCode = generateClientIndex({
     targetType: target.type,
     hasEndpoints,
+    hasViews,
     framework,
     hasMiddleware,
   });
@@ -265,11 +307,13 @@ async function generateMockTarget(
   endpoints: AnalyzedEndpoint[],
   outputDir: string,
   config: SchemockConfig,
-  options: GenerateOptions
+  options: GenerateOptions,
+  views: AnalyzedView[] = []
 ): Promise<string[]> {
   const files: string[] = [];
   const mockConfig = config.adapters?.mock || {};
   const hasEndpoints = endpoints.length > 0;
+  const hasViews = views.length > 0;
   const hasMiddlewareConfig = config.middleware !== undefined;
 
   const dbCode = generateMockDb(schemas, mockConfig);
@@ -315,7 +359,13 @@ async function generateMockTarget(
     files.push('endpoint-resolvers.ts');
   }
 
-  const allHandlersCode = generateAllHandlersExport(hasEndpoints);
+  if (hasViews) {
+    const viewHandlersCode = generateViewHandlers(views);
+    await writeOutput(join(outputDir, 'view-handlers.ts'), viewHandlersCode, options.dryRun);
+    files.push('view-handlers.ts');
+  }
+
+  const allHandlersCode = generateAllHandlersExport(hasEndpoints, hasViews);
   await writeOutput(join(outputDir, 'all-handlers.ts'), allHandlersCode, options.dryRun);
   files.push('all-handlers.ts');
 
@@ -528,6 +578,7 @@ async function generatePGliteTarget(
  * @param endpoints - Analyzed endpoints
  * @param config - Schemock config
  * @param options - Generation options
+ * @param views - Analyzed views
  */
 async function generateServerTarget(
   target: GenerationTarget,
@@ -535,7 +586,8 @@ async function generateServerTarget(
   targetSchemas: AnalyzedSchema[],
   endpoints: AnalyzedEndpoint[],
   config: SchemockConfig,
-  options: GenerateOptions
+  options: GenerateOptions,
+  views: AnalyzedView[] = []
 ): Promise<string[]> {
   const files: string[] = [];
   const outputDir = target.output;
@@ -549,7 +601,9 @@ async function generateServerTarget(
   const allCount = allSchemas.filter(s => !s.isJunctionTable).length;
   const targetCount = targetSchemas.filter(s => !s.isJunctionTable).length;
   const isFiltered = targetCount < allCount;
-  const endpointSuffix = endpoints.length > 0 ? `, ${endpoints.length} endpoints` : '';
+  const endpointSuffix =
+    (endpoints.length > 0 ? `, ${endpoints.length} endpoints` : '') +
+    (views.length > 0 ? `, ${views.length} views` : '');
 
   switch (target.type) {
     case 'nextjs-api':
@@ -572,16 +626,30 @@ async function generateServerTarget(
       }
 
       // Generate routes - pass both allSchemas (for types) and targetSchemas (for routes)
-      files.push(...(await generateNextjsApiTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints)));
+      files.push(...(await generateNextjsApiTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints, views)));
       break;
 
     case 'nextjs-edge':
-      console.log(`   🚧 Next.js Edge target generation (${targetCount} entities)`);
-      console.log('   ⚠️  Next.js Edge target not yet implemented');
+      if (isFiltered) {
+        console.log(`   📂 Next.js Edge routes (${targetCount}/${allCount} entities${endpointSuffix})`);
+      } else {
+        console.log(`   📂 Next.js Edge routes (${targetCount} entities${endpointSuffix})`);
+      }
+      // Generate routes - pass both allSchemas (for types) and targetSchemas (for routes)
+      files.push(...(await generateNextjsEdgeTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints, views)));
       break;
 
-    case 'express':
     case 'hono':
+      if (isFiltered) {
+        console.log(`   📂 Hono app (${targetCount}/${allCount} entities${endpointSuffix})`);
+      } else {
+        console.log(`   📂 Hono app (${targetCount} entities${endpointSuffix})`);
+      }
+      // Generate app - pass both allSchemas (for types) and targetSchemas (for routes)
+      files.push(...(await generateHonoTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints, views)));
+      break;
+
+    case 'express':
     case 'node-handlers':
       if (isFiltered) {
         console.log(`   📂 Node.js handlers (${targetCount}/${allCount} entities${endpointSuffix})`);
@@ -589,7 +657,7 @@ async function generateServerTarget(
         console.log(`   📂 Node.js handlers (${targetCount} entities${endpointSuffix})`);
       }
       // Generate handlers - pass both allSchemas (for types) and targetSchemas (for handlers)
-      files.push(...(await generateNodeHandlersTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints)));
+      files.push(...(await generateNodeHandlersTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints, views)));
       break;
 
     case 'supabase-edge':
@@ -599,7 +667,7 @@ async function generateServerTarget(
         console.log(`   📂 Supabase Edge Functions (${targetCount} entities${endpointSuffix})`);
       }
       // Generate Edge Functions - pass both allSchemas (for types) and targetSchemas (for functions)
-      files.push(...(await generateSupabaseEdgeTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints)));
+      files.push(...(await generateSupabaseEdgeTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints, views)));
       break;
 
     case 'neon':
@@ -611,6 +679,16 @@ async function generateServerTarget(
       // Generate Neon handlers - pass both allSchemas (for types) and targetSchemas (for handlers)
       files.push(...(await generateNeonTarget(allSchemas, targetSchemas, outputDir, target, config, options, [], endpoints)));
       break;
+
+    case 'graphql-server':
+      if (isFiltered) {
+        console.log(`   📂 GraphQL server (${targetCount}/${allCount} entities${endpointSuffix})`);
+      } else {
+        console.log(`   📂 GraphQL server (${targetCount} entities${endpointSuffix})`);
+      }
+      // Generate schema and resolvers - pass both allSchemas (for types) and targetSchemas (for operations)
+      files.push(...(await generateGraphQLServerTarget(allSchemas, targetSchemas, outputDir, target, config, options, endpoints)));
+      break;
   }
 
   return files;
@@ -622,6 +700,7 @@ async function generateServerTarget(
 interface ClientIndexOptions {
   targetType: TargetType;
   hasEndpoints?: boolean;
+  hasViews?: boolean;
   framework?: string;
   hasMiddleware?: boolean;
 }
@@ -630,7 +709,7 @@ interface ClientIndexOptions {
  * Generate barrel export index file for client targets
  */
 function generateClientIndex(options: ClientIndexOptions): string {
-  const { targetType, hasEndpoints = false, framework = 'none', hasMiddleware = false } = options;
+  const { targetType, hasEndpoints = false, hasViews = false, framework = 'none', hasMiddleware = false } = options;
 
   const lines = [
     '// GENERATED BY SCHEMOCK - DO NOT EDIT',
@@ -639,10 +718,16 @@ function generateClientIndex(options: ClientIndexOptions): string {
     "export { api, createClient } from './client';",
   ];
 
-  // React-specific exports (only when framework=react)
+  // Framework-specific exports
   if (framework === 'react') {
     lines.push("export * from './hooks';");
     lines.push("export * from './provider';");
+  } else if (framework === 'vue') {
+    lines.push("export * from './composables';");
+    lines.push("export * from './plugin';");
+  } else if (framework === 'svelte') {
+    lines.push("export * from './stores';");
+    lines.push("export * from './context';");
   }
 
   // Frontend middleware exports (when config.middleware is defined)
@@ -656,22 +741,26 @@ function generateClientIndex(options: ClientIndexOptions): string {
   }
 
   if (targetType === 'mock') {
-    lines.push("export { db } from './db';");
+    lines.push("export { db, exportSnapshot, importSnapshot } from './db';");
     lines.push("export { handlers } from './handlers';");
     lines.push("export { allHandlers } from './all-handlers';");
-    lines.push("export { seed, reset, getAll } from './seed';");
+    lines.push("export { seed, seedScenario, reset, getAll } from './seed';");
 
     if (hasEndpoints) {
       lines.push("export { endpoints } from './endpoints';");
       lines.push("export { endpointHandlers } from './endpoint-handlers';");
     }
+
+    if (hasViews) {
+      lines.push("export { viewHandlers } from './view-handlers';");
+    }
   }
 
   if (targetType === 'pglite') {
     lines.push("export { db, initDb, resetDb, tables } from './db';");
     lines.push("export { handlers } from './handlers';");
     lines.push("export { allHandlers } from './all-handlers';");
-    lines.push("export { seed, reset, getAll, count } from './seed';");
+    lines.push("export { seed, seedScenario, reset, getAll, count } from './seed';");
 
     if (hasEndpoints) {
       lines.push("export { endpoints, createEndpointsClient } from './endpoints';");
@@ -691,6 +780,10 @@ function generateClientIndex(options: ClientIndexOptions): string {
     lines.push("export { ApiError, type ClientConfig, type RequestContext, type ApiClient } from './client';");
   }
 
+  if (hasViews) {
+    lines.push("export { views } from './views';");
+  }
+
   return lines.join('\n');
 }
 
@@ -702,7 +795,8 @@ export async function generateAllTargets(
   schemas: AnalyzedSchema[],
   endpoints: AnalyzedEndpoint[],
   config: SchemockConfig,
-  options: GenerateOptions
+  options: GenerateOptions,
+  views: AnalyzedView[] = []
 ): Promise<TargetGenerationResult[]> {
   const results: TargetGenerationResult[] = [];
 
@@ -717,10 +811,10 @@ export async function generateAllTargets(
       const targetSchemas = filterSchemasForTarget(schemas, target);
 
       if (isClientTarget(target.type)) {
-        files = await generateClientTarget(target, schemas, endpoints, config, options);
+        files = await generateClientTarget(target, schemas, endpoints, config, options, views);
       } else if (isServerTarget(target.type)) {
         // Pass allSchemas for types (ensures relations work) and targetSchemas for handlers
-        files = await generateServerTarget(target, schemas, targetSchemas, endpoints, config, options);
+        files = await generateServerTarget(target, schemas, targetSchemas, endpoints, config, options, views);
       } else {
         throw new Error(`Unknown target type: ${target.type}`);
       }
@@ -8,6 +8,13 @@
 import type { AnalyzedSchema, AnalyzedRelation } from '../types';
 import { CodeBuilder } from '../utils/code-builder';
 import { toPascalCase } from '../utils/pluralize';
+import { hasLinkRelations, generateLinkTypes, generateLinkWriteType, generateLinkWriteFields } from './shared/links';
+import {
+  hasNestedRelations,
+  getNestedForeignKeys,
+  generateNestedWriteTypes,
+  generateNestedWriteFields,
+} from './shared/nested';
 
 /**
  * Generate TypeScript type definitions for all schemas
@@ -28,8 +35,18 @@ export function generateTypes(schemas: AnalyzedSchema[]): string {
     generateEntityTypes(code, schema, schemas);
   }
 
+  // Many-to-many link changes accepted by create/update
+  if (hasLinkRelations(schemas)) {
+    generateLinkWriteType(code);
+  }
+
+  // Nested relation writes accepted by create/update
+  if (hasNestedRelations(schemas)) {
+    generateNestedWriteTypes(code);
+  }
+
   // Generate common types
-  generateCommonTypes(code);
+  generateCommonTypes(code, schemas.some((s) => s.softDelete));
 
   return code.toString();
 }
@@ -78,24 +95,26 @@ function generateEntityTypes(code: CodeBuilder, schema: AnalyzedSchema, allSchem
     code.line();
   }
 
+  // ========== Link Types ==========
+  generateLinkTypes(code, schema, allSchemas);
+
   // ========== Create Type ==========
   code.docComment(`Data for creating a ${pascalName}`);
+  const nestedForeignKeys = getNestedForeignKeys(schema, allSchemas);
   code.block(`export interface ${pascalName}Create {`, () => {
     for (const field of fields) {
       if (field.name === 'id' || field.readOnly) continue;
-      const opt = field.nullable || field.hasDefault ? '?' : '';
+      // A foreign key may instead be filled by a belongsTo nested write
+      const opt = field.nullable || field.hasDefault || nestedForeignKeys.has(field.name) ? '?' : '';
       const nullUnion = field.nullable ? ' | null' : '';
       code.line(`${field.name}${opt}: ${field.tsType}${nullUnion};`);
     }
 
-    // Nested creates for hasMany/hasOne/belongsTo
-    for (const rel of relations) {
-      if (rel.type === 'hasMany') {
-        code.line(`${rel.name}?: ${rel.targetPascal}Create[];`);
-      } else if (rel.type === 'hasOne' || rel.type === 'belongsTo') {
-        code.line(`${rel.name}?: ${rel.targetPascal}Create;`);
-      }
-    }
+    // Nested writes for hasMany/hasOne/belongsTo
+    generateNestedWriteFields(code, schema, allSchemas);
+
+    // Link changes for many-to-many relations
+    generateLinkWriteFields(code, schema, allSchemas);
   });
   code.line();
 
@@ -107,6 +126,8 @@ function generateEntityTypes(code: CodeBuilder, schema: AnalyzedSchema, allSchem
       const nullUnion = field.nullable ? ' | null' : '';
       code.line(`${field.name}?: ${field.tsType}${nullUnion};`);
     }
+    generateNestedWriteFields(code, schema, allSchemas);
+    generateLinkWriteFields(code, schema, allSchemas);
   });
   code.line();
 
@@ -116,8 +137,11 @@ function generateEntityTypes(code: CodeBuilder, schema: AnalyzedSchema, allSchem
     // Index signature for compatibility with Record<string, unknown>
     code.line('[key: string]: unknown;');
     for (const field of fields) {
-      code.line(`${field.name}?: ${field.tsType} | FieldFilter<${field.tsType}>;`);
+      code.line(`${field.name}?: ${field.tsType} | null | FieldFilter<${field.tsType}>;`);
     }
+    code.line(`AND?: ${pascalName}Filter | ${pascalName}Filter[];`);
+    code.line(`OR?: ${pascalName}Filter[];`);
+    code.line(`NOT?: ${pascalName}Filter | ${pascalName}Filter[];`);
   });
   code.line();
 
@@ -133,12 +157,12 @@ function generateEntityTypes(code: CodeBuilder, schema: AnalyzedSchema, allSchem
 /**
  * Generate common utility types
  */
-function generateCommonTypes(code: CodeBuilder): void {
+function generateCommonTypes(code: CodeBuilder, hasSoftDelete: boolean): void {
   // Field filter type
   code.docComment('Generic field filter for complex queries');
   code.block('export interface FieldFilter<T> {', () => {
-    code.line('equals?: T;');
-    code.line('not?: T;');
+    code.line('equals?: T | null;');
+    code.line('not?: T | null | FieldFilter<T>;');
     code.line('in?: T[];');
     code.line('notIn?: T[];');
     code.line('lt?: T;');
@@ -148,7 +172,11 @@ function generateCommonTypes(code: CodeBuilder): void {
     code.line('contains?: string;');
     code.line('startsWith?: string;');
     code.line('endsWith?: string;');
+    code.line("mode?: 'default' | 'insensitive';");
     code.line('isNull?: boolean;');
+    code.line('has?: T extends (infer U)[] ? U : never;');
+    code.line('hasSome?: T extends (infer U)[] ? U[] : never;');
+    code.line('hasEvery?: T extends (infer U)[] ? U[] : never;');
   });
   code.line();
 
@@ -161,6 +189,12 @@ function generateCommonTypes(code: CodeBuilder): void {
     code.line('limit?: number;');
     code.line('offset?: number;');
     code.line('cursor?: string;');
+    if (hasSoftDelete) {
+      code.line('/** Soft-delete entities: also return deleted records */');
+      code.line('withDeleted?: boolean;');
+      code.line('/** Soft-delete entities: return only deleted records */');
+      code.line('onlyDeleted?: boolean;');
+    }
   });
   code.line();
 
@@ -174,6 +208,7 @@ function generateCommonTypes(code: CodeBuilder): void {
       code.line('offset: number;');
       code.line('hasMore: boolean;');
       code.line('nextCursor?: string;');
+      code.line('prevCursor?: string;');
     });
   });
   code.line();
@@ -184,4 +219,16 @@ function generateCommonTypes(code: CodeBuilder): void {
     code.line('data: T;');
   });
   code.line();
+
+  // Change event
+  code.docComment('A committed insert, update or delete, as delivered to subscribe() callbacks');
+  code.block('export interface ChangeEvent<T> {', () => {
+    code.line("type: 'insert' | 'update' | 'delete';");
+    code.line('entity: string;');
+    code.line('/** The record after the write (the removed record for deletes) */');
+    code.line('record: T;');
+    code.line('/** The record before an update, when known */');
+    code.line('previous?: T;');
+  });
+  code.line();
 }
@@ -17,6 +17,7 @@
 
 import type { AnalyzedSchema, AnalyzedEndpoint, SchemockConfig } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
+import { generateLinkNamespaceTypes, generateLinkNamespaces } from '../shared/links';
 
 /**
  * Configuration for unified client generation
@@ -228,6 +229,7 @@ function generateApiType(
         code.line(`create: (input: Types.${pascalName}Create) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line(`update: (id: string, input: Types.${pascalName}Update) => Promise<Types.ItemResponse<Types.${pascalName}>>;`);
         code.line('delete: (id: string) => Promise<void>;');
+        generateLinkNamespaceTypes(code, schema, schemas);
       }, '};');
     }
 
@@ -404,11 +406,11 @@ function generateCreateClientFactory(
 
     // Generate the API client object
     code.comment('Build API client with all entity methods');
-    code.block('return {', () => {
+    code.block('const apiClient: ApiClient = {', () => {
       // Entity CRUD operations
       for (const schema of schemas) {
         if (schema.isJunctionTable) continue;
-        generateEntityApi(code, schema, apiPrefix);
+        generateEntityApi(code, schema, schemas, apiPrefix);
       }
 
       // Custom endpoints
@@ -420,6 +422,8 @@ function generateCreateClientFactory(
         }
       }
     }, '};');
+    code.line();
+    code.line('return apiClient;');
   });
   code.line();
 }
@@ -430,6 +434,7 @@ function generateCreateClientFactory(
 function generateEntityApi(
   code: CodeBuilder,
   schema: AnalyzedSchema,
+  allSchemas: AnalyzedSchema[],
   apiPrefix: string
 ): void {
   const { name, pascalName, pluralName, relations, endpoint } = schema;
@@ -474,6 +479,8 @@ function generateEntityApi(
     code.indent();
     code.line(`request<void>('DELETE', \`${entityEndpoint}/\${id}\`, '${name}.delete'),`);
     code.dedent();
+
+    generateLinkNamespaces(code, schema, allSchemas, 'apiClient');
   }, '},');
   code.line();
 }
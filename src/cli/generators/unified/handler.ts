@@ -14,6 +14,7 @@
 import type { AnalyzedSchema, AnalyzedEndpoint } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
 import { pluralize } from '../../utils/pluralize';
+import { isCursorPaginated, generateOrderByParser } from '../shared/cursor';
 
 /**
  * Handler generator target types
@@ -179,11 +180,15 @@ function generateMswEntityHandlers(
       code.line(`return withMiddleware(getMiddleware('${name}', 'list'), request, async (ctx) => {`);
       code.indent();
       code.line('const options = parseQueryOptions(new URL(request.url));');
-      code.line(`const data = await ${singularName}Service.list(ctx, options);`);
-      code.line('return HttpResponse.json({');
-      code.line('  data,');
-      code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
-      code.line('});');
+      if (isCursorPaginated(schema)) {
+        code.line(`return HttpResponse.json(await ${singularName}Service.listPage(ctx, options));`);
+      } else {
+        code.line(`const data = await ${singularName}Service.list(ctx, options);`);
+        code.line('return HttpResponse.json({');
+        code.line('  data,');
+        code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
+        code.line('});');
+      }
       code.dedent();
       code.line('});');
     }, '}),');
@@ -435,11 +440,15 @@ function generateNextjsEntityHandlers(
       code.line(`return withMiddleware(getMiddleware('${name}', 'list'), request, async (ctx) => {`);
       code.indent();
       code.line('const options = parseQueryOptions(request.nextUrl);');
-      code.line(`const data = await ${singularName}Service.list(ctx, options);`);
-      code.line('return NextResponse.json({');
-      code.line('  data,');
-      code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
-      code.line('});');
+      if (isCursorPaginated(schema)) {
+        code.line(`return NextResponse.json(await ${singularName}Service.listPage(ctx, options));`);
+      } else {
+        code.line(`const data = await ${singularName}Service.list(ctx, options);`);
+        code.line('return NextResponse.json({');
+        code.line('  data,');
+        code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
+        code.line('});');
+      }
       code.dedent();
       code.line('});');
     });
@@ -555,6 +564,10 @@ function generateExpressHandlers(
   code.line(`import type { ${typeImports.join(', ')} } from '${typesImport}';`);
   code.line();
 
+  if (schemas.some((s) => !s.isJunctionTable && isCursorPaginated(s))) {
+    generateOrderByParser(code);
+  }
+
   // Generate handlers for each entity
   for (const schema of schemas) {
     if (schema.isJunctionTable) continue;
@@ -589,10 +602,17 @@ function generateExpressEntityHandlers(
       code.block('try {', () => {
         code.line(`await withMiddleware(getMiddleware('${name}', 'list'), req, res, async (ctx) => {`);
         code.indent();
-        code.line("const limit = parseInt(req.query.limit as string || '20', 10);");
-        code.line("const offset = parseInt(req.query.offset as string || '0', 10);");
-        code.line(`const data = await ${singularName}Service.list(ctx, { limit, offset });`);
-        code.line('res.json({ data, meta: { limit, offset } });');
+        if (isCursorPaginated(schema)) {
+          code.line('const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;');
+          code.line('const cursor = req.query.cursor as string | undefined;');
+          code.line('const orderBy = parseOrderBy(req.query.orderBy as string | undefined);');
+          code.line(`res.json(await ${singularName}Service.listPage(ctx, { limit, cursor, orderBy }));`);
+        } else {
+          code.line("const limit = parseInt(req.query.limit as string || '20', 10);");
+          code.line("const offset = parseInt(req.query.offset as string || '0', 10);");
+          code.line(`const data = await ${singularName}Service.list(ctx, { limit, offset });`);
+          code.line('res.json({ data, meta: { limit, offset } });');
+        }
         code.dedent();
         code.line('});');
       }, '} catch (error) {');
@@ -781,11 +801,15 @@ function generateEdgeEntityHandlers(
       code.line(`return withMiddleware(getMiddleware('${name}', 'list'), request, async (ctx) => {`);
       code.indent();
       code.line('const options = parseQueryOptions(new URL(request.url));');
-      code.line(`const data = await ${singularName}Service.list(ctx, options);`);
-      code.line('return jsonResponse({');
-      code.line('  data,');
-      code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
-      code.line('});');
+      if (isCursorPaginated(schema)) {
+        code.line(`return jsonResponse(await ${singularName}Service.listPage(ctx, options));`);
+      } else {
+        code.line(`const data = await ${singularName}Service.list(ctx, options);`);
+        code.line('return jsonResponse({');
+        code.line('  data,');
+        code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
+        code.line('});');
+      }
       code.dedent();
       code.line('});');
     });
@@ -863,17 +887,23 @@ function generateEdgeEntityHandlers(
  * Generate query options parser helper
  */
 function generateQueryOptionsParser(code: CodeBuilder): void {
+  generateOrderByParser(code);
+
   code.multiDocComment([
     'Parse query options from URL search params',
   ]);
-  code.block('function parseQueryOptions(url: URL | { searchParams: URLSearchParams }): { limit?: number; offset?: number; where?: Record<string, unknown> } {', () => {
+  code.block('function parseQueryOptions(url: URL | { searchParams: URLSearchParams }): { limit?: number; offset?: number; cursor?: string; orderBy?: Record<string, "asc" | "desc">; where?: Record<string, unknown> } {', () => {
     code.line('const searchParams = url instanceof URL ? url.searchParams : url.searchParams;');
     code.line("const limit = searchParams.get('limit');");
     code.line("const offset = searchParams.get('offset');");
+    code.line("const cursor = searchParams.get('cursor');");
+    code.line("const orderBy = searchParams.get('orderBy');");
     code.line();
     code.line('return {');
     code.line('  limit: limit ? parseInt(limit, 10) : undefined,');
     code.line('  offset: offset ? parseInt(offset, 10) : undefined,');
+    code.line('  cursor: cursor ?? undefined,');
+    code.line('  orderBy: parseOrderBy(orderBy),');
     code.line('};');
   });
   code.line();
@@ -921,11 +951,15 @@ export function generateNextjsRouteFile(
     code.line(`return withMiddleware(getMiddleware('${name}', 'list'), request, async (ctx) => {`);
     code.indent();
     code.line('const options = parseQueryOptions(request.nextUrl);');
-    code.line(`const data = await ${singularName}Service.list(ctx, options);`);
-    code.line('return NextResponse.json({');
-    code.line('  data,');
-    code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
-    code.line('});');
+    if (isCursorPaginated(schema)) {
+      code.line(`return NextResponse.json(await ${singularName}Service.listPage(ctx, options));`);
+    } else {
+      code.line(`const data = await ${singularName}Service.list(ctx, options);`);
+      code.line('return NextResponse.json({');
+      code.line('  data,');
+      code.line('  meta: { limit: options.limit ?? 20, offset: options.offset ?? 0 },');
+      code.line('});');
+    }
     code.dedent();
     code.line('});');
   });
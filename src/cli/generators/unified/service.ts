@@ -7,7 +7,9 @@
  *
  * Key features:
  * - RLS enforcement in service methods
+ * - Nested relation writes passed to the db in one call, with RLS scope
  * - Filtering, sorting, pagination logic
+ * - Soft delete scope and optimistic concurrency for entities that opt in
  * - Configurable DB import path
  * - MiddlewareContext for auth/tenant data
  *
@@ -17,6 +19,16 @@
 
 import type { AnalyzedSchema, AnalyzedEndpoint, AnalyzedField } from '../../types';
 import { CodeBuilder } from '../../utils/code-builder';
+import {
+  isCursorPaginated,
+  getDefaultLimit,
+  generateCursorCodec,
+  generateKeysetPageHelper,
+  generateCursorWhereHelper,
+} from '../shared/cursor';
+import { getNestedRelations, type NestedRelation } from '../shared/nested';
+import { generateDeletedScopeFromOptions } from '../shared/soft-delete';
+import { updateOptionsParam } from '../shared/versioning';
 
 /**
  * Configuration for service generation
@@ -50,33 +62,53 @@ export function generateEntityService(
 
   const { pascalName, name, fields, rls } = schema;
   const hasRLS = includeRLS && rls.enabled;
+  const scopedNested = hasRLS ? getScopedNestedRelations(schema, allSchemas) : [];
 
   code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
   code.comment(`Service layer for ${pascalName} entity`);
   code.line();
 
   // Imports
+  const cursorPaginated = isCursorPaginated(schema);
+  const typeImports = [`${pascalName}`, `${pascalName}Create`, `${pascalName}Update`, 'QueryOptions', `${pascalName}Filter`];
+  if (cursorPaginated) typeImports.push('ListResponse');
+
   code.line(`import { db } from '${dbImport}';`);
-  code.line(`import type { ${pascalName}, ${pascalName}Create, ${pascalName}Update, QueryOptions, ${pascalName}Filter } from '${typesImport}';`);
+  code.line(`import type { ${typeImports.join(', ')} } from '${typesImport}';`);
   code.line();
 
   // Generate MiddlewareContext type
-  generateMiddlewareContext(code, schema);
+  generateMiddlewareContext(code, schema, scopedNested);
 
   // Generate errors
-  generateServiceErrors(code);
+  generateServiceErrors(code, schema);
+
+  // Cursor pagination helpers
+  if (cursorPaginated) {
+    generateCursorCodec(code);
+    generateKeysetPageHelper(code);
+    generateCursorWhereHelper(code);
+  }
 
   // Generate service object
-  generateServiceMethods(code, schema, allSchemas, hasRLS);
+  generateServiceMethods(code, schema, allSchemas, hasRLS, scopedNested);
 
   return code.toString();
 }
 
+/**
+ * Nested relations whose target rows get their RLS scope values from context
+ */
+function getScopedNestedRelations(schema: AnalyzedSchema, allSchemas: AnalyzedSchema[]): NestedRelation[] {
+  return getNestedRelations(schema, allSchemas).filter(({ target }) => target.rls.enabled && target.rls.scope.length > 0);
+}
+
 /**
  * Generate MiddlewareContext type
  */
-function generateMiddlewareContext(code: CodeBuilder, schema: AnalyzedSchema): void {
+function generateMiddlewareContext(code: CodeBuilder, schema: AnalyzedSchema, scopedNested: NestedRelation[]): void {
   const { rls } = schema;
+  const scopes = [...(rls.enabled ? rls.scope : []), ...scopedNested.flatMap(({ target }) => target.rls.scope)];
 
   code.multiDocComment([
     'Context from middleware chain (auth, tenant, etc.)',
@@ -88,19 +120,17 @@ function generateMiddlewareContext(code: CodeBuilder, schema: AnalyzedSchema): v
     code.line('/** User role for authorization */');
     code.line('role?: string;');
 
-    // Add context keys from RLS scope
-    if (rls.enabled) {
-      const contextKeys = new Set<string>();
-      for (const scope of rls.scope) {
-        if (scope.contextKey && scope.contextKey !== 'userId' && scope.contextKey !== 'role') {
-          contextKeys.add(scope.contextKey);
-        }
-      }
-      for (const key of contextKeys) {
-        code.line(`/** ${key} from RLS scope */`);
-        code.line(`${key}?: string;`);
+    // Add context keys from RLS scope (including scoped nested rows)
+    const contextKeys = new Set<string>();
+    for (const scope of scopes) {
+      if (scope.contextKey && scope.contextKey !== 'userId' && scope.contextKey !== 'role') {
+        contextKeys.add(scope.contextKey);
       }
     }
+    for (const key of contextKeys) {
+      code.line(`/** ${key} from RLS scope */`);
+      code.line(`${key}?: string;`);
+    }
 
     code.line('/** Additional context data */');
     code.line('[key: string]: unknown;');
@@ -108,10 +138,17 @@ function generateMiddlewareContext(code: CodeBuilder, schema: AnalyzedSchema): v
   code.line();
 }
 
+/**
+ * Options type selecting soft-deleted rows for a soft-delete entity's reads
+ */
+function deletedScopeOptionsType(schema: AnalyzedSchema): string {
+  return `Pick<QueryOptions<${schema.pascalName}Filter>, 'withDeleted' | 'onlyDeleted'>`;
+}
+
 /**
  * Generate service error classes
  */
-function generateServiceErrors(code: CodeBuilder): void {
+function generateServiceErrors(code: CodeBuilder, schema: AnalyzedSchema): void {
   code.multiDocComment(['Error thrown when entity is not found']);
   code.block('export class NotFoundError extends Error {', () => {
     code.line('readonly status = 404;');
@@ -135,6 +172,23 @@ function generateServiceErrors(code: CodeBuilder): void {
     code.line('}');
   });
   code.line();
+
+  if (schema.versioned) {
+    code.multiDocComment(['Error thrown when an update is based on a stale version']);
+    code.block('export class ConflictError<T = unknown> extends Error {', () => {
+      code.line('readonly status = 409;');
+      code.line("readonly code = 'CONFLICT';");
+      code.line('/** The row as currently stored, e.g. for a merge dialog */');
+      code.line('readonly current: T;');
+      code.line();
+      code.line('constructor(entity: string, current: T, expectedVersion: number) {');
+      code.line('  super(`${entity} was modified (expected version ${expectedVersion})`);');
+      code.line("  this.name = 'ConflictError';");
+      code.line('  this.current = current;');
+      code.line('}');
+    });
+    code.line();
+  }
 }
 
 /**
@@ -144,7 +198,8 @@ function generateServiceMethods(
   code: CodeBuilder,
   schema: AnalyzedSchema,
   allSchemas: AnalyzedSchema[],
-  hasRLS: boolean
+  hasRLS: boolean,
+  scopedNested: NestedRelation[]
 ): void {
   const { pascalName, name, singularName, rls } = schema;
 
@@ -158,17 +213,30 @@ function generateServiceMethods(
     // LIST method
     generateListMethod(code, schema, hasRLS);
 
+    // LIST PAGE method (cursor pagination)
+    if (isCursorPaginated(schema)) {
+      generateListPageMethod(code, schema, hasRLS);
+    }
+
+    // COUNT method
+    generateCountMethod(code, schema, hasRLS);
+
     // GET method
     generateGetMethod(code, schema, hasRLS);
 
     // CREATE method
-    generateCreateMethod(code, schema, hasRLS);
+    generateCreateMethod(code, schema, hasRLS, scopedNested);
 
     // UPDATE method
-    generateUpdateMethod(code, schema, hasRLS);
+    generateUpdateMethod(code, schema, hasRLS, scopedNested);
 
     // DELETE method
     generateDeleteMethod(code, schema, hasRLS);
+
+    // RESTORE method (soft delete)
+    if (schema.softDelete) {
+      generateRestoreMethod(code, schema);
+    }
   }, '};');
   code.line();
 
@@ -180,7 +248,7 @@ function generateServiceMethods(
  * Generate list method
  */
 function generateListMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: boolean): void {
-  const { pascalName, name, rls } = schema;
+  const { pascalName, name } = schema;
 
   code.multiDocComment([
     `List ${pascalName} records with filtering, sorting, and pagination`,
@@ -191,20 +259,7 @@ function generateListMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: b
   ]);
   code.block(`async list(ctx: MiddlewareContext, options?: QueryOptions<${pascalName}Filter>): Promise<${pascalName}[]> {`, () => {
     // Build where clause with RLS
-    if (hasRLS && rls.scope.length > 0) {
-      code.comment('Apply RLS scope to filter');
-      code.line('const rlsFilter: Record<string, unknown> = {};');
-      for (const scope of rls.scope) {
-        code.line(`if (ctx.${scope.contextKey}) {`);
-        code.line(`  rlsFilter.${scope.field} = ctx.${scope.contextKey};`);
-        code.line('}');
-      }
-      code.line();
-      code.line('const where = { ...rlsFilter, ...options?.where };');
-    } else {
-      code.line('const where = options?.where ?? {};');
-    }
-    code.line();
+    generateListWhere(code, schema, hasRLS);
 
     code.line(`return db.${name}.findMany({`);
     code.line('  where,');
@@ -216,6 +271,107 @@ function generateListMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: b
   code.line();
 }
 
+/**
+ * Generate the RLS-scoped where clause shared by list and count methods.
+ * Soft-delete entities also narrow it to the `withDeleted`/`onlyDeleted`
+ * scope of `options`, after the filter so a filter can't widen it.
+ */
+function generateListWhere(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: boolean, filterExpr = 'options?.where'): void {
+  const { rls } = schema;
+  const parts: string[] = [];
+
+  if (hasRLS && rls.scope.length > 0) {
+    code.comment('Apply RLS scope to filter');
+    code.line('const rlsFilter: Record<string, unknown> = {};');
+    for (const scope of rls.scope) {
+      code.line(`if (ctx.${scope.contextKey}) {`);
+      code.line(`  rlsFilter.${scope.field} = ctx.${scope.contextKey};`);
+      code.line('}');
+    }
+    code.line();
+    parts.push('...rlsFilter');
+  }
+
+  if (schema.softDelete) {
+    code.comment('Soft delete: live rows unless withDeleted/onlyDeleted is passed');
+    generateDeletedScopeFromOptions(code);
+    code.line(
+      "const deletedFilter = deletedScope === 'deleted' ? { deletedAt: { not: null } } : deletedScope === 'all' ? {} : { deletedAt: null };"
+    );
+    code.line();
+  }
+
+  if (parts.length === 0 && !schema.softDelete) {
+    code.line(`const where = ${filterExpr} ?? {};`);
+  } else {
+    parts.push(`...${filterExpr}`);
+    if (schema.softDelete) parts.push('...deletedFilter');
+    code.line(`const where = { ${parts.join(', ')} };`);
+  }
+  code.line();
+}
+
+/**
+ * Generate count method
+ */
+function generateCountMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: boolean): void {
+  const { pascalName, name } = schema;
+
+  code.multiDocComment([
+    `Count ${pascalName} records matching a filter`,
+    '',
+    '@param ctx - Middleware context with auth info',
+    '@param filter - Optional filter (RLS scope still applies)',
+    schema.softDelete ? '@param options - withDeleted/onlyDeleted scope' : null,
+    '@returns Number of matching records',
+  ].filter((line): line is string => line !== null));
+  const optionsParam = schema.softDelete ? `, options?: ${deletedScopeOptionsType(schema)}` : '';
+  code.block(`async count(ctx: MiddlewareContext, filter?: ${pascalName}Filter${optionsParam}): Promise<number> {`, () => {
+    generateListWhere(code, schema, hasRLS, 'filter');
+    code.line(`return db.${name}.count({ where });`);
+  }, '},');
+  code.line();
+}
+
+/**
+ * Generate cursor-paginated list method
+ */
+function generateListPageMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: boolean): void {
+  const { pascalName, name } = schema;
+
+  code.multiDocComment([
+    `List ${pascalName} records one cursor page at a time`,
+    '',
+    'Pages are located by keyset (orderBy fields plus id), so rows inserted',
+    'mid-scroll never shift or duplicate results.',
+    '',
+    '@param ctx - Middleware context with auth info',
+    '@param options - Query options (where, orderBy, limit, cursor)',
+    `@returns Page of ${pascalName} records with next/prev cursors`,
+  ]);
+  code.block(`async listPage(ctx: MiddlewareContext, options?: QueryOptions<${pascalName}Filter>): Promise<ListResponse<${pascalName}>> {`, () => {
+    generateListWhere(code, schema, hasRLS);
+
+    code.line(`const limit = options?.limit ?? ${getDefaultLimit(schema)};`);
+    code.line('const keys = getCursorSortKeys(options?.orderBy);');
+    code.line('const cursor = options?.cursor ? decodeCursor(options.cursor) : undefined;');
+    code.line();
+    code.line(`const total = await db.${name}.count({ where });`);
+    code.line(`const rows = await db.${name}.findMany({`);
+    code.line('  where: cursor ? { AND: [where, buildCursorWhere(keys, cursor)] } : where,');
+    code.line("  orderBy: keys.map(([field, dir]) => ({ [field]: isCursorAscending(dir, cursor) ? 'asc' : 'desc' })),");
+    code.line('  take: limit + 1,');
+    code.line('});');
+    code.line('const page = toCursorPage(rows, keys, limit, cursor);');
+    code.line();
+    code.line('return {');
+    code.line('  data: page.items,');
+    code.line('  meta: { total, limit, offset: 0, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },');
+    code.line('};');
+  }, '},');
+  code.line();
+}
+
 /**
  * Generate get method
  */
@@ -227,17 +383,29 @@ function generateGetMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: bo
     '',
     '@param ctx - Middleware context with auth info',
     '@param id - Record ID',
+    schema.softDelete ? '@param options - withDeleted/onlyDeleted scope (live rows by default)' : null,
     `@returns ${pascalName} record`,
     '@throws NotFoundError if record not found',
     '@throws RLSError if access denied',
-  ]);
-  code.block(`async get(ctx: MiddlewareContext, id: string): Promise<${pascalName}> {`, () => {
+  ].filter((line): line is string => line !== null));
+  const optionsParam = schema.softDelete ? `, options?: ${deletedScopeOptionsType(schema)}` : '';
+  code.block(`async get(ctx: MiddlewareContext, id: string${optionsParam}): Promise<${pascalName}> {`, () => {
     code.line(`const record = await db.${name}.findUnique({ where: { id } });`);
     code.line();
     code.line('if (!record) {');
     code.line(`  throw new NotFoundError('${pascalName}', id);`);
     code.line('}');
 
+    if (schema.softDelete) {
+      code.line();
+      code.comment('Soft delete: rows outside the requested scope are not found');
+      generateDeletedScopeFromOptions(code);
+      code.line("const inScope = deletedScope === 'all' || (deletedScope === 'deleted') === (record.deletedAt != null);");
+      code.line('if (!inScope) {');
+      code.line(`  throw new NotFoundError('${pascalName}', id);`);
+      code.line('}');
+    }
+
     // RLS check
     if (hasRLS && rls.scope.length > 0) {
       code.line();
@@ -256,26 +424,32 @@ function generateGetMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: bo
 
 /**
  * Generate create method
+ *
+ * Nested relation writes are part of `data` and reach the db in the same
+ * create() call, which a Prisma-compatible client runs atomically.
  */
-function generateCreateMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: boolean): void {
+function generateCreateMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: boolean, scopedNested: NestedRelation[]): void {
   const { pascalName, name, rls } = schema;
 
   code.multiDocComment([
     `Create a new ${pascalName} record`,
     '',
     '@param ctx - Middleware context with auth info',
-    '@param data - Record data',
+    '@param data - Record data, including nested relation writes',
     `@returns Created ${pascalName} record`,
   ]);
   code.block(`async create(ctx: MiddlewareContext, data: ${pascalName}Create): Promise<${pascalName}> {`, () => {
     // Inject RLS scope values
-    if (hasRLS && rls.scope.length > 0) {
+    if ((hasRLS && rls.scope.length > 0) || scopedNested.length > 0) {
       code.comment('Inject RLS scope values from context');
       code.line('const createData = {');
       code.line('  ...data,');
-      for (const scope of rls.scope) {
-        code.line(`  ${scope.field}: ctx.${scope.contextKey} ?? data.${scope.field},`);
+      if (hasRLS) {
+        for (const scope of rls.scope) {
+          code.line(`  ${scope.field}: ctx.${scope.contextKey} ?? data.${scope.field},`);
+        }
       }
+      code.addLines(scopedNestedLines(scopedNested).map((line) => `  ${line}`));
       code.line('};');
       code.line();
       code.line(`return db.${name}.create({ data: createData });`);
@@ -289,7 +463,7 @@ function generateCreateMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS:
 /**
  * Generate update method
  */
-function generateUpdateMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: boolean): void {
+function generateUpdateMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS: boolean, scopedNested: NestedRelation[]): void {
   const { pascalName, name, rls } = schema;
 
   code.multiDocComment([
@@ -297,23 +471,74 @@ function generateUpdateMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS:
     '',
     '@param ctx - Middleware context with auth info',
     '@param id - Record ID',
-    '@param data - Fields to update',
+    '@param data - Fields to update, including nested relation writes',
+    schema.versioned ? '@param options - expectedVersion the edit was based on' : null,
     `@returns Updated ${pascalName} record`,
     '@throws NotFoundError if record not found',
     '@throws RLSError if access denied',
-  ]);
-  code.block(`async update(ctx: MiddlewareContext, id: string, data: ${pascalName}Update): Promise<${pascalName}> {`, () => {
-    code.comment('Verify access before update');
-    code.line('const existing = await this.get(ctx, id);');
-    code.line();
-    code.line(`return db.${name}.update({`);
-    code.line('  where: { id },');
-    code.line('  data,');
-    code.line('});');
-  }, '},');
+    schema.versioned ? '@throws ConflictError if expectedVersion is stale' : null,
+  ].filter((line): line is string => line !== null));
+  code.block(
+    `async update(ctx: MiddlewareContext, id: string, data: ${pascalName}Update${updateOptionsParam(schema)}): Promise<${pascalName}> {`,
+    () => {
+      code.comment('Verify access before update');
+      code.line('const existing = await this.get(ctx, id);');
+      code.line();
+
+      if (schema.versioned) {
+        code.comment('Optimistic concurrency: reject edits based on a stale version');
+        code.line('if (options?.expectedVersion !== undefined && existing.version !== options.expectedVersion) {');
+        code.line(`  throw new ConflictError('${pascalName}', existing, options.expectedVersion);`);
+        code.line('}');
+        code.line();
+      }
+
+      code.line(`return db.${name}.update({`);
+      code.line(schema.versioned ? '  where: { id, version: existing.version },' : '  where: { id },');
+      if (scopedNested.length > 0 || schema.versioned) {
+        if (scopedNested.length > 0) {
+          code.line('  // Nested rows get the RLS scope values of their own entity');
+        }
+        code.line('  data: {');
+        code.line('    ...data,');
+        code.addLines(scopedNestedLines(scopedNested).map((line) => `    ${line}`));
+        if (schema.versioned) {
+          code.line('    version: existing.version + 1,');
+        }
+        code.line('  },');
+      } else {
+        code.line('  data,');
+      }
+      code.line('});');
+    },
+    '},'
+  );
   code.line();
 }
 
+/**
+ * Object members overriding the nested creates of `data` with copies that
+ * carry the RLS scope values of their target entity
+ */
+function scopedNestedLines(scopedNested: NestedRelation[]): string[] {
+  const lines: string[] = [];
+  for (const { relation, target } of scopedNested) {
+    const write = `data.${relation.name}`;
+    const scoped = (row: string) =>
+      target.rls.scope.map((scope) => `${scope.field}: ctx.${scope.contextKey} ?? ${row}.${scope.field}`).join(', ');
+
+    lines.push(`${relation.name}: ${write} && {`);
+    lines.push(`  ...${write},`);
+    if (relation.type === 'hasMany') {
+      lines.push(`  create: ${write}.create?.map((row) => ({ ...row, ${scoped('row')} })),`);
+    } else {
+      lines.push(`  create: ${write}.create && { ...${write}.create, ${scoped(`${write}.create`)} },`);
+    }
+    lines.push('},');
+  }
+  return lines;
+}
+
 /**
  * Generate delete method
  */
@@ -325,14 +550,53 @@ function generateDeleteMethod(code: CodeBuilder, schema: AnalyzedSchema, hasRLS:
     '',
     '@param ctx - Middleware context with auth info',
     '@param id - Record ID',
+    schema.softDelete ? '@param options - purge: remove the row for good instead of setting deletedAt' : null,
     '@throws NotFoundError if record not found',
     '@throws RLSError if access denied',
+  ].filter((line): line is string => line !== null));
+
+  if (!schema.softDelete) {
+    code.block('async delete(ctx: MiddlewareContext, id: string): Promise<void> {', () => {
+      code.comment('Verify access before delete');
+      code.line('await this.get(ctx, id);');
+      code.line();
+      code.line(`await db.${name}.delete({ where: { id } });`);
+    }, '},');
+    return;
+  }
+
+  code.block('async delete(ctx: MiddlewareContext, id: string, options?: { purge?: boolean }): Promise<void> {', () => {
+    code.comment('Verify access before delete (a purge may target a soft-deleted row)');
+    code.line('await this.get(ctx, id, { withDeleted: options?.purge });');
+    code.line();
+    code.line('if (options?.purge) {');
+    code.line(`  await db.${name}.delete({ where: { id } });`);
+    code.line('  return;');
+    code.line('}');
+    code.line(`await db.${name}.update({ where: { id }, data: { deletedAt: new Date() } });`);
+  }, '},');
+}
+
+/**
+ * Generate restore method for a soft-delete entity
+ */
+function generateRestoreMethod(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { pascalName, name } = schema;
+
+  code.line();
+  code.multiDocComment([
+    `Restore a soft-deleted ${pascalName} record`,
+    '',
+    '@param ctx - Middleware context with auth info',
+    '@param id - Record ID',
+    `@returns Restored ${pascalName} record`,
+    '@throws NotFoundError if no soft-deleted record has this ID',
+    '@throws RLSError if access denied',
   ]);
-  code.block('async delete(ctx: MiddlewareContext, id: string): Promise<void> {', () => {
-    code.comment('Verify access before delete');
-    code.line('await this.get(ctx, id);');
+  code.block(`async restore(ctx: MiddlewareContext, id: string): Promise<${pascalName}> {`, () => {
+    code.line('await this.get(ctx, id, { onlyDeleted: true });');
     code.line();
-    code.line(`await db.${name}.delete({ where: { id } });`);
+    code.line(`return db.${name}.update({ where: { id }, data: { deletedAt: null } });`);
   }, '},');
 }
 
@@ -545,17 +809,17 @@ function generateResolverFunction(code: CodeBuilder, endpoint: AnalyzedEndpoint)
   // Determine if the resolver is an arrow function or regular function
   const isArrowFunction = mockResolverSource.trim().startsWith('async') && mockResolverSource.includes('=>');
 
-  if (isArrowFunction) {
-    // Arrow function: convert to named function
-    // Pattern: async ({ params, body, db }) => { ... }
-    // or: async (ctx) => { ... }
-    code.line(`const ${name}Resolver = ${mockResolverSource.trim()};`);
-  } else if (endpoint.mockResolverName) {
+  if (!isArrowFunction && endpoint.mockResolverName) {
     // Named function reference - import or use directly
     code.line(`const ${name}Resolver = ${endpoint.mockResolverName};`);
   } else {
-    // Regular function - wrap in a variable
-    code.line(`const ${name}Resolver: (ctx: ${pascalName}ResolverContext) => Promise<${responseType}> = ${mockResolverSource.trim()};`);
+    // Arrow or regular function - typed with the context execute() passes,
+    // so destructured params are typed and a resolver ignoring them still fits
+    // Pattern: async ({ params, body, db }) => { ... }
+    // or: async () => { ... }
+    code.line(
+      `const ${name}Resolver: (ctx: ${pascalName}ResolverContext) => ${responseType} | Promise<${responseType}> = ${mockResolverSource.trim()};`
+    );
   }
   code.line();
 }
@@ -0,0 +1,144 @@
+/**
+ * Code generators for views defined with defineView()
+ *
+ * Generates the view response types and a fetch client shared by every
+ * client target. Mock handlers live in mock/views.ts, server resolvers in
+ * shared/views.ts.
+ *
+ * @module cli/generators/views
+ * @category CLI
+ */
+
+import type { AnalyzedSchema, AnalyzedView, AnalyzedViewField } from '../types';
+import { CodeBuilder } from '../utils/code-builder';
+import { getViewQueryParams } from './shared/views';
+
+/**
+ * Keep the views whose root and embedded entities are all in `schemas`
+ *
+ * Client targets only generate types for their own entities, so a view
+ * referring to an excluded entity would not compile.
+ *
+ * @param views - Analyzed views
+ * @param schemas - Schemas of the target
+ * @returns Views that can be generated for the target
+ */
+export function filterViewsForSchemas(views: AnalyzedView[], schemas: AnalyzedSchema[]): AnalyzedView[] {
+  const names = new Set(schemas.map((s) => s.name));
+  return views.filter((view) => getViewEntities(view).every((entity) => names.has(entity)));
+}
+
+/**
+ * Names of the entities a view reads from
+ */
+function getViewEntities(view: AnalyzedView): string[] {
+  const entities = view.root ? [view.root.entity] : [];
+  const visit = (fields: AnalyzedViewField[]): void => {
+    for (const field of fields) {
+      if (field.embed) entities.push(field.embed.entity);
+      if (field.fields) visit(field.fields);
+    }
+  };
+  visit(view.fields);
+  return entities;
+}
+
+/**
+ * Generate params and response types for all views
+ *
+ * Appended to types.ts, so entity types are referenced by their bare names.
+ *
+ * @param views - Analyzed views
+ * @returns Generated TypeScript code for types
+ */
+export function generateViewTypes(views: AnalyzedView[]): string {
+  const code = new CodeBuilder();
+
+  code.line();
+  code.comment('=============================================================================');
+  code.comment('View Types');
+  code.comment('=============================================================================');
+  code.line();
+
+  for (const view of views) {
+    code.comment(`Parameters for ${view.endpoint}`);
+    code.block(`export interface ${view.pascalName}ViewParams {`, () => {
+      for (const param of view.params) {
+        code.line(`${param}: string;`);
+      }
+    });
+    code.line();
+
+    code.comment(`Response from ${view.endpoint}`);
+    code.block(`export interface ${view.pascalName}View {`, () => {
+      generateFieldTypes(code, view.fields);
+    });
+    code.line();
+  }
+
+  return code.toString();
+}
+
+/**
+ * Generate one property per view field, expanding nested objects
+ */
+function generateFieldTypes(code: CodeBuilder, fields: AnalyzedViewField[]): void {
+  for (const field of fields) {
+    if (field.kind === 'object' && field.fields) {
+      code.block(`${field.name}: {`, () => generateFieldTypes(code, field.fields!), '};');
+    } else {
+      code.line(`${field.name}: ${field.tsType};`);
+    }
+  }
+}
+
+/**
+ * Generate the fetch client for all views
+ *
+ * Views are read-only GET endpoints, so the client works against the mock
+ * handlers and every server target alike.
+ *
+ * @param views - Analyzed views
+ * @returns Generated TypeScript code for views.ts
+ */
+export function generateViewClient(views: AnalyzedView[]): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.comment('Client for views defined with defineView()');
+  code.line();
+  code.line("import type * as Types from './types';");
+  code.line();
+
+  code.comment('API base URL - configure based on environment');
+  code.line("const API_BASE = typeof window !== 'undefined' ? window.location.origin : '';");
+  code.line();
+
+  code.block('async function fetchView<T>(path: string, query: Record<string, string> = {}): Promise<T> {', () => {
+    code.line('const url = new URL(`${API_BASE}${path}`);');
+    code.block('for (const [key, value] of Object.entries(query)) {', () => {
+      code.line('url.searchParams.set(key, value);');
+    });
+    code.line('const response = await fetch(url.toString());');
+    code.line('if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);');
+    code.line('return response.json();');
+  });
+  code.line();
+
+  code.block('export const views = {', () => {
+    for (const view of views) {
+      let path = view.endpoint;
+      for (const param of view.pathParams) {
+        path = path.replace(`:${param}`, `\${encodeURIComponent(params.${param})}`);
+      }
+      const queryParams = getViewQueryParams(view);
+      const query = queryParams.length > 0 ? `, { ${queryParams.map((p) => `${p}: params.${p}`).join(', ')} }` : '';
+
+      code.docComment(`GET ${view.endpoint}`);
+      code.line(`${view.camelName}: (params: Types.${view.pascalName}ViewParams): Promise<Types.${view.pascalName}View> =>`);
+      code.line(`  fetchView(\`${path}\`${query}),`);
+    }
+  }, '};');
+
+  return code.toString();
+}
@@ -0,0 +1,181 @@
+/**
+ * TanStack Vue Query composables generator
+ *
+ * Mirrors the React hooks (same names, query keys and invalidation rules)
+ * so apps can switch frameworks without re-learning the cache layout.
+ *
+ * @module cli/generators/vue-composables
+ * @category CLI
+ */
+
+import type { AnalyzedSchema } from '../types';
+import { CodeBuilder } from '../utils/code-builder';
+import { toPascalCase } from '../utils/pluralize';
+import { isCursorPaginated, hasCursorPagination } from './shared/cursor';
+
+/**
+ * Generate Vue Query composables for all entities
+ *
+ * @param schemas - Analyzed schemas
+ * @returns Generated TypeScript code
+ */
+export function generateVueComposables(schemas: AnalyzedSchema[]): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  const vueQueryImports = hasCursorPagination(schemas)
+    ? 'useQuery, useInfiniteQuery, useMutation, useQueryClient'
+    : 'useQuery, useMutation, useQueryClient';
+  code.line(`import { ${vueQueryImports} } from '@tanstack/vue-query';`);
+  code.line("import { computed, toValue, type MaybeRefOrGetter } from 'vue';");
+  code.line("import { useSchemockClient } from './plugin';");
+  code.line("import type * as Types from './types';");
+  code.line();
+
+  for (const schema of schemas) {
+    if (schema.isJunctionTable) continue;
+    generateEntityComposables(code, schema);
+  }
+
+  return code.toString();
+}
+
+/**
+ * Generate composables for a single entity
+ */
+function generateEntityComposables(code: CodeBuilder, schema: AnalyzedSchema): void {
+  const { name, pascalName, pluralName, pascalPluralName, relations } = schema;
+  const hasRelations = relations.length > 0;
+  const cursorPaginated = isCursorPaginated(schema);
+
+  code.comment(`==================== ${pascalName} Composables ====================`);
+  code.line();
+
+  // useEntities (list)
+  code.docComment(`Fetch list of ${pluralName} (options may be a ref or getter)`);
+  code.block(`export function use${pascalPluralName}(options?: MaybeRefOrGetter<{`, () => {
+    code.line(`where?: Types.${pascalName}Filter;`);
+    if (hasRelations) {
+      code.line(`include?: Types.${pascalName}Include[];`);
+    }
+    code.line("orderBy?: Record<string, 'asc' | 'desc'>;");
+    code.line('limit?: number;');
+    code.line(cursorPaginated ? 'cursor?: string;' : 'offset?: number;');
+    code.line('enabled?: boolean;');
+  }, '} | undefined>) {');
+  code.indent();
+  code.line('const api = useSchemockClient();');
+  code.block('return useQuery({', () => {
+    code.line(`queryKey: computed(() => ['${pluralName}', toValue(options)]),`);
+    code.line(`queryFn: () => api.${name}.list(toValue(options)),`);
+    code.line('enabled: computed(() => toValue(options)?.enabled ?? true),');
+  }, '});');
+  code.dedent();
+  code.line('}');
+  code.line();
+
+  // useInfiniteEntities (cursor pagination)
+  if (cursorPaginated) {
+    code.docComment(`Fetch pages of ${pluralName} by cursor (for infinite scrolling)`);
+    code.block(`export function useInfinite${pascalPluralName}(options?: MaybeRefOrGetter<{`, () => {
+      code.line(`where?: Types.${pascalName}Filter;`);
+      if (hasRelations) {
+        code.line(`include?: Types.${pascalName}Include[];`);
+      }
+      code.line("orderBy?: Record<string, 'asc' | 'desc'>;");
+      code.line('limit?: number;');
+      code.line('enabled?: boolean;');
+    }, '} | undefined>) {');
+    code.indent();
+    code.line('const api = useSchemockClient();');
+    code.block('return useInfiniteQuery({', () => {
+      code.line(`queryKey: computed(() => ['${pluralName}', 'infinite', toValue(options)]),`);
+      code.line(`queryFn: ({ pageParam }) => api.${name}.list({ ...toValue(options), cursor: pageParam }),`);
+      code.line('initialPageParam: undefined as string | undefined,');
+      code.line('getNextPageParam: (lastPage) => lastPage.meta.nextCursor,');
+      code.line('getPreviousPageParam: (firstPage) => firstPage.meta.prevCursor,');
+      code.line('enabled: computed(() => toValue(options)?.enabled ?? true),');
+    }, '});');
+    code.dedent();
+    code.line('}');
+    code.line();
+  }
+
+  // useEntity (single)
+  code.docComment(`Fetch single ${pascalName} by ID (id may be a ref or getter)`);
+  code.block(`export function use${pascalName}(id: MaybeRefOrGetter<string | undefined>, options?: MaybeRefOrGetter<{`, () => {
+    if (hasRelations) {
+      code.line(`include?: Types.${pascalName}Include[];`);
+    }
+    code.line('enabled?: boolean;');
+  }, '} | undefined>) {');
+  code.indent();
+  code.line('const api = useSchemockClient();');
+  code.block('return useQuery({', () => {
+    if (hasRelations) {
+      code.line(`queryKey: computed(() => ['${pluralName}', toValue(id), toValue(options)?.include]),`);
+      code.line(`queryFn: () => api.${name}.get(toValue(id)!, { include: toValue(options)?.include }),`);
+    } else {
+      code.line(`queryKey: computed(() => ['${pluralName}', toValue(id)]),`);
+      code.line(`queryFn: () => api.${name}.get(toValue(id)!),`);
+    }
+    code.line('enabled: computed(() => (toValue(options)?.enabled ?? true) && !!toValue(id)),');
+  }, '});');
+  code.dedent();
+  code.line('}');
+  code.line();
+
+  // Convenience composables for common includes
+  for (const rel of relations) {
+    const composableName = `use${pascalName}With${toPascalCase(rel.name)}`;
+    code.docComment(`Fetch ${pascalName} with ${rel.name} included`);
+    code.block(`export function ${composableName}(id: MaybeRefOrGetter<string | undefined>) {`, () => {
+      code.line(`return use${pascalName}(id, { include: ['${rel.name}'] });`);
+    });
+    code.line();
+  }
+
+  // useCreateEntity
+  code.docComment(`Create a new ${pascalName}`);
+  code.block(`export function useCreate${pascalName}() {`, () => {
+    code.line('const api = useSchemockClient();');
+    code.line('const queryClient = useQueryClient();');
+    code.block('return useMutation({', () => {
+      code.line(`mutationFn: (data: Types.${pascalName}Create) => api.${name}.create(data),`);
+      code.block('onSuccess: () => {', () => {
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+      }, '},');
+    }, '});');
+  });
+  code.line();
+
+  // useUpdateEntity
+  code.docComment(`Update an existing ${pascalName}`);
+  code.block(`export function useUpdate${pascalName}() {`, () => {
+    code.line('const api = useSchemockClient();');
+    code.line('const queryClient = useQueryClient();');
+    code.block('return useMutation({', () => {
+      code.line(`mutationFn: ({ id, data }: { id: string; data: Types.${pascalName}Update }) =>`);
+      code.line(`  api.${name}.update(id, data),`);
+      code.block('onSuccess: (_, { id }) => {', () => {
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}', id] });`);
+      }, '},');
+    }, '});');
+  });
+  code.line();
+
+  // useDeleteEntity
+  code.docComment(`Delete a ${pascalName}`);
+  code.block(`export function useDelete${pascalName}() {`, () => {
+    code.line('const api = useSchemockClient();');
+    code.line('const queryClient = useQueryClient();');
+    code.block('return useMutation({', () => {
+      code.line(`mutationFn: (id: string) => api.${name}.delete(id),`);
+      code.block('onSuccess: () => {', () => {
+        code.line(`queryClient.invalidateQueries({ queryKey: ['${pluralName}'] });`);
+      }, '},');
+    }, '});');
+  });
+  code.line();
+}
@@ -0,0 +1,101 @@
+/**
+ * Vue plugin generator for API client injection
+ *
+ * The Vue counterpart of the React provider: installs a configured API
+ * client that the generated composables pick up via inject().
+ *
+ * @module cli/generators/vue-plugin
+ * @category CLI
+ */
+
+import { CodeBuilder } from '../utils/code-builder';
+
+/**
+ * Generate Vue plugin for API client injection
+ *
+ * @returns Generated TypeScript code
+ */
+export function generateVuePlugin(): string {
+  const code = new CodeBuilder();
+
+  code.comment('GENERATED BY SCHEMOCK - DO NOT EDIT');
+  code.line("import { inject, type App, type InjectionKey } from 'vue';");
+  code.line("import { type ApiClient, api as defaultApi } from './client';");
+  code.line();
+
+  // Injection key
+  code.multiDocComment([
+    'Injection key for the Schemock API client.',
+    '',
+    'Exposed so components can override the client for a subtree with provide().',
+  ]);
+  code.line("export const SchemockClientKey: InjectionKey<ApiClient> = Symbol('SchemockClient');");
+  code.line();
+
+  // Plugin options type
+  code.multiDocComment([
+    'Options for the SchemockPlugin.',
+  ]);
+  code.block('export interface SchemockPluginOptions {', () => {
+    code.docComment('Optional configured API client. If not provided, uses the default unconfigured client.');
+    code.line('client?: ApiClient;');
+  });
+  code.line();
+
+  // Plugin
+  code.multiDocComment([
+    'Vue plugin for injecting a configured API client into composables.',
+    '',
+    'Install it next to VueQueryPlugin to provide an auth-configured client',
+    'to all Schemock composables.',
+    '',
+    '@example',
+    '```ts',
+    "import { createApp } from 'vue';",
+    "import { VueQueryPlugin } from '@tanstack/vue-query';",
+    "import { SchemockPlugin, createClient } from './generated';",
+    '',
+    '// Create a client with auth interceptors',
+    'const api = createClient({',
+    '  onRequest: (ctx) => {',
+    '    const token = localStorage.getItem("authToken");',
+    '    if (token) {',
+    '      ctx.headers.Authorization = `Bearer ${token}`;',
+    '    }',
+    '    return ctx;',
+    '  },',
+    '});',
+    '',
+    'createApp(App)',
+    '  .use(VueQueryPlugin)',
+    '  .use(SchemockPlugin, { client: api })',
+    "  .mount('#app');",
+    '```',
+  ]);
+  code.block('export const SchemockPlugin = {', () => {
+    code.block('install(app: App, options: SchemockPluginOptions = {}): void {', () => {
+      code.line('app.provide(SchemockClientKey, options.client ?? defaultApi);');
+    }, '},');
+  }, '};');
+  code.line();
+
+  // Composable to access the client
+  code.multiDocComment([
+    'Composable to access the API client from the current app or component tree.',
+    '',
+    'This is used internally by generated composables to access the configured client.',
+    'You can also use it directly in setup() to call API methods.',
+    '',
+    '@returns The injected API client (or default if the plugin is not installed)',
+  ]);
+  code.block('export function useSchemockClient(): ApiClient {', () => {
+    code.line('return inject(SchemockClientKey, defaultApi);');
+  });
+  code.line();
+
+  // Re-export types for convenience
+  code.comment('Re-export client types for convenience');
+  code.line("export type { ApiClient } from './client';");
+
+  return code.toString();
+}
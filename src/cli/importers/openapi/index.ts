@@ -0,0 +1,47 @@
+/**
+ * OpenAPI importer
+ *
+ * Maps an OpenAPI 3 document back to defineData() entities and
+ * defineEndpoint() definitions.
+ *
+ * @module cli/importers/openapi
+ * @category CLI
+ */
+
+import type { ImportResult } from '../../types';
+import type { ImportContext, OpenApiDocument } from './schemas';
+import { componentsToEntities, findEntities } from './to-entities';
+import { operationsToEndpoints } from './to-endpoints';
+
+export type {
+  OpenApiDocument,
+  OpenApiSchema,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiPathItem,
+  OpenApiRequestBody,
+  OpenApiResponse,
+} from './schemas';
+export { componentsToEntities, findEntities } from './to-entities';
+export { operationsToEndpoints } from './to-endpoints';
+
+/**
+ * Import the entities and custom endpoints of an OpenAPI document
+ *
+ * @param doc - Parsed OpenAPI 3.0 or 3.1 document
+ * @returns Entities, endpoints and warnings for anything imported with losses
+ */
+export function importOpenApiSpec(doc: OpenApiDocument): ImportResult {
+  if (typeof doc?.openapi !== 'string' || !doc.openapi.startsWith('3.')) {
+    const version = (doc as { swagger?: string } | undefined)?.swagger;
+    throw new Error(`Only OpenAPI 3.x documents are supported${version ? ` (got Swagger ${version})` : ''}`);
+  }
+
+  const ctx: ImportContext = { doc, entities: new Map(), warnings: [] };
+  ctx.entities = findEntities(ctx);
+
+  const entities = componentsToEntities(ctx);
+  const endpoints = operationsToEndpoints(ctx);
+
+  return { entities, endpoints, warnings: ctx.warnings };
+}
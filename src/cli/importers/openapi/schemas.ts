@@ -0,0 +1,373 @@
+/**
+ * OpenAPI document model and schema mapping
+ *
+ * Resolves local $refs, flattens allOf/oneOf/nullable compositions and
+ * maps the result to field builders. The inverse of fieldToSchema() in
+ * generator/openapi.ts.
+ *
+ * @module cli/importers/openapi/schemas
+ * @category CLI
+ */
+
+import type { ImportedField } from '../../types';
+
+/**
+ * Schema Object (OpenAPI 3.0 and 3.1)
+ */
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  items?: OpenApiSchema;
+  additionalProperties?: boolean | OpenApiSchema;
+  enum?: unknown[];
+  nullable?: boolean;
+  readOnly?: boolean;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+}
+
+/**
+ * Parameter Object
+ */
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+/**
+ * Request Body Object
+ */
+export interface OpenApiRequestBody {
+  $ref?: string;
+  required?: boolean;
+  content?: Record<string, { schema?: OpenApiSchema }>;
+}
+
+/**
+ * Response Object
+ */
+export interface OpenApiResponse {
+  $ref?: string;
+  description?: string;
+  content?: Record<string, { schema?: OpenApiSchema }>;
+}
+
+/**
+ * Operation Object
+ */
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses?: Record<string, OpenApiResponse>;
+}
+
+/**
+ * Path Item Object
+ */
+export interface OpenApiPathItem {
+  parameters?: OpenApiParameter[];
+  get?: OpenApiOperation;
+  put?: OpenApiOperation;
+  post?: OpenApiOperation;
+  delete?: OpenApiOperation;
+  patch?: OpenApiOperation;
+  head?: OpenApiOperation;
+  options?: OpenApiOperation;
+  trace?: OpenApiOperation;
+}
+
+/**
+ * OpenAPI 3 document (the parts the importer reads)
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths?: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+    responses?: Record<string, OpenApiResponse>;
+  };
+}
+
+/**
+ * State shared by the entity and endpoint mappers
+ */
+export interface ImportContext {
+  doc: OpenApiDocument;
+  /** Entity name by component schema name */
+  entities: Map<string, string>;
+  warnings: string[];
+}
+
+const SCHEMA_PREFIX = '#/components/schemas/';
+
+/**
+ * Follow $ref until a concrete object is reached
+ *
+ * Only local references (#/...) are supported; external and dangling ones
+ * resolve to an empty object and are reported once.
+ */
+export function resolveRef<T extends { $ref?: string }>(ctx: ImportContext, value: T): T {
+  let current = value;
+  for (let depth = 0; current.$ref && depth < 32; depth++) {
+    const ref = current.$ref;
+    if (!ref.startsWith('#/')) {
+      warnOnce(ctx, `External reference ${ref} is not imported`);
+      return {} as T;
+    }
+
+    let target: unknown = ctx.doc;
+    for (const segment of ref.slice(2).split('/')) {
+      target = (target as Record<string, unknown> | undefined)?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+    if (target === undefined) {
+      warnOnce(ctx, `Reference ${ref} does not exist`);
+      return {} as T;
+    }
+    current = target as T;
+  }
+  return current;
+}
+
+function warnOnce(ctx: ImportContext, warning: string): void {
+  if (!ctx.warnings.includes(warning)) ctx.warnings.push(warning);
+}
+
+/**
+ * Component schema name of a $ref (#/components/schemas/User -> User)
+ */
+export function componentName(schema: OpenApiSchema): string | undefined {
+  return schema.$ref?.startsWith(SCHEMA_PREFIX) ? schema.$ref.slice(SCHEMA_PREFIX.length) : undefined;
+}
+
+/**
+ * Entity referenced by a property: a $ref to an entity component, possibly
+ * wrapped in allOf/oneOf/anyOf to make it nullable
+ */
+export function entityTarget(ctx: ImportContext, schema: OpenApiSchema): string | undefined {
+  const wrapped = schema.allOf ?? schema.oneOf ?? schema.anyOf;
+  const nonNull = wrapped?.filter((s) => s.type !== 'null' && !(s.enum?.length === 1 && s.enum[0] === null));
+  const inner = nonNull?.length === 1 ? nonNull[0] : schema;
+  const name = componentName(inner);
+  return name ? ctx.entities.get(name) : undefined;
+}
+
+/**
+ * Resolve references and compositions into a single schema
+ *
+ * allOf members are merged, a oneOf/anyOf with one non-null member becomes
+ * that member, and 3.1 type arrays and null members set nullable.
+ */
+export function flattenSchema(ctx: ImportContext, schema: OpenApiSchema): OpenApiSchema {
+  let current = resolveRef(ctx, schema);
+
+  if (current.allOf) {
+    const { allOf, ...own } = current;
+    const merged = allOf.map((part) => flattenSchema(ctx, part)).reduce<OpenApiSchema>(mergeSchemas, {});
+    current = mergeSchemas(merged, own);
+  }
+
+  const variants = current.oneOf ?? current.anyOf;
+  if (variants) {
+    const nonNull = variants.filter((v) => resolveRef(ctx, v).type !== 'null');
+    if (nonNull.length === 1) {
+      const { oneOf, anyOf, ...own } = current;
+      const inner = flattenSchema(ctx, nonNull[0]);
+      current = { ...mergeSchemas(inner, own), nullable: own.nullable || inner.nullable || nonNull.length < variants.length };
+    }
+  }
+
+  if (Array.isArray(current.type)) {
+    const types = current.type.filter((t) => t !== 'null');
+    current = { ...current, type: types.length === 1 ? types[0] : undefined, nullable: current.nullable || types.length < current.type.length };
+  }
+
+  return current;
+}
+
+function mergeSchemas(base: OpenApiSchema, extra: OpenApiSchema): OpenApiSchema {
+  return {
+    ...base,
+    ...extra,
+    ...(base.properties || extra.properties ? { properties: { ...base.properties, ...extra.properties } } : {}),
+    ...(base.required || extra.required ? { required: [...new Set([...(base.required ?? []), ...(extra.required ?? [])])] } : {}),
+  };
+}
+
+/**
+ * Map a schema to a field
+ *
+ * Component $refs are inlined as objects; a component already being
+ * expanded further up becomes an empty object to break cycles.
+ *
+ * @param ctx - Import context
+ * @param name - Field name
+ * @param schema - Property schema
+ * @param required - Whether the property is listed in "required"
+ * @param where - Location for warnings (User.email, POST /orders body)
+ * @param expanding - Components being expanded
+ */
+export function schemaToField(
+  ctx: ImportContext,
+  name: string,
+  schema: OpenApiSchema,
+  required: boolean,
+  where: string,
+  expanding: ReadonlySet<string> = new Set()
+): ImportedField {
+  const components = [schema, ...(schema.allOf ?? [])].map(componentName).filter((c): c is string => c !== undefined);
+  const circular = components.find((c) => expanding.has(c));
+  if (circular) {
+    return { name, type: 'object', nullable: !required, unique: false, comment: `circular reference to ${circular}` };
+  }
+
+  const flat = flattenSchema(ctx, schema);
+  const inner = new Set([...expanding, ...components]);
+  const field: ImportedField = {
+    name,
+    ...schemaType(ctx, flat, where, inner),
+    nullable: flat.nullable === true || (!required && flat.default === undefined),
+    unique: false,
+  };
+
+  if (field.type === 'string' || field.type === 'email' || field.type === 'url') {
+    if (flat.minLength !== undefined) field.min = flat.minLength;
+    if (flat.maxLength !== undefined) field.max = flat.maxLength;
+    if (flat.pattern !== undefined) {
+      try {
+        // RegExp#source escapes "/" for use in a regex literal
+        field.pattern = new RegExp(flat.pattern).source;
+      } catch {
+        ctx.warnings.push(`Pattern of ${where} is not imported: ${flat.pattern}`);
+      }
+    }
+  } else if (field.type === 'number' || field.type === 'int') {
+    if (flat.minimum !== undefined) field.min = flat.minimum;
+    if (flat.maximum !== undefined) field.max = flat.maximum;
+  }
+
+  if (flat.default !== undefined) {
+    if (defaultFits(field, flat.default)) {
+      field.default = flat.default;
+    } else {
+      ctx.warnings.push(`Default of ${where} is not imported: ${JSON.stringify(flat.default)}`);
+    }
+  }
+  if (flat.readOnly) field.readOnly = true;
+
+  return field;
+}
+
+function schemaType(
+  ctx: ImportContext,
+  schema: OpenApiSchema,
+  where: string,
+  expanding: ReadonlySet<string>
+): Omit<ImportedField, 'name' | 'nullable' | 'unique'> {
+  const values = schema.enum?.filter((v) => v !== null);
+  if (values && values.length > 0) {
+    return values.every((v) => typeof v === 'string')
+      ? { type: 'enum', values: values as string[] }
+      : { type: schema.type === 'integer' ? 'int' : 'number', comment: `enum: ${values.join(', ')}` };
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return stringType(schema.format);
+    case 'integer':
+      return { type: 'int' };
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'array': {
+      const items = schemaToField(ctx, 'item', schema.items ?? {}, true, `${where}[]`, expanding);
+      return { type: 'array', items: { ...items, comment: undefined }, ...(items.comment ? { comment: items.comment } : {}) };
+    }
+  }
+
+  if (schema.properties) {
+    const required = schema.required ?? [];
+    return {
+      type: 'object',
+      shape: Object.entries(schema.properties).map(([key, property]) =>
+        schemaToField(ctx, key, property, required.includes(key), `${where}.${key}`, expanding)
+      ),
+    };
+  }
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) {
+    const names = variants.map((v) => componentName(v) ?? flattenSchema(ctx, v).type ?? 'object');
+    return { type: 'object', comment: `${schema.oneOf ? 'oneOf' : 'anyOf'}: ${names.join(' | ')}` };
+  }
+
+  return { type: 'object' };
+}
+
+/**
+ * Builder for a string format
+ */
+function stringType(format: string | undefined): Pick<ImportedField, 'type' | 'comment'> {
+  switch (format) {
+    case undefined:
+      return { type: 'string' };
+    case 'uuid':
+      return { type: 'uuid' };
+    case 'email':
+      return { type: 'email' };
+    case 'uri':
+    case 'url':
+      return { type: 'url' };
+    case 'date-time':
+      return { type: 'date' };
+    case 'date':
+      return { type: 'date', comment: 'format: date' };
+    default:
+      return { type: 'string', comment: `format: ${format}` };
+  }
+}
+
+/**
+ * Whether a default value can be passed to the field's .default()
+ */
+function defaultFits(field: ImportedField, value: unknown): boolean {
+  switch (field.type) {
+    case 'enum':
+      return field.values!.includes(value as string);
+    case 'number':
+    case 'int':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'date':
+      return false;
+    default:
+      return typeof value === 'string';
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Map OpenAPI operations to custom endpoints
+ *
+ * Operations on /<entities> and /<entities>/{id} are the CRUD routes every
+ * target already generates for an entity and are skipped. Everything else
+ * becomes a defineEndpoint() definition.
+ *
+ * @module cli/importers/openapi/to-endpoints
+ * @category CLI
+ */
+
+import type { EndpointMethod } from '../../../schema/types';
+import type { ImportedEndpoint, ImportedField } from '../../types';
+import { singularize } from '../../utils/pluralize';
+import {
+  flattenSchema,
+  resolveRef,
+  schemaToField,
+  type ImportContext,
+  type OpenApiOperation,
+  type OpenApiParameter,
+  type OpenApiSchema,
+} from './schemas';
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+const UNSUPPORTED_METHODS = ['head', 'options', 'trace'] as const;
+const COLLECTION_METHODS = ['get', 'post'];
+const ITEM_METHODS = ['get', 'put', 'patch', 'delete'];
+
+/**
+ * Convert non-CRUD operations to endpoints
+ *
+ * @param ctx - Import context with entities filled in
+ * @returns Endpoints in document order
+ */
+export function operationsToEndpoints(ctx: ImportContext): ImportedEndpoint[] {
+  const endpoints: ImportedEndpoint[] = [];
+  const taken: string[] = [];
+
+  for (const [path, pathItem] of Object.entries(ctx.doc.paths ?? {})) {
+    for (const method of UNSUPPORTED_METHODS) {
+      if (pathItem[method]) ctx.warnings.push(`${method.toUpperCase()} ${path} is not imported: defineEndpoint has no ${method.toUpperCase()} method`);
+    }
+
+    for (const method of METHODS) {
+      const operation = pathItem[method];
+      if (!operation || isCrudOperation(ctx, path, method)) continue;
+
+      const name = uniqueName(endpointName(operation, method, path), taken);
+      taken.push(name);
+      endpoints.push(operationToEndpoint(ctx, operation, name, method.toUpperCase() as EndpointMethod, path, pathItem.parameters ?? []));
+    }
+  }
+
+  return endpoints;
+}
+
+function operationToEndpoint(
+  ctx: ImportContext,
+  operation: OpenApiOperation,
+  name: string,
+  method: EndpointMethod,
+  path: string,
+  sharedParameters: OpenApiParameter[]
+): ImportedEndpoint {
+  const label = `${method} ${path}`;
+
+  // Operation parameters override path-level ones with the same name and location
+  const parameters = new Map<string, OpenApiParameter>();
+  for (const parameter of [...sharedParameters, ...(operation.parameters ?? [])].map((p) => resolveRef(ctx, p))) {
+    parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+
+  const params: ImportedField[] = [];
+  for (const parameter of parameters.values()) {
+    if (parameter.in !== 'path' && parameter.in !== 'query') {
+      ctx.warnings.push(`${parameter.in} parameter "${parameter.name}" of ${label} is not imported`);
+      continue;
+    }
+    const required = parameter.in === 'path' || parameter.required === true;
+    params.push(schemaToField(ctx, parameter.name, parameter.schema ?? { type: 'string' }, required, `${label} ${parameter.name}`));
+  }
+
+  const description = (operation.summary ?? operation.description)?.split('\n')[0].trim();
+  return {
+    name,
+    path: path.replace(/\{([^}]+)\}/g, ':$1'),
+    method,
+    ...(description ? { description } : {}),
+    ...(operation.tags?.length ? { group: operation.tags[0] } : {}),
+    params,
+    body: requestBodyFields(ctx, operation, label),
+    response: responseFields(ctx, operation, label),
+  };
+}
+
+function requestBodyFields(ctx: ImportContext, operation: OpenApiOperation, label: string): ImportedField[] {
+  if (!operation.requestBody) return [];
+  const schema = contentSchema(resolveRef(ctx, operation.requestBody).content);
+  return schema ? objectFields(ctx, schema, `${label} body`) : [];
+}
+
+/**
+ * Fields of the first 2xx response with a body
+ */
+function responseFields(ctx: ImportContext, operation: OpenApiOperation, label: string): ImportedField[] {
+  const statuses = Object.keys(operation.responses ?? {}).filter((s) => /^2(\d\d|XX)$/i.test(s)).sort();
+  for (const status of statuses) {
+    const schema = contentSchema(resolveRef(ctx, operation.responses![status]).content);
+    if (schema) return objectFields(ctx, schema, `${label} response`);
+  }
+  return [];
+}
+
+/**
+ * Schema of a JSON (or form) media type
+ */
+function contentSchema(content: Record<string, { schema?: OpenApiSchema }> | undefined): OpenApiSchema | undefined {
+  const entries = Object.entries(content ?? {});
+  const preferred = entries.find(([type]) => /[/+]json\b/.test(type)) ?? entries.find(([type]) => /form/.test(type));
+  return preferred?.[1].schema;
+}
+
+/**
+ * Top-level fields of a body or response; anything that is not an object
+ * is wrapped in a "data" field
+ */
+function objectFields(ctx: ImportContext, schema: OpenApiSchema, where: string): ImportedField[] {
+  const flat = flattenSchema(ctx, schema);
+  if (!flat.properties && flat.type !== 'object') {
+    ctx.warnings.push(`${where} is not an object; it is imported as { data }`);
+    return [schemaToField(ctx, 'data', schema, true, where)];
+  }
+
+  const field = schemaToField(ctx, 'body', schema, true, where);
+  return field.shape ?? [];
+}
+
+/**
+ * Whether an operation is one of the CRUD routes generated for an entity:
+ * GET/POST on /<prefix>/<entities>, GET/PUT/PATCH/DELETE on /<prefix>/<entities>/{id}
+ */
+function isCrudOperation(ctx: ImportContext, path: string, method: string): boolean {
+  const segments = path.split('/').filter(Boolean);
+  const item = segments.length > 0 && /^\{.+\}$/.test(segments[segments.length - 1]);
+  const statics = item ? segments.slice(0, -1) : segments;
+  if (statics.length === 0 || statics.some((s) => s.includes('{'))) return false;
+
+  const resource = normalize(singularize(statics[statics.length - 1]));
+  const isEntity = [...ctx.entities.values()].some((entity) => normalize(entity) === resource);
+  return isEntity && (item ? ITEM_METHODS : COLLECTION_METHODS).includes(method);
+}
+
+/**
+ * Endpoint name from the operationId, or from the method and path
+ * (POST /orders/{id}/cancel -> postOrdersByIdCancel)
+ */
+function endpointName(operation: OpenApiOperation, method: string, path: string): string {
+  const words = operation.operationId
+    ? operation.operationId.split(/[^A-Za-z0-9]+/)
+    : [method, ...path.split('/').filter(Boolean).map((s) => (s.startsWith('{') ? `by_${s.slice(1, -1)}` : s))].flatMap((s) => s.split(/[^A-Za-z0-9]+/));
+  const camel = words
+    .filter(Boolean)
+    .map((word, i) => (i === 0 ? word.charAt(0).toLowerCase() : word.charAt(0).toUpperCase()) + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(camel) ? `op${camel}` : camel;
+}
+
+function normalize(name: string): string {
+  return name.replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+}
+
+function uniqueName(name: string, taken: string[]): string {
+  let candidate = name;
+  for (let i = 2; taken.includes(candidate); i++) candidate = `${name}${i}`;
+  return candidate;
+}
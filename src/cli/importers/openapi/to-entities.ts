@@ -0,0 +1,169 @@
+/**
+ * Map OpenAPI component schemas to Schemock entities
+ *
+ * Component schemas with an "id" property become entities, except the
+ * `<Entity>Filter` schemas generate:openapi writes for list queries. Properties
+ * that $ref another entity become belongsTo/hasOne relations (arrays of
+ * them hasMany), and string ids pointing at an entity become field.ref().
+ * Other components are inlined wherever they are used.
+ *
+ * @module cli/importers/openapi/to-entities
+ * @category CLI
+ */
+
+import type { ImportedEntity, ImportedField, ImportedRelation } from '../../types';
+import { entityTarget, flattenSchema, schemaToField, type ImportContext, type OpenApiSchema } from './schemas';
+
+const TIMESTAMP_PROPERTIES = ['createdAt', 'updatedAt'];
+
+/**
+ * Find the component schemas that describe entities
+ *
+ * @param ctx - Import context (entities is not read)
+ * @returns Entity name by component name
+ */
+export function findEntities(ctx: ImportContext): Map<string, string> {
+  const entities = new Map<string, string>();
+  const schemas = ctx.doc.components?.schemas ?? {};
+  for (const [component, schema] of Object.entries(schemas)) {
+    if (component.endsWith('Filter') && schemas[component.slice(0, -'Filter'.length)]) continue;
+    if (flattenSchema(ctx, schema).properties?.id) {
+      entities.set(component, entityNameForComponent(component));
+    }
+  }
+  return entities;
+}
+
+/**
+ * Convert entity component schemas to entities
+ *
+ * @param ctx - Import context with entities filled in by findEntities()
+ * @returns Entities in component order
+ */
+export function componentsToEntities(ctx: ImportContext): ImportedEntity[] {
+  const schemas = ctx.doc.components?.schemas ?? {};
+  const components = [...ctx.entities.keys()];
+  const entities = components.map((component) => componentToEntity(ctx, component, flattenSchema(ctx, schemas[component])));
+
+  for (const [i, entity] of entities.entries()) {
+    addRelations(ctx, entity, flattenSchema(ctx, schemas[components[i]]), entities);
+  }
+
+  return entities;
+}
+
+function componentToEntity(ctx: ImportContext, component: string, schema: OpenApiSchema): ImportedEntity {
+  const name = ctx.entities.get(component)!;
+  const properties = schema.properties!;
+  const required = schema.required ?? [];
+  const timestamps = TIMESTAMP_PROPERTIES.every((p) => properties[p] && flattenSchema(ctx, properties[p]).format === 'date-time');
+
+  const entity: ImportedEntity = {
+    name,
+    tableName: component,
+    fields: [],
+    relations: [],
+    timestamps,
+    indexes: [],
+  };
+
+  for (const [property, propertySchema] of Object.entries(properties)) {
+    if (timestamps && TIMESTAMP_PROPERTIES.includes(property)) continue;
+
+    const target = entityTarget(ctx, propertySchema);
+    if (target) {
+      // Embedded entity without a foreign key on either side: add one here
+      if (!properties[`${property}Id`] && !referencesTo(ctx, target, name).length) {
+        entity.fields.push({ name: `${property}Id`, type: 'ref', target, nullable: !required.includes(property), unique: false });
+      }
+      continue;
+    }
+    const items = flattenSchema(ctx, propertySchema).items;
+    if (items && entityTarget(ctx, items)) continue;
+
+    const field = schemaToField(ctx, property, propertySchema, required.includes(property), `${component}.${property}`, new Set([component]));
+    const refTo = refTarget(ctx, properties, property);
+
+    if (property === 'id') {
+      if (field.type !== 'uuid') {
+        ctx.warnings.push(`${component}.id is imported as a UUID (was ${describe(field)})`);
+      }
+      entity.fields.push({ name: 'id', type: 'uuid', nullable: false, unique: false });
+    } else if (refTo) {
+      entity.fields.push({ name: property, type: 'ref', target: refTo, nullable: field.nullable, unique: false });
+    } else {
+      entity.fields.push(field);
+    }
+  }
+
+  return entity;
+}
+
+/**
+ * Add relations for properties that embed other entities
+ */
+function addRelations(ctx: ImportContext, entity: ImportedEntity, schema: OpenApiSchema, entities: ImportedEntity[]): void {
+  for (const [property, propertySchema] of Object.entries(schema.properties!)) {
+    const single = entityTarget(ctx, propertySchema);
+    const items = flattenSchema(ctx, propertySchema).items;
+    const many = !single && items ? entityTarget(ctx, items) : undefined;
+    const target = single ?? many;
+    if (!target) continue;
+
+    const targetEntity = entities.find((e) => e.name === target)!;
+    const inverse = targetEntity.fields.filter((f) => f.type === 'ref' && f.target === entity.name).map((f) => f.name);
+    const inverseKey = inverse.includes(`${entity.name}Id`) ? `${entity.name}Id` : inverse[0];
+    let relation: ImportedRelation | undefined;
+
+    if (single && entity.fields.some((f) => f.name === `${property}Id`)) {
+      relation = { name: property, kind: 'belongsTo', target, foreignKey: `${property}Id` };
+    } else if (inverseKey) {
+      relation = { name: property, kind: single ? 'hasOne' : 'hasMany', target, foreignKey: inverseKey };
+    } else {
+      ctx.warnings.push(`${entity.tableName}.${property} is not imported: no ${target} field references ${entity.name}`);
+    }
+
+    if (relation) entity.relations.push(relation);
+  }
+}
+
+/**
+ * Entity a string id property points at: "Reference to <entity>" (as
+ * written by generate:openapi), an entity-valued sibling without the Id
+ * suffix, or an entity named like the property
+ */
+function refTarget(ctx: ImportContext, properties: Record<string, OpenApiSchema>, property: string): string | undefined {
+  const stripped = /^(.+?)_?(Id|ID|id)$/.exec(property)?.[1];
+  const schema = flattenSchema(ctx, properties[property]);
+  if (!stripped || schema.type !== 'string') return undefined;
+
+  const names = new Set(ctx.entities.values());
+  const described = /^Reference to (\w+)$/.exec(schema.description ?? '')?.[1];
+  if (described && names.has(described)) return described;
+
+  const sibling = properties[stripped] && entityTarget(ctx, properties[stripped]);
+  if (sibling) return sibling;
+
+  return [...names].find((name) => name.toLowerCase() === stripped.toLowerCase());
+}
+
+/**
+ * Properties of an entity's component that are refs to another entity
+ */
+function referencesTo(ctx: ImportContext, entity: string, target: string): string[] {
+  const component = [...ctx.entities].find(([, name]) => name === entity)![0];
+  const properties = flattenSchema(ctx, ctx.doc.components!.schemas![component]).properties!;
+  return Object.keys(properties).filter((p) => p !== 'id' && refTarget(ctx, properties, p) === target);
+}
+
+function describe(field: ImportedField): string {
+  return field.comment ? `${field.type}, ${field.comment}` : field.type;
+}
+
+/**
+ * Entity name for a component schema (OrderItem -> orderItem)
+ */
+function entityNameForComponent(component: string): string {
+  const camel = component.replace(/[^A-Za-z0-9]+([A-Za-z0-9])?/g, (_, char: string | undefined) => (char ?? '').toUpperCase());
+  return camel.charAt(0).toLowerCase() + camel.slice(1);
+}
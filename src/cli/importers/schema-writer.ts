@@ -0,0 +1,247 @@
+/**
+ * Render imported entities and endpoints as defineData() / defineEndpoint()
+ * schema files
+ *
+ * @module cli/importers/schema-writer
+ * @category CLI
+ */
+
+import type { FieldDefinition } from '../../schema/types';
+import type { ImportedEndpoint, ImportedEntity, ImportedField } from '../types';
+import { getDefaultConfig } from '../config';
+import { CodeBuilder } from '../utils/code-builder';
+import { fieldToFakerCall } from '../utils/faker-mapping';
+import { toPascalCase, toSnakeCase } from '../utils/pluralize';
+
+/**
+ * File name for an entity's schema (orderItem -> order-item.ts)
+ */
+export function schemaFileName(entity: ImportedEntity): string {
+  return `${toSnakeCase(entity.name).replace(/_/g, '-')}.ts`;
+}
+
+/**
+ * Generate the schema file for an imported entity
+ *
+ * @param entity - Imported entity
+ * @param source - Where the entity came from, for the header comment
+ * @returns TypeScript source
+ */
+export function generateSchemaFile(entity: ImportedEntity, source: string): string {
+  const code = new CodeBuilder();
+  const exportName = entity.name.includes('_') ? toPascalCase(entity.name) : entity.name.charAt(0).toUpperCase() + entity.name.slice(1);
+  const relationKinds = [...new Set(entity.relations.map((r) => r.kind))].sort();
+
+  code.multiDocComment([`${exportName} entity`, '', `Imported from ${source} by schemock.`]);
+  code.line(`import { ${['defineData', 'field', ...relationKinds].join(', ')} } from 'schemock/schema';`);
+  code.line();
+
+  code.line(`export const ${exportName} = defineData(${literal(entity.name)}, {`);
+  code.indent();
+  for (const field of entity.fields) {
+    code.addLines(fieldLine(field).split('\n'));
+  }
+  if (entity.relations.length > 0) {
+    code.line();
+    for (const relation of entity.relations) {
+      code.line(`${propertyName(relation.name)}: ${relation.kind}(${literal(relation.target)}, { foreignKey: ${literal(relation.foreignKey)} }),`);
+    }
+  }
+  code.dedent();
+
+  const options: string[] = [];
+  if (!entity.timestamps) options.push('timestamps: false,');
+  if (entity.indexes.length > 0) options.push(...`indexes: ${literal(entity.indexes)},`.split('\n'));
+  if (entity.rls) options.push(...`rls: ${literal(entity.rls)},`.split('\n'));
+
+  if (options.length > 0) {
+    code.line('}, {');
+    code.indent();
+    code.addLines(options);
+    code.dedent();
+    code.line('});');
+  } else {
+    code.line('});');
+  }
+
+  return code.toString();
+}
+
+/**
+ * File name for a group of endpoints (Order Items -> endpoints/order-items.ts)
+ */
+export function endpointFileName(group: string | undefined): string {
+  const name = toSnakeCase((group ?? 'custom').replace(/[^A-Za-z0-9]+/g, '_')).replace(/_+/g, '-').replace(/^-|-$/g, '');
+  return `endpoints/${name || 'custom'}.ts`;
+}
+
+/**
+ * Generate the schema file for a group of imported endpoints
+ *
+ * Each endpoint gets a mockResolver returning faker data shaped like its
+ * response, as a starting point for hand-written logic.
+ *
+ * @param group - Group name (first OpenAPI tag)
+ * @param endpoints - Endpoints in the group
+ * @param source - Where the endpoints came from, for the header comment
+ * @returns TypeScript source
+ */
+export function generateEndpointFile(group: string | undefined, endpoints: ImportedEndpoint[], source: string): string {
+  const code = new CodeBuilder();
+  const usesFaker = endpoints.some((e) => e.response.length > 0);
+
+  code.multiDocComment([`${group ?? 'Custom'} endpoints`, '', `Imported from ${source} by schemock.`]);
+  if (usesFaker) code.line("import { faker } from '@faker-js/faker';");
+  code.line("import { defineEndpoint, field } from 'schemock/schema';");
+
+  for (const endpoint of endpoints) {
+    code.line();
+    code.line(`export const ${endpoint.name.charAt(0).toUpperCase()}${endpoint.name.slice(1)}Endpoint = defineEndpoint(${literal(endpoint.path)}, {`);
+    code.indent();
+    code.line(`method: '${endpoint.method}',`);
+    if (endpoint.description) code.line(`description: ${literal(endpoint.description)},`);
+
+    for (const section of ['params', 'body', 'response'] as const) {
+      const fields = endpoint[section];
+      if (fields.length === 0 && section !== 'response') continue;
+      if (fields.length === 0) {
+        code.line('response: {},');
+        continue;
+      }
+      code.line(`${section}: {`);
+      code.indent();
+      for (const field of fields) code.addLines(fieldLine(field).split('\n'));
+      code.dedent();
+      code.line('},');
+    }
+
+    if (endpoint.response.length === 0) {
+      code.line('mockResolver: () => ({}),');
+    } else {
+      const config = getDefaultConfig();
+      code.line('mockResolver: () => ({');
+      code.indent();
+      for (const field of endpoint.response) {
+        code.line(`${propertyName(field.name)}: ${fieldToFakerCall(field.name, toFieldDefinition(field), config)},`);
+      }
+      code.dedent();
+      code.line('}),');
+    }
+
+    code.dedent();
+    code.line('});');
+  }
+
+  return code.toString();
+}
+
+/**
+ * Field definition equivalent of an imported field, for the faker mapping
+ */
+function toFieldDefinition(field: ImportedField): FieldDefinition {
+  const numeric = field.type === 'number' || field.type === 'int';
+  // Free-form objects map to the json faker call ({})
+  const type = numeric ? 'number' : field.type === 'object' && !field.shape?.length ? 'json' : field.type;
+  return {
+    type,
+    ...(field.type === 'int' ? { hint: 'number.int' } : {}),
+    ...(field.values ? { values: field.values } : {}),
+    ...(field.target ? { target: field.target } : {}),
+    ...(field.items ? { items: toFieldDefinition(field.items) } : {}),
+    ...(field.shape?.length ? { shape: Object.fromEntries(field.shape.map((f) => [f.name, toFieldDefinition(f)])) } : {}),
+    ...(field.min !== undefined || field.max !== undefined ? { constraints: { min: field.min, max: field.max } } : {}),
+  };
+}
+
+/**
+ * Render a field as an object property line, with its comment
+ */
+function fieldLine(field: ImportedField): string {
+  return `${propertyName(field.name)}: ${fieldBuilder(field)},${field.comment ? ` // ${field.comment}` : ''}`;
+}
+
+/**
+ * Render a field as a field.* builder chain
+ *
+ * @param field - Field to render
+ * @param indent - Indentation of the line the builder starts on, for nested objects
+ */
+function fieldBuilder(field: ImportedField, indent = ''): string {
+  const numeric = field.type === 'number' || field.type === 'int';
+  let builder = baseBuilder(field, indent);
+  if (!numeric && field.min !== undefined) builder += `.min(${field.min})`;
+  if (!numeric && field.max !== undefined) builder += `.max(${field.max})`;
+  if (field.pattern !== undefined) builder += `.pattern(/${field.pattern}/)`;
+  if (field.default !== undefined) builder += `.default(${literal(field.default, indent)})`;
+  if (field.unique) builder += '.unique()';
+  if (field.readOnly) builder += '.readOnly()';
+  if (field.nullable) builder += '.nullable()';
+  return builder;
+}
+
+function baseBuilder(field: ImportedField, indent: string): string {
+  switch (field.type) {
+    case 'number':
+    case 'int': {
+      const options = { int: field.type === 'int' || undefined, min: field.min, max: field.max };
+      return Object.values(options).some((v) => v !== undefined) ? `field.number(${literal(options)})` : 'field.number()';
+    }
+    case 'enum':
+      return `field.enum(${literal(field.values ?? [], indent)})`;
+    case 'ref':
+      return `field.ref(${literal(field.target)})`;
+    case 'array':
+      return `field.array(${field.items ? fieldBuilder(field.items, indent) : 'field.string()'})`;
+    case 'object':
+      return `field.object(${shapeLiteral(field.shape ?? [], indent)})`;
+    default:
+      return `field.${field.type}()`;
+  }
+}
+
+/**
+ * Render nested fields as an object literal of builders, on one line when
+ * short and without comments
+ */
+function shapeLiteral(fields: ImportedField[], indent: string): string {
+  if (fields.length === 0) return '{}';
+
+  const inner = `${indent}  `;
+  const entries = fields.map((f) => `${propertyName(f.name)}: ${fieldBuilder(f, inner)}`);
+  const single = `{ ${entries.join(', ')} }`;
+  if (indent.length + single.length <= 80 && !single.includes('\n') && fields.every((f) => !f.comment)) return single;
+
+  const lines = fields.map((f, i) => `${inner}${entries[i]},${f.comment ? ` // ${f.comment}` : ''}`);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Render a value as a TypeScript literal (single-quoted strings, unquoted keys),
+ * breaking objects and arrays over several lines when they get long
+ */
+function literal(value: unknown, indent = ''): string {
+  if (typeof value === 'string') {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    return escaped.includes("'") && !escaped.includes('"') ? `"${escaped}"` : `'${escaped.replace(/'/g, "\\'")}'`;
+  }
+  if (value === null || typeof value !== 'object') {
+    return String(value);
+  }
+
+  const inner = `${indent}  `;
+  const items = Array.isArray(value)
+    ? value.map((item) => literal(item, inner))
+    : Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => `${propertyName(k)}: ${literal(v, inner)}`);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{ ', ' }'];
+
+  if (items.length === 0) return Array.isArray(value) ? '[]' : '{}';
+  const single = `${open}${items.join(', ')}${close}`;
+  if (indent.length + single.length <= 80 && !single.includes('\n')) return single;
+  return `${open.trim()}\n${items.map((item) => `${inner}${item},`).join('\n')}\n${indent}${close.trim()}`;
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
@@ -0,0 +1,46 @@
+/**
+ * SQL schema importer
+ *
+ * Loads schema.sql / pg_dump output (or an existing database) and maps its
+ * tables back to defineData() entities.
+ *
+ * @module cli/importers/sql
+ * @category CLI
+ */
+
+import type { ImportResult } from '../../types';
+import { loadSqlScript, type SqlExecutable } from './load';
+import { introspectFunctions, introspectTables } from './introspect';
+import { tablesToEntities } from './to-entities';
+
+export { loadSqlScript, splitSqlStatements } from './load';
+export type { SqlExecutable } from './load';
+export { introspectTables, introspectFunctions } from './introspect';
+export type {
+  SqlQueryable,
+  IntrospectedTable,
+  IntrospectedColumn,
+  IntrospectedConstraint,
+  IntrospectedIndex,
+  IntrospectedPolicy,
+} from './introspect';
+export { tablesToEntities } from './to-entities';
+
+/**
+ * Import the public schema of a database as entities
+ *
+ * @param db - Database to read (usually PGlite)
+ * @param sql - Optional SQL script to load into the database first
+ * @returns Entities plus warnings for statements and objects that were skipped
+ */
+export async function importSqlSchema(db: SqlExecutable, sql?: string): Promise<ImportResult> {
+  const loadWarnings = sql !== undefined ? await loadSqlScript(db, sql) : [];
+  const result = tablesToEntities(await introspectTables(db));
+
+  // The updated_at trigger function comes back with timestamps; RPCs need their entity picked by hand
+  const functionWarnings = (await introspectFunctions(db))
+    .filter((signature) => signature !== 'update_updated_at_column()')
+    .map((signature) => `Function ${signature} is not imported; add it to an entity's rpc option`);
+
+  return { entities: result.entities, warnings: [...loadWarnings, ...result.warnings, ...functionWarnings] };
+}
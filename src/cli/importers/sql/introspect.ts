@@ -0,0 +1,297 @@
+/**
+ * PostgreSQL catalog introspection
+ *
+ * Reads tables, columns, constraints, indexes and RLS policies from
+ * pg_catalog. Works against any client with a PGlite-style query() method.
+ *
+ * @module cli/importers/sql/introspect
+ * @category CLI
+ */
+
+/**
+ * Minimal query interface (satisfied by PGlite)
+ */
+export interface SqlQueryable {
+  query<T>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>;
+}
+
+/**
+ * Column as read from the catalog
+ */
+export interface IntrospectedColumn {
+  name: string;
+  /** Formatted type, e.g. "character varying(20)", "integer", "text[]" */
+  type: string;
+  /** Enum labels when the column uses a Postgres enum type */
+  enumValues?: string[];
+  nullable: boolean;
+  /** Default expression as deparsed by Postgres */
+  default?: string;
+  /** Identity or serial column */
+  generated: boolean;
+}
+
+/**
+ * Constraint as read from the catalog
+ */
+export interface IntrospectedConstraint {
+  name: string;
+  kind: 'primary' | 'unique' | 'check' | 'foreign';
+  columns: string[];
+  /** Deparsed definition (pg_get_constraintdef) */
+  definition: string;
+  /** Referenced table (foreign keys) */
+  references?: string;
+  /** Referenced columns (foreign keys) */
+  referencedColumns?: string[];
+  /** ON DELETE action (foreign keys) */
+  onDelete?: 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+}
+
+/**
+ * Index as read from the catalog (constraint-backed indexes excluded)
+ */
+export interface IntrospectedIndex {
+  name: string;
+  method: string;
+  unique: boolean;
+  /** Indexed columns; empty entries for expressions */
+  columns: string[];
+  /** Full expression list when the index uses expressions */
+  expression?: string;
+  /** Partial index predicate */
+  where?: string;
+}
+
+/**
+ * RLS policy as read from pg_policies
+ */
+export interface IntrospectedPolicy {
+  name: string;
+  command: 'ALL' | 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+  using?: string;
+  withCheck?: string;
+}
+
+/**
+ * Table as read from the catalog
+ */
+export interface IntrospectedTable {
+  name: string;
+  columns: IntrospectedColumn[];
+  constraints: IntrospectedConstraint[];
+  indexes: IntrospectedIndex[];
+  rls: boolean;
+  policies: IntrospectedPolicy[];
+  /** Trigger names */
+  triggers: string[];
+}
+
+const ON_DELETE_ACTIONS: Record<string, IntrospectedConstraint['onDelete']> = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL',
+  d: 'SET DEFAULT',
+};
+
+const CONSTRAINT_KINDS: Record<string, IntrospectedConstraint['kind']> = {
+  p: 'primary',
+  u: 'unique',
+  c: 'check',
+  f: 'foreign',
+};
+
+/**
+ * Introspect the ordinary tables of a schema
+ *
+ * @param db - Database client
+ * @param schema - Postgres schema to read (default: public)
+ * @returns Tables in creation order
+ */
+export async function introspectTables(db: SqlQueryable, schema = 'public'): Promise<IntrospectedTable[]> {
+  const { rows: tables } = await db.query<{ oid: number; name: string; rls: boolean }>(
+    `SELECT c.oid, c.relname AS name, c.relrowsecurity AS rls
+     FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $1 AND c.relkind IN ('r', 'p') AND NOT c.relispartition
+     ORDER BY c.oid`,
+    [schema]
+  );
+
+  const result: IntrospectedTable[] = [];
+  for (const table of tables) {
+    result.push({
+      name: table.name,
+      columns: await introspectColumns(db, table.oid),
+      constraints: await introspectConstraints(db, table.oid),
+      indexes: await introspectIndexes(db, table.oid),
+      rls: table.rls,
+      policies: await introspectPolicies(db, schema, table.name),
+      triggers: await introspectTriggers(db, table.oid),
+    });
+  }
+
+  return result;
+}
+
+async function introspectColumns(db: SqlQueryable, tableOid: number): Promise<IntrospectedColumn[]> {
+  const { rows } = await db.query<{
+    name: string;
+    type: string;
+    enum_values: string[] | null;
+    not_null: boolean;
+    default: string | null;
+    identity: string;
+  }>(
+    `SELECT a.attname AS name,
+            format_type(a.atttypid, a.atttypmod) AS type,
+            CASE WHEN t.typtype = 'e' THEN
+              ARRAY(SELECT e.enumlabel::text FROM pg_enum e WHERE e.enumtypid = t.oid ORDER BY e.enumsortorder)
+            END AS enum_values,
+            a.attnotnull AS not_null,
+            pg_get_expr(d.adbin, d.adrelid) AS default,
+            a.attidentity AS identity
+     FROM pg_attribute a
+     JOIN pg_type t ON t.oid = a.atttypid
+     LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+     WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+     ORDER BY a.attnum`,
+    [tableOid]
+  );
+
+  return rows.map((row) => ({
+    name: row.name,
+    type: row.type,
+    ...(row.enum_values ? { enumValues: row.enum_values } : {}),
+    nullable: !row.not_null,
+    ...(row.default !== null ? { default: row.default } : {}),
+    generated: row.identity !== '' || (row.default?.startsWith('nextval(') ?? false),
+  }));
+}
+
+async function introspectConstraints(db: SqlQueryable, tableOid: number): Promise<IntrospectedConstraint[]> {
+  const { rows } = await db.query<{
+    name: string;
+    kind: string;
+    columns: string[];
+    definition: string;
+    references: string | null;
+    referenced_columns: string[] | null;
+    on_delete: string;
+  }>(
+    `SELECT c.conname AS name,
+            c.contype AS kind,
+            ARRAY(SELECT a.attname::text FROM unnest(c.conkey) WITH ORDINALITY k(attnum, ord)
+                  JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum ORDER BY k.ord) AS columns,
+            pg_get_constraintdef(c.oid) AS definition,
+            r.relname AS references,
+            CASE WHEN c.contype = 'f' THEN
+              ARRAY(SELECT a.attname::text FROM unnest(c.confkey) WITH ORDINALITY k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = c.confrelid AND a.attnum = k.attnum ORDER BY k.ord)
+            END AS referenced_columns,
+            c.confdeltype AS on_delete
+     FROM pg_constraint c
+     LEFT JOIN pg_class r ON r.oid = c.confrelid
+     WHERE c.conrelid = $1 AND c.contype IN ('p', 'u', 'c', 'f')
+     ORDER BY c.conname`,
+    [tableOid]
+  );
+
+  return rows.map((row) => ({
+    name: row.name,
+    kind: CONSTRAINT_KINDS[row.kind],
+    columns: row.columns,
+    definition: row.definition,
+    ...(row.kind === 'f'
+      ? { references: row.references!, referencedColumns: row.referenced_columns!, onDelete: ON_DELETE_ACTIONS[row.on_delete] }
+      : {}),
+  }));
+}
+
+async function introspectIndexes(db: SqlQueryable, tableOid: number): Promise<IntrospectedIndex[]> {
+  const { rows } = await db.query<{
+    name: string;
+    method: string;
+    unique: boolean;
+    columns: string[];
+    has_expressions: boolean;
+    definition: string;
+    where: string | null;
+  }>(
+    `SELECT i.relname AS name,
+            am.amname AS method,
+            x.indisunique AS unique,
+            ARRAY(SELECT COALESCE(a.attname::text, '') FROM unnest(x.indkey::int2[]) WITH ORDINALITY k(attnum, ord)
+                  LEFT JOIN pg_attribute a ON a.attrelid = x.indrelid AND a.attnum = k.attnum ORDER BY k.ord) AS columns,
+            x.indexprs IS NOT NULL AS has_expressions,
+            pg_get_indexdef(x.indexrelid) AS definition,
+            pg_get_expr(x.indpred, x.indrelid) AS where
+     FROM pg_index x
+     JOIN pg_class i ON i.oid = x.indexrelid
+     JOIN pg_am am ON am.oid = i.relam
+     WHERE x.indrelid = $1
+       AND NOT EXISTS (SELECT 1 FROM pg_constraint c WHERE c.conindid = x.indexrelid AND c.conrelid = x.indrelid)
+     ORDER BY x.indexrelid`,
+    [tableOid]
+  );
+
+  return rows.map((row) => {
+    const index: IntrospectedIndex = {
+      name: row.name,
+      method: row.method,
+      unique: row.unique,
+      columns: row.columns,
+    };
+    if (row.has_expressions) {
+      // "... USING gin (to_tsvector('english'::regconfig, title)) WHERE ..." -> inner expression list
+      const start = row.definition.indexOf('(', row.definition.indexOf(` USING ${row.method} `));
+      const whereAt = row.definition.lastIndexOf(' WHERE ');
+      const end = row.definition.lastIndexOf(')', whereAt === -1 ? undefined : whereAt);
+      index.expression = row.definition.slice(start + 1, end);
+    }
+    if (row.where) index.where = row.where;
+    return index;
+  });
+}
+
+async function introspectPolicies(db: SqlQueryable, schema: string, table: string): Promise<IntrospectedPolicy[]> {
+  const { rows } = await db.query<{ name: string; command: IntrospectedPolicy['command']; using: string | null; with_check: string | null }>(
+    `SELECT policyname AS name, cmd AS command, qual AS using, with_check
+     FROM pg_policies WHERE schemaname = $1 AND tablename = $2
+     ORDER BY policyname`,
+    [schema, table]
+  );
+
+  return rows.map((row) => ({
+    name: row.name,
+    command: row.command,
+    ...(row.using !== null ? { using: row.using } : {}),
+    ...(row.with_check !== null ? { withCheck: row.with_check } : {}),
+  }));
+}
+
+async function introspectTriggers(db: SqlQueryable, tableOid: number): Promise<string[]> {
+  const { rows } = await db.query<{ name: string }>(
+    `SELECT tgname AS name FROM pg_trigger WHERE tgrelid = $1 AND NOT tgisinternal ORDER BY tgname`,
+    [tableOid]
+  );
+  return rows.map((row) => row.name);
+}
+
+/**
+ * List user-defined functions of a schema as "name(argument types)"
+ *
+ * @param db - Database client
+ * @param schema - Postgres schema to read (default: public)
+ */
+export async function introspectFunctions(db: SqlQueryable, schema = 'public'): Promise<string[]> {
+  const { rows } = await db.query<{ signature: string }>(
+    `SELECT p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')' AS signature
+     FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+     WHERE n.nspname = $1 AND p.prokind = 'f'
+       AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = p.oid AND d.deptype = 'e')
+     ORDER BY p.proname`,
+    [schema]
+  );
+  return rows.map((row) => row.signature);
+}
@@ -0,0 +1,200 @@
+/**
+ * Load schema.sql / pg_dump output into a PGlite database
+ *
+ * Statements are executed one at a time so a single unsupported statement
+ * (an extension, a missing role) does not abort the whole import.
+ *
+ * @module cli/importers/sql/load
+ * @category CLI
+ */
+
+import type { SqlQueryable } from './introspect';
+
+/**
+ * Database that can execute raw SQL scripts
+ */
+export interface SqlExecutable extends SqlQueryable {
+  exec(sql: string): Promise<unknown>;
+}
+
+/**
+ * Statements that only matter on the source server (ownership, grants,
+ * session settings, replication) or only carry data
+ */
+const SKIPPED_STATEMENTS = [
+  /^SET\s/i,
+  /^RESET\s/i,
+  /^SELECT\s+pg_catalog\./i,
+  /^ALTER\s+.*\sOWNER\s+TO\s/is,
+  /^(GRANT|REVOKE)\s/i,
+  /^ALTER\s+DEFAULT\s+PRIVILEGES\s/i,
+  /^COMMENT\s+ON\s+EXTENSION\s/i,
+  /^(CREATE|ALTER|DROP)\s+PUBLICATION\s/i,
+  /^(CREATE|ALTER)\s+SUBSCRIPTION\s/i,
+  /^(INSERT|COPY)\s/i,
+  /^(BEGIN|COMMIT|START\s+TRANSACTION)\b/i,
+];
+
+/** Opening tag of a dollar-quoted string, matched at a given position */
+const DOLLAR_TAG = /\$[A-Za-z_]*\$/y;
+
+/** End of a COPY data block */
+const COPY_END = /^[ \t]*\\\.[ \t]*$\n?/gm;
+
+/**
+ * Supabase objects referenced by dumps and generated policies
+ */
+const SUPABASE_STUBS = `
+CREATE SCHEMA IF NOT EXISTS auth;
+CREATE OR REPLACE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql STABLE AS 'SELECT NULL::uuid';
+CREATE OR REPLACE FUNCTION auth.jwt() RETURNS jsonb LANGUAGE sql STABLE AS 'SELECT NULL::jsonb';
+CREATE OR REPLACE FUNCTION auth.role() RETURNS text LANGUAGE sql STABLE AS 'SELECT NULL::text';
+DO $$ BEGIN
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+`;
+
+/**
+ * Execute a SQL script statement by statement
+ *
+ * @param db - Target database (usually an in-memory PGlite)
+ * @param sql - SQL script
+ * @returns Warnings for skipped and failed statements
+ */
+export async function loadSqlScript(db: SqlExecutable, sql: string): Promise<string[]> {
+  const warnings: string[] = [];
+  await db.exec(SUPABASE_STUBS);
+
+  for (const statement of splitSqlStatements(sql)) {
+    if (SKIPPED_STATEMENTS.some((pattern) => pattern.test(statement))) continue;
+
+    if (/^CREATE\s+EXTENSION\s/i.test(statement)) {
+      warnings.push(`Skipped extension: ${summarize(statement)}`);
+      continue;
+    }
+
+    try {
+      await db.exec(statement);
+    } catch (error) {
+      warnings.push(`Could not execute "${summarize(statement)}": ${(error as Error).message}`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Split a SQL script into statements
+ *
+ * Understands comments, quoted strings and identifiers, dollar-quoted
+ * bodies, psql meta-commands and COPY ... FROM stdin data blocks.
+ *
+ * @param sql - SQL script
+ * @returns Statements without their trailing semicolons
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  const flush = () => {
+    const statement = current.trim();
+    current = '';
+    if (!statement) return;
+    statements.push(statement);
+
+    // COPY ... FROM stdin is followed by data lines up to "\."
+    if (/^COPY\s.*\sFROM\s+stdin/is.test(statement)) {
+      COPY_END.lastIndex = i;
+      const end = COPY_END.exec(sql);
+      i = end ? end.index + end[0].length : sql.length;
+    }
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    // psql meta-commands (\connect, \restrict, ...) at the start of a statement
+    if (char === '\\' && !current.trim()) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    // Line comment
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      current += '\n';
+      continue;
+    }
+
+    // Block comment
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      current += ' ';
+      continue;
+    }
+
+    // Quoted string or identifier
+    if (char === "'" || char === '"') {
+      const escapes = char === "'" && /(^|[^\w$])[eE]$/.test(current);
+      let j = i + 1;
+      while (j < sql.length) {
+        if (escapes && sql[j] === '\\') {
+          j += 2;
+          continue;
+        }
+        if (sql[j] === char) {
+          if (sql[j + 1] === char) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      current += sql.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    // Dollar-quoted body ($$ ... $$ or $tag$ ... $tag$)
+    if (char === '$') {
+      DOLLAR_TAG.lastIndex = i;
+      const tag = DOLLAR_TAG.exec(sql)?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? sql.length : end + tag.length;
+        current += sql.slice(i, stop);
+        i = stop;
+        continue;
+      }
+    }
+
+    if (char === ';') {
+      i++;
+      flush();
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  flush();
+  return statements;
+}
+
+/**
+ * First line of a statement, shortened for messages
+ */
+function summarize(statement: string): string {
+  const line = statement.split('\n')[0].trim();
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
@@ -0,0 +1,528 @@
+/**
+ * Map introspected tables to Schemock entities
+ *
+ * The inverse of generators/sql/tables.ts and pg-types.ts: columns become
+ * field.* builders, foreign keys become refs with belongsTo/hasMany
+ * relations, and indexes and policies become IndexConfig and RLSConfig.
+ * Anything generate:sql could not reproduce is reported as a warning.
+ *
+ * @module cli/importers/sql/to-entities
+ * @category CLI
+ */
+
+import type { ImportedEntity, ImportedField, ImportedRelation, ImportResult } from '../../types';
+import type { IndexConfig, RLSBypass, RLSScopeMapping } from '../../../schema/types';
+import type { IntrospectedColumn, IntrospectedConstraint, IntrospectedPolicy, IntrospectedTable } from './introspect';
+import { pluralize, singularize, toSnakeCase } from '../../utils/pluralize';
+
+const TIMESTAMP_COLUMNS = ['created_at', 'updated_at'];
+const INDEX_METHODS = ['btree', 'hash', 'gin', 'gist', 'brin'];
+const RLS_OPERATIONS = ['select', 'insert', 'update', 'delete'] as const;
+
+/**
+ * Convert introspected tables to entities
+ *
+ * @param tables - Tables read by introspectTables()
+ * @returns Entities in table order, plus warnings for lossy or skipped objects
+ */
+export function tablesToEntities(tables: IntrospectedTable[]): ImportResult {
+  const warnings: string[] = [];
+  const entityNames = new Map(tables.map((t) => [t.name, entityNameForTable(t.name)]));
+
+  for (const [table, entity] of entityNames) {
+    const generated = toSnakeCase(pluralize(entity));
+    if (generated !== table) {
+      warnings.push(`Table "${table}" imports as entity "${entity}", which generate:sql names "${generated}"`);
+    }
+  }
+
+  // Only tables with a UUID "id" primary key can be the target of field.ref()
+  const refTargets = new Set(tables.filter(hasUuidPrimaryKey).map((t) => t.name));
+
+  const entities = tables.map((table) => tableToEntity(table, entityNames, refTargets, warnings));
+  addInverseRelations(entities, tables, entityNames);
+
+  return { entities, warnings };
+}
+
+function tableToEntity(
+  table: IntrospectedTable,
+  entityNames: Map<string, string>,
+  refTargets: Set<string>,
+  warnings: string[]
+): ImportedEntity {
+  const entity: ImportedEntity = {
+    name: entityNames.get(table.name)!,
+    tableName: table.name,
+    fields: [],
+    relations: [],
+    timestamps: TIMESTAMP_COLUMNS.every((name) => table.columns.some((c) => c.name === name)),
+    indexes: [],
+  };
+  const constraintsOn = (column: string, kind: IntrospectedConstraint['kind']) =>
+    table.constraints.filter((c) => c.kind === kind && c.columns.length === 1 && c.columns[0] === column);
+
+  // Primary key
+  const primaryKey = table.constraints.find((c) => c.kind === 'primary');
+  if (!primaryKey) {
+    warnings.push(`Table "${table.name}" has no primary key; generate:sql adds a UUID "id"`);
+  } else if (primaryKey.columns.join() !== 'id') {
+    warnings.push(`Primary key of "${table.name}" (${primaryKey.columns.join(', ')}) is not imported; generate:sql uses a UUID "id"`);
+  } else if (!hasUuidPrimaryKey(table)) {
+    warnings.push(`"${table.name}"."id" is not a UUID; generate:sql only creates UUID primary keys`);
+  }
+
+  // Columns
+  for (const column of table.columns) {
+    if (entity.timestamps && TIMESTAMP_COLUMNS.includes(column.name)) continue;
+
+    const field = columnToField(column, table.name, warnings);
+    field.unique = column.name !== 'id' && constraintsOn(column.name, 'unique').length > 0;
+
+    for (const check of constraintsOn(column.name, 'check')) {
+      const values = parseEnumCheck(check.definition);
+      if (values && (field.type === 'string' || field.type === 'enum')) {
+        Object.assign(field, { type: 'enum', values, max: undefined, comment: undefined });
+      } else {
+        warnings.push(`Check constraint "${check.name}" on "${table.name}" is not imported: ${check.definition}`);
+      }
+    }
+
+    const foreignKey = constraintsOn(column.name, 'foreign')[0];
+    if (foreignKey) {
+      const relation = foreignKeyToRelation(foreignKey, column, table, entityNames, refTargets, warnings);
+      if (relation) {
+        Object.assign(field, { type: 'ref', target: relation.target, comment: undefined });
+        entity.relations.push(relation);
+      }
+    }
+
+    if (field.type === 'enum' && field.default !== undefined && !field.values!.includes(field.default as string)) {
+      delete field.default;
+    }
+
+    entity.fields.push(field);
+  }
+
+  // Relation names must not shadow fields
+  for (const relation of entity.relations) {
+    relation.name = uniqueName(relation.name, [...entity.fields.map((f) => f.name), ...entity.relations.filter((r) => r !== relation).map((r) => r.name)]);
+  }
+
+  // Multi-column constraints
+  for (const constraint of table.constraints) {
+    if (constraint.columns.length <= 1) continue;
+    if (constraint.kind === 'unique') {
+      entity.indexes.push(indexConfig(table.name, constraint.name, { fields: constraint.columns, unique: true }));
+    } else if (constraint.kind !== 'primary') {
+      warnings.push(`Constraint "${constraint.name}" on "${table.name}" is not imported: ${constraint.definition}`);
+    }
+  }
+
+  // Indexes (skipping the ones generate:sql creates on its own)
+  const refFields = new Set(entity.fields.filter((f) => f.type === 'ref').map((f) => f.name));
+  const uniqueFields = new Set(entity.fields.filter((f) => f.unique).map((f) => f.name));
+  for (const index of table.indexes) {
+    const [column] = index.columns;
+    const simple = index.method === 'btree' && index.columns.length === 1 && !index.expression && !index.where;
+    if (simple && !index.unique && refFields.has(column) && index.name === `idx_${table.name}_${toSnakeCase(column)}`) continue;
+    if (simple && index.unique && uniqueFields.has(column) && index.name === `idx_${table.name}_${toSnakeCase(column)}_unique`) continue;
+
+    if (!INDEX_METHODS.includes(index.method)) {
+      warnings.push(`Index "${index.name}" uses ${index.method}, which IndexConfig does not support`);
+      continue;
+    }
+
+    entity.indexes.push(
+      indexConfig(table.name, index.name, {
+        fields: index.columns.filter(Boolean),
+        ...(index.method !== 'btree' ? { type: index.method as IndexConfig['type'] } : {}),
+        ...(index.unique ? { unique: true } : {}),
+        ...(index.expression ? { using: index.expression } : {}),
+        ...(index.where ? { where: index.where } : {}),
+      })
+    );
+  }
+
+  // Triggers (the updated_at trigger comes back with timestamps)
+  for (const trigger of table.triggers) {
+    if (entity.timestamps && trigger === `update_${table.name}_updated_at`) continue;
+    warnings.push(`Trigger "${trigger}" on "${table.name}" is not imported`);
+  }
+
+  // Row-level security
+  if (table.rls) {
+    entity.rls = policiesToRLS(table);
+  } else if (table.policies.length > 0) {
+    warnings.push(`Policies on "${table.name}" are not imported because row-level security is disabled`);
+  }
+
+  return entity;
+}
+
+/**
+ * Map a column type to the closest field builder
+ */
+function columnToField(column: IntrospectedColumn, table: string, warnings: string[]): ImportedField {
+  const field: ImportedField = { name: column.name, ...columnType(column.type, column.name), nullable: column.nullable, unique: false };
+
+  if (column.enumValues) {
+    Object.assign(field, { type: 'enum', values: column.enumValues, comment: `source type: ${column.type} (enum)` });
+  }
+
+  if (column.name === 'id' && field.type === 'uuid') {
+    // generate:sql always adds DEFAULT gen_random_uuid() to UUID ids
+    field.nullable = false;
+    return field;
+  }
+
+  if (column.default !== undefined && !column.generated) {
+    const value = parseDefault(column.default, field);
+    if (value !== undefined) {
+      field.default = value;
+    } else if (!/^(now\(\)|CURRENT_TIMESTAMP|CURRENT_DATE|gen_random_uuid\(\)|NULL(::.*)?)$/i.test(column.default)) {
+      warnings.push(`Default of "${table}"."${column.name}" is not imported: ${column.default}`);
+    }
+  }
+
+  return field;
+}
+
+/**
+ * Builder and constraints for a formatted Postgres type
+ */
+function columnType(type: string, name: string): Pick<ImportedField, 'type' | 'max' | 'items' | 'comment'> {
+  const lossy = { comment: `source type: ${type}` };
+
+  if (type.endsWith('[]')) {
+    return { type: 'array', items: { name: 'item', ...columnType(type.slice(0, -2), 'item'), nullable: false, unique: false, comment: undefined }, ...lossy };
+  }
+
+  const varchar = /^character varying\((\d+)\)$/.exec(type);
+  if (varchar) {
+    const max = Number(varchar[1]);
+    const semantic = /(^|_)email$|Email$/.test(name) ? 'email' : /(^|_)(url|website)$|Url$/.test(name) ? 'url' : 'string';
+    return { type: semantic, ...(max !== 255 ? { max } : {}) };
+  }
+
+  switch (type) {
+    case 'uuid':
+      return { type: 'uuid' };
+    case 'double precision':
+      return { type: 'number' };
+    case 'smallint':
+    case 'integer':
+    case 'bigint':
+      return { type: 'int', ...lossy };
+    case 'real':
+      return { type: 'number', ...lossy };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'date' };
+    case 'jsonb':
+      return { type: 'object' };
+    case 'json':
+      return { type: 'object', ...lossy };
+  }
+
+  if (/^(numeric|money)/.test(type)) return { type: 'number', ...lossy };
+  if (/^(timestamp|time)/.test(type)) return { type: 'date', ...lossy };
+  return { type: 'string', ...lossy };
+}
+
+/**
+ * Parse a deparsed column default into a JavaScript value
+ */
+function parseDefault(expression: string, field: ImportedField): unknown {
+  const literal = /^'((?:[^']|'')*)'(?:::[\w\s."]+(?:\[\])?)?$/.exec(expression);
+  const number = /^\(?(-?\d+(?:\.\d+)?)\)?(?:::[\w\s]+)?$/.exec(expression);
+
+  switch (field.type) {
+    case 'string':
+    case 'email':
+    case 'url':
+    case 'enum':
+    case 'uuid':
+      return literal ? literal[1].replace(/''/g, "'") : undefined;
+    case 'number':
+    case 'int': {
+      const value = number?.[1] ?? (literal && /^-?\d+(\.\d+)?$/.test(literal[1]) ? literal[1] : undefined);
+      return value !== undefined ? Number(value) : undefined;
+    }
+    case 'boolean':
+      return expression === 'true' ? true : expression === 'false' ? false : undefined;
+    case 'array': {
+      // Postgres array literal: '{a,b}'
+      const items = literal ? /^\{(.*)\}$/.exec(literal[1])?.[1] : undefined;
+      if (items === undefined) return undefined;
+      const values = items === '' ? [] : items.split(',').map((item) => item.trim().replace(/^"(.*)"$/, '$1'));
+      const numeric = field.items?.type === 'number' || field.items?.type === 'int';
+      return numeric ? values.map(Number) : values;
+    }
+    case 'object':
+      try {
+        return literal ? JSON.parse(literal[1].replace(/''/g, "'")) : undefined;
+      } catch {
+        return undefined;
+      }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Extract the values of an enum-style CHECK constraint
+ *
+ * Matches the deparsed form of CHECK ("col" IN ('a', 'b')):
+ * CHECK (((col)::text = ANY ((ARRAY['a'::character varying, 'b'::character varying])::text[])))
+ */
+function parseEnumCheck(definition: string): string[] | undefined {
+  const array = /= ANY \(\(?ARRAY\[(.*)\]/.exec(definition);
+  const single = /^CHECK \(\(\(?"?[^"()]+"?\)?(?:::text)? = '((?:[^']|'')*)'::[\w\s]+\)\)$/.exec(definition);
+  if (single) return [single[1].replace(/''/g, "'")];
+  if (!array) return undefined;
+
+  const values = [...array[1].matchAll(/'((?:[^']|'')*)'::[\w\s]+/g)].map((m) => m[1].replace(/''/g, "'"));
+  return values.length === array[1].split(',').length ? values : undefined;
+}
+
+function foreignKeyToRelation(
+  foreignKey: IntrospectedConstraint,
+  column: IntrospectedColumn,
+  table: IntrospectedTable,
+  entityNames: Map<string, string>,
+  refTargets: Set<string>,
+  warnings: string[]
+): ImportedRelation | undefined {
+  const target = foreignKey.references!;
+  if (!entityNames.has(target) || !refTargets.has(target) || foreignKey.referencedColumns!.join() !== 'id' || column.type !== 'uuid') {
+    warnings.push(`Foreign key "${foreignKey.name}" on "${table.name}" is not imported: ${foreignKey.definition}`);
+    return undefined;
+  }
+
+  const expected = column.nullable ? 'SET NULL' : 'CASCADE';
+  if (foreignKey.onDelete !== expected) {
+    warnings.push(`Foreign key "${foreignKey.name}" uses ON DELETE ${foreignKey.onDelete}; generate:sql uses ${expected}`);
+  }
+
+  const targetEntity = entityNames.get(target)!;
+  const stripped = column.name.replace(/_?[iI]d$/, '');
+  return {
+    name: camelize(stripped && stripped !== column.name ? stripped : targetEntity),
+    kind: 'belongsTo',
+    target: targetEntity,
+    foreignKey: column.name,
+  };
+}
+
+/**
+ * Add hasMany/hasOne relations for every belongsTo
+ */
+function addInverseRelations(entities: ImportedEntity[], tables: IntrospectedTable[], entityNames: Map<string, string>): void {
+  const byName = new Map(entities.map((e) => [e.name, e]));
+
+  for (const entity of entities) {
+    const table = tables.find((t) => t.name === entity.tableName)!;
+
+    for (const relation of entity.relations.filter((r) => r.kind === 'belongsTo')) {
+      const target = byName.get(relation.target)!;
+      const unique = table.constraints.some((c) => c.kind === 'unique' && c.columns.join() === relation.foreignKey);
+      const base = camelize(unique ? entity.name : pluralize(entity.name));
+      const taken = [...target.fields.map((f) => f.name), ...target.relations.map((r) => r.name)];
+      const name = taken.includes(base) ? `${base}By${capitalize(relation.name)}` : base;
+
+      target.relations.push({
+        name: uniqueName(name, taken),
+        kind: unique ? 'hasOne' : 'hasMany',
+        target: entityNames.get(entity.tableName)!,
+        foreignKey: relation.foreignKey,
+      });
+    }
+  }
+}
+
+/**
+ * Recover RLSConfig from policies: scope/bypass when the policies match
+ * what generate:sql emits for them, custom SQL otherwise
+ */
+function policiesToRLS(table: IntrospectedTable): ImportedEntity['rls'] {
+  const byName = new Map(table.policies.map((p) => [p.name, p]));
+  const generated = RLS_OPERATIONS.map((op) => byName.get(`${table.name}_${op}_policy`));
+
+  if (table.policies.length === 4 && generated.every(Boolean)) {
+    const [select, insert, update, del] = generated as IntrospectedPolicy[];
+    const condition = select.using;
+    const consistent =
+      condition !== undefined &&
+      select.withCheck === undefined &&
+      insert.using === undefined &&
+      insert.withCheck === condition &&
+      update.using === condition &&
+      update.withCheck === condition &&
+      del.using === condition &&
+      del.withCheck === undefined;
+    const parsed = consistent ? parseScopeCondition(condition) : undefined;
+    if (parsed) return parsed;
+  }
+
+  // Permissive policies for the same operation are ORed together
+  const sql: Partial<Record<(typeof RLS_OPERATIONS)[number], string>> = {};
+  for (const op of RLS_OPERATIONS) {
+    const expressions = table.policies
+      .filter((p) => p.command === 'ALL' || p.command === op.toUpperCase())
+      .map((p) => (op === 'insert' ? p.withCheck ?? p.using : p.using ?? p.withCheck))
+      .filter((e): e is string => e !== undefined);
+    // Without a policy, RLS denies the operation
+    sql[op] = expressions.length === 0 ? 'false' : expressions.length === 1 ? expressions[0] : expressions.map((e) => `(${e})`).join(' OR ');
+  }
+  return { sql };
+}
+
+/**
+ * Parse the deparsed form of a generated scope/bypass condition
+ */
+function parseScopeCondition(condition: string): { scope: RLSScopeMapping[]; bypass?: RLSBypass[] } | undefined {
+  const bypass: RLSBypass[] = [];
+  const scope: RLSScopeMapping[] = [];
+  const terms = splitTopLevel(stripParens(condition), ' OR ');
+
+  for (const [i, term] of terms.entries()) {
+    const mapping = parseBypassTerm(stripParens(term));
+    if (mapping) {
+      bypass.push(mapping);
+      continue;
+    }
+    // The scope group comes last
+    if (i !== terms.length - 1) return undefined;
+    for (const part of splitTopLevel(stripParens(term), ' AND ')) {
+      const scoped = parseScopeTerm(stripParens(part));
+      if (!scoped) return undefined;
+      scope.push(scoped);
+    }
+  }
+
+  if (scope.length === 0) return undefined;
+  return bypass.length > 0 ? { scope, bypass } : { scope };
+}
+
+function parseBypassTerm(term: string): RLSBypass | undefined {
+  const match =
+    /^current_setting\('app\.(\w+)'::text, true\) = (.+)$/.exec(term) ?? /^\(auth\.jwt\(\) ->> '(\w+)'::text\) = (.+)$/.exec(term);
+  if (!match) return undefined;
+
+  const list = /^ANY \(ARRAY\[(.*)\]\)$/.exec(match[2])?.[1] ?? match[2];
+  const values = splitTopLevel(list, ', ').map((v) => /^'((?:[^']|'')*)'::text$/.exec(v)?.[1]?.replace(/''/g, "'"));
+  return values.every((v): v is string => v !== undefined) ? { contextKey: match[1], values } : undefined;
+}
+
+function parseScopeTerm(term: string): RLSScopeMapping | undefined {
+  const column = '"?([^"\\s()]+)"?';
+  const patterns: Array<[RegExp, (key: string) => boolean]> = [
+    // generate:sql picks ::uuid when the context key contains "id"
+    [new RegExp(`^${column} = \\(current_setting\\('app\\.(\\w+)'::text, true\\)\\)::uuid$`), (key) => key.toLowerCase().includes('id')],
+    [new RegExp(`^\\(${column}\\)::text = current_setting\\('app\\.(\\w+)'::text, true\\)$`), (key) => !key.toLowerCase().includes('id')],
+    [new RegExp(`^\\(${column}\\)::text = \\(auth\\.jwt\\(\\) ->> '(\\w+)'::text\\)$`), (key) => key !== 'userId' && key !== 'user_id'],
+  ];
+
+  for (const [pattern, valid] of patterns) {
+    const match = pattern.exec(term);
+    if (match && valid(match[2])) return { field: match[1], contextKey: match[2] };
+  }
+
+  const uid = new RegExp(`^${column} = auth\\.uid\\(\\)$`).exec(term);
+  return uid ? { field: uid[1], contextKey: 'userId' } : undefined;
+}
+
+/**
+ * Split an expression on a separator outside parentheses and quotes
+ */
+function splitTopLevel(expression: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (depth === 0 && expression.startsWith(separator, i)) {
+      parts.push(expression.slice(start, i));
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+
+  parts.push(expression.slice(start));
+  return parts;
+}
+
+/**
+ * Remove parentheses wrapping the whole expression
+ */
+function stripParens(expression: string): string {
+  let result = expression.trim();
+  while (result.startsWith('(') && result.endsWith(')') && balanced(result.slice(1, -1))) {
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+}
+
+function balanced(expression: string): boolean {
+  let depth = 0;
+  let quote: string | undefined;
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth < 0) {
+      return false;
+    }
+  }
+  return depth === 0;
+}
+
+function indexConfig(table: string, name: string, config: IndexConfig): IndexConfig {
+  // analyzeIndexes() names indexes idx_<table>_<fields> unless told otherwise
+  return name === `idx_${table}_${config.fields.join('_')}` ? config : { name, ...config };
+}
+
+function hasUuidPrimaryKey(table: IntrospectedTable): boolean {
+  const primaryKey = table.constraints.find((c) => c.kind === 'primary');
+  return primaryKey?.columns.join() === 'id' && table.columns.find((c) => c.name === 'id')?.type === 'uuid';
+}
+
+/**
+ * Entity name for a table (kept in the table's casing so generate:sql
+ * pluralizes it back to the same name: order_items -> order_item)
+ */
+function entityNameForTable(table: string): string {
+  return singularize(table);
+}
+
+function uniqueName(name: string, taken: string[]): string {
+  let candidate = name;
+  for (let i = 2; taken.includes(candidate); i++) candidate = `${name}${i}`;
+  return candidate;
+}
+
+/**
+ * snake_case to camelCase for property names (order_items -> orderItems)
+ */
+function camelize(value: string): string {
+  return value.replace(/_+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
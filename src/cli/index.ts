@@ -30,6 +30,8 @@ export { CodeBuilder } from './utils/code-builder';
 // Generators
 export { generateTypes } from './generators/types';
 export { generateHooks } from './generators/hooks';
+export { generateVueComposables } from './generators/vue-composables';
+export { generateSvelteStores } from './generators/svelte-stores';
 export { generateMockDb } from './generators/mock/db';
 export { generateMockAdapter } from './generators/mock/adapter';
 export { generateMockHandlers } from './generators/mock/handlers';
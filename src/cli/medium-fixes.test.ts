@@ -15,8 +15,8 @@ import { fieldToTsType, primitiveToTs } from './utils/type-mapping';
 describe('Missing Type Mappings', () => {
   describe('fieldToTsType', () => {
     it('should map bigint types correctly', () => {
-      expect(fieldToTsType({ type: 'bigint' })).toBe('bigint');
-      expect(fieldToTsType({ type: 'bigserial' })).toBe('bigint');
+      expect(fieldToTsType({ type: 'bigint' })).toBe('string');
+      expect(fieldToTsType({ type: 'bigserial' })).toBe('string');
     });
 
     it('should map decimal/money types to string for precision', () => {
@@ -59,7 +59,7 @@ describe('Missing Type Mappings', () => {
 
   describe('primitiveToTs', () => {
     it('should handle all new numeric types', () => {
-      expect(primitiveToTs('bigint')).toBe('bigint');
+      expect(primitiveToTs('bigint')).toBe('string');
       expect(primitiveToTs('decimal')).toBe('string');
       expect(primitiveToTs('money')).toBe('string');
     });
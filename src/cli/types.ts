@@ -5,7 +5,7 @@
  * @category CLI
  */
 
-import type { EntitySchema, RLSConfig, RLSFilter, RLSContext, RLSScopeMapping, RLSBypass, IndexConfig, RPCConfig, RPCArgument } from '../schema/types';
+import type { EntitySchema, ViewSchema, RLSConfig, RLSFilter, RLSContext, RLSScopeMapping, RLSBypass, IndexConfig, RPCConfig, RPCArgument, EndpointMethod } from '../schema/types';
 
 // Re-export types for generators
 export type { RLSConfig, RLSFilter, RLSContext, RLSScopeMapping, RLSBypass, IndexConfig, RPCConfig, RPCArgument } from '../schema/types';
@@ -234,6 +234,23 @@ export interface AuthMiddlewareConfig {
   skip?: string[];
 }
 
+/**
+ * Rate limit algorithm (see RateLimitAlgorithm in schemock/security)
+ */
+export type RateLimitAlgorithmName = 'fixed-window' | 'sliding-log' | 'sliding-window' | 'token-bucket';
+
+/**
+ * Rate limit for a specific route or role
+ */
+export interface RateLimitRuleConfig {
+  /** Maximum requests per window */
+  max: number;
+  /** Window duration in milliseconds (default: the top-level windowMs) */
+  windowMs?: number;
+  /** Algorithm (default: the top-level algorithm) */
+  algorithm?: RateLimitAlgorithmName;
+}
+
 /**
  * Rate limit middleware configuration
  */
@@ -242,6 +259,20 @@ export interface RateLimitMiddlewareConfig {
   max: number;
   /** Window duration in milliseconds */
   windowMs: number;
+  /** Counting algorithm (default: 'fixed-window') */
+  algorithm?: RateLimitAlgorithmName;
+  /**
+   * Where counters live: 'memory' (per instance, default) or 'redis' (shared
+   * across instances; export a `redis` client from middleware/redis.ts)
+   */
+  storage?: 'memory' | 'redis';
+  /**
+   * Limits by route, e.g. `{ 'POST /api/login': { max: 5 } }`. Patterns may
+   * use `:param` and a trailing `*`; the first match wins over role limits.
+   */
+  routes?: Record<string, RateLimitRuleConfig>;
+  /** Limits by the caller's role, e.g. `{ admin: { max: 1000 } }` */
+  roles?: Record<string, RateLimitRuleConfig>;
   /** Key generator (default: IP-based) */
   keyGenerator?: 'ip' | 'user' | 'custom';
   /** Custom key generator file path */
@@ -319,7 +350,8 @@ export type TargetType =
   | 'hono'
   | 'node-handlers'
   | 'supabase-edge'
-  | 'neon';
+  | 'neon'
+  | 'graphql-server';
 
 /**
  * Configuration for a single generation target
@@ -346,10 +378,10 @@ export interface GenerationTarget {
   /** Include only entities from this group */
   group?: string;
 
-  /** Backend to use for server targets (e.g., nextjs-api uses supabase under the hood) */
-  backend?: 'supabase' | 'firebase' | 'pglite' | 'fetch';
-  /** Framework integration (react generates hooks/provider, none is framework-agnostic) */
-  framework?: 'react' | 'none';
+  /** Backend to use for server targets (e.g., nextjs-api uses supabase under the hood; nextjs-edge also accepts neon) */
+  backend?: 'supabase' | 'firebase' | 'pglite' | 'fetch' | 'neon';
+  /** Framework integration (react/vue/svelte generate query bindings, none is framework-agnostic) */
+  framework?: FrameworkType;
   /** Middleware configuration for this target */
   middleware?: TargetMiddlewareConfig;
   /** Path to custom hooks file for lifecycle hooks */
@@ -399,6 +431,8 @@ export interface SchemockConfig {
   endpoints?: string;
   /** Glob pattern for middleware discovery */
   middlewareGlob?: string;
+  /** Glob pattern for seed scenario discovery (defineScenario exports) */
+  scenarios?: string;
   /** Output directory (used when targets is not specified) */
   output: string;
   /** Default adapter type (used when targets is not specified) */
@@ -499,6 +533,9 @@ export interface AnalyzedField {
   min?: number;
   max?: number;
   pattern?: string;
+  /** Decimal precision and scale */
+  precision?: number;
+  scale?: number;
 }
 
 /**
@@ -575,6 +612,18 @@ export interface AnalyzedRLS {
   original?: RLSConfig;
 }
 
+/**
+ * Analyzed list pagination settings
+ */
+export interface AnalyzedPagination {
+  /** Pagination style */
+  style: 'offset' | 'cursor';
+  /** Default page size */
+  defaultLimit: number;
+  /** Maximum page size, if capped */
+  maxLimit?: number;
+}
+
 /**
  * Analyzed database index with computed properties
  */
@@ -666,6 +715,10 @@ export interface AnalyzedSchema {
 
   // Flags
   hasTimestamps: boolean;
+  /** Deletes set `deletedAt`; reads skip deleted rows by default */
+  softDelete: boolean;
+  /** Updates check and increment `version`; stale writes are conflicts */
+  versioned: boolean;
   /** Only refs + maybe enum (junction table) */
   isJunctionTable: boolean;
 
@@ -680,6 +733,10 @@ export interface AnalyzedSchema {
   // RPC/Stored procedures
   rpc: AnalyzedRPC[];
 
+  // Pagination
+  /** List pagination settings (from api.pagination) */
+  pagination: AnalyzedPagination;
+
   // Entity Organization & Tagging
   /** Tags for entity classification and filtering */
   tags: string[];
@@ -794,6 +851,89 @@ export interface AnalyzedEndpoint {
   middleware?: AnalyzedMiddlewareRef[];
 }
 
+// ============================================================================
+// Analyzed View Types
+// ============================================================================
+
+/**
+ * Entity a view field is embedded from, and how its records are matched
+ */
+export interface AnalyzedViewEmbed {
+  /** Embedded entity name */
+  entity: string;
+  /** PascalCase entity name (type name in types.ts) */
+  pascalName: string;
+  /** Table/collection name */
+  tableName: string;
+  /** Whether the embed is a list (hasMany) or a single record */
+  isArray: boolean;
+  /** Field on the embedded entity compared with `localKey` */
+  foreignKey: string;
+  /** Field on the view's root entity */
+  localKey: string;
+  /** Fields to include (all when undefined) */
+  select?: string[];
+  /** Sort order, applied in declaration order */
+  orderBy: Array<{ field: string; direction: 'asc' | 'desc' }>;
+  /** Maximum number of records */
+  limit?: number;
+}
+
+/**
+ * Analyzed view field
+ */
+export interface AnalyzedViewField {
+  /** Field name in the view response */
+  name: string;
+  /**
+   * - field: copied from the root record, or from a URL parameter
+   * - embed: related records of another entity
+   * - computed: result of the view's resolve() function
+   * - object: nested group of fields
+   */
+  kind: 'field' | 'embed' | 'computed' | 'object';
+  /** TypeScript type, using the entity interface names of types.ts */
+  tsType: string;
+  /** Where a plain field's value comes from */
+  source?: 'root' | 'param';
+  /** Embed details (kind 'embed') */
+  embed?: AnalyzedViewEmbed;
+  /** Serialized resolve() function (kind 'computed') */
+  resolverSource?: string;
+  /** Nested fields (kind 'object') */
+  fields?: AnalyzedViewField[];
+}
+
+/**
+ * Fully analyzed view with all computed properties
+ */
+export interface AnalyzedView {
+  /** View name (e.g., 'user-full') */
+  name: string;
+  /** camelCase name for client methods (e.g., 'userFull') */
+  camelName: string;
+  /** PascalCase name for types (e.g., 'UserFull') */
+  pascalName: string;
+  /** URL path (e.g., '/api/users/:id/full') */
+  endpoint: string;
+  /** URL parameters declared by the view */
+  params: string[];
+  /** Parameters that are path segments; the rest are query parameters */
+  pathParams: string[];
+  /** Entity whose record the view is built around */
+  root?: {
+    entity: string;
+    pascalName: string;
+    tableName: string;
+    /** Parameter holding the root record's id */
+    keyParam: string;
+  };
+  /** Analyzed fields in declaration order */
+  fields: AnalyzedViewField[];
+  /** Original view schema */
+  original: ViewSchema;
+}
+
 // ============================================================================
 // Analyzed Middleware Reference Types
 // ============================================================================
@@ -901,7 +1041,7 @@ export interface AnalyzedMiddleware {
  * Options for the generate command
  */
 /** Framework type for generated code */
-export type FrameworkType = 'react' | 'none';
+export type FrameworkType = 'react' | 'vue' | 'svelte' | 'none';
 
 export interface GenerateOptions {
   /** Adapter type to generate */
@@ -922,7 +1062,7 @@ export interface GenerateOptions {
   exclude?: string[];
   /** Generate form schemas (Zod validation, defaults, column metadata) */
   withFormSchemas?: boolean;
-  /** Framework integration (react generates hooks/provider, none is framework-agnostic) */
+  /** Framework integration (react/vue/svelte generate query bindings, none is framework-agnostic) */
   framework?: FrameworkType;
 }
 
@@ -937,7 +1077,9 @@ export interface GenerateSQLOptions {
   /** Target platform */
   target?: 'postgres' | 'supabase' | 'pglite';
   /** Generate only specific sections */
-  only?: ('tables' | 'foreign-keys' | 'indexes' | 'rls' | 'functions' | 'triggers')[];
+  only?: ('tables' | 'foreign-keys' | 'indexes' | 'rls' | 'functions' | 'triggers' | 'audit')[];
+  /** Include the audit_events table used by SqlAuditStore */
+  audit?: boolean;
   /** Include README documentation */
   readme?: boolean;
   /** Show what would be generated without writing */
@@ -962,6 +1104,7 @@ export interface SQLGeneratorResult {
     rls: string;
     functions: string;
     triggers: string;
+    audit: string;
   };
   /** Summary counts for README */
   summary: {
@@ -974,6 +1117,364 @@ export interface SQLGeneratorResult {
   };
 }
 
+// ============================================================================
+// Migration Types
+// ============================================================================
+
+/**
+ * Options for the generate:migration command
+ */
+export interface GenerateMigrationOptions {
+  /** Migrations directory (also holds the schema snapshot) */
+  output?: string;
+  /** Migration name, appended to the timestamp */
+  name?: string;
+  /** Target platform (affects RLS policy conditions) */
+  target?: 'postgres' | 'supabase' | 'pglite';
+  /** Renames to apply instead of drop + add ("old_table=new_table", "table.old_column=new_column") */
+  rename?: string[];
+  /** Record the current schemas as the snapshot without writing a migration */
+  baseline?: boolean;
+  /** Show what would be generated without writing */
+  dryRun?: boolean;
+  /** Verbose output */
+  verbose?: boolean;
+  /** Config file path */
+  config?: string;
+}
+
+/**
+ * Column as recorded in a schema snapshot
+ */
+export interface SnapshotColumn {
+  /** Column name */
+  name: string;
+  /** PostgreSQL type */
+  type: string;
+  /** Column is the primary key */
+  primaryKey: boolean;
+  /** Column accepts NULL */
+  nullable: boolean;
+  /** Column has a UNIQUE constraint */
+  unique: boolean;
+  /** DEFAULT expression */
+  default?: string;
+  /** CHECK constraint expression (enum values) */
+  check?: string;
+}
+
+/**
+ * Foreign key as recorded in a schema snapshot
+ */
+export interface SnapshotForeignKey {
+  /** Constraint name */
+  name: string;
+  /** Referencing column */
+  column: string;
+  /** Referenced table */
+  references: string;
+  /** ON DELETE action */
+  onDelete: 'CASCADE' | 'SET NULL';
+}
+
+/**
+ * Table as recorded in a schema snapshot
+ */
+export interface SnapshotTable {
+  /** Table name */
+  name: string;
+  /** Entity the table was generated from */
+  entity: string;
+  /** Columns in declaration order */
+  columns: SnapshotColumn[];
+  /** Foreign key constraints */
+  foreignKeys: SnapshotForeignKey[];
+  /** Indexes (name and CREATE INDEX statement) */
+  indexes: Array<{ name: string; sql: string }>;
+  /** Row-level security is enabled */
+  rls: boolean;
+  /** RLS policies */
+  policies: Array<{ name: string; command: string; using?: string; withCheck?: string }>;
+  /** Table has managed created_at/updated_at columns and trigger */
+  timestamps: boolean;
+}
+
+/**
+ * RPC function as recorded in a schema snapshot
+ */
+export interface SnapshotFunction {
+  /** Function name */
+  name: string;
+  /** Argument types, used to identify the function when dropping it */
+  argTypes: string[];
+  /** Return type (CREATE OR REPLACE cannot change it) */
+  returns: string;
+  /** CREATE OR REPLACE FUNCTION statement */
+  sql: string;
+}
+
+/**
+ * Serializable snapshot of the database objects generated from the schemas
+ */
+export interface SchemaSnapshot {
+  /** Snapshot format version */
+  version: 1;
+  /** Target platform the snapshot was taken for */
+  target: 'postgres' | 'supabase' | 'pglite';
+  /** Tables in dependency order */
+  tables: SnapshotTable[];
+  /** RPC functions */
+  functions: SnapshotFunction[];
+}
+
+/**
+ * Renames to apply when diffing snapshots
+ */
+export interface MigrationRenames {
+  /** Previous table name -> new table name */
+  tables?: Record<string, string>;
+  /** "previous_table.previous_column" -> new column name */
+  columns?: Record<string, string>;
+}
+
+/**
+ * A single migration step
+ */
+export interface MigrationStep {
+  /** Human-readable description */
+  description: string;
+  /** SQL statements */
+  sql: string[];
+  /** Step can lose data or fail on existing rows and must be reviewed */
+  destructive: boolean;
+  /** Review note explaining the risk */
+  note?: string;
+}
+
+/**
+ * Result of diffing two schema snapshots
+ */
+export interface MigrationResult {
+  /** Up migration SQL */
+  up: string;
+  /** Down migration SQL */
+  down: string;
+  /** Up steps in execution order */
+  steps: MigrationStep[];
+  /** Up steps flagged for review */
+  destructive: MigrationStep[];
+}
+
+// ============================================================================
+// Import Types
+// ============================================================================
+
+/**
+ * Options for the import:sql command
+ */
+export interface ImportSqlOptions {
+  /** SQL file (schema.sql, pg_dump output) or PGlite data directory */
+  input: string;
+  /** Directory for the generated schema files */
+  output?: string;
+  /** Overwrite existing schema files */
+  force?: boolean;
+  /** Show what would be generated without writing */
+  dryRun?: boolean;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Options for the generate:openapi command
+ */
+export interface GenerateOpenApiOptions {
+  /** Output file */
+  output?: string;
+  /** Output format (default: from the file extension, else json) */
+  format?: string;
+  /** Config file path */
+  config?: string;
+  /** Show what would be generated without writing */
+  dryRun?: boolean;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Options for the generate:postman command
+ */
+export interface GeneratePostmanOptions {
+  /** Collection file; environments are written next to it */
+  output?: string;
+  /** Group entity folders by their first tag, module or group */
+  groupBy?: string;
+  /** Config file path */
+  config?: string;
+  /** Show what would be generated without writing */
+  dryRun?: boolean;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Options for the generate:tests command
+ */
+export interface GenerateTestsOptions {
+  /** Output directory for the contract suite */
+  output?: string;
+  /** Config file path */
+  config?: string;
+  /** Show what would be generated without writing */
+  dryRun?: boolean;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Options for the seed command
+ */
+export interface SeedOptions {
+  /** Scenario name; lists the available scenarios when omitted */
+  scenario?: string;
+  /** JSON file for the built dataset (default: ./seed-<scenario>.json) */
+  output?: string;
+  /** Origin of a running API to create the records through instead */
+  url?: string;
+  /** Faker seed, overriding the config's fakerSeed */
+  fakerSeed?: number;
+  /** Config file path */
+  config?: string;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Options for the snapshot:save and snapshot:restore commands
+ */
+export interface SnapshotOptions {
+  /** Snapshot file to write or read */
+  file: string;
+  /** Origin of a running API to read the records from or create them through */
+  url?: string;
+  /** Take the snapshot of a seed scenario instead of an API (snapshot:save) */
+  scenario?: string;
+  /** File for the migrated snapshot (snapshot:restore) */
+  output?: string;
+  /** Renames since the snapshot was taken: `user.fullName=name` or `person=user` */
+  rename?: string[];
+  /** Faker seed for scenarios, overriding the config's fakerSeed */
+  fakerSeed?: number;
+  /** Config file path */
+  config?: string;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Options for the import:openapi command
+ */
+export interface ImportOpenApiOptions {
+  /** OpenAPI 3 document (JSON) */
+  input: string;
+  /** Directory for the generated schema files */
+  output?: string;
+  /** Overwrite existing schema files */
+  force?: boolean;
+  /** Show what would be generated without writing */
+  dryRun?: boolean;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Field recovered from an external source, rendered as a field.* builder call
+ */
+export interface ImportedField {
+  /** Field name */
+  name: string;
+  /** Builder to use */
+  type: 'uuid' | 'string' | 'email' | 'url' | 'number' | 'int' | 'boolean' | 'date' | 'enum' | 'ref' | 'array' | 'object';
+  /** Minimum string length or number value */
+  min?: number;
+  /** Maximum string length or number value */
+  max?: number;
+  /** Regular expression source (strings) */
+  pattern?: string;
+  /** Enum values */
+  values?: string[];
+  /** Referenced entity (for refs) */
+  target?: string;
+  /** Item type (for arrays) */
+  items?: ImportedField;
+  /** Nested fields (for objects) */
+  shape?: ImportedField[];
+  nullable: boolean;
+  unique: boolean;
+  readOnly?: boolean;
+  /** Default value (omitted when the source default has no DSL equivalent) */
+  default?: unknown;
+  /** Trailing comment, e.g. the original type when the DSL cannot express it */
+  comment?: string;
+}
+
+/**
+ * Relation recovered from a foreign key
+ */
+export interface ImportedRelation {
+  /** Relation property name */
+  name: string;
+  kind: 'belongsTo' | 'hasMany' | 'hasOne';
+  /** Related entity */
+  target: string;
+  /** Foreign key field */
+  foreignKey: string;
+}
+
+/**
+ * Entity recovered from an external source, ready to render as a defineData() call
+ */
+export interface ImportedEntity {
+  /** Entity name (singular camelCase) */
+  name: string;
+  /** Source table (or OpenAPI component schema) */
+  tableName: string;
+  fields: ImportedField[];
+  relations: ImportedRelation[];
+  /** Source table has created_at/updated_at columns managed by Schemock */
+  timestamps: boolean;
+  indexes: IndexConfig[];
+  rls?: Pick<RLSConfig, 'scope' | 'bypass' | 'sql'>;
+}
+
+/**
+ * Custom endpoint recovered from an external source, ready to render as a defineEndpoint() call
+ */
+export interface ImportedEndpoint {
+  /** Endpoint name (camelCase), exported as <Name>Endpoint */
+  name: string;
+  /** Path in defineEndpoint form (/orders/:id/cancel) */
+  path: string;
+  method: EndpointMethod;
+  description?: string;
+  /** File the endpoint is written to (first OpenAPI tag) */
+  group?: string;
+  params: ImportedField[];
+  body: ImportedField[];
+  response: ImportedField[];
+}
+
+/**
+ * Result of importing an external schema
+ */
+export interface ImportResult {
+  entities: ImportedEntity[];
+  /** Custom endpoints (OpenAPI only) */
+  endpoints?: ImportedEndpoint[];
+  /** Objects that could not be imported, or were imported with losses */
+  warnings: string[];
+}
+
 /**
  * Helper function for type-safe config
  */
@@ -131,4 +131,27 @@ describe('fieldToFakerCall', () => {
       expect(result).toMatch(/faker\.lorem\.sentence/);
     });
   });
+
+  describe('precision-sensitive types', () => {
+    it('field.decimal({ precision: 4, scale: 2 }) named "price" → bounded faker.finance.amount string', () => {
+      const field: FieldDefinition = { type: 'decimal', constraints: { precision: 4, scale: 2 } };
+      const result = fieldToFakerCall('price', field, defaultConfig);
+      expect(result).toBe('faker.finance.amount({ min: 0, max: 99.99, dec: 2 })');
+    });
+
+    it('field.bigint() respects min/max and yields a decimal string', () => {
+      const field: FieldDefinition = { type: 'bigint', constraints: { min: 10, max: 20 } };
+      expect(fieldToFakerCall('counter', field, defaultConfig)).toBe('faker.number.bigInt({ min: 10, max: 20 }).toString()');
+    });
+
+    it('field.bytes() named "tokenHash" → base64 string, not faker.string.alphanumeric', () => {
+      const result = fieldToFakerCall('tokenHash', { type: 'bytes' }, defaultConfig);
+      expect(result).toMatch(/^btoa\(String\.fromCharCode\(/);
+    });
+
+    it('field.time() → HH:MM:SS string', () => {
+      const result = fieldToFakerCall('opensAt', { type: 'time' }, defaultConfig);
+      expect(result).toBe('faker.date.recent().toISOString().slice(11, 19)');
+    });
+  });
 });
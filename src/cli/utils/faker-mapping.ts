@@ -113,6 +113,8 @@ const defaultMappings: FakerMapping[] = [
   { type: 'float', call: 'faker.number.float({ min: 0, max: 1000, fractionDigits: 2 })' },
   { type: 'boolean', call: 'faker.datatype.boolean()' },
   { type: 'date', call: 'faker.date.recent()' },
+  { type: 'datetime', call: 'faker.date.recent()' },
+  { type: 'time', call: 'faker.date.recent().toISOString().slice(11, 19)' },
   { type: 'json', call: '{}' },
   { type: 'ref', call: 'faker.string.uuid()' },
 ];
@@ -132,7 +134,7 @@ const defaultMappings: FakerMapping[] = [
 export function fieldToFakerCall(
   fieldName: string,
   field: FieldDefinition,
-  config: SchemockConfig
+  config: Pick<SchemockConfig, 'fakerMappings'>
 ): string {
   // Merge custom mappings with defaults (custom takes priority)
   const mappings = [...(config.fakerMappings || []), ...defaultMappings];
@@ -202,6 +204,27 @@ export function fieldToFakerCall(
     const max = field.constraints?.max ?? 1000;
     return `faker.number.float({ min: ${min}, max: ${max}, fractionDigits: 2 })`;
   }
+  if (field.type === 'decimal') {
+    // faker.finance.amount() returns a string, matching the precision-safe TS type
+    const scale = field.constraints?.scale ?? 2;
+    const precision = field.constraints?.precision;
+    const largest = precision !== undefined ? Number((10 ** (precision - scale) - 10 ** -scale).toFixed(scale)) : 1000;
+    const min = field.constraints?.min ?? 0;
+    const max = field.constraints?.max ?? Math.min(largest, 1000);
+    return `faker.finance.amount({ min: ${min}, max: ${max}, dec: ${scale} })`;
+  }
+  if (field.type === 'bigint') {
+    const min = field.constraints?.min ?? 1;
+    const max = field.constraints?.max ?? 1000000;
+    // A decimal string, matching the generated TS type
+    return `faker.number.bigInt({ min: ${min}, max: ${max} }).toString()`;
+  }
+  if (field.type === 'bytes') {
+    const min = field.constraints?.min ?? 8;
+    const max = field.constraints?.max ?? 32;
+    // Random bytes as a base64 string, matching the generated TS type
+    return `btoa(String.fromCharCode(...Array.from({ length: faker.number.int({ min: ${min}, max: ${max} }) }, () => faker.number.int(255))))`;
+  }
   if (field.type === 'string' && (field.constraints?.min || field.constraints?.max)) {
     const min = field.constraints?.min ?? 1;
     const max = field.constraints?.max ?? 100;
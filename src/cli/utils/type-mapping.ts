@@ -15,7 +15,7 @@ import type { FieldDefinition } from '../../schema/types';
  * fieldToTsType({ type: 'string' }) // 'string'
  * fieldToTsType({ type: 'enum', values: ['a', 'b'] }) // "'a' | 'b'"
  * fieldToTsType({ type: 'array', items: { type: 'string' } }) // 'string[]'
- * fieldToTsType({ type: 'bigint' }) // 'bigint'
+ * fieldToTsType({ type: 'bigint' }) // 'string' (decimal string, as in JSON)
  * fieldToTsType({ type: 'decimal' }) // 'string' (precision-safe)
  * ```
  */
@@ -35,10 +35,10 @@ export function fieldToTsType(field: FieldDefinition): string {
     case 'double':
       return 'number';
 
-    // BigInt support - use native bigint type
+    // BigInt - a decimal string, the form it takes in JSON, OpenAPI and storage
     case 'bigint':
     case 'bigserial':
-      return 'bigint';
+      return 'string';
 
     // Decimal/Money - use string for precision (avoids floating point issues)
     case 'decimal':
@@ -46,7 +46,9 @@ export function fieldToTsType(field: FieldDefinition): string {
     case 'money':
       return 'string';
 
-    // Binary data - use Uint8Array or Buffer
+    // Binary data - field.bytes() is carried as a base64 string so it survives JSON
+    case 'bytes':
+      return 'string';
     case 'bytea':
     case 'binary':
     case 'blob':
@@ -149,13 +151,15 @@ export function primitiveToTs(type: string): string {
 
     case 'bigint':
     case 'bigserial':
-      return 'bigint';
+      return 'string';
 
     case 'decimal':
     case 'numeric':
     case 'money':
       return 'string';
 
+    case 'bytes':
+      return 'string';
     case 'bytea':
     case 'binary':
     case 'blob':
@@ -0,0 +1,102 @@
+/**
+ * Tests for watch mode helpers
+ *
+ * @module cli/watch.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { diffSnapshots, fingerprint, formatChanges, snapshotFiles, watchFiles, type FileChange } from './watch';
+
+describe('watch helpers', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'schemock-watch-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should report added, modified and removed files sorted by path', () => {
+      const before = new Map([['/b.ts', '1'], ['/c.ts', '1']]);
+      const after = new Map([['/a.ts', '1'], ['/b.ts', '2']]);
+
+      expect(diffSnapshots(before, after)).toEqual([
+        { path: '/a.ts', kind: 'added' },
+        { path: '/b.ts', kind: 'modified' },
+        { path: '/c.ts', kind: 'removed' },
+      ]);
+    });
+  });
+
+  describe('formatChanges', () => {
+    it('should print one line per file relative to the working directory', () => {
+      const lines = formatChanges([
+        { path: join(process.cwd(), 'src/a.ts'), kind: 'added' },
+        { path: join(process.cwd(), 'src/b.ts'), kind: 'modified' },
+      ]);
+
+      expect(lines).toEqual([`   + ${join('src', 'a.ts')}`, `   ~ ${join('src', 'b.ts')}`]);
+    });
+  });
+
+  describe('fingerprint', () => {
+    it('should change when a function body changes', () => {
+      const before = fingerprint({ resolver: () => 1 });
+      const after = fingerprint({ resolver: () => 2 });
+
+      expect(before).not.toBe(after);
+      expect(fingerprint({ resolver: () => 1 })).toBe(before);
+    });
+
+    it('should serialize maps and survive circular references', () => {
+      const node: Record<string, unknown> = { files: new Map([['/api', 'a.ts']]) };
+      node.self = node;
+
+      expect(fingerprint(node)).toContain('a.ts');
+    });
+  });
+
+  describe('snapshotFiles', () => {
+    it('should read nested files and skip missing directories', async () => {
+      await mkdir(join(dir, 'nested'));
+      await writeFile(join(dir, 'nested', 'types.ts'), 'export {};');
+
+      const snapshot = await snapshotFiles([dir, join(dir, 'missing')]);
+
+      expect([...snapshot.entries()]).toEqual([[join(dir, 'nested', 'types.ts'), 'export {};']]);
+    });
+  });
+
+  describe('watchFiles', () => {
+    it('should report files added and modified after the first poll', async () => {
+      const file = join(dir, 'user.ts');
+      await writeFile(file, 'v1');
+      const batches: FileChange[][] = [];
+      const stop = watchFiles([`${dir}/**/*.ts`], (changes) => void batches.push(changes), { interval: 20 });
+
+      try {
+        // Let the first poll record the existing file
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        await writeFile(file, 'version 2');
+        await writeFile(join(dir, 'post.ts'), 'v1');
+
+        await vi.waitFor(() => {
+          expect(batches.flat()).toEqual(
+            expect.arrayContaining([
+              { path: join(dir, 'post.ts'), kind: 'added' },
+              { path: file, kind: 'modified' },
+            ])
+          );
+        });
+      } finally {
+        stop();
+      }
+    });
+  });
+});
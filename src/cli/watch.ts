@@ -0,0 +1,198 @@
+/**
+ * Watch mode helpers for Schemock CLI
+ *
+ * @module cli/watch
+ * @category CLI
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { listMatchingFiles } from './discover';
+
+/**
+ * A file that was added, modified or removed
+ */
+export interface FileChange {
+  /** Absolute file path */
+  path: string;
+  /** What happened to the file */
+  kind: 'added' | 'modified' | 'removed';
+}
+
+/**
+ * Options for watching files
+ */
+export interface WatchFilesOptions {
+  /** Polling interval in milliseconds (default: 300) */
+  interval?: number;
+}
+
+/**
+ * Watch glob patterns for added, modified and removed files
+ *
+ * Polls instead of using fs.watch: recursive fs.watch is unavailable on
+ * Linux before Node 20, and polling also picks up new files in new
+ * directories. The next poll starts only after `onChange` has settled, so
+ * changes made during a slow regeneration are reported by the next call.
+ *
+ * @param patterns - Glob patterns or file paths
+ * @param onChange - Called with the changes of each poll that found any
+ * @param options - Watch options
+ * @returns Function that stops watching
+ */
+export function watchFiles(
+  patterns: string[],
+  onChange: (changes: FileChange[]) => void | Promise<void>,
+  options: WatchFilesOptions = {}
+): () => void {
+  const interval = options.interval ?? 300;
+  let previous: Map<string, string> | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const poll = async (): Promise<void> => {
+    try {
+      const current = await statFiles(patterns);
+      if (previous) {
+        const changes = diffSnapshots(previous, current);
+        if (changes.length > 0) await onChange(changes);
+      }
+      previous = current;
+    } catch (error) {
+      console.error(`   ✗ Watch error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!stopped) timer = setTimeout(poll, interval);
+  };
+
+  void poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+/**
+ * Record modification time and size of every file the patterns match
+ */
+async function statFiles(patterns: string[]): Promise<Map<string, string>> {
+  const snapshot = new Map<string, string>();
+
+  for (const pattern of patterns) {
+    for (const file of await listMatchingFiles(pattern)) {
+      try {
+        const { mtimeMs, size } = await stat(file);
+        snapshot.set(file, `${mtimeMs}:${size}`);
+      } catch {
+        // Deleted between listing and stat; reported as removed
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Read every file below the given directories
+ *
+ * Missing directories are skipped, so it can be called before the first
+ * generation.
+ *
+ * @param dirs - Directories to read
+ * @returns Map of absolute file path to content
+ */
+export async function snapshotFiles(dirs: string[]): Promise<Map<string, string>> {
+  const snapshot = new Map<string, string>();
+
+  const visit = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await visit(path);
+      } else if (entry.isFile() && !snapshot.has(path)) {
+        snapshot.set(path, await readFile(path, 'utf-8'));
+      }
+    }
+  };
+
+  for (const dir of new Set(dirs)) {
+    await visit(dir);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Compare two snapshots (path to content or stat signature)
+ *
+ * @param before - Earlier snapshot
+ * @param after - Later snapshot
+ * @returns Changes sorted by path
+ */
+export function diffSnapshots(before: Map<string, string>, after: Map<string, string>): FileChange[] {
+  const changes: FileChange[] = [];
+
+  for (const [path, value] of after) {
+    if (!before.has(path)) {
+      changes.push({ path, kind: 'added' });
+    } else if (before.get(path) !== value) {
+      changes.push({ path, kind: 'modified' });
+    }
+  }
+  for (const path of before.keys()) {
+    if (!after.has(path)) {
+      changes.push({ path, kind: 'removed' });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Format changes as one line per file: "+" added, "~" modified, "-" removed
+ *
+ * @param changes - File changes
+ * @returns Lines with paths relative to the working directory
+ */
+export function formatChanges(changes: FileChange[]): string[] {
+  const symbols: Record<FileChange['kind'], string> = { added: '+', modified: '~', removed: '-' };
+  return changes.map((change) => `   ${symbols[change.kind]} ${relative(process.cwd(), change.path)}`);
+}
+
+/**
+ * Serialize a value for change detection
+ *
+ * Unlike JSON.stringify, functions (resolvers, RLS checks) contribute their
+ * source, Maps and Sets their entries, and repeated or circular references
+ * are cut off instead of throwing.
+ *
+ * @param value - Value to serialize
+ * @returns A string that changes when the value changes
+ */
+export function fingerprint(value: unknown): string {
+  const seen = new WeakSet<object>();
+
+  const serialized = JSON.stringify(value, (_key, val: unknown) => {
+    if (typeof val === 'function') return `[Function ${val.toString()}]`;
+    if (typeof val === 'bigint') return `${val}n`;
+    if (val instanceof RegExp) return val.toString();
+    if (val !== null && typeof val === 'object') {
+      if (seen.has(val)) return '[Repeated]';
+      seen.add(val);
+      if (val instanceof Map) return { '[Map]': [...val.entries()] };
+      if (val instanceof Set) return { '[Set]': [...val] };
+    }
+    return val;
+  });
+
+  return serialized ?? '';
+}
@@ -0,0 +1,145 @@
+/**
+ * Example values for API documentation
+ *
+ * Builds JSON example values from field definitions with Faker.js. Values
+ * are reproducible: faker is seeded and dates are relative to a fixed
+ * reference date, so regenerating a spec does not change its examples.
+ *
+ * @module generator/examples
+ * @category Generator
+ */
+
+import { faker } from '@faker-js/faker';
+import { DataGenerator } from '../adapters/mock/generator';
+import { fieldToFakerCall } from '../cli/utils/faker-mapping';
+import type { FakerMapping } from '../cli/types';
+import type { EntitySchema, FieldDefinition } from '../schema/types';
+
+/** Reference date for generated dates */
+const REFERENCE_DATE = new Date('2024-01-15T12:00:00.000Z');
+
+const generator = new DataGenerator();
+
+/**
+ * Run `fn` with faker seeded and its reference date fixed, restoring the
+ * reference date afterwards.
+ *
+ * @param seed - Faker seed
+ * @param fn - Example generation to run
+ */
+export function withExampleSeed<T>(seed: number, fn: () => T): T {
+  const refDate = faker.defaultRefDate();
+  faker.seed(seed);
+  faker.setDefaultRefDate(REFERENCE_DATE);
+  try {
+    return fn();
+  } finally {
+    faker.setDefaultRefDate(refDate);
+  }
+}
+
+/**
+ * Generate an example value for a field, as it appears in a JSON body.
+ *
+ * Defaults are used as-is; nullable fields get a non-null value.
+ *
+ * @param field - Field definition
+ * @returns JSON-serializable example value
+ */
+export function exampleValue(field: FieldDefinition): unknown {
+  if (field.default !== undefined) {
+    return toJsonValue(field.default);
+  }
+  if (field.type === 'array') {
+    return field.items ? [exampleValue(field.items)] : [];
+  }
+  if (field.type === 'object' && field.shape) {
+    return exampleObject(field.shape);
+  }
+  return toJsonValue(generator.generateValue({ ...field, nullable: false }));
+}
+
+/**
+ * Generate an example value with the faker call the code generators emit
+ * for the field, so a project's custom `fakerMappings` apply.
+ *
+ * @param name - Field name, matched against `fieldName` mappings
+ * @param field - Field definition
+ * @param fakerMappings - Custom mappings, checked before the defaults
+ * @returns JSON-serializable example value
+ */
+export function mappedExampleValue(name: string, field: FieldDefinition, fakerMappings?: FakerMapping[]): unknown {
+  if (field.default !== undefined) {
+    return toJsonValue(field.default);
+  }
+  const call = fieldToFakerCall(name, field, { fakerMappings });
+  return toJsonValue(new Function('faker', `return ${call};`)(faker));
+}
+
+/**
+ * Generate an example object with a value for every field.
+ *
+ * @param fields - Field definitions by name
+ * @returns JSON-serializable example object
+ */
+export function exampleObject(fields: Record<string, FieldDefinition>): Record<string, unknown> {
+  const example: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(fields)) {
+    example[name] = exampleValue(field);
+  }
+  return example;
+}
+
+/**
+ * Generate an example of a stored entity, including its timestamps.
+ *
+ * @param entity - Entity schema
+ * @returns JSON-serializable example record
+ */
+export function exampleEntity(entity: EntitySchema): Record<string, unknown> {
+  const example = exampleObject(entity.fields);
+  if (entity.timestamps) {
+    example.createdAt = toJsonValue(faker.date.recent({ days: 30 }));
+    example.updatedAt = toJsonValue(faker.date.recent({ days: 1 }));
+  }
+  return example;
+}
+
+/**
+ * Generate an example create body: every writable field except `id`.
+ *
+ * @param entity - Entity schema
+ * @returns JSON-serializable example input
+ */
+export function exampleCreateInput(entity: EntitySchema): Record<string, unknown> {
+  const example: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(entity.fields)) {
+    if (name === 'id' || field.readOnly) continue;
+    example[name] = exampleValue(field);
+  }
+  return example;
+}
+
+/**
+ * Convert a generated value to its JSON wire form: dates as ISO strings,
+ * bigints as decimal strings and bytes as base64, also inside arrays and
+ * plain objects.
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJsonValue(item)]));
+  }
+  return value;
+}
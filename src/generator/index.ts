@@ -9,12 +9,15 @@
 export {
   generateOpenAPI,
   registerSchemas,
+  registerEndpoints,
 } from './openapi';
 export type { OpenAPISpec, OpenAPIOptions } from './openapi';
 
 // Postman collection generation
 export {
   generatePostmanCollection,
+  generatePostmanEnvironment,
   registerSchemasForPostman,
+  registerEndpointsForPostman,
 } from './postman';
-export type { PostmanCollection, PostmanOptions } from './postman';
+export type { PostmanCollection, PostmanEnvironment, PostmanOptions } from './postman';
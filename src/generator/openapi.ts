@@ -1,20 +1,24 @@
 /**
- * OpenAPI Generator - Generate OpenAPI 3.0 specs from schemas
+ * OpenAPI Generator - Generate OpenAPI 3.1 specs from schemas
  *
- * Transforms Schemock entity schemas into OpenAPI 3.0 specification
- * for API documentation and client generation.
+ * Transforms Schemock entity schemas and custom endpoints into an OpenAPI 3.1
+ * specification for API documentation and client generation. Auth and rate
+ * limit middleware config adds security schemes and per-operation notes.
  *
  * @module generator/openapi
  * @category Generator
  */
 
-import type { EntitySchema, FieldDefinition, RelationDefinition } from '../schema/types';
+import type { EndpointSchema, EntitySchema, FieldDefinition, RelationDefinition } from '../schema/types';
+import type { AuthMiddlewareConfig, RateLimitMiddlewareConfig } from '../cli/types';
+import { resolveRateLimit } from '../security/rate-limit';
+import { exampleCreateInput, exampleEntity, exampleObject, exampleValue, withExampleSeed } from './examples';
 
 /**
- * OpenAPI 3.0 Specification type.
+ * OpenAPI 3.1 Specification type.
  */
 export interface OpenAPISpec {
-  openapi: '3.0.0';
+  openapi: '3.1.0';
   info: {
     title: string;
     version: string;
@@ -26,10 +30,30 @@ export interface OpenAPISpec {
     schemas: Record<string, SchemaObject>;
     parameters?: Record<string, ParameterObject>;
     responses?: Record<string, ResponseObject>;
+    securitySchemes?: Record<string, SecuritySchemeObject>;
   };
+  security?: SecurityRequirement[];
   tags?: Array<{ name: string; description?: string }>;
 }
 
+/**
+ * OpenAPI Security Requirement: scheme name to scopes. An empty object
+ * makes authentication optional.
+ */
+type SecurityRequirement = Record<string, string[]>;
+
+/**
+ * OpenAPI Security Scheme Object.
+ */
+interface SecuritySchemeObject {
+  type: 'http' | 'apiKey';
+  description?: string;
+  scheme?: string;
+  bearerFormat?: string;
+  name?: string;
+  in?: 'header' | 'cookie';
+}
+
 /**
  * OpenAPI Path Item.
  */
@@ -56,20 +80,22 @@ interface OperationObject {
     content: Record<string, { schema: SchemaObject | RefObject }>;
   };
   responses: Record<string, ResponseObject>;
+  security?: SecurityRequirement[];
 }
 
 /**
- * OpenAPI Schema Object.
+ * OpenAPI Schema Object (JSON Schema 2020-12).
  */
 interface SchemaObject {
-  type?: string;
+  type?: string | string[];
   format?: string;
   description?: string;
   properties?: Record<string, SchemaObject | RefObject>;
+  additionalProperties?: boolean | SchemaObject | RefObject;
   required?: string[];
   items?: SchemaObject | RefObject;
-  enum?: string[];
-  nullable?: boolean;
+  anyOf?: Array<SchemaObject | RefObject>;
+  enum?: unknown[];
   readOnly?: boolean;
   default?: unknown;
   minimum?: number;
@@ -77,6 +103,7 @@ interface SchemaObject {
   minLength?: number;
   maxLength?: number;
   pattern?: string;
+  examples?: unknown[];
 }
 
 /**
@@ -93,7 +120,9 @@ interface ParameterObject {
   name: string;
   in: 'query' | 'header' | 'path' | 'cookie';
   required?: boolean;
-  schema: SchemaObject;
+  /** Either a schema or, for JSON-encoded values, content */
+  schema?: SchemaObject;
+  content?: Record<string, { schema: SchemaObject | RefObject }>;
   description?: string;
 }
 
@@ -102,6 +131,7 @@ interface ParameterObject {
  */
 interface ResponseObject {
   description: string;
+  headers?: Record<string, { description?: string; schema: SchemaObject }>;
   content?: Record<string, { schema: SchemaObject | RefObject }>;
 }
 
@@ -121,6 +151,14 @@ export interface OpenAPIOptions {
   servers?: Array<{ url: string; description?: string }>;
   /** Base path for endpoints */
   basePath?: string;
+  /** Auth middleware config; adds a security scheme and per-operation security */
+  auth?: AuthMiddlewareConfig;
+  /** Rate limit middleware config; adds limits to operation descriptions and 429 responses */
+  rateLimit?: RateLimitMiddlewareConfig;
+  /** Add faker-generated examples to schemas (default: false) */
+  examples?: boolean;
+  /** Faker seed for the examples (default: 1) */
+  fakerSeed?: number;
 }
 
 /**
@@ -128,6 +166,11 @@ export interface OpenAPIOptions {
  */
 let registeredSchemas: EntitySchema[] = [];
 
+/**
+ * Custom endpoints to generate operations for.
+ */
+let registeredEndpoints: EndpointSchema[] = [];
+
 /**
  * Register schemas for OpenAPI generation.
  *
@@ -138,21 +181,33 @@ export function registerSchemas(schemas: EntitySchema[]): void {
 }
 
 /**
- * Generate OpenAPI 3.0 specification from registered schemas.
+ * Register custom endpoints (defineEndpoint) for OpenAPI generation.
+ *
+ * @param endpoints - Array of endpoint schemas
+ */
+export function registerEndpoints(endpoints: EndpointSchema[]): void {
+  registeredEndpoints = endpoints;
+}
+
+/**
+ * Generate OpenAPI 3.1 specification from registered schemas and endpoints.
  *
  * @param options - Generation options
- * @returns Complete OpenAPI 3.0 specification
+ * @returns Complete OpenAPI 3.1 specification
  *
  * @example
  * ```typescript
- * import { generateOpenAPI, registerSchemas } from 'schemock/generator';
+ * import { generateOpenAPI, registerSchemas, registerEndpoints } from 'schemock/generator';
  *
  * registerSchemas([userSchema, postSchema]);
+ * registerEndpoints([searchEndpoint]);
  *
  * const spec = generateOpenAPI({
  *   title: 'My API',
  *   version: '1.0.0',
  *   serverUrl: 'https://api.example.com',
+ *   auth: { provider: 'jwt' },
+ *   examples: true,
  * });
  *
  * // Write to file
@@ -167,10 +222,12 @@ export function generateOpenAPI(options?: OpenAPIOptions): OpenAPISpec {
     serverUrl,
     servers,
     basePath = '/api',
+    examples = false,
+    fakerSeed = 1,
   } = options ?? {};
 
   const spec: OpenAPISpec = {
-    openapi: '3.0.0',
+    openapi: '3.1.0',
     info: {
       title,
       version,
@@ -213,6 +270,10 @@ export function generateOpenAPI(options?: OpenAPIOptions): OpenAPISpec {
     });
   }
 
+  if (registeredSchemas.length > 0) {
+    spec.components.schemas.FieldFilter = FIELD_FILTER_SCHEMA;
+  }
+
   // Generate schemas and paths for each entity
   for (const schema of registeredSchemas) {
     // Add tag for entity
@@ -225,6 +286,7 @@ export function generateOpenAPI(options?: OpenAPIOptions): OpenAPISpec {
     spec.components.schemas[capitalize(schema.name)] = entityToSchema(schema);
     spec.components.schemas[`${capitalize(schema.name)}Create`] = entityToCreateSchema(schema);
     spec.components.schemas[`${capitalize(schema.name)}Update`] = entityToUpdateSchema(schema);
+    spec.components.schemas[`${capitalize(schema.name)}Filter`] = entityToFilterSchema(schema);
 
     // Generate paths
     const entityPath = `${basePath}/${pluralize(schema.name)}`;
@@ -254,6 +316,24 @@ export function generateOpenAPI(options?: OpenAPIOptions): OpenAPISpec {
     };
   }
 
+  for (const endpoint of registeredEndpoints) {
+    const path = toOpenAPIPath(endpoint.path);
+    spec.paths[path] = {
+      ...spec.paths[path],
+      [endpoint.method.toLowerCase()]: createEndpointOperation(endpoint),
+    };
+  }
+
+  if (examples) {
+    withExampleSeed(fakerSeed, () => addExamples(spec));
+  }
+  if (options?.auth) {
+    addSecurity(spec, options.auth);
+  }
+  if (options?.rateLimit) {
+    addRateLimitNotes(spec, options.rateLimit);
+  }
+
   return spec;
 }
 
@@ -335,6 +415,66 @@ function entityToUpdateSchema(entity: EntitySchema): SchemaObject {
   };
 }
 
+/**
+ * Operators a filter can apply to one field (FieldFilter in the generated types).
+ */
+const FIELD_FILTER_SCHEMA: SchemaObject = {
+  type: 'object',
+  description: 'Operators for one field; a plain value matches by equality',
+  properties: {
+    equals: {},
+    not: {},
+    in: { type: 'array', items: {} },
+    notIn: { type: 'array', items: {} },
+    lt: {},
+    lte: {},
+    gt: {},
+    gte: {},
+    contains: { type: 'string' },
+    startsWith: { type: 'string' },
+    endsWith: { type: 'string' },
+    mode: { type: 'string', enum: ['default', 'insensitive'] },
+    isNull: { type: 'boolean' },
+  },
+};
+
+/**
+ * Convert entity schema to the filter accepted by the list `where` parameter.
+ */
+function entityToFilterSchema(entity: EntitySchema): SchemaObject {
+  const self: RefObject = { $ref: `#/components/schemas/${capitalize(entity.name)}Filter` };
+  const properties: Record<string, SchemaObject | RefObject> = {};
+
+  for (const [name, field] of Object.entries(entity.fields)) {
+    properties[name] = { anyOf: [fieldToSchema(field), { $ref: '#/components/schemas/FieldFilter' }] };
+  }
+  properties.AND = { anyOf: [self, { type: 'array', items: self }] };
+  properties.OR = { type: 'array', items: self };
+  properties.NOT = { anyOf: [self, { type: 'array', items: self }] };
+
+  return { type: 'object', properties };
+}
+
+/**
+ * Field types whose values travel as strings, so min/max cannot map to minimum/maximum.
+ */
+const STRING_ENCODED_TYPES = new Set(['decimal', 'bigint', 'bytes']);
+
+/**
+ * Build the pattern for a decimal string, limiting integer and fractional
+ * digits when precision/scale are declared.
+ */
+function decimalPattern(field: FieldDefinition): string {
+  const precision = field.constraints?.precision;
+  if (precision === undefined) {
+    return '^-?\\d+(\\.\\d+)?$';
+  }
+  const scale = field.constraints?.scale ?? 0;
+  const integerDigits = Math.max(precision - scale, 1);
+  const fraction = scale > 0 ? `(\\.\\d{1,${scale}})?` : '';
+  return `^-?\\d{1,${integerDigits}}${fraction}$`;
+}
+
 /**
  * Convert field definition to OpenAPI schema.
  */
@@ -369,20 +509,41 @@ function fieldToSchema(field: FieldDefinition): SchemaObject {
       schema.type = 'boolean';
       break;
     case 'date':
+    case 'datetime':
       schema.type = 'string';
       schema.format = 'date-time';
       break;
+    case 'time':
+      schema.type = 'string';
+      schema.format = 'time';
+      break;
+    case 'decimal':
+      schema.type = 'string';
+      schema.format = 'decimal';
+      schema.pattern = decimalPattern(field);
+      break;
+    case 'bigint':
+      // Serialized as a decimal string so values beyond 2^53 survive JSON
+      schema.type = 'string';
+      schema.format = 'int64';
+      schema.pattern = '^-?\\d+$';
+      break;
+    case 'bytes':
+      schema.type = 'string';
+      schema.format = 'byte';
+      break;
+    case 'json':
+      // Free-form: any JSON value
+      break;
     case 'array':
       schema.type = 'array';
       schema.items = field.items ? fieldToSchema(field.items) : { type: 'string' };
       break;
     case 'object':
-      schema.type = 'object';
       if (field.shape) {
-        schema.properties = {};
-        for (const [name, shapeDef] of Object.entries(field.shape)) {
-          schema.properties[name] = fieldToSchema(shapeDef);
-        }
+        Object.assign(schema, fieldsToSchema(field.shape));
+      } else {
+        schema.type = 'object';
       }
       break;
     case 'ref':
@@ -396,12 +557,15 @@ function fieldToSchema(field: FieldDefinition): SchemaObject {
 
   // Add enum values
   if (field.values) {
-    schema.enum = field.values as string[];
+    schema.enum = [...field.values];
   }
 
-  // Add nullable
-  if (field.nullable) {
-    schema.nullable = true;
+  // OpenAPI 3.1 has no nullable keyword: null joins the type and enum instead
+  if (field.nullable && typeof schema.type === 'string') {
+    schema.type = [schema.type, 'null'];
+    if (schema.enum) {
+      schema.enum.push(null);
+    }
   }
 
   // Add readOnly
@@ -411,11 +575,11 @@ function fieldToSchema(field: FieldDefinition): SchemaObject {
 
   // Add default
   if (field.default !== undefined) {
-    schema.default = field.default;
+    schema.default = typeof field.default === 'bigint' ? field.default.toString() : field.default;
   }
 
-  // Add constraints
-  if (field.constraints) {
+  // Add constraints (string-encoded numbers and binary data have no numeric bounds in OpenAPI)
+  if (field.constraints && !STRING_ENCODED_TYPES.has(field.type)) {
     if (field.constraints.min !== undefined) {
       if (field.type === 'string') {
         schema.minLength = field.constraints.min;
@@ -485,6 +649,7 @@ function createListOperation(entity: EntitySchema): OperationObject {
     parameters: [
       { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 }, description: 'Number of items to return' },
       { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 }, description: 'Number of items to skip' },
+      ...createQueryParameters(entity),
     ],
     responses: {
       '200': {
@@ -505,6 +670,46 @@ function createListOperation(entity: EntitySchema): OperationObject {
   };
 }
 
+/**
+ * JSON-encoded list parameters: where, orderBy and, for entities with
+ * relations, include.
+ */
+function createQueryParameters(entity: EntitySchema): ParameterObject[] {
+  const name = capitalize(entity.name);
+  const sortable = [...Object.keys(entity.fields), ...(entity.timestamps ? ['createdAt', 'updatedAt'] : [])];
+  const orderBy: Record<string, SchemaObject> = {};
+  for (const field of sortable) {
+    orderBy[field] = { type: 'string', enum: ['asc', 'desc'] };
+  }
+
+  const parameters: ParameterObject[] = [
+    {
+      name: 'where',
+      in: 'query',
+      description: 'Filter as JSON, e.g. {"status":{"in":["active"]}}',
+      content: { 'application/json': { schema: { $ref: `#/components/schemas/${name}Filter` } } },
+    },
+    {
+      name: 'orderBy',
+      in: 'query',
+      description: 'Sort order as JSON, e.g. {"createdAt":"desc"}',
+      content: { 'application/json': { schema: { type: 'object', properties: orderBy, additionalProperties: false } } },
+    },
+  ];
+
+  const relations = Object.keys(entity.relations ?? {});
+  if (relations.length > 0) {
+    parameters.push({
+      name: 'include',
+      in: 'query',
+      description: 'Relations to load as a JSON array',
+      content: { 'application/json': { schema: { type: 'array', items: { type: 'string', enum: relations } } } },
+    });
+  }
+
+  return parameters;
+}
+
 function createGetOperation(entity: EntitySchema): OperationObject {
   const name = capitalize(entity.name);
   return {
@@ -610,6 +815,239 @@ function createDeleteOperation(entity: EntitySchema): OperationObject {
   };
 }
 
+/**
+ * Operation for a custom endpoint: path and query params, a JSON body for
+ * POST/PUT/PATCH and the response fields.
+ */
+function createEndpointOperation(endpoint: EndpointSchema): OperationObject {
+  const pathParams = (endpoint.path.match(/:(\w+)/g) ?? []).map((param) => param.slice(1));
+  const parameters: ParameterObject[] = pathParams.map((name) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: endpoint.params[name] ? fieldToSchema(endpoint.params[name]) : { type: 'string' },
+  }));
+  for (const [name, field] of Object.entries(endpoint.params)) {
+    if (pathParams.includes(name)) continue;
+    parameters.push({ name, in: 'query', required: isRequired(field), schema: fieldToSchema(field) });
+  }
+
+  const operation: OperationObject = {
+    tags: [endpointTag(endpoint.path)],
+    summary: endpoint.description ?? `${endpoint.method} ${endpoint.path}`,
+    operationId: endpointOperationId(endpoint),
+    responses: {
+      '200': {
+        description: 'Successful response',
+        content: { 'application/json': { schema: fieldsToSchema(endpoint.response) } },
+      },
+      '400': { description: 'Invalid input' },
+    },
+  };
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+  if (['POST', 'PUT', 'PATCH'].includes(endpoint.method) && Object.keys(endpoint.body).length > 0) {
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: fieldsToSchema(endpoint.body) } },
+    };
+  }
+  return operation;
+}
+
+/**
+ * Object schema for endpoint params/body/response fields.
+ */
+function fieldsToSchema(fields: Record<string, FieldDefinition>): SchemaObject {
+  const properties: Record<string, SchemaObject | RefObject> = {};
+  const required: string[] = [];
+  for (const [name, field] of Object.entries(fields)) {
+    properties[name] = fieldToSchema(field);
+    if (isRequired(field)) {
+      required.push(name);
+    }
+  }
+  return { type: 'object', properties, required: required.length > 0 ? required : undefined };
+}
+
+function isRequired(field: FieldDefinition): boolean {
+  return !field.nullable && field.default === undefined;
+}
+
+/**
+ * Tag for a custom endpoint: its first path segment after /api.
+ */
+function endpointTag(path: string): string {
+  const [segment] = path.replace(/^\/api\//, '/').split('/').filter(Boolean);
+  return segment && !segment.startsWith(':') ? segment : 'endpoints';
+}
+
+/**
+ * Operation ID from method and path, e.g. POST /api/orders/:id/ship -> postOrdersByIdShip.
+ */
+function endpointOperationId(endpoint: EndpointSchema): string {
+  const words = endpoint.path
+    .replace(/^\/api\//, '/')
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (segment.startsWith(':') ? `By-${segment.slice(1)}` : segment))
+    .flatMap((segment) => segment.split(/[-_]/))
+    .map(capitalize);
+  return endpoint.method.toLowerCase() + words.join('');
+}
+
+/**
+ * Convert an Express-style path (/users/:id) to an OpenAPI path (/users/{id}).
+ */
+function toOpenAPIPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+// ============================================================================
+// Examples, security and rate limits
+// ============================================================================
+
+const OPERATION_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+/**
+ * Add faker-generated examples to entity schemas and custom endpoint bodies
+ * and responses.
+ */
+function addExamples(spec: OpenAPISpec): void {
+  for (const schema of registeredSchemas) {
+    const name = capitalize(schema.name);
+    const input = exampleCreateInput(schema);
+    spec.components.schemas[name].examples = [exampleEntity(schema)];
+    spec.components.schemas[`${name}Create`].examples = [input];
+    spec.components.schemas[`${name}Update`].examples = [input];
+  }
+
+  for (const endpoint of registeredEndpoints) {
+    const operation = spec.paths[toOpenAPIPath(endpoint.path)][endpoint.method.toLowerCase() as Lowercase<typeof endpoint.method>]!;
+    for (const parameter of operation.parameters ?? []) {
+      const field = endpoint.params[parameter.name];
+      if (field && parameter.schema) {
+        parameter.schema.examples = [exampleValue(field)];
+      }
+    }
+    const body = operation.requestBody?.content['application/json'].schema as SchemaObject | undefined;
+    if (body) {
+      body.examples = [exampleObject(endpoint.body)];
+    }
+    const response = operation.responses['200'].content!['application/json'].schema as SchemaObject;
+    response.examples = [exampleObject(endpoint.response)];
+  }
+}
+
+/**
+ * Security scheme matching what the generated auth middleware reads.
+ */
+function securitySchemeFor(auth: AuthMiddlewareConfig): [string, SecuritySchemeObject] {
+  switch (auth.provider) {
+    case 'nextauth':
+      return ['sessionCookie', {
+        type: 'apiKey',
+        in: 'cookie',
+        name: 'next-auth.session-token',
+        description: 'NextAuth.js session cookie',
+      }];
+    case 'custom':
+      return ['customAuth', {
+        type: 'apiKey',
+        in: 'header',
+        name: 'Authorization',
+        description: 'Authorization header checked by the custom auth handler',
+      }];
+    case 'supabase-auth':
+      return ['bearerAuth', { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Supabase Auth access token' }];
+    case 'clerk':
+      return ['bearerAuth', { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Clerk session token' }];
+    default:
+      return ['bearerAuth', { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }];
+  }
+}
+
+/**
+ * Add the auth security scheme, the default requirement and per-operation
+ * overrides for routes in `auth.skip`.
+ */
+function addSecurity(spec: OpenAPISpec, auth: AuthMiddlewareConfig): void {
+  const [name, scheme] = securitySchemeFor(auth);
+  const required = auth.required ?? true;
+  spec.components.securitySchemes = { [name]: scheme };
+  spec.security = required ? [{ [name]: [] }] : [{ [name]: [] }, {}];
+
+  for (const [path, item] of Object.entries(spec.paths)) {
+    const skipped = isAuthSkipped(path, auth.skip ?? []);
+    for (const method of OPERATION_METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+      if (skipped) {
+        operation.security = [];
+      } else if (required) {
+        operation.responses['401'] = { description: 'Missing or invalid credentials' };
+      }
+    }
+  }
+}
+
+/**
+ * Whether auth middleware skips a path: exact match, or prefix match for
+ * patterns ending in `*`.
+ */
+function isAuthSkipped(path: string, skip: string[]): boolean {
+  const expressPath = path.replace(/\{(\w+)\}/g, ':$1');
+  return skip.some((pattern) =>
+    pattern.endsWith('*') ? expressPath.startsWith(pattern.slice(0, -1)) : pattern === expressPath
+  );
+}
+
+/**
+ * Describe the rate limit of every operation and add 429 responses.
+ */
+function addRateLimitNotes(spec: OpenAPISpec, config: RateLimitMiddlewareConfig): void {
+  const roles = Object.entries(config.roles ?? {});
+
+  for (const [path, item] of Object.entries(spec.paths)) {
+    for (const method of OPERATION_METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+
+      const policy = { max: config.max, windowMs: config.windowMs, algorithm: config.algorithm, routes: config.routes };
+      const limit = resolveRateLimit(policy, { method: method.toUpperCase(), path });
+      // A key prefix is only set when a route limit applies; those win over role limits
+      const routeLimit = limit.keyPrefix !== undefined;
+      const notes = [`Rate limit: ${describeLimit(limit.max, limit.windowMs, limit.algorithm)}.`];
+      if (!routeLimit && roles.length > 0) {
+        const byRole = roles.map(([role, rule]) =>
+          `${role} ${describeLimit(rule.max, rule.windowMs ?? config.windowMs, rule.algorithm ?? config.algorithm)}`
+        );
+        notes.push(`Role limits: ${byRole.join('; ')}.`);
+      }
+
+      operation.description = [operation.description, ...notes].filter(Boolean).join(' ');
+      operation.responses['429'] = {
+        description: 'Too many requests',
+        headers: {
+          'Retry-After': { description: 'Seconds until the limit resets', schema: { type: 'integer' } },
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Describe a limit, e.g. "100 requests per 1 minute (sliding-window)".
+ */
+function describeLimit(max: number, windowMs: number, algorithm?: string): string {
+  const units: Array<[number, string]> = [[3_600_000, 'hour'], [60_000, 'minute'], [1000, 'second']];
+  const [size, unit] = units.find(([ms]) => windowMs % ms === 0) ?? [1, 'millisecond'];
+  const count = windowMs / size;
+  const window = `${count} ${unit}${count === 1 ? '' : 's'}`;
+  return `${max} requests per ${window}${algorithm ? ` (${algorithm})` : ''}`;
+}
+
 // Utility functions
 function capitalize(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
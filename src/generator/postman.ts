@@ -1,14 +1,19 @@
 /**
  * Postman Collection Generator - Generate Postman collections from schemas
  *
- * Transforms Schemock entity schemas into Postman collections
- * for API testing and exploration.
+ * Transforms Schemock entity schemas and custom endpoints into Postman
+ * collections for API testing and exploration. Requests carry faker-generated
+ * bodies and `pm.test` scripts, and create requests store the new id in a
+ * collection variable for the get, update and delete requests that follow.
  *
  * @module generator/postman
  * @category Generator
  */
 
-import type { EntitySchema, FieldDefinition } from '../schema/types';
+import { faker } from '@faker-js/faker';
+import type { EndpointSchema, EntitySchema, FieldDefinition } from '../schema/types';
+import type { FakerMapping } from '../cli/types';
+import { mappedExampleValue, withExampleSeed } from './examples';
 
 /**
  * Postman Collection 2.1 Format.
@@ -25,6 +30,16 @@ export interface PostmanCollection {
   auth?: PostmanAuth;
 }
 
+/**
+ * Postman Environment Format.
+ */
+export interface PostmanEnvironment {
+  id: string;
+  name: string;
+  values: Array<{ key: string; value: string; type: 'default' | 'secret'; enabled: boolean }>;
+  _postman_variable_scope: 'environment';
+}
+
 /**
  * Postman Item (folder or request).
  */
@@ -34,6 +49,7 @@ interface PostmanItem {
   item?: PostmanItem[];
   request?: PostmanRequest;
   response?: PostmanResponse[];
+  event?: PostmanEvent[];
 }
 
 /**
@@ -54,6 +70,7 @@ interface PostmanRequest {
     query?: PostmanQuery[];
     variable?: PostmanVariable[];
   };
+  auth?: PostmanAuth;
   description?: string;
 }
 
@@ -91,7 +108,7 @@ interface PostmanVariable {
  * Postman Auth.
  */
 interface PostmanAuth {
-  type: 'bearer' | 'basic' | 'apikey';
+  type: 'bearer' | 'basic' | 'apikey' | 'noauth';
   bearer?: Array<{ key: string; value: string }>;
   basic?: Array<{ key: string; value: string }>;
   apikey?: Array<{ key: string; value: string }>;
@@ -108,6 +125,17 @@ interface PostmanResponse {
   header?: PostmanHeader[];
 }
 
+/**
+ * Postman Script Event.
+ */
+interface PostmanEvent {
+  listen: 'test' | 'prerequest';
+  script: {
+    type: 'text/javascript';
+    exec: string[];
+  };
+}
+
 /**
  * Options for Postman collection generation.
  */
@@ -116,10 +144,20 @@ export interface PostmanOptions {
   name?: string;
   /** Collection description */
   description?: string;
-  /** Base URL for requests */
+  /** Server origin for requests (default: '{{baseUrl}}') */
   baseUrl?: string;
+  /** Path prefix of the entity CRUD routes (default: '/api') */
+  apiPrefix?: string;
   /** Include example responses */
   includeExamples?: boolean;
+  /** Add `pm.test` scripts checking status and response shape (default: true) */
+  tests?: boolean;
+  /** Put entity folders in folders named after their first tag, module or group */
+  groupBy?: 'tags' | 'module' | 'group';
+  /** Custom faker mappings for request bodies and examples */
+  fakerMappings?: FakerMapping[];
+  /** Faker seed, so regenerating keeps the same bodies (default: 1) */
+  fakerSeed?: number;
   /** Auth configuration */
   auth?: {
     type: 'bearer' | 'basic' | 'apikey';
@@ -128,6 +166,8 @@ export interface PostmanOptions {
     password?: string;
     apiKey?: string;
     apiKeyHeader?: string;
+    /** Request paths sent without auth (exact, or prefix with trailing `*`) */
+    skip?: string[];
   };
 }
 
@@ -136,6 +176,11 @@ export interface PostmanOptions {
  */
 let registeredSchemas: EntitySchema[] = [];
 
+/**
+ * Endpoint registry.
+ */
+let registeredEndpoints: EndpointSchema[] = [];
+
 /**
  * Register schemas for Postman generation.
  *
@@ -146,7 +191,16 @@ export function registerSchemasForPostman(schemas: EntitySchema[]): void {
 }
 
 /**
- * Generate Postman collection from registered schemas.
+ * Register custom endpoints for Postman generation.
+ *
+ * @param endpoints - Array of endpoint schemas
+ */
+export function registerEndpointsForPostman(endpoints: EndpointSchema[]): void {
+  registeredEndpoints = endpoints;
+}
+
+/**
+ * Generate Postman collection from registered schemas and endpoints.
  *
  * @param options - Generation options
  * @returns Postman Collection 2.1 object
@@ -172,7 +226,12 @@ export function generatePostmanCollection(options?: PostmanOptions): PostmanColl
     name = 'Schemock API',
     description = 'Auto-generated Postman collection from Schemock schemas',
     baseUrl = '{{baseUrl}}',
+    apiPrefix = '/api',
     includeExamples = true,
+    tests = true,
+    groupBy,
+    fakerMappings,
+    fakerSeed = 1,
     auth,
   } = options ?? {};
 
@@ -185,7 +244,7 @@ export function generatePostmanCollection(options?: PostmanOptions): PostmanColl
     },
     item: [],
     variable: [
-      { key: 'baseUrl', value: 'http://localhost:3000/api', description: 'Base API URL' },
+      { key: 'baseUrl', value: 'http://localhost:3000', description: 'Server origin' },
     ],
   };
 
@@ -201,15 +260,84 @@ export function generatePostmanCollection(options?: PostmanOptions): PostmanColl
     }
   }
 
-  // Generate items for each entity
-  for (const schema of registeredSchemas) {
-    const folder = createEntityFolder(schema, baseUrl, includeExamples);
-    collection.item.push(folder);
-  }
+  const context: RequestContext = { includeExamples, tests, fakerMappings, skipAuth: auth?.skip ?? [] };
+
+  withExampleSeed(fakerSeed, () => {
+    // Generate items for each entity, grouped if requested
+    const groups = new Map<string, PostmanItem>();
+    for (const schema of registeredSchemas) {
+      const folder = createEntityFolder(schema, `${baseUrl}${apiPrefix}`, context);
+      collection.variable!.push({
+        key: idVariable(schema),
+        value: '',
+        description: `Id of the last created ${schema.name}`,
+      });
+
+      const groupName = groupBy && classificationOf(schema, groupBy);
+      if (!groupName) {
+        collection.item.push(folder);
+        continue;
+      }
+      let group = groups.get(groupName);
+      if (!group) {
+        group = { name: groupName, item: [] };
+        groups.set(groupName, group);
+        collection.item.push(group);
+      }
+      group.item!.push(folder);
+    }
+
+    if (registeredEndpoints.length > 0) {
+      collection.item.push({
+        name: 'Endpoints',
+        description: 'Custom endpoints',
+        item: registeredEndpoints.map((endpoint) => createEndpointRequest(endpoint, baseUrl, context)),
+      });
+    }
+  });
 
   return collection;
 }
 
+/**
+ * Generate a Postman environment setting `baseUrl` and any other variables.
+ *
+ * Variables named `token` are marked secret.
+ *
+ * @param name - Environment name
+ * @param variables - Variable values by key
+ * @returns Postman environment object
+ *
+ * @example
+ * ```typescript
+ * const local = generatePostmanEnvironment('local', { baseUrl: 'http://localhost:3000', token: '' });
+ * fs.writeFileSync('local.postman_environment.json', JSON.stringify(local, null, 2));
+ * ```
+ */
+export function generatePostmanEnvironment(name: string, variables: Record<string, string>): PostmanEnvironment {
+  return {
+    id: generateId(),
+    name,
+    values: Object.entries(variables).map(([key, value]) => ({
+      key,
+      value,
+      type: key === 'token' ? 'secret' : 'default',
+      enabled: true,
+    })),
+    _postman_variable_scope: 'environment',
+  };
+}
+
+/**
+ * Settings shared by every generated request.
+ */
+interface RequestContext {
+  includeExamples: boolean;
+  tests: boolean;
+  fakerMappings?: FakerMapping[];
+  skipAuth: string[];
+}
+
 /**
  * Create auth configuration.
  */
@@ -243,11 +371,13 @@ function createAuth(config: PostmanOptions['auth']): PostmanAuth | undefined {
 
 /**
  * Create a folder for an entity with all CRUD operations.
+ *
+ * Create comes first so a collection run has an id for the rest.
  */
 function createEntityFolder(
   entity: EntitySchema,
   baseUrl: string,
-  includeExamples: boolean
+  context: RequestContext
 ): PostmanItem {
   const entityPath = `${baseUrl}/${pluralize(entity.name)}`;
 
@@ -255,11 +385,11 @@ function createEntityFolder(
     name: capitalize(entity.name),
     description: `${capitalize(entity.name)} CRUD operations`,
     item: [
-      createListRequest(entity, entityPath, includeExamples),
-      createGetRequest(entity, entityPath, includeExamples),
-      createCreateRequest(entity, entityPath, includeExamples),
-      createUpdateRequest(entity, entityPath, includeExamples),
-      createDeleteRequest(entity, entityPath),
+      createCreateRequest(entity, entityPath, context),
+      createListRequest(entity, entityPath, context),
+      createGetRequest(entity, entityPath, context),
+      createUpdateRequest(entity, entityPath, context),
+      createDeleteRequest(entity, entityPath, context),
     ],
   };
 
@@ -272,26 +402,24 @@ function createEntityFolder(
 function createListRequest(
   entity: EntitySchema,
   basePath: string,
-  includeExamples: boolean
+  context: RequestContext
 ): PostmanItem {
   const request: PostmanItem = {
     name: `List ${pluralize(entity.name)}`,
     request: {
       method: 'GET',
       header: [{ key: 'Content-Type', value: 'application/json' }],
-      url: {
-        raw: `${basePath}?limit=20&offset=0`,
-        path: basePath.split('/').filter(Boolean),
+      url: createUrl(basePath, {
         query: [
           { key: 'limit', value: '20', description: 'Number of items to return' },
           { key: 'offset', value: '0', description: 'Number of items to skip' },
         ],
-      },
+      }),
       description: `Get a list of ${pluralize(entity.name)}`,
     },
   };
 
-  if (includeExamples) {
+  if (context.includeExamples) {
     request.response = [
       {
         name: 'Success',
@@ -300,7 +428,7 @@ function createListRequest(
         header: [{ key: 'Content-Type', value: 'application/json' }],
         body: JSON.stringify(
           {
-            data: [generateExampleEntity(entity)],
+            data: [generateExampleEntity(entity, context)],
             meta: { total: 1 },
           },
           null,
@@ -310,7 +438,22 @@ function createListRequest(
     ];
   }
 
-  return request;
+  if (context.tests) {
+    request.event = testScript([
+      ...statusTest(200),
+      'const body = pm.response.json();',
+      'const records = body.data ?? body;',
+      '',
+      `pm.test('Response is a list of ${pluralize(entity.name)}', function () {`,
+      "  pm.expect(records).to.be.an('array');",
+      '  if (records.length > 0) {',
+      ...shapeAssertions(entity.fields, 'records[0]', '    '),
+      '  }',
+      '});',
+    ]);
+  }
+
+  return finishRequest(request, context);
 }
 
 /**
@@ -319,32 +462,26 @@ function createListRequest(
 function createGetRequest(
   entity: EntitySchema,
   basePath: string,
-  includeExamples: boolean
+  context: RequestContext
 ): PostmanItem {
   const request: PostmanItem = {
     name: `Get ${entity.name}`,
     request: {
       method: 'GET',
       header: [{ key: 'Content-Type', value: 'application/json' }],
-      url: {
-        raw: `${basePath}/:id`,
-        path: [...basePath.split('/').filter(Boolean), ':id'],
-        variable: [
-          { key: 'id', value: '{{id}}', description: `${capitalize(entity.name)} ID` },
-        ],
-      },
+      url: createUrl(`${basePath}/:id`, { variable: [idPathVariable(entity)] }),
       description: `Get a single ${entity.name} by ID`,
     },
   };
 
-  if (includeExamples) {
+  if (context.includeExamples) {
     request.response = [
       {
         name: 'Success',
         status: 'OK',
         code: 200,
         header: [{ key: 'Content-Type', value: 'application/json' }],
-        body: JSON.stringify({ data: generateExampleEntity(entity) }, null, 2),
+        body: JSON.stringify({ data: generateExampleEntity(entity, context) }, null, 2),
       },
       {
         name: 'Not Found',
@@ -355,7 +492,18 @@ function createGetRequest(
     ];
   }
 
-  return request;
+  if (context.tests) {
+    request.event = testScript([
+      ...statusTest(200),
+      ...recordTest(entity),
+      '',
+      `pm.test('Returns the created ${entity.name}', function () {`,
+      `  pm.expect(record.id).to.eql(pm.collectionVariables.get('${idVariable(entity)}'));`,
+      '});',
+    ]);
+  }
+
+  return finishRequest(request, context);
 }
 
 /**
@@ -364,41 +512,43 @@ function createGetRequest(
 function createCreateRequest(
   entity: EntitySchema,
   basePath: string,
-  includeExamples: boolean
+  context: RequestContext
 ): PostmanItem {
-  const requestBody = generateCreateBody(entity);
+  const requestBody = generateCreateBody(entity, context);
 
   const request: PostmanItem = {
     name: `Create ${entity.name}`,
     request: {
       method: 'POST',
       header: [{ key: 'Content-Type', value: 'application/json' }],
-      body: {
-        mode: 'raw',
-        raw: JSON.stringify(requestBody, null, 2),
-        options: { raw: { language: 'json' } },
-      },
-      url: {
-        raw: basePath,
-        path: basePath.split('/').filter(Boolean),
-      },
+      body: jsonBody(requestBody),
+      url: createUrl(basePath),
       description: `Create a new ${entity.name}`,
     },
   };
 
-  if (includeExamples) {
+  if (context.includeExamples) {
     request.response = [
       {
         name: 'Created',
         status: 'Created',
         code: 201,
         header: [{ key: 'Content-Type', value: 'application/json' }],
-        body: JSON.stringify({ data: generateExampleEntity(entity) }, null, 2),
+        body: JSON.stringify({ data: generateExampleEntity(entity, context) }, null, 2),
       },
     ];
   }
 
-  return request;
+  if (context.tests) {
+    request.event = testScript([
+      ...statusTest(201),
+      ...recordTest(entity),
+      '',
+      `pm.collectionVariables.set('${idVariable(entity)}', record.id);`,
+    ]);
+  }
+
+  return finishRequest(request, context);
 }
 
 /**
@@ -407,62 +557,54 @@ function createCreateRequest(
 function createUpdateRequest(
   entity: EntitySchema,
   basePath: string,
-  includeExamples: boolean
+  context: RequestContext
 ): PostmanItem {
-  const requestBody = generateCreateBody(entity);
+  const requestBody = generateCreateBody(entity, context);
 
   const request: PostmanItem = {
     name: `Update ${entity.name}`,
     request: {
       method: 'PUT',
       header: [{ key: 'Content-Type', value: 'application/json' }],
-      body: {
-        mode: 'raw',
-        raw: JSON.stringify(requestBody, null, 2),
-        options: { raw: { language: 'json' } },
-      },
-      url: {
-        raw: `${basePath}/:id`,
-        path: [...basePath.split('/').filter(Boolean), ':id'],
-        variable: [
-          { key: 'id', value: '{{id}}', description: `${capitalize(entity.name)} ID` },
-        ],
-      },
+      body: jsonBody(requestBody),
+      url: createUrl(`${basePath}/:id`, { variable: [idPathVariable(entity)] }),
       description: `Update an existing ${entity.name}`,
     },
   };
 
-  if (includeExamples) {
+  if (context.includeExamples) {
     request.response = [
       {
         name: 'Updated',
         status: 'OK',
         code: 200,
         header: [{ key: 'Content-Type', value: 'application/json' }],
-        body: JSON.stringify({ data: generateExampleEntity(entity) }, null, 2),
+        body: JSON.stringify({ data: generateExampleEntity(entity, context) }, null, 2),
       },
     ];
   }
 
-  return request;
+  if (context.tests) {
+    request.event = testScript([...statusTest(200), ...recordTest(entity)]);
+  }
+
+  return finishRequest(request, context);
 }
 
 /**
  * Create Delete request.
  */
-function createDeleteRequest(entity: EntitySchema, basePath: string): PostmanItem {
-  return {
+function createDeleteRequest(
+  entity: EntitySchema,
+  basePath: string,
+  context: RequestContext
+): PostmanItem {
+  const request: PostmanItem = {
     name: `Delete ${entity.name}`,
     request: {
       method: 'DELETE',
       header: [{ key: 'Content-Type', value: 'application/json' }],
-      url: {
-        raw: `${basePath}/:id`,
-        path: [...basePath.split('/').filter(Boolean), ':id'],
-        variable: [
-          { key: 'id', value: '{{id}}', description: `${capitalize(entity.name)} ID` },
-        ],
-      },
+      url: createUrl(`${basePath}/:id`, { variable: [idPathVariable(entity)] }),
       description: `Delete a ${entity.name}`,
     },
     response: [
@@ -473,71 +615,278 @@ function createDeleteRequest(entity: EntitySchema, basePath: string): PostmanIte
       },
     ],
   };
+
+  if (context.tests) {
+    request.event = testScript([
+      "pm.test('Status is 200 or 204', function () {",
+      '  pm.expect(pm.response.code).to.be.oneOf([200, 204]);',
+      '});',
+    ]);
+  }
+
+  return finishRequest(request, context);
 }
 
 /**
- * Generate example entity data.
+ * Create a request for a custom endpoint. Path params become URL
+ * variables; other params go in the query string.
  */
-function generateExampleEntity(entity: EntitySchema): Record<string, unknown> {
-  const example: Record<string, unknown> = {};
+function createEndpointRequest(
+  endpoint: EndpointSchema,
+  baseUrl: string,
+  context: RequestContext
+): PostmanItem {
+  const pathParams = new Set([...endpoint.path.matchAll(/:(\w+)/g)].map((match) => match[1]));
+  const variable: PostmanVariable[] = [];
+  const query: PostmanQuery[] = [];
+
+  for (const [name, field] of Object.entries(endpoint.params)) {
+    const example = mappedExampleValue(name, field, context.fakerMappings);
+    const value = typeof example === 'object' ? JSON.stringify(example) : String(example);
+    if (pathParams.has(name)) {
+      variable.push({ key: name, value });
+    } else {
+      query.push({ key: name, value, disabled: field.nullable || undefined });
+    }
+  }
 
-  for (const [name, field] of Object.entries(entity.fields)) {
-    example[name] = generateFieldExample(field);
+  const request: PostmanItem = {
+    name: endpoint.description ?? `${endpoint.method} ${endpoint.path}`,
+    request: {
+      method: endpoint.method,
+      header: [{ key: 'Content-Type', value: 'application/json' }],
+      url: createUrl(`${baseUrl}${endpoint.path}`, { variable, query }),
+      description: endpoint.description,
+    },
+  };
+
+  const bodyFields = Object.entries(endpoint.body);
+  if (endpoint.method !== 'GET' && endpoint.method !== 'DELETE' && bodyFields.length > 0) {
+    request.request!.body = jsonBody(
+      Object.fromEntries(bodyFields.map(([name, field]) => [name, mappedExampleValue(name, field, context.fakerMappings)]))
+    );
   }
 
-  if (entity.timestamps) {
-    example.createdAt = new Date().toISOString();
-    example.updatedAt = new Date().toISOString();
+  if (context.includeExamples) {
+    request.response = [
+      {
+        name: 'Success',
+        status: 'OK',
+        code: 200,
+        header: [{ key: 'Content-Type', value: 'application/json' }],
+        body: JSON.stringify(generateExampleObject(endpoint.response, context), null, 2),
+      },
+    ];
   }
 
-  return example;
+  if (context.tests) {
+    request.event = testScript([
+      ...statusTest(200),
+      'const body = pm.response.json();',
+      '',
+      "pm.test('Response has the expected shape', function () {",
+      ...shapeAssertions(endpoint.response, 'body', '  '),
+      '});',
+    ]);
+  }
+
+  return finishRequest(request, context);
+}
+
+/**
+ * Send the request without auth when its path is in `auth.skip`.
+ */
+function finishRequest(item: PostmanItem, context: RequestContext): PostmanItem {
+  const request = item.request!;
+  const path = `/${request.url.path!.join('/')}`;
+  const skipped = context.skipAuth.some((pattern) =>
+    pattern.endsWith('*') ? path.startsWith(pattern.slice(0, -1)) : pattern === path
+  );
+  if (skipped) {
+    request.auth = { type: 'noauth' };
+  }
+  return item;
+}
+
+/**
+ * Build a Postman URL, splitting the `{{baseUrl}}` host from the path.
+ */
+function createUrl(
+  raw: string,
+  extra: { query?: PostmanQuery[]; variable?: PostmanVariable[] } = {}
+): PostmanRequest['url'] {
+  const [, host, rest] = raw.match(/^((?:\w+:\/\/)?[^/]+)(.*)$/)!;
+  const path = rest.split('/').filter(Boolean);
+  const query = extra.query ?? [];
+  const search = query.filter((param) => !param.disabled).map((param) => `${param.key}=${param.value}`);
+
+  return {
+    raw: search.length > 0 ? `${raw}?${search.join('&')}` : raw,
+    host: [host],
+    path,
+    ...(query.length > 0 && { query }),
+    ...(extra.variable && extra.variable.length > 0 && { variable: extra.variable }),
+  };
+}
+
+/**
+ * Raw JSON request body.
+ */
+function jsonBody(value: Record<string, unknown>): PostmanRequest['body'] {
+  return {
+    mode: 'raw',
+    raw: JSON.stringify(value, null, 2),
+    options: { raw: { language: 'json' } },
+  };
+}
+
+/**
+ * The `:id` URL variable, filled from the id a create request stored.
+ */
+function idPathVariable(entity: EntitySchema): PostmanVariable {
+  return { key: 'id', value: `{{${idVariable(entity)}}}`, description: `${capitalize(entity.name)} ID` };
+}
+
+/**
+ * Collection variable holding the id of the last created record.
+ */
+function idVariable(entity: EntitySchema): string {
+  return `${entity.name}Id`;
+}
+
+/**
+ * Folder name for an entity under the given classification.
+ */
+function classificationOf(entity: EntitySchema, groupBy: NonNullable<PostmanOptions['groupBy']>): string | undefined {
+  switch (groupBy) {
+    case 'tags':
+      return entity.tags?.[0];
+    case 'module':
+      return entity.module;
+    case 'group':
+      return entity.group;
+  }
+}
+
+/**
+ * Wrap script lines in a test event.
+ */
+function testScript(lines: string[]): PostmanEvent[] {
+  return [{ listen: 'test', script: { type: 'text/javascript', exec: lines } }];
 }
 
 /**
- * Generate example field value.
+ * Test asserting the response status.
  */
-function generateFieldExample(field: FieldDefinition): unknown {
-  if (field.default !== undefined) return field.default;
-  if (field.values?.length) return field.values[0];
+function statusTest(code: number): string[] {
+  return [
+    `pm.test('Status is ${code}', function () {`,
+    `  pm.response.to.have.status(${code});`,
+    '});',
+  ];
+}
+
+/**
+ * Test asserting that the response holds one record of the entity, unwrapped
+ * from `{ data }` when the server wraps it.
+ */
+function recordTest(entity: EntitySchema): string[] {
+  return [
+    'const body = pm.response.json();',
+    'const record = body.data ?? body;',
+    '',
+    `pm.test('Response has the ${entity.name} shape', function () {`,
+    "  pm.expect(record).to.be.an('object');",
+    ...shapeAssertions(entity.fields, 'record', '  '),
+    '});',
+  ];
+}
+
+/**
+ * Chai assertions on the types of the non-nullable fields of `target`.
+ */
+function shapeAssertions(fields: Record<string, FieldDefinition>, target: string, indent: string): string[] {
+  const lines: string[] = [];
+
+  for (const [name, field] of Object.entries(fields)) {
+    if (field.nullable) continue;
+    const accessor = `${target}[${JSON.stringify(name)}]`;
+
+    if (field.values?.length) {
+      lines.push(`${indent}pm.expect(${JSON.stringify(field.values)}).to.include(${accessor});`);
+      continue;
+    }
+    const chaiType = chaiTypeOf(field);
+    if (chaiType) {
+      lines.push(`${indent}pm.expect(${accessor}).to.be.a('${chaiType}');`);
+    }
+  }
+
+  return lines;
+}
 
+/**
+ * Chai type name of a field's JSON value. Free-form JSON is not checked.
+ */
+function chaiTypeOf(field: FieldDefinition): string | undefined {
   switch (field.type) {
-    case 'string':
-      return 'example';
-    case 'uuid':
-      return '550e8400-e29b-41d4-a716-446655440000';
-    case 'email':
-      return 'user@example.com';
-    case 'url':
-      return 'https://example.com';
     case 'number':
     case 'int':
-      return 42;
     case 'float':
-      return 3.14;
+      return 'number';
     case 'boolean':
-      return true;
-    case 'date':
-      return new Date().toISOString();
+      return 'boolean';
     case 'array':
-      return [];
+      return 'array';
     case 'object':
-      return {};
-    case 'ref':
-      return '550e8400-e29b-41d4-a716-446655440000';
+      return 'object';
+    case 'json':
+      return undefined;
     default:
-      return null;
+      // Strings, ids, dates, decimals, bigints and bytes travel as strings
+      return 'string';
   }
 }
 
+/**
+ * Generate example entity data.
+ */
+function generateExampleEntity(entity: EntitySchema, context: RequestContext): Record<string, unknown> {
+  const example = generateExampleObject(entity.fields, context);
+
+  if (entity.timestamps) {
+    example.createdAt = faker.date.recent({ days: 30 }).toISOString();
+    example.updatedAt = faker.date.recent({ days: 1 }).toISOString();
+  }
+
+  return example;
+}
+
+/**
+ * Generate an example value for every field.
+ */
+function generateExampleObject(
+  fields: Record<string, FieldDefinition>,
+  context: RequestContext
+): Record<string, unknown> {
+  const example: Record<string, unknown> = {};
+
+  for (const [name, field] of Object.entries(fields)) {
+    example[name] = mappedExampleValue(name, field, context.fakerMappings);
+  }
+
+  return example;
+}
+
 /**
  * Generate create request body.
  */
-function generateCreateBody(entity: EntitySchema): Record<string, unknown> {
+function generateCreateBody(entity: EntitySchema, context: RequestContext): Record<string, unknown> {
   const body: Record<string, unknown> = {};
 
   for (const [name, field] of Object.entries(entity.fields)) {
     if (name === 'id' || field.readOnly) continue;
-    body[name] = generateFieldExample(field);
+    body[name] = mappedExampleValue(name, field, context.fakerMappings);
   }
 
   return body;
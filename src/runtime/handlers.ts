@@ -14,6 +14,7 @@ import type { EntitySchema } from '../schema/types';
 // Use inferred type for MSW handler to avoid tsup DTS resolution issues
 type HttpHandler = ReturnType<typeof http.get>;
 import type { Adapter, AdapterContext } from '../adapters/types';
+import { InvalidCursorError } from '../storage/cursor';
 
 /**
  * Handler options for customizing MSW behavior.
@@ -125,6 +126,7 @@ function createListHandler(
       filter: parseQueryFilter(url.searchParams),
       limit: parseNumber(url.searchParams.get('limit')),
       offset: parseNumber(url.searchParams.get('offset')),
+      cursor: url.searchParams.get('cursor') ?? undefined,
       orderBy: parseOrderBy(url.searchParams.get('orderBy')),
     };
 
@@ -133,7 +135,7 @@ function createListHandler(
     if (result.error) {
       return HttpResponse.json(
         { error: result.error.message },
-        { status: 500 }
+        { status: result.error instanceof InvalidCursorError ? 400 : 500 }
       );
     }
 
@@ -347,7 +349,7 @@ function parseQueryFilter(
 
   for (const [key, value] of params.entries()) {
     // Skip pagination and ordering params
-    if (['limit', 'offset', 'orderBy', 'select'].includes(key)) continue;
+    if (['limit', 'offset', 'cursor', 'orderBy', 'select'].includes(key)) continue;
 
     // Handle filter[field] syntax
     if (key.startsWith('filter[') && key.endsWith(']')) {
@@ -69,14 +69,18 @@ function convertToFieldDefinition(field: FieldBuilder<unknown> | FieldDefinition
     values: builder.values,
   };
 
-  // Handle nested items (for arrays) - items are already FieldDefinition
+  // Handle nested items (for arrays) - field.array() keeps the item builder
   if (builder.items) {
-    definition.items = builder.items;
+    definition.items = convertToFieldDefinition(builder.items);
   }
 
-  // Handle nested shape (for objects) - shape values are already FieldDefinition
+  // Handle nested shape (for objects) - field.object() keeps the field builders
   if (builder.shape) {
-    definition.shape = builder.shape;
+    const shape: Record<string, FieldDefinition> = {};
+    for (const [key, value] of Object.entries(builder.shape)) {
+      shape[key] = convertToFieldDefinition(value);
+    }
+    definition.shape = shape;
   }
 
   return definition;
@@ -224,12 +228,36 @@ export function defineData<T extends FieldDefinitions>(
     }
   }
 
+  // Add the soft delete marker (null while the record is live)
+  const softDelete = options?.softDelete ?? false;
+  if (softDelete && !fields.deletedAt) {
+    fields.deletedAt = {
+      type: 'datetime',
+      nullable: true,
+      readOnly: true,
+    };
+  }
+
+  // Add the optimistic concurrency counter (bumped by every update)
+  const versioned = options?.versioned ?? false;
+  if (versioned && !fields.version) {
+    fields.version = {
+      type: 'int',
+      default: 1,
+      readOnly: true,
+    };
+  }
+
   const schema: EntitySchema<T> = {
     name,
     fields,
     timestamps,
+    softDelete,
+    versioned,
     api: options?.api,
     rls: options?.rls,
+    indexes: options?.indexes,
+    rpc: options?.rpc,
     // Entity Organization & Tagging
     tags: options?.tags,
     module: options?.module,
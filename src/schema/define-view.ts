@@ -235,5 +235,6 @@ export function defineView(name: string, fields: ViewFieldDefinitions, options:
     fields: processedFields,
     endpoint: options.endpoint,
     params: options.params,
+    _view: true,
   };
 }
@@ -330,6 +330,12 @@ function createComputedField<T>(config: {
  * field.number()                        // Random number
  * field.boolean()                       // Random boolean
  * field.date()                          // Random date
+ * field.datetime()                      // Random timestamp
+ * field.time()                          // 'HH:MM:SS' string
+ * field.decimal({ precision: 10, scale: 2 }) // Precision-safe string
+ * field.bigint()                        // Native bigint
+ * field.bytes()                         // Uint8Array (base64 string in generated code)
+ * field.json<Settings>()                // Free-form JSON
  *
  * // With constraints
  * field.string().min(1).max(100)        // Constrained string
@@ -409,6 +415,86 @@ export const field = {
     return createDateBuilder({ type: 'date', hint });
   },
 
+  /**
+   * Timestamp field (date plus time of day, stored as TIMESTAMPTZ)
+   * @param opts - Past/future constraints
+   */
+  datetime(opts?: { past?: boolean; future?: boolean }): DateFieldBuilder {
+    let hint = 'date.anytime';
+    if (opts?.past) hint = 'date.past';
+    if (opts?.future) hint = 'date.future';
+
+    return createDateBuilder({ type: 'datetime', hint });
+  },
+
+  /**
+   * Time of day without a date, as an `HH:MM:SS` string
+   */
+  time(): FieldBuilder<string> {
+    return createBaseBuilder<string>({ type: 'time' });
+  },
+
+  /**
+   * Fixed-point decimal field, represented as a string to avoid float rounding
+   * @param opts - Precision (total digits), scale (fractional digits) and bounds
+   *
+   * @example
+   * ```typescript
+   * field.decimal({ precision: 10, scale: 2 })  // NUMERIC(10, 2), e.g. '1234.56'
+   * ```
+   */
+  decimal(opts?: { precision?: number; scale?: number; min?: number; max?: number }): FieldBuilder<string> {
+    const constraints: FieldConstraints = {};
+    if (opts?.precision !== undefined) constraints.precision = opts.precision;
+    if (opts?.scale !== undefined) constraints.scale = opts.scale;
+    if (opts?.min !== undefined) constraints.min = opts.min;
+    if (opts?.max !== undefined) constraints.max = opts.max;
+
+    return createBaseBuilder<string>({
+      type: 'decimal',
+      constraints: Object.keys(constraints).length > 0 ? constraints : undefined,
+    });
+  },
+
+  /**
+   * 64-bit integer field, represented as a native `bigint`
+   * @param opts - Min and max constraints
+   */
+  bigint(opts?: { min?: number; max?: number }): FieldBuilder<bigint> {
+    const constraints: FieldConstraints = {};
+    if (opts?.min !== undefined) constraints.min = opts.min;
+    if (opts?.max !== undefined) constraints.max = opts.max;
+
+    return createBaseBuilder<bigint>({
+      type: 'bigint',
+      constraints: Object.keys(constraints).length > 0 ? constraints : undefined,
+    });
+  },
+
+  /**
+   * Binary data field, represented as a `Uint8Array`.
+   * Generated code carries it as a base64 string, so values survive JSON.
+   * Use `.min()` / `.max()` to bound the generated byte length.
+   */
+  bytes(): FieldBuilder<Uint8Array> {
+    return createBaseBuilder<Uint8Array>({ type: 'bytes' });
+  },
+
+  /**
+   * Free-form JSON field, stored as JSONB
+   *
+   * `T` only types the schema: it is erased before generation, so generated
+   * types declare the field as `unknown`.
+   *
+   * @example
+   * ```typescript
+   * field.json<{ theme: string }>().default({ theme: 'light' })
+   * ```
+   */
+  json<T = unknown>(): FieldBuilder<T> {
+    return createBaseBuilder<T>({ type: 'json' });
+  },
+
   // -------------------------------------------------------------------------
   // Semantic Types (Faker-based)
   // -------------------------------------------------------------------------
@@ -19,6 +19,10 @@ export interface FieldConstraints {
   max?: number;
   /** Regular expression pattern for string validation */
   pattern?: RegExp;
+  /** Total number of significant digits (for decimals) */
+  precision?: number;
+  /** Number of digits after the decimal point (for decimals) */
+  scale?: number;
   /** Custom validation message */
   message?: string;
 }
@@ -458,6 +462,19 @@ export interface EntityOptions<T = unknown> {
   api?: EntityApiConfig;
   /** Whether to automatically add timestamp fields (createdAt, updatedAt) */
   timestamps?: boolean;
+  /**
+   * Soft delete instead of removing rows. Adds a nullable `deletedAt` column
+   * that `delete` sets; deleted rows are hidden from reads unless
+   * `withDeleted`/`onlyDeleted` is passed, and can be brought back with
+   * `restore` or removed for good with `purge`.
+   */
+  softDelete?: boolean;
+  /**
+   * Optimistic concurrency control. Adds a `version` integer that every
+   * update increments; updates carrying a stale `expectedVersion` (or
+   * `If-Match` header) fail with a 409 conflict instead of overwriting.
+   */
+  versioned?: boolean;
   /** Row-level security configuration */
   rls?: RLSConfig<T>;
   /** Database indexes for query optimization */
@@ -711,6 +728,10 @@ export interface EntitySchema<T = unknown> {
   computed?: Record<string, ComputedFieldDefinition>;
   /** Whether to include timestamp fields */
   timestamps?: boolean;
+  /** Whether deletes set `deletedAt` instead of removing the record */
+  softDelete?: boolean;
+  /** Whether updates are checked against and increment a `version` field */
+  versioned?: boolean;
   /** API configuration */
   api?: EntityApiConfig;
   /** Row-level security configuration */
@@ -789,6 +810,7 @@ export interface ViewOptions {
  *   fields: { id: field.uuid(), name: field.string() },
  *   endpoint: '/api/users/:id/full',
  *   params: ['id'],
+ *   _view: true,
  * };
  * ```
  */
@@ -801,6 +823,20 @@ export interface ViewSchema {
   endpoint: string;
   /** Required URL parameters */
   params: string[];
+  /** Internal marker for type identification */
+  readonly _view: true;
+}
+
+/**
+ * Type guard to check if a value is a ViewSchema
+ */
+export function isViewSchema(value: unknown): value is ViewSchema {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '_view' in value &&
+    (value as ViewSchema)._view === true
+  );
 }
 
 // ============================================================================
@@ -822,6 +858,15 @@ export type EndpointMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
  *   const users = db.user.findMany({ where: { name: { contains: params.q } } });
  *   return { results: users, total: users.length };
  * }
+ *
+ * // Multi-row writes: rolled back together if the callback throws
+ * mockResolver: async ({ body, db }) => {
+ *   return db.$transaction(async (tx) => {
+ *     tx.product.update({ where: { id: { equals: body.fromId } }, data: { stock: body.fromStock } });
+ *     tx.product.update({ where: { id: { equals: body.toId } }, data: { stock: body.toStock } });
+ *     return { ok: true };
+ *   });
+ * }
  * ```
  */
 export interface MockResolverContext<TParams = Record<string, unknown>, TBody = Record<string, unknown>, TDb = any> {
@@ -829,7 +874,11 @@ export interface MockResolverContext<TParams = Record<string, unknown>, TBody =
   params: TParams;
   /** Parsed request body (for POST/PUT/PATCH) */
   body: TBody;
-  /** Access to mock database - typed as `any` for flexibility, actual type is Database from generated db.ts */
+  /**
+   * Access to mock database - typed as `any` for flexibility, actual type is Database from generated db.ts.
+   * Besides the @mswjs/data model methods it has db.<entity>.createMany() and db.$transaction();
+   * on the PGlite target it is the PGlite instance, also with db.$transaction().
+   */
   db: TDb;
   /** Request headers */
   headers: Record<string, string>;
@@ -1333,6 +1382,12 @@ type FieldTypeMap = {
   float: number;
   boolean: boolean;
   date: Date;
+  datetime: Date;
+  time: string;
+  decimal: string;
+  bigint: bigint;
+  bytes: Uint8Array;
+  json: unknown;
   array: unknown[];
   object: Record<string, unknown>;
   ref: string;
@@ -0,0 +1,297 @@
+/**
+ * SQL Audit Store - PostgreSQL-backed audit log
+ *
+ * @module security/audit-sql
+ * @category Security
+ */
+
+import type { AuditEvent, AuditFilter } from './types';
+import { auditJsonReplacer, type AuditStore } from './audit';
+
+/**
+ * Anything with a pg-style `query` method: `pg.Pool`, `pg.Client` or PGlite.
+ */
+export interface SqlQueryable {
+  query<R = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<{ rows: R[] }>;
+}
+
+/**
+ * Options for SqlAuditStore.
+ */
+export interface SqlAuditStoreOptions {
+  /** Database client */
+  db: SqlQueryable;
+  /** Table name (default: 'audit_events') */
+  table?: string;
+}
+
+/**
+ * Options for auditTableSql.
+ */
+export interface AuditTableSqlOptions {
+  /** Table name (default: 'audit_events') */
+  table?: string;
+  /**
+   * Enable RLS with no policies, so only the service role / table owner can
+   * read or write the log (use on Supabase, where tables are exposed to clients)
+   */
+  rls?: boolean;
+}
+
+/**
+ * Row shape of the audit events table.
+ */
+interface AuditRow {
+  id: string;
+  timestamp: Date | string;
+  user_id: string | null;
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  resource_attributes: unknown;
+  outcome: AuditEvent['outcome'];
+  ip: string | null;
+  user_agent: string | null;
+  metadata: unknown;
+  changes: unknown;
+  diff: unknown;
+}
+
+const COLUMNS = [
+  'id',
+  'timestamp',
+  'user_id',
+  'action',
+  'resource_type',
+  'resource_id',
+  'resource_attributes',
+  'outcome',
+  'ip',
+  'user_agent',
+  'metadata',
+  'changes',
+  'diff',
+];
+
+/**
+ * Quote a table name, rejecting anything that is not a plain identifier.
+ */
+function quoteTable(table: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid audit table name: ${table}`);
+  }
+  return `"${table}"`;
+}
+
+/**
+ * DDL statements for the audit events table, in execution order.
+ */
+function auditTableStatements(options: AuditTableSqlOptions): string[] {
+  const name = options.table ?? 'audit_events';
+  const table = quoteTable(name);
+  const guard = `${name}_append_only`;
+
+  const statements = [
+    [
+      `CREATE TABLE IF NOT EXISTS ${table} (`,
+      '  "id" TEXT PRIMARY KEY,',
+      '  "timestamp" TIMESTAMPTZ NOT NULL DEFAULT NOW(),',
+      '  "user_id" TEXT,',
+      '  "action" TEXT NOT NULL,',
+      '  "resource_type" TEXT NOT NULL,',
+      '  "resource_id" TEXT,',
+      '  "resource_attributes" JSONB,',
+      `  "outcome" TEXT NOT NULL CHECK ("outcome" IN ('success', 'failure', 'denied')),`,
+      '  "ip" TEXT,',
+      '  "user_agent" TEXT,',
+      '  "metadata" JSONB,',
+      '  "changes" JSONB,',
+      '  "diff" JSONB',
+      ');',
+    ].join('\n'),
+    `CREATE INDEX IF NOT EXISTS "idx_${name}_timestamp" ON ${table} ("timestamp");`,
+    `CREATE INDEX IF NOT EXISTS "idx_${name}_user_id" ON ${table} ("user_id");`,
+    `CREATE INDEX IF NOT EXISTS "idx_${name}_resource" ON ${table} ("resource_type", "resource_id");`,
+    [
+      `CREATE OR REPLACE FUNCTION "${guard}"()`,
+      'RETURNS TRIGGER AS $$',
+      'BEGIN',
+      `  RAISE EXCEPTION '${name} is append-only';`,
+      'END;',
+      '$$ LANGUAGE plpgsql;',
+    ].join('\n'),
+    `DROP TRIGGER IF EXISTS "${guard}" ON ${table};`,
+    [
+      `CREATE TRIGGER "${guard}"`,
+      `  BEFORE UPDATE OR DELETE ON ${table}`,
+      '  FOR EACH ROW',
+      `  EXECUTE FUNCTION "${guard}"();`,
+    ].join('\n'),
+  ];
+
+  if (options.rls) {
+    statements.push(`ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`);
+  }
+
+  return statements;
+}
+
+/**
+ * Generate the DDL for the audit events table.
+ *
+ * The table is append-only: a trigger rejects UPDATE and DELETE.
+ *
+ * @example
+ * ```typescript
+ * await db.exec(auditTableSql());
+ * ```
+ */
+export function auditTableSql(options: AuditTableSqlOptions = {}): string {
+  return `${auditTableStatements(options).join('\n\n')}\n`;
+}
+
+/**
+ * Encode a value for a JSONB parameter.
+ */
+function toJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value, auditJsonReplacer);
+}
+
+/**
+ * Decode a JSONB column (pg and PGlite parse it already; other drivers may not).
+ */
+function fromJson<T>(value: unknown): T | undefined {
+  if (value === null || value === undefined) return undefined;
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
+
+/**
+ * Build a WHERE clause and its parameters from a filter.
+ */
+function buildWhere(filter: AuditFilter): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filter.userId) conditions.push(`"user_id" = ${param(filter.userId)}`);
+  if (filter.action) {
+    const actions = Array.isArray(filter.action) ? filter.action : [filter.action];
+    conditions.push(`"action" = ANY(${param(actions)})`);
+  }
+  if (filter.resourceType) conditions.push(`"resource_type" = ${param(filter.resourceType)}`);
+  if (filter.resourceId) conditions.push(`"resource_id" = ${param(filter.resourceId)}`);
+  if (filter.outcome) conditions.push(`"outcome" = ${param(filter.outcome)}`);
+  if (filter.dateRange) {
+    conditions.push(`"timestamp" >= ${param(filter.dateRange.from)}`);
+    conditions.push(`"timestamp" <= ${param(filter.dateRange.to)}`);
+  }
+
+  return { where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/**
+ * Audit store backed by a PostgreSQL table (see `auditTableSql`, or
+ * `schemock generate:sql --audit`).
+ *
+ * Filtering, ordering and pagination run in the database.
+ *
+ * @example
+ * ```typescript
+ * import { Pool } from 'pg';
+ *
+ * const store = new SqlAuditStore({ db: new Pool() });
+ * const logger = createAuditLogger({ store });
+ * ```
+ */
+export class SqlAuditStore implements AuditStore {
+  private db: SqlQueryable;
+  private table: string;
+  private tableName: string;
+
+  constructor(options: SqlAuditStoreOptions) {
+    this.db = options.db;
+    this.tableName = options.table ?? 'audit_events';
+    this.table = quoteTable(this.tableName);
+  }
+
+  /**
+   * Create the table, its indexes and the append-only trigger if missing.
+   * Statements run one at a time, since not every driver accepts several
+   * statements in one query.
+   */
+  async createTable(): Promise<void> {
+    for (const sql of auditTableStatements({ table: this.tableName })) {
+      await this.db.query(sql);
+    }
+  }
+
+  async save(event: AuditEvent): Promise<void> {
+    const values = [
+      event.id,
+      event.timestamp,
+      event.userId ?? null,
+      event.action,
+      event.resource.type,
+      event.resource.id ?? null,
+      toJson(event.resource.attributes),
+      event.outcome,
+      event.ip ?? null,
+      event.userAgent ?? null,
+      toJson(event.metadata),
+      toJson(event.changes),
+      toJson(event.diff),
+    ];
+    const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
+    const columns = COLUMNS.map((c) => `"${c}"`).join(', ');
+
+    await this.db.query(`INSERT INTO ${this.table} (${columns}) VALUES (${placeholders})`, values);
+  }
+
+  async find(filter: AuditFilter): Promise<AuditEvent[]> {
+    const { where, params } = buildWhere(filter);
+    const orderBy = filter.orderBy === 'action' ? '"action"' : '"timestamp"';
+    const orderDir = filter.orderDir === 'asc' ? 'ASC' : 'DESC';
+    params.push(filter.limit ?? 100, filter.offset ?? 0);
+
+    const { rows } = await this.db.query<AuditRow>(
+      `SELECT * FROM ${this.table}${where} ORDER BY ${orderBy} ${orderDir}, "id" ${orderDir} LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+    return rows.map((row) => this.toEvent(row));
+  }
+
+  async count(filter: AuditFilter): Promise<number> {
+    const { where, params } = buildWhere(filter);
+    const { rows } = await this.db.query<{ count: number | string }>(
+      `SELECT COUNT(*) AS "count" FROM ${this.table}${where}`,
+      params
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  private toEvent(row: AuditRow): AuditEvent {
+    const event: AuditEvent = {
+      id: row.id,
+      timestamp: new Date(row.timestamp),
+      action: row.action,
+      resource: { type: row.resource_type },
+      outcome: row.outcome,
+    };
+    if (row.user_id !== null) event.userId = row.user_id;
+    if (row.resource_id !== null) event.resource.id = row.resource_id;
+    const attributes = fromJson<Record<string, unknown>>(row.resource_attributes);
+    if (attributes) event.resource.attributes = attributes;
+    if (row.ip !== null) event.ip = row.ip;
+    if (row.user_agent !== null) event.userAgent = row.user_agent;
+    const metadata = fromJson<AuditEvent['metadata']>(row.metadata);
+    if (metadata) event.metadata = metadata;
+    const changes = fromJson<AuditEvent['changes']>(row.changes);
+    if (changes) event.changes = changes;
+    const diff = fromJson<AuditEvent['diff']>(row.diff);
+    if (diff) event.diff = diff;
+    return event;
+  }
+}
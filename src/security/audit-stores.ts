@@ -0,0 +1,264 @@
+/**
+ * Persistent Audit Stores - localStorage, IndexedDB and JSONL file stores
+ *
+ * These stores cannot query natively, so they load their events and answer
+ * an AuditFilter with `applyAuditFilter`, the same way MemoryAuditStore does.
+ *
+ * @module security/audit-stores
+ * @category Security
+ */
+
+import type { AuditEvent, AuditFilter } from './types';
+import { applyAuditFilter, auditJsonReplacer, matchesAuditFilter, type AuditStore } from './audit';
+
+/**
+ * Rebuild an event parsed from JSON (timestamps come back as strings).
+ */
+function reviveAuditEvent(raw: AuditEvent): AuditEvent {
+  return { ...raw, timestamp: new Date(raw.timestamp) };
+}
+
+/**
+ * Minimal Web Storage interface used by LocalStorageAuditStore.
+ */
+export type AuditStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * Options for LocalStorageAuditStore.
+ */
+export interface LocalStorageAuditStoreOptions {
+  /** Storage key (default: 'schemock:audit') */
+  key?: string;
+  /** Keep at most this many events, dropping the oldest (default: unlimited) */
+  maxEvents?: number;
+  /** Storage to use (default: globalThis.localStorage) */
+  storage?: AuditStorage;
+}
+
+/**
+ * Audit store backed by localStorage, so browser mocks keep their audit
+ * trail across reloads.
+ *
+ * Events are kept as one JSON array under a single key and re-read on every
+ * call, so several tabs see each other's events. localStorage quotas are a
+ * few megabytes; set `maxEvents` for long-running sessions.
+ *
+ * @example
+ * ```typescript
+ * const logger = createAuditLogger({ store: new LocalStorageAuditStore({ maxEvents: 5000 }) });
+ * ```
+ */
+export class LocalStorageAuditStore implements AuditStore {
+  private key: string;
+  private maxEvents?: number;
+  private storage: AuditStorage;
+
+  constructor(options: LocalStorageAuditStoreOptions = {}) {
+    const storage = options.storage ?? globalThis.localStorage;
+    if (!storage) {
+      throw new Error('LocalStorageAuditStore: localStorage is not available; pass a `storage` option');
+    }
+    this.key = options.key ?? 'schemock:audit';
+    this.maxEvents = options.maxEvents;
+    this.storage = storage;
+  }
+
+  async save(event: AuditEvent): Promise<void> {
+    const events = this.load();
+    events.push(event);
+    if (this.maxEvents !== undefined && events.length > this.maxEvents) {
+      events.splice(0, events.length - this.maxEvents);
+    }
+    this.storage.setItem(this.key, JSON.stringify(events, auditJsonReplacer));
+  }
+
+  async find(filter: AuditFilter): Promise<AuditEvent[]> {
+    return applyAuditFilter(this.load(), filter);
+  }
+
+  async count(filter: AuditFilter): Promise<number> {
+    return this.load().filter((e) => matchesAuditFilter(e, filter)).length;
+  }
+
+  /**
+   * Remove all stored events.
+   */
+  clear(): void {
+    this.storage.removeItem(this.key);
+  }
+
+  private load(): AuditEvent[] {
+    const raw = this.storage.getItem(this.key);
+    if (!raw) return [];
+    return (JSON.parse(raw) as AuditEvent[]).map(reviveAuditEvent);
+  }
+}
+
+/**
+ * Options for IndexedDBAuditStore.
+ */
+export interface IndexedDBAuditStoreOptions {
+  /** Database name (default: 'schemock-audit') */
+  dbName?: string;
+  /** Object store name (default: 'events') */
+  storeName?: string;
+  /** IndexedDB factory (default: globalThis.indexedDB) */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Wrap an IDBRequest in a promise.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Audit store backed by IndexedDB, for browser mocks with more events than
+ * localStorage can hold.
+ *
+ * Events are stored as structured clones keyed by id; `save` uses `add`, so
+ * an existing event is never overwritten.
+ */
+export class IndexedDBAuditStore implements AuditStore {
+  private dbName: string;
+  private storeName: string;
+  private factory: IDBFactory;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBAuditStoreOptions = {}) {
+    const factory = options.indexedDB ?? globalThis.indexedDB;
+    if (!factory) {
+      throw new Error('IndexedDBAuditStore: indexedDB is not available; pass an `indexedDB` option');
+    }
+    this.dbName = options.dbName ?? 'schemock-audit';
+    this.storeName = options.storeName ?? 'events';
+    this.factory = factory;
+  }
+
+  async save(event: AuditEvent): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.add(event));
+  }
+
+  async find(filter: AuditFilter): Promise<AuditEvent[]> {
+    return applyAuditFilter(await this.loadAll(), filter);
+  }
+
+  async count(filter: AuditFilter): Promise<number> {
+    return (await this.loadAll()).filter((e) => matchesAuditFilter(e, filter)).length;
+  }
+
+  /**
+   * Remove all stored events.
+   */
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.clear());
+  }
+
+  private async loadAll(): Promise<AuditEvent[]> {
+    const store = await this.objectStore('readonly');
+    return requestToPromise(store.getAll() as IDBRequest<AuditEvent[]>);
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = this.factory.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(this.storeName, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      this.db = requestToPromise(request);
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Options for FileAuditStore.
+ */
+export interface FileAuditStoreOptions {
+  /** Path of the JSONL file (it and its directory are created on first write) */
+  path: string;
+}
+
+/**
+ * Append-only audit store writing one JSON event per line (JSONL), for Node
+ * servers and mock servers.
+ *
+ * Writes are queued so concurrent saves never interleave. Existing lines are
+ * never rewritten; rotate or archive the file externally. A line that does
+ * not parse (e.g. cut short by a crash) is skipped when reading.
+ *
+ * @example
+ * ```typescript
+ * const logger = createAuditLogger({ store: new FileAuditStore({ path: './logs/audit.jsonl' }) });
+ * ```
+ */
+export class FileAuditStore implements AuditStore {
+  private path: string;
+  private writes: Promise<void> = Promise.resolve();
+  /** Whether the parent directory has been created */
+  private directoryReady = false;
+
+  constructor(options: FileAuditStoreOptions) {
+    this.path = options.path;
+  }
+
+  save(event: AuditEvent): Promise<void> {
+    const line = `${JSON.stringify(event, auditJsonReplacer)}\n`;
+    const write = this.writes.then(async () => {
+      const { appendFile, mkdir } = await import('node:fs/promises');
+      if (!this.directoryReady) {
+        const { dirname } = await import('node:path');
+        await mkdir(dirname(this.path), { recursive: true });
+        this.directoryReady = true;
+      }
+      await appendFile(this.path, line, 'utf-8');
+    });
+    // Keep the queue going after a failed write; the caller still sees the error
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async find(filter: AuditFilter): Promise<AuditEvent[]> {
+    return applyAuditFilter(await this.load(), filter);
+  }
+
+  async count(filter: AuditFilter): Promise<number> {
+    return (await this.load()).filter((e) => matchesAuditFilter(e, filter)).length;
+  }
+
+  private async load(): Promise<AuditEvent[]> {
+    await this.writes;
+    const { readFile } = await import('node:fs/promises');
+
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const events: AuditEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(reviveAuditEvent(JSON.parse(line) as AuditEvent));
+      } catch {
+        // Partial line
+      }
+    }
+    return events;
+  }
+}
@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PGlite } from '@electric-sql/pglite';
+import {
+  MemoryAuditStore,
+  createAuditLogger,
+  createAuditMiddleware,
+  diffRecords,
+  queryAuditPage,
+  exportAuditEvents,
+  type AuditStore,
+} from './audit';
+import { LocalStorageAuditStore, FileAuditStore, type AuditStorage } from './audit-stores';
+import { SqlAuditStore, type SqlQueryable } from './audit-sql';
+import type { AuditEvent } from './types';
+
+function event(n: number, overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    id: `evt-${n}`,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, n)),
+    userId: n % 2 === 0 ? 'alice' : 'bob',
+    action: 'update',
+    resource: { type: 'post', id: `post-${n}` },
+    outcome: 'success',
+    ...overrides,
+  };
+}
+
+function memoryStorage(): AuditStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+describe('diffRecords', () => {
+  it('lists added, removed and changed fields', () => {
+    expect(diffRecords({ title: 'Draft', views: 1, tag: 'a' }, { title: 'Final', views: 1, slug: 'final' })).toEqual([
+      { field: 'title', before: 'Draft', after: 'Final' },
+      { field: 'tag', before: 'a', after: undefined },
+      { field: 'slug', before: undefined, after: 'final' },
+    ]);
+  });
+
+  it('compares nested values structurally', () => {
+    expect(diffRecords({ meta: { a: 1 } }, { meta: { a: 1 } })).toEqual([]);
+  });
+
+  it('compares bigint values', () => {
+    expect(diffRecords({ seq: 1n, total: 5n }, { seq: 1n, total: 6n })).toEqual([
+      { field: 'total', before: 5n, after: 6n },
+    ]);
+  });
+});
+
+describe('createAuditMiddleware', () => {
+  it('records a field diff for updates using loadBefore', async () => {
+    const store = new MemoryAuditStore();
+    const middleware = createAuditMiddleware(createAuditLogger({ store }), () => 'alice', undefined, {
+      loadBefore: async () => ({ id: 'p1', title: 'Draft', password: 'old' }),
+    });
+    const ctx = { entity: 'post', operation: 'update', params: { id: 'p1' }, metadata: {} };
+
+    await middleware.before(ctx);
+    await middleware.after(ctx, { data: { id: 'p1', title: 'Final', password: 'new' } });
+
+    const [logged] = await store.find({});
+    expect(logged.resource).toEqual({ type: 'post', id: 'p1' });
+    expect(logged.diff).toEqual([
+      { field: 'title', before: 'Draft', after: 'Final' },
+      { field: 'password', before: '[REDACTED]', after: '[REDACTED]' },
+    ]);
+  });
+
+  it('diffs creates against an empty record', async () => {
+    const store = new MemoryAuditStore();
+    const middleware = createAuditMiddleware(createAuditLogger({ store }), () => 'alice');
+
+    await middleware.after({ entity: 'post', operation: 'create', metadata: {} }, { data: { id: 'p2', title: 'New' } });
+
+    const [logged] = await store.find({});
+    expect(logged.resource.id).toBe('p2');
+    expect(logged.diff).toEqual([
+      { field: 'id', before: undefined, after: 'p2' },
+      { field: 'title', before: undefined, after: 'New' },
+    ]);
+  });
+
+  it('records no diff for failed writes or reads', async () => {
+    const store = new MemoryAuditStore();
+    const middleware = createAuditMiddleware(createAuditLogger({ store }), () => 'alice');
+
+    await middleware.after({ entity: 'post', operation: 'create', metadata: {} }, { data: null, error: new Error('nope') });
+    await middleware.after({ entity: 'post', operation: 'findOne', params: { id: 'p1' }, metadata: {} }, { data: { id: 'p1' } });
+
+    const events = await store.find({});
+    expect(events.map((e) => e.diff)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('queryAuditPage', () => {
+  it('returns one page with the total across pages', async () => {
+    const store = new MemoryAuditStore();
+    for (let n = 0; n < 250; n++) await store.save(event(n));
+
+    const page = await queryAuditPage(store, { userId: 'alice', orderDir: 'asc', limit: 50, offset: 100 });
+
+    expect(page.total).toBe(125);
+    expect(page.events).toHaveLength(25);
+    expect(page.events[0].id).toBe('evt-200');
+    expect(page.hasMore).toBe(false);
+  });
+});
+
+describe('exportAuditEvents', () => {
+  let store: MemoryAuditStore;
+
+  beforeEach(async () => {
+    store = new MemoryAuditStore();
+    await store.save(event(1, { diff: [{ field: 'title', before: 'a, "b"', after: 'c' }] }));
+    await store.save(event(2, { action: 'delete' }));
+  });
+
+  it('exports every matching event as JSON, oldest first', async () => {
+    const parsed = JSON.parse(await exportAuditEvents(store, 'json'));
+
+    expect(parsed.map((e: AuditEvent) => e.id)).toEqual(['evt-1', 'evt-2']);
+  });
+
+  it('exports CSV with quoted JSON cells', async () => {
+    const csv = await exportAuditEvents(store, 'csv', { action: 'update' });
+    const rows = csv.split('\r\n');
+
+    expect(rows[0]).toBe('id,timestamp,userId,action,resourceType,resourceId,outcome,ip,userAgent,changedFields,diff,metadata');
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toBe(
+      'evt-1,2024-01-01T00:01:00.000Z,bob,update,post,post-1,success,,,title,"[{""field"":""title"",""before"":""a, \\""b\\"""",""after"":""c""}]",'
+    );
+  });
+});
+
+interface StoreFixture {
+  store: AuditStore;
+  reopen: () => AuditStore;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Behaviour every persistent store must share
+ */
+function describeStore(name: string, setup: () => Promise<StoreFixture>) {
+  describe(name, () => {
+    let store: AuditStore;
+    let reopen: () => AuditStore;
+    let cleanup: () => Promise<void>;
+
+    beforeEach(async () => {
+      ({ store, reopen, cleanup } = await setup());
+      for (let n = 0; n < 5; n++) {
+        await store.save(event(n, n === 4 ? { action: 'delete', diff: [{ field: 'title', before: 'x' }] } : {}));
+      }
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it('persists events across instances', async () => {
+      const events = await reopen().find({ orderDir: 'asc' });
+
+      expect(events.map((e) => e.id)).toEqual(['evt-0', 'evt-1', 'evt-2', 'evt-3', 'evt-4']);
+      expect(events[4].timestamp).toEqual(new Date(Date.UTC(2024, 0, 1, 0, 4)));
+      expect(events[4].diff).toEqual([{ field: 'title', before: 'x' }]);
+    });
+
+    it('filters, orders and paginates', async () => {
+      const events = await store.find({ userId: 'alice', limit: 2, offset: 1 });
+
+      expect(events.map((e) => e.id)).toEqual(['evt-2', 'evt-0']);
+      expect(await store.count({ userId: 'alice' })).toBe(3);
+      expect(await store.count({ action: ['delete'] })).toBe(1);
+      expect(
+        await store.count({ dateRange: { from: new Date(Date.UTC(2024, 0, 1, 0, 1)), to: new Date(Date.UTC(2024, 0, 1, 0, 2)) } })
+      ).toBe(2);
+    });
+  });
+}
+
+describeStore('LocalStorageAuditStore', async () => {
+  const storage = memoryStorage();
+  return {
+    store: new LocalStorageAuditStore({ storage }),
+    reopen: () => new LocalStorageAuditStore({ storage }),
+    cleanup: async () => undefined,
+  };
+});
+
+describe('LocalStorageAuditStore limits', () => {
+  it('drops the oldest events past maxEvents', async () => {
+    const store = new LocalStorageAuditStore({ storage: memoryStorage(), maxEvents: 2 });
+    for (let n = 0; n < 3; n++) await store.save(event(n));
+
+    expect((await store.find({ orderDir: 'asc' })).map((e) => e.id)).toEqual(['evt-1', 'evt-2']);
+  });
+});
+
+describe('FileAuditStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'schemock-audit-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per event, including concurrent saves', async () => {
+    const path = join(dir, 'audit.jsonl');
+    const store = new FileAuditStore({ path });
+
+    await Promise.all([0, 1, 2].map((n) => store.save(event(n))));
+
+    const lines = (await readFile(path, 'utf-8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['evt-0', 'evt-1', 'evt-2']);
+    expect(await store.count({})).toBe(3);
+  });
+
+  it('creates missing directories and writes bigints as strings', async () => {
+    const path = join(dir, 'logs', 'audit', 'audit.jsonl');
+    const store = new FileAuditStore({ path });
+
+    await store.save(event(0, { diff: [{ field: 'seq', before: 1n, after: 2n }] }));
+
+    expect((await store.find({}))[0].diff).toEqual([{ field: 'seq', before: '1', after: '2' }]);
+  });
+
+  it('returns nothing before the first write', async () => {
+    const store = new FileAuditStore({ path: join(dir, 'missing.jsonl') });
+
+    expect(await store.find({})).toEqual([]);
+  });
+});
+
+describeStore('FileAuditStore (shared behaviour)', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'schemock-audit-'));
+  const path = join(dir, 'audit.jsonl');
+  return {
+    store: new FileAuditStore({ path }),
+    reopen: () => new FileAuditStore({ path }),
+    cleanup: () => rm(dir, { recursive: true, force: true }),
+  };
+});
+
+describe('SqlAuditStore', () => {
+  let db: PGlite;
+
+  beforeEach(async () => {
+    db = new PGlite();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('rejects updates and deletes on the audit table', async () => {
+    const store = new SqlAuditStore({ db: db as unknown as SqlQueryable });
+    await store.createTable();
+    await store.save(event(1));
+
+    await expect(db.query('DELETE FROM "audit_events"')).rejects.toThrow('append-only');
+    expect(await store.count({})).toBe(1);
+  });
+
+  it('rejects table names that are not identifiers', () => {
+    expect(() => new SqlAuditStore({ db: db as unknown as SqlQueryable, table: 'audit; DROP TABLE x' })).toThrow(
+      'Invalid audit table name'
+    );
+  });
+});
+
+describeStore('SqlAuditStore (shared behaviour)', async () => {
+  const db = new PGlite();
+  const store = new SqlAuditStore({ db: db as unknown as SqlQueryable });
+  await store.createTable();
+  return {
+    store,
+    reopen: () => new SqlAuditStore({ db: db as unknown as SqlQueryable }),
+    cleanup: () => db.close(),
+  };
+});
@@ -5,7 +5,7 @@
  * @category Security
  */
 
-import type { AuditAdapter, AuditEvent, AuditFilter, Action, Resource } from './types';
+import type { AuditAdapter, AuditEvent, AuditFieldChange, AuditFilter, AuditPage, Action, Resource } from './types';
 
 /**
  * Audit store interface for persisting audit events.
@@ -19,6 +19,60 @@ export interface AuditStore {
   count(filter: AuditFilter): Promise<number>;
 }
 
+/**
+ * Default page size when a filter has no limit.
+ */
+const DEFAULT_AUDIT_LIMIT = 100;
+
+/**
+ * Check whether an event matches the filter criteria (ignores ordering and
+ * pagination).
+ */
+export function matchesAuditFilter(event: AuditEvent, filter: AuditFilter): boolean {
+  if (filter.userId && event.userId !== filter.userId) return false;
+  if (filter.action) {
+    const actions = Array.isArray(filter.action) ? filter.action : [filter.action];
+    if (!actions.includes(event.action)) return false;
+  }
+  if (filter.resourceType && event.resource.type !== filter.resourceType) return false;
+  if (filter.resourceId && event.resource.id !== filter.resourceId) return false;
+  if (filter.outcome && event.outcome !== filter.outcome) return false;
+  if (filter.dateRange) {
+    if (event.timestamp < filter.dateRange.from || event.timestamp > filter.dateRange.to) return false;
+  }
+  return true;
+}
+
+/**
+ * Filter, sort and paginate events in memory.
+ *
+ * Stores that cannot query natively (localStorage, IndexedDB, JSONL files)
+ * load their events and use this, so every store answers an AuditFilter the
+ * same way.
+ */
+export function applyAuditFilter(events: AuditEvent[], filter: AuditFilter): AuditEvent[] {
+  const results = events.filter((e) => matchesAuditFilter(e, filter));
+
+  // Sort
+  const orderBy = filter.orderBy ?? 'timestamp';
+  const orderDir = filter.orderDir ?? 'desc';
+  results.sort((a, b) => {
+    const aVal = a[orderBy as keyof AuditEvent];
+    const bVal = b[orderBy as keyof AuditEvent];
+    // Handle undefined values - sort them to the end
+    if (aVal === undefined && bVal === undefined) return 0;
+    if (aVal === undefined) return 1;
+    if (bVal === undefined) return -1;
+    const cmp = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
+    return orderDir === 'asc' ? cmp : -cmp;
+  });
+
+  // Paginate
+  const offset = filter.offset ?? 0;
+  const limit = filter.limit ?? DEFAULT_AUDIT_LIMIT;
+  return results.slice(offset, offset + limit);
+}
+
 /**
  * In-memory audit store implementation.
  */
@@ -40,54 +94,11 @@ export class MemoryAuditStore implements AuditStore {
   }
 
   async find(filter: AuditFilter): Promise<AuditEvent[]> {
-    let results = [...this.events];
-
-    // Apply filters
-    if (filter.userId) {
-      results = results.filter((e) => e.userId === filter.userId);
-    }
-    if (filter.action) {
-      const actions = Array.isArray(filter.action) ? filter.action : [filter.action];
-      results = results.filter((e) => actions.includes(e.action));
-    }
-    if (filter.resourceType) {
-      results = results.filter((e) => e.resource.type === filter.resourceType);
-    }
-    if (filter.resourceId) {
-      results = results.filter((e) => e.resource.id === filter.resourceId);
-    }
-    if (filter.outcome) {
-      results = results.filter((e) => e.outcome === filter.outcome);
-    }
-    if (filter.dateRange) {
-      results = results.filter(
-        (e) => e.timestamp >= filter.dateRange!.from && e.timestamp <= filter.dateRange!.to
-      );
-    }
-
-    // Sort
-    const orderBy = filter.orderBy ?? 'timestamp';
-    const orderDir = filter.orderDir ?? 'desc';
-    results.sort((a, b) => {
-      const aVal = a[orderBy as keyof AuditEvent];
-      const bVal = b[orderBy as keyof AuditEvent];
-      // Handle undefined values - sort them to the end
-      if (aVal === undefined && bVal === undefined) return 0;
-      if (aVal === undefined) return 1;
-      if (bVal === undefined) return -1;
-      const cmp = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-      return orderDir === 'asc' ? cmp : -cmp;
-    });
-
-    // Paginate
-    const offset = filter.offset ?? 0;
-    const limit = filter.limit ?? 100;
-    return results.slice(offset, offset + limit);
+    return applyAuditFilter(this.events, filter);
   }
 
   async count(filter: AuditFilter): Promise<number> {
-    const results = await this.find({ ...filter, limit: undefined, offset: undefined });
-    return results.length;
+    return this.events.filter((e) => matchesAuditFilter(e, filter)).length;
   }
 
   /**
@@ -98,6 +109,124 @@ export class MemoryAuditStore implements AuditStore {
   }
 }
 
+/**
+ * Query one page of events along with the total count.
+ *
+ * @param store - Store to query
+ * @param filter - Filter criteria, including `limit` and `offset`
+ * @returns The page and pagination info
+ *
+ * @example
+ * ```typescript
+ * const page = await queryAuditPage(store, { resourceType: 'post', limit: 20, offset: 40 });
+ * if (page.hasMore) loadNext(page.offset + page.limit);
+ * ```
+ */
+export async function queryAuditPage(store: AuditStore, filter: AuditFilter = {}): Promise<AuditPage> {
+  const limit = filter.limit ?? DEFAULT_AUDIT_LIMIT;
+  const offset = filter.offset ?? 0;
+  const [events, total] = await Promise.all([
+    store.find({ ...filter, limit, offset }),
+    store.count({ ...filter, limit: undefined, offset: undefined }),
+  ]);
+  return { events, total, limit, offset, hasMore: offset + events.length < total };
+}
+
+/**
+ * Columns written by CSV export, in order.
+ */
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'userId',
+  'action',
+  'resourceType',
+  'resourceId',
+  'outcome',
+  'ip',
+  'userAgent',
+  'changedFields',
+  'diff',
+  'metadata',
+] as const;
+
+/**
+ * JSON.stringify replacer that writes bigints as decimal strings, since
+ * plain JSON.stringify throws on them.
+ */
+export function auditJsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or line break.
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value, auditJsonReplacer);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flatten an event into the CSV columns.
+ */
+function toCsvRow(event: AuditEvent): string {
+  const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+    id: event.id,
+    timestamp: event.timestamp.toISOString(),
+    userId: event.userId,
+    action: event.action,
+    resourceType: event.resource.type,
+    resourceId: event.resource.id,
+    outcome: event.outcome,
+    ip: event.ip,
+    userAgent: event.userAgent,
+    changedFields: event.diff?.map((change) => change.field).join(' '),
+    diff: event.diff,
+    metadata: event.metadata,
+  };
+  return CSV_COLUMNS.map((column) => csvCell(values[column])).join(',');
+}
+
+/**
+ * Export audit events as JSON or CSV.
+ *
+ * Events are read from the store in batches, oldest first unless the filter
+ * says otherwise. `limit` and `offset` on the filter are ignored: the export
+ * always covers every matching event.
+ *
+ * @param store - Store to export from
+ * @param format - 'json' (array of events) or 'csv' (one row per event, diff and metadata as JSON cells)
+ * @param filter - Optional filter criteria
+ * @returns The exported document
+ *
+ * @example
+ * ```typescript
+ * const csv = await exportAuditEvents(store, 'csv', { resourceType: 'invoice' });
+ * await writeFile('audit.csv', csv);
+ * ```
+ */
+export async function exportAuditEvents(
+  store: AuditStore,
+  format: 'json' | 'csv',
+  filter: AuditFilter = {}
+): Promise<string> {
+  const batchSize = 500;
+  const query: AuditFilter = { ...filter, orderDir: filter.orderDir ?? 'asc', limit: batchSize };
+  const events: AuditEvent[] = [];
+
+  for (let offset = 0; ; offset += batchSize) {
+    const batch = await store.find({ ...query, offset });
+    events.push(...batch);
+    if (batch.length < batchSize) break;
+  }
+
+  if (format === 'json') {
+    return JSON.stringify(events, auditJsonReplacer, 2);
+  }
+  return [CSV_COLUMNS.join(','), ...events.map(toCsvRow)].join('\r\n');
+}
+
 /**
  * Default fields to redact from audit logs.
  */
@@ -158,6 +287,13 @@ export function createAuditLogger(options: AuditLoggerOptions): AuditAdapter {
     includeMetadata = true,
   } = options;
 
+  /**
+   * Check if a field should be redacted.
+   */
+  function shouldRedact(key: string): boolean {
+    return redactFields.some((field) => key.toLowerCase().includes(field.toLowerCase()));
+  }
+
   /**
    * Redact sensitive data from an object.
    */
@@ -172,12 +308,7 @@ export function createAuditLogger(options: AuditLoggerOptions): AuditAdapter {
 
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-      // Check if field should be redacted
-      const shouldRedact = redactFields.some((field) =>
-        key.toLowerCase().includes(field.toLowerCase())
-      );
-
-      if (shouldRedact) {
+      if (shouldRedact(key)) {
         result[key] = customRedact ? customRedact(value, key) : '[REDACTED]';
       } else if (typeof value === 'object') {
         result[key] = redactSensitiveData(value);
@@ -188,6 +319,20 @@ export function createAuditLogger(options: AuditLoggerOptions): AuditAdapter {
     return result;
   }
 
+  /**
+   * Redact the values of sensitive fields in a diff.
+   */
+  function redactDiff(diff: AuditFieldChange[]): AuditFieldChange[] {
+    return diff.map((change) => {
+      if (!shouldRedact(change.field)) {
+        return { ...change, before: redactSensitiveData(change.before), after: redactSensitiveData(change.after) };
+      }
+      const redactValue = (value: unknown) =>
+        value === undefined ? undefined : customRedact ? customRedact(value, change.field) : '[REDACTED]';
+      return { field: change.field, before: redactValue(change.before), after: redactValue(change.after) };
+    });
+  }
+
   return {
     async log(event: AuditEvent): Promise<void> {
       // Redact sensitive data from changes
@@ -199,6 +344,7 @@ export function createAuditLogger(options: AuditLoggerOptions): AuditAdapter {
               after: redactSensitiveData(event.changes.after) as Record<string, unknown>,
             }
           : undefined,
+        diff: event.diff ? redactDiff(event.diff) : undefined,
         metadata: includeMetadata
           ? (redactSensitiveData(event.metadata) as Record<string, unknown>)
           : undefined,
@@ -233,9 +379,41 @@ export function createAuditEvent(params: {
     id: generateEventId(),
     timestamp: new Date(),
     ...params,
+    diff: params.changes ? diffRecords(params.changes.before, params.changes.after) : undefined,
   };
 }
 
+/**
+ * Compare two versions of a record field by field.
+ *
+ * Values are compared structurally, so a Date and its ISO string, a bigint
+ * and its decimal string, or two equal nested objects, count as unchanged.
+ *
+ * @param before - Record before the write ({} or undefined for creates)
+ * @param after - Record after the write (undefined for deletes)
+ * @returns One entry per added, removed or changed field
+ *
+ * @example
+ * ```typescript
+ * diffRecords({ title: 'Draft', views: 1 }, { title: 'Final', views: 1 });
+ * // [{ field: 'title', before: 'Draft', after: 'Final' }]
+ * ```
+ */
+export function diffRecords(
+  before: Record<string, unknown> = {},
+  after: Record<string, unknown> = {}
+): AuditFieldChange[] {
+  const changes: AuditFieldChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const field of fields) {
+    if (JSON.stringify(before[field], auditJsonReplacer) !== JSON.stringify(after[field], auditJsonReplacer)) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+  return changes;
+}
+
 /**
  * Generate a unique event ID.
  */
@@ -243,30 +421,77 @@ function generateEventId(): string {
   return `evt-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
 
+/**
+ * Options for the audit middleware.
+ */
+export interface AuditMiddlewareOptions {
+  /**
+   * Load the stored record before an update or delete, so the event records
+   * before/after values and a field diff. Without it, updates only record the
+   * values after the write.
+   */
+  loadBefore?: (entity: string, id: string) => Promise<Record<string, unknown> | null | undefined>;
+}
+
+/** Operations whose events carry changes and a diff */
+const WRITE_OPERATIONS = ['create', 'update', 'delete'];
+
+/**
+ * Get a record-shaped value, or undefined.
+ */
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
+
 /**
  * Create an audit middleware.
  *
+ * Write operations record `changes` and a field `diff`: creates diff against
+ * an empty record, updates and deletes against the record returned by
+ * `options.loadBefore`.
+ *
  * @param logger - Audit logger instance
  * @param getUser - Function to get current user ID
+ * @param getRequestInfo - Function to get the request IP and user agent
+ * @param options - Middleware options
  * @returns Middleware
  *
  * @example
  * ```typescript
- * const auditMiddleware = createAuditMiddleware(auditLogger, () => currentUserId);
+ * const auditMiddleware = createAuditMiddleware(auditLogger, () => currentUserId, undefined, {
+ *   loadBefore: async (entity, id) => (await adapter.findOne({ entity, params: { id } })).data,
+ * });
  * ```
  */
 export function createAuditMiddleware(
   logger: AuditAdapter,
   getUser: () => string | undefined,
-  getRequestInfo?: () => { ip?: string; userAgent?: string }
+  getRequestInfo?: () => { ip?: string; userAgent?: string },
+  options: AuditMiddlewareOptions = {}
 ) {
   return {
     name: 'audit',
+    before: async (ctx: { entity: string; operation: string; params?: Record<string, unknown>; metadata: Record<string, unknown> }) => {
+      const id = ctx.params?.id;
+      if (!options.loadBefore || (ctx.operation !== 'update' && ctx.operation !== 'delete') || id === undefined) {
+        return;
+      }
+      ctx.metadata.auditBefore = (await options.loadBefore(ctx.entity, String(id))) ?? undefined;
+    },
     after: async <T>(
-      ctx: { entity: string; operation: string; data?: unknown },
+      ctx: { entity: string; operation: string; data?: unknown; params?: Record<string, unknown>; metadata?: Record<string, unknown> },
       response: { data: T; error?: Error }
     ) => {
       const requestInfo = getRequestInfo?.() ?? {};
+      const result = asRecord(response.data);
+      const id = ctx.params?.id ?? result?.id;
+
+      let changes: AuditEvent['changes'];
+      if (!response.error && WRITE_OPERATIONS.includes(ctx.operation)) {
+        const before = ctx.operation === 'create' ? {} : asRecord(ctx.metadata?.auditBefore);
+        const after = ctx.operation === 'delete' ? undefined : result;
+        changes = { before, after };
+      }
 
       await logger.log({
         id: generateEventId(),
@@ -275,6 +500,7 @@ export function createAuditMiddleware(
         action: ctx.operation as Action,
         resource: {
           type: ctx.entity,
+          id: id === undefined ? undefined : String(id),
         },
         outcome: response.error ? 'failure' : 'success',
         ip: requestInfo.ip,
@@ -282,6 +508,9 @@ export function createAuditMiddleware(
         metadata: {
           hasData: !!ctx.data,
         },
+        changes,
+        // Without loadBefore, updates and deletes don't know the before state, so no diff
+        diff: changes?.before ? diffRecords(changes.before, changes.after) : undefined,
       });
 
       return response;
@@ -11,10 +11,13 @@ export type {
   AuditAdapter,
   RateLimitConfig,
   RateLimitResult,
+  RateLimitAlgorithm,
   Action,
   Resource,
   AuditEvent,
   AuditFilter,
+  AuditFieldChange,
+  AuditPage,
   RLSPolicy,
   User,
   Role,
@@ -32,13 +35,48 @@ export {
 } from './rls';
 
 // Re-export Rate Limiter
-export { RateLimiter, createRateLimitMiddleware } from './rate-limit';
+export {
+  RateLimiter,
+  createRateLimitMiddleware,
+  createRateLimitCheck,
+  resolveRateLimit,
+  rateLimitHeaders,
+} from './rate-limit';
+export type {
+  RateLimiterOptions,
+  RateLimitRule,
+  RateLimitPolicy,
+  RateLimitRequest,
+  RateLimitCheck,
+  RateLimitMiddlewareOptions,
+} from './rate-limit';
+export { MemoryRateLimitStore, RedisRateLimitStore } from './rate-limit-store';
+export type {
+  RateLimitStore,
+  RateLimitStateUpdate,
+  RedisClientLike,
+  RedisRateLimitStoreOptions,
+} from './rate-limit-store';
 
 // Re-export Audit
 export {
   createAuditLogger,
   createAuditEvent,
   createAuditMiddleware,
+  diffRecords,
+  matchesAuditFilter,
+  applyAuditFilter,
+  queryAuditPage,
+  exportAuditEvents,
   MemoryAuditStore,
 } from './audit';
-export type { AuditStore, AuditLoggerOptions } from './audit';
+export type { AuditStore, AuditLoggerOptions, AuditMiddlewareOptions } from './audit';
+export { LocalStorageAuditStore, IndexedDBAuditStore, FileAuditStore } from './audit-stores';
+export type {
+  AuditStorage,
+  LocalStorageAuditStoreOptions,
+  IndexedDBAuditStoreOptions,
+  FileAuditStoreOptions,
+} from './audit-stores';
+export { SqlAuditStore, auditTableSql } from './audit-sql';
+export type { SqlQueryable, SqlAuditStoreOptions, AuditTableSqlOptions } from './audit-sql';
@@ -0,0 +1,213 @@
+/**
+ * Rate Limit Stores - Where RateLimiter keeps its per-key state
+ *
+ * @module security/rate-limit-store
+ * @category Security
+ */
+
+/**
+ * Result of a state update: the state to store, how long to keep it, and the
+ * value to hand back to the caller.
+ */
+export interface RateLimitStateUpdate<T> {
+  /** Serialized state to store */
+  next: string;
+  /** Time after which the state can be discarded, in milliseconds */
+  ttlMs: number;
+  /** Value returned from `update` */
+  value: T;
+}
+
+/**
+ * Storage for rate limit state.
+ *
+ * State is an opaque string per key. `update` must be atomic per key: two
+ * concurrent updates of the same key may never both see the same `current`
+ * and both have their result stored.
+ */
+export interface RateLimitStore {
+  /** Read the state of a key, or null if none */
+  get(key: string): Promise<string | null>;
+  /**
+   * Atomically replace the state of a key.
+   *
+   * @param key - Store key
+   * @param fn - Computes the next state from the current one; may be called more than once
+   */
+  update<T>(key: string, fn: (current: string | null) => RateLimitStateUpdate<T>): Promise<T>;
+  /** Remove the state of a key */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process rate limit store.
+ *
+ * Updates run synchronously, so they are atomic. State is lost on restart
+ * and not shared between instances; use RedisRateLimitStore for that.
+ * Expired keys are swept on write, so no timer keeps the process alive.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+  private nextSweep = 0;
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key, Date.now());
+  }
+
+  async update<T>(key: string, fn: (current: string | null) => RateLimitStateUpdate<T>): Promise<T> {
+    const now = Date.now();
+    const { next, ttlMs, value } = fn(this.read(key, now));
+    this.entries.set(key, { value: next, expiresAt: now + ttlMs });
+    this.sweep(now);
+    return value;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Synchronous `get`, for RateLimiter's sync `getStatus()` on this store.
+   */
+  getSync(key: string): string | null {
+    return this.read(key, Date.now());
+  }
+
+  /**
+   * Synchronous `delete`, for RateLimiter's sync `reset()` on this store.
+   */
+  deleteSync(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove all state.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of tracked keys (including expired ones not yet swept).
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private read(key: string, now: number): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweep) return;
+    this.nextSweep = now + 60_000;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * The subset of a Redis client RedisRateLimitStore needs.
+ *
+ * Matches `@upstash/redis` created with `automaticDeserialization: false`
+ * (state must come back as the stored string). For ioredis, adapt `eval`:
+ *
+ * ```typescript
+ * const client: RedisClientLike = {
+ *   get: (key) => redis.get(key),
+ *   del: (key) => redis.del(key),
+ *   eval: (script, keys, args) => redis.eval(script, keys.length, ...keys, ...args),
+ * };
+ * ```
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<unknown>;
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+/**
+ * Options for RedisRateLimitStore.
+ */
+export interface RedisRateLimitStoreOptions {
+  /** Redis client */
+  client: RedisClientLike;
+  /** Prefix for every key (default: 'schemock:ratelimit:') */
+  prefix?: string;
+  /** Attempts before giving up on a key that keeps changing (default: 20) */
+  maxAttempts?: number;
+}
+
+/**
+ * Set KEYS[1] to ARGV[2] with a TTL of ARGV[3] ms, only if it still holds
+ * ARGV[1] ('' meaning missing). Returns 1 when written, 0 on conflict.
+ */
+const REDIS_COMPARE_AND_SET = `local current = redis.call('GET', KEYS[1])
+if (current or '') ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1`;
+
+/**
+ * Rate limit store shared through Redis, so limits hold across serverless
+ * invocations and server instances.
+ *
+ * Updates are optimistic: read the state, compute the next one, and write it
+ * with a compare-and-set script, retrying when another request changed the
+ * key in between.
+ *
+ * @example
+ * ```typescript
+ * import { Redis } from '@upstash/redis';
+ *
+ * const limiter = new RateLimiter({
+ *   store: new RedisRateLimitStore({ client: Redis.fromEnv({ automaticDeserialization: false }) }),
+ * });
+ * ```
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisClientLike;
+  private prefix: string;
+  private maxAttempts: number;
+
+  constructor(options: RedisRateLimitStoreOptions) {
+    this.client = options.client;
+    this.prefix = options.prefix ?? 'schemock:ratelimit:';
+    this.maxAttempts = options.maxAttempts ?? 20;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key);
+  }
+
+  async update<T>(key: string, fn: (current: string | null) => RateLimitStateUpdate<T>): Promise<T> {
+    const fullKey = this.prefix + key;
+
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const current = await this.client.get(fullKey);
+      const { next, ttlMs, value } = fn(current);
+      if (next === current) return value;
+
+      const written = await this.client.eval(REDIS_COMPARE_AND_SET, [fullKey], [
+        current ?? '',
+        next,
+        String(Math.max(1, Math.ceil(ttlMs))),
+      ]);
+      if (Number(written) === 1) return value;
+    }
+
+    throw new Error(`Rate limit state for "${key}" changed on every attempt (${this.maxAttempts} tries)`);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
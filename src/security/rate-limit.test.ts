@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RateLimiter,
+  resolveRateLimit,
+  rateLimitHeaders,
+  createRateLimitCheck,
+  createRateLimitMiddleware,
+  type RateLimitPolicy,
+} from './rate-limit';
+import { MemoryRateLimitStore, RedisRateLimitStore, type RedisClientLike } from './rate-limit-store';
+import type { RateLimitAlgorithm, RateLimitConfig } from './types';
+
+const START = new Date('2024-01-01T00:00:00.000Z').getTime();
+
+/**
+ * Local stand-in for Redis: GET, DEL and the compare-and-set script
+ * RedisRateLimitStore sends through EVAL.
+ */
+class FakeRedis implements RedisClientLike {
+  data = new Map<string, { value: string; expiresAt: number }>();
+  evalCalls = 0;
+  /** Runs before each EVAL, e.g. to simulate another writer */
+  beforeEval?: () => void;
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.data.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return entry.value;
+  }
+
+  async del(key: string): Promise<number> {
+    return this.data.delete(key) ? 1 : 0;
+  }
+
+  async eval(script: string, keys: string[], args: string[]): Promise<number> {
+    this.evalCalls++;
+    this.beforeEval?.();
+    expect(script).toContain("redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])");
+    const [expected, next, ttl] = args;
+    if (((await this.get(keys[0])) ?? '') !== expected) return 0;
+    this.data.set(keys[0], { value: next, expiresAt: Date.now() + Number(ttl) });
+    return 1;
+  }
+}
+
+async function hit(limiter: RateLimiter, config: RateLimitConfig, times: number): Promise<boolean[]> {
+  const allowed: boolean[] = [];
+  for (let i = 0; i < times; i++) {
+    allowed.push((await limiter.checkRateLimit('client', config)).allowed);
+  }
+  return allowed;
+}
+
+describe('RateLimiter algorithms', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fixed-window resets when the window that started with the first request ends', async () => {
+    const limiter = new RateLimiter();
+    const config: RateLimitConfig = { max: 2, windowMs: 1000 };
+
+    vi.setSystemTime(START + 300);
+    expect(await hit(limiter, config, 3)).toEqual([true, true, false]);
+    const denied = await limiter.checkRateLimit('client', config);
+    expect(denied.retryAfter).toBe(1);
+    expect(denied.resetTime).toBe(START + 1300);
+
+    vi.setSystemTime(START + 1300);
+    expect(await hit(limiter, config, 1)).toEqual([true]);
+  });
+
+  it('sliding-log frees a slot when the oldest request leaves the window', async () => {
+    const limiter = new RateLimiter();
+    const config: RateLimitConfig = { max: 2, windowMs: 1000, algorithm: 'sliding-log' };
+
+    await hit(limiter, config, 1);
+    vi.setSystemTime(START + 600);
+    expect(await hit(limiter, config, 2)).toEqual([true, false]);
+
+    vi.setSystemTime(START + 1000);
+    expect(await hit(limiter, config, 2)).toEqual([true, false]);
+  });
+
+  it('sliding-window weights the previous window by its overlap', async () => {
+    const limiter = new RateLimiter();
+    const config: RateLimitConfig = { max: 10, windowMs: 1000, algorithm: 'sliding-window' };
+
+    expect((await hit(limiter, config, 10)).every(Boolean)).toBe(true);
+
+    // A quarter into the next window, 75% of the previous 10 still count
+    vi.setSystemTime(START + 1250);
+    expect(await hit(limiter, config, 3)).toEqual([true, true, false]);
+    const denied = await limiter.checkRateLimit('client', config);
+    expect(denied.remaining).toBe(0);
+    expect(denied.retryAfter).toBe(1);
+
+    vi.setSystemTime(START + 1500);
+    expect(await hit(limiter, config, 1)).toEqual([true]);
+  });
+
+  it('token-bucket allows a burst, then refills evenly', async () => {
+    const limiter = new RateLimiter();
+    const config: RateLimitConfig = { max: 5, windowMs: 5000, algorithm: 'token-bucket' };
+
+    expect(await hit(limiter, config, 6)).toEqual([true, true, true, true, true, false]);
+    expect((await limiter.checkRateLimit('client', config)).retryAfter).toBe(1);
+
+    vi.setSystemTime(START + 2000);
+    expect(await hit(limiter, config, 3)).toEqual([true, true, false]);
+  });
+
+  it.each<RateLimitAlgorithm>(['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket'])(
+    '%s reports status without counting a request',
+    async (algorithm) => {
+      const limiter = new RateLimiter();
+      const config: RateLimitConfig = { max: 3, windowMs: 60000, algorithm, keyPrefix: 'api' };
+
+      expect(await limiter.getStatus('client', config)).toBeUndefined();
+      await limiter.checkRateLimit('client', config);
+
+      expect((await limiter.getStatus('client', config))?.remaining).toBe(2);
+      expect((await limiter.getStatus('client', config))?.remaining).toBe(2);
+
+      await limiter.reset('client', 'api');
+      expect(await limiter.getStatus('client', config)).toBeUndefined();
+    }
+  );
+
+  it('keeps getStatus, reset, resetAll and size synchronous on the memory store', async () => {
+    const limiter = new RateLimiter();
+    const config: RateLimitConfig = { max: 3, windowMs: 60000 };
+    await limiter.checkRateLimit('a', config);
+    await limiter.checkRateLimit('b', config);
+
+    expect(limiter.getStatus('a', config)?.remaining).toBe(2);
+    expect(limiter.size).toBe(2);
+
+    limiter.reset('a');
+    expect(limiter.getStatus('a', config)).toBeUndefined();
+    limiter.resetAll();
+    expect(limiter.size).toBe(0);
+    expect(() => limiter.destroy()).not.toThrow();
+  });
+
+  it('skips keys matched by skip', async () => {
+    const limiter = new RateLimiter();
+    const config: RateLimitConfig = { max: 1, windowMs: 1000, skip: (key) => key === 'client' };
+
+    expect(await hit(limiter, config, 3)).toEqual([true, true, true]);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('is shared between limiters and counts concurrent checks exactly', async () => {
+    const store = new MemoryRateLimitStore();
+    const a = new RateLimiter({ store });
+    const b = new RateLimiter({ store });
+    const config: RateLimitConfig = { max: 10, windowMs: 60000, algorithm: 'sliding-window' };
+
+    const results = await Promise.all(
+      Array.from({ length: 30 }, (_, i) => (i % 2 ? a : b).checkRateLimit('client', config))
+    );
+
+    expect(results.filter((r) => r.allowed)).toHaveLength(10);
+    expect(store.size).toBe(1);
+  });
+
+  it('drops state once its TTL passes', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    try {
+      const store = new MemoryRateLimitStore();
+      await store.update('k', () => ({ next: 'state', ttlMs: 1000, value: undefined }));
+
+      vi.setSystemTime(START + 1000);
+      expect(await store.get('k')).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  it('keeps limits in Redis under a prefix, shared across limiters', async () => {
+    const redis = new FakeRedis();
+    const config: RateLimitConfig = { max: 2, windowMs: 60000, algorithm: 'token-bucket' };
+
+    await new RateLimiter({ store: new RedisRateLimitStore({ client: redis }) }).checkRateLimit('client', config);
+    const second = new RateLimiter({ store: new RedisRateLimitStore({ client: redis }) });
+
+    expect(await hit(second, config, 2)).toEqual([true, false]);
+    expect([...redis.data.keys()]).toEqual(['schemock:ratelimit:client']);
+  });
+
+  it('retries when another writer changes the key', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore({ client: redis });
+    let interfere = true;
+    redis.beforeEval = () => {
+      if (!interfere) return;
+      interfere = false;
+      redis.data.set('schemock:ratelimit:k', { value: '"other"', expiresAt: Infinity });
+    };
+
+    const seen: Array<string | null> = [];
+    const value = await store.update('k', (current) => {
+      seen.push(current);
+      return { next: '"mine"', ttlMs: 1000, value: seen.length };
+    });
+
+    expect(seen).toEqual([null, '"other"']);
+    expect(value).toBe(2);
+    expect(await store.get('k')).toBe('"mine"');
+  });
+
+  it('gives up after maxAttempts conflicts', async () => {
+    const redis = new FakeRedis();
+    let n = 0;
+    redis.beforeEval = () => {
+      redis.data.set('p:k', { value: String(n++), expiresAt: Infinity });
+    };
+    const store = new RedisRateLimitStore({ client: redis, prefix: 'p:', maxAttempts: 3 });
+
+    await expect(store.update('k', () => ({ next: 'x', ttlMs: 1000, value: null }))).rejects.toThrow(
+      'Rate limit state for "k" changed on every attempt (3 tries)'
+    );
+    expect(redis.evalCalls).toBe(3);
+  });
+
+  it('skips the write when the state is unchanged, and deletes keys', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore({ client: redis });
+    await store.update('k', () => ({ next: 'same', ttlMs: 1000, value: null }));
+    await store.update('k', () => ({ next: 'same', ttlMs: 1000, value: null }));
+
+    expect(redis.evalCalls).toBe(1);
+    await store.delete('k');
+    expect(await store.get('k')).toBeNull();
+  });
+
+  it('returns promises from getStatus and reset, and cannot resetAll', async () => {
+    const limiter = new RateLimiter({ store: new RedisRateLimitStore({ client: new FakeRedis() }) });
+    const config: RateLimitConfig = { max: 3, windowMs: 60000 };
+    await limiter.checkRateLimit('client', config);
+
+    const status = limiter.getStatus('client', config);
+    expect(status).toBeInstanceOf(Promise);
+    expect((await status)?.remaining).toBe(2);
+    await limiter.reset('client');
+    expect(await limiter.getStatus('client', config)).toBeUndefined();
+    expect(() => limiter.resetAll()).toThrow('resetAll() is only supported with MemoryRateLimitStore');
+    expect(limiter.size).toBe(0);
+  });
+});
+
+describe('resolveRateLimit', () => {
+  const policy: RateLimitPolicy = {
+    max: 100,
+    windowMs: 60000,
+    keyPrefix: 'api',
+    routes: {
+      'POST /api/login': { max: 5, windowMs: 900000, algorithm: 'sliding-log' },
+      '/api/posts/:id/*': { max: 20 },
+    },
+    roles: { admin: { max: 1000 } },
+  };
+
+  it('uses the first matching route before the role', () => {
+    expect(resolveRateLimit(policy, { method: 'POST', path: '/api/login', role: 'admin' })).toEqual({
+      max: 5,
+      windowMs: 900000,
+      algorithm: 'sliding-log',
+      keyPrefix: 'api:route:POST /api/login',
+    });
+  });
+
+  it('matches params and wildcard segments, and only the given method', () => {
+    expect(resolveRateLimit(policy, { method: 'GET', path: '/api/posts/42/comments' }).max).toBe(20);
+    expect(resolveRateLimit(policy, { method: 'GET', path: '/api/login' }).max).toBe(100);
+  });
+
+  it('falls back to the role limit, then the default', () => {
+    expect(resolveRateLimit(policy, { path: '/api/users', role: 'admin' })).toMatchObject({
+      max: 1000,
+      windowMs: 60000,
+      keyPrefix: 'api:role:admin',
+    });
+    expect(resolveRateLimit(policy, { path: '/api/users', role: 'user' })).toEqual({
+      max: 100,
+      windowMs: 60000,
+      keyPrefix: 'api',
+    });
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sets RateLimit-* headers, and Retry-After when denied', () => {
+    expect(
+      rateLimitHeaders({ allowed: false, remaining: 0, limit: 5, resetTime: START + 30500, windowMs: 60000, retryAfter: 31 })
+    ).toEqual({
+      'RateLimit-Limit': '5',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '31',
+      'RateLimit-Policy': '5;w=60',
+      'Retry-After': '31',
+    });
+  });
+});
+
+describe('createRateLimitCheck', () => {
+  it('limits each route separately and returns headers', async () => {
+    const check = createRateLimitCheck({ max: 10, windowMs: 60000, routes: { 'POST /login': { max: 1 } } });
+
+    const first = await check('ip:1', { method: 'POST', path: '/login' });
+    const second = await check('ip:1', { method: 'POST', path: '/login' });
+    const other = await check('ip:1', { method: 'GET', path: '/posts' });
+
+    expect(first.headers['RateLimit-Remaining']).toBe('0');
+    expect(second.allowed).toBe(false);
+    expect(second.headers['Retry-After']).toBeDefined();
+    expect(other.allowed).toBe(true);
+    expect(other.headers['RateLimit-Limit']).toBe('10');
+  });
+});
+
+describe('createRateLimitMiddleware', () => {
+  it('applies role limits from the context', async () => {
+    const middleware = createRateLimitMiddleware(
+      { max: 1, windowMs: 60000, roles: { admin: { max: 3 } } },
+      (ctx) => ctx.userId as string,
+      { getRequest: (ctx) => ({ role: ctx.role as string }) }
+    );
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await middleware.before({ userId: 'u1', role: 'admin' }));
+    }
+
+    expect(results.map((r) => r?.continue ?? true)).toEqual([true, true, true, false]);
+    expect(results[3]?.response.meta.headers['RateLimit-Limit']).toBe('3');
+  });
+});
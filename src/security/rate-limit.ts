@@ -1,26 +1,213 @@
 /**
- * Rate Limiter - Sliding window rate limiting
+ * Rate Limiter - Fixed window, sliding log, sliding window and token bucket
+ * rate limiting over a pluggable store
  *
  * @module security/rate-limit
  * @category Security
  */
 
-import type { RateLimitConfig, RateLimitResult } from './types';
+import type { RateLimitAlgorithm, RateLimitConfig, RateLimitResult } from './types';
+import { MemoryRateLimitStore, type RateLimitStore } from './rate-limit-store';
 
 /**
- * Rate limit entry tracking requests in a window.
+ * Per-key state kept in the store, one shape per algorithm.
  */
-interface RateLimitEntry {
-  /** Request count in current window */
-  count: number;
-  /** Window start timestamp */
-  windowStart: number;
+type RateLimitState =
+  | { type: 'fixed-window'; start: number; count: number }
+  | { type: 'sliding-log'; hits: number[] }
+  | { type: 'sliding-window'; start: number; count: number; previous: number }
+  | { type: 'token-bucket'; tokens: number; updatedAt: number };
+
+/**
+ * Outcome of running an algorithm against the current state.
+ */
+interface AlgorithmStep {
+  state: RateLimitState;
+  result: RateLimitResult;
+  /** How long the state stays relevant */
+  ttlMs: number;
 }
 
 /**
- * RateLimiter class implementing sliding window rate limiting.
+ * An algorithm computes the decision and next state. `consume` is false when
+ * only reporting status; `allowed` then says whether a request would pass.
+ */
+type Algorithm = (state: RateLimitState | undefined, config: RateLimitConfig, now: number, consume: boolean) => AlgorithmStep;
+
+/**
+ * Whole seconds until a point in time, at least 1 (for Retry-After).
+ */
+function secondsUntil(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+/**
+ * Count requests in a window that starts with the first request.
+ */
+const fixedWindow: Algorithm = (state, { max, windowMs }, now, consume) => {
+  const current =
+    state?.type === 'fixed-window' && now - state.start < windowMs
+      ? { ...state }
+      : { type: 'fixed-window' as const, start: now, count: 0 };
+
+  const allowed = current.count < max;
+  if (allowed && consume) current.count++;
+
+  const resetTime = current.start + windowMs;
+  return {
+    state: current,
+    result: {
+      allowed,
+      remaining: max - current.count,
+      limit: max,
+      resetTime,
+      windowMs,
+      retryAfter: allowed ? undefined : secondsUntil(resetTime - now),
+    },
+    ttlMs: resetTime - now,
+  };
+};
+
+/**
+ * Keep a timestamp per request and count those inside the window.
+ */
+const slidingLog: Algorithm = (state, { max, windowMs }, now, consume) => {
+  const hits = state?.type === 'sliding-log' ? state.hits.filter((t) => t > now - windowMs) : [];
+
+  const allowed = hits.length < max;
+  if (allowed && consume) hits.push(now);
+
+  // The oldest hit leaving the window frees the next slot
+  const resetTime = (hits[0] ?? now) + windowMs;
+  const newest = hits[hits.length - 1] ?? now;
+  return {
+    state: { type: 'sliding-log', hits },
+    result: {
+      allowed,
+      remaining: max - hits.length,
+      limit: max,
+      resetTime,
+      windowMs,
+      retryAfter: allowed ? undefined : secondsUntil(resetTime - now),
+    },
+    ttlMs: newest + windowMs - now,
+  };
+};
+
+/**
+ * Count requests per aligned window and add the previous window's count,
+ * weighted by how much of it still overlaps the sliding window.
+ */
+const slidingWindow: Algorithm = (state, { max, windowMs }, now, consume) => {
+  const start = Math.floor(now / windowMs) * windowMs;
+  let count = 0;
+  let previous = 0;
+  if (state?.type === 'sliding-window') {
+    if (state.start === start) {
+      count = state.count;
+      previous = state.previous;
+    } else if (state.start === start - windowMs) {
+      previous = state.count;
+    }
+  }
+
+  const weight = 1 - (now - start) / windowMs;
+  const allowed = previous * weight + count + 1 <= max;
+  if (allowed && consume) count++;
+
+  const resetTime = start + windowMs;
+  let retryAfter: number | undefined;
+  if (!allowed) {
+    // Wait until the weighted count leaves room for one more request
+    const waitMs =
+      count + 1 > max
+        ? resetTime - now + windowMs * (1 - (max - 1) / count)
+        : start + windowMs * (1 - (max - 1 - count) / previous) - now;
+    retryAfter = secondsUntil(waitMs);
+  }
+
+  return {
+    state: { type: 'sliding-window', start, count, previous },
+    result: {
+      allowed,
+      remaining: Math.max(0, Math.floor(max - previous * weight - count)),
+      limit: max,
+      resetTime,
+      windowMs,
+      retryAfter,
+    },
+    // This window's count is the next window's previous
+    ttlMs: start + 2 * windowMs - now,
+  };
+};
+
+/**
+ * Hold up to `max` tokens, refilled evenly over `windowMs`; each request
+ * takes one.
+ */
+const tokenBucket: Algorithm = (state, { max, windowMs }, now, consume) => {
+  const rate = max / windowMs;
+  let tokens = state?.type === 'token-bucket' ? Math.min(max, state.tokens + (now - state.updatedAt) * rate) : max;
+
+  const allowed = tokens >= 1;
+  if (allowed && consume) tokens -= 1;
+
+  const untilFull = (max - tokens) / rate;
+  return {
+    state: { type: 'token-bucket', tokens, updatedAt: now },
+    result: {
+      allowed,
+      remaining: Math.floor(tokens),
+      limit: max,
+      resetTime: Math.ceil(now + untilFull),
+      windowMs,
+      retryAfter: allowed ? undefined : secondsUntil((1 - tokens) / rate),
+    },
+    // A full bucket is the same as no state
+    ttlMs: Math.max(1, untilFull),
+  };
+};
+
+const ALGORITHMS: Record<RateLimitAlgorithm, Algorithm> = {
+  'fixed-window': fixedWindow,
+  'sliding-log': slidingLog,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+};
+
+/**
+ * Parse stored state; unreadable state counts as none.
+ */
+function parseState(raw: string | null): RateLimitState | undefined {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as RateLimitState;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * RateLimiter options.
+ */
+export interface RateLimiterOptions<S extends RateLimitStore = RateLimitStore> {
+  /** Where per-key state is kept (default: a new MemoryRateLimitStore) */
+  store?: S;
+}
+
+/**
+ * Return type of `reset()` and `getStatus()`: synchronous on the in-memory
+ * store, as before stores were pluggable, and a Promise on any other store.
+ */
+export type RateLimitStoreResult<S extends RateLimitStore, T> = S extends MemoryRateLimitStore ? T : Promise<T>;
+
+/**
+ * RateLimiter class applying a rate limit algorithm per key.
  *
- * Tracks request counts per key within configurable time windows.
+ * State lives in a RateLimitStore: in memory by default, or shared (e.g.
+ * RedisRateLimitStore) so limits hold across instances and cold starts.
+ * `reset()` and `getStatus()` stay synchronous on the in-memory store and
+ * return Promises on other stores; awaiting them works with both.
  *
  * @example
  * ```typescript
@@ -29,6 +216,7 @@ interface RateLimitEntry {
  * const result = await limiter.checkRateLimit('user:123', {
  *   max: 100,
  *   windowMs: 60000, // 1 minute
+ *   algorithm: 'sliding-window',
  * });
  *
  * if (!result.allowed) {
@@ -36,23 +224,16 @@ interface RateLimitEntry {
  * }
  * ```
  */
-export class RateLimiter {
-  /** Rate limit entries by key */
-  private limits = new Map<string, RateLimitEntry>();
-
-  /** Cleanup interval ID */
-  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
+export class RateLimiter<S extends RateLimitStore = MemoryRateLimitStore> {
+  /** State store */
+  private store: RateLimitStore;
 
-  /** Default cleanup interval (5 minutes) */
-  private readonly cleanupIntervalMs = 5 * 60 * 1000;
-
-  constructor() {
-    // Start periodic cleanup of expired entries
-    this.startCleanup();
+  constructor(options: RateLimiterOptions<S> = {}) {
+    this.store = options.store ?? new MemoryRateLimitStore();
   }
 
   /**
-   * Check rate limit for a key.
+   * Check rate limit for a key, counting the request if it is allowed.
    *
    * @param key - Unique identifier (e.g., user ID, IP address)
    * @param config - Rate limit configuration
@@ -67,65 +248,26 @@ export class RateLimiter {
    * ```
    */
   async checkRateLimit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
-    const now = Date.now();
     const { max, windowMs, keyPrefix, skip } = config;
 
-    // Apply key prefix if provided
-    const fullKey = keyPrefix ? `${keyPrefix}:${key}` : key;
-
     // Check skip function
     if (skip && skip(key)) {
       return {
         allowed: true,
         remaining: max,
         limit: max,
-        resetTime: now + windowMs,
-      };
-    }
-
-    // Get or create entry
-    let entry = this.limits.get(fullKey);
-
-    // Check if window has expired
-    if (!entry || now - entry.windowStart >= windowMs) {
-      // New window
-      entry = {
-        count: 1,
-        windowStart: now,
-      };
-      this.limits.set(fullKey, entry);
-
-      return {
-        allowed: true,
-        remaining: max - 1,
-        limit: max,
-        resetTime: now + windowMs,
-      };
-    }
-
-    // Check if limit exceeded
-    if (entry.count >= max) {
-      const resetTime = entry.windowStart + windowMs;
-      const retryAfter = Math.ceil((resetTime - now) / 1000);
-
-      return {
-        allowed: false,
-        remaining: 0,
-        retryAfter,
-        limit: max,
-        resetTime,
+        resetTime: Date.now() + windowMs,
+        windowMs,
       };
     }
 
-    // Increment count
-    entry.count++;
+    const algorithm = ALGORITHMS[config.algorithm ?? 'fixed-window'];
+    const fullKey = keyPrefix ? `${keyPrefix}:${key}` : key;
 
-    return {
-      allowed: true,
-      remaining: max - entry.count,
-      limit: max,
-      resetTime: entry.windowStart + windowMs,
-    };
+    return this.store.update(fullKey, (current) => {
+      const step = algorithm(parseState(current), config, Date.now(), true);
+      return { next: JSON.stringify(step.state), ttlMs: step.ttlMs, value: step.result };
+    });
   }
 
   /**
@@ -139,123 +281,272 @@ export class RateLimiter {
    * limiter.reset('user:123');
    * ```
    */
-  reset(key: string, keyPrefix?: string): void {
+  reset(key: string, keyPrefix?: string): RateLimitStoreResult<S, void> {
     const fullKey = keyPrefix ? `${keyPrefix}:${key}` : key;
-    this.limits.delete(fullKey);
+    if (this.store instanceof MemoryRateLimitStore) {
+      return this.store.deleteSync(fullKey) as RateLimitStoreResult<S, void>;
+    }
+    return this.store.delete(fullKey) as RateLimitStoreResult<S, void>;
   }
 
   /**
-   * Reset all rate limits.
+   * Reset all rate limits. Only the in-memory store can list its keys.
+   *
+   * @throws Error when the limiter uses another store
    */
   resetAll(): void {
-    this.limits.clear();
+    if (!(this.store instanceof MemoryRateLimitStore)) {
+      throw new Error('resetAll() is only supported with MemoryRateLimitStore');
+    }
+    this.store.clear();
   }
 
   /**
-   * Get current status for a key.
+   * Get current status for a key without counting a request.
    *
    * @param key - Key to check
    * @param config - Rate limit config for remaining calculation
    * @returns Current limit status or undefined if no entry
    */
-  getStatus(key: string, config: RateLimitConfig): RateLimitResult | undefined {
+  getStatus(key: string, config: RateLimitConfig): RateLimitStoreResult<S, RateLimitResult | undefined> {
     const fullKey = config.keyPrefix ? `${config.keyPrefix}:${key}` : key;
-    const entry = this.limits.get(fullKey);
-
-    if (!entry) {
-      return undefined;
-    }
+    const status = (raw: string | null): RateLimitResult | undefined => {
+      const state = parseState(raw);
+      if (!state) {
+        return undefined;
+      }
 
-    const now = Date.now();
-    const { max, windowMs } = config;
+      const algorithm = ALGORITHMS[config.algorithm ?? 'fixed-window'];
+      return algorithm(state, config, Date.now(), false).result;
+    };
 
-    // Check if window expired
-    if (now - entry.windowStart >= windowMs) {
-      return undefined;
+    if (this.store instanceof MemoryRateLimitStore) {
+      return status(this.store.getSync(fullKey)) as RateLimitStoreResult<S, RateLimitResult | undefined>;
     }
-
-    return {
-      allowed: entry.count < max,
-      remaining: Math.max(0, max - entry.count),
-      limit: max,
-      resetTime: entry.windowStart + windowMs,
-      retryAfter: entry.count >= max ? Math.ceil((entry.windowStart + windowMs - now) / 1000) : undefined,
-    };
+    return this.store.get(fullKey).then(status) as RateLimitStoreResult<S, RateLimitResult | undefined>;
   }
 
   /**
-   * Start periodic cleanup of expired entries.
+   * Stop the cleanup interval.
+   *
+   * @deprecated Expired state is now swept by the store, so there is no
+   * interval to stop. Kept so existing shutdown code keeps working.
    */
-  private startCleanup(): void {
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup();
-    }, this.cleanupIntervalMs);
-
-    // Don't prevent process exit
-    if (this.cleanupInterval.unref) {
-      this.cleanupInterval.unref();
-    }
+  destroy(): void {
+    // Nothing to stop
   }
 
   /**
-   * Clean up expired entries.
+   * Get the number of tracked keys (0 unless the in-memory store is used).
    */
-  private cleanup(): void {
-    const now = Date.now();
-    const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-
-    for (const [key, entry] of this.limits.entries()) {
-      if (now - entry.windowStart > maxAge) {
-        this.limits.delete(key);
-      }
-    }
+  get size(): number {
+    return this.store instanceof MemoryRateLimitStore ? this.store.size : 0;
   }
+}
+
+/**
+ * A limit overriding the policy default for a route or role.
+ */
+export interface RateLimitRule {
+  /** Maximum requests per window */
+  max: number;
+  /** Window in milliseconds (default: the policy's windowMs) */
+  windowMs?: number;
+  /** Algorithm (default: the policy's algorithm) */
+  algorithm?: RateLimitAlgorithm;
+}
 
+/**
+ * Rate limit configuration with per-route and per-role limits.
+ *
+ * The first matching route wins, then the caller's role, then the defaults.
+ * Each route and role counts separately from the default limit.
+ */
+export interface RateLimitPolicy extends RateLimitConfig {
   /**
-   * Stop the cleanup interval.
+   * Limits by route: `'POST /api/login'`, `'/api/search'`, `'/api/users/:id'`
+   * or `'/api/admin/*'`. Without a method, any method matches.
    */
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
+  routes?: Record<string, RateLimitRule>;
+  /** Limits by role, e.g. `{ admin: { max: 1000 } }` */
+  roles?: Record<string, RateLimitRule>;
+}
+
+/**
+ * What a policy needs to know about a request to pick its limit.
+ */
+export interface RateLimitRequest {
+  /** HTTP method */
+  method?: string;
+  /** URL path */
+  path?: string;
+  /** Caller's role */
+  role?: string;
+}
+
+/**
+ * Check whether a route pattern matches a request.
+ */
+function matchesRoute(pattern: string, method: string | undefined, path: string): boolean {
+  const parts = pattern.trim().split(/\s+/);
+  const routePath = parts.length > 1 ? parts[1] : parts[0];
+  if (parts.length > 1 && parts[0].toUpperCase() !== method?.toUpperCase()) {
+    return false;
+  }
+
+  const source = routePath
+    .split('/')
+    .map((segment) => {
+      if (segment === '*') return '.*';
+      if (segment.startsWith(':')) return '[^/]+';
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return new RegExp(`^${source}/?$`).test(path);
+}
+
+/**
+ * Pick the limit that applies to a request.
+ *
+ * @param policy - Default limit with route and role overrides
+ * @param request - Request method, path and caller role
+ * @returns Config for RateLimiter, with a key prefix per route or role
+ *
+ * @example
+ * ```typescript
+ * const config = resolveRateLimit(policy, { method: 'POST', path: '/api/login', role: 'user' });
+ * await limiter.checkRateLimit(ip, config);
+ * ```
+ */
+export function resolveRateLimit(policy: RateLimitPolicy, request: RateLimitRequest = {}): RateLimitConfig {
+  const { routes, roles, ...defaults } = policy;
+  let rule: RateLimitRule | undefined;
+  let scope: string | undefined;
+
+  if (routes && request.path) {
+    const pattern = Object.keys(routes).find((p) => matchesRoute(p, request.method, request.path!));
+    if (pattern) {
+      rule = routes[pattern];
+      scope = `route:${pattern}`;
     }
-    this.limits.clear();
+  }
+  if (!rule && roles && request.role && roles[request.role]) {
+    rule = roles[request.role];
+    scope = `role:${request.role}`;
+  }
+  if (!rule) {
+    return defaults;
   }
 
-  /**
-   * Get the number of tracked keys.
-   */
-  get size(): number {
-    return this.limits.size;
+  return {
+    ...defaults,
+    max: rule.max,
+    windowMs: rule.windowMs ?? defaults.windowMs,
+    algorithm: rule.algorithm ?? defaults.algorithm,
+    keyPrefix: [defaults.keyPrefix, scope].filter(Boolean).join(':'),
+  };
+}
+
+/**
+ * Standard rate limit response headers (IETF RateLimit header fields draft):
+ * `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` (seconds),
+ * `RateLimit-Policy`, plus `Retry-After` when the request is denied.
+ *
+ * @param result - Rate limit result
+ * @returns Header names and values
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(Math.max(0, result.remaining)),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000))),
+  };
+  if (result.windowMs !== undefined) {
+    headers['RateLimit-Policy'] = `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`;
   }
+  if (!result.allowed && result.retryAfter !== undefined) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+  return headers;
+}
+
+/**
+ * Rate limit result with the response headers to send.
+ */
+export interface RateLimitCheck extends RateLimitResult {
+  /** Standard RateLimit-* headers (see rateLimitHeaders) */
+  headers: Record<string, string>;
+}
+
+/**
+ * Create a function that checks requests against a policy.
+ *
+ * This is what generated server middleware calls.
+ *
+ * @param policy - Default limit with route and role overrides
+ * @param options - Limiter options (store)
+ * @returns Check function taking the client key and request details
+ *
+ * @example
+ * ```typescript
+ * const checkRateLimit = createRateLimitCheck(
+ *   { max: 100, windowMs: 60000, algorithm: 'sliding-window', routes: { 'POST /api/login': { max: 5 } } },
+ *   { store: new RedisRateLimitStore({ client: redis }) }
+ * );
+ *
+ * const check = await checkRateLimit(`ip:${ip}`, { method: req.method, path: url.pathname });
+ * if (!check.allowed) return new Response('Too many requests', { status: 429, headers: check.headers });
+ * ```
+ */
+export function createRateLimitCheck(
+  policy: RateLimitPolicy,
+  options: RateLimiterOptions = {}
+): (key: string, request?: RateLimitRequest) => Promise<RateLimitCheck> {
+  const limiter = new RateLimiter(options);
+
+  return async (key, request = {}) => {
+    const result = await limiter.checkRateLimit(key, resolveRateLimit(policy, request));
+    return { ...result, headers: rateLimitHeaders(result) };
+  };
+}
+
+/**
+ * Options for the rate limit middleware.
+ */
+export interface RateLimitMiddlewareOptions extends RateLimiterOptions {
+  /** Extract method, path and role from the context for route and role limits */
+  getRequest?: (ctx: Record<string, unknown>) => RateLimitRequest;
 }
 
 /**
  * Create a rate limiter middleware.
  *
- * @param config - Rate limit configuration
+ * @param config - Rate limit configuration, optionally with route and role limits
  * @param getKey - Function to extract rate limit key from context
+ * @param options - Store and request extraction
  * @returns Middleware
  *
  * @example
  * ```typescript
  * const rateLimitMiddleware = createRateLimitMiddleware(
- *   { max: 100, windowMs: 60000 },
- *   (ctx) => ctx.userId || ctx.ip
+ *   { max: 100, windowMs: 60000, roles: { admin: { max: 1000 } } },
+ *   (ctx) => ctx.userId || ctx.ip,
+ *   { getRequest: (ctx) => ({ role: ctx.role as string | undefined }) }
  * );
  * ```
  */
 export function createRateLimitMiddleware(
-  config: RateLimitConfig,
-  getKey: (ctx: Record<string, unknown>) => string
+  config: RateLimitPolicy,
+  getKey: (ctx: Record<string, unknown>) => string,
+  options: RateLimitMiddlewareOptions = {}
 ) {
-  const limiter = new RateLimiter();
+  const check = createRateLimitCheck(config, options);
 
   return {
     name: 'rate-limit',
     before: async (ctx: Record<string, unknown>) => {
       const key = getKey(ctx);
-      const result = await limiter.checkRateLimit(key, config);
+      const result = await check(key, options.getRequest?.(ctx));
 
       if (!result.allowed) {
         return {
@@ -268,6 +559,7 @@ export function createRateLimitMiddleware(
               retryAfter: result.retryAfter,
               limit: result.limit,
               remaining: result.remaining,
+              headers: result.headers,
             },
           },
         };
@@ -280,6 +572,7 @@ export function createRateLimitMiddleware(
           limit: result.limit,
           remaining: result.remaining,
           resetTime: result.resetTime,
+          headers: result.headers,
         },
       };
     },
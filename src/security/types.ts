@@ -72,10 +72,12 @@ export interface AuditAdapter {
  * Rate limit configuration.
  */
 export interface RateLimitConfig {
-  /** Maximum requests allowed in the window */
+  /** Maximum requests allowed in the window (bucket capacity for token-bucket) */
   max: number;
   /** Time window in milliseconds */
   windowMs: number;
+  /** Counting algorithm (default: 'fixed-window') */
+  algorithm?: RateLimitAlgorithm;
   /** Optional: key prefix for namespacing */
   keyPrefix?: string;
   /** Optional: skip rate limiting for certain conditions */
@@ -96,8 +98,23 @@ export interface RateLimitResult {
   limit: number;
   /** Time when the window resets */
   resetTime: number;
+  /** Window the limit applies to, in milliseconds */
+  windowMs?: number;
 }
 
+/**
+ * Rate limiting algorithm.
+ *
+ * - `fixed-window`: counts requests per window starting at the first request;
+ *   cheap, but allows up to 2x `max` across a window boundary
+ * - `sliding-log`: keeps a timestamp per request; exact, memory grows with `max`
+ * - `sliding-window`: weights the previous window's count by how much of it
+ *   still overlaps; close to exact with constant memory
+ * - `token-bucket`: holds up to `max` tokens refilled evenly over `windowMs`;
+ *   allows bursts while enforcing the average rate
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-log' | 'sliding-window' | 'token-bucket';
+
 /**
  * Action types for authorization.
  */
@@ -142,6 +159,20 @@ export interface AuditEvent {
     before?: Record<string, unknown>;
     after?: Record<string, unknown>;
   };
+  /** Fields whose value differs between `changes.before` and `changes.after` */
+  diff?: AuditFieldChange[];
+}
+
+/**
+ * A single field change recorded on an audit event.
+ */
+export interface AuditFieldChange {
+  /** Field name */
+  field: string;
+  /** Value before the write (undefined when the field was added) */
+  before?: unknown;
+  /** Value after the write (undefined when the field was removed) */
+  after?: unknown;
 }
 
 /**
@@ -171,6 +202,22 @@ export interface AuditFilter {
   orderDir?: 'asc' | 'desc';
 }
 
+/**
+ * One page of audit events with the total matching the filter.
+ */
+export interface AuditPage {
+  /** Events on this page */
+  events: AuditEvent[];
+  /** Number of events matching the filter, across all pages */
+  total: number;
+  /** Page size used */
+  limit: number;
+  /** Offset of the first event on this page */
+  offset: number;
+  /** Whether more events follow this page */
+  hasMore: boolean;
+}
+
 /**
  * Row-level security policy.
  */
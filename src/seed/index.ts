@@ -1,12 +1,13 @@
 /**
- * Seed utilities for cross-entity references in production seeding
+ * Seed utilities: cross-entity references for production seeding and
+ * declarative scenarios for named test datasets
  *
  * @module seed
  * @category Seed
  *
  * @example
  * ```typescript
- * import { ref, lookup } from 'schemock/seed';
+ * import { ref, lookup, defineScenario, weighted } from 'schemock/seed';
  *
  * export const seedConfig = {
  *   secret: 'my-secret',
@@ -22,6 +23,11 @@
  *     ],
  *   },
  * };
+ *
+ * export const overdue = defineScenario('overdue-invoices', (s) => {
+ *   const users = s.create('user', 5);
+ *   users.each('invoices', [5, 10], { status: weighted({ overdue: 8, paid: 2 }) });
+ * });
  * ```
  */
 
@@ -34,3 +40,24 @@ export {
   type SeedLookup,
   type SeedReference,
 } from './ref';
+
+export {
+  defineScenario,
+  weighted,
+  buildScenario,
+  isSeedScenario,
+  ScenarioError,
+  SCENARIO_BRAND,
+  type SeedScenario,
+  type ScenarioOptions,
+  type ScenarioBuilder,
+  type ScenarioGroup,
+  type ScenarioStep,
+  type ScenarioCount,
+  type ScenarioValue,
+  type ScenarioValues,
+  type ScenarioValueContext,
+  type WeightedValue,
+  type ScenarioDataset,
+  type BuildScenarioOptions,
+} from './scenario';
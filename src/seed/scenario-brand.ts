@@ -0,0 +1,26 @@
+/**
+ * Scenario brand and type guard
+ *
+ * Kept apart from `./scenario`, which loads faker, so schema discovery can
+ * recognise exported scenarios in projects that do not install faker.
+ *
+ * @module seed/scenario-brand
+ * @category Seed
+ */
+
+import type { SeedScenario } from './scenario';
+
+/**
+ * Brand used to identify scenario objects at runtime.
+ */
+export const SCENARIO_BRAND = '__schemock_scenario__' as const;
+
+/**
+ * Check whether a value is a scenario created with `defineScenario()`.
+ *
+ * @param value - The value to check
+ * @returns `true` for scenarios
+ */
+export function isSeedScenario(value: unknown): value is SeedScenario {
+  return typeof value === 'object' && value !== null && (value as Record<string, unknown>)[SCENARIO_BRAND] === true;
+}
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for declarative seed scenarios
+ */
+import { describe, it, expect } from 'vitest';
+import { defineScenario, weighted, buildScenario, isSeedScenario, ScenarioError } from './scenario';
+import { defineData, field, hasMany, hasOne, belongsTo } from '../schema';
+
+const Org = defineData('org', {
+  id: field.uuid(),
+  name: field.string(),
+  plan: field.enum(['free', 'enterprise']).default('free'),
+});
+
+const Member = defineData('member', {
+  id: field.uuid(),
+  email: field.email(),
+  role: field.enum(['admin', 'member']).default('member'),
+  status: field.enum(['active', 'suspended']).default('active'),
+  orgId: field.ref('org'),
+  invoices: hasMany('invoice', { foreignKey: 'memberId' }),
+  profile: hasOne('profile', { foreignKey: 'memberId' }),
+});
+
+const Invoice = defineData('invoice', {
+  id: field.uuid(),
+  total: field.number({ min: 1, max: 500 }),
+  dueDate: field.date(),
+  memberId: field.uuid(),
+  member: belongsTo('member', { foreignKey: 'memberId' }),
+  reviewerId: field.ref('member').nullable(),
+});
+
+const Profile = defineData('profile', {
+  id: field.uuid(),
+  bio: field.string(),
+  memberId: field.ref('member'),
+});
+
+const schemas = [Org, Member, Invoice, Profile];
+
+const busyOrg = defineScenario('busy-org', (s) => {
+  const org = s.create('org', 1, { plan: 'enterprise' });
+  s.create('member', 3, { orgId: org, role: 'admin' });
+  const members = s.create('member', 10, { orgId: org, status: weighted({ active: 9, suspended: 1 }) });
+  members.each('invoices', [2, 5], { dueDate: ({ index }) => new Date(Date.UTC(2024, 0, index + 1)) });
+}, { description: 'Org with admins and invoices', seed: 42 });
+
+describe('defineScenario', () => {
+  it('records the steps and options', () => {
+    expect(isSeedScenario(busyOrg)).toBe(true);
+    expect(isSeedScenario({ name: 'busy-org' })).toBe(false);
+    expect(busyOrg.name).toBe('busy-org');
+    expect(busyOrg.description).toBe('Org with admins and invoices');
+    expect(busyOrg.steps.map((step) => step.group.entity)).toEqual(['org', 'member', 'member', 'member.invoices']);
+  });
+});
+
+describe('buildScenario', () => {
+  it('creates the declared records with field values', () => {
+    const data = buildScenario(busyOrg, schemas);
+
+    expect(data.org).toHaveLength(1);
+    expect(data.org[0].plan).toBe('enterprise');
+    expect(data.member).toHaveLength(13);
+    expect(data.member.slice(0, 3).every((member) => member.role === 'admin')).toBe(true);
+    expect(data.member.every((member) => member.orgId === data.org[0].id)).toBe(true);
+    expect(data.member.every((member) => ['active', 'suspended'].includes(member.status as string))).toBe(true);
+  });
+
+  it('creates children per parent within the cardinality range', () => {
+    const data = buildScenario(busyOrg, schemas);
+    const members = data.member.slice(3);
+
+    for (const member of members) {
+      const invoices = data.invoice.filter((invoice) => invoice.memberId === member.id);
+      expect(invoices.length).toBeGreaterThanOrEqual(2);
+      expect(invoices.length).toBeLessThanOrEqual(5);
+      expect(invoices[0].dueDate).toEqual(new Date(Date.UTC(2024, 0, 1)));
+    }
+    expect(data.invoice.every((invoice) => invoice.reviewerId === null)).toBe(true);
+  });
+
+  it('is deterministic for a seed', () => {
+    expect(buildScenario(busyOrg, schemas)).toEqual(buildScenario(busyOrg, schemas));
+
+    const unseeded = defineScenario('unseeded', (s) => {
+      s.create('org', 2);
+    });
+    expect(buildScenario(unseeded, schemas, { seed: 1 })).toEqual(buildScenario(unseeded, schemas, { seed: 1 }));
+    expect(buildScenario(unseeded, schemas, { seed: 1 })).not.toEqual(buildScenario(unseeded, schemas, { seed: 2 }));
+  });
+
+  it('follows weighted distributions', () => {
+    const scenario = defineScenario('weighted', (s) => {
+      const org = s.create('org');
+      s.create('member', 200, { orgId: org, status: weighted({ active: 3, suspended: 1 }) });
+    });
+    const suspended = buildScenario(scenario, schemas).member.filter((member) => member.status === 'suspended');
+
+    expect(suspended.length).toBeGreaterThan(25);
+    expect(suspended.length).toBeLessThan(75);
+  });
+
+  it('assigns group ids round-robin and picks existing targets for required refs', () => {
+    const scenario = defineScenario('orgs', (s) => {
+      const orgs = s.create('org', 2);
+      s.create('member', 4, { orgId: orgs });
+      s.create('profile', 3);
+    });
+    const data = buildScenario(scenario, schemas);
+
+    expect(data.member.map((member) => member.orgId)).toEqual([data.org[0].id, data.org[1].id, data.org[0].id, data.org[1].id]);
+    const memberIds = data.member.map((member) => member.id);
+    expect(data.profile.every((profile) => memberIds.includes(profile.memberId))).toBe(true);
+  });
+
+  it('uses factories and passes the parent to function values', () => {
+    const scenario = defineScenario('profiles', (s) => {
+      const org = s.create('org');
+      s.create('member', 2, { orgId: org }).each('profile', 3, { bio: ({ parent }) => `bio of ${parent?.email}` });
+    });
+    const data = buildScenario(scenario, schemas, { factories: { member: () => ({ email: 'fixed@example.com' }) } });
+
+    expect(data.member.map((member) => member.email)).toEqual(['fixed@example.com', 'fixed@example.com']);
+    expect(data.profile).toHaveLength(2);
+    expect(data.profile[0].bio).toBe('bio of fixed@example.com');
+  });
+
+  it('rejects scenarios that do not fit the schemas', () => {
+    const cases = [
+      [defineScenario('a', (s) => { s.create('team'); }), 'unknown entity "team"'],
+      [defineScenario('b', (s) => { s.create('org', 1, { color: 'red' }); }), 'org has no field "color"'],
+      [defineScenario('c', (s) => { s.create('org', 1, { plan: 'gold' }); }), '"gold" is not a valid org.plan; expected one of free, enterprise'],
+      [defineScenario('d', (s) => { s.create('member'); }), 'member.orgId needs an existing org'],
+      [defineScenario('e', (s) => { s.create('org').each('members'); }), 'org has no relation "members"'],
+      [defineScenario('f', (s) => { s.create('invoice', 1, { status: weighted({ late: 1 }) }); }), 'invoice has no field "status"'],
+    ] as const;
+
+    for (const [scenario, message] of cases) {
+      expect(() => buildScenario(scenario, schemas)).toThrow(ScenarioError);
+      expect(() => buildScenario(scenario, schemas)).toThrow(message);
+    }
+  });
+});
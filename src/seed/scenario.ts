@@ -0,0 +1,468 @@
+/**
+ * Declarative seed scenarios
+ *
+ * A scenario describes a named dataset ("org with 3 admins and 50 overdue
+ * invoices") in terms of entities, relation cardinality and field values.
+ * `buildScenario()` turns it into rows with consistent foreign keys; the
+ * same scenario and seed always produce the same rows.
+ *
+ * @module seed/scenario
+ * @category Seed
+ */
+
+import { faker, type Faker } from '@faker-js/faker';
+import { exampleCreateInput } from '../generator/examples';
+import type { EntitySchema, FieldDefinition } from '../schema/types';
+import { SCENARIO_BRAND } from './scenario-brand';
+
+export { SCENARIO_BRAND, isSeedScenario } from './scenario-brand';
+
+/**
+ * Brand used to identify weighted value markers at runtime.
+ */
+const WEIGHTED_BRAND = '__schemock_weighted__' as const;
+
+/**
+ * Record count: exact, or an inclusive `[min, max]` range
+ */
+export type ScenarioCount = number | readonly [number, number];
+
+/**
+ * Context passed to function values
+ */
+export interface ScenarioValueContext {
+  /** Zero-based index of the record within its group (per parent for `each`) */
+  index: number;
+  /** Seeded faker instance */
+  faker: Faker;
+  /** Parent record, for groups created with `each` */
+  parent?: Record<string, unknown>;
+}
+
+/**
+ * Weighted choice between values, created with `weighted()`
+ */
+export interface WeightedValue {
+  readonly [WEIGHTED_BRAND]: true;
+  readonly weights: Readonly<Record<string, number>>;
+}
+
+/**
+ * Value for a field in a scenario: a literal, a weighted choice, a group
+ * (its records' ids, assigned round-robin) or a function of the context.
+ */
+export type ScenarioValue =
+  | string
+  | number
+  | boolean
+  | bigint
+  | null
+  | Date
+  | readonly unknown[]
+  | { readonly [key: string]: unknown }
+  | WeightedValue
+  | ScenarioGroup
+  | ((context: ScenarioValueContext) => unknown);
+
+/**
+ * Field values for the records of a group
+ */
+export type ScenarioValues = Record<string, ScenarioValue>;
+
+/**
+ * Records of one entity created by a scenario step
+ */
+export interface ScenarioGroup {
+  /** Entity name, or the relation path (`user.posts`) for groups created with `each` */
+  readonly entity: string;
+  /**
+   * Create child records for every record of this group through a
+   * hasMany or hasOne relation; the foreign key is set to the parent.
+   *
+   * @param relation - Relation name on this entity
+   * @param count - Children per parent (default: 1)
+   * @param values - Field values for the children
+   * @returns The child group
+   */
+  each(relation: string, count?: ScenarioCount, values?: ScenarioValues): ScenarioGroup;
+}
+
+/**
+ * Builder passed to the `defineScenario()` callback
+ */
+export interface ScenarioBuilder {
+  /**
+   * Create records of an entity
+   *
+   * @param entity - Entity name
+   * @param count - Number of records (default: 1)
+   * @param values - Field values for the records
+   * @returns The group, usable as a foreign key value or with `each()`
+   */
+  create(entity: string, count?: ScenarioCount, values?: ScenarioValues): ScenarioGroup;
+}
+
+/**
+ * A step recorded by the scenario builder
+ */
+export interface ScenarioStep {
+  group: ScenarioGroup;
+  count: ScenarioCount;
+  values: ScenarioValues;
+  /** Parent group and relation, for steps created with `each` */
+  parent?: { group: ScenarioGroup; relation: string };
+}
+
+/**
+ * Scenario options
+ */
+export interface ScenarioOptions {
+  /** Shown by `schemock seed --scenario` when listing scenarios */
+  description?: string;
+  /** Faker seed, overriding the project's `fakerSeed` */
+  seed?: number;
+  /** Date faker treats as "now", so generated dates are reproducible too */
+  referenceDate?: Date | string;
+}
+
+/**
+ * A named dataset definition, created with `defineScenario()`
+ */
+export interface SeedScenario extends ScenarioOptions {
+  readonly [SCENARIO_BRAND]: true;
+  readonly name: string;
+  readonly steps: readonly ScenarioStep[];
+}
+
+/**
+ * Rows per entity name, in creation order
+ */
+export type ScenarioDataset = Record<string, Record<string, unknown>[]>;
+
+/**
+ * Options for `buildScenario()`
+ */
+export interface BuildScenarioOptions {
+  /** Faker seed used when the scenario has none (default: 1) */
+  seed?: number;
+  /**
+   * Record factories by entity name, returning writable fields. Entities
+   * without one get faker values derived from their field definitions.
+   */
+  factories?: Record<string, () => Record<string, unknown>>;
+}
+
+/**
+ * Error thrown when a scenario does not fit the schemas
+ */
+export class ScenarioError extends Error {
+  /** Error code for programmatic handling */
+  readonly code = 'INVALID_SCENARIO';
+
+  constructor(scenario: string, message: string) {
+    super(`Scenario "${scenario}": ${message}`);
+    this.name = 'ScenarioError';
+  }
+}
+
+/**
+ * Define a named seed scenario.
+ *
+ * @param name - Scenario name, used by `schemock seed --scenario <name>`
+ * @param build - Callback declaring the records to create
+ * @param options - Description, faker seed and reference date
+ * @returns The scenario
+ *
+ * @example
+ * ```typescript
+ * import { defineScenario, weighted } from 'schemock/seed';
+ *
+ * export const busyOrg = defineScenario('busy-org', (s) => {
+ *   const org = s.create('organization', 1, { plan: 'enterprise' });
+ *   s.create('user', 3, { organizationId: org, role: 'admin' });
+ *   const users = s.create('user', 20, { organizationId: org, status: weighted({ active: 9, suspended: 1 }) });
+ *   users.each('posts', [2, 5]);
+ *   s.create('invoice', 50, { organizationId: org, dueDate: ({ faker }) => faker.date.past() });
+ * }, { description: 'Organization with admins, users and overdue invoices', seed: 42 });
+ * ```
+ */
+export function defineScenario(
+  name: string,
+  build: (s: ScenarioBuilder) => void,
+  options: ScenarioOptions = {}
+): SeedScenario {
+  const steps: ScenarioStep[] = [];
+
+  const group = (entity: string, count: ScenarioCount, values: ScenarioValues, parent?: ScenarioStep['parent']): ScenarioGroup => {
+    const created: ScenarioGroup = {
+      entity,
+      each: (relation, childCount = 1, childValues = {}) =>
+        group(`${entity}.${relation}`, childCount, childValues, { group: created, relation }),
+    };
+    steps.push({ group: created, count, values, parent });
+    return created;
+  };
+
+  build({ create: (entity, count = 1, values = {}) => group(entity, count, values) });
+
+  return { [SCENARIO_BRAND]: true, name, steps, ...options };
+}
+
+/**
+ * Pick a value by weight.
+ *
+ * @param weights - Relative weight per value
+ * @returns A marker resolved for every record
+ *
+ * @example
+ * ```typescript
+ * s.create('user', 100, { status: weighted({ active: 8, invited: 1, suspended: 1 }) });
+ * ```
+ */
+export function weighted(weights: Record<string, number>): WeightedValue {
+  return { [WEIGHTED_BRAND]: true, weights };
+}
+
+function isWeighted(value: unknown): value is WeightedValue {
+  return typeof value === 'object' && value !== null && (value as Record<string, unknown>)[WEIGHTED_BRAND] === true;
+}
+
+/**
+ * Build the rows of a scenario.
+ *
+ * Records get an `id` and their writable fields. Foreign keys come from
+ * the parent (`each`), from group values, or from a random existing record
+ * of the target; nullable references without one stay null.
+ *
+ * @param scenario - Scenario to build
+ * @param schemas - Entity schemas of the project
+ * @param options - Faker seed and record factories
+ * @returns Rows per entity name
+ * @throws ScenarioError when the scenario names unknown entities, relations,
+ *   fields or enum values, or a required reference has no target record
+ */
+export function buildScenario(
+  scenario: SeedScenario,
+  schemas: EntitySchema[],
+  options: BuildScenarioOptions = {}
+): ScenarioDataset {
+  const refDate = faker.defaultRefDate();
+  faker.seed(scenario.seed ?? options.seed ?? 1);
+  if (scenario.referenceDate !== undefined) {
+    faker.setDefaultRefDate(scenario.referenceDate);
+  }
+
+  try {
+    return new ScenarioRun(scenario, schemas, options.factories ?? {}).run();
+  } finally {
+    faker.setDefaultRefDate(refDate);
+  }
+}
+
+/**
+ * Foreign key fields of an entity and the entity each one points at: ref
+ * fields plus the keys of belongsTo relations.
+ *
+ * @param schema - Entity schema
+ * @returns Target entity name per foreign key field
+ */
+export function scenarioReferences(schema: EntitySchema): Map<string, string> {
+  const references = new Map<string, string>();
+  for (const [name, field] of Object.entries(schema.fields)) {
+    if (field.target) references.set(name, field.target);
+  }
+  for (const relation of Object.values(schema.relations ?? {})) {
+    if (relation.type !== 'belongsTo') continue;
+    const key = relation.foreignKey ?? `${relation.target}Id`;
+    if (schema.fields[key] && !references.has(key)) references.set(key, relation.target);
+  }
+  return references;
+}
+
+/**
+ * Single scenario build: tracks each group's rows so later steps can use them
+ */
+class ScenarioRun {
+  private readonly byName: Map<string, EntitySchema>;
+  private readonly groups: Set<unknown>;
+  private readonly rows = new Map<ScenarioGroup, Record<string, unknown>[]>();
+  private readonly entities = new Map<ScenarioGroup, string>();
+  private readonly dataset: ScenarioDataset = {};
+
+  constructor(
+    private readonly scenario: SeedScenario,
+    schemas: EntitySchema[],
+    private readonly factories: Record<string, () => Record<string, unknown>>
+  ) {
+    this.byName = new Map(schemas.map((schema) => [schema.name, schema]));
+    this.groups = new Set(scenario.steps.map((step) => step.group));
+  }
+
+  run(): ScenarioDataset {
+    for (const step of this.scenario.steps) {
+      if (step.parent) {
+        this.runChildStep(step, step.parent.group, step.parent.relation);
+      } else {
+        const schema = this.schema(step.group.entity);
+        this.entities.set(step.group, schema.name);
+        this.rows.set(step.group, this.createRows(schema, this.count(step.count), step.values));
+      }
+    }
+    return this.dataset;
+  }
+
+  private runChildStep(step: ScenarioStep, parentGroup: ScenarioGroup, relationName: string): void {
+    const parentName = this.entityOf(parentGroup);
+    const parentSchema = this.schema(parentName);
+    const relation = parentSchema.relations?.[relationName];
+
+    if (!relation) {
+      throw this.error(`${parentName} has no relation "${relationName}"`);
+    }
+    if (relation.type === 'belongsTo' || relation.through) {
+      throw this.error(`each() needs a hasMany or hasOne relation, but ${parentName}.${relationName} is not one`);
+    }
+
+    const schema = this.schema(relation.target);
+    const foreignKey = this.childForeignKey(schema, parentName, relation.foreignKey);
+    const created: Record<string, unknown>[] = [];
+
+    for (const parent of this.rows.get(parentGroup) ?? []) {
+      const count = relation.type === 'hasOne' ? Math.min(this.count(step.count), 1) : this.count(step.count);
+      created.push(...this.createRows(schema, count, step.values, { parent, foreignKey }));
+    }
+
+    this.entities.set(step.group, schema.name);
+    this.rows.set(step.group, created);
+  }
+
+  /**
+   * Foreign key on the child pointing at the parent: the relation's
+   * explicit key, a ref field targeting the parent, or `<parent>Id`
+   */
+  private childForeignKey(schema: EntitySchema, parentName: string, explicit?: string): string {
+    const key =
+      explicit ??
+      Object.keys(schema.fields).find((name) => schema.fields[name].target === parentName) ??
+      `${parentName}Id`;
+
+    if (!schema.fields[key]) {
+      throw this.error(`${schema.name} has no foreign key "${key}" to ${parentName}`);
+    }
+    return key;
+  }
+
+  private createRows(
+    schema: EntitySchema,
+    count: number,
+    values: ScenarioValues,
+    link?: { parent: Record<string, unknown>; foreignKey: string }
+  ): Record<string, unknown>[] {
+    for (const [name, value] of Object.entries(values)) {
+      this.checkValue(schema, name, value);
+    }
+
+    const references = scenarioReferences(schema);
+    const rows = (this.dataset[schema.name] ??= []);
+    const created: Record<string, unknown>[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const factory = this.factories[schema.name];
+      const row: Record<string, unknown> = {
+        id: faker.string.uuid(),
+        ...(factory ? factory() : exampleCreateInput(schema)),
+      };
+      for (const name of references.keys()) {
+        row[name] = null;
+      }
+      if (link) {
+        row[link.foreignKey] = link.parent.id;
+      }
+      for (const [name, value] of Object.entries(values)) {
+        row[name] = this.resolve(value, { index, faker, parent: link?.parent });
+      }
+      for (const [name, target] of references) {
+        if (row[name] === null && !schema.fields[name].nullable) {
+          row[name] = this.pickExisting(schema.name, name, target);
+        }
+      }
+
+      rows.push(row);
+      created.push(row);
+    }
+    return created;
+  }
+
+  private pickExisting(entity: string, field: string, target: string): unknown {
+    const candidates = this.dataset[target] ?? [];
+    if (candidates.length === 0) {
+      throw this.error(`${entity}.${field} needs an existing ${target}; create one earlier in the scenario or set ${field}`);
+    }
+    return faker.helpers.arrayElement(candidates).id;
+  }
+
+  private resolve(value: ScenarioValue, context: ScenarioValueContext): unknown {
+    if (typeof value === 'function') {
+      return value(context);
+    }
+    if (isWeighted(value)) {
+      return faker.helpers.weightedArrayElement(
+        Object.entries(value.weights).map(([option, weight]) => ({ value: option, weight }))
+      );
+    }
+    if (this.isGroup(value)) {
+      const rows = this.rows.get(value) ?? [];
+      return rows.length > 0 ? rows[context.index % rows.length].id : null;
+    }
+    return value;
+  }
+
+  private checkValue(schema: EntitySchema, name: string, value: ScenarioValue): void {
+    const field = schema.fields[name];
+    if (!field) {
+      throw this.error(`${schema.name} has no field "${name}"`);
+    }
+    if (this.isGroup(value) && !this.rows.has(value)) {
+      throw this.error(`${schema.name}.${name} uses ${value.entity} records that are created later in the scenario`);
+    }
+    if (isWeighted(value)) {
+      for (const option of Object.keys(value.weights)) this.checkEnum(schema, name, field, option);
+    } else if (typeof value === 'string') {
+      this.checkEnum(schema, name, field, value);
+    }
+  }
+
+  private checkEnum(schema: EntitySchema, name: string, field: FieldDefinition, value: string): void {
+    if (field.values && !field.values.includes(value)) {
+      throw this.error(`"${value}" is not a valid ${schema.name}.${name}; expected one of ${field.values.join(', ')}`);
+    }
+  }
+
+  private isGroup(value: unknown): value is ScenarioGroup {
+    return this.groups.has(value);
+  }
+
+  private entityOf(group: ScenarioGroup): string {
+    const entity = this.entities.get(group);
+    if (!entity) {
+      throw this.error(`each() on ${group.entity} before its records are created`);
+    }
+    return entity;
+  }
+
+  private schema(name: string): EntitySchema {
+    const schema = this.byName.get(name);
+    if (!schema) {
+      throw this.error(`unknown entity "${name}"`);
+    }
+    return schema;
+  }
+
+  private count(count: ScenarioCount): number {
+    return typeof count === 'number' ? count : faker.number.int({ min: count[0], max: count[1] });
+  }
+
+  private error(message: string): ScenarioError {
+    return new ScenarioError(this.scenario.name, message);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for change subscriptions across the storage drivers
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MemoryStorageDriver, MswStorageDriver, LocalStorageDriver } from './drivers';
+import { MockAdapter } from '../adapters/mock/adapter';
+import { defineData, field } from '../schema';
+import type { ChangeEvent, StorageDriver } from './types';
+
+const Task = defineData('task', {
+  id: field.uuid(),
+  title: field.string(),
+  done: field.boolean(),
+});
+
+const drivers: [string, () => StorageDriver][] = [
+  ['memory', () => new MemoryStorageDriver()],
+  ['msw', () => new MswStorageDriver()],
+  ['localStorage', () => new LocalStorageDriver()],
+];
+
+function summarize(events: ChangeEvent[]): string[] {
+  return events.map((event) => `${event.type}:${event.record.id}`);
+}
+
+describe.each(drivers)('%s driver', (_name, createDriver) => {
+  async function setup(): Promise<{ driver: StorageDriver; events: ChangeEvent[] }> {
+    const driver = createDriver();
+    await driver.initialize([Task]);
+    const events: ChangeEvent[] = [];
+    driver.subscribe!('task', {}, (event) => events.push(event));
+    return { driver, events };
+  }
+
+  it('emits insert, update and delete events', async () => {
+    const { driver, events } = await setup();
+
+    await driver.create('task', { id: 'a', title: 'Write', done: false });
+    await driver.update('task', { id: 'a' }, { done: true });
+    await driver.delete('task', { id: 'a' });
+
+    expect(summarize(events)).toEqual(['insert:a', 'update:a', 'delete:a']);
+    expect(events[1].previous).toMatchObject({ done: false });
+    expect(events[1].record).toMatchObject({ done: true });
+  });
+
+  it('delivers only events matching the filter, including records leaving it', async () => {
+    const { driver } = await setup();
+    const open: ChangeEvent[] = [];
+    driver.subscribe!('task', { done: false }, (event) => open.push(event));
+
+    await driver.create('task', { id: 'a', title: 'Write', done: false });
+    await driver.create('task', { id: 'b', title: 'Read', done: true });
+    await driver.update('task', { id: 'a' }, { done: true });
+    await driver.update('task', { id: 'b' }, { title: 'Reread' });
+
+    expect(summarize(open)).toEqual(['insert:a', 'update:a']);
+  });
+
+  it('stops delivering after unsubscribe', async () => {
+    const driver = createDriver();
+    await driver.initialize([Task]);
+    const events: ChangeEvent[] = [];
+    const unsubscribe = driver.subscribe!('task', {}, (event) => events.push(event));
+
+    await driver.create('task', { id: 'a', title: 'Write', done: false });
+    unsubscribe();
+    await driver.create('task', { id: 'b', title: 'Read', done: false });
+
+    expect(summarize(events)).toEqual(['insert:a']);
+    expect(() => driver.subscribe!('missing', {}, () => undefined)).toThrow("Entity 'missing' not found");
+  });
+
+  it('delivers transaction events on commit and drops them on rollback', async () => {
+    const { driver, events } = await setup();
+
+    await driver.transaction(async (tx) => {
+      await tx.create('task', { id: 'a', title: 'Write', done: false });
+      expect(events).toEqual([]);
+      await tx.transaction(async (inner) => {
+        await inner.create('task', { id: 'b', title: 'Read', done: false });
+        throw new Error('inner');
+      }).catch(() => undefined);
+    });
+    expect(summarize(events)).toEqual(['insert:a']);
+
+    await expect(
+      driver.transaction(async (tx) => {
+        await tx.deleteMany('task', {});
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+    expect(summarize(events)).toEqual(['insert:a']);
+  });
+
+  it('emits one event per record of batch writes', async () => {
+    const { driver, events } = await setup();
+
+    await driver.createMany('task', [
+      { id: 'a', title: 'Write', done: false },
+      { id: 'b', title: 'Read', done: false },
+    ]);
+    await driver.updateMany('task', { done: false }, { done: true });
+    await driver.deleteMany('task', {});
+
+    expect(summarize(events)).toEqual(['insert:a', 'insert:b', 'update:a', 'update:b', 'delete:a', 'delete:b']);
+  });
+});
+
+describe('LocalStorageDriver across tabs', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('applies and emits writes synced by another tab', async () => {
+    const store = new Map<string, string>();
+    const listeners: Array<(event: unknown) => void> = [];
+    const localStorage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => void store.set(key, value),
+      removeItem: (key: string) => void store.delete(key),
+    };
+    vi.stubGlobal('window', {
+      localStorage,
+      addEventListener: (_type: string, listener: (event: unknown) => void) => listeners.push(listener),
+      removeEventListener: () => undefined,
+    });
+
+    store.set('app:task', JSON.stringify([{ id: 'a', title: 'Write', done: false }]));
+    const driver = new LocalStorageDriver({ storageKey: 'app' });
+    await driver.initialize([Task]);
+    const events: ChangeEvent[] = [];
+    driver.subscribe('task', {}, (event) => events.push(event));
+
+    // What the storage event looks like after another tab updated "a" and created "b"
+    const newValue = JSON.stringify([
+      { id: 'a', title: 'Write', done: true },
+      { id: 'b', title: 'Read', done: false },
+    ]);
+    listeners.forEach((listener) => listener({ key: 'app:task', newValue, storageArea: localStorage }));
+
+    expect(summarize(events)).toEqual(['update:a', 'insert:b']);
+    expect(await driver.findOne('task', { id: 'a' })).toMatchObject({ done: true });
+
+    listeners.forEach((listener) => listener({ key: 'app:task', newValue: null, storageArea: localStorage }));
+    expect(summarize(events.slice(2))).toEqual(['delete:a', 'delete:b']);
+    expect(await driver.count('task')).toBe(0);
+  });
+});
+
+describe('MockAdapter.subscribe', () => {
+  it('delegates to the storage driver', async () => {
+    const adapter = new MockAdapter({ driver: new MemoryStorageDriver(), schemas: [Task] });
+    await adapter.initialize();
+    const events: ChangeEvent[] = [];
+    adapter.subscribe('task', {}, (event) => events.push(event));
+
+    await adapter.create({ entity: 'task', data: { id: 'a', title: 'Write', done: false } });
+
+    expect(summarize(events)).toEqual(['insert:a']);
+  });
+});
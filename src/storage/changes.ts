@@ -0,0 +1,128 @@
+/**
+ * Change Feed - Write notifications shared by the storage drivers
+ *
+ * Drivers emit one event per written record. Events emitted while a
+ * transaction is open are held back and delivered when the outermost
+ * transaction commits; a rollback discards the events of the rolled back
+ * scope, the same way it discards the writes.
+ *
+ * @module storage/changes
+ * @category Storage
+ */
+
+import type { ChangeEvent, ChangeListener, Unsubscribe } from './types';
+import { matchesWhere } from './filter';
+
+interface Subscription {
+  where: Record<string, unknown>;
+  callback: ChangeListener<unknown>;
+}
+
+/**
+ * Per-entity subscriber registry with transaction-aware delivery
+ *
+ * @example
+ * ```typescript
+ * const feed = new ChangeFeed();
+ * const stop = feed.subscribe('user', { role: 'admin' }, (event) => console.log(event.type));
+ *
+ * feed.emit({ type: 'insert', entity: 'user', record: { id: '1', role: 'admin' } }); // logs "insert"
+ * stop();
+ * ```
+ */
+export class ChangeFeed {
+  private subscriptions: Map<string, Set<Subscription>> = new Map();
+
+  /** Events of the open transaction, null outside transactions */
+  private pending: ChangeEvent[] | null = null;
+
+  /**
+   * Register a listener for an entity
+   *
+   * @param entity - The entity name
+   * @param where - Filter the record (or, for updates, the previous record) must match
+   * @param callback - Listener
+   * @returns Function that removes the listener
+   */
+  subscribe<T>(entity: string, where: Record<string, unknown>, callback: ChangeListener<T>): Unsubscribe {
+    const subscription: Subscription = { where, callback: callback as ChangeListener<unknown> };
+    if (!this.subscriptions.has(entity)) this.subscriptions.set(entity, new Set());
+    this.subscriptions.get(entity)!.add(subscription);
+
+    return () => {
+      this.subscriptions.get(entity)?.delete(subscription);
+    };
+  }
+
+  /**
+   * Whether anyone listens to an entity
+   */
+  hasSubscribers(entity: string): boolean {
+    return (this.subscriptions.get(entity)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Record a write; delivered now or when the open transaction commits
+   */
+  emit(event: ChangeEvent): void {
+    if (this.pending) {
+      this.pending.push(event);
+    } else {
+      this.deliver(event);
+    }
+  }
+
+  /**
+   * Run a transaction body, holding back its events
+   *
+   * Nested calls act as savepoints: a failing inner body drops only the
+   * events it emitted.
+   *
+   * @param fn - Transaction body
+   * @returns The body's result
+   */
+  async hold<T>(fn: () => Promise<T>): Promise<T> {
+    const outer = this.pending;
+    const savepoint = outer?.length ?? 0;
+    const events = outer ?? [];
+    this.pending = events;
+
+    try {
+      const result = await fn();
+      if (!outer) {
+        this.pending = null;
+        events.forEach((event) => this.deliver(event));
+      }
+      return result;
+    } catch (error) {
+      if (outer) {
+        outer.length = savepoint;
+      } else {
+        this.pending = null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver an event to the matching listeners immediately
+   *
+   * A throwing listener is logged and does not stop the others.
+   */
+  deliver(event: ChangeEvent): void {
+    const subscriptions = this.subscriptions.get(event.entity);
+    if (!subscriptions) return;
+
+    for (const { where, callback } of [...subscriptions]) {
+      const matches =
+        matchesWhere(event.record, where) || (event.previous !== undefined && matchesWhere(event.previous, where));
+      if (!matches) continue;
+
+      try {
+        callback(event);
+      } catch (error) {
+        console.error(`[ChangeFeed] Listener for ${event.entity} failed:`, error);
+      }
+    }
+  }
+}
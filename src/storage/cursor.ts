@@ -0,0 +1,215 @@
+/**
+ * Cursor Pagination - Opaque, stable keyset cursors for storage drivers
+ *
+ * A cursor captures the sort-key values (orderBy fields plus `id`) of the
+ * row at a page boundary, together with the direction to continue in.
+ * Because pages are located by key values rather than offsets, rows
+ * inserted or deleted mid-scroll never shift or duplicate results.
+ *
+ * @module storage/cursor
+ * @category Storage
+ */
+
+/**
+ * Direction a cursor continues in: rows after or before the boundary row
+ */
+export type CursorDirection = 'after' | 'before';
+
+/**
+ * A single sort key: field name and direction
+ */
+export type CursorSortKey = [field: string, direction: 'asc' | 'desc'];
+
+/**
+ * Decoded cursor payload
+ */
+export interface DecodedCursor {
+  /** Sort-key values of the boundary row, in sort-key order */
+  values: unknown[];
+  /** Direction to continue in */
+  direction: CursorDirection;
+}
+
+/**
+ * A page of records located by cursor
+ */
+export interface CursorPage<T> {
+  /** Records in the page */
+  data: T[];
+  /** Whether more records follow the page */
+  hasMore: boolean;
+  /** Cursor for the following page */
+  nextCursor?: string;
+  /** Cursor for the preceding page */
+  prevCursor?: string;
+}
+
+/**
+ * Error thrown when a cursor cannot be decoded
+ */
+export class InvalidCursorError extends Error {
+  /** Error code for programmatic handling */
+  readonly code = 'INVALID_CURSOR';
+
+  /** HTTP status for API responses */
+  readonly status = 400;
+
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Build the sort keys for cursor pagination.
+ * The `id` field is always appended as a tie-breaker so the order is total.
+ *
+ * @param orderBy - Requested ordering
+ * @returns Ordered list of sort keys ending with `id`
+ */
+export function getCursorSortKeys(orderBy?: Record<string, 'asc' | 'desc'>): CursorSortKey[] {
+  const keys: CursorSortKey[] = Object.entries(orderBy ?? {}).filter(([field]) => field !== 'id');
+  keys.push(['id', orderBy?.id ?? 'asc']);
+  return keys;
+}
+
+/**
+ * Encode a cursor for a record.
+ *
+ * @param record - The boundary record
+ * @param keys - Sort keys from getCursorSortKeys
+ * @param direction - Direction the cursor continues in
+ * @returns Opaque, URL-safe cursor string
+ */
+export function encodeCursor(
+  record: Record<string, unknown>,
+  keys: CursorSortKey[],
+  direction: CursorDirection
+): string {
+  const values = keys.map(([field]) => normalizeCursorValue(record[field]));
+  const json = encodeURIComponent(JSON.stringify({ v: values, d: direction === 'before' ? 'b' : 'a' }));
+  const base64 = typeof btoa === 'function' ? btoa(json) : Buffer.from(json).toString('base64');
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor created by encodeCursor.
+ *
+ * @param cursor - Opaque cursor string
+ * @returns Decoded sort-key values and direction
+ * @throws InvalidCursorError if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): DecodedCursor {
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const json = typeof atob === 'function' ? atob(base64) : Buffer.from(base64, 'base64').toString('utf-8');
+    const payload = JSON.parse(decodeURIComponent(json)) as { v?: unknown; d?: unknown };
+    if (!Array.isArray(payload.v) || (payload.d !== 'a' && payload.d !== 'b')) {
+      throw new InvalidCursorError(cursor);
+    }
+    return { values: payload.v, direction: payload.d === 'b' ? 'before' : 'after' };
+  } catch {
+    throw new InvalidCursorError(cursor);
+  }
+}
+
+/**
+ * Sort records by cursor sort keys.
+ * Nulls sort last for ascending keys and first for descending keys.
+ *
+ * @param records - Records to sort
+ * @param keys - Sort keys from getCursorSortKeys
+ * @returns New sorted array
+ */
+export function sortByCursorKeys<T extends Record<string, unknown>>(records: T[], keys: CursorSortKey[]): T[] {
+  return [...records].sort((a, b) =>
+    compareKeyValues(
+      keys.map(([field]) => a[field]),
+      keys.map(([field]) => b[field]),
+      keys
+    )
+  );
+}
+
+/**
+ * Slice a page out of records already sorted with sortByCursorKeys.
+ *
+ * @param sorted - Sorted records
+ * @param keys - Sort keys used for sorting
+ * @param cursor - Cursor from a previous page (omit for the first page)
+ * @param limit - Page size
+ * @returns The page with next/prev cursors
+ */
+export function paginateByCursor<T extends Record<string, unknown>>(
+  sorted: T[],
+  keys: CursorSortKey[],
+  cursor: string | undefined,
+  limit: number
+): CursorPage<T> {
+  const decoded = cursor ? decodeCursor(cursor) : undefined;
+  const position = (record: T) =>
+    decoded ? compareKeyValues(keys.map(([field]) => record[field]), decoded.values, keys) : 0;
+
+  let start = 0;
+  let end = sorted.length;
+  if (decoded?.direction === 'after') {
+    start = indexOrLength(sorted, (record) => position(record) > 0);
+    end = Math.min(start + limit, sorted.length);
+  } else if (decoded?.direction === 'before') {
+    end = indexOrLength(sorted, (record) => position(record) >= 0);
+    start = Math.max(end - limit, 0);
+  } else {
+    end = Math.min(limit, sorted.length);
+  }
+
+  const data = sorted.slice(start, end);
+  const hasMore = end < sorted.length;
+  const hasPrev = start > 0;
+
+  return {
+    data,
+    hasMore,
+    nextCursor: hasMore && data.length > 0 ? encodeCursor(data[data.length - 1], keys, 'after') : undefined,
+    prevCursor: hasPrev && data.length > 0 ? encodeCursor(data[0], keys, 'before') : undefined,
+  };
+}
+
+/**
+ * Normalize a value for storage in a cursor (dates become ISO strings)
+ */
+function normalizeCursorValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+/**
+ * Compare two sort-key tuples according to the sort key directions
+ */
+function compareKeyValues(a: unknown[], b: unknown[], keys: CursorSortKey[]): number {
+  for (let i = 0; i < keys.length; i++) {
+    const comparison = compareValues(normalizeCursorValue(a[i]), normalizeCursorValue(b[i]));
+    if (comparison !== 0) {
+      return keys[i][1] === 'desc' ? -comparison : comparison;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compare two normalized values, treating null as the greatest value
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0;
+}
+
+/**
+ * Index of the first record matching the predicate, or the array length
+ */
+function indexOrLength<T>(records: T[], predicate: (record: T) => boolean): number {
+  const index = records.findIndex(predicate);
+  return index === -1 ? records.length : index;
+}
@@ -10,7 +10,23 @@
 
 import { faker } from '@faker-js/faker';
 import type { EntitySchema, RelationDefinition } from '../../schema/types';
-import type { StorageDriver, QueryOptions, QueryMeta, StorageDriverConfig } from '../types';
+import type {
+  StorageDriver,
+  QueryOptions,
+  QueryMeta,
+  SoftDeleteScope,
+  UpdateOptions,
+  StorageDriverConfig,
+  ChangeEvent,
+  ChangeListener,
+  Unsubscribe,
+} from '../types';
+import { matchesWhere } from '../filter';
+import { ChangeFeed } from '../changes';
+import { DELETED_AT, isInScope } from '../soft-delete';
+import { VERSION, nextVersion } from '../versioning';
+import { getCursorSortKeys, sortByCursorKeys, paginateByCursor } from '../cursor';
+import { createSnapshot, restoreSnapshot, type Snapshot, type ImportSnapshotOptions, type SnapshotImportResult } from '../snapshot';
 
 /**
  * Configuration for LocalStorageDriver
@@ -22,6 +38,8 @@ export interface LocalStorageDriverConfig extends StorageDriverConfig {
   autoSync?: boolean;
   /** Debounce time for syncing in ms (default: 100) */
   syncDebounce?: number;
+  /** Pick up writes made in other tabs and notify subscribers (default: true) */
+  crossTab?: boolean;
 }
 
 /**
@@ -29,6 +47,10 @@ export interface LocalStorageDriverConfig extends StorageDriverConfig {
  *
  * Features:
  * - Full CRUD operations with localStorage persistence
+ * - Batch writes and snapshot-based transactions
+ * - Soft delete, restore and purge
+ * - Change subscriptions, including writes from other tabs
+ * - Snapshot export and import
  * - In-memory cache for fast reads
  * - Automatic sync on writes (configurable)
  * - Debounced writes to reduce localStorage calls
@@ -54,6 +76,9 @@ export class LocalStorageDriver implements StorageDriver {
   /** Entity schemas for reference */
   private schemas: Map<string, EntitySchema> = new Map();
 
+  /** Subscribers to writes */
+  private changes = new ChangeFeed();
+
   /** Configuration options */
   private config: LocalStorageDriverConfig;
 
@@ -68,6 +93,7 @@ export class LocalStorageDriver implements StorageDriver {
       storageKey: 'schemock',
       autoSync: true,
       syncDebounce: 100,
+      crossTab: true,
       ...config,
     };
 
@@ -178,6 +204,54 @@ export class LocalStorageDriver implements StorageDriver {
     }, this.config.syncDebounce);
   }
 
+  /**
+   * Apply writes synced by another tab and notify subscribers.
+   * Browsers fire the storage event only in the tabs that did not write.
+   */
+  private handleStorageEvent = (event: StorageEvent): void => {
+    const prefix = `${this.config.storageKey}:`;
+    if (event.storageArea !== window.localStorage || !event.key?.startsWith(prefix)) return;
+
+    const entity = event.key.slice(prefix.length);
+    const entityStorage = this.storage.get(entity);
+    if (!entityStorage) return;
+
+    let records: Record<string, unknown>[];
+    try {
+      records = event.newValue ? (JSON.parse(event.newValue) as Record<string, unknown>[]) : [];
+    } catch {
+      return;
+    }
+
+    const next = new Map<string, Record<string, unknown>>();
+    const events: ChangeEvent[] = [];
+
+    for (const stored of records) {
+      const record = this.restoreDates(stored);
+      const previous = entityStorage.get(record.id as string);
+      next.set(record.id as string, record);
+
+      if (!previous) {
+        events.push({ type: 'insert', entity, record });
+      } else if (JSON.stringify(previous) !== JSON.stringify(record)) {
+        events.push({ type: 'update', entity, record, previous });
+      }
+    }
+    for (const [id, record] of entityStorage) {
+      if (!next.has(id)) {
+        events.push({ type: 'delete', entity, record });
+      }
+    }
+
+    // The other tab already committed these writes
+    this.storage.set(entity, next);
+    events.forEach((change) => this.changes.deliver(change));
+
+    if (this.config.debug && events.length > 0) {
+      console.log(`[LocalStorageDriver] Applied ${events.length} change(s) to ${entity} from another tab`);
+    }
+  };
+
   /**
    * Restore Date objects from JSON (stored as ISO strings)
    */
@@ -208,6 +282,11 @@ export class LocalStorageDriver implements StorageDriver {
       this.loadFromStorage(schema.name);
     }
 
+    if (this.hasLocalStorage && this.config.crossTab) {
+      window.removeEventListener('storage', this.handleStorageEvent);
+      window.addEventListener('storage', this.handleStorageEvent);
+    }
+
     if (this.config.debug) {
       console.log(`[LocalStorageDriver] Initialized with ${schemas.length} entities`);
     }
@@ -230,9 +309,11 @@ export class LocalStorageDriver implements StorageDriver {
       ...data,
       id,
       ...(schema?.timestamps ? { createdAt: data.createdAt ?? now, updatedAt: now } : {}),
+      ...(schema?.versioned ? { [VERSION]: data[VERSION] ?? 1 } : {}),
     };
 
     entityStorage.set(id, record);
+    this.changes.emit({ type: 'insert', entity, record });
     this.scheduleSync(entity);
 
     if (this.config.debug) {
@@ -242,26 +323,14 @@ export class LocalStorageDriver implements StorageDriver {
     return record as T;
   }
 
-  async findOne<T>(entity: string, where: Record<string, unknown>): Promise<T | null> {
+  async findOne<T>(entity: string, where: Record<string, unknown>, scope?: SoftDeleteScope): Promise<T | null> {
     const entityStorage = this.storage.get(entity);
     if (!entityStorage) {
       throw new Error(`Entity '${entity}' not found`);
     }
 
-    // If searching by ID, direct lookup
-    if (where.id && Object.keys(where).length === 1) {
-      const record = entityStorage.get(where.id as string);
-      return (record as T) || null;
-    }
-
-    // Otherwise, scan for first match
-    for (const record of entityStorage.values()) {
-      if (this.matchesWhere(record, where)) {
-        return record as T;
-      }
-    }
-
-    return null;
+    const match = this.locate(entity, entityStorage, where, scope);
+    return match ? (match[1] as T) : null;
   }
 
   async findMany<T>(entity: string, options?: QueryOptions): Promise<{ data: T[]; meta: QueryMeta }> {
@@ -270,15 +339,26 @@ export class LocalStorageDriver implements StorageDriver {
       throw new Error(`Entity '${entity}' not found`);
     }
 
-    let results = Array.from(entityStorage.values());
+    const schema = this.schemas.get(entity);
+    let results = Array.from(entityStorage.values()).filter((record) => isInScope(record, schema, options));
 
     // Apply filtering
     if (options?.where) {
-      results = results.filter((record) => this.matchesWhere(record, options.where!));
+      results = results.filter((record) => matchesWhere(record, options.where!));
     }
 
     const total = results.length;
 
+    // Cursor pagination: keyset over the orderBy fields plus id
+    if (options?.cursor || options?.pagination === 'cursor') {
+      const keys = getCursorSortKeys(options.orderBy);
+      const page = paginateByCursor(sortByCursorKeys(results, keys), keys, options.cursor, options.limit ?? total);
+      return {
+        data: page.data as T[],
+        meta: { total, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },
+      };
+    }
+
     // Apply sorting
     if (options?.orderBy) {
       results = this.sortRecords(results, options.orderBy);
@@ -307,7 +387,8 @@ export class LocalStorageDriver implements StorageDriver {
   async update<T>(
     entity: string,
     where: Record<string, unknown>,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    options?: UpdateOptions
   ): Promise<T | null> {
     const entityStorage = this.storage.get(entity);
     if (!entityStorage) {
@@ -316,26 +397,13 @@ export class LocalStorageDriver implements StorageDriver {
 
     const schema = this.schemas.get(entity);
 
-    // Find the record to update
-    let recordId: string | null = null;
-    let existingRecord: Record<string, unknown> | null = null;
-
-    if (where.id && Object.keys(where).length === 1) {
-      recordId = where.id as string;
-      existingRecord = entityStorage.get(recordId) || null;
-    } else {
-      for (const [id, record] of entityStorage.entries()) {
-        if (this.matchesWhere(record, where)) {
-          recordId = id;
-          existingRecord = record;
-          break;
-        }
-      }
-    }
-
-    if (!existingRecord || !recordId) {
+    // Find the record to update (live records only)
+    const match = this.locate(entity, entityStorage, where);
+    if (!match) {
       return null;
     }
+    const [recordId, existingRecord] = match;
+    const version = nextVersion(entity, schema, existingRecord, options?.expectedVersion);
 
     // Update the record
     const updated: Record<string, unknown> = {
@@ -343,9 +411,11 @@ export class LocalStorageDriver implements StorageDriver {
       ...data,
       id: recordId, // Preserve ID
       ...(schema?.timestamps ? { updatedAt: new Date() } : {}),
+      ...version,
     };
 
     entityStorage.set(recordId, updated);
+    this.changes.emit({ type: 'update', entity, record: updated, previous: existingRecord });
     this.scheduleSync(entity);
 
     if (this.config.debug) {
@@ -356,55 +426,170 @@ export class LocalStorageDriver implements StorageDriver {
   }
 
   async delete(entity: string, where: Record<string, unknown>): Promise<boolean> {
+    if (!this.schemas.get(entity)?.softDelete) {
+      return this.purge(entity, where);
+    }
+
     const entityStorage = this.storage.get(entity);
     if (!entityStorage) {
       throw new Error(`Entity '${entity}' not found`);
     }
 
-    // Find the record to delete
-    let recordId: string | null = null;
+    const match = this.locate(entity, entityStorage, where);
+    if (!match) {
+      return false;
+    }
 
-    if (where.id && Object.keys(where).length === 1) {
-      recordId = where.id as string;
-    } else {
-      for (const [id, record] of entityStorage.entries()) {
-        if (this.matchesWhere(record, where)) {
-          recordId = id;
-          break;
-        }
-      }
+    this.setDeletedAt(entity, entityStorage, match, new Date());
+    this.scheduleSync(entity);
+
+    if (this.config.debug) {
+      console.log(`[LocalStorageDriver] Soft-deleted ${entity}:`, match[0]);
     }
 
-    if (!recordId) {
+    return true;
+  }
+
+  async restore<T>(entity: string, where: Record<string, unknown>): Promise<T | null> {
+    const entityStorage = this.storage.get(entity);
+    if (!entityStorage) {
+      throw new Error(`Entity '${entity}' not found`);
+    }
+
+    const match = this.locate(entity, entityStorage, where, { onlyDeleted: true });
+    if (!match) {
+      return null;
+    }
+
+    const restored = this.setDeletedAt(entity, entityStorage, match, null);
+    this.scheduleSync(entity);
+
+    if (this.config.debug) {
+      console.log(`[LocalStorageDriver] Restored ${entity}:`, match[0]);
+    }
+
+    return restored as T;
+  }
+
+  async purge(entity: string, where: Record<string, unknown>): Promise<boolean> {
+    const entityStorage = this.storage.get(entity);
+    if (!entityStorage) {
+      throw new Error(`Entity '${entity}' not found`);
+    }
+
+    const match = this.locate(entity, entityStorage, where, { withDeleted: true });
+    if (!match) {
       return false;
     }
 
-    const deleted = entityStorage.delete(recordId);
+    const [recordId, record] = match;
+    entityStorage.delete(recordId);
+    this.changes.emit({ type: 'delete', entity, record });
+    this.scheduleSync(entity);
+
+    if (this.config.debug) {
+      console.log(`[LocalStorageDriver] Deleted ${entity}:`, recordId);
+    }
+
+    return true;
+  }
+
+  async createMany<T>(entity: string, data: Record<string, unknown>[]): Promise<T[]> {
+    return this.transaction(async () => {
+      const created: T[] = [];
+      for (const record of data) {
+        created.push(await this.create<T>(entity, record));
+      }
+      return created;
+    });
+  }
 
-    if (deleted) {
+  async updateMany<T>(
+    entity: string,
+    where: Record<string, unknown>,
+    data: Record<string, unknown>
+  ): Promise<T[]> {
+    const matches = await this.findMany<Record<string, unknown>>(entity, { where });
+
+    return this.transaction(async () => {
+      const updated: T[] = [];
+      for (const record of matches.data) {
+        updated.push((await this.update<T>(entity, { id: record.id }, data))!);
+      }
+      return updated;
+    });
+  }
+
+  async deleteMany(entity: string, where: Record<string, unknown>): Promise<number> {
+    const entityStorage = this.storage.get(entity);
+    if (!entityStorage) {
+      throw new Error(`Entity '${entity}' not found`);
+    }
+
+    const schema = this.schemas.get(entity);
+    const deletedAt = new Date();
+
+    let deleted = 0;
+    for (const [id, record] of Array.from(entityStorage.entries())) {
+      if (!isInScope(record, schema) || !matchesWhere(record, where)) continue;
+
+      if (schema?.softDelete) {
+        this.setDeletedAt(entity, entityStorage, [id, record], deletedAt);
+      } else {
+        entityStorage.delete(id);
+        this.changes.emit({ type: 'delete', entity, record });
+      }
+      deleted++;
+    }
+
+    if (deleted > 0) {
       this.scheduleSync(entity);
     }
 
-    if (this.config.debug && deleted) {
-      console.log(`[LocalStorageDriver] Deleted ${entity}:`, recordId);
+    if (this.config.debug) {
+      console.log(`[LocalStorageDriver] Deleted ${deleted} ${entity} record(s)`);
     }
 
     return deleted;
   }
 
-  async count(entity: string, where?: Record<string, unknown>): Promise<number> {
+  async transaction<T>(fn: (tx: StorageDriver) => Promise<T>): Promise<T> {
+    const snapshot = new Map(Array.from(this.storage, ([entity, records]) => [entity, new Map(records)]));
+
+    try {
+      return await this.changes.hold(() => fn(this));
+    } catch (error) {
+      this.storage = snapshot;
+
+      // Writes inside the transaction may already have been synced
+      if (this.config.autoSync) {
+        for (const entityName of this.storage.keys()) {
+          this.saveToStorage(entityName);
+        }
+      }
+
+      if (this.config.debug) {
+        console.log(`[LocalStorageDriver] Rolled back transaction`);
+      }
+
+      throw error;
+    }
+  }
+
+  async count(entity: string, where?: Record<string, unknown>, scope?: SoftDeleteScope): Promise<number> {
     const entityStorage = this.storage.get(entity);
     if (!entityStorage) {
       throw new Error(`Entity '${entity}' not found`);
     }
 
-    if (!where) {
+    const schema = this.schemas.get(entity);
+    if (!where && !schema?.softDelete) {
       return entityStorage.size;
     }
 
     let count = 0;
     for (const record of entityStorage.values()) {
-      if (this.matchesWhere(record, where)) {
+      if (isInScope(record, schema, scope) && (!where || matchesWhere(record, where))) {
         count++;
       }
     }
@@ -567,81 +752,77 @@ export class LocalStorageDriver implements StorageDriver {
     return Array.from(entityStorage.values()) as T[];
   }
 
-  /**
-   * Check if a record matches the where clause
-   */
-  private matchesWhere(record: Record<string, unknown>, where: Record<string, unknown>): boolean {
-    for (const [key, value] of Object.entries(where)) {
-      const recordValue = record[key];
+  async exportSnapshot(): Promise<Snapshot> {
+    const data = Object.fromEntries(Array.from(this.storage, ([entity, records]) => [entity, Array.from(records.values())]));
+    return createSnapshot(Array.from(this.schemas.values()), data);
+  }
 
-      // Handle null comparisons
-      if (value === null) {
-        if (recordValue !== null) return false;
-        continue;
-      }
+  async importSnapshot(snapshot: Snapshot | string, options?: ImportSnapshotOptions): Promise<SnapshotImportResult> {
+    const { data, ...result } = restoreSnapshot(snapshot, Array.from(this.schemas.values()), options);
 
-      // Handle object comparisons (operators like { gte: 5 })
-      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-        if (!this.matchesOperators(recordValue, value as Record<string, unknown>)) {
-          return false;
-        }
-        continue;
+    for (const [entity, records] of this.storage) {
+      records.clear();
+      for (const record of data[entity] ?? []) {
+        records.set(record.id as string, record);
       }
+    }
+    await this.sync();
 
-      // Direct equality
-      if (recordValue !== value) {
-        return false;
-      }
+    if (this.config.debug) {
+      console.log(`[LocalStorageDriver] Imported snapshot:`, result.counts);
     }
 
-    return true;
+    return result;
+  }
+
+  subscribe<T>(entity: string, where: Record<string, unknown>, callback: ChangeListener<T>): Unsubscribe {
+    if (!this.storage.has(entity)) {
+      throw new Error(`Entity '${entity}' not found`);
+    }
+
+    return this.changes.subscribe(entity, where, callback);
   }
 
   /**
-   * Check if a value matches operator conditions
+   * Find the first record matching a filter within a soft-delete scope
    */
-  private matchesOperators(value: unknown, operators: Record<string, unknown>): boolean {
-    for (const [op, target] of Object.entries(operators)) {
-      switch (op) {
-        case 'equals':
-          if (value !== target) return false;
-          break;
-        case 'not':
-          if (value === target) return false;
-          break;
-        case 'in':
-          if (!Array.isArray(target) || !target.includes(value)) return false;
-          break;
-        case 'notIn':
-          if (Array.isArray(target) && target.includes(value)) return false;
-          break;
-        case 'lt':
-          if (typeof value !== 'number' || typeof target !== 'number' || value >= target) return false;
-          break;
-        case 'lte':
-          if (typeof value !== 'number' || typeof target !== 'number' || value > target) return false;
-          break;
-        case 'gt':
-          if (typeof value !== 'number' || typeof target !== 'number' || value <= target) return false;
-          break;
-        case 'gte':
-          if (typeof value !== 'number' || typeof target !== 'number' || value < target) return false;
-          break;
-        case 'contains':
-          if (typeof value !== 'string' || !value.includes(target as string)) return false;
-          break;
-        case 'startsWith':
-          if (typeof value !== 'string' || !value.startsWith(target as string)) return false;
-          break;
-        case 'endsWith':
-          if (typeof value !== 'string' || !value.endsWith(target as string)) return false;
-          break;
-        default:
-          // Unknown operator, treat as nested equality
-          if (value !== target) return false;
+  private locate(
+    entity: string,
+    entityStorage: Map<string, Record<string, unknown>>,
+    where: Record<string, unknown>,
+    scope?: SoftDeleteScope
+  ): [string, Record<string, unknown>] | null {
+    const schema = this.schemas.get(entity);
+
+    // If searching by ID, direct lookup
+    if (where.id && Object.keys(where).length === 1) {
+      const record = entityStorage.get(where.id as string);
+      return record && isInScope(record, schema, scope) ? [where.id as string, record] : null;
+    }
+
+    // Otherwise, scan for first match
+    for (const [id, record] of entityStorage.entries()) {
+      if (isInScope(record, schema, scope) && matchesWhere(record, where)) {
+        return [id, record];
       }
     }
-    return true;
+
+    return null;
+  }
+
+  /**
+   * Mark a record deleted (or live again when `deletedAt` is null)
+   */
+  private setDeletedAt(
+    entity: string,
+    entityStorage: Map<string, Record<string, unknown>>,
+    [id, previous]: [string, Record<string, unknown>],
+    deletedAt: Date | null
+  ): Record<string, unknown> {
+    const record = { ...previous, [DELETED_AT]: deletedAt };
+    entityStorage.set(id, record);
+    this.changes.emit({ type: 'update', entity, record, previous });
+    return record;
   }
 
   /**
@@ -687,8 +868,14 @@ export class LocalStorageDriver implements StorageDriver {
     relation: RelationDefinition,
     schemas: Map<string, EntitySchema>
   ): Promise<unknown> {
-    const targetStorage = this.storage.get(relation.target);
-    if (!targetStorage) return relation.type === 'hasMany' ? [] : null;
+    const records = this.storage.get(relation.target);
+    if (!records) return relation.type === 'hasMany' ? [] : null;
+
+    // Soft-deleted related records are never hydrated
+    const targetSchema = this.schemas.get(relation.target);
+    const targetStorage = targetSchema?.softDelete
+      ? new Map(Array.from(records).filter(([, target]) => isInScope(target, targetSchema)))
+      : records;
 
     switch (relation.type) {
       case 'belongsTo': {
@@ -791,15 +978,25 @@ export class LocalStorageDriver implements StorageDriver {
           data[fieldName] = faker.datatype.boolean();
           break;
         case 'date':
+        case 'datetime':
           data[fieldName] = faker.date.recent();
           break;
+        case 'time':
+          data[fieldName] = faker.date.recent().toISOString().slice(11, 19);
+          break;
+        case 'decimal':
+          data[fieldName] = faker.finance.amount({ dec: field.constraints?.scale ?? 2 });
+          break;
+        case 'json':
+          data[fieldName] = {};
+          break;
         case 'enum':
           if (field.values?.length) {
             data[fieldName] = field.values[Math.floor(Math.random() * field.values.length)];
           }
           break;
         default:
-          // Skip unknown types or relations
+          // Skip unknown types, relations, and bigint/bytes (they do not survive JSON persistence)
           break;
       }
 
@@ -10,13 +10,32 @@
 
 import { faker } from '@faker-js/faker';
 import type { EntitySchema, RelationDefinition } from '../../schema/types';
-import type { StorageDriver, QueryOptions, QueryMeta, StorageDriverConfig } from '../types';
+import type {
+  StorageDriver,
+  QueryOptions,
+  QueryMeta,
+  SoftDeleteScope,
+  UpdateOptions,
+  StorageDriverConfig,
+  ChangeListener,
+  Unsubscribe,
+} from '../types';
+import { matchesWhere } from '../filter';
+import { ChangeFeed } from '../changes';
+import { DELETED_AT, isInScope } from '../soft-delete';
+import { VERSION, nextVersion } from '../versioning';
+import { getCursorSortKeys, sortByCursorKeys, paginateByCursor } from '../cursor';
+import { createSnapshot, restoreSnapshot, type Snapshot, type ImportSnapshotOptions, type SnapshotImportResult } from '../snapshot';
 
 /**
  * In-memory storage driver using JavaScript Maps.
  *
  * Features:
  * - Full CRUD operations
+ * - Batch writes and snapshot-based transactions
+ * - Soft delete, restore and purge
+ * - Change subscriptions
+ * - Snapshot export and import
  * - Filtering, sorting, pagination
  * - Relation hydration
  * - Seeding with fake data
@@ -40,6 +59,9 @@ export class MemoryStorageDriver implements StorageDriver {
   /** Entity schemas for reference */
   private schemas: Map<string, EntitySchema> = new Map();
 
+  /** Subscribers to writes */
+  private changes = new ChangeFeed();
+
   /** Configuration options */
   private config: StorageDriverConfig;
 
@@ -80,9 +102,11 @@ export class MemoryStorageDriver implements StorageDriver {
       ...data,
       id,
       ...(schema?.timestamps ? { createdAt: data.createdAt ?? now, updatedAt: now } : {}),
+      ...(schema?.versioned ? { [VERSION]: data[VERSION] ?? 1 } : {}),
     };
 
     entityStorage.set(id, record);
+    this.changes.emit({ type: 'insert', entity, record });
 
     if (this.config.debug) {
       console.log(`[MemoryStorageDriver] Created ${entity}:`, id);
@@ -91,26 +115,14 @@ export class MemoryStorageDriver implements StorageDriver {
     return record as T;
   }
 
-  async findOne<T>(entity: string, where: Record<string, unknown>): Promise<T | null> {
+  async findOne<T>(entity: string, where: Record<string, unknown>, scope?: SoftDeleteScope): Promise<T | null> {
     const entityStorage = this.storage.get(entity);
     if (!entityStorage) {
       throw new Error(`Entity '${entity}' not found`);
     }
 
-    // If searching by ID, direct lookup
-    if (where.id && Object.keys(where).length === 1) {
-      const record = entityStorage.get(where.id as string);
-      return (record as T) || null;
-    }
-
-    // Otherwise, scan for first match
-    for (const record of entityStorage.values()) {
-      if (this.matchesWhere(record, where)) {
-        return record as T;
-      }
-    }
-
-    return null;
+    const match = this.locate(entity, entityStorage, where, scope);
+    return match ? (match[1] as T) : null;
   }
 
   async findMany<T>(entity: string, options?: QueryOptions): Promise<{ data: T[]; meta: QueryMeta }> {
@@ -119,15 +131,26 @@ export class MemoryStorageDriver implements StorageDriver {
       throw new Error(`Entity '${entity}' not found`);
     }
 
-    let results = Array.from(entityStorage.values());
+    const schema = this.schemas.get(entity);
+    let results = Array.from(entityStorage.values()).filter((record) => isInScope(record, schema, options));
 
     // Apply filtering
     if (options?.where) {
-      results = results.filter((record) => this.matchesWhere(record, options.where!));
+      results = results.filter((record) => matchesWhere(record, options.where!));
     }
 
     const total = results.length;
 
+    // Cursor pagination: keyset over the orderBy fields plus id
+    if (options?.cursor || options?.pagination === 'cursor') {
+      const keys = getCursorSortKeys(options.orderBy);
+      const page = paginateByCursor(sortByCursorKeys(results, keys), keys, options.cursor, options.limit ?? total);
+      return {
+        data: page.data as T[],
+        meta: { total, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },
+      };
+    }
+
     // Apply sorting
     if (options?.orderBy) {
       results = this.sortRecords(results, options.orderBy);
@@ -156,7 +179,8 @@ export class MemoryStorageDriver implements StorageDriver {
   async update<T>(
     entity: string,
     where: Record<string, unknown>,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    options?: UpdateOptions
   ): Promise<T | null> {
     const entityStorage = this.storage.get(entity);
     if (!entityStorage) {
@@ -165,26 +189,13 @@ export class MemoryStorageDriver implements StorageDriver {
 
     const schema = this.schemas.get(entity);
 
-    // Find the record to update
-    let recordId: string | null = null;
-    let existingRecord: Record<string, unknown> | null = null;
-
-    if (where.id && Object.keys(where).length === 1) {
-      recordId = where.id as string;
-      existingRecord = entityStorage.get(recordId) || null;
-    } else {
-      for (const [id, record] of entityStorage.entries()) {
-        if (this.matchesWhere(record, where)) {
-          recordId = id;
-          existingRecord = record;
-          break;
-        }
-      }
-    }
-
-    if (!existingRecord || !recordId) {
+    // Find the record to update (live records only)
+    const match = this.locate(entity, entityStorage, where);
+    if (!match) {
       return null;
     }
+    const [recordId, existingRecord] = match;
+    const version = nextVersion(entity, schema, existingRecord, options?.expectedVersion);
 
     // Update the record
     const updated: Record<string, unknown> = {
@@ -192,9 +203,11 @@ export class MemoryStorageDriver implements StorageDriver {
       ...data,
       id: recordId, // Preserve ID
       ...(schema?.timestamps ? { updatedAt: new Date() } : {}),
+      ...version,
     };
 
     entityStorage.set(recordId, updated);
+    this.changes.emit({ type: 'update', entity, record: updated, previous: existingRecord });
 
     if (this.config.debug) {
       console.log(`[MemoryStorageDriver] Updated ${entity}:`, recordId);
@@ -204,51 +217,158 @@ export class MemoryStorageDriver implements StorageDriver {
   }
 
   async delete(entity: string, where: Record<string, unknown>): Promise<boolean> {
+    if (!this.schemas.get(entity)?.softDelete) {
+      return this.purge(entity, where);
+    }
+
     const entityStorage = this.storage.get(entity);
     if (!entityStorage) {
       throw new Error(`Entity '${entity}' not found`);
     }
 
-    // Find the record to delete
-    let recordId: string | null = null;
+    const match = this.locate(entity, entityStorage, where);
+    if (!match) {
+      return false;
+    }
 
-    if (where.id && Object.keys(where).length === 1) {
-      recordId = where.id as string;
-    } else {
-      for (const [id, record] of entityStorage.entries()) {
-        if (this.matchesWhere(record, where)) {
-          recordId = id;
-          break;
-        }
-      }
+    this.setDeletedAt(entity, entityStorage, match, new Date());
+
+    if (this.config.debug) {
+      console.log(`[MemoryStorageDriver] Soft-deleted ${entity}:`, match[0]);
     }
 
-    if (!recordId) {
+    return true;
+  }
+
+  async restore<T>(entity: string, where: Record<string, unknown>): Promise<T | null> {
+    const entityStorage = this.storage.get(entity);
+    if (!entityStorage) {
+      throw new Error(`Entity '${entity}' not found`);
+    }
+
+    const match = this.locate(entity, entityStorage, where, { onlyDeleted: true });
+    if (!match) {
+      return null;
+    }
+
+    const restored = this.setDeletedAt(entity, entityStorage, match, null);
+
+    if (this.config.debug) {
+      console.log(`[MemoryStorageDriver] Restored ${entity}:`, match[0]);
+    }
+
+    return restored as T;
+  }
+
+  async purge(entity: string, where: Record<string, unknown>): Promise<boolean> {
+    const entityStorage = this.storage.get(entity);
+    if (!entityStorage) {
+      throw new Error(`Entity '${entity}' not found`);
+    }
+
+    const match = this.locate(entity, entityStorage, where, { withDeleted: true });
+    if (!match) {
       return false;
     }
 
-    const deleted = entityStorage.delete(recordId);
+    const [recordId, record] = match;
+    entityStorage.delete(recordId);
+    this.changes.emit({ type: 'delete', entity, record });
 
-    if (this.config.debug && deleted) {
+    if (this.config.debug) {
       console.log(`[MemoryStorageDriver] Deleted ${entity}:`, recordId);
     }
 
+    return true;
+  }
+
+  async createMany<T>(entity: string, data: Record<string, unknown>[]): Promise<T[]> {
+    return this.transaction(async () => {
+      const created: T[] = [];
+      for (const record of data) {
+        created.push(await this.create<T>(entity, record));
+      }
+      return created;
+    });
+  }
+
+  async updateMany<T>(
+    entity: string,
+    where: Record<string, unknown>,
+    data: Record<string, unknown>
+  ): Promise<T[]> {
+    const matches = await this.findMany<Record<string, unknown>>(entity, { where });
+
+    return this.transaction(async () => {
+      const updated: T[] = [];
+      for (const record of matches.data) {
+        updated.push((await this.update<T>(entity, { id: record.id }, data))!);
+      }
+      return updated;
+    });
+  }
+
+  async deleteMany(entity: string, where: Record<string, unknown>): Promise<number> {
+    const entityStorage = this.storage.get(entity);
+    if (!entityStorage) {
+      throw new Error(`Entity '${entity}' not found`);
+    }
+
+    const schema = this.schemas.get(entity);
+    const deletedAt = new Date();
+
+    let deleted = 0;
+    for (const [id, record] of Array.from(entityStorage.entries())) {
+      if (!isInScope(record, schema) || !matchesWhere(record, where)) continue;
+
+      if (schema?.softDelete) {
+        this.setDeletedAt(entity, entityStorage, [id, record], deletedAt);
+      } else {
+        entityStorage.delete(id);
+        this.changes.emit({ type: 'delete', entity, record });
+      }
+      deleted++;
+    }
+
+    if (this.config.debug) {
+      console.log(`[MemoryStorageDriver] Deleted ${deleted} ${entity} record(s)`);
+    }
+
     return deleted;
   }
 
-  async count(entity: string, where?: Record<string, unknown>): Promise<number> {
+  async transaction<T>(fn: (tx: StorageDriver) => Promise<T>): Promise<T> {
+    // Records are replaced rather than mutated on update, so copying the
+    // per-entity maps is enough to restore them
+    const snapshot = new Map(Array.from(this.storage, ([entity, records]) => [entity, new Map(records)]));
+
+    try {
+      return await this.changes.hold(() => fn(this));
+    } catch (error) {
+      this.storage = snapshot;
+
+      if (this.config.debug) {
+        console.log(`[MemoryStorageDriver] Rolled back transaction`);
+      }
+
+      throw error;
+    }
+  }
+
+  async count(entity: string, where?: Record<string, unknown>, scope?: SoftDeleteScope): Promise<number> {
     const entityStorage = this.storage.get(entity);
     if (!entityStorage) {
       throw new Error(`Entity '${entity}' not found`);
     }
 
-    if (!where) {
+    const schema = this.schemas.get(entity);
+    if (!where && !schema?.softDelete) {
       return entityStorage.size;
     }
 
     let count = 0;
     for (const record of entityStorage.values()) {
-      if (this.matchesWhere(record, where)) {
+      if (isInScope(record, schema, scope) && (!where || matchesWhere(record, where))) {
         count++;
       }
     }
@@ -357,81 +477,76 @@ export class MemoryStorageDriver implements StorageDriver {
     return Array.from(entityStorage.values()) as T[];
   }
 
-  /**
-   * Check if a record matches the where clause
-   */
-  private matchesWhere(record: Record<string, unknown>, where: Record<string, unknown>): boolean {
-    for (const [key, value] of Object.entries(where)) {
-      const recordValue = record[key];
+  async exportSnapshot(): Promise<Snapshot> {
+    const data = Object.fromEntries(Array.from(this.storage, ([entity, records]) => [entity, Array.from(records.values())]));
+    return createSnapshot(Array.from(this.schemas.values()), data);
+  }
 
-      // Handle null comparisons
-      if (value === null) {
-        if (recordValue !== null) return false;
-        continue;
-      }
+  async importSnapshot(snapshot: Snapshot | string, options?: ImportSnapshotOptions): Promise<SnapshotImportResult> {
+    const { data, ...result } = restoreSnapshot(snapshot, Array.from(this.schemas.values()), options);
 
-      // Handle object comparisons (operators like { gte: 5 })
-      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-        if (!this.matchesOperators(recordValue, value as Record<string, unknown>)) {
-          return false;
-        }
-        continue;
+    for (const [entity, records] of this.storage) {
+      records.clear();
+      for (const record of data[entity] ?? []) {
+        records.set(record.id as string, record);
       }
+    }
 
-      // Direct equality
-      if (recordValue !== value) {
-        return false;
-      }
+    if (this.config.debug) {
+      console.log(`[MemoryStorageDriver] Imported snapshot:`, result.counts);
     }
 
-    return true;
+    return result;
+  }
+
+  subscribe<T>(entity: string, where: Record<string, unknown>, callback: ChangeListener<T>): Unsubscribe {
+    if (!this.storage.has(entity)) {
+      throw new Error(`Entity '${entity}' not found`);
+    }
+
+    return this.changes.subscribe(entity, where, callback);
   }
 
   /**
-   * Check if a value matches operator conditions
+   * Find the first record matching a filter within a soft-delete scope
    */
-  private matchesOperators(value: unknown, operators: Record<string, unknown>): boolean {
-    for (const [op, target] of Object.entries(operators)) {
-      switch (op) {
-        case 'equals':
-          if (value !== target) return false;
-          break;
-        case 'not':
-          if (value === target) return false;
-          break;
-        case 'in':
-          if (!Array.isArray(target) || !target.includes(value)) return false;
-          break;
-        case 'notIn':
-          if (Array.isArray(target) && target.includes(value)) return false;
-          break;
-        case 'lt':
-          if (typeof value !== 'number' || typeof target !== 'number' || value >= target) return false;
-          break;
-        case 'lte':
-          if (typeof value !== 'number' || typeof target !== 'number' || value > target) return false;
-          break;
-        case 'gt':
-          if (typeof value !== 'number' || typeof target !== 'number' || value <= target) return false;
-          break;
-        case 'gte':
-          if (typeof value !== 'number' || typeof target !== 'number' || value < target) return false;
-          break;
-        case 'contains':
-          if (typeof value !== 'string' || !value.includes(target as string)) return false;
-          break;
-        case 'startsWith':
-          if (typeof value !== 'string' || !value.startsWith(target as string)) return false;
-          break;
-        case 'endsWith':
-          if (typeof value !== 'string' || !value.endsWith(target as string)) return false;
-          break;
-        default:
-          // Unknown operator, treat as nested equality
-          if (value !== target) return false;
+  private locate(
+    entity: string,
+    entityStorage: Map<string, Record<string, unknown>>,
+    where: Record<string, unknown>,
+    scope?: SoftDeleteScope
+  ): [string, Record<string, unknown>] | null {
+    const schema = this.schemas.get(entity);
+
+    // If searching by ID, direct lookup
+    if (where.id && Object.keys(where).length === 1) {
+      const record = entityStorage.get(where.id as string);
+      return record && isInScope(record, schema, scope) ? [where.id as string, record] : null;
+    }
+
+    // Otherwise, scan for first match
+    for (const [id, record] of entityStorage.entries()) {
+      if (isInScope(record, schema, scope) && matchesWhere(record, where)) {
+        return [id, record];
       }
     }
-    return true;
+
+    return null;
+  }
+
+  /**
+   * Mark a record deleted (or live again when `deletedAt` is null)
+   */
+  private setDeletedAt(
+    entity: string,
+    entityStorage: Map<string, Record<string, unknown>>,
+    [id, previous]: [string, Record<string, unknown>],
+    deletedAt: Date | null
+  ): Record<string, unknown> {
+    const record = { ...previous, [DELETED_AT]: deletedAt };
+    entityStorage.set(id, record);
+    this.changes.emit({ type: 'update', entity, record, previous });
+    return record;
   }
 
   /**
@@ -477,8 +592,14 @@ export class MemoryStorageDriver implements StorageDriver {
     relation: RelationDefinition,
     schemas: Map<string, EntitySchema>
   ): Promise<unknown> {
-    const targetStorage = this.storage.get(relation.target);
-    if (!targetStorage) return relation.type === 'hasMany' ? [] : null;
+    const records = this.storage.get(relation.target);
+    if (!records) return relation.type === 'hasMany' ? [] : null;
+
+    // Soft-deleted related records are never hydrated
+    const targetSchema = this.schemas.get(relation.target);
+    const targetStorage = targetSchema?.softDelete
+      ? new Map(Array.from(records).filter(([, target]) => isInScope(target, targetSchema)))
+      : records;
 
     switch (relation.type) {
       case 'belongsTo': {
@@ -581,8 +702,24 @@ export class MemoryStorageDriver implements StorageDriver {
           data[fieldName] = faker.datatype.boolean();
           break;
         case 'date':
+        case 'datetime':
           data[fieldName] = faker.date.recent();
           break;
+        case 'time':
+          data[fieldName] = faker.date.recent().toISOString().slice(11, 19);
+          break;
+        case 'decimal':
+          data[fieldName] = faker.finance.amount({ dec: field.constraints?.scale ?? 2 });
+          break;
+        case 'bigint':
+          data[fieldName] = faker.number.bigInt({ min: 0, max: 1000000 });
+          break;
+        case 'bytes':
+          data[fieldName] = Uint8Array.from({ length: 16 }, () => faker.number.int(255));
+          break;
+        case 'json':
+          data[fieldName] = {};
+          break;
         case 'enum':
           if (field.values?.length) {
             data[fieldName] = field.values[Math.floor(Math.random() * field.values.length)];
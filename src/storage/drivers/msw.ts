@@ -12,7 +12,22 @@
 import { factory, primaryKey, nullable } from '@mswjs/data';
 import { faker } from '@faker-js/faker';
 import type { EntitySchema, FieldDefinition, RelationDefinition } from '../../schema/types';
-import type { StorageDriver, QueryOptions, QueryMeta, StorageDriverConfig } from '../types';
+import type {
+  StorageDriver,
+  QueryOptions,
+  QueryMeta,
+  SoftDeleteScope,
+  UpdateOptions,
+  StorageDriverConfig,
+  ChangeListener,
+  Unsubscribe,
+} from '../types';
+import { matchesWhere } from '../filter';
+import { ChangeFeed } from '../changes';
+import { DELETED_AT, isInScope } from '../soft-delete';
+import { VERSION, nextVersion } from '../versioning';
+import { getCursorSortKeys, sortByCursorKeys, paginateByCursor } from '../cursor';
+import { createSnapshot, restoreSnapshot, type Snapshot, type ImportSnapshotOptions, type SnapshotImportResult } from '../snapshot';
 
 /**
  * Type for the @mswjs/data database instance
@@ -40,6 +55,10 @@ type MswDatabase = {
  *
  * Features:
  * - Full CRUD operations via @mswjs/data
+ * - Batch writes and snapshot-based transactions
+ * - Soft delete, restore and purge
+ * - Change subscriptions
+ * - Snapshot export and import
  * - Filtering, sorting, pagination
  * - Realistic fake data generation via Faker.js
  * - Compatible with MSW for request interception
@@ -62,6 +81,9 @@ export class MswStorageDriver implements StorageDriver {
   /** Entity schemas for reference */
   private schemas: Map<string, EntitySchema> = new Map();
 
+  /** Subscribers to writes */
+  private changes = new ChangeFeed();
+
   /** Configuration options */
   private config: StorageDriverConfig;
 
@@ -99,9 +121,11 @@ export class MswStorageDriver implements StorageDriver {
       ...data,
       id,
       ...(schema?.timestamps ? { createdAt: data.createdAt ?? now, updatedAt: now } : {}),
+      ...(schema?.versioned ? { [VERSION]: data[VERSION] ?? 1 } : {}),
     };
 
     const result = entityDb.create(record);
+    this.changes.emit({ type: 'insert', entity, record: result as Record<string, unknown> });
 
     if (this.config.debug) {
       console.log(`[MswStorageDriver] Created ${entity}:`, id);
@@ -110,41 +134,36 @@ export class MswStorageDriver implements StorageDriver {
     return result as T;
   }
 
-  async findOne<T>(entity: string, where: Record<string, unknown>): Promise<T | null> {
-    const entityDb = this.getEntityDb(entity);
-    const result = entityDb.findFirst({ where });
+  async findOne<T>(entity: string, where: Record<string, unknown>, scope?: SoftDeleteScope): Promise<T | null> {
+    const [result] = this.findMatching(entity, where, scope);
     return (result as T) || null;
   }
 
   async findMany<T>(entity: string, options?: QueryOptions): Promise<{ data: T[]; meta: QueryMeta }> {
-    const entityDb = this.getEntityDb(entity);
-
-    const query: {
-      where?: Record<string, unknown>;
-      orderBy?: Record<string, 'asc' | 'desc'>;
-      take?: number;
-      skip?: number;
-    } = {};
-
-    if (options?.where) {
-      query.where = options.where;
+    // Filter in JS so where-clause semantics match the other drivers
+    const matches = this.findMatching(entity, options?.where, options);
+
+    // Cursor pagination: keyset over the orderBy fields plus id
+    if (options?.cursor || options?.pagination === 'cursor') {
+      const keys = getCursorSortKeys(options.orderBy);
+      const page = paginateByCursor(sortByCursorKeys(matches, keys), keys, options.cursor, options.limit ?? matches.length);
+      return {
+        data: page.data as T[],
+        meta: { total: matches.length, hasMore: page.hasMore, nextCursor: page.nextCursor, prevCursor: page.prevCursor },
+      };
     }
 
-    if (options?.orderBy) {
-      query.orderBy = options.orderBy;
-    }
+    let results = options?.orderBy ? sortByCursorKeys(matches, getCursorSortKeys(options.orderBy)) : matches;
+    const total = results.length;
 
+    const offset = options?.offset ?? 0;
     if (options?.limit) {
-      query.take = options.limit;
+      results = results.slice(offset, offset + options.limit);
+    } else if (offset) {
+      results = results.slice(offset);
     }
 
-    if (options?.offset) {
-      query.skip = options.offset;
-    }
-
-    const results = entityDb.findMany(query);
-    const total = entityDb.count(query.where ? { where: query.where } : undefined);
-    const hasMore = options?.limit ? results.length === options.limit : false;
+    const hasMore = options?.limit ? offset + results.length < total : false;
 
     return {
       data: results as T[],
@@ -155,51 +174,159 @@ export class MswStorageDriver implements StorageDriver {
   async update<T>(
     entity: string,
     where: Record<string, unknown>,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    options?: UpdateOptions
   ): Promise<T | null> {
     const entityDb = this.getEntityDb(entity);
     const schema = this.schemas.get(entity);
 
+    const [existing] = this.findMatching(entity, where);
+    if (!existing) {
+      return null;
+    }
+
     // Add updated timestamp if schema has timestamps
     const updateData = {
       ...data,
       ...(schema?.timestamps ? { updatedAt: new Date() } : {}),
+      ...nextVersion(entity, schema, existing, options?.expectedVersion),
     };
 
-    try {
-      const result = entityDb.update({ where, data: updateData });
+    const result = entityDb.update({ where: { id: { equals: existing.id } }, data: updateData });
+    this.changes.emit({ type: 'update', entity, record: result as Record<string, unknown>, previous: existing });
 
-      if (this.config.debug) {
-        console.log(`[MswStorageDriver] Updated ${entity}:`, where);
-      }
+    if (this.config.debug) {
+      console.log(`[MswStorageDriver] Updated ${entity}:`, where);
+    }
+
+    return result as T;
+  }
+
+  async delete(entity: string, where: Record<string, unknown>): Promise<boolean> {
+    if (!this.schemas.get(entity)?.softDelete) {
+      return this.purge(entity, where);
+    }
 
-      return result as T;
-    } catch {
-      // Record not found
+    const [existing] = this.findMatching(entity, where);
+    if (!existing) {
+      return false;
+    }
+
+    this.setDeletedAt(entity, existing, new Date());
+
+    if (this.config.debug) {
+      console.log(`[MswStorageDriver] Soft-deleted ${entity}:`, where);
+    }
+
+    return true;
+  }
+
+  async restore<T>(entity: string, where: Record<string, unknown>): Promise<T | null> {
+    const [existing] = this.findMatching(entity, where, { onlyDeleted: true });
+    if (!existing) {
       return null;
     }
+
+    const restored = this.setDeletedAt(entity, existing, null);
+
+    if (this.config.debug) {
+      console.log(`[MswStorageDriver] Restored ${entity}:`, where);
+    }
+
+    return restored as T;
   }
 
-  async delete(entity: string, where: Record<string, unknown>): Promise<boolean> {
+  async purge(entity: string, where: Record<string, unknown>): Promise<boolean> {
+    const entityDb = this.getEntityDb(entity);
+
+    const [existing] = this.findMatching(entity, where, { withDeleted: true });
+    if (!existing) {
+      return false;
+    }
+
+    entityDb.delete({ where: { id: { equals: existing.id } } });
+    this.changes.emit({ type: 'delete', entity, record: existing });
+
+    if (this.config.debug) {
+      console.log(`[MswStorageDriver] Deleted ${entity}:`, where);
+    }
+
+    return true;
+  }
+
+  async createMany<T>(entity: string, data: Record<string, unknown>[]): Promise<T[]> {
+    return this.transaction(async () => {
+      const created: T[] = [];
+      for (const record of data) {
+        created.push(await this.create<T>(entity, record));
+      }
+      return created;
+    });
+  }
+
+  async updateMany<T>(
+    entity: string,
+    where: Record<string, unknown>,
+    data: Record<string, unknown>
+  ): Promise<T[]> {
+    const matches = this.findMatching(entity, where);
+
+    return this.transaction(async () => {
+      const updated: T[] = [];
+      for (const record of matches) {
+        updated.push((await this.update<T>(entity, { id: record.id }, data))!);
+      }
+      return updated;
+    });
+  }
+
+  async deleteMany(entity: string, where: Record<string, unknown>): Promise<number> {
     const entityDb = this.getEntityDb(entity);
+    const matches = this.findMatching(entity, where);
+    const softDelete = this.schemas.get(entity)?.softDelete;
+    const deletedAt = new Date();
+
+    for (const record of matches) {
+      if (softDelete) {
+        this.setDeletedAt(entity, record, deletedAt);
+      } else {
+        entityDb.delete({ where: { id: { equals: record.id } } });
+        this.changes.emit({ type: 'delete', entity, record });
+      }
+    }
+
+    if (this.config.debug) {
+      console.log(`[MswStorageDriver] Deleted ${matches.length} ${entity} record(s)`);
+    }
+
+    return matches.length;
+  }
+
+  async transaction<T>(fn: (tx: StorageDriver) => Promise<T>): Promise<T> {
+    const db = this.getDatabase();
+    const snapshot = new Map(Array.from(this.schemas.keys(), (entity) => [entity, db[entity].getAll()]));
 
     try {
-      entityDb.delete({ where });
+      return await this.changes.hold(() => fn(this));
+    } catch (error) {
+      // @mswjs/data has no rollback: recreate each entity from the snapshot
+      for (const [entity, records] of snapshot) {
+        db[entity].deleteMany({ where: {} });
+        for (const record of records) {
+          db[entity].create(record as Record<string, unknown>);
+        }
+      }
 
       if (this.config.debug) {
-        console.log(`[MswStorageDriver] Deleted ${entity}:`, where);
+        console.log(`[MswStorageDriver] Rolled back transaction`);
       }
 
-      return true;
-    } catch {
-      // Record not found
-      return false;
+      throw error;
     }
   }
 
-  async count(entity: string, where?: Record<string, unknown>): Promise<number> {
-    const entityDb = this.getEntityDb(entity);
-    return entityDb.count(where ? { where } : undefined);
+  async count(entity: string, where?: Record<string, unknown>, scope?: SoftDeleteScope): Promise<number> {
+    return this.findMatching(entity, where, scope).length;
   }
 
   async includeRelations<T>(
@@ -304,6 +431,36 @@ export class MswStorageDriver implements StorageDriver {
     return entityDb.getAll() as T[];
   }
 
+  async exportSnapshot(): Promise<Snapshot> {
+    const db = this.getDatabase();
+    const data = Object.fromEntries(Array.from(this.schemas.keys(), (entity) => [entity, db[entity].getAll()]));
+    return createSnapshot(Array.from(this.schemas.values()), data as Record<string, Record<string, unknown>[]>);
+  }
+
+  async importSnapshot(snapshot: Snapshot | string, options?: ImportSnapshotOptions): Promise<SnapshotImportResult> {
+    const db = this.getDatabase();
+    const { data, ...result } = restoreSnapshot(snapshot, Array.from(this.schemas.values()), options);
+
+    for (const entity of this.schemas.keys()) {
+      db[entity].deleteMany({ where: {} });
+      for (const record of data[entity] ?? []) {
+        db[entity].create(record);
+      }
+    }
+
+    if (this.config.debug) {
+      console.log(`[MswStorageDriver] Imported snapshot:`, result.counts);
+    }
+
+    return result;
+  }
+
+  subscribe<T>(entity: string, where: Record<string, unknown>, callback: ChangeListener<T>): Unsubscribe {
+    // Throws for unknown entities
+    this.getEntityDb(entity);
+    return this.changes.subscribe(entity, where, callback);
+  }
+
   /**
    * Get the raw @mswjs/data database instance.
    * Useful for advanced operations or MSW handler setup.
@@ -315,6 +472,38 @@ export class MswStorageDriver implements StorageDriver {
     return this.db;
   }
 
+  /**
+   * Get all records of an entity that match a where clause within a
+   * soft-delete scope (live records by default)
+   */
+  private findMatching(
+    entity: string,
+    where?: Record<string, unknown>,
+    scope?: SoftDeleteScope
+  ): Record<string, unknown>[] {
+    const schema = this.schemas.get(entity);
+    const records = (this.getEntityDb(entity).getAll() as Record<string, unknown>[]).filter((record) =>
+      isInScope(record, schema, scope)
+    );
+    return where ? records.filter((record) => matchesWhere(record, where)) : records;
+  }
+
+  /**
+   * Mark a record deleted (or live again when `deletedAt` is null)
+   */
+  private setDeletedAt(
+    entity: string,
+    previous: Record<string, unknown>,
+    deletedAt: Date | null
+  ): Record<string, unknown> {
+    const record = this.getEntityDb(entity).update({
+      where: { id: { equals: previous.id } },
+      data: { [DELETED_AT]: deletedAt },
+    }) as Record<string, unknown>;
+    this.changes.emit({ type: 'update', entity, record, previous });
+    return record;
+  }
+
   /**
    * Get the entity-specific database interface
    */
@@ -354,6 +543,11 @@ export class MswStorageDriver implements StorageDriver {
       factoryDef[fieldName] = this.createFieldGenerator(fieldName, fieldDef);
     }
 
+    // Records are created live
+    if (schema.softDelete) {
+      factoryDef[DELETED_AT] = nullable<Date>(() => null);
+    }
+
     // Add timestamp fields if enabled
     if (schema.timestamps) {
       factoryDef.createdAt = () => faker.date.recent({ days: 30 });
@@ -414,7 +608,18 @@ export class MswStorageDriver implements StorageDriver {
       case 'boolean':
         return faker.datatype.boolean();
       case 'date':
+      case 'datetime':
         return faker.date.recent();
+      case 'time':
+        return faker.date.recent().toISOString().slice(11, 19);
+      case 'decimal':
+        return faker.finance.amount({ dec: fieldDef.constraints?.scale ?? 2 });
+      case 'bigint':
+        return faker.number.bigInt({ min: 0, max: 1000000 });
+      case 'bytes':
+        return Uint8Array.from({ length: 16 }, () => faker.number.int(255));
+      case 'json':
+        return {};
       case 'ref':
         return faker.string.uuid();
       default:
@@ -487,17 +692,23 @@ export class MswStorageDriver implements StorageDriver {
     const targetDb = this.db[relation.target];
     if (!targetDb) return relation.type === 'hasMany' ? [] : null;
 
+    // Soft-deleted related records are never hydrated
+    const targetSchema = this.schemas.get(relation.target);
+    const live = (related: unknown[]) =>
+      (related as Record<string, unknown>[]).filter((target) => isInScope(target, targetSchema));
+
     switch (relation.type) {
       case 'belongsTo': {
         const foreignKey = relation.foreignKey || `${relation.target}Id`;
         const foreignKeyValue = record[foreignKey];
         if (!foreignKeyValue) return null;
-        return targetDb.findFirst({ where: { id: foreignKeyValue } });
+        const target = targetDb.findFirst({ where: { id: { equals: foreignKeyValue } } });
+        return live(target ? [target] : [])[0] ?? null;
       }
 
       case 'hasOne': {
         const foreignKey = relation.foreignKey || `${schemas.get(relation.target)?.name}Id`;
-        return targetDb.findFirst({ where: { [foreignKey]: record.id } });
+        return live(targetDb.findMany({ where: { [foreignKey]: { equals: record.id } } }))[0] ?? null;
       }
 
       case 'hasMany': {
@@ -508,20 +719,16 @@ export class MswStorageDriver implements StorageDriver {
         const query: {
           where: Record<string, unknown>;
           orderBy?: Record<string, 'asc' | 'desc'>;
-          take?: number;
         } = {
-          where: { [foreignKey]: record.id },
+          where: { [foreignKey]: { equals: record.id } },
         };
 
         if (relation.orderBy) {
           query.orderBy = relation.orderBy;
         }
 
-        if (relation.limit) {
-          query.take = relation.limit;
-        }
-
-        return targetDb.findMany(query);
+        const related = live(targetDb.findMany(query));
+        return relation.limit ? related.slice(0, relation.limit) : related;
       }
 
       default:
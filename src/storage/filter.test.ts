@@ -0,0 +1,91 @@
+/**
+ * Unit tests for where-clause filtering shared by the storage drivers
+ */
+import { describe, it, expect } from 'vitest';
+import { matchesWhere, InvalidFilterError } from './filter';
+import { MemoryStorageDriver, MswStorageDriver, LocalStorageDriver } from './drivers';
+import { defineData, field } from '../schema';
+import type { StorageDriver } from './types';
+
+const rows: Record<string, unknown>[] = [
+  { id: '1', name: 'Alice', role: 'admin', age: 34, tags: ['a', 'b'], deletedAt: null, createdAt: new Date('2024-01-10') },
+  { id: '2', name: 'bob', role: 'user', age: 19, tags: ['b'], deletedAt: new Date('2024-03-01'), createdAt: new Date('2024-02-10') },
+  { id: '3', name: 'Carol', role: null, age: 52, tags: [], deletedAt: null, createdAt: new Date('2024-03-10') },
+];
+
+function ids(where: Record<string, unknown>): string[] {
+  return rows.filter((row) => matchesWhere(row, where)).map((row) => row.id as string);
+}
+
+describe('matchesWhere', () => {
+  it('combines clauses with AND, OR and NOT', () => {
+    expect(ids({ OR: [{ role: 'admin' }, { age: { lt: 20 } }] })).toEqual(['1', '2']);
+    expect(ids({ AND: [{ age: { gt: 18 } }, { age: { lt: 40 } }] })).toEqual(['1', '2']);
+    expect(ids({ NOT: [{ role: 'admin' }, { name: 'Carol' }] })).toEqual(['2']);
+    expect(ids({ OR: [] })).toEqual([]);
+  });
+
+  it('supports case-insensitive string matching', () => {
+    expect(ids({ name: { contains: 'B' } })).toEqual([]);
+    expect(ids({ name: { contains: 'B', mode: 'insensitive' } })).toEqual(['2']);
+    expect(ids({ name: { equals: 'ALICE', mode: 'insensitive' } })).toEqual(['1']);
+  });
+
+  it('treats comparisons with null as unknown, like SQL', () => {
+    expect(ids({ role: { not: 'admin' } })).toEqual(['2']);
+    expect(ids({ role: { notIn: ['admin'] } })).toEqual(['2']);
+    expect(ids({ NOT: { role: 'admin' } })).toEqual(['2']);
+    expect(ids({ role: null })).toEqual(['3']);
+    expect(ids({ deletedAt: { isNull: false } })).toEqual(['2']);
+  });
+
+  it('compares dates and ISO date strings', () => {
+    expect(ids({ createdAt: { gte: new Date('2024-02-01'), lt: '2024-03-01' } })).toEqual(['2']);
+    expect(ids({ createdAt: new Date('2024-01-10') })).toEqual(['1']);
+  });
+
+  it('supports array operators', () => {
+    expect(ids({ tags: { has: 'b' } })).toEqual(['1', '2']);
+    expect(ids({ tags: { hasSome: ['a', 'z'] } })).toEqual(['1']);
+    expect(ids({ tags: { hasEvery: ['a', 'b'] } })).toEqual(['1']);
+  });
+
+  it('rejects unknown operators', () => {
+    expect(() => ids({ name: { like: 'A%' } })).toThrow(InvalidFilterError);
+    expect(() => ids({ name: { contains: 'a', mode: 'fuzzy' } })).toThrow('Invalid filter mode: fuzzy');
+    expect(() => ids({ OR: { role: 'admin' } })).toThrow('OR expects an array of where clauses');
+  });
+});
+
+describe('storage drivers', () => {
+  const User = defineData('user', {
+    id: field.uuid(),
+    name: field.string(),
+    age: field.number(),
+  });
+
+  const drivers: [string, () => StorageDriver][] = [
+    ['memory', () => new MemoryStorageDriver()],
+    ['msw', () => new MswStorageDriver()],
+    ['localStorage', () => new LocalStorageDriver()],
+  ];
+
+  it.each(drivers)('%s driver applies the shared filter semantics', async (_name, createDriver) => {
+    const driver = createDriver();
+    await driver.initialize([User]);
+    await driver.create('user', { id: 'u1', name: 'Alice', age: 34 });
+    await driver.create('user', { id: 'u2', name: 'bob', age: 19 });
+    await driver.create('user', { id: 'u3', name: 'Carol', age: 52 });
+
+    const { data, meta } = await driver.findMany<{ id: string }>('user', {
+      where: { OR: [{ name: { startsWith: 'B', mode: 'insensitive' } }, { age: { gte: 50 } }] },
+      orderBy: { age: 'asc' },
+    });
+
+    expect(data.map((u) => u.id)).toEqual(['u2', 'u3']);
+    expect(meta.total).toBe(2);
+    expect(await driver.count('user', { NOT: { name: 'Alice' } })).toBe(2);
+    expect(await driver.findOne('user', { id: 'u1' })).toMatchObject({ name: 'Alice' });
+    await expect(driver.findMany('user', { where: { name: { regex: '^A' } } })).rejects.toThrow(InvalidFilterError);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Where-Clause Filtering - Shared filter semantics for storage drivers
+ *
+ * A where clause maps field names to a value (equality), `null` (IS NULL)
+ * or an operator object, and may combine clauses with `AND`, `OR` and `NOT`.
+ * Conditions are evaluated with SQL three-valued logic so a filter selects
+ * exactly the same rows in memory as it does against PostgreSQL: comparing
+ * a null field to anything is unknown, and unknown rows never match, even
+ * under `not`/`notIn`/`NOT`.
+ *
+ * @module storage/filter
+ * @category Storage
+ */
+
+/**
+ * Operators accepted in a field condition
+ */
+export interface FieldOperators {
+  /** Equal to (null means IS NULL) */
+  equals?: unknown;
+  /** Not equal to a value, or not matching a nested operator object */
+  not?: unknown;
+  /** One of the listed values */
+  in?: unknown[];
+  /** None of the listed values */
+  notIn?: unknown[];
+  /** Less than (numbers, strings, Dates or ISO date strings) */
+  lt?: unknown;
+  /** Less than or equal */
+  lte?: unknown;
+  /** Greater than */
+  gt?: unknown;
+  /** Greater than or equal */
+  gte?: unknown;
+  /** Substring match */
+  contains?: string;
+  /** Prefix match */
+  startsWith?: string;
+  /** Suffix match */
+  endsWith?: string;
+  /** 'insensitive' makes equals/not/contains/startsWith/endsWith ignore case */
+  mode?: 'default' | 'insensitive';
+  /** true matches null/missing values, false matches present values */
+  isNull?: boolean;
+  /** Array field contains the value */
+  has?: unknown;
+  /** Array field contains at least one of the values */
+  hasSome?: unknown[];
+  /** Array field contains all of the values */
+  hasEvery?: unknown[];
+}
+
+/**
+ * Names of all supported field operators
+ */
+export const FIELD_OPERATORS: ReadonlyArray<keyof FieldOperators> = [
+  'equals',
+  'not',
+  'in',
+  'notIn',
+  'lt',
+  'lte',
+  'gt',
+  'gte',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'mode',
+  'isNull',
+  'has',
+  'hasSome',
+  'hasEvery',
+];
+
+/**
+ * Error thrown when a where clause uses an unknown operator or an invalid operand
+ */
+export class InvalidFilterError extends Error {
+  /** Error code for programmatic handling */
+  readonly code = 'INVALID_FILTER';
+
+  /** HTTP status for API responses */
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFilterError';
+  }
+}
+
+/** SQL truth value: true, false or unknown (null) */
+type Truth = boolean | null;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Check if a record matches a where clause
+ *
+ * @param record - The record to test
+ * @param where - Where clause (field conditions plus AND/OR/NOT groups)
+ * @returns True only if the clause is definitely true for the record
+ * @throws InvalidFilterError for unknown operators or malformed operands
+ *
+ * @example
+ * ```typescript
+ * matchesWhere(user, {
+ *   OR: [{ role: 'admin' }, { email: { endsWith: '@acme.com', mode: 'insensitive' } }],
+ *   createdAt: { gte: new Date('2024-01-01') },
+ *   NOT: { tags: { has: 'banned' } },
+ * });
+ * ```
+ */
+export function matchesWhere(record: Record<string, unknown>, where: Record<string, unknown>): boolean {
+  return evaluateWhere(record, where) === true;
+}
+
+function evaluateWhere(record: Record<string, unknown>, where: Record<string, unknown>): Truth {
+  const results: Truth[] = [];
+
+  for (const [key, condition] of Object.entries(where)) {
+    // Undefined conditions are ignored so optional filters can be spread in
+    if (condition === undefined) continue;
+
+    switch (key) {
+      case 'AND':
+        results.push(and(toClauses('AND', condition).map((clause) => evaluateWhere(record, clause))));
+        break;
+      case 'OR':
+        if (!Array.isArray(condition)) {
+          throw new InvalidFilterError('OR expects an array of where clauses');
+        }
+        results.push(or(toClauses('OR', condition).map((clause) => evaluateWhere(record, clause))));
+        break;
+      case 'NOT':
+        results.push(and(toClauses('NOT', condition).map((clause) => not(evaluateWhere(record, clause)))));
+        break;
+      default:
+        results.push(evaluateField(record[key], condition));
+    }
+  }
+
+  return and(results);
+}
+
+function toClauses(group: string, condition: unknown): Record<string, unknown>[] {
+  const clauses = Array.isArray(condition) ? condition : [condition];
+  for (const clause of clauses) {
+    if (!isOperatorObject(clause)) {
+      throw new InvalidFilterError(`${group} expects where clauses`);
+    }
+  }
+  return clauses as Record<string, unknown>[];
+}
+
+function evaluateField(value: unknown, condition: unknown): Truth {
+  if (condition === null) return isNull(value);
+  if (isOperatorObject(condition)) return evaluateOperators(value, condition, false);
+  return equals(value, condition, false);
+}
+
+function evaluateOperators(value: unknown, operators: Record<string, unknown>, inheritedInsensitive: boolean): Truth {
+  const mode = operators.mode;
+  if (mode !== undefined && mode !== 'default' && mode !== 'insensitive') {
+    throw new InvalidFilterError(`Invalid filter mode: ${String(mode)}`);
+  }
+  const insensitive = mode === undefined ? inheritedInsensitive : mode === 'insensitive';
+  const results: Truth[] = [];
+
+  for (const [op, target] of Object.entries(operators)) {
+    if (target === undefined) continue;
+
+    switch (op) {
+      case 'mode':
+        break;
+      case 'equals':
+        results.push(target === null ? isNull(value) : equals(value, target, insensitive));
+        break;
+      case 'not':
+        if (target === null) {
+          results.push(!isNull(value));
+        } else if (isOperatorObject(target)) {
+          results.push(not(evaluateOperators(value, target, insensitive)));
+        } else {
+          results.push(not(equals(value, target, insensitive)));
+        }
+        break;
+      case 'in':
+        results.push(inList(value, toOperandArray(op, target)));
+        break;
+      case 'notIn':
+        results.push(not(inList(value, toOperandArray(op, target))));
+        break;
+      case 'lt':
+      case 'lte':
+      case 'gt':
+      case 'gte':
+        results.push(compareWith(op, value, target));
+        break;
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith':
+        results.push(matchString(op, value, target, insensitive));
+        break;
+      case 'isNull':
+        if (typeof target !== 'boolean') {
+          throw new InvalidFilterError('isNull expects a boolean');
+        }
+        results.push(isNull(value) === target);
+        break;
+      case 'has':
+        results.push(arrayHas(value, [target], 'some'));
+        break;
+      case 'hasSome':
+        results.push(arrayHas(value, toOperandArray(op, target), 'some'));
+        break;
+      case 'hasEvery':
+        results.push(arrayHas(value, toOperandArray(op, target), 'every'));
+        break;
+      default:
+        throw new InvalidFilterError(`Unknown filter operator: ${op}`);
+    }
+  }
+
+  return and(results);
+}
+
+function toOperandArray(op: string, target: unknown): unknown[] {
+  if (!Array.isArray(target)) {
+    throw new InvalidFilterError(`${op} expects an array`);
+  }
+  return target;
+}
+
+function isNull(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function equals(value: unknown, target: unknown, insensitive: boolean): Truth {
+  if (isNull(value)) return null;
+  return valuesEqual(value, target, insensitive);
+}
+
+function inList(value: unknown, list: unknown[]): Truth {
+  // An empty list matches nothing, even null values (like `= ANY('{}')`)
+  if (list.length === 0) return false;
+  if (isNull(value)) return null;
+  if (list.some((item) => !isNull(item) && valuesEqual(value, item, false))) return true;
+  return list.some(isNull) ? null : false;
+}
+
+function compareWith(op: 'lt' | 'lte' | 'gt' | 'gte', value: unknown, target: unknown): Truth {
+  if (isNull(value) || isNull(target)) return null;
+  const diff = compareValues(value, target);
+  if (diff === undefined) return null;
+  switch (op) {
+    case 'lt':
+      return diff < 0;
+    case 'lte':
+      return diff <= 0;
+    case 'gt':
+      return diff > 0;
+    case 'gte':
+      return diff >= 0;
+  }
+}
+
+function matchString(op: 'contains' | 'startsWith' | 'endsWith', value: unknown, target: unknown, insensitive: boolean): Truth {
+  if (typeof target !== 'string') {
+    throw new InvalidFilterError(`${op} expects a string`);
+  }
+  if (isNull(value)) return null;
+  if (typeof value !== 'string') return false;
+
+  const haystack = insensitive ? value.toLowerCase() : value;
+  const needle = insensitive ? target.toLowerCase() : target;
+  if (op === 'contains') return haystack.includes(needle);
+  if (op === 'startsWith') return haystack.startsWith(needle);
+  return haystack.endsWith(needle);
+}
+
+function arrayHas(value: unknown, targets: unknown[], mode: 'some' | 'every'): Truth {
+  if (mode === 'some' && targets.length === 0) return false;
+  if (isNull(value)) return null;
+  if (!Array.isArray(value)) return false;
+  const contains = (target: unknown) => value.some((item) => valuesEqual(item, target, false));
+  return mode === 'some' ? targets.some(contains) : targets.every(contains);
+}
+
+function valuesEqual(a: unknown, b: unknown, insensitive: boolean): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    const ta = toTime(a);
+    return ta !== undefined && ta === toTime(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i], insensitive));
+  }
+  if (insensitive && typeof a === 'string' && typeof b === 'string') {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return a === b;
+}
+
+function compareValues(a: unknown, b: unknown): number | undefined {
+  if (a instanceof Date || b instanceof Date || (isIsoDate(a) && isIsoDate(b))) {
+    const ta = toTime(a);
+    const tb = toTime(b);
+    return ta === undefined || tb === undefined ? undefined : ta - tb;
+  }
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return undefined;
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE.test(value);
+}
+
+function toTime(value: unknown): number | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' || typeof value === 'number') {
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function and(results: Truth[]): Truth {
+  if (results.includes(false)) return false;
+  return results.includes(null) ? null : true;
+}
+
+function or(results: Truth[]): Truth {
+  if (results.includes(true)) return true;
+  return results.includes(null) ? null : false;
+}
+
+function not(result: Truth): Truth {
+  return result === null ? null : !result;
+}
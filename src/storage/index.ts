@@ -35,8 +35,41 @@ export type {
   StorageDriverConfig,
   QueryOptions,
   QueryMeta,
+  SoftDeleteScope,
+  UpdateOptions,
+  ChangeEvent,
+  ChangeListener,
+  Unsubscribe,
 } from './types';
 
+// Where-clause filtering
+export { matchesWhere, InvalidFilterError, FIELD_OPERATORS } from './filter';
+export type { FieldOperators } from './filter';
+
+// Cursor pagination
+export {
+  encodeCursor,
+  decodeCursor,
+  getCursorSortKeys,
+  sortByCursorKeys,
+  paginateByCursor,
+  InvalidCursorError,
+} from './cursor';
+export type { CursorDirection, CursorSortKey, DecodedCursor, CursorPage } from './cursor';
+
+// Soft delete
+export { DELETED_AT, isDeleted, isInScope } from './soft-delete';
+
+// Optimistic concurrency
+export { VERSION, ConflictError, nextVersion } from './versioning';
+
+// Change subscriptions
+export { ChangeFeed } from './changes';
+
+// Snapshots
+export { createSnapshot, restoreSnapshot, schemaVersion, SnapshotError, SNAPSHOT_FORMAT, SNAPSHOT_VERSION } from './snapshot';
+export type { Snapshot, ImportSnapshotOptions, SnapshotImportResult, RestoredSnapshot } from './snapshot';
+
 // Drivers
 export { MemoryStorageDriver, MswStorageDriver, LocalStorageDriver } from './drivers';
 export type { LocalStorageDriverConfig } from './drivers';
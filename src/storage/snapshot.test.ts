@@ -0,0 +1,148 @@
+/**
+ * Unit tests for snapshot export/import across the storage drivers
+ */
+import { describe, it, expect } from 'vitest';
+import { MemoryStorageDriver, MswStorageDriver, LocalStorageDriver } from './drivers';
+import { createSnapshot, restoreSnapshot, schemaVersion, SnapshotError } from './snapshot';
+import { defineData, field } from '../schema';
+import type { StorageDriver } from './types';
+
+const User = defineData('user', {
+  id: field.uuid(),
+  name: field.string(),
+  role: field.enum(['admin', 'member']).default('member'),
+}, { softDelete: true });
+
+const Post = defineData('post', {
+  id: field.uuid(),
+  title: field.string(),
+  views: field.number(),
+  authorId: field.ref('user'),
+});
+
+const drivers: [string, () => StorageDriver][] = [
+  ['memory', () => new MemoryStorageDriver()],
+  ['msw', () => new MswStorageDriver()],
+  ['localStorage', () => new LocalStorageDriver()],
+];
+
+describe.each(drivers)('%s driver snapshots', (_name, createDriver) => {
+  it('round-trips every record, including soft-deleted ones', async () => {
+    const source = createDriver();
+    await source.initialize([User, Post]);
+    const ada = await source.create<{ id: string }>('user', { name: 'Ada' });
+    const bob = await source.create<{ id: string }>('user', { name: 'Bob', role: 'admin' });
+    await source.create('post', { title: 'Hello', views: 3, authorId: ada.id });
+    await source.delete('user', { id: bob.id });
+
+    const snapshot = JSON.stringify(await source.exportSnapshot());
+
+    const target = createDriver();
+    await target.initialize([User, Post]);
+    await target.create('post', { title: 'Stale', views: 0, authorId: ada.id });
+    const result = await target.importSnapshot(snapshot);
+
+    expect(result.changes).toEqual([]);
+    expect(result.counts).toEqual({ user: 2, post: 1 });
+    expect(await target.getAll('user')).toMatchObject(await source.getAll('user'));
+    expect(await target.getAll('post')).toMatchObject(await source.getAll('post'));
+    expect(await target.findOne('user', { id: bob.id })).toBeNull();
+    expect(await target.findOne('user', { id: bob.id }, { withDeleted: true })).toMatchObject({ name: 'Bob' });
+  });
+
+  it('does not notify subscribers and keeps data when the import fails', async () => {
+    const driver = createDriver();
+    await driver.initialize([User, Post]);
+    await driver.create('user', { name: 'Ada' });
+    const events: unknown[] = [];
+    driver.subscribe('user', {}, (event) => events.push(event));
+
+    await driver.importSnapshot(createSnapshot([User, Post], { user: [], post: [] }));
+    expect(await driver.getAll('user')).toEqual([]);
+    expect(events).toEqual([]);
+
+    await driver.create('user', { name: 'Ada' });
+    await expect(driver.importSnapshot('{"data":{"user":[{"name":"No id"}]}}')).rejects.toThrow(SnapshotError);
+    expect(await driver.count('user')).toBe(1);
+  });
+});
+
+describe('restoreSnapshot', () => {
+  const taken = createSnapshot([User, Post], {
+    user: [{ id: 'u1', name: 'Ada', role: 'admin', createdAt: new Date('2024-01-01'), updatedAt: new Date('2024-01-02'), deletedAt: null }],
+    post: [{ id: 'p1', title: 'Hello', views: '12', authorId: 'u1', createdAt: new Date('2024-01-03'), updatedAt: new Date('2024-01-03') }],
+  });
+
+  it('records the schema version and serializes dates', () => {
+    expect(taken.format).toBe('schemock-snapshot');
+    expect(taken.schemaVersion).toBe(schemaVersion([Post, User]));
+    expect(taken.schemas.post.views).toBe('number');
+    expect(taken.data.user[0].createdAt).toBe('2024-01-01T00:00:00.000Z');
+
+    const restored = restoreSnapshot(JSON.stringify(taken), [User, Post]);
+    expect(restored.data.user[0].createdAt).toEqual(new Date('2024-01-01'));
+    expect(restored.data.post[0].views).toBe(12);
+  });
+
+  it('migrates added, removed, renamed and retyped fields', () => {
+    const Member = defineData('member', {
+      id: field.uuid(),
+      fullName: field.string(),
+      role: field.enum(['admin', 'member']).default('member'),
+      active: field.boolean().default(true),
+    }, { softDelete: true });
+    const Article = defineData('post', {
+      id: field.uuid(),
+      headline: field.string(),
+      views: field.string(),
+      authorId: field.ref('member'),
+      summary: field.string().nullable(),
+    });
+
+    const restored = restoreSnapshot(taken, [Member, Article], {
+      renames: { user: 'member', 'user.name': 'fullName', 'post.title': 'headline' },
+    });
+
+    expect(restored.schemaVersion).toBe(taken.schemaVersion);
+    expect(restored.data.member[0]).toMatchObject({ id: 'u1', fullName: 'Ada', role: 'admin', active: true });
+    expect(restored.data.post[0]).toMatchObject({ headline: 'Hello', views: '12', summary: null });
+    expect(restored.changes).toEqual([
+      'renamed user to member',
+      'renamed member.name to fullName',
+      'added member.active (default true)',
+      'renamed post.title to headline',
+      'converted post.views from number to string',
+      'added post.summary (null)',
+    ]);
+  });
+
+  it('drops entities that are no longer in the schemas', () => {
+    const restored = restoreSnapshot(taken, [Post]);
+
+    expect(Object.keys(restored.data)).toEqual(['post']);
+    expect(restored.changes).toContain('dropped user: no longer in the schemas (1 records)');
+  });
+
+  it('rejects snapshots that cannot be migrated', () => {
+    const Strict = defineData('post', {
+      id: field.uuid(),
+      title: field.string(),
+      views: field.number(),
+      authorId: field.string(),
+      slug: field.string(),
+    });
+    const cases: [Parameters<typeof restoreSnapshot>[0], string][] = [
+      ['not json', 'Snapshot is not valid JSON'],
+      ['{"rows":[]}', 'Snapshot has no data'],
+      [{ ...taken, version: 2 }, 'Snapshot version 2 is newer than this Schemock supports (1)'],
+      [{ data: { post: [{ ...taken.data.post[0], views: 'many' }] } }, 'post[0].views is "many", which is not a number'],
+      [{ data: { user: [{ ...taken.data.user[0], role: 'owner' }] } }, 'user[0].role is "owner", expected one of admin, member'],
+    ];
+
+    for (const [input, message] of cases) {
+      expect(() => restoreSnapshot(input, [User, Post])).toThrow(SnapshotError);
+      expect(() => restoreSnapshot(input, [User, Post])).toThrow(message);
+    }
+    expect(() => restoreSnapshot(taken, [User, Strict])).toThrow('post[0].slug is required but missing, and the field has no default');
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Snapshots - Portable copies of a mock database
+ *
+ * A snapshot holds every record per entity plus the field types it was
+ * taken with, so a tester's data can be loaded elsewhere. Importing checks
+ * the records against the current schemas and migrates them field by
+ * field: new fields get their default (or null), removed fields are
+ * dropped, renamed fields are moved and changed types are converted.
+ *
+ * Scenario datasets (`{ data }` files written by `schemock seed`) use the
+ * same `data` layout and import the same way.
+ *
+ * @module storage/snapshot
+ * @category Storage
+ */
+
+import type { EntitySchema, FieldDefinition } from '../schema/types';
+
+/**
+ * Format marker of snapshot files
+ */
+export const SNAPSHOT_FORMAT = 'schemock-snapshot';
+
+/**
+ * Current snapshot file version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * A serialized database: records per entity with schema-version metadata
+ */
+export interface Snapshot {
+  /** Always `'schemock-snapshot'` */
+  format: typeof SNAPSHOT_FORMAT;
+  /** Snapshot file version */
+  version: number;
+  /** When the snapshot was taken (ISO string) */
+  createdAt: string;
+  /** Hash of the entities and field types the snapshot was taken with */
+  schemaVersion: string;
+  /** Field types per entity at the time of the snapshot */
+  schemas: Record<string, Record<string, string>>;
+  /** Records per entity, as JSON values */
+  data: Record<string, Record<string, unknown>[]>;
+}
+
+/**
+ * Options for importing a snapshot
+ */
+export interface ImportSnapshotOptions {
+  /**
+   * Renames since the snapshot was taken: `{ 'user.fullName': 'name' }`
+   * moves a field, `{ person: 'user' }` an entity
+   */
+  renames?: Record<string, string>;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface SnapshotImportResult {
+  /** Schema version of the imported snapshot */
+  schemaVersion: string;
+  /** Migrations applied, one line each (empty when the schemas match) */
+  changes: string[];
+  /** Imported records per entity */
+  counts: Record<string, number>;
+}
+
+/**
+ * Records of a snapshot checked and migrated against the current schemas
+ */
+export interface RestoredSnapshot extends SnapshotImportResult {
+  /** Records per entity, with dates revived */
+  data: Record<string, Record<string, unknown>[]>;
+}
+
+/**
+ * Error thrown when a snapshot cannot be read or migrated
+ */
+export class SnapshotError extends Error {
+  /** Error code for programmatic handling */
+  readonly code = 'INVALID_SNAPSHOT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+const STRING_TYPES = new Set(['string', 'text', 'email', 'url', 'uuid', 'ref', 'enum', 'decimal', 'bigint', 'bytes']);
+const NUMBER_TYPES = new Set(['number', 'int', 'float']);
+const DATE_TYPES = new Set(['date', 'datetime']);
+
+/**
+ * Hash of the entity names and field types, stable across field order
+ *
+ * @param schemas - Entity schemas
+ * @returns Short hex digest
+ */
+export function schemaVersion(schemas: EntitySchema[]): string {
+  return digest(JSON.stringify(fieldTypes(schemas)));
+}
+
+/**
+ * Build a snapshot from the records of every entity.
+ *
+ * @param schemas - Entity schemas the records belong to
+ * @param data - Records per entity, as returned by the storage (e.g. `@mswjs/data` entities)
+ * @returns The snapshot, ready for `JSON.stringify`
+ */
+export function createSnapshot(schemas: EntitySchema[], data: Record<string, readonly object[]>): Snapshot {
+  const types = fieldTypes(schemas);
+  const records: Record<string, Record<string, unknown>[]> = {};
+
+  for (const schema of schemas) {
+    records[schema.name] = (data[schema.name] ?? []).map((record) => toJson(record) as Record<string, unknown>);
+  }
+
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersion: digest(JSON.stringify(types)),
+    schemas: types,
+    data: records,
+  };
+}
+
+/**
+ * Read a snapshot and migrate its records to the current schemas.
+ *
+ * @param input - Snapshot, its JSON text, or a `{ data }` scenario dataset
+ * @param schemas - Current entity schemas
+ * @param options - Renames since the snapshot was taken
+ * @returns Records ready to store, with the applied migrations
+ * @throws SnapshotError when the input is not a snapshot or a record
+ *   cannot be migrated (a new required field without a default, an
+ *   unconvertible value, an unknown enum value)
+ */
+export function restoreSnapshot(
+  input: Snapshot | string | { data: Record<string, Record<string, unknown>[]> },
+  schemas: EntitySchema[],
+  options: ImportSnapshotOptions = {}
+): RestoredSnapshot {
+  const snapshot = parseSnapshot(input);
+  const renames = options.renames ?? {};
+  const byName = new Map(schemas.map((schema) => [schema.name, schema]));
+  const changes: string[] = [];
+  const data: Record<string, Record<string, unknown>[]> = {};
+  const counts: Record<string, number> = {};
+
+  for (const [snapshotEntity, rows] of Object.entries(snapshot.data)) {
+    const entity = renames[snapshotEntity] ?? snapshotEntity;
+    const schema = byName.get(entity);
+
+    if (!schema) {
+      changes.push(`dropped ${snapshotEntity}: no longer in the schemas (${rows.length} records)`);
+      continue;
+    }
+    if (entity !== snapshotEntity) {
+      changes.push(`renamed ${snapshotEntity} to ${entity}`);
+    }
+
+    const previous = snapshot.schemas?.[snapshotEntity];
+    const plan = migrationPlan(schema, snapshotEntity, previous, rows, renames);
+    changes.push(...plan.changes);
+
+    data[entity] = rows.map((row, index) => migrateRecord(schema, row, plan.moves, `${entity}[${index}]`));
+    counts[entity] = rows.length;
+  }
+
+  return { schemaVersion: snapshot.schemaVersion ?? schemaVersion(schemas), changes, counts, data };
+}
+
+/**
+ * Parse snapshot JSON or check a snapshot object
+ */
+function parseSnapshot(input: Snapshot | string | { data: Record<string, Record<string, unknown>[]> }): Partial<Snapshot> & Pick<Snapshot, 'data'> {
+  let value: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new SnapshotError(`Snapshot is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const snapshot = value as Partial<Snapshot>;
+  if (typeof snapshot !== 'object' || snapshot === null || typeof snapshot.data !== 'object' || snapshot.data === null) {
+    throw new SnapshotError('Snapshot has no data');
+  }
+  if (snapshot.format === SNAPSHOT_FORMAT && (snapshot.version ?? 0) > SNAPSHOT_VERSION) {
+    throw new SnapshotError(`Snapshot version ${snapshot.version} is newer than this Schemock supports (${SNAPSHOT_VERSION})`);
+  }
+  for (const [entity, rows] of Object.entries(snapshot.data)) {
+    if (!Array.isArray(rows)) {
+      throw new SnapshotError(`Snapshot data for ${entity} is not a list of records`);
+    }
+  }
+  return snapshot as Partial<Snapshot> & Pick<Snapshot, 'data'>;
+}
+
+/**
+ * Work out which snapshot field feeds each current field and describe the
+ * differences. Without recorded field types the fields present in the
+ * records are compared instead.
+ */
+function migrationPlan(
+  schema: EntitySchema,
+  snapshotEntity: string,
+  previous: Record<string, string> | undefined,
+  rows: Record<string, unknown>[],
+  renames: Record<string, string>
+): { moves: Map<string, string>; changes: string[] } {
+  const oldFields = previous
+    ? Object.keys(previous)
+    : Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const moves = new Map<string, string>();
+  const changes: string[] = [];
+
+  for (const oldField of oldFields) {
+    const renamed = renames[`${snapshotEntity}.${oldField}`];
+    const field = renamed ?? oldField;
+    if (!schema.fields[field]) {
+      changes.push(`dropped ${schema.name}.${oldField}: no longer in the schema`);
+      continue;
+    }
+    moves.set(field, oldField);
+    if (renamed) {
+      changes.push(`renamed ${schema.name}.${oldField} to ${field}`);
+    }
+    const oldType = previous?.[oldField];
+    if (oldType && oldType !== schema.fields[field].type) {
+      changes.push(`converted ${schema.name}.${field} from ${oldType} to ${schema.fields[field].type}`);
+    }
+  }
+
+  for (const [name, field] of Object.entries(schema.fields)) {
+    if (moves.has(name)) continue;
+    if (previous || rows.length > 0) {
+      changes.push(`added ${schema.name}.${name} (${describeFill(field)})`);
+    }
+  }
+
+  return { moves, changes };
+}
+
+function describeFill(field: FieldDefinition): string {
+  if (field.default !== undefined) return `default ${JSON.stringify(toJson(field.default))}`;
+  if (field.nullable) return 'null';
+  if (field.readOnly && DATE_TYPES.has(field.type)) return 'now';
+  return 'required';
+}
+
+/**
+ * Migrate one record: move renamed fields, fill new ones and convert values
+ * to the current field types
+ */
+function migrateRecord(
+  schema: EntitySchema,
+  row: Record<string, unknown>,
+  moves: Map<string, string>,
+  path: string
+): Record<string, unknown> {
+  if (row.id === undefined || row.id === null) {
+    throw new SnapshotError(`${path} has no id`);
+  }
+
+  const record: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(schema.fields)) {
+    const source = moves.get(name);
+    const value = source !== undefined ? row[source] : undefined;
+    record[name] = value === undefined ? fill(name, field, path) : convert(value, field, `${path}.${name}`);
+  }
+  return record;
+}
+
+/**
+ * Value for a field the snapshot does not have
+ */
+function fill(name: string, field: FieldDefinition, path: string): unknown {
+  if (field.default !== undefined) return field.default;
+  if (field.nullable) return null;
+  if (field.readOnly && DATE_TYPES.has(field.type)) return new Date();
+  throw new SnapshotError(`${path}.${name} is required but missing, and the field has no default`);
+}
+
+/**
+ * Convert a JSON value to a field's type
+ */
+function convert(value: unknown, field: FieldDefinition, path: string): unknown {
+  if (value === null) {
+    if (field.nullable || field.readOnly || field.default !== undefined) return null;
+    throw new SnapshotError(`${path} is null, but the field is not nullable`);
+  }
+
+  if (field.values && !field.values.includes(value as never)) {
+    throw new SnapshotError(`${path} is ${JSON.stringify(value)}, expected one of ${field.values.join(', ')}`);
+  }
+  if (DATE_TYPES.has(field.type)) {
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (isNaN(date.getTime())) {
+      throw new SnapshotError(`${path} is ${JSON.stringify(value)}, which is not a date`);
+    }
+    return date;
+  }
+  if (NUMBER_TYPES.has(field.type)) {
+    const number = typeof value === 'number' ? value : Number(value);
+    if (typeof value === 'boolean' || isNaN(number)) {
+      throw new SnapshotError(`${path} is ${JSON.stringify(value)}, which is not a number`);
+    }
+    return field.type === 'int' ? Math.trunc(number) : number;
+  }
+  if (field.type === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 1) return true;
+    if (value === 'false' || value === 0) return false;
+    throw new SnapshotError(`${path} is ${JSON.stringify(value)}, which is not a boolean`);
+  }
+  if (STRING_TYPES.has(field.type) && typeof value !== 'string') {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  return value;
+}
+
+/**
+ * Field types per entity, sorted so the digest does not depend on order
+ */
+function fieldTypes(schemas: EntitySchema[]): Record<string, Record<string, string>> {
+  const types: Record<string, Record<string, string>> = {};
+  for (const schema of [...schemas].sort((a, b) => a.name.localeCompare(b.name))) {
+    types[schema.name] = Object.fromEntries(
+      Object.entries(schema.fields)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, field]) => [name, field.type])
+    );
+  }
+  return types;
+}
+
+/**
+ * JSON form of a stored value: dates as ISO strings, bigints as strings
+ */
+function toJson(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toJson);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJson(item)]));
+  }
+  return value;
+}
+
+/**
+ * FNV-1a hash as 8 hex digits
+ */
+function digest(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
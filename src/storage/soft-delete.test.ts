@@ -0,0 +1,162 @@
+/**
+ * Unit tests for soft delete, restore and purge across the storage drivers
+ */
+import { describe, it, expect } from 'vitest';
+import { MemoryStorageDriver, MswStorageDriver, LocalStorageDriver } from './drivers';
+import { defineData, field, hasMany } from '../schema';
+import type { StorageDriver, ChangeEvent } from './types';
+
+const Author = defineData('author', {
+  id: field.uuid(),
+  name: field.string(),
+  posts: hasMany('note', { foreignKey: 'authorId' }),
+});
+
+const Note = defineData(
+  'note',
+  {
+    id: field.uuid(),
+    title: field.string(),
+    authorId: field.uuid(),
+  },
+  { softDelete: true }
+);
+
+const Tag = defineData('tag', {
+  id: field.uuid(),
+  label: field.string(),
+});
+
+const drivers: [string, () => StorageDriver][] = [
+  ['memory', () => new MemoryStorageDriver()],
+  ['msw', () => new MswStorageDriver()],
+  ['localStorage', () => new LocalStorageDriver()],
+];
+
+interface NoteRow {
+  id: string;
+  title: string;
+  deletedAt: Date | null;
+}
+
+function ids(rows: unknown[]): string[] {
+  return (rows as { id: string }[]).map((row) => row.id).sort();
+}
+
+async function listIds(driver: StorageDriver, options?: Parameters<StorageDriver['findMany']>[1]): Promise<string[]> {
+  const { data } = await driver.findMany('note', options);
+  return ids(data);
+}
+
+describe('defineData softDelete', () => {
+  it('adds a nullable, read-only deletedAt field', () => {
+    expect(Note.softDelete).toBe(true);
+    expect(Note.fields.deletedAt).toMatchObject({ type: 'datetime', nullable: true, readOnly: true });
+    expect(Tag.softDelete).toBe(false);
+    expect(Tag.fields.deletedAt).toBeUndefined();
+  });
+});
+
+describe.each(drivers)('%s driver', (_name, createDriver) => {
+  async function setup(): Promise<StorageDriver> {
+    const driver = createDriver();
+    await driver.initialize([Author, Note, Tag]);
+    await driver.create('author', { id: 'u1', name: 'Ada' });
+    await driver.createMany('note', [
+      { id: 'a', title: 'A', authorId: 'u1' },
+      { id: 'b', title: 'B', authorId: 'u1' },
+    ]);
+    await driver.create('tag', { id: 't1', label: 'misc' });
+    return driver;
+  }
+
+  it('delete sets deletedAt and hides the row from reads', async () => {
+    const driver = await setup();
+
+    expect(await driver.delete('note', { id: 'a' })).toBe(true);
+
+    expect(await listIds(driver)).toEqual(['b']);
+    expect(await driver.findOne('note', { id: 'a' })).toBeNull();
+    expect(await driver.count('note')).toBe(1);
+
+    const [row] = (await driver.getAll<NoteRow>('note')).filter((note) => note.id === 'a');
+    expect(row.deletedAt).toBeInstanceOf(Date);
+  });
+
+  it('reads deleted rows with withDeleted and onlyDeleted', async () => {
+    const driver = await setup();
+    await driver.delete('note', { id: 'a' });
+
+    expect(await listIds(driver, { withDeleted: true })).toEqual(['a', 'b']);
+    expect(await listIds(driver, { onlyDeleted: true })).toEqual(['a']);
+    expect(await driver.findOne('note', { id: 'a' }, { withDeleted: true })).not.toBeNull();
+    expect(await driver.count('note', undefined, { onlyDeleted: true })).toBe(1);
+  });
+
+  it('does not update deleted rows', async () => {
+    const driver = await setup();
+    await driver.delete('note', { id: 'a' });
+
+    expect(await driver.update('note', { id: 'a' }, { title: 'changed' })).toBeNull();
+  });
+
+  it('restore clears deletedAt', async () => {
+    const driver = await setup();
+    await driver.delete('note', { id: 'a' });
+
+    const restored = await driver.restore<NoteRow>('note', { id: 'a' });
+
+    expect(restored).toMatchObject({ id: 'a', deletedAt: null });
+    expect(await listIds(driver)).toEqual(['a', 'b']);
+    expect(await driver.restore('note', { id: 'b' })).toBeNull();
+  });
+
+  it('purge removes the row for good', async () => {
+    const driver = await setup();
+    await driver.delete('note', { id: 'a' });
+
+    expect(await driver.purge('note', { id: 'a' })).toBe(true);
+
+    expect(ids(await driver.getAll('note'))).toEqual(['b']);
+  });
+
+  it('deleteMany soft-deletes matching live rows', async () => {
+    const driver = await setup();
+
+    expect(await driver.deleteMany('note', { authorId: 'u1' })).toBe(2);
+
+    expect(await listIds(driver)).toEqual([]);
+    expect(await driver.getAll('note')).toHaveLength(2);
+  });
+
+  it('hides deleted rows from relations', async () => {
+    const driver = await setup();
+    await driver.delete('note', { id: 'a' });
+
+    const schemas = new Map([Author, Note, Tag].map((schema) => [schema.name, schema]));
+    const authors = await driver.getAll<Record<string, unknown>>('author');
+    const [author] = await driver.includeRelations('author', authors, ['posts'], schemas);
+
+    expect(ids(author.posts as unknown[])).toEqual(['b']);
+  });
+
+  it('still removes rows of entities without softDelete', async () => {
+    const driver = await setup();
+
+    await driver.delete('tag', { id: 't1' });
+
+    expect(await driver.getAll('tag')).toEqual([]);
+  });
+
+  it('emits soft delete and restore as updates and purge as a delete', async () => {
+    const driver = await setup();
+    const events: ChangeEvent['type'][] = [];
+    driver.subscribe?.('note', {}, (event) => events.push(event.type));
+
+    await driver.delete('note', { id: 'a' });
+    await driver.restore('note', { id: 'a' });
+    await driver.purge('note', { id: 'a' });
+
+    expect(events).toEqual(['update', 'update', 'delete']);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Soft Delete - Shared record visibility rules for storage drivers
+ *
+ * Entities defined with `softDelete: true` keep deleted records around with
+ * a `deletedAt` timestamp. Reads hide them unless the caller asks for
+ * `withDeleted` or `onlyDeleted`.
+ *
+ * @module storage/soft-delete
+ * @category Storage
+ */
+
+import type { EntitySchema } from '../schema/types';
+import type { SoftDeleteScope } from './types';
+
+/**
+ * Column that marks a record as soft-deleted
+ */
+export const DELETED_AT = 'deletedAt';
+
+/**
+ * Whether a record has been soft-deleted
+ */
+export function isDeleted(record: Record<string, unknown>): boolean {
+  return record[DELETED_AT] != null;
+}
+
+/**
+ * Whether a record is visible to a read with the given scope.
+ * Records of entities without soft delete are always visible.
+ *
+ * @example
+ * ```typescript
+ * records.filter((record) => isInScope(record, schema, { withDeleted: true }));
+ * ```
+ */
+export function isInScope(
+  record: Record<string, unknown>,
+  schema: EntitySchema | undefined,
+  scope?: SoftDeleteScope
+): boolean {
+  if (!schema?.softDelete) return true;
+  if (scope?.onlyDeleted) return isDeleted(record);
+  if (scope?.withDeleted) return true;
+  return !isDeleted(record);
+}
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for batch writes and transactions across the storage drivers
+ */
+import { describe, it, expect } from 'vitest';
+import { MemoryStorageDriver, MswStorageDriver, LocalStorageDriver } from './drivers';
+import { defineData, field } from '../schema';
+import type { StorageDriver } from './types';
+
+const Stock = defineData('stock', {
+  id: field.uuid(),
+  sku: field.string(),
+  quantity: field.number(),
+});
+
+const drivers: [string, () => StorageDriver][] = [
+  ['memory', () => new MemoryStorageDriver()],
+  ['msw', () => new MswStorageDriver()],
+  ['localStorage', () => new LocalStorageDriver()],
+];
+
+async function quantities(driver: StorageDriver): Promise<Record<string, number>> {
+  const rows = await driver.getAll<{ id: string; quantity: number }>('stock');
+  return Object.fromEntries(rows.map((row) => [row.id, row.quantity]));
+}
+
+describe.each(drivers)('%s driver', (_name, createDriver) => {
+  async function setup(): Promise<StorageDriver> {
+    const driver = createDriver();
+    await driver.initialize([Stock]);
+    await driver.createMany('stock', [
+      { id: 'a', sku: 'A', quantity: 5 },
+      { id: 'b', sku: 'B', quantity: 5 },
+    ]);
+    return driver;
+  }
+
+  it('commits a transaction and returns its result', async () => {
+    const driver = await setup();
+
+    const moved = await driver.transaction(async (tx) => {
+      await tx.update('stock', { id: 'a' }, { quantity: 4 });
+      await tx.update('stock', { id: 'b' }, { quantity: 6 });
+      return 1;
+    });
+
+    expect(moved).toBe(1);
+    expect(await quantities(driver)).toEqual({ a: 4, b: 6 });
+  });
+
+  it('rolls back every write when the callback throws', async () => {
+    const driver = await setup();
+
+    await expect(
+      driver.transaction(async (tx) => {
+        await tx.update('stock', { id: 'a' }, { quantity: 4 });
+        await tx.create('stock', { id: 'c', sku: 'C', quantity: 1 });
+        await tx.delete('stock', { id: 'b' });
+        throw new Error('out of stock');
+      })
+    ).rejects.toThrow('out of stock');
+
+    expect(await quantities(driver)).toEqual({ a: 5, b: 5 });
+  });
+
+  it('rolls back only the inner writes of a failed nested transaction', async () => {
+    const driver = await setup();
+
+    await driver.transaction(async (tx) => {
+      await tx.update('stock', { id: 'a' }, { quantity: 1 });
+      await tx.transaction(async (inner) => {
+        await inner.update('stock', { id: 'b' }, { quantity: 1 });
+        throw new Error('inner');
+      }).catch(() => undefined);
+    });
+
+    expect(await quantities(driver)).toEqual({ a: 1, b: 5 });
+  });
+
+  it('creates records in input order', async () => {
+    const driver = await setup();
+
+    const created = await driver.createMany<{ id: string; sku: string }>('stock', [
+      { id: 'c', sku: 'C', quantity: 1 },
+      { id: 'd', sku: 'D', quantity: 1 },
+    ]);
+
+    expect(created.map((row) => row.sku)).toEqual(['C', 'D']);
+    expect(await driver.count('stock')).toBe(4);
+    await expect(driver.createMany('missing', [{ sku: 'X' }])).rejects.toThrow("Entity 'missing' not found");
+  });
+
+  it('updates and deletes every matching record', async () => {
+    const driver = await setup();
+    await driver.create('stock', { id: 'c', sku: 'C', quantity: 9 });
+
+    const updated = await driver.updateMany<{ id: string }>('stock', { quantity: 5 }, { quantity: 0 });
+    expect(updated.map((row) => row.id).sort()).toEqual(['a', 'b']);
+    expect(await quantities(driver)).toEqual({ a: 0, b: 0, c: 9 });
+
+    expect(await driver.updateMany('stock', { sku: 'Z' }, { quantity: 1 })).toEqual([]);
+    expect(await driver.deleteMany('stock', { quantity: { lt: 1 } })).toBe(2);
+    expect(await driver.deleteMany('stock', { quantity: { lt: 1 } })).toBe(0);
+    expect(await quantities(driver)).toEqual({ c: 9 });
+  });
+});
@@ -6,11 +6,35 @@
  */
 
 import type { EntitySchema } from '../schema/types';
+import type { Snapshot, ImportSnapshotOptions, SnapshotImportResult } from './snapshot';
+
+/**
+ * Which records of a soft-delete entity a read sees. Without either flag
+ * only live records (`deletedAt` null) are returned. Ignored for entities
+ * without `softDelete`.
+ */
+export interface SoftDeleteScope {
+  /** Include soft-deleted records alongside live ones */
+  withDeleted?: boolean;
+  /** Return only soft-deleted records */
+  onlyDeleted?: boolean;
+}
+
+/**
+ * Options for single-record updates
+ */
+export interface UpdateOptions {
+  /**
+   * Version the update is based on. For `versioned` entities the update
+   * throws a ConflictError if the stored record has moved on.
+   */
+  expectedVersion?: number;
+}
 
 /**
  * Query options for findMany operations
  */
-export interface QueryOptions {
+export interface QueryOptions extends SoftDeleteScope {
   /** Filter conditions */
   where?: Record<string, unknown>;
   /** Sorting configuration */
@@ -19,6 +43,10 @@ export interface QueryOptions {
   limit?: number;
   /** Number of results to skip */
   offset?: number;
+  /** Opaque cursor from a previous page's nextCursor/prevCursor */
+  cursor?: string;
+  /** Pagination style; 'cursor' returns next/prev cursors even without a cursor */
+  pagination?: 'offset' | 'cursor';
   /** Relations to include */
   include?: string[];
 }
@@ -31,8 +59,36 @@ export interface QueryMeta {
   total: number;
   /** Whether there are more results available */
   hasMore: boolean;
+  /** Cursor for the following page (cursor pagination only) */
+  nextCursor?: string;
+  /** Cursor for the preceding page (cursor pagination only) */
+  prevCursor?: string;
+}
+
+/**
+ * A committed write, as delivered to subscribers
+ */
+export interface ChangeEvent<T = Record<string, unknown>> {
+  /** Kind of write */
+  type: 'insert' | 'update' | 'delete';
+  /** The entity name */
+  entity: string;
+  /** The record after the write (the removed record for deletes) */
+  record: T;
+  /** The record before an update */
+  previous?: T;
 }
 
+/**
+ * Callback receiving change events
+ */
+export type ChangeListener<T = Record<string, unknown>> = (event: ChangeEvent<T>) => void;
+
+/**
+ * Stops a subscription
+ */
+export type Unsubscribe = () => void;
+
 /**
  * Storage Driver Interface
  *
@@ -51,6 +107,12 @@ export interface QueryMeta {
  * const all = await driver.findMany('user', { where: { role: 'admin' } });
  * await driver.update('user', { id: user.id }, { name: 'Jane' });
  * await driver.delete('user', { id: user.id });
+ *
+ * // Atomic writes: nothing is kept if the callback throws
+ * await driver.transaction(async (tx) => {
+ *   await tx.update('stock', { id: from }, { quantity: 4 });
+ *   await tx.update('stock', { id: to }, { quantity: 6 });
+ * });
  * ```
  */
 export interface StorageDriver {
@@ -79,31 +141,42 @@ export interface StorageDriver {
    *
    * @param entity - The entity name
    * @param where - Filter conditions (usually { id: '...' })
+   * @param scope - Whether soft-deleted records may match
    * @returns The found record or null
    */
-  findOne<T>(entity: string, where: Record<string, unknown>): Promise<T | null>;
+  findOne<T>(entity: string, where: Record<string, unknown>, scope?: SoftDeleteScope): Promise<T | null>;
 
   /**
    * Find multiple records with filtering, sorting, and pagination.
    *
    * @param entity - The entity name
-   * @param options - Query options (where, orderBy, limit, offset)
+   * @param options - Query options (where, orderBy, limit, offset, cursor)
    * @returns Object containing data array and metadata
    */
   findMany<T>(entity: string, options?: QueryOptions): Promise<{ data: T[]; meta: QueryMeta }>;
 
   /**
-   * Update a record.
+   * Update a record. Soft-deleted records are never updated, and the
+   * `version` of versioned records is incremented.
    *
    * @param entity - The entity name
    * @param where - Filter to identify the record
    * @param data - The data to update
+   * @param options - Optional expected version
    * @returns The updated record or null if not found
+   * @throws ConflictError if `expectedVersion` is stale
    */
-  update<T>(entity: string, where: Record<string, unknown>, data: Record<string, unknown>): Promise<T | null>;
+  update<T>(
+    entity: string,
+    where: Record<string, unknown>,
+    data: Record<string, unknown>,
+    options?: UpdateOptions
+  ): Promise<T | null>;
 
   /**
-   * Delete a record.
+   * Delete a record. For soft-delete entities this sets `deletedAt` on a
+   * live record (delivered to subscribers as an update) instead of
+   * removing it.
    *
    * @param entity - The entity name
    * @param where - Filter to identify the record
@@ -111,17 +184,79 @@ export interface StorageDriver {
    */
   delete(entity: string, where: Record<string, unknown>): Promise<boolean>;
 
+  /**
+   * Bring back a soft-deleted record by clearing its `deletedAt`.
+   *
+   * @param entity - The entity name
+   * @param where - Filter to identify the record
+   * @returns The restored record, or null if no deleted record matched
+   */
+  restore<T>(entity: string, where: Record<string, unknown>): Promise<T | null>;
+
+  /**
+   * Permanently remove a record, whether or not it was soft-deleted.
+   *
+   * @param entity - The entity name
+   * @param where - Filter to identify the record
+   * @returns True if removed, false if not found
+   */
+  purge(entity: string, where: Record<string, unknown>): Promise<boolean>;
+
+  /**
+   * Create several records at once. Either all records are created or,
+   * if one fails, none are.
+   *
+   * @param entity - The entity name
+   * @param data - The records to create
+   * @returns The created records, in input order
+   */
+  createMany<T>(entity: string, data: Record<string, unknown>[]): Promise<T[]>;
+
+  /**
+   * Update every record matching a filter.
+   *
+   * @param entity - The entity name
+   * @param where - Filter conditions
+   * @param data - The data to update
+   * @returns The updated records (empty if none matched)
+   */
+  updateMany<T>(entity: string, where: Record<string, unknown>, data: Record<string, unknown>): Promise<T[]>;
+
+  /**
+   * Delete every record matching a filter (soft-deleting live records for
+   * soft-delete entities).
+   *
+   * @param entity - The entity name
+   * @param where - Filter conditions
+   * @returns The number of deleted records
+   */
+  deleteMany(entity: string, where: Record<string, unknown>): Promise<number>;
+
+  /**
+   * Run a callback atomically. If it throws, every write made since the
+   * transaction started is rolled back and the error is rethrown.
+   *
+   * Nested calls behave like savepoints: an inner failure only rolls back
+   * the inner writes.
+   *
+   * @param fn - Callback receiving the driver to write through
+   * @returns The callback's result
+   */
+  transaction<T>(fn: (tx: StorageDriver) => Promise<T>): Promise<T>;
+
   /**
    * Count records matching filter.
    *
    * @param entity - The entity name
    * @param where - Optional filter conditions
+   * @param scope - Whether soft-deleted records are counted
    * @returns The count of matching records
    */
-  count(entity: string, where?: Record<string, unknown>): Promise<number>;
+  count(entity: string, where?: Record<string, unknown>, scope?: SoftDeleteScope): Promise<number>;
 
   /**
-   * Include related entities (JOIN-like behavior).
+   * Include related entities (JOIN-like behavior). Soft-deleted related
+   * records are left out.
    * Each driver implements this according to its capabilities.
    *
    * @param entity - The entity name
@@ -151,12 +286,47 @@ export interface StorageDriver {
   reset(): Promise<void>;
 
   /**
-   * Get all records for an entity (useful for debugging).
+   * Get all records for an entity (useful for debugging), including
+   * soft-deleted ones.
    *
    * @param entity - The entity name
    * @returns All records of that type
    */
   getAll<T>(entity: string): Promise<T[]>;
+
+  /**
+   * Copy every record, including soft-deleted ones, into a snapshot with
+   * the schema version it was taken with.
+   *
+   * @returns The snapshot, ready for `JSON.stringify`
+   */
+  exportSnapshot(): Promise<Snapshot>;
+
+  /**
+   * Replace all records with those of a snapshot, migrating them to the
+   * current schemas first. Subscribers are not notified.
+   *
+   * @param snapshot - Snapshot or its JSON text (scenario datasets work too)
+   * @param options - Renames since the snapshot was taken
+   * @returns The applied migrations and imported counts
+   * @throws SnapshotError if the records cannot be migrated; nothing is replaced then
+   */
+  importSnapshot(snapshot: Snapshot | string, options?: ImportSnapshotOptions): Promise<SnapshotImportResult>;
+
+  /**
+   * Observe inserts, updates and deletes of an entity.
+   *
+   * Writes made inside a transaction are delivered once it commits and
+   * dropped if it rolls back. An update is delivered when either the new
+   * or the previous record matches the filter, so subscribers see records
+   * leaving the filter too.
+   *
+   * @param entity - The entity name
+   * @param where - Filter conditions ({} for every record)
+   * @param callback - Called once per committed write
+   * @returns Function that stops the subscription
+   */
+  subscribe?<T>(entity: string, where: Record<string, unknown>, callback: ChangeListener<T>): Unsubscribe;
 }
 
 /**
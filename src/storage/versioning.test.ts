@@ -0,0 +1,129 @@
+/**
+ * Unit tests for optimistic concurrency across the storage drivers
+ */
+import { describe, it, expect } from 'vitest';
+import { MemoryStorageDriver, MswStorageDriver, LocalStorageDriver } from './drivers';
+import { MockAdapter } from '../adapters/mock/adapter';
+import { ConflictError, nextVersion } from './versioning';
+import { defineData, field } from '../schema';
+import type { StorageDriver } from './types';
+
+const Doc = defineData(
+  'doc',
+  {
+    id: field.uuid(),
+    title: field.string(),
+  },
+  { versioned: true }
+);
+
+const Tag = defineData('tag', {
+  id: field.uuid(),
+  label: field.string(),
+});
+
+const drivers: [string, () => StorageDriver][] = [
+  ['memory', () => new MemoryStorageDriver()],
+  ['msw', () => new MswStorageDriver()],
+  ['localStorage', () => new LocalStorageDriver()],
+];
+
+interface DocRow {
+  id: string;
+  title: string;
+  version: number;
+}
+
+describe('defineData versioned', () => {
+  it('adds a read-only version field starting at 1', () => {
+    expect(Doc.versioned).toBe(true);
+    expect(Doc.fields.version).toMatchObject({ type: 'int', default: 1, readOnly: true });
+    expect(Tag.versioned).toBe(false);
+    expect(Tag.fields.version).toBeUndefined();
+  });
+});
+
+describe('nextVersion', () => {
+  it('returns no fields for entities without versioned', () => {
+    expect(nextVersion('tag', Tag, { id: 't1' }, 3)).toEqual({});
+  });
+
+  it('bumps the stored version', () => {
+    expect(nextVersion('doc', Doc, { version: 2 })).toEqual({ version: 3 });
+    expect(nextVersion('doc', Doc, { version: 2 }, 2)).toEqual({ version: 3 });
+  });
+
+  it('throws ConflictError with the stored record for a stale version', () => {
+    const stored = { id: 'a', version: 4 };
+
+    let thrown: unknown;
+    try {
+      nextVersion('doc', Doc, stored, 3);
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(ConflictError);
+    expect(thrown).toMatchObject({ code: 'CONFLICT', status: 409, current: stored, expectedVersion: 3 });
+  });
+});
+
+describe.each(drivers)('%s driver', (_name, createDriver) => {
+  async function setup(): Promise<StorageDriver> {
+    const driver = createDriver();
+    await driver.initialize([Doc, Tag]);
+    await driver.create('doc', { id: 'a', title: 'Draft' });
+    return driver;
+  }
+
+  it('creates versioned records at version 1', async () => {
+    const driver = await setup();
+
+    expect(await driver.findOne<DocRow>('doc', { id: 'a' })).toMatchObject({ version: 1 });
+  });
+
+  it('bumps the version on every update', async () => {
+    const driver = await setup();
+
+    await driver.update('doc', { id: 'a' }, { title: 'One' });
+    const updated = await driver.update<DocRow>('doc', { id: 'a' }, { title: 'Two' }, { expectedVersion: 2 });
+
+    expect(updated).toMatchObject({ title: 'Two', version: 3 });
+  });
+
+  it('rejects a stale expectedVersion and keeps the stored record', async () => {
+    const driver = await setup();
+    await driver.update('doc', { id: 'a' }, { title: 'Theirs' }, { expectedVersion: 1 });
+
+    await expect(driver.update('doc', { id: 'a' }, { title: 'Mine' }, { expectedVersion: 1 })).rejects.toMatchObject({
+      name: 'ConflictError',
+      current: { title: 'Theirs', version: 2 },
+    });
+    expect(await driver.findOne<DocRow>('doc', { id: 'a' })).toMatchObject({ title: 'Theirs', version: 2 });
+  });
+
+  it('ignores expectedVersion for entities without versioned', async () => {
+    const driver = await setup();
+    await driver.create('tag', { id: 't1', label: 'misc' });
+
+    const updated = await driver.update('tag', { id: 't1' }, { label: 'other' }, { expectedVersion: 7 });
+
+    expect(updated).toMatchObject({ label: 'other' });
+    expect(updated).not.toHaveProperty('version');
+  });
+});
+
+describe('MockAdapter.update', () => {
+  it('returns a ConflictError for a stale expectedVersion', async () => {
+    const adapter = new MockAdapter({ driver: new MemoryStorageDriver(), schemas: [Doc] });
+    await adapter.initialize();
+    await adapter.create({ entity: 'doc', data: { id: 'a', title: 'Draft' } });
+    await adapter.update({ entity: 'doc', params: { id: 'a' }, data: { title: 'Theirs' } });
+
+    const result = await adapter.update({ entity: 'doc', params: { id: 'a' }, data: { title: 'Mine' }, expectedVersion: 1 });
+
+    expect(result.data).toBeNull();
+    expect(result.error).toBeInstanceOf(ConflictError);
+    expect((result.error as ConflictError).current).toMatchObject({ title: 'Theirs', version: 2 });
+  });
+});
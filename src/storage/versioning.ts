@@ -0,0 +1,77 @@
+/**
+ * Versioning - Optimistic concurrency rules for storage drivers
+ *
+ * Entities defined with `versioned: true` carry a `version` integer that
+ * starts at 1 and is incremented by every update. An update that names the
+ * version it was based on (`expectedVersion`) only succeeds if nobody has
+ * written the record since.
+ *
+ * @module storage/versioning
+ * @category Storage
+ */
+
+import type { EntitySchema } from '../schema/types';
+
+/**
+ * Column holding a versioned record's version number
+ */
+export const VERSION = 'version';
+
+/**
+ * Error thrown when an update's expected version is stale
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await driver.update('post', { id }, { title }, { expectedVersion: 3 });
+ * } catch (error) {
+ *   if (error instanceof ConflictError) showMergeDialog(error.current);
+ * }
+ * ```
+ */
+export class ConflictError<T = Record<string, unknown>> extends Error {
+  /** Error code for programmatic handling */
+  readonly code = 'CONFLICT';
+
+  /** HTTP status for API responses */
+  readonly status = 409;
+
+  /** The record as currently stored */
+  readonly current: T;
+
+  /** The version the rejected update was based on */
+  readonly expectedVersion: number;
+
+  constructor(entity: string, current: T, expectedVersion: number) {
+    const actual = (current as Record<string, unknown>)[VERSION];
+    super(`Version conflict on ${entity}: expected version ${expectedVersion}, found ${actual}`);
+    this.name = 'ConflictError';
+    this.current = current;
+    this.expectedVersion = expectedVersion;
+  }
+}
+
+/**
+ * Check an update against the stored record and return the fields that
+ * bump its version. Returns no fields for entities without `versioned`.
+ *
+ * @param entity - The entity name (for the error message)
+ * @param schema - The entity schema
+ * @param existing - The record as currently stored
+ * @param expectedVersion - Version the update was based on, if any
+ * @throws ConflictError if `expectedVersion` does not match the stored version
+ */
+export function nextVersion(
+  entity: string,
+  schema: EntitySchema | undefined,
+  existing: Record<string, unknown>,
+  expectedVersion?: number
+): Record<string, unknown> {
+  if (!schema?.versioned) return {};
+
+  const version = Number(existing[VERSION] ?? 1);
+  if (expectedVersion !== undefined && expectedVersion !== version) {
+    throw new ConflictError(entity, existing, expectedVersion);
+  }
+  return { [VERSION]: version + 1 };
+}
@@ -9,6 +9,7 @@ export default defineConfig([
       'runtime/index': 'src/runtime/index.ts',
       'adapters/index': 'src/adapters/index.ts',
       'middleware/index': 'src/middleware/index.ts',
+      'security/index': 'src/security/index.ts',
       'react/index': 'src/react/index.ts',
       'cli/index': 'src/cli/index.ts',
       'seed/index': 'src/seed/index.ts',